@@ -0,0 +1,16 @@
+import { rebuildSearchIndex } from '../src/search/indexer';
+
+async function main() {
+  console.log('🔍 Rebuilding listing search index...');
+  console.log(`📊 Using table: ${process.env.SEARCH_INDEX_TABLE || 'harborlist-search-index'}`);
+
+  const listings = await rebuildSearchIndex();
+
+  console.log(`✅ Indexed ${listings.length} listings`);
+  console.log('ℹ️  Running search containers pick up the changes on their next sync');
+}
+
+main().catch((error: any) => {
+  console.error('❌ Error:', error.message);
+  process.exit(1);
+});
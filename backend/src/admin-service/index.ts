@@ -39,6 +39,7 @@ import {
   AuthenticatedEvent as MiddlewareAuthenticatedEvent
 } from '../shared/middleware';
 import { AdminPermission } from '../types/common';
+import { DuplicateComparison } from '@harborlist/shared-types';
 
 // Phase 3: Import team management handler and functions
 import { handler as teamsHandler } from './teams-handler';
@@ -53,6 +54,26 @@ import {
   isValidTeamAssignment 
 } from '../types/teams';
 import { calculateEffectivePermissions } from '../shared/team-permissions';
+import { reindexListing } from '../search/indexer';
+import { notifyWatchersOfChange } from '../favorites/watch-notifier';
+import { getOpenReports, getReportPriority, reviewListingReport } from '../listing/listing-reports';
+import {
+  assignModerationItems,
+  getModerationWorkload,
+  rebalanceModerationQueue,
+  updateModerationQueueConfig,
+} from '../listing/moderation-routing';
+import { buildListingFingerprint, getDuplicateComparisons } from '../listing/duplicate-detection';
+import {
+  AUTO_APPROVABLE_FIELDS,
+  applyFieldDecisions,
+  getAutoApprovalRules,
+  getPendingUpdateFieldChanges,
+  updateAutoApprovalRules,
+} from '../listing/pending-updates';
+import { saveListingFingerprint } from '../shared/fingerprint-store';
+import { compileContentFilter, dryRunContentFilter, validateContentFilterRules } from '../shared/content-filter';
+import { getActiveRuleSet, getRuleSetVersion, listRuleSetVersions, publishRuleSet } from '../shared/content-filter-rules';
 
 // Use the proper AuthenticatedEvent type from middleware
 type AuthenticatedEvent = MiddlewareAuthenticatedEvent;
@@ -301,6 +322,56 @@ export const handler = async (event: APIGatewayProxyEvent, context: any): Promis
       )(handleExportAuditLogs)(event as AuthenticatedEvent, {});
     }
 
+    // Content filter rule endpoints
+    if (path.includes('/settings/content-filter/dry-run') && method === 'POST') {
+      return await compose(
+        withRateLimit(10, 60000),
+        withAdminAuth([AdminPermission.PLATFORM_SETTINGS]),
+        withAuditLog('DRY_RUN_CONTENT_FILTER', 'settings')
+      )(handleDryRunContentFilter)(event as AuthenticatedEvent, {});
+    }
+
+    if (path.includes('/settings/content-filter/versions') && method === 'GET') {
+      return await compose(
+        withRateLimit(100, 60000),
+        withAdminAuth([AdminPermission.PLATFORM_SETTINGS]),
+        withAuditLog('VIEW_CONTENT_FILTER_VERSIONS', 'settings')
+      )(handleGetContentFilterVersions)(event as AuthenticatedEvent, {});
+    }
+
+    if (path.endsWith('/settings/content-filter') && method === 'GET') {
+      return await compose(
+        withRateLimit(100, 60000),
+        withAdminAuth([AdminPermission.PLATFORM_SETTINGS]),
+        withAuditLog('VIEW_CONTENT_FILTER', 'settings')
+      )(handleGetContentFilterRules)(event as AuthenticatedEvent, {});
+    }
+
+    if (path.endsWith('/settings/content-filter') && method === 'PUT') {
+      return await compose(
+        withRateLimit(20, 60000),
+        withAdminAuth([AdminPermission.PLATFORM_SETTINGS]),
+        withAuditLog('PUBLISH_CONTENT_FILTER', 'settings')
+      )(handlePublishContentFilterRules)(event as AuthenticatedEvent, {});
+    }
+
+    // Pending update auto-approval endpoints
+    if (path.endsWith('/settings/pending-update-auto-approval') && method === 'GET') {
+      return await compose(
+        withRateLimit(100, 60000),
+        withAdminAuth([AdminPermission.PLATFORM_SETTINGS]),
+        withAuditLog('VIEW_AUTO_APPROVAL_RULES', 'settings')
+      )(handleGetAutoApprovalRules)(event as AuthenticatedEvent, {});
+    }
+
+    if (path.endsWith('/settings/pending-update-auto-approval') && method === 'PUT') {
+      return await compose(
+        withRateLimit(20, 60000),
+        withAdminAuth([AdminPermission.PLATFORM_SETTINGS]),
+        withAuditLog('UPDATE_AUTO_APPROVAL_RULES', 'settings')
+      )(handleUpdateAutoApprovalRules)(event as AuthenticatedEvent, {});
+    }
+
     // Platform settings endpoints
     if (path.includes('/settings') && method === 'GET' && !path.includes('/settings/')) {
       return await compose(
@@ -395,6 +466,57 @@ export const handler = async (event: APIGatewayProxyEvent, context: any): Promis
       )(handleRejectPendingUpdate)(event as AuthenticatedEvent, {});
     }
 
+    // Approve or reject a pending update field by field
+    if (path.match(/\/listings\/[^/]+\/pending-update\/review$/) && method === 'POST') {
+      return await compose(
+        withRateLimit(20, 60000),
+        withAdminAuth([AdminPermission.CONTENT_MODERATION]),
+        withAuditLog('REVIEW_PENDING_UPDATE', 'moderation')
+      )(handleReviewPendingUpdate)(event as AuthenticatedEvent, {});
+    }
+
+    // Resolve or dismiss a user report
+    if (path.match(/\/listings\/[^/]+\/reports\/[^/]+\/(resolve|dismiss)$/) && method === 'POST') {
+      return await compose(
+        withRateLimit(60, 60000),
+        withAdminAuth([AdminPermission.CONTENT_MODERATION]),
+        withAuditLog('REVIEW_LISTING_REPORT', 'moderation')
+      )(handleReviewListingReport)(event as AuthenticatedEvent, {});
+    }
+
+    // Moderation queue workload and routing
+    if (path.endsWith('/moderation/workload') && method === 'GET') {
+      return await compose(
+        withRateLimit(100, 60000),
+        withAdminAuth([AdminPermission.CONTENT_MODERATION]),
+        withAuditLog('VIEW_MODERATION_WORKLOAD', 'moderation')
+      )(handleGetModerationWorkload)(event as AuthenticatedEvent, {});
+    }
+
+    if (path.endsWith('/moderation/workload/rebalance') && method === 'POST') {
+      return await compose(
+        withRateLimit(10, 60000),
+        withAdminAuth([AdminPermission.CONTENT_MODERATION]),
+        withAuditLog('REBALANCE_MODERATION_QUEUE', 'moderation')
+      )(handleRebalanceModerationQueue)(event as AuthenticatedEvent, {});
+    }
+
+    if (path.endsWith('/moderation/workload/auto-balance') && method === 'PUT') {
+      return await compose(
+        withRateLimit(20, 60000),
+        withAdminAuth([AdminPermission.CONTENT_MODERATION]),
+        withAuditLog('UPDATE_MODERATION_AUTO_ASSIGNMENT', 'moderation')
+      )(handleSetModerationAutoAssignment)(event as AuthenticatedEvent, {});
+    }
+
+    if (path.endsWith('/moderation/assign') && method === 'POST') {
+      return await compose(
+        withRateLimit(60, 60000),
+        withAdminAuth([AdminPermission.CONTENT_MODERATION]),
+        withAuditLog('ASSIGN_MODERATOR', 'moderation')
+      )(handleAssignModerator)(event as AuthenticatedEvent, {});
+    }
+
     if (path.includes('/moderation/stats') && method === 'GET') {
       return await compose(
         withRateLimit(100, 60000),
@@ -2839,6 +2961,171 @@ async function handleGetSettingsAuditLog(event: AuthenticatedEvent): Promise<API
   });
 }
 
+/**
+ * Most recent listings a content filter dry run scans by default, and at most
+ */
+const DRY_RUN_DEFAULT_LISTINGS = 200;
+const DRY_RUN_MAX_LISTINGS = 1000;
+
+/**
+ * Get the content filter rules in use
+ */
+async function handleGetContentFilterRules(event: AuthenticatedEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const ruleSet = await getActiveRuleSet();
+    return createResponse(200, { ruleSet });
+  } catch (error) {
+    console.error(`[${requestId}] Error loading content filter rules:`, error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Failed to load content filter rules', requestId);
+  }
+}
+
+/**
+ * List published content filter versions, or get one version
+ * (`/settings/content-filter/versions/{version}`)
+ */
+async function handleGetContentFilterVersions(event: AuthenticatedEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+  const pathParts = event.path.split('/');
+  const versionParam = pathParts[pathParts.indexOf('versions') + 1];
+
+  try {
+    if (!versionParam) {
+      const versions = await listRuleSetVersions();
+      return createResponse(200, { versions });
+    }
+
+    const version = Number(versionParam);
+    const ruleSet = Number.isInteger(version) && version >= 0 ? await getRuleSetVersion(version) : null;
+    if (!ruleSet) {
+      return createErrorResponse(404, 'NOT_FOUND', `Content filter version ${versionParam} not found`, requestId);
+    }
+    return createResponse(200, { ruleSet });
+  } catch (error) {
+    console.error(`[${requestId}] Error loading content filter versions:`, error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Failed to load content filter versions', requestId);
+  }
+}
+
+/**
+ * Get the rules for auto-approving low-risk pending updates
+ */
+async function handleGetAutoApprovalRules(event: AuthenticatedEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const rules = await getAutoApprovalRules();
+    return createResponse(200, { rules, autoApprovableFields: AUTO_APPROVABLE_FIELDS });
+  } catch (error) {
+    console.error(`[${requestId}] Error loading auto-approval rules:`, error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Failed to load auto-approval rules', requestId);
+  }
+}
+
+/**
+ * Replace the rules for auto-approving low-risk pending updates
+ */
+async function handleUpdateAutoApprovalRules(event: AuthenticatedEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const rules = await updateAutoApprovalRules({
+      enabled: body.enabled,
+      maxPriceDecreasePercent: body.maxPriceDecreasePercent,
+      maxPriceDecreaseAmount: body.maxPriceDecreaseAmount,
+      lowRiskFields: body.lowRiskFields,
+    }, event.user.email || event.user.sub);
+
+    console.log(`Pending update auto-approval rules updated by ${rules.updatedBy}`);
+    return createResponse(200, { rules, autoApprovableFields: AUTO_APPROVABLE_FIELDS, message: 'Auto-approval rules updated' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message.startsWith('Pending update auto-approval rules are invalid')) {
+      return createErrorResponse(400, 'VALIDATION_ERROR', message, requestId);
+    }
+    console.error(`[${requestId}] Error updating auto-approval rules:`, error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Failed to update auto-approval rules', requestId);
+  }
+}
+
+/**
+ * Publish a new version of the content filter rules
+ */
+async function handlePublishContentFilterRules(event: AuthenticatedEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const ruleSet = await publishRuleSet({
+      rules: body.rules,
+      allowlist: body.allowlist,
+      expectedVersion: body.expectedVersion,
+      changeNote: typeof body.changeNote === 'string' ? body.changeNote.slice(0, 500) : undefined,
+    }, event.user.email || event.user.sub);
+
+    console.log(`Content filter rules v${ruleSet.version} published by ${ruleSet.publishedBy}`);
+    return createResponse(200, { ruleSet, message: `Published content filter version ${ruleSet.version}` });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message.startsWith('Invalid content filter rules')) {
+      return createErrorResponse(400, 'VALIDATION_ERROR', message, requestId);
+    }
+    if (message.startsWith('Content filter rules have changed')) {
+      return createErrorResponse(409, 'VERSION_CONFLICT', message, requestId);
+    }
+    console.error(`[${requestId}] Error publishing content filter rules:`, error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Failed to publish content filter rules', requestId);
+  }
+}
+
+/**
+ * Report what edited content filter rules would flag across the most recent
+ * listings, compared with the rules in use
+ */
+async function handleDryRunContentFilter(event: AuthenticatedEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const errors = validateContentFilterRules(body.rules, body.allowlist);
+    if (errors.length > 0) {
+      return createErrorResponse(400, 'VALIDATION_ERROR', `Invalid content filter rules: ${errors.join('; ')}`, requestId);
+    }
+    const limit = Math.min(Math.max(parseInt(body.limit) || DRY_RUN_DEFAULT_LISTINGS, 1), DRY_RUN_MAX_LISTINGS);
+
+    const listings: any[] = [];
+    let lastKey: Record<string, any> | undefined;
+    do {
+      const result = await docClient.send(new ScanCommand({
+        TableName: LISTINGS_TABLE,
+        ProjectionExpression: 'listingId, title, description, createdAt',
+        ExclusiveStartKey: lastKey,
+      }));
+      listings.push(...(result.Items || []));
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    const recent = listings
+      .sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0))
+      .slice(0, limit);
+
+    const current = compileContentFilter(await getActiveRuleSet());
+    const proposed = compileContentFilter({
+      version: current.version + 1,
+      rules: body.rules.map((rule: any, index: number) => ({ ...rule, id: rule.id || `new-${index + 1}` })),
+      allowlist: body.allowlist,
+    });
+
+    return createResponse(200, dryRunContentFilter(recent, current, proposed));
+  } catch (error) {
+    console.error(`[${requestId}] Error running content filter dry run:`, error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Failed to run content filter dry run', requestId);
+  }
+}
+
 /**
  * SUPPORT HANDLERS - Real data implementations
  */
@@ -3115,12 +3402,21 @@ async function handleGetFlaggedListings(event: AuthenticatedEvent): Promise<APIG
     // Filter for listings that need moderation:
     // 1. Status is pending_review or under_review
     // 2. OR listing has pendingUpdate (active listings with pending changes)
+    // 3. OR user reports flagged the listing for review
     const listingsNeedingReview = (result.Items || []).filter((listing: any) => {
       const hasPendingUpdate = listing.pendingUpdate && listing.pendingUpdate.status === 'pending_review';
       const isPendingReview = listing.status === 'pending_review' || listing.status === 'under_review';
-      return hasPendingUpdate || isPendingReview;
+      return hasPendingUpdate || isPendingReview || listing.moderationStatus === 'flagged';
     });
 
+    // Open queue items carry the assigned moderator and SLA due date
+    const openQueueItems = new Map<string, any>();
+    for (const status of ['pending', 'in_review'] as const) {
+      for (const item of await db.getModerationItemsByStatus(status)) {
+        openQueueItems.set(item.listingId, item);
+      }
+    }
+
     // Fetch owner details for all listings needing review
     const ownerIds = [...new Set(listingsNeedingReview.map((item: any) => item.ownerId))];
     const ownerMap = new Map<string, any>();
@@ -3148,6 +3444,9 @@ async function handleGetFlaggedListings(event: AuthenticatedEvent): Promise<APIG
 
       // Determine if this is a pending update or new/resubmission
       const hasPendingUpdate = listing.pendingUpdate && listing.pendingUpdate.status === 'pending_review';
+      const openReports = getOpenReports(listing.flags);
+      const isReported = listing.moderationStatus === 'flagged' && openReports.length > 0;
+      const queueItem = openQueueItems.get(listing.listingId);
 
       return {
         listingId: listing.listingId,
@@ -3155,12 +3454,19 @@ async function handleGetFlaggedListings(event: AuthenticatedEvent): Promise<APIG
         ownerId: listing.ownerId,
         ownerName,
         ownerEmail,
-        flagReason: listing.moderationStatus?.rejectionReason || (hasPendingUpdate ? 'Update pending review' : 'Pending review'),
+        flagReason: listing.moderationStatus?.rejectionReason || (hasPendingUpdate ? 'Update pending review' : isReported ? 'Reported by users' : 'Pending review'),
         status: listing.status, // Use database status directly - no mapping needed
         flags: listing.flags || [], // Only show actual flags, not auto-generated ones
-        flaggedAt: listing.moderationStatus?.reviewedAt 
+        flaggedAt: isReported
+          ? openReports[0].reportedAt
+          : listing.moderationStatus?.reviewedAt 
           ? new Date(listing.moderationStatus.reviewedAt * 1000).toISOString()
           : new Date(listing.createdAt * 1000).toISOString(),
+        priority: getReportPriority(openReports) || undefined,
+        openReports: openReports.length,
+        assignedTo: queueItem?.assignedTo,
+        dueDate: queueItem?.dueDate,
+        escalated: queueItem?.escalated,
         images: listing.images || [],
         price: listing.price,
         location: listing.location,
@@ -3223,6 +3529,14 @@ async function handleGetListingDetails(event: AuthenticatedEvent): Promise<APIGa
       }
     }
 
+    // Listings matched by duplicate detection, for side-by-side review
+    let duplicateMatches: DuplicateComparison[] = [];
+    try {
+      duplicateMatches = await getDuplicateComparisons(listing.flags);
+    } catch (err) {
+      console.error(`Failed to load duplicate matches for listing ${listingId}:`, err);
+    }
+
     // Format response
     const detailedListing = {
       listingId: listing.listingId,
@@ -3237,6 +3551,9 @@ async function handleGetListingDetails(event: AuthenticatedEvent): Promise<APIGa
       flaggedAt: listing.moderationStatus?.reviewedAt 
         ? new Date(listing.moderationStatus.reviewedAt * 1000).toISOString()
         : new Date(listing.createdAt * 1000).toISOString(),
+      priority: getReportPriority(getOpenReports(listing.flags)) || undefined,
+      openReports: getOpenReports(listing.flags).length,
+      duplicateMatches,
       images: listing.images || [],
       price: listing.price,
       location: listing.location,
@@ -3255,6 +3572,7 @@ async function handleGetListingDetails(event: AuthenticatedEvent): Promise<APIGa
       submissionType: listing.moderationWorkflow?.submissionType || 'initial',
       previousReviewCount: listing.moderationWorkflow?.previousReviewCount || 0,
       pendingUpdate: listing.pendingUpdate, // Include pending update data
+      pendingUpdateFields: getPendingUpdateFieldChanges(listing),
       priceHistory: listing.priceHistory || [] // Include price history
     };
 
@@ -3312,12 +3630,24 @@ async function handleGetModerationStats(event: AuthenticatedEvent): Promise<APIG
       averageReviewTime = Number(((totalReviewTime / reviewedListings.length) / 3600).toFixed(1));
     }
 
+    // Queue backlog, per-moderator workload and SLA compliance come from the moderation queue
+    const queueWorkload = await getModerationWorkload();
+
     const mockStats = {
       totalFlagged: flagged,
       pendingReview: pending,
       approvedToday,
       rejectedToday,
-      averageReviewTime
+      averageReviewTime,
+      queueBacklog: queueWorkload.unassigned + queueWorkload.workload.reduce((sum, moderator) => sum + moderator.currentLoad, 0),
+      moderatorWorkload: queueWorkload.workload.map(moderator => ({
+        moderatorId: moderator.moderatorId,
+        moderatorName: moderator.moderatorName,
+        assignedItems: moderator.currentLoad,
+        completedToday: moderator.completedToday,
+        averageReviewTime: moderator.averageReviewTime,
+      })),
+      slaCompliance: queueWorkload.slaCompliance
     };
 
     return ResponseHandler.success(mockStats);
@@ -3327,6 +3657,71 @@ async function handleGetModerationStats(event: AuthenticatedEvent): Promise<APIG
   });
 }
 
+/**
+ * Workload of the content moderation team, with backlog and SLA compliance
+ */
+async function handleGetModerationWorkload(event: AuthenticatedEvent): Promise<APIGatewayProxyResult> {
+  return ResponseHandler.wrapHandler(async () => {
+    return ResponseHandler.success(await getModerationWorkload());
+  }, {
+    operation: 'getModerationWorkload',
+    requestId: event.requestContext.requestId
+  });
+}
+
+/**
+ * Routes the unassigned backlog and moves items off overloaded moderators
+ */
+async function handleRebalanceModerationQueue(event: AuthenticatedEvent): Promise<APIGatewayProxyResult> {
+  return ResponseHandler.wrapHandler(async () => {
+    const result = await rebalanceModerationQueue();
+    console.log(`[${event.requestContext.requestId}] Moderation queue rebalanced by ${event.user.email}:`, JSON.stringify(result));
+    return ResponseHandler.success(result);
+  }, {
+    operation: 'rebalanceModerationQueue',
+    requestId: event.requestContext.requestId
+  });
+}
+
+/**
+ * Turns auto-assignment of new queue items on or off
+ */
+async function handleSetModerationAutoAssignment(event: AuthenticatedEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+  const body = JSON.parse(event.body || '{}');
+  if (typeof body.enabled !== 'boolean') {
+    return createErrorResponse(400, 'VALIDATION_ERROR', 'enabled must be true or false', requestId);
+  }
+
+  try {
+    const queue = await updateModerationQueueConfig({ autoAssignment: body.enabled });
+    return createResponse(200, { autoAssignment: queue.autoAssignment });
+  } catch (error) {
+    console.error(`[${requestId}] Error updating moderation auto-assignment:`, error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Failed to update auto-assignment', requestId);
+  }
+}
+
+/**
+ * Assigns listings' open queue items to a moderator
+ */
+async function handleAssignModerator(event: AuthenticatedEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const result = await assignModerationItems(body.listingIds, body.moderatorId);
+    return createResponse(200, result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message.startsWith('Moderation queue')) {
+      return createErrorResponse(400, 'VALIDATION_ERROR', message, requestId);
+    }
+    console.error(`[${requestId}] Error assigning moderator:`, error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Failed to assign moderator', requestId);
+  }
+}
+
 /**
  * Approve pending update - merge changes into main listing
  */
@@ -3400,10 +3795,25 @@ async function handleApprovePendingUpdate(event: AuthenticatedEvent): Promise<AP
 
     // Update the listing in database using db service
     await db.updateListing(listingId, updates);
+    await reindexListing(listingId);
 
     // Get updated listing for response
     const updatedListing = await db.getListing(listingId);
 
+    // Tell watchers about approved price drops or status changes
+    if (updatedListing) {
+      await notifyWatchersOfChange(listing as any, updatedListing as any);
+    }
+
+    // Approved content replaces what duplicate detection compares against
+    if (updatedListing) {
+      try {
+        await saveListingFingerprint(await buildListingFingerprint(updatedListing as any));
+      } catch (error) {
+        console.error(`[APPROVE UPDATE] Error saving fingerprint of listing ${listingId}:`, error);
+      }
+    }
+
     // Send notification to owner
     await sendNotificationToOwner(
       listing.ownerId,
@@ -3479,6 +3889,7 @@ async function handleRejectPendingUpdate(event: AuthenticatedEvent): Promise<API
 
     // Update the listing in database using db service
     await db.updateListing(listingId, updates);
+    await reindexListing(listingId);
 
     // Send notification to owner
     await sendNotificationToOwner(
@@ -3502,6 +3913,103 @@ async function handleRejectPendingUpdate(event: AuthenticatedEvent): Promise<API
   });
 }
 
+/**
+ * Approve or reject the fields of a pending update one by one - approved
+ * fields go live, rejected fields are discarded and the rest stay pending
+ */
+async function handleReviewPendingUpdate(event: AuthenticatedEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+  const pathParts = event.path.split('/');
+  const listingId = pathParts[pathParts.indexOf('listings') + 1];
+
+  let body: any;
+  try {
+    body = JSON.parse(event.body || '{}');
+  } catch {
+    return createErrorResponse(400, 'VALIDATION_ERROR', 'Invalid JSON in request body', requestId);
+  }
+
+  try {
+    const listing = await db.getListing(listingId) as any;
+    if (!listing) {
+      return createErrorResponse(404, 'NOT_FOUND', 'Listing not found', requestId);
+    }
+    if (!listing.pendingUpdate) {
+      return createErrorResponse(400, 'NO_PENDING_UPDATE', 'This listing has no pending update', requestId);
+    }
+
+    const { updates, result } = applyFieldDecisions(listing, {
+      decisions: body.decisions,
+      moderatorNotes: typeof body.moderatorNotes === 'string' ? body.moderatorNotes : undefined,
+    }, event.user.sub);
+
+    await db.updateListing(listingId, updates);
+    await reindexListing(listingId);
+    const updatedListing = await db.getListing(listingId);
+
+    if (updatedListing && result.approvedFields.length > 0) {
+      // Tell watchers about approved price drops
+      await notifyWatchersOfChange(listing, updatedListing as any);
+
+      // Approved content replaces what duplicate detection compares against
+      try {
+        await saveListingFingerprint(await buildListingFingerprint(updatedListing as any));
+      } catch (error) {
+        console.error(`[${requestId}] Error saving fingerprint of listing ${listingId}:`, error);
+      }
+    }
+
+    await sendNotificationToOwner(
+      listing.ownerId,
+      listingId,
+      result.approvedFields.length > 0 ? 'listing_approved' : 'listing_rejected',
+      result.rejectedFields.length === 0 ? '✅ Update Approved' : result.approvedFields.length === 0 ? '❌ Update Rejected' : '📝 Update Reviewed',
+      updates.moderationHistory[updates.moderationHistory.length - 1].publicNotes,
+      listing.slug
+    );
+
+    console.log(`Reviewed pending update for listing ${listingId}: ${result.approvedFields.length} approved, ${result.rejectedFields.length} rejected, ${result.remainingFields.length} pending`);
+    return createResponse(200, { ...result, listing: updatedListing, message: 'Pending update reviewed' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message.startsWith('Pending update')) {
+      return createErrorResponse(400, 'VALIDATION_ERROR', message, requestId);
+    }
+    console.error(`[${requestId}] Error reviewing pending update of listing ${listingId}:`, error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Failed to review pending update', requestId);
+  }
+}
+
+/**
+ * Resolve or dismiss a user report on a listing and notify the reporter
+ */
+async function handleReviewListingReport(event: AuthenticatedEvent): Promise<APIGatewayProxyResult> {
+  const requestId = event.requestContext.requestId;
+  const pathParts = event.path.split('/');
+  const listingId = pathParts[pathParts.indexOf('listings') + 1];
+  const reportId = pathParts[pathParts.indexOf('reports') + 1];
+  const outcome = pathParts[pathParts.length - 1] === 'resolve' ? 'resolved' : 'dismissed';
+
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const report = await reviewListingReport(listingId, reportId, event.user.sub, outcome, body.resolution);
+    return createResponse(200, {
+      report,
+      message: outcome === 'resolved' ? 'Report resolved' : 'Report dismissed',
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Report not found') {
+      return createErrorResponse(404, 'NOT_FOUND', message, requestId);
+    }
+    if (message === 'Report has already been reviewed') {
+      return createErrorResponse(409, 'ALREADY_REVIEWED', message, requestId);
+    }
+    console.error(`[${requestId}] Error reviewing report ${reportId} on listing ${listingId}:`, error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Failed to review report', requestId);
+  }
+}
+
 /**
  * Helper function to send notification to listing owner
  */
@@ -4,6 +4,7 @@
  * Tracks and analyzes user behavior across the platform:
  * - Listing views (authenticated & anonymous)
  * - Clicks, searches, contacts, shares
+ * - Impressions and clicks of paid listing promotions (counted against the promotion)
  * - User engagement metrics
  * - Platform statistics
  * 
@@ -19,6 +20,7 @@ import {
   ScanCommand,
   GetCommand 
 } from '@aws-sdk/lib-dynamodb';
+import { recordPromotionEngagement } from '../billing-service/promotions/promotion-store';
 
 // Initialize DynamoDB client
 const dynamoDbClient = new DynamoDBClient({
@@ -59,6 +61,10 @@ export enum AnalyticsEventType {
   SEARCH_FILTER_APPLY = 'SEARCH_FILTER_APPLY',
   SEARCH_RESULT_CLICK = 'SEARCH_RESULT_CLICK',
   CATEGORY_BROWSE = 'CATEGORY_BROWSE',
+
+  // Paid promotions (metadata.promotionId identifies the promotion)
+  PROMOTION_IMPRESSION = 'PROMOTION_IMPRESSION',
+  PROMOTION_CLICK = 'PROMOTION_CLICK',
   
   // Page views
   PAGE_VIEW = 'PAGE_VIEW',
@@ -216,6 +222,10 @@ async function handleTrackEvent(
       Item: analyticsEvent,
     }));
 
+    if (isPromotionEvent(eventType) && typeof metadata.promotionId === 'string') {
+      await trackPromotionEngagement(eventType, metadata.promotionId);
+    }
+
     console.log('Analytics event tracked:', {
       eventType,
       userId: userId || 'anonymous',
@@ -664,10 +674,35 @@ function isListingViewEvent(eventType: AnalyticsEventType): boolean {
     AnalyticsEventType.LISTING_CARD_CLICK,
     AnalyticsEventType.LISTING_IMAGE_VIEW,
     AnalyticsEventType.LISTING_IMAGE_EXPAND,
+    AnalyticsEventType.PROMOTION_IMPRESSION,
+    AnalyticsEventType.PROMOTION_CLICK,
   ];
   return viewEventTypes.includes(eventType);
 }
 
+/**
+ * Helper: Check if event type is a paid promotion event
+ */
+function isPromotionEvent(eventType: AnalyticsEventType): boolean {
+  return eventType === AnalyticsEventType.PROMOTION_IMPRESSION || eventType === AnalyticsEventType.PROMOTION_CLICK;
+}
+
+/**
+ * Helper: Count a promotion impression or click for the seller's report
+ *
+ * Failures are logged only; the event itself is already stored.
+ */
+async function trackPromotionEngagement(eventType: AnalyticsEventType, promotionId: string): Promise<void> {
+  try {
+    await recordPromotionEngagement(
+      promotionId,
+      eventType === AnalyticsEventType.PROMOTION_CLICK ? 'clicks' : 'impressions'
+    );
+  } catch (error) {
+    console.error('Error recording promotion engagement:', { promotionId, eventType, error });
+  }
+}
+
 /**
  * Helper: Check if the user is viewing their own listing
  */
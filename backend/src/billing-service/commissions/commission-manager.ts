@@ -0,0 +1,401 @@
+/**
+ * @fileoverview Commission rules and monthly commission statements.
+ *
+ * Sales reps and dealers earn commission on the revenue of the customers
+ * assigned to them (the customer's `salesRepId`). Each completed charge in
+ * the month is matched to one rule, and refunds claw back commission under
+ * the rule of the charge they refund.
+ *
+ * Rule matching: a rule for the payee beats a rule for the plan, which beats
+ * a rule for the payee type, which beats a catch-all rule; `priority` breaks
+ * ties. Tiered rules are marginal: each tier's rate applies to the part of
+ * the payee's monthly revenue under that rule that falls within the tier.
+ *
+ * Business Rules:
+ * - Revenue is counted net of sales tax
+ * - Statements are generated for months that have ended
+ * - Regenerating a month replaces its draft statements; statements in a
+ *   payout batch are left as they are
+ *
+ * Validation errors are thrown as `Error`s whose message starts with
+ * "Commission".
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import {
+  CommissionLine,
+  CommissionPayeeType,
+  CommissionRule,
+  CommissionStatement,
+  EnhancedUser,
+  Transaction,
+  UserRole,
+} from '@harborlist/shared-types';
+import { db } from '../../shared/database';
+import { getLedgerPeriodEnd, getLedgerPeriodKey, roundToCents } from '../ledger/ledger-reports';
+import { listCommissionRules, listStatementsByPayee, saveDraftStatement } from './commission-store';
+
+/**
+ * Transaction types commission is earned on
+ */
+export const COMMISSIONABLE_TRANSACTION_TYPES = ['payment', 'membership', 'subscription'] as const;
+
+/**
+ * Charge a commission rule is matched against
+ */
+export interface CommissionRuleContext {
+  payeeId: string;
+  payeeType: CommissionPayeeType;
+  planId?: string;
+  transactionType: Transaction['type'];
+}
+
+/**
+ * A payee's commission history
+ */
+export interface PayeeCommissionHistory {
+  payeeId: string;
+  statements: CommissionStatement[];
+  pendingCommission: number; // draft and batched statements not yet paid
+  paidToDate: number; // across the statements returned
+}
+
+/**
+ * Validates a commission rule
+ *
+ * @param rule - Rule to validate
+ * @returns string | null - Error message or null if valid
+ */
+export function validateCommissionRule(rule: Partial<CommissionRule>): string | null {
+  if (!rule.name || !rule.name.trim()) {
+    return 'Commission rule name is required';
+  }
+
+  const isRate = (rate: any) => typeof rate === 'number' && rate >= 0 && rate <= 1;
+  if (rule.tiers && rule.tiers.length > 0) {
+    if (rule.rate !== undefined) {
+      return 'Commission rule must have a rate or tiers, not both';
+    }
+    for (let i = 0; i < rule.tiers.length; i++) {
+      const tier = rule.tiers[i];
+      const isLast = i === rule.tiers.length - 1;
+      if (!isRate(tier.rate)) {
+        return 'Commission tier rates must be between 0 and 1';
+      }
+      if (isLast ? tier.upTo !== undefined : !(typeof tier.upTo === 'number' && tier.upTo > 0)) {
+        return 'Every commission tier except the last must have an upper bound';
+      }
+      if (i > 0 && !isLast && tier.upTo! <= rule.tiers[i - 1].upTo!) {
+        return 'Commission tier bounds must increase';
+      }
+    }
+  } else if (!isRate(rule.rate)) {
+    return 'Commission rule rate must be between 0 and 1';
+  }
+
+  if (rule.payeeType && rule.payeeType !== 'sales_rep' && rule.payeeType !== 'dealer') {
+    return 'Commission rule payee type must be sales_rep or dealer';
+  }
+  if (rule.transactionTypes?.some(type => !(COMMISSIONABLE_TRANSACTION_TYPES as readonly string[]).includes(type))) {
+    return `Commission rule transaction types must be ${COMMISSIONABLE_TRANSACTION_TYPES.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * How specific a rule is; higher wins
+ */
+function getRuleSpecificity(rule: CommissionRule): number {
+  if (rule.payeeId) {
+    return 3;
+  }
+  if (rule.planIds?.length) {
+    return 2;
+  }
+  return rule.payeeType ? 1 : 0;
+}
+
+/**
+ * Whether a rule applies to a charge
+ */
+function ruleMatches(rule: CommissionRule, context: CommissionRuleContext): boolean {
+  return rule.active
+    && (!rule.payeeId || rule.payeeId === context.payeeId)
+    && (!rule.payeeType || rule.payeeType === context.payeeType)
+    && (!rule.planIds?.length || (!!context.planId && rule.planIds.includes(context.planId)))
+    && (!rule.transactionTypes?.length || rule.transactionTypes.includes(context.transactionType as any));
+}
+
+/**
+ * Picks the rule that applies to a charge
+ *
+ * @param rules - All commission rules
+ * @param context - Charge being matched
+ * @returns CommissionRule | null - The most specific matching rule, or null when none applies
+ */
+export function selectCommissionRule(rules: CommissionRule[], context: CommissionRuleContext): CommissionRule | null {
+  const matching = rules
+    .filter(rule => ruleMatches(rule, context))
+    .sort((a, b) => getRuleSpecificity(b) - getRuleSpecificity(a) || b.priority - a.priority);
+  return matching[0] || null;
+}
+
+/**
+ * Commission on a total revenue under a rule
+ *
+ * Negative revenue (more refunded than charged) earns back at the first tier's rate.
+ *
+ * @param rule - Commission rule
+ * @param revenue - Revenue under the rule in the month
+ * @returns number - Commission, unrounded
+ */
+export function calculateCommission(rule: Pick<CommissionRule, 'rate' | 'tiers'>, revenue: number): number {
+  if (!rule.tiers?.length) {
+    return revenue * (rule.rate || 0);
+  }
+  if (revenue <= 0) {
+    return revenue * rule.tiers[0].rate;
+  }
+
+  let commission = 0;
+  let lowerBound = 0;
+  for (const tier of rule.tiers) {
+    const upperBound = tier.upTo ?? Infinity;
+    commission += Math.max(0, Math.min(revenue, upperBound) - lowerBound) * tier.rate;
+    if (revenue <= upperBound) {
+      break;
+    }
+    lowerBound = upperBound;
+  }
+  return commission;
+}
+
+/**
+ * Plan a charge was for
+ */
+function getTransactionPlan(transaction: Transaction): string | undefined {
+  return transaction.metadata?.plan || transaction.metadata?.planId || transaction.metadata?.toPlan;
+}
+
+/**
+ * Revenue a transaction adds, net of tax (negative for refunds)
+ */
+function getTransactionRevenue(transaction: Transaction): number {
+  const revenue = roundToCents(transaction.amount - Math.abs(transaction.taxAmount || 0));
+  return transaction.type === 'refund' ? 0 - revenue : revenue;
+}
+
+/**
+ * Who earns commission on a customer's revenue
+ *
+ * @param payee - User the customer is assigned to
+ * @returns CommissionPayeeType | null - The payee type, or null when the user cannot earn commission
+ */
+export function getPayeeType(payee: Partial<EnhancedUser> & { userType?: string }): CommissionPayeeType | null {
+  if (payee.role === UserRole.SALES) {
+    return 'sales_rep';
+  }
+  const tier = payee.customerTier || payee.userType || '';
+  return tier.includes('dealer') ? 'dealer' : null;
+}
+
+/**
+ * Statement ID for a payee and month
+ */
+export function getStatementId(payeeId: string, period: string): string {
+  return `${payeeId}_${period}`;
+}
+
+/**
+ * A charge or refund attributed to a payee, before commission is applied
+ */
+export interface AttributedTransaction {
+  transaction: Transaction;
+  payeeId: string;
+  payeeName: string;
+  payeeType: CommissionPayeeType;
+  planId?: string;
+  ruleTransactionType: Transaction['type']; // a refund is matched as the charge it refunds
+}
+
+/**
+ * Builds the statements for a month from attributed transactions
+ *
+ * @param period - Month (YYYY-MM)
+ * @param attributed - Charges and refunds with their payees
+ * @param rules - All commission rules
+ * @param generatedAt - Generation time (epoch ms)
+ * @returns CommissionStatement[] - One draft statement per payee with commissionable revenue
+ */
+export function buildCommissionStatements(
+  period: string,
+  attributed: AttributedTransaction[],
+  rules: CommissionRule[],
+  generatedAt: number = Date.now()
+): CommissionStatement[] {
+  const byPayee = new Map<string, AttributedTransaction[]>();
+  attributed.forEach(item => {
+    byPayee.set(item.payeeId, [...(byPayee.get(item.payeeId) || []), item]);
+  });
+
+  const statements: CommissionStatement[] = [];
+  byPayee.forEach((items, payeeId) => {
+    const lines: CommissionLine[] = [];
+    // Revenue so far under each rule, for marginal tiers
+    const revenueByRule = new Map<string, number>();
+
+    items
+      .sort((a, b) => a.transaction.createdAt.localeCompare(b.transaction.createdAt))
+      .forEach(item => {
+        const rule = selectCommissionRule(rules, {
+          payeeId,
+          payeeType: item.payeeType,
+          planId: item.planId,
+          transactionType: item.ruleTransactionType,
+        });
+        if (!rule) {
+          return;
+        }
+
+        const revenue = getTransactionRevenue(item.transaction);
+        const before = revenueByRule.get(rule.ruleId) || 0;
+        revenueByRule.set(rule.ruleId, before + revenue);
+
+        lines.push({
+          transactionId: item.transaction.transactionId,
+          transactionType: item.transaction.type,
+          customerId: item.transaction.userId,
+          planId: item.planId,
+          revenue,
+          ruleId: rule.ruleId,
+          commission: roundToCents(calculateCommission(rule, before + revenue) - calculateCommission(rule, before)),
+          createdAt: item.transaction.createdAt,
+        });
+      });
+
+    if (lines.length === 0) {
+      return;
+    }
+
+    statements.push({
+      statementId: getStatementId(payeeId, period),
+      payeeId,
+      payeeName: items[0].payeeName,
+      payeeType: items[0].payeeType,
+      period,
+      lines,
+      totalRevenue: roundToCents(lines.reduce((sum, line) => sum + line.revenue, 0)),
+      totalCommission: roundToCents(lines.reduce((sum, line) => sum + line.commission, 0)),
+      currency: items[0].transaction.currency || 'USD',
+      status: 'draft',
+      generatedAt,
+    });
+  });
+
+  return statements;
+}
+
+/**
+ * Finds the payee of every commissionable charge and refund in a range
+ */
+async function attributeTransactions(transactions: Transaction[]): Promise<AttributedTransaction[]> {
+  const users = new Map<string, EnhancedUser | null>();
+  const getUser = async (userId: string): Promise<EnhancedUser | null> => {
+    if (!users.has(userId)) {
+      users.set(userId, await db.getUser(userId));
+    }
+    return users.get(userId)!;
+  };
+
+  const attributed: AttributedTransaction[] = [];
+  for (const transaction of transactions) {
+    const isCharge = (COMMISSIONABLE_TRANSACTION_TYPES as readonly string[]).includes(transaction.type);
+    if (!isCharge && transaction.type !== 'refund') {
+      continue;
+    }
+
+    const customer = await getUser(transaction.userId);
+    const payee = customer?.salesRepId ? await getUser(customer.salesRepId) : null;
+    const payeeType = payee ? getPayeeType(payee) : null;
+    if (!payee || !payeeType) {
+      continue;
+    }
+
+    // A refund is matched to the rule of the charge it refunds
+    const original = transaction.type === 'refund' && transaction.metadata?.originalTransactionId
+      ? await db.getTransaction(transaction.metadata.originalTransactionId)
+      : null;
+    const charge = original || transaction;
+
+    attributed.push({
+      transaction,
+      payeeId: payee.id,
+      payeeName: payee.name,
+      payeeType,
+      planId: getTransactionPlan(charge),
+      ruleTransactionType: charge.type === 'refund' ? 'payment' : charge.type,
+    });
+  }
+
+  return attributed;
+}
+
+/**
+ * Generates the commission statements for a month
+ *
+ * @param period - Month (YYYY-MM)
+ * @returns Promise<{ statements: CommissionStatement[]; skipped: string[] }> - Drafts saved, and
+ *          payees whose statement was already in a payout batch
+ * @throws Error - When the month is invalid or has not ended
+ */
+export async function generateCommissionStatements(
+  period: string
+): Promise<{ statements: CommissionStatement[]; skipped: string[] }> {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+    throw new Error('Commission period must be YYYY-MM');
+  }
+  if (period >= getLedgerPeriodKey(new Date())) {
+    throw new Error(`Commission period ${period} has not ended`);
+  }
+
+  const [transactions, rules] = await Promise.all([
+    db.getCompletedTransactionsInRange(`${period}-01T00:00:00.000Z`, getLedgerPeriodEnd(period)),
+    listCommissionRules(),
+  ]);
+  const attributed = await attributeTransactions(transactions);
+  const built = buildCommissionStatements(period, attributed, rules);
+
+  const statements: CommissionStatement[] = [];
+  const skipped: string[] = [];
+  for (const statement of built) {
+    if (await saveDraftStatement(statement)) {
+      statements.push(statement);
+    } else {
+      skipped.push(statement.payeeId);
+    }
+  }
+
+  return { statements, skipped };
+}
+
+/**
+ * Retrieves a payee's recent statements and payouts
+ *
+ * @param payeeId - Sales rep or dealer user ID
+ * @param limit - Number of months to return
+ * @returns Promise<PayeeCommissionHistory> - Statements, newest month first, with totals
+ */
+export async function getPayeeCommissionHistory(payeeId: string, limit: number = 12): Promise<PayeeCommissionHistory> {
+  const statements = await listStatementsByPayee(payeeId, limit);
+  const total = (status: (s: CommissionStatement) => boolean) =>
+    roundToCents(statements.filter(status).reduce((sum, s) => sum + Math.max(0, s.totalCommission), 0));
+
+  return {
+    payeeId,
+    statements,
+    pendingCommission: total(s => s.status !== 'paid'),
+    paidToDate: total(s => s.status === 'paid'),
+  };
+}
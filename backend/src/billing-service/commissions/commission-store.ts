@@ -0,0 +1,347 @@
+/**
+ * @fileoverview Commission rule, statement and payout batch storage.
+ *
+ * Rules are stored one item per rule; there are few enough to scan. A
+ * statement's ID is derived from its payee and month, so regenerating a
+ * month replaces its draft statements. Statements already in a payout batch
+ * are never overwritten: saves and status changes are conditional on the
+ * statement's status. Payout batches move through their workflow with the
+ * same conditional updates, so two staff members cannot release a batch twice.
+ *
+ * Statement indexes:
+ * - period-index: statements for a month
+ * - payee-index: a payee's statements, newest month first
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  CommissionRule,
+  CommissionStatement,
+  CommissionStatementStatus,
+  PayoutBatch,
+  PayoutBatchStatus,
+} from '@harborlist/shared-types';
+import { isConditionalCheckFailure } from '../../shared/utils';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const COMMISSION_RULES_TABLE = process.env.COMMISSION_RULES_TABLE || 'harborlist-commission-rules';
+const COMMISSION_STATEMENTS_TABLE = process.env.COMMISSION_STATEMENTS_TABLE || 'harborlist-commission-statements';
+const PAYOUT_BATCHES_TABLE = process.env.PAYOUT_BATCHES_TABLE || 'harborlist-payout-batches';
+
+/**
+ * Statement indexes
+ */
+const PERIOD_INDEX = 'period-index';
+const PAYEE_INDEX = 'payee-index';
+
+/**
+ * Builds a SET expression for the given fields
+ */
+function buildSetExpression(changes: Record<string, any>, keyName: string) {
+  const entries = Object.entries(changes).filter(([key, value]) => key !== keyName && value !== undefined);
+  return {
+    UpdateExpression: `SET ${entries.map(([key]) => `#${key} = :${key}`).join(', ')}`,
+    ExpressionAttributeNames: Object.fromEntries(entries.map(([key]) => [`#${key}`, key])),
+    ExpressionAttributeValues: Object.fromEntries(entries.map(([key, value]) => [`:${key}`, value])),
+  };
+}
+
+/**
+ * Retrieves a commission rule
+ *
+ * @param ruleId - Rule identifier
+ * @returns Promise<CommissionRule | null> - The rule, or null when it does not exist
+ */
+export async function getCommissionRule(ruleId: string): Promise<CommissionRule | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: COMMISSION_RULES_TABLE,
+    Key: { ruleId },
+  }));
+
+  return (result.Item as CommissionRule) || null;
+}
+
+/**
+ * Stores a new commission rule
+ *
+ * @param rule - Rule to create
+ */
+export async function createCommissionRule(rule: CommissionRule): Promise<void> {
+  await docClient.send(new PutCommand({
+    TableName: COMMISSION_RULES_TABLE,
+    Item: rule,
+    ConditionExpression: 'attribute_not_exists(ruleId)',
+  }));
+}
+
+/**
+ * Updates an existing commission rule
+ *
+ * @param ruleId - Rule identifier
+ * @param changes - Fields to set
+ * @returns Promise<CommissionRule | null> - The updated rule, or null when it does not exist
+ */
+export async function updateCommissionRule(ruleId: string, changes: Partial<CommissionRule>): Promise<CommissionRule | null> {
+  const expression = buildSetExpression(changes, 'ruleId');
+
+  try {
+    const result = await docClient.send(new UpdateCommand({
+      TableName: COMMISSION_RULES_TABLE,
+      Key: { ruleId },
+      ...expression,
+      ConditionExpression: 'attribute_exists(ruleId)',
+      ReturnValues: 'ALL_NEW',
+    }));
+    return result.Attributes as CommissionRule;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists all commission rules
+ */
+export async function listCommissionRules(): Promise<CommissionRule[]> {
+  const rules: CommissionRule[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: COMMISSION_RULES_TABLE,
+      ExclusiveStartKey: lastKey,
+    }));
+    rules.push(...((result.Items || []) as CommissionRule[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return rules;
+}
+
+/**
+ * Retrieves a commission statement
+ *
+ * @param statementId - Statement identifier
+ * @returns Promise<CommissionStatement | null> - The statement, or null when it does not exist
+ */
+export async function getCommissionStatement(statementId: string): Promise<CommissionStatement | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: COMMISSION_STATEMENTS_TABLE,
+    Key: { statementId },
+  }));
+
+  return (result.Item as CommissionStatement) || null;
+}
+
+/**
+ * Stores a draft statement, replacing an earlier draft for the same payee and month
+ *
+ * @param statement - Draft statement
+ * @returns Promise<boolean> - False when the existing statement is already in a payout batch
+ */
+export async function saveDraftStatement(statement: CommissionStatement): Promise<boolean> {
+  try {
+    await docClient.send(new PutCommand({
+      TableName: COMMISSION_STATEMENTS_TABLE,
+      Item: statement,
+      ConditionExpression: 'attribute_not_exists(statementId) OR #status = :draft',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':draft': 'draft' },
+    }));
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Moves a statement on from an expected status
+ *
+ * @param statementId - Statement identifier
+ * @param expectedStatus - Status the statement must have
+ * @param changes - Fields to set, including the new status
+ * @returns Promise<boolean> - False when the statement no longer has the expected status
+ */
+export async function updateStatementStatus(
+  statementId: string,
+  expectedStatus: CommissionStatementStatus,
+  changes: Partial<CommissionStatement>
+): Promise<boolean> {
+  const expression = buildSetExpression(changes, 'statementId');
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: COMMISSION_STATEMENTS_TABLE,
+      Key: { statementId },
+      UpdateExpression: expression.UpdateExpression,
+      ConditionExpression: '#current = :expected',
+      ExpressionAttributeNames: { ...expression.ExpressionAttributeNames, '#current': 'status' },
+      ExpressionAttributeValues: { ...expression.ExpressionAttributeValues, ':expected': expectedStatus },
+    }));
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists the statements for a month
+ *
+ * @param period - Month (YYYY-MM)
+ */
+export async function listStatementsByPeriod(period: string): Promise<CommissionStatement[]> {
+  const statements: CommissionStatement[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: COMMISSION_STATEMENTS_TABLE,
+      IndexName: PERIOD_INDEX,
+      KeyConditionExpression: 'period = :period',
+      ExpressionAttributeValues: { ':period': period },
+      ExclusiveStartKey: lastKey,
+    }));
+    statements.push(...((result.Items || []) as CommissionStatement[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return statements;
+}
+
+/**
+ * Lists a payee's statements, newest month first
+ *
+ * @param payeeId - Sales rep or dealer user ID
+ * @param limit - Maximum number of statements to return
+ */
+export async function listStatementsByPayee(payeeId: string, limit: number): Promise<CommissionStatement[]> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: COMMISSION_STATEMENTS_TABLE,
+    IndexName: PAYEE_INDEX,
+    KeyConditionExpression: 'payeeId = :payeeId',
+    ExpressionAttributeValues: { ':payeeId': payeeId },
+    ScanIndexForward: false,
+    Limit: limit,
+  }));
+
+  return (result.Items || []) as CommissionStatement[];
+}
+
+/**
+ * Stores a new payout batch
+ *
+ * @param batch - Batch to create
+ */
+export async function createPayoutBatch(batch: PayoutBatch): Promise<void> {
+  await docClient.send(new PutCommand({
+    TableName: PAYOUT_BATCHES_TABLE,
+    Item: batch,
+    ConditionExpression: 'attribute_not_exists(batchId)',
+  }));
+}
+
+/**
+ * Retrieves a payout batch
+ *
+ * @param batchId - Batch identifier
+ * @returns Promise<PayoutBatch | null> - The batch, or null when it does not exist
+ */
+export async function getPayoutBatch(batchId: string): Promise<PayoutBatch | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: PAYOUT_BATCHES_TABLE,
+    Key: { batchId },
+  }));
+
+  return (result.Item as PayoutBatch) || null;
+}
+
+/**
+ * Moves a payout batch on from one of the expected statuses
+ *
+ * @param batchId - Batch identifier
+ * @param expectedStatuses - Statuses the batch may have
+ * @param changes - Fields to set, including the new status
+ * @returns Promise<PayoutBatch | null> - The updated batch, or null when its status was not expected
+ */
+export async function updatePayoutBatchStatus(
+  batchId: string,
+  expectedStatuses: PayoutBatchStatus[],
+  changes: Partial<PayoutBatch>
+): Promise<PayoutBatch | null> {
+  const expression = buildSetExpression(changes, 'batchId');
+  const expected = Object.fromEntries(expectedStatuses.map((status, index) => [`:expected${index}`, status]));
+
+  try {
+    const result = await docClient.send(new UpdateCommand({
+      TableName: PAYOUT_BATCHES_TABLE,
+      Key: { batchId },
+      UpdateExpression: expression.UpdateExpression,
+      ConditionExpression: `#current IN (${Object.keys(expected).join(', ')})`,
+      ExpressionAttributeNames: { ...expression.ExpressionAttributeNames, '#current': 'status' },
+      ExpressionAttributeValues: { ...expression.ExpressionAttributeValues, ...expected },
+      ReturnValues: 'ALL_NEW',
+    }));
+    return result.Attributes as PayoutBatch;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists payout batches
+ *
+ * @param limit - Maximum number of batches to return
+ * @param lastKey - Pagination key from the previous page
+ */
+export async function listPayoutBatches(
+  limit: number,
+  lastKey?: Record<string, any>
+): Promise<{ batches: PayoutBatch[]; lastKey?: Record<string, any> }> {
+  const result = await docClient.send(new ScanCommand({
+    TableName: PAYOUT_BATCHES_TABLE,
+    Limit: limit,
+    ExclusiveStartKey: lastKey,
+  }));
+
+  return {
+    batches: (result.Items || []) as PayoutBatch[],
+    lastKey: result.LastEvaluatedKey,
+  };
+}
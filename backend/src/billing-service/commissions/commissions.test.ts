@@ -0,0 +1,385 @@
+/**
+ * @fileoverview Unit tests for commission settlement
+ *
+ * Tests rule validation and selection, tiered commission, statement
+ * generation with refund clawback, and the payout batch workflow.
+ */
+
+import { CommissionRule, CommissionStatement, PayoutBatch, Transaction, UserRole } from '@harborlist/shared-types';
+import {
+  calculateCommission,
+  generateCommissionStatements,
+  getPayeeCommissionHistory,
+  selectCommissionRule,
+  validateCommissionRule,
+} from './commission-manager';
+import {
+  approvePayoutBatch,
+  createPayoutBatch,
+  holdPayoutBatch,
+  releasePayoutBatch,
+} from './payout-manager';
+import {
+  createPayoutBatch as storePayoutBatch,
+  getPayoutBatch,
+  listCommissionRules,
+  listStatementsByPayee,
+  listStatementsByPeriod,
+  saveDraftStatement,
+  updatePayoutBatchStatus,
+  updateStatementStatus,
+} from './commission-store';
+import { postCommissionAccrual, recordTransactionInLedger } from '../ledger/ledger-manager';
+import { db } from '../../shared/database';
+
+jest.mock('./commission-store', () => ({
+  createPayoutBatch: jest.fn(),
+  getPayoutBatch: jest.fn(),
+  listCommissionRules: jest.fn(),
+  listStatementsByPayee: jest.fn(),
+  listStatementsByPeriod: jest.fn(),
+  saveDraftStatement: jest.fn(),
+  updatePayoutBatchStatus: jest.fn(),
+  updateStatementStatus: jest.fn(),
+}));
+
+jest.mock('../ledger/ledger-manager', () => ({
+  postCommissionAccrual: jest.fn(),
+  recordTransactionInLedger: jest.fn(),
+}));
+
+jest.mock('../../shared/database', () => ({
+  db: {
+    getCompletedTransactionsInRange: jest.fn(),
+    getUser: jest.fn(),
+    getTransaction: jest.fn(),
+    createTransaction: jest.fn(),
+  },
+}));
+
+const mockCreatePayoutBatch = storePayoutBatch as jest.MockedFunction<typeof storePayoutBatch>;
+const mockGetPayoutBatch = getPayoutBatch as jest.MockedFunction<typeof getPayoutBatch>;
+const mockListCommissionRules = listCommissionRules as jest.MockedFunction<typeof listCommissionRules>;
+const mockListStatementsByPayee = listStatementsByPayee as jest.MockedFunction<typeof listStatementsByPayee>;
+const mockListStatementsByPeriod = listStatementsByPeriod as jest.MockedFunction<typeof listStatementsByPeriod>;
+const mockSaveDraftStatement = saveDraftStatement as jest.MockedFunction<typeof saveDraftStatement>;
+const mockUpdatePayoutBatchStatus = updatePayoutBatchStatus as jest.MockedFunction<typeof updatePayoutBatchStatus>;
+const mockUpdateStatementStatus = updateStatementStatus as jest.MockedFunction<typeof updateStatementStatus>;
+const mockDb = db as jest.Mocked<typeof db>;
+
+const NOW = new Date('2024-04-10T12:00:00.000Z');
+
+function createTestRule(overrides: Partial<CommissionRule> = {}): CommissionRule {
+  return {
+    ruleId: 'rule-default',
+    name: 'Default',
+    rate: 0.1,
+    priority: 0,
+    active: true,
+    createdAt: NOW.getTime(),
+    updatedAt: NOW.getTime(),
+    ...overrides,
+  };
+}
+
+function createTestTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'txn-1',
+    transactionId: 'txn-1',
+    type: 'membership',
+    amount: 107,
+    currency: 'USD',
+    status: 'completed',
+    userId: 'customer-1',
+    userName: '',
+    userEmail: '',
+    paymentMethod: 'card',
+    processorTransactionId: 'pi_1',
+    createdAt: '2024-03-05T00:00:00.000Z',
+    description: 'Membership renewal',
+    fees: 3.4,
+    netAmount: 103.6,
+    taxAmount: 7,
+    metadata: { plan: 'premium_dealer' },
+    ...overrides,
+  };
+}
+
+function createTestStatement(overrides: Partial<CommissionStatement> = {}): CommissionStatement {
+  return {
+    statementId: 'rep-1_2024-03',
+    payeeId: 'rep-1',
+    payeeName: 'Rita Rep',
+    payeeType: 'sales_rep',
+    period: '2024-03',
+    lines: [],
+    totalRevenue: 1000,
+    totalCommission: 100,
+    currency: 'USD',
+    status: 'draft',
+    generatedAt: NOW.getTime(),
+    ...overrides,
+  };
+}
+
+const TIERED = { tiers: [{ upTo: 1000, rate: 0.05 }, { upTo: 5000, rate: 0.1 }, { rate: 0.15 }] };
+
+describe('Commission settlement', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('validateCommissionRule', () => {
+    it('accepts flat and tiered rules', () => {
+      expect(validateCommissionRule(createTestRule())).toBeNull();
+      expect(validateCommissionRule(createTestRule({ rate: undefined, ...TIERED }))).toBeNull();
+    });
+
+    it('rejects invalid rates and tier bounds', () => {
+      expect(validateCommissionRule(createTestRule({ rate: 1.5 }))).toBe('Commission rule rate must be between 0 and 1');
+      expect(validateCommissionRule(createTestRule({ ...TIERED }))).toBe('Commission rule must have a rate or tiers, not both');
+      expect(validateCommissionRule(createTestRule({ rate: undefined, tiers: [{ upTo: 100, rate: 0.1 }] })))
+        .toBe('Every commission tier except the last must have an upper bound');
+      expect(validateCommissionRule(createTestRule({
+        rate: undefined,
+        tiers: [{ upTo: 500, rate: 0.1 }, { upTo: 200, rate: 0.1 }, { rate: 0.1 }],
+      }))).toBe('Commission tier bounds must increase');
+      expect(validateCommissionRule(createTestRule({ transactionTypes: ['refund' as any] })))
+        .toContain('Commission rule transaction types must be');
+    });
+  });
+
+  describe('selectCommissionRule', () => {
+    const rules = [
+      createTestRule(),
+      createTestRule({ ruleId: 'rule-dealers', payeeType: 'dealer', rate: 0.08 }),
+      createTestRule({ ruleId: 'rule-plan', planIds: ['premium_dealer'], rate: 0.12 }),
+      createTestRule({ ruleId: 'rule-rita', payeeId: 'rep-1', rate: 0.2 }),
+      createTestRule({ ruleId: 'rule-rita-old', payeeId: 'rep-1', rate: 0.3, active: false }),
+    ];
+
+    it('prefers payee, then plan, then payee type rules', () => {
+      const context = { payeeId: 'rep-1', payeeType: 'sales_rep' as const, planId: 'premium_dealer', transactionType: 'membership' as const };
+      expect(selectCommissionRule(rules, context)?.ruleId).toBe('rule-rita');
+      expect(selectCommissionRule(rules, { ...context, payeeId: 'rep-2' })?.ruleId).toBe('rule-plan');
+      expect(selectCommissionRule(rules, { ...context, payeeId: 'dealer-1', payeeType: 'dealer', planId: undefined })?.ruleId)
+        .toBe('rule-dealers');
+      expect(selectCommissionRule(rules, { ...context, payeeId: 'rep-2', planId: undefined })?.ruleId).toBe('rule-default');
+    });
+
+    it('breaks ties by priority and skips other transaction types', () => {
+      const tied = [
+        createTestRule({ ruleId: 'low', priority: 1 }),
+        createTestRule({ ruleId: 'high', priority: 5, transactionTypes: ['subscription'] }),
+      ];
+      const context = { payeeId: 'rep-1', payeeType: 'sales_rep' as const, transactionType: 'subscription' as const };
+      expect(selectCommissionRule(tied, context)?.ruleId).toBe('high');
+      expect(selectCommissionRule(tied, { ...context, transactionType: 'payment' })?.ruleId).toBe('low');
+    });
+  });
+
+  describe('calculateCommission', () => {
+    it('applies tiers marginally', () => {
+      expect(calculateCommission(TIERED, 800)).toBeCloseTo(40);
+      expect(calculateCommission(TIERED, 3000)).toBeCloseTo(50 + 200);
+      expect(calculateCommission(TIERED, 6000)).toBeCloseTo(50 + 400 + 150);
+    });
+
+    it('claws back negative revenue at the first tier rate', () => {
+      expect(calculateCommission(TIERED, -200)).toBeCloseTo(-10);
+      expect(calculateCommission({ rate: 0.1 }, -50)).toBeCloseTo(-5);
+    });
+  });
+
+  describe('generateCommissionStatements', () => {
+    const users: Record<string, any> = {
+      'customer-1': { id: 'customer-1', name: 'Dana', salesRepId: 'rep-1' },
+      'customer-2': { id: 'customer-2', name: 'Sam', salesRepId: 'dealer-1' },
+      'customer-3': { id: 'customer-3', name: 'Pat' },
+      'rep-1': { id: 'rep-1', name: 'Rita Rep', role: UserRole.SALES },
+      'dealer-1': { id: 'dealer-1', name: 'Bay Boats', customerTier: 'premium_dealer' },
+    };
+
+    beforeEach(() => {
+      mockDb.getUser.mockImplementation(async (userId: string) => users[userId] || null);
+      mockListCommissionRules.mockResolvedValue([
+        createTestRule(),
+        createTestRule({ ruleId: 'rule-rita', payeeId: 'rep-1', rate: undefined, tiers: [{ upTo: 150, rate: 0.1 }, { rate: 0.2 }] }),
+      ]);
+      mockSaveDraftStatement.mockResolvedValue(true);
+    });
+
+    it('attributes revenue net of tax to the payee and claws back refunds', async () => {
+      const charge = createTestTransaction();
+      mockDb.getCompletedTransactionsInRange.mockResolvedValue([
+        charge,
+        createTestTransaction({ id: 'txn-2', transactionId: 'txn-2', amount: 100, taxAmount: 0, createdAt: '2024-03-10T00:00:00.000Z' }),
+        createTestTransaction({
+          id: 'txn-3',
+          transactionId: 'txn-3',
+          type: 'refund',
+          amount: 50,
+          taxAmount: 0,
+          createdAt: '2024-03-20T00:00:00.000Z',
+          metadata: { originalTransactionId: 'txn-1' },
+        }),
+        createTestTransaction({ id: 'txn-4', transactionId: 'txn-4', userId: 'customer-2', amount: 200, taxAmount: 0 }),
+        createTestTransaction({ id: 'txn-5', transactionId: 'txn-5', userId: 'customer-3' }),
+        createTestTransaction({ id: 'txn-6', transactionId: 'txn-6', type: 'payout' }),
+      ]);
+      mockDb.getTransaction.mockResolvedValue(charge);
+
+      const { statements, skipped } = await generateCommissionStatements('2024-03');
+
+      expect(mockDb.getCompletedTransactionsInRange).toHaveBeenCalledWith('2024-03-01T00:00:00.000Z', expect.stringMatching(/^2024-03-31T23:59:59/));
+      expect(skipped).toEqual([]);
+      expect(statements).toHaveLength(2);
+
+      const rita = statements.find(statement => statement.payeeId === 'rep-1')!;
+      expect(rita.statementId).toBe('rep-1_2024-03');
+      expect(rita.payeeType).toBe('sales_rep');
+      // 100 at 10%, then 50 at 10% and 50 at 20%, then 50 refunded from the 20% tier
+      expect(rita.lines.map(line => line.commission)).toEqual([10, 15, -10]);
+      expect(rita.totalRevenue).toBe(150);
+      expect(rita.totalCommission).toBe(15);
+
+      const dealer = statements.find(statement => statement.payeeId === 'dealer-1')!;
+      expect(dealer.payeeType).toBe('dealer');
+      expect(dealer.totalCommission).toBe(20);
+    });
+
+    it('keeps statements already in a payout batch', async () => {
+      mockDb.getCompletedTransactionsInRange.mockResolvedValue([createTestTransaction()]);
+      mockSaveDraftStatement.mockResolvedValue(false);
+
+      const result = await generateCommissionStatements('2024-03');
+
+      expect(result).toEqual({ statements: [], skipped: ['rep-1'] });
+    });
+
+    it('only generates statements for months that have ended', async () => {
+      await expect(generateCommissionStatements('2024-04')).rejects.toThrow('Commission period 2024-04 has not ended');
+      await expect(generateCommissionStatements('March')).rejects.toThrow('Commission period must be YYYY-MM');
+      expect(mockDb.getCompletedTransactionsInRange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPayeeCommissionHistory', () => {
+    it('totals pending and paid commission', async () => {
+      mockListStatementsByPayee.mockResolvedValue([
+        createTestStatement({ period: '2024-03', status: 'in_batch', totalCommission: 100 }),
+        createTestStatement({ period: '2024-02', status: 'paid', totalCommission: 80.5 }),
+        createTestStatement({ period: '2024-01', status: 'draft', totalCommission: -20 }),
+      ]);
+
+      const history = await getPayeeCommissionHistory('rep-1', 6);
+
+      expect(mockListStatementsByPayee).toHaveBeenCalledWith('rep-1', 6);
+      expect(history.pendingCommission).toBe(100);
+      expect(history.paidToDate).toBe(80.5);
+    });
+  });
+
+  describe('payout batches', () => {
+    const batch: PayoutBatch = {
+      batchId: 'payout_1',
+      period: '2024-03',
+      statementIds: ['rep-1_2024-03'],
+      payouts: [{
+        id: 'rep-1_2024-03',
+        userId: 'rep-1',
+        userName: 'Rita Rep',
+        amount: 100,
+        currency: 'USD',
+        scheduledDate: NOW.toISOString(),
+        status: 'scheduled',
+        paymentMethod: 'bank_transfer',
+        transactionIds: [],
+        createdAt: NOW.toISOString(),
+      }],
+      totalAmount: 100,
+      currency: 'USD',
+      status: 'pending_approval',
+      createdBy: 'finance-1',
+      createdAt: NOW.getTime(),
+    };
+
+    it('batches draft statements that are owed commission', async () => {
+      mockListStatementsByPeriod.mockResolvedValue([
+        createTestStatement(),
+        createTestStatement({ statementId: 'rep-2_2024-03', payeeId: 'rep-2', totalCommission: -5 }),
+        createTestStatement({ statementId: 'rep-3_2024-03', payeeId: 'rep-3', status: 'paid' }),
+        createTestStatement({ statementId: 'rep-4_2024-03', payeeId: 'rep-4', totalCommission: 40.25 }),
+      ]);
+      mockUpdateStatementStatus.mockResolvedValue(true);
+
+      const created = await createPayoutBatch('2024-03', 'finance-1');
+
+      expect(created.status).toBe('pending_approval');
+      expect(created.statementIds).toEqual(['rep-1_2024-03', 'rep-4_2024-03']);
+      expect(created.totalAmount).toBe(140.25);
+      expect(mockUpdateStatementStatus).toHaveBeenCalledWith('rep-1_2024-03', 'draft', { status: 'in_batch', payoutBatchId: created.batchId });
+      expect(mockCreatePayoutBatch).toHaveBeenCalledWith(created);
+    });
+
+    it('refuses to create an empty batch', async () => {
+      mockListStatementsByPeriod.mockResolvedValue([createTestStatement({ status: 'in_batch' })]);
+
+      await expect(createPayoutBatch('2024-03', 'finance-1')).rejects.toThrow('Payout batch has no unpaid commission for 2024-03');
+      expect(mockCreatePayoutBatch).not.toHaveBeenCalled();
+    });
+
+    it('accrues commission when a batch is approved', async () => {
+      mockGetPayoutBatch.mockResolvedValue(batch);
+      mockUpdatePayoutBatchStatus.mockResolvedValue({ ...batch, status: 'approved' });
+
+      await approvePayoutBatch('payout_1', 'finance-2');
+
+      expect(mockUpdatePayoutBatchStatus).toHaveBeenCalledWith('payout_1', ['pending_approval', 'on_hold'], expect.objectContaining({ status: 'approved', approvedBy: 'finance-2' }));
+      expect(postCommissionAccrual).toHaveBeenCalledWith('rep-1_2024-03', 100, 'rep-1', 'USD');
+    });
+
+    it('requires a reason to hold a batch', async () => {
+      await expect(holdPayoutBatch('payout_1', 'finance-2', ' ')).rejects.toThrow('Payout batch hold reason is required');
+
+      mockGetPayoutBatch.mockResolvedValue({ ...batch, status: 'released' });
+      mockUpdatePayoutBatchStatus.mockResolvedValue(null);
+      await expect(holdPayoutBatch('payout_1', 'finance-2', 'Bank details changed')).rejects.toThrow('Payout batch is released and cannot be held');
+    });
+
+    it('records a payout transaction for each payee on release', async () => {
+      const approved = { ...batch, status: 'approved' as const };
+      mockGetPayoutBatch.mockResolvedValue(approved);
+      mockUpdatePayoutBatchStatus.mockImplementation(async (_id, _expected, changes) => ({ ...approved, status: 'released', ...changes }));
+      mockUpdateStatementStatus.mockResolvedValue(true);
+
+      const released = await releasePayoutBatch('payout_1', 'finance-2');
+
+      expect(mockDb.createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'payout',
+        amount: 100,
+        userId: 'rep-1',
+        metadata: { payoutBatchId: 'payout_1', commissionStatementId: 'rep-1_2024-03' },
+      }));
+      expect(recordTransactionInLedger).toHaveBeenCalledWith(expect.objectContaining({ type: 'payout' }));
+      expect(mockUpdateStatementStatus).toHaveBeenCalledWith('rep-1_2024-03', 'in_batch', { status: 'paid', paidAt: NOW.getTime() });
+      expect(released.payouts[0].status).toBe('completed');
+    });
+
+    it('only releases approved batches', async () => {
+      mockGetPayoutBatch.mockResolvedValue({ ...batch, status: 'on_hold' });
+      mockUpdatePayoutBatchStatus.mockResolvedValue(null);
+
+      await expect(releasePayoutBatch('payout_1', 'finance-2')).rejects.toThrow('Payout batch is on_hold and cannot be released');
+      expect(mockDb.createTransaction).not.toHaveBeenCalled();
+
+      mockGetPayoutBatch.mockResolvedValue(null);
+      await expect(releasePayoutBatch('missing', 'finance-2')).rejects.toThrow('Payout batch not found');
+    });
+  });
+});
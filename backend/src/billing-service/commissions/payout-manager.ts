@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Commission payout batches.
+ *
+ * A payout batch pays the draft statements of a month that are owed
+ * commission. Batches move through an approval workflow:
+ * - pending_approval: created; statements are reserved for the batch
+ * - approved: the commission is accrued in the ledger
+ * - on_hold: paused by finance staff, with a reason; approve it again to continue
+ * - released: a payout transaction is recorded for each payee and the
+ *   statements are marked paid
+ *
+ * Business Rules:
+ * - A statement is in at most one batch
+ * - Statements with no commission owed (refunds exceeded charges) are not paid
+ * - Only approved batches can be released
+ *
+ * Validation errors are thrown as `Error`s whose message starts with
+ * "Payout batch".
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { PayoutBatch, PayoutSchedule, Transaction } from '@harborlist/shared-types';
+import { db } from '../../shared/database';
+import { generateId } from '../../shared/utils';
+import { postCommissionAccrual, recordTransactionInLedger } from '../ledger/ledger-manager';
+import { roundToCents } from '../ledger/ledger-reports';
+import {
+  createPayoutBatch as storePayoutBatch,
+  getPayoutBatch,
+  listStatementsByPeriod,
+  updatePayoutBatchStatus,
+  updateStatementStatus,
+} from './commission-store';
+
+/**
+ * How payouts are sent
+ */
+const PAYOUT_METHOD = 'bank_transfer';
+
+/**
+ * Retrieves a batch, failing when it does not exist
+ */
+async function requirePayoutBatch(batchId: string): Promise<PayoutBatch> {
+  const batch = await getPayoutBatch(batchId);
+  if (!batch) {
+    throw new Error('Payout batch not found');
+  }
+  return batch;
+}
+
+/**
+ * Creates a payout batch for a month's unpaid statements
+ *
+ * @param period - Month (YYYY-MM)
+ * @param createdBy - Staff member creating the batch
+ * @returns Promise<PayoutBatch> - The batch, pending approval
+ * @throws Error - When the month has no commission to pay
+ */
+export async function createPayoutBatch(period: string, createdBy: string): Promise<PayoutBatch> {
+  const batchId = `payout_${generateId()}`;
+  const now = Date.now();
+  const statements = (await listStatementsByPeriod(period))
+    .filter(statement => statement.status === 'draft' && statement.totalCommission > 0);
+
+  const payouts: PayoutSchedule[] = [];
+  const statementIds: string[] = [];
+  for (const statement of statements) {
+    // Reserve the statement; another batch may have taken it first
+    if (!(await updateStatementStatus(statement.statementId, 'draft', { status: 'in_batch', payoutBatchId: batchId }))) {
+      continue;
+    }
+    statementIds.push(statement.statementId);
+    payouts.push({
+      id: statement.statementId,
+      userId: statement.payeeId,
+      userName: statement.payeeName,
+      amount: statement.totalCommission,
+      currency: statement.currency,
+      scheduledDate: new Date(now).toISOString(),
+      status: 'scheduled',
+      paymentMethod: PAYOUT_METHOD,
+      transactionIds: statement.lines.map(line => line.transactionId),
+      createdAt: new Date(now).toISOString(),
+    });
+  }
+
+  if (payouts.length === 0) {
+    throw new Error(`Payout batch has no unpaid commission for ${period}`);
+  }
+
+  const batch: PayoutBatch = {
+    batchId,
+    period,
+    statementIds,
+    payouts,
+    totalAmount: roundToCents(payouts.reduce((sum, payout) => sum + payout.amount, 0)),
+    currency: payouts[0].currency,
+    status: 'pending_approval',
+    createdBy,
+    createdAt: now,
+  };
+  await storePayoutBatch(batch);
+  return batch;
+}
+
+/**
+ * Approves a batch and accrues its commission
+ *
+ * @param batchId - Batch identifier
+ * @param approvedBy - Staff member approving it
+ * @returns Promise<PayoutBatch> - The approved batch
+ * @throws Error - When the batch is not pending approval or on hold
+ */
+export async function approvePayoutBatch(batchId: string, approvedBy: string): Promise<PayoutBatch> {
+  const batch = await requirePayoutBatch(batchId);
+  const approved = await updatePayoutBatchStatus(batchId, ['pending_approval', 'on_hold'], {
+    status: 'approved',
+    approvedBy,
+    approvedAt: Date.now(),
+  });
+  if (!approved) {
+    throw new Error(`Payout batch is ${batch.status} and cannot be approved`);
+  }
+
+  // Accruals are keyed by statement, so approving again after a hold posts nothing new
+  for (const payout of approved.payouts) {
+    await postCommissionAccrual(payout.id, payout.amount, payout.userId, payout.currency);
+  }
+  return approved;
+}
+
+/**
+ * Puts a batch on hold
+ *
+ * @param batchId - Batch identifier
+ * @param heldBy - Staff member holding it
+ * @param reason - Why the batch is held
+ * @returns Promise<PayoutBatch> - The held batch
+ * @throws Error - When no reason is given or the batch was already released
+ */
+export async function holdPayoutBatch(batchId: string, heldBy: string, reason: string): Promise<PayoutBatch> {
+  if (!reason || !reason.trim()) {
+    throw new Error('Payout batch hold reason is required');
+  }
+
+  const batch = await requirePayoutBatch(batchId);
+  const held = await updatePayoutBatchStatus(batchId, ['pending_approval', 'approved'], {
+    status: 'on_hold',
+    heldBy,
+    heldAt: Date.now(),
+    holdReason: reason.trim(),
+  });
+  if (!held) {
+    throw new Error(`Payout batch is ${batch.status} and cannot be held`);
+  }
+  return held;
+}
+
+/**
+ * Releases an approved batch, paying each payee
+ *
+ * @param batchId - Batch identifier
+ * @param releasedBy - Staff member releasing it
+ * @returns Promise<PayoutBatch> - The released batch
+ * @throws Error - When the batch is not approved
+ */
+export async function releasePayoutBatch(batchId: string, releasedBy: string): Promise<PayoutBatch> {
+  const batch = await requirePayoutBatch(batchId);
+  const releasedAt = Date.now();
+  const released = await updatePayoutBatchStatus(batchId, ['approved'], {
+    status: 'released',
+    releasedBy,
+    releasedAt,
+  });
+  if (!released) {
+    throw new Error(`Payout batch is ${batch.status} and cannot be released`);
+  }
+
+  const payouts: PayoutSchedule[] = [];
+  for (const payout of released.payouts) {
+    const transactionId = generateId();
+    const completedAt = new Date(releasedAt).toISOString();
+    const transaction: Transaction = {
+      id: transactionId,
+      transactionId,
+      type: 'payout',
+      amount: payout.amount,
+      currency: payout.currency,
+      status: 'completed',
+      userId: payout.userId,
+      userName: payout.userName,
+      userEmail: '',
+      paymentMethod: payout.paymentMethod,
+      processorTransactionId: `${batchId}_${payout.id}`,
+      createdAt: completedAt,
+      completedAt,
+      description: `Commission payout for ${released.period}`,
+      fees: 0,
+      netAmount: payout.amount,
+      metadata: {
+        payoutBatchId: batchId,
+        commissionStatementId: payout.id,
+      },
+    };
+
+    await db.createTransaction(transaction);
+    await recordTransactionInLedger(transaction);
+    await updateStatementStatus(payout.id, 'in_batch', { status: 'paid', paidAt: releasedAt });
+    payouts.push({ ...payout, status: 'completed', processedAt: completedAt });
+  }
+
+  return (await updatePayoutBatchStatus(batchId, ['released'], { payouts })) || { ...released, payouts };
+}
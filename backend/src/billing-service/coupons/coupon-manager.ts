@@ -0,0 +1,414 @@
+/**
+ * @fileoverview Coupon rules for subscriptions.
+ *
+ * Coupons give a discount on subscription charges:
+ * - percentage: a percent off each discounted billing period
+ * - fixed: an amount off each discounted billing period
+ * - free_months: months added to the trial before the first charge
+ *
+ * Percentage and fixed coupons are attached to the billing account when the
+ * subscription is created and discount the platform's subscription invoices
+ * for their duration ('once', 'repeating' for N periods, or 'forever').
+ * Plan-change proration is computed on the discounted prices.
+ *
+ * Business Rules:
+ * - A coupon can be limited to plans, plan types and first-time subscribers
+ * - Expired, inactive and fully redeemed coupons cannot be redeemed
+ * - An account can redeem each coupon once
+ * - A discount never takes a charge below zero
+ *
+ * Validation errors are thrown as `Error`s whose message starts with "Coupon".
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { AppliedCoupon, BillingAccount, Coupon, CouponRedemption } from '@harborlist/shared-types';
+import { db } from '../../shared/database';
+import { generateId } from '../../shared/utils';
+import { discountLineItem, roundCurrency } from '../invoices/invoice-manager';
+import {
+  addRedemptionDiscount,
+  createRedemption,
+  decrementRedemptionCount,
+  deleteRedemption,
+  getCoupon,
+  incrementRedemptionCount,
+  listRedemptionsByUser,
+} from './coupon-store';
+
+/**
+ * Valid coupon codes: 3-32 uppercase letters, digits, '-' or '_'
+ */
+export const COUPON_CODE_PATTERN = /^[A-Z0-9][A-Z0-9_-]{2,31}$/;
+
+/**
+ * Longest free period a coupon can give
+ */
+export const MAX_FREE_MONTHS = 24;
+
+/**
+ * Subscription a coupon is being applied to
+ */
+export interface CouponContext {
+  userId: string;
+  planId: string;
+  planType: 'individual' | 'dealer';
+  billingCycle: 'monthly' | 'yearly';
+  billingAccount: BillingAccount;
+}
+
+/**
+ * A redeemed coupon and what it gives the subscription
+ */
+export interface CouponRedemptionResult {
+  coupon: Coupon;
+  redemption: CouponRedemption;
+  appliedCoupon?: AppliedCoupon; // percentage and fixed coupons
+  freeMonths?: number; // free_months coupons
+}
+
+/**
+ * Normalizes a coupon code as entered by a customer
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Validates a coupon definition
+ *
+ * @param coupon - Coupon fields to validate
+ * @returns string | null - Error message or null if valid
+ */
+export function validateCouponDefinition(coupon: Partial<Coupon>): string | null {
+  if (!coupon.code || !COUPON_CODE_PATTERN.test(coupon.code)) {
+    return 'Coupon code must be 3-32 uppercase letters, digits, hyphens or underscores';
+  }
+
+  switch (coupon.discountType) {
+    case 'percentage':
+      if (!coupon.percentOff || coupon.percentOff <= 0 || coupon.percentOff > 100) {
+        return 'Percentage coupons need a percentOff between 0 and 100';
+      }
+      break;
+    case 'fixed':
+      if (!coupon.amountOff || coupon.amountOff <= 0) {
+        return 'Fixed coupons need a positive amountOff';
+      }
+      break;
+    case 'free_months':
+      if (!Number.isInteger(coupon.freeMonths) || coupon.freeMonths! < 1 || coupon.freeMonths! > MAX_FREE_MONTHS) {
+        return `Free-months coupons need between 1 and ${MAX_FREE_MONTHS} freeMonths`;
+      }
+      break;
+    default:
+      return 'Invalid discount type. Supported types: percentage, fixed, free_months';
+  }
+
+  if (!['once', 'repeating', 'forever'].includes(coupon.duration as string)) {
+    return 'Invalid duration. Supported durations: once, repeating, forever';
+  }
+  if (coupon.duration === 'repeating' && (!Number.isInteger(coupon.durationCycles) || coupon.durationCycles! < 1)) {
+    return 'Repeating coupons need durationCycles of at least 1';
+  }
+
+  if (coupon.maxRedemptions !== undefined && (!Number.isInteger(coupon.maxRedemptions) || coupon.maxRedemptions < 1)) {
+    return 'maxRedemptions must be a positive whole number';
+  }
+
+  if (coupon.planTypes && coupon.planTypes.some(type => type !== 'individual' && type !== 'dealer')) {
+    return 'Invalid plan type. Supported types: individual, dealer';
+  }
+
+  return null;
+}
+
+/**
+ * Whether an account has never had a subscription
+ */
+export function isFirstTimeSubscriber(billingAccount: BillingAccount): boolean {
+  return !billingAccount.subscriptionId && !billingAccount.canceledAt;
+}
+
+/**
+ * Finds why a coupon cannot be applied to a subscription
+ *
+ * @param coupon - Coupon being redeemed
+ * @param context - Plan and customer the coupon is applied to
+ * @param alreadyRedeemed - Whether the account has redeemed this coupon before
+ * @param now - Current time
+ * @returns string | null - The reason, or null when the coupon applies
+ */
+export function getCouponIneligibility(
+  coupon: Coupon,
+  context: Pick<CouponContext, 'planId' | 'planType' | 'billingAccount'>,
+  alreadyRedeemed: boolean,
+  now: number = Date.now()
+): string | null {
+  if (!coupon.active) {
+    return 'Coupon is no longer active';
+  }
+  if (coupon.expiresAt && coupon.expiresAt <= now) {
+    return 'Coupon has expired';
+  }
+  if (coupon.maxRedemptions !== undefined && coupon.redemptionCount >= coupon.maxRedemptions) {
+    return 'Coupon has reached its redemption limit';
+  }
+  if (coupon.planIds?.length && !coupon.planIds.includes(context.planId)) {
+    return 'Coupon is not valid for this plan';
+  }
+  if (coupon.planTypes?.length && !coupon.planTypes.includes(context.planType)) {
+    return `Coupon is not valid for ${context.planType} plans`;
+  }
+  if (coupon.firstTimeOnly && !isFirstTimeSubscriber(context.billingAccount)) {
+    return 'Coupon is only valid for first-time subscribers';
+  }
+  if (alreadyRedeemed) {
+    return 'Coupon has already been redeemed by this account';
+  }
+  return null;
+}
+
+/**
+ * Discount a coupon gives on an amount
+ *
+ * @param coupon - Coupon or applied coupon
+ * @param amount - Amount being charged
+ * @returns number - Discount, never more than the amount (0 for free-months coupons)
+ */
+export function calculateCouponDiscount(
+  coupon: Pick<Coupon, 'discountType' | 'percentOff' | 'amountOff'>,
+  amount: number
+): number {
+  if (amount <= 0) {
+    return 0;
+  }
+  if (coupon.discountType === 'percentage') {
+    return roundCurrency(amount * (coupon.percentOff || 0) / 100);
+  }
+  if (coupon.discountType === 'fixed') {
+    return roundCurrency(Math.min(coupon.amountOff || 0, amount));
+  }
+  return 0;
+}
+
+/**
+ * Price after an account's coupon, for charges the coupon still applies to
+ *
+ * @param appliedCoupon - The account's coupon, if any
+ * @param amount - Full price
+ */
+export function applyCouponToPrice(appliedCoupon: AppliedCoupon | undefined, amount: number): number {
+  if (!appliedCoupon || appliedCoupon.cyclesRemaining === 0) {
+    return amount;
+  }
+  return roundCurrency(amount - calculateCouponDiscount(appliedCoupon, amount));
+}
+
+/**
+ * Short description of a coupon's discount (e.g. "20% off", "3 months free")
+ */
+export function describeCouponDiscount(coupon: Pick<Coupon, 'discountType' | 'percentOff' | 'amountOff' | 'freeMonths'>): string {
+  switch (coupon.discountType) {
+    case 'percentage':
+      return `${coupon.percentOff}% off`;
+    case 'fixed':
+      return `$${(coupon.amountOff || 0).toFixed(2)} off`;
+    case 'free_months':
+      return coupon.freeMonths === 1 ? '1 month free' : `${coupon.freeMonths} months free`;
+  }
+}
+
+/**
+ * Builds the coupon an account carries for a redeemed percentage or fixed coupon
+ */
+export function toAppliedCoupon(coupon: Coupon, redemptionId: string): AppliedCoupon | undefined {
+  if (coupon.discountType === 'free_months') {
+    return undefined;
+  }
+
+  return {
+    code: coupon.code,
+    redemptionId,
+    discountType: coupon.discountType,
+    percentOff: coupon.percentOff,
+    amountOff: coupon.amountOff,
+    cyclesRemaining: coupon.duration === 'forever'
+      ? undefined
+      : coupon.duration === 'repeating' ? coupon.durationCycles : 1,
+  };
+}
+
+/**
+ * Loads a coupon and checks it can be applied to a subscription
+ *
+ * @param code - Coupon code as entered
+ * @param context - Subscription the coupon is applied to
+ * @returns Promise<Coupon> - The coupon
+ * @throws Error - When the coupon does not exist or does not apply
+ */
+export async function checkCoupon(code: string, context: CouponContext): Promise<Coupon> {
+  const coupon = await getCoupon(normalizeCouponCode(code));
+  if (!coupon) {
+    throw new Error('Coupon not found');
+  }
+
+  const redemptions = await listRedemptionsByUser(context.userId);
+  const alreadyRedeemed = redemptions.some(redemption => redemption.code === coupon.code);
+
+  const reason = getCouponIneligibility(coupon, context, alreadyRedeemed);
+  if (reason) {
+    throw new Error(reason);
+  }
+  return coupon;
+}
+
+/**
+ * Redeems a coupon for a new subscription
+ *
+ * Counts the redemption against the coupon's limit and records it. If the
+ * subscription is then not created, call releaseCouponRedemption.
+ *
+ * @param code - Coupon code as entered
+ * @param context - Subscription the coupon is applied to
+ * @returns Promise<CouponRedemptionResult> - The redemption and the discount it gives
+ */
+export async function redeemCoupon(code: string, context: CouponContext): Promise<CouponRedemptionResult> {
+  const coupon = await checkCoupon(code, context);
+
+  if (!(await incrementRedemptionCount(coupon.code))) {
+    throw new Error('Coupon has reached its redemption limit');
+  }
+
+  const now = Date.now();
+  const redemption: CouponRedemption = {
+    redemptionId: `red_${generateId()}`,
+    code: coupon.code,
+    userId: context.userId,
+    billingAccountId: context.billingAccount.billingId,
+    planId: context.planId,
+    billingCycle: context.billingCycle,
+    discountType: coupon.discountType,
+    freeMonths: coupon.discountType === 'free_months' ? coupon.freeMonths : undefined,
+    totalDiscount: 0,
+    redeemedAt: now,
+    updatedAt: now,
+  };
+
+  try {
+    await createRedemption(redemption);
+  } catch (error) {
+    await decrementRedemptionCount(coupon.code);
+    throw error;
+  }
+
+  return {
+    coupon,
+    redemption,
+    appliedCoupon: toAppliedCoupon(coupon, redemption.redemptionId),
+    freeMonths: redemption.freeMonths,
+  };
+}
+
+/**
+ * Undoes a redemption whose subscription was not created
+ *
+ * @param redemption - Redemption to release
+ */
+export async function releaseCouponRedemption(redemption: CouponRedemption): Promise<void> {
+  await deleteRedemption(redemption.redemptionId);
+  await decrementRedemptionCount(redemption.code);
+}
+
+/**
+ * Discount line for a subscription charge, when the account's coupon applies
+ *
+ * @param billingAccount - Account being charged
+ * @param amount - Full price of the billing period
+ * @returns The discount line item and amount, or null when no discount applies
+ */
+export function getSubscriptionDiscount(
+  billingAccount: BillingAccount,
+  amount: number
+): { lineItem: ReturnType<typeof discountLineItem>; discount: number } | null {
+  const appliedCoupon = billingAccount.coupon;
+  if (!appliedCoupon || appliedCoupon.cyclesRemaining === 0) {
+    return null;
+  }
+
+  const discount = calculateCouponDiscount(appliedCoupon, amount);
+  if (discount <= 0) {
+    return null;
+  }
+
+  return {
+    lineItem: discountLineItem(appliedCoupon.code, `Coupon ${appliedCoupon.code} (${describeCouponDiscount(appliedCoupon)})`, discount),
+    discount,
+  };
+}
+
+/**
+ * Records a discounted billing period: adds the discount to the redemption
+ * and uses up one of the coupon's periods
+ *
+ * @param billingAccount - Account that was charged
+ * @param discount - Discount given on the charge
+ */
+export async function recordCouponUsage(billingAccount: BillingAccount, discount: number): Promise<void> {
+  const appliedCoupon = billingAccount.coupon;
+  if (!appliedCoupon) {
+    return;
+  }
+
+  await addRedemptionDiscount(appliedCoupon.redemptionId, discount);
+
+  if (appliedCoupon.cyclesRemaining !== undefined) {
+    await db.updateBillingAccount(billingAccount.billingId, {
+      coupon: { ...appliedCoupon, cyclesRemaining: Math.max(0, appliedCoupon.cyclesRemaining - 1) },
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Coupon activity over a reporting period
+ */
+export interface CouponReportMetrics {
+  totalRedemptions: number;
+  totalDiscount: number;
+  freeMonthsGranted: number;
+  revenueImpactRate: number; // discount as a share of revenue before discounts
+  byCode: Array<{ code: string; redemptions: number; totalDiscount: number; freeMonthsGranted: number }>;
+}
+
+/**
+ * Summarizes redemptions for the revenue report
+ *
+ * @param redemptions - Redemptions made in the period
+ * @param netRevenue - Revenue collected in the period, after discounts
+ * @returns CouponReportMetrics - Totals overall and per code, largest discount first
+ */
+export function summarizeCouponRedemptions(redemptions: CouponRedemption[], netRevenue: number): CouponReportMetrics {
+  const byCode = new Map<string, { code: string; redemptions: number; totalDiscount: number; freeMonthsGranted: number }>();
+
+  redemptions.forEach(redemption => {
+    const entry = byCode.get(redemption.code) || { code: redemption.code, redemptions: 0, totalDiscount: 0, freeMonthsGranted: 0 };
+    entry.redemptions += 1;
+    entry.totalDiscount = roundCurrency(entry.totalDiscount + (redemption.totalDiscount || 0));
+    entry.freeMonthsGranted += redemption.freeMonths || 0;
+    byCode.set(redemption.code, entry);
+  });
+
+  const codes = Array.from(byCode.values()).sort((a, b) => b.totalDiscount - a.totalDiscount || b.redemptions - a.redemptions);
+  const totalDiscount = roundCurrency(codes.reduce((sum, entry) => sum + entry.totalDiscount, 0));
+  const grossRevenue = netRevenue + totalDiscount;
+
+  return {
+    totalRedemptions: redemptions.length,
+    totalDiscount,
+    freeMonthsGranted: codes.reduce((sum, entry) => sum + entry.freeMonthsGranted, 0),
+    revenueImpactRate: grossRevenue > 0 ? Math.round(totalDiscount / grossRevenue * 10000) / 10000 : 0,
+    byCode: codes,
+  };
+}
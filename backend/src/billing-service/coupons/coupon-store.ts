@@ -0,0 +1,308 @@
+/**
+ * @fileoverview Coupon and redemption storage.
+ *
+ * Coupons are stored one item per code. The redemption count is incremented
+ * with a condition on `maxRedemptions`, so concurrent checkouts cannot redeem
+ * a limited coupon more often than allowed. Each redemption is its own item,
+ * which records the discount given so far for reporting.
+ *
+ * Redemption indexes:
+ * - code-index: redemptions of a coupon, newest first
+ * - user-index: a customer's redemptions, newest first
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand,
+  DeleteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { Coupon, CouponRedemption } from '@harborlist/shared-types';
+import { isConditionalCheckFailure } from '../../shared/utils';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const COUPONS_TABLE = process.env.COUPONS_TABLE || 'harborlist-coupons';
+const COUPON_REDEMPTIONS_TABLE = process.env.COUPON_REDEMPTIONS_TABLE || 'harborlist-coupon-redemptions';
+
+/**
+ * Redemption indexes
+ */
+const CODE_INDEX = 'code-index';
+const USER_INDEX = 'user-index';
+
+/**
+ * A page of redemptions
+ */
+export interface RedemptionPage {
+  redemptions: CouponRedemption[];
+  lastKey?: Record<string, any>;
+}
+
+/**
+ * Retrieves a coupon
+ *
+ * @param code - Coupon code (uppercase)
+ * @returns Promise<Coupon | null> - The coupon, or null when it does not exist
+ */
+export async function getCoupon(code: string): Promise<Coupon | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: COUPONS_TABLE,
+    Key: { code },
+  }));
+
+  return (result.Item as Coupon) || null;
+}
+
+/**
+ * Stores a new coupon
+ *
+ * @param coupon - Coupon to create
+ * @returns Promise<boolean> - False when the code is already taken
+ */
+export async function createCoupon(coupon: Coupon): Promise<boolean> {
+  try {
+    await docClient.send(new PutCommand({
+      TableName: COUPONS_TABLE,
+      Item: coupon,
+      ConditionExpression: 'attribute_not_exists(#code)',
+      ExpressionAttributeNames: { '#code': 'code' },
+    }));
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Updates an existing coupon
+ *
+ * @param code - Coupon code
+ * @param changes - Fields to set
+ * @returns Promise<Coupon | null> - The updated coupon, or null when it does not exist
+ */
+export async function updateCoupon(code: string, changes: Partial<Coupon>): Promise<Coupon | null> {
+  const entries = Object.entries(changes).filter(([key, value]) => key !== 'code' && value !== undefined);
+
+  try {
+    const result = await docClient.send(new UpdateCommand({
+      TableName: COUPONS_TABLE,
+      Key: { code },
+      UpdateExpression: `SET ${entries.map(([key]) => `#${key} = :${key}`).join(', ')}`,
+      ConditionExpression: 'attribute_exists(#code)',
+      ExpressionAttributeNames: {
+        ...Object.fromEntries(entries.map(([key]) => [`#${key}`, key])),
+        '#code': 'code',
+      },
+      ExpressionAttributeValues: Object.fromEntries(entries.map(([key, value]) => [`:${key}`, value])),
+      ReturnValues: 'ALL_NEW',
+    }));
+    return result.Attributes as Coupon;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists all coupons
+ *
+ * @param limit - Maximum number of coupons to return
+ * @param lastKey - Pagination key from the previous page
+ */
+export async function listCoupons(
+  limit: number,
+  lastKey?: Record<string, any>
+): Promise<{ coupons: Coupon[]; lastKey?: Record<string, any> }> {
+  const result = await docClient.send(new ScanCommand({
+    TableName: COUPONS_TABLE,
+    Limit: limit,
+    ExclusiveStartKey: lastKey,
+  }));
+
+  return {
+    coupons: (result.Items || []) as Coupon[],
+    lastKey: result.LastEvaluatedKey,
+  };
+}
+
+/**
+ * Counts a redemption against a coupon's limit
+ *
+ * @param code - Coupon code
+ * @returns Promise<boolean> - False when the coupon has reached its redemption limit
+ */
+export async function incrementRedemptionCount(code: string): Promise<boolean> {
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: COUPONS_TABLE,
+      Key: { code },
+      UpdateExpression: 'ADD redemptionCount :one SET updatedAt = :now',
+      ConditionExpression: 'attribute_exists(#code) AND (attribute_not_exists(maxRedemptions) OR redemptionCount < maxRedemptions)',
+      ExpressionAttributeNames: { '#code': 'code' },
+      ExpressionAttributeValues: { ':one': 1, ':now': Date.now() },
+    }));
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Returns a redemption to a coupon's limit (when the subscription was not created)
+ *
+ * @param code - Coupon code
+ */
+export async function decrementRedemptionCount(code: string): Promise<void> {
+  await docClient.send(new UpdateCommand({
+    TableName: COUPONS_TABLE,
+    Key: { code },
+    UpdateExpression: 'ADD redemptionCount :minusOne SET updatedAt = :now',
+    ConditionExpression: 'redemptionCount > :zero',
+    ExpressionAttributeValues: { ':minusOne': -1, ':zero': 0, ':now': Date.now() },
+  })).catch(error => {
+    if (!isConditionalCheckFailure(error)) {
+      throw error;
+    }
+  });
+}
+
+/**
+ * Stores a redemption
+ *
+ * @param redemption - Redemption to create
+ */
+export async function createRedemption(redemption: CouponRedemption): Promise<void> {
+  await docClient.send(new PutCommand({
+    TableName: COUPON_REDEMPTIONS_TABLE,
+    Item: redemption,
+    ConditionExpression: 'attribute_not_exists(redemptionId)',
+  }));
+}
+
+/**
+ * Deletes a redemption (when the subscription was not created)
+ *
+ * @param redemptionId - Redemption identifier
+ */
+export async function deleteRedemption(redemptionId: string): Promise<void> {
+  await docClient.send(new DeleteCommand({
+    TableName: COUPON_REDEMPTIONS_TABLE,
+    Key: { redemptionId },
+  }));
+}
+
+/**
+ * Adds a discount given on a charge to a redemption's total
+ *
+ * @param redemptionId - Redemption identifier
+ * @param discount - Discount amount
+ */
+export async function addRedemptionDiscount(redemptionId: string, discount: number): Promise<void> {
+  await docClient.send(new UpdateCommand({
+    TableName: COUPON_REDEMPTIONS_TABLE,
+    Key: { redemptionId },
+    UpdateExpression: 'ADD totalDiscount :discount SET updatedAt = :now',
+    ConditionExpression: 'attribute_exists(redemptionId)',
+    ExpressionAttributeValues: { ':discount': discount, ':now': Date.now() },
+  }));
+}
+
+/**
+ * Lists a coupon's redemptions, newest first
+ *
+ * @param code - Coupon code
+ * @param limit - Maximum number of redemptions to return
+ * @param lastKey - Pagination key from the previous page
+ */
+export async function listRedemptionsByCode(
+  code: string,
+  limit: number,
+  lastKey?: Record<string, any>
+): Promise<RedemptionPage> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: COUPON_REDEMPTIONS_TABLE,
+    IndexName: CODE_INDEX,
+    KeyConditionExpression: '#code = :code',
+    ExpressionAttributeNames: { '#code': 'code' },
+    ExpressionAttributeValues: { ':code': code },
+    ScanIndexForward: false,
+    Limit: limit,
+    ExclusiveStartKey: lastKey,
+  }));
+
+  return {
+    redemptions: (result.Items || []) as CouponRedemption[],
+    lastKey: result.LastEvaluatedKey,
+  };
+}
+
+/**
+ * Lists a customer's redemptions, newest first
+ *
+ * @param userId - Customer user ID
+ */
+export async function listRedemptionsByUser(userId: string): Promise<CouponRedemption[]> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: COUPON_REDEMPTIONS_TABLE,
+    IndexName: USER_INDEX,
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: { ':userId': userId },
+    ScanIndexForward: false,
+  }));
+
+  return (result.Items || []) as CouponRedemption[];
+}
+
+/**
+ * Lists all redemptions made within a period (for reporting)
+ *
+ * @param start - Period start (epoch ms, inclusive)
+ * @param end - Period end (epoch ms, inclusive)
+ */
+export async function listRedemptionsBetween(start: number, end: number): Promise<CouponRedemption[]> {
+  const redemptions: CouponRedemption[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: COUPON_REDEMPTIONS_TABLE,
+      FilterExpression: 'redeemedAt BETWEEN :start AND :end',
+      ExpressionAttributeValues: { ':start': start, ':end': end },
+      ExclusiveStartKey: lastKey,
+    }));
+    redemptions.push(...((result.Items || []) as CouponRedemption[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return redemptions;
+}
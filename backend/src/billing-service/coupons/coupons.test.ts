@@ -0,0 +1,397 @@
+/**
+ * @fileoverview Unit tests for subscription coupons
+ *
+ * Tests coupon validation and eligibility rules, discount math, redemption
+ * against limits, discounts on signup and renewal charges and redemption reporting.
+ */
+
+import { BillingAccount, Coupon, CouponRedemption } from '@harborlist/shared-types';
+import {
+  applyCouponToPrice,
+  calculateCouponDiscount,
+  checkCoupon,
+  CouponContext,
+  describeCouponDiscount,
+  getCouponIneligibility,
+  getSubscriptionDiscount,
+  recordCouponUsage,
+  redeemCoupon,
+  releaseCouponRedemption,
+  summarizeCouponRedemptions,
+  toAppliedCoupon,
+  validateCouponDefinition,
+} from './coupon-manager';
+import {
+  addRedemptionDiscount,
+  createRedemption,
+  decrementRedemptionCount,
+  deleteRedemption,
+  getCoupon,
+  incrementRedemptionCount,
+  listRedemptionsByUser,
+} from './coupon-store';
+import { SubscriptionManager } from '../subscription-manager';
+import { SimulatorPaymentProcessor } from '../payment-processors/simulator';
+import { db } from '../../shared/database';
+
+jest.mock('./coupon-store', () => ({
+  getCoupon: jest.fn(),
+  incrementRedemptionCount: jest.fn(),
+  decrementRedemptionCount: jest.fn(),
+  createRedemption: jest.fn(),
+  deleteRedemption: jest.fn(),
+  addRedemptionDiscount: jest.fn(),
+  listRedemptionsByUser: jest.fn(),
+}));
+
+jest.mock('../../shared/database', () => ({
+  db: {
+    getUser: jest.fn(),
+    getBillingAccountByUser: jest.fn(),
+    updateBillingAccount: jest.fn(),
+    updateUser: jest.fn(),
+    updateUserType: jest.fn(),
+  },
+}));
+
+jest.mock('../../jobs/scheduler', () => ({
+  scheduleJob: jest.fn().mockResolvedValue(true),
+}));
+
+const mockGetCoupon = getCoupon as jest.MockedFunction<typeof getCoupon>;
+const mockIncrementRedemptionCount = incrementRedemptionCount as jest.MockedFunction<typeof incrementRedemptionCount>;
+const mockDecrementRedemptionCount = decrementRedemptionCount as jest.MockedFunction<typeof decrementRedemptionCount>;
+const mockCreateRedemption = createRedemption as jest.MockedFunction<typeof createRedemption>;
+const mockDeleteRedemption = deleteRedemption as jest.MockedFunction<typeof deleteRedemption>;
+const mockAddRedemptionDiscount = addRedemptionDiscount as jest.MockedFunction<typeof addRedemptionDiscount>;
+const mockListRedemptionsByUser = listRedemptionsByUser as jest.MockedFunction<typeof listRedemptionsByUser>;
+const mockDb = db as jest.Mocked<typeof db>;
+
+const NOW = 1_700_000_000_000;
+
+const billingAccount: BillingAccount = {
+  billingId: 'billing-1',
+  userId: 'user-1',
+  plan: 'free',
+  amount: 0,
+  currency: 'USD',
+  status: 'active',
+  paymentHistory: [],
+  createdAt: NOW,
+  updatedAt: NOW,
+};
+
+const context: CouponContext = {
+  userId: 'user-1',
+  planId: 'premium_individual',
+  planType: 'individual',
+  billingCycle: 'monthly',
+  billingAccount,
+};
+
+function createTestCoupon(overrides: Partial<Coupon> = {}): Coupon {
+  return {
+    code: 'SPRING25',
+    discountType: 'percentage',
+    percentOff: 25,
+    duration: 'repeating',
+    durationCycles: 3,
+    firstTimeOnly: false,
+    redemptionCount: 0,
+    active: true,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function createTestRedemption(overrides: Partial<CouponRedemption> = {}): CouponRedemption {
+  return {
+    redemptionId: 'red-1',
+    code: 'SPRING25',
+    userId: 'user-1',
+    billingAccountId: 'billing-1',
+    planId: 'premium_individual',
+    billingCycle: 'monthly',
+    discountType: 'percentage',
+    totalDiscount: 0,
+    redeemedAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('Coupons', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    mockListRedemptionsByUser.mockResolvedValue([]);
+    mockIncrementRedemptionCount.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Definitions', () => {
+    test('should accept valid coupons of each type', () => {
+      expect(validateCouponDefinition(createTestCoupon())).toBeNull();
+      expect(validateCouponDefinition(createTestCoupon({ discountType: 'fixed', amountOff: 10, duration: 'forever' }))).toBeNull();
+      expect(validateCouponDefinition(createTestCoupon({ discountType: 'free_months', freeMonths: 3, duration: 'once' }))).toBeNull();
+    });
+
+    test('should reject invalid codes, amounts and durations', () => {
+      expect(validateCouponDefinition(createTestCoupon({ code: 'x' }))).toMatch(/code/);
+      expect(validateCouponDefinition(createTestCoupon({ percentOff: 120 }))).toMatch(/percentOff/);
+      expect(validateCouponDefinition(createTestCoupon({ discountType: 'fixed', amountOff: 0 }))).toMatch(/amountOff/);
+      expect(validateCouponDefinition(createTestCoupon({ discountType: 'free_months', freeMonths: 36 }))).toMatch(/freeMonths/);
+      expect(validateCouponDefinition(createTestCoupon({ durationCycles: undefined }))).toMatch(/durationCycles/);
+      expect(validateCouponDefinition(createTestCoupon({ maxRedemptions: 0 }))).toMatch(/maxRedemptions/);
+    });
+  });
+
+  describe('Eligibility', () => {
+    test('should apply an unrestricted active coupon', () => {
+      expect(getCouponIneligibility(createTestCoupon(), context, false, NOW)).toBeNull();
+    });
+
+    test('should refuse inactive, expired and fully redeemed coupons', () => {
+      expect(getCouponIneligibility(createTestCoupon({ active: false }), context, false, NOW)).toBe('Coupon is no longer active');
+      expect(getCouponIneligibility(createTestCoupon({ expiresAt: NOW - 1 }), context, false, NOW)).toBe('Coupon has expired');
+      expect(getCouponIneligibility(createTestCoupon({ maxRedemptions: 5, redemptionCount: 5 }), context, false, NOW))
+        .toBe('Coupon has reached its redemption limit');
+    });
+
+    test('should enforce plan, plan type and first-time restrictions', () => {
+      expect(getCouponIneligibility(createTestCoupon({ planIds: ['premium_dealer'] }), context, false, NOW))
+        .toBe('Coupon is not valid for this plan');
+      expect(getCouponIneligibility(createTestCoupon({ planTypes: ['dealer'] }), context, false, NOW))
+        .toBe('Coupon is not valid for individual plans');
+      expect(getCouponIneligibility(
+        createTestCoupon({ firstTimeOnly: true }),
+        { ...context, billingAccount: { ...billingAccount, canceledAt: NOW - 1000 } },
+        false,
+        NOW
+      )).toBe('Coupon is only valid for first-time subscribers');
+      expect(getCouponIneligibility(createTestCoupon(), context, true, NOW)).toBe('Coupon has already been redeemed by this account');
+    });
+  });
+
+  describe('Discounts', () => {
+    test('should never discount below zero', () => {
+      expect(calculateCouponDiscount({ discountType: 'percentage', percentOff: 25 }, 29.99)).toBe(7.5);
+      expect(calculateCouponDiscount({ discountType: 'fixed', amountOff: 50 }, 29.99)).toBe(29.99);
+      expect(calculateCouponDiscount({ discountType: 'free_months' }, 29.99)).toBe(0);
+    });
+
+    test('should track billing periods by duration', () => {
+      expect(toAppliedCoupon(createTestCoupon({ duration: 'once' }), 'red-1')!.cyclesRemaining).toBe(1);
+      expect(toAppliedCoupon(createTestCoupon(), 'red-1')!.cyclesRemaining).toBe(3);
+      expect(toAppliedCoupon(createTestCoupon({ duration: 'forever' }), 'red-1')!.cyclesRemaining).toBeUndefined();
+      expect(toAppliedCoupon(createTestCoupon({ discountType: 'free_months', freeMonths: 2 }), 'red-1')).toBeUndefined();
+    });
+
+    test('should price plan changes with the account coupon until it is used up', () => {
+      const applied = toAppliedCoupon(createTestCoupon(), 'red-1');
+      expect(applyCouponToPrice(applied, 100)).toBe(75);
+      expect(applyCouponToPrice({ ...applied!, cyclesRemaining: 0 }, 100)).toBe(100);
+      expect(applyCouponToPrice(undefined, 100)).toBe(100);
+    });
+
+    test('should describe discounts', () => {
+      expect(describeCouponDiscount(createTestCoupon())).toBe('25% off');
+      expect(describeCouponDiscount(createTestCoupon({ discountType: 'fixed', amountOff: 10 }))).toBe('$10.00 off');
+      expect(describeCouponDiscount(createTestCoupon({ discountType: 'free_months', freeMonths: 1 }))).toBe('1 month free');
+    });
+  });
+
+  describe('Redemption', () => {
+    test('should fail for unknown codes', async () => {
+      mockGetCoupon.mockResolvedValue(null);
+
+      await expect(checkCoupon('nope', context)).rejects.toThrow('Coupon not found');
+    });
+
+    test('should refuse a second redemption by the same account', async () => {
+      mockGetCoupon.mockResolvedValue(createTestCoupon());
+      mockListRedemptionsByUser.mockResolvedValue([createTestRedemption()]);
+
+      await expect(checkCoupon('spring25', context)).rejects.toThrow('already been redeemed');
+    });
+
+    test('should count the redemption and record it', async () => {
+      mockGetCoupon.mockResolvedValue(createTestCoupon());
+
+      const result = await redeemCoupon(' spring25 ', context);
+
+      expect(mockGetCoupon).toHaveBeenCalledWith('SPRING25');
+      expect(mockIncrementRedemptionCount).toHaveBeenCalledWith('SPRING25');
+      expect(mockCreateRedemption).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'SPRING25',
+        userId: 'user-1',
+        planId: 'premium_individual',
+        totalDiscount: 0,
+        redeemedAt: NOW,
+      }));
+      expect(result.appliedCoupon).toEqual(expect.objectContaining({
+        code: 'SPRING25',
+        redemptionId: result.redemption.redemptionId,
+        cyclesRemaining: 3,
+      }));
+    });
+
+    test('should refuse when the limit is reached concurrently', async () => {
+      mockGetCoupon.mockResolvedValue(createTestCoupon({ maxRedemptions: 1 }));
+      mockIncrementRedemptionCount.mockResolvedValue(false);
+
+      await expect(redeemCoupon('SPRING25', context)).rejects.toThrow('redemption limit');
+      expect(mockCreateRedemption).not.toHaveBeenCalled();
+    });
+
+    test('should give the redemption back when recording it fails', async () => {
+      mockGetCoupon.mockResolvedValue(createTestCoupon());
+      mockCreateRedemption.mockRejectedValueOnce(new Error('write failed'));
+
+      await expect(redeemCoupon('SPRING25', context)).rejects.toThrow('write failed');
+      expect(mockDecrementRedemptionCount).toHaveBeenCalledWith('SPRING25');
+    });
+
+    test('should release a redemption whose subscription was not created', async () => {
+      await releaseCouponRedemption(createTestRedemption());
+
+      expect(mockDeleteRedemption).toHaveBeenCalledWith('red-1');
+      expect(mockDecrementRedemptionCount).toHaveBeenCalledWith('SPRING25');
+    });
+  });
+
+  describe('Renewal charges', () => {
+    const couponAccount: BillingAccount = {
+      ...billingAccount,
+      coupon: toAppliedCoupon(createTestCoupon(), 'red-1'),
+    };
+
+    test('should add a negative discount line while periods remain', () => {
+      const result = getSubscriptionDiscount(couponAccount, 29.99);
+
+      expect(result!.discount).toBe(7.5);
+      expect(result!.lineItem).toEqual(expect.objectContaining({
+        type: 'discount',
+        amount: -7.5,
+        couponCode: 'SPRING25',
+        description: 'Coupon SPRING25 (25% off)',
+      }));
+      expect(getSubscriptionDiscount({ ...couponAccount, coupon: { ...couponAccount.coupon!, cyclesRemaining: 0 } }, 29.99)).toBeNull();
+      expect(getSubscriptionDiscount(billingAccount, 29.99)).toBeNull();
+    });
+
+    test('should record the discount and use up a period', async () => {
+      await recordCouponUsage(couponAccount, 7.5);
+
+      expect(mockAddRedemptionDiscount).toHaveBeenCalledWith('red-1', 7.5);
+      expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing-1', expect.objectContaining({
+        coupon: expect.objectContaining({ cyclesRemaining: 2 }),
+      }));
+    });
+
+    test('should not count periods for forever coupons', async () => {
+      await recordCouponUsage({ ...billingAccount, coupon: toAppliedCoupon(createTestCoupon({ duration: 'forever' }), 'red-1') }, 7.5);
+
+      expect(mockAddRedemptionDiscount).toHaveBeenCalledWith('red-1', 7.5);
+      expect(mockDb.updateBillingAccount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Signup charges', () => {
+    let processor: SimulatorPaymentProcessor;
+    let events: Array<{ type: string; data: { object: any } }>;
+
+    beforeEach(async () => {
+      processor = new SimulatorPaymentProcessor('whsec_test_coupons', {
+        webhookDelayMs: -1,
+        prices: { price_premium_individual_monthly: 29.99 },
+      });
+      events = [];
+      processor.setWebhookDispatcher(async payload => {
+        events.push(JSON.parse(payload));
+      });
+      const { customerId } = await processor.createCustomer({ email: 'buyer@example.com', name: 'Test Buyer' });
+      const { paymentMethodId } = await processor.createPaymentMethod(customerId, {
+        type: 'card',
+        card: { number: '4242424242424242', exp_month: 12, exp_year: 2030, cvc: '123' },
+      });
+
+      mockDb.getUser.mockResolvedValue({ id: 'user-1' } as any);
+      mockDb.getBillingAccountByUser.mockResolvedValue({ ...billingAccount, customerId, paymentMethodId });
+    });
+
+    test('should charge the first invoice at the coupon price and use up a once coupon', async () => {
+      mockGetCoupon.mockResolvedValue(createTestCoupon({ duration: 'once', durationCycles: undefined }));
+
+      const result = await new SubscriptionManager(processor).createSubscription({
+        userId: 'user-1',
+        planId: 'premium_individual',
+        billingCycle: 'monthly',
+        couponCode: 'spring25',
+      });
+      await processor.flushWebhooks();
+
+      const invoice = events.find(event => event.type === 'invoice.payment_succeeded')!.data.object;
+      expect(invoice.amount_paid).toBe(2249);
+      expect(result.coupon).toEqual({ code: 'SPRING25', discount: '25% off' });
+      expect(mockDb.updateUserType).toHaveBeenCalledWith('user-1', 'premium_individual', expect.objectContaining({ plan: 'premium_individual' }));
+      const { redemptionId } = mockCreateRedemption.mock.calls[0][0];
+      expect(mockAddRedemptionDiscount).toHaveBeenCalledWith(redemptionId, 7.5);
+      expect(mockDb.updateBillingAccount).toHaveBeenLastCalledWith('billing-1', expect.objectContaining({
+        coupon: expect.objectContaining({ code: 'SPRING25', cyclesRemaining: 0 }),
+      }));
+    });
+
+    test('should start the processor subscription in a trial for free months', async () => {
+      mockGetCoupon.mockResolvedValue(createTestCoupon({ code: 'FREE2', discountType: 'free_months', freeMonths: 2 }));
+      const createSubscription = jest.spyOn(processor, 'createSubscription');
+
+      const result = await new SubscriptionManager(processor).createSubscription({
+        userId: 'user-1',
+        planId: 'premium_individual',
+        billingCycle: 'monthly',
+        couponCode: 'free2',
+      });
+      await processor.flushWebhooks();
+
+      const freeUntil = new Date(result.trialEnd!);
+      freeUntil.setMonth(freeUntil.getMonth() - 2);
+      expect(Math.abs(freeUntil.getTime() - Date.now())).toBeLessThan(60 * 1000);
+      expect(createSubscription).toHaveBeenCalledWith(
+        expect.any(String), 'price_premium_individual_monthly', expect.any(String), expect.any(Object), undefined, result.trialEnd
+      );
+      const subscription = await processor.retrieveSubscription(result.subscriptionId);
+      expect(subscription).toMatchObject({ status: 'trialing', current_period_end: Math.floor(result.trialEnd! / 1000) });
+      expect(events.some(event => event.type.startsWith('invoice.'))).toBe(false);
+      expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing-1', expect.objectContaining({
+        status: 'trialing',
+        trialEndsAt: result.trialEnd,
+      }));
+    });
+  });
+
+  describe('Reporting', () => {
+    test('should total redemptions per code with their revenue impact', () => {
+      const metrics = summarizeCouponRedemptions([
+        createTestRedemption({ totalDiscount: 15 }),
+        createTestRedemption({ redemptionId: 'red-2', totalDiscount: 5 }),
+        createTestRedemption({ redemptionId: 'red-3', code: 'FREE2', discountType: 'free_months', freeMonths: 2 }),
+      ], 180);
+
+      expect(metrics).toEqual({
+        totalRedemptions: 3,
+        totalDiscount: 20,
+        freeMonthsGranted: 2,
+        revenueImpactRate: 0.1,
+        byCode: [
+          { code: 'SPRING25', redemptions: 2, totalDiscount: 20, freeMonthsGranted: 0 },
+          { code: 'FREE2', redemptions: 1, totalDiscount: 0, freeMonthsGranted: 2 },
+        ],
+      });
+    });
+  });
+});
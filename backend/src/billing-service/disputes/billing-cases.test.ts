@@ -0,0 +1,333 @@
+/**
+ * @fileoverview Unit tests for customer refund requests and billing disputes
+ *
+ * Tests case validation, SLA scheduling, staff replies, SLA escalation and
+ * resolution with and without a refund.
+ */
+
+import { DisputeCase, TeamId, TeamRole, Transaction } from '@harborlist/shared-types';
+import {
+  addCustomerEvidence,
+  addStaffMessage,
+  BILLING_CASE_SLA_JOB,
+  checkBillingCaseSla,
+  openBillingCase,
+  resolveBillingCase,
+  sortCaseQueue,
+} from './billing-cases';
+import { db } from '../../shared/database';
+import { scheduleJob } from '../../jobs/scheduler';
+import { getTeamMembers } from '../../admin-service/teams';
+import { issueRefund } from '../refunds';
+import { PaymentProcessor } from '../payment-processors/stripe';
+
+jest.mock('../../shared/database', () => ({
+  db: {
+    getTransaction: jest.fn(),
+    getUser: jest.fn(),
+    createDisputeCase: jest.fn(),
+    getDisputeCase: jest.fn(),
+    getDisputeCasesByUser: jest.fn(),
+    addDisputeMessage: jest.fn(),
+    addDisputeEvidence: jest.fn(),
+    updateDisputeCase: jest.fn(),
+  },
+}));
+
+jest.mock('../../jobs/scheduler', () => ({
+  scheduleJob: jest.fn(),
+}));
+
+jest.mock('../../admin-service/teams', () => ({
+  getTeamMembers: jest.fn(),
+}));
+
+jest.mock('../refunds', () => ({
+  issueRefund: jest.fn(),
+}));
+
+const mockCreateNotification = jest.fn();
+jest.mock('../../notification-service', () => ({
+  createNotification: (...args: any[]) => mockCreateNotification(...args),
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+const mockScheduleJob = scheduleJob as jest.MockedFunction<typeof scheduleJob>;
+const mockGetTeamMembers = getTeamMembers as jest.MockedFunction<typeof getTeamMembers>;
+const mockIssueRefund = issueRefund as jest.MockedFunction<typeof issueRefund>;
+
+const NOW = new Date('2024-04-10T12:00:00.000Z');
+const processor = {} as PaymentProcessor;
+
+const charge = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'txn-1',
+  transactionId: 'txn-1',
+  type: 'subscription',
+  amount: 99,
+  currency: 'USD',
+  status: 'completed',
+  userId: 'user-1',
+  userName: 'Jane Buyer',
+  userEmail: 'jane@example.com',
+  paymentMethod: 'card',
+  processorTransactionId: 'pi_1',
+  createdAt: '2024-04-01T00:00:00.000Z',
+  description: 'Premium subscription',
+  fees: 3,
+  netAmount: 96,
+  ...overrides,
+});
+
+const billingCase = (overrides: Partial<DisputeCase> = {}): DisputeCase => ({
+  ...charge(),
+  id: 'case-1',
+  disputeId: 'case-1',
+  caseNumber: 'REF-1',
+  disputeReason: 'Charged after cancelling',
+  disputeDate: '2024-04-09T12:00:00.000Z',
+  disputeStatus: 'open',
+  disputeType: 'inquiry',
+  disputeAmount: 99,
+  evidenceRequired: [],
+  evidenceSubmitted: [],
+  respondByDate: '2024-04-14T12:00:00.000Z',
+  priority: 'low',
+  source: 'customer',
+  caseType: 'refund_request',
+  messages: [],
+  sla: {
+    firstResponseDueAt: '2024-04-10T12:00:00.000Z',
+    resolutionDueAt: '2024-04-14T12:00:00.000Z',
+  },
+  assignedTeam: TeamId.FINANCE,
+  ...overrides,
+});
+
+describe('billing cases', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(NOW);
+    mockDb.getTransaction.mockResolvedValue(charge());
+    mockDb.getUser.mockResolvedValue({ id: 'user-1', name: 'Jane Buyer' });
+    mockDb.getDisputeCasesByUser.mockResolvedValue([]);
+    mockGetTeamMembers.mockResolvedValue([
+      { userId: 'manager-1', email: 'm@example.com', name: 'Finance Manager', role: TeamRole.MANAGER },
+      { userId: 'member-1', email: 'f@example.com', name: 'Finance Member', role: TeamRole.MEMBER },
+    ] as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('openBillingCase', () => {
+    const request = {
+      transactionId: 'txn-1',
+      caseType: 'refund_request' as const,
+      reason: 'Charged after cancelling',
+      description: 'I cancelled on March 30th',
+    };
+
+    it('opens a case for the finance team and schedules both SLA checks', async () => {
+      const disputeCase = await openBillingCase('user-1', request);
+
+      expect(disputeCase).toMatchObject({
+        transactionId: 'txn-1',
+        userId: 'user-1',
+        disputeStatus: 'open',
+        disputeAmount: 99,
+        source: 'customer',
+        assignedTeam: TeamId.FINANCE,
+        sla: {
+          firstResponseDueAt: '2024-04-11T12:00:00.000Z',
+          resolutionDueAt: '2024-04-15T12:00:00.000Z',
+        },
+      });
+      expect(disputeCase.messages).toEqual([
+        expect.objectContaining({ authorRole: 'customer', body: 'I cancelled on March 30th' }),
+      ]);
+      expect(mockDb.createDisputeCase).toHaveBeenCalledWith(disputeCase);
+      expect(mockScheduleJob).toHaveBeenCalledWith(expect.objectContaining({
+        type: BILLING_CASE_SLA_JOB,
+        runAt: new Date('2024-04-11T12:00:00.000Z').getTime(),
+        payload: { disputeId: disputeCase.disputeId, timer: 'first_response' },
+      }));
+      expect(mockScheduleJob).toHaveBeenCalledWith(expect.objectContaining({
+        payload: { disputeId: disputeCase.disputeId, timer: 'resolution' },
+      }));
+    });
+
+    it('rejects charges that belong to someone else', async () => {
+      mockDb.getTransaction.mockResolvedValue(charge({ userId: 'user-2' }));
+
+      await expect(openBillingCase('user-1', request)).rejects.toThrow('Billing case transaction not found');
+    });
+
+    it('rejects refunds and charges that have not completed', async () => {
+      mockDb.getTransaction.mockResolvedValue(charge({ type: 'refund' }));
+      await expect(openBillingCase('user-1', request)).rejects.toThrow('completed charge');
+
+      mockDb.getTransaction.mockResolvedValue(charge({ status: 'pending' }));
+      await expect(openBillingCase('user-1', request)).rejects.toThrow('completed charge');
+    });
+
+    it('rejects amounts above the charge', async () => {
+      await expect(openBillingCase('user-1', { ...request, amount: 150 })).rejects.toThrow('no more than the amount charged');
+    });
+
+    it('allows one open case per charge', async () => {
+      mockDb.getDisputeCasesByUser.mockResolvedValue([billingCase()]);
+
+      await expect(openBillingCase('user-1', request)).rejects.toThrow('already open');
+      expect(mockDb.createDisputeCase).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addCustomerEvidence', () => {
+    it('only accepts files the customer uploaded', async () => {
+      mockDb.getDisputeCase.mockResolvedValue(billingCase());
+
+      await expect(addCustomerEvidence('user-1', 'case-1', {
+        type: 'receipt',
+        description: 'Cancellation email',
+        fileUrl: 'https://media.example.com/user-2/file.jpg',
+      })).rejects.toThrow('must be a file you uploaded');
+
+      const evidence = await addCustomerEvidence('user-1', 'case-1', {
+        type: 'receipt',
+        description: 'Cancellation email',
+        fileUrl: 'https://media.example.com/user-1/file.jpg',
+      });
+      expect(mockDb.addDisputeEvidence).toHaveBeenCalledWith('case-1', evidence);
+    });
+  });
+
+  describe('addStaffMessage', () => {
+    it('meets the first-response SLA, assigns the case and notifies the customer', async () => {
+      mockDb.getDisputeCase.mockResolvedValue(billingCase());
+
+      await addStaffMessage({ id: 'staff-1', name: 'Sam' }, 'case-1', 'Looking into it');
+
+      expect(mockDb.addDisputeMessage).toHaveBeenCalledWith(
+        'case-1',
+        expect.objectContaining({ authorRole: 'staff', body: 'Looking into it' }),
+        expect.objectContaining({
+          disputeStatus: 'under_review',
+          assignedTo: 'staff-1',
+          sla: expect.objectContaining({ firstRespondedAt: NOW.toISOString() }),
+        })
+      );
+      expect(mockCreateNotification).toHaveBeenCalledWith(
+        'user-1', 'billing_case', expect.any(String), 'Looking into it', expect.any(Object), expect.any(String)
+      );
+    });
+
+    it('does not reply on resolved cases', async () => {
+      mockDb.getDisputeCase.mockResolvedValue(billingCase({ disputeStatus: 'resolved' }));
+
+      await expect(addStaffMessage({ id: 'staff-1', name: 'Sam' }, 'case-1', 'Hello')).rejects.toThrow('already resolved');
+    });
+  });
+
+  describe('checkBillingCaseSla', () => {
+    it('escalates a case with no staff reply and notifies finance managers', async () => {
+      mockDb.getDisputeCase.mockResolvedValue(billingCase());
+
+      await checkBillingCaseSla('case-1', 'first_response');
+
+      expect(mockDb.addDisputeMessage).toHaveBeenCalledWith(
+        'case-1',
+        expect.objectContaining({ authorRole: 'system' }),
+        expect.objectContaining({
+          disputeStatus: 'escalated',
+          priority: 'medium',
+          sla: expect.objectContaining({ breached: ['first_response'] }),
+        })
+      );
+      expect(mockCreateNotification).toHaveBeenCalledTimes(1);
+      expect(mockCreateNotification).toHaveBeenCalledWith(
+        'manager-1', 'billing_case', 'Escalated: REF-1', expect.any(String), expect.any(Object), '/admin/financial'
+      );
+    });
+
+    it('does nothing once staff replied or the case is resolved', async () => {
+      mockDb.getDisputeCase.mockResolvedValue(billingCase({
+        sla: { ...billingCase().sla!, firstRespondedAt: '2024-04-09T18:00:00.000Z' },
+      }));
+      await checkBillingCaseSla('case-1', 'first_response');
+
+      mockDb.getDisputeCase.mockResolvedValue(billingCase({ disputeStatus: 'resolved' }));
+      await checkBillingCaseSla('case-1', 'resolution');
+
+      expect(mockDb.addDisputeMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveBillingCase', () => {
+    it('refunds the charge and records the refund on the case', async () => {
+      mockDb.getDisputeCase.mockResolvedValue(billingCase({ assignedTo: 'staff-1' }));
+      mockIssueRefund.mockResolvedValue({
+        refundTransaction: charge({ transactionId: 'refund-1', type: 'refund', amount: 50 }),
+        refundId: 're_1',
+      });
+
+      const resolved = await resolveBillingCase(
+        { id: 'staff-1', name: 'Sam' },
+        'case-1',
+        { decision: 'refund', refundAmount: 50, notes: 'Refunded the unused month' },
+        processor
+      );
+
+      expect(mockIssueRefund).toHaveBeenCalledWith(processor, charge(), 50, 'Billing case REF-1', { disputeId: 'case-1' });
+      expect(resolved.disputeStatus).toBe('resolved');
+      expect(resolved.resolution).toMatchObject({
+        outcome: 'refunded',
+        refundAmount: 50,
+        refundTransactionId: 'refund-1',
+        resolvedBy: 'staff-1',
+      });
+      expect(mockCreateNotification).toHaveBeenCalledWith(
+        'user-1', 'billing_case', 'Refund approved for REF-1', expect.any(String), expect.any(Object), expect.any(String)
+      );
+    });
+
+    it('declines without refunding', async () => {
+      mockDb.getDisputeCase.mockResolvedValue(billingCase());
+
+      const resolved = await resolveBillingCase(
+        { id: 'staff-1', name: 'Sam' },
+        'case-1',
+        { decision: 'decline', notes: 'The renewal was charged before cancelling' },
+        processor
+      );
+
+      expect(mockIssueRefund).not.toHaveBeenCalled();
+      expect(resolved.resolution?.outcome).toBe('declined');
+    });
+
+    it('leaves processor disputes to the processor', async () => {
+      mockDb.getDisputeCase.mockResolvedValue(billingCase({ source: 'processor' }));
+
+      await expect(resolveBillingCase(
+        { id: 'staff-1', name: 'Sam' },
+        'case-1',
+        { decision: 'decline', notes: 'n/a' },
+        processor
+      )).rejects.toThrow('payment processor');
+    });
+  });
+
+  describe('sortCaseQueue', () => {
+    it('puts escalated cases first, then priority, then the nearest deadline', () => {
+      const queue = sortCaseQueue([
+        billingCase({ disputeId: 'resolved', disputeStatus: 'resolved', priority: 'urgent' }),
+        billingCase({ disputeId: 'low-late', priority: 'low', sla: { firstResponseDueAt: '2024-04-12T00:00:00.000Z', resolutionDueAt: '2024-04-15T00:00:00.000Z' } }),
+        billingCase({ disputeId: 'low-soon', priority: 'low', sla: { firstResponseDueAt: '2024-04-11T00:00:00.000Z', resolutionDueAt: '2024-04-15T00:00:00.000Z' } }),
+        billingCase({ disputeId: 'high', priority: 'high' }),
+        billingCase({ disputeId: 'escalated', disputeStatus: 'escalated', priority: 'low' }),
+      ]);
+
+      expect(queue.map(c => c.disputeId)).toEqual(['escalated', 'high', 'low-soon', 'low-late', 'resolved']);
+    });
+  });
+});
@@ -0,0 +1,595 @@
+/**
+ * @fileoverview Refund requests and billing disputes opened by customers.
+ *
+ * Customers open a case against one of their completed charges from the
+ * billing dashboard, attach evidence they uploaded through the media service,
+ * and converse with finance staff until the case is resolved. Cases are
+ * stored with processor disputes (source 'customer') and sit in the finance
+ * team's queue.
+ *
+ * SLA timers:
+ * - First response: finance staff must reply within FIRST_RESPONSE_SLA_HOURS
+ * - Resolution: the case must be resolved within RESOLUTION_SLA_DAYS
+ * Each timer is a scheduled job. When one runs out the case is escalated:
+ * its priority is raised, it moves to the top of the finance queue and the
+ * finance team's managers are notified.
+ *
+ * Business Rules:
+ * - Only completed charges can be disputed, and only by the customer charged
+ * - One open case per charge
+ * - A refund can be up to the amount charged
+ *
+ * Validation errors are thrown as `Error`s whose message starts with
+ * "Billing case".
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import {
+  BillingCaseType,
+  DisputeCase,
+  DisputeEvidence,
+  DisputeMessage,
+  TeamId,
+  TeamRole,
+  Transaction,
+} from '@harborlist/shared-types';
+import { db } from '../../shared/database';
+import { generateId, sanitizeString } from '../../shared/utils';
+import { scheduleJob } from '../../jobs/scheduler';
+import { getTeamMembers } from '../../admin-service/teams';
+import { PaymentProcessor } from '../payment-processors/stripe';
+import { issueRefund } from '../refunds';
+
+/**
+ * Job that checks a case's SLA timer
+ */
+export const BILLING_CASE_SLA_JOB = 'billing.case_sla';
+
+/**
+ * Hours finance staff have to reply to a new case
+ */
+export const FIRST_RESPONSE_SLA_HOURS = 24;
+
+/**
+ * Days finance staff have to resolve a case
+ */
+export const RESOLUTION_SLA_DAYS: Record<BillingCaseType, number> = {
+  refund_request: 5,
+  dispute: 10,
+};
+
+/**
+ * Charges a customer can open a case against
+ */
+const DISPUTABLE_TRANSACTION_TYPES: Transaction['type'][] = ['payment', 'membership', 'subscription', 'commission'];
+
+/**
+ * Evidence types a customer can attach
+ */
+const EVIDENCE_TYPES: DisputeEvidence['type'][] = ['receipt', 'communication', 'shipping', 'refund', 'other'];
+
+/**
+ * Priorities from lowest to highest
+ */
+const PRIORITIES: DisputeCase['priority'][] = ['low', 'medium', 'high', 'urgent'];
+
+/**
+ * Where customers follow their cases
+ */
+const CUSTOMER_CASE_URL = '/billing?tab=requests';
+
+export type SlaTimer = 'first_response' | 'resolution';
+
+/**
+ * A customer's request to open a case
+ */
+export interface OpenBillingCaseRequest {
+  transactionId: string;
+  caseType: BillingCaseType;
+  reason: string;
+  description: string;
+  amount?: number;
+}
+
+/**
+ * A finance staff member acting on a case
+ */
+export interface CaseStaffMember {
+  id: string;
+  name: string;
+}
+
+/**
+ * How finance staff resolve a case
+ */
+export interface BillingCaseResolution {
+  decision: 'refund' | 'decline';
+  refundAmount?: number;
+  notes: string;
+}
+
+/**
+ * Whether a case is still being worked on
+ */
+export function isCaseOpen(disputeCase: DisputeCase): boolean {
+  return disputeCase.disputeStatus !== 'resolved';
+}
+
+/**
+ * Starting priority for a case, by the amount in question
+ */
+export function getCasePriority(amount: number): DisputeCase['priority'] {
+  return amount > 1000 ? 'high' : amount > 500 ? 'medium' : 'low';
+}
+
+/**
+ * The next priority up
+ */
+export function raisePriority(priority: DisputeCase['priority']): DisputeCase['priority'] {
+  return PRIORITIES[Math.min(PRIORITIES.indexOf(priority) + 1, PRIORITIES.length - 1)];
+}
+
+/**
+ * When a case's current SLA timer runs out
+ */
+export function getNextSlaDeadline(disputeCase: DisputeCase): string {
+  return disputeCase.sla && !disputeCase.sla.firstRespondedAt
+    ? disputeCase.sla.firstResponseDueAt
+    : disputeCase.sla?.resolutionDueAt || disputeCase.respondByDate;
+}
+
+/**
+ * Orders the finance queue: open before resolved, escalated first, then by
+ * priority and the nearest SLA deadline
+ */
+export function sortCaseQueue(cases: DisputeCase[]): DisputeCase[] {
+  const rank = (disputeCase: DisputeCase) =>
+    !isCaseOpen(disputeCase) ? 2 : disputeCase.disputeStatus === 'escalated' ? 0 : 1;
+
+  return [...cases].sort((a, b) =>
+    rank(a) - rank(b)
+    || PRIORITIES.indexOf(b.priority) - PRIORITIES.indexOf(a.priority)
+    || getNextSlaDeadline(a).localeCompare(getNextSlaDeadline(b))
+  );
+}
+
+/**
+ * Lists the finance team's case queue, most urgent first
+ *
+ * Includes disputes opened by the payment processor alongside customer cases.
+ *
+ * @param disputeStatus - Dispute status to filter by
+ * @returns Promise<DisputeCase[]> - Cases in queue order
+ */
+export async function listBillingCases(disputeStatus?: DisputeCase['disputeStatus']): Promise<DisputeCase[]> {
+  return sortCaseQueue(await db.getDisputeCases(disputeStatus));
+}
+
+/**
+ * Builds a conversation message
+ */
+function buildMessage(
+  authorId: string,
+  authorName: string,
+  authorRole: DisputeMessage['authorRole'],
+  body: string
+): DisputeMessage {
+  return {
+    messageId: generateId(),
+    authorId,
+    authorName,
+    authorRole,
+    body: sanitizeString(body),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Sends a case notification without failing the request
+ */
+async function notify(userId: string, title: string, message: string, disputeCase: DisputeCase, actionUrl: string): Promise<void> {
+  try {
+    const { createNotification } = await import('../../notification-service');
+    await createNotification(userId, 'billing_case', title, message, {
+      disputeId: disputeCase.disputeId,
+      caseNumber: disputeCase.caseNumber,
+      disputeStatus: disputeCase.disputeStatus,
+    }, actionUrl);
+  } catch (error) {
+    console.error(`Failed to send notification for billing case ${disputeCase.disputeId}:`, error);
+  }
+}
+
+/**
+ * Schedules the check for one of a case's SLA timers
+ */
+async function scheduleSlaCheck(disputeCase: DisputeCase, timer: SlaTimer, dueAt: string): Promise<void> {
+  await scheduleJob({
+    type: BILLING_CASE_SLA_JOB,
+    jobId: `billing-case-sla:${disputeCase.disputeId}:${timer}`,
+    runAt: new Date(dueAt).getTime(),
+    payload: { disputeId: disputeCase.disputeId, timer },
+  });
+}
+
+/**
+ * Retrieves an open case, failing when it does not exist or is resolved
+ */
+async function requireOpenCase(disputeId: string, userId?: string): Promise<DisputeCase> {
+  const disputeCase = await db.getDisputeCase(disputeId);
+  if (!disputeCase || (userId && disputeCase.userId !== userId)) {
+    throw new Error('Billing case not found');
+  }
+  if (!isCaseOpen(disputeCase)) {
+    throw new Error('Billing case is already resolved');
+  }
+  return disputeCase;
+}
+
+/**
+ * Opens a refund request or billing dispute for a customer's charge
+ *
+ * @param userId - Customer opening the case
+ * @param request - Charge, case type, reason, description and amount in question
+ * @returns Promise<DisputeCase> - The new case, in the finance team's queue
+ * @throws Error - When the request is invalid or the charge already has an open case
+ */
+export async function openBillingCase(userId: string, request: OpenBillingCaseRequest): Promise<DisputeCase> {
+  if (request.caseType !== 'refund_request' && request.caseType !== 'dispute') {
+    throw new Error('Billing case type must be refund_request or dispute');
+  }
+  if (!request.reason?.trim() || !request.description?.trim()) {
+    throw new Error('Billing case reason and description are required');
+  }
+
+  const transaction = await db.getTransaction(request.transactionId);
+  if (!transaction || transaction.userId !== userId) {
+    throw new Error('Billing case transaction not found');
+  }
+  if (!DISPUTABLE_TRANSACTION_TYPES.includes(transaction.type) || transaction.status !== 'completed') {
+    throw new Error('Billing case can only be opened for a completed charge');
+  }
+
+  const amount = request.amount ?? transaction.amount;
+  if (!(amount > 0) || amount > transaction.amount) {
+    throw new Error('Billing case amount must be more than zero and no more than the amount charged');
+  }
+
+  const existing = await db.getDisputeCasesByUser(userId);
+  if (existing.some(c => c.transactionId === transaction.transactionId && isCaseOpen(c))) {
+    throw new Error('Billing case is already open for this charge');
+  }
+
+  const user = await db.getUser(userId);
+  const customerName = user?.name || transaction.userName || 'Customer';
+  const now = new Date();
+  const firstResponseDueAt = new Date(now.getTime() + FIRST_RESPONSE_SLA_HOURS * 60 * 60 * 1000).toISOString();
+  const resolutionDueAt = new Date(now.getTime() + RESOLUTION_SLA_DAYS[request.caseType] * 24 * 60 * 60 * 1000).toISOString();
+  const disputeId = generateId();
+
+  const disputeCase: DisputeCase = {
+    ...transaction,
+    id: disputeId,
+    disputeId,
+    caseNumber: `${request.caseType === 'refund_request' ? 'REF' : 'DISP'}-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+    description: `${request.caseType === 'refund_request' ? 'Refund request' : 'Billing dispute'} for transaction ${transaction.transactionId}`,
+    disputeReason: sanitizeString(request.reason),
+    disputeDate: now.toISOString(),
+    disputeStatus: 'open',
+    disputeType: 'inquiry',
+    disputeAmount: amount,
+    evidenceRequired: [],
+    evidenceSubmitted: [],
+    respondByDate: resolutionDueAt,
+    priority: getCasePriority(amount),
+    source: 'customer',
+    caseType: request.caseType,
+    messages: [buildMessage(userId, customerName, 'customer', request.description)],
+    sla: { firstResponseDueAt, resolutionDueAt },
+    assignedTeam: TeamId.FINANCE,
+    updatedAt: now.toISOString(),
+  };
+
+  await db.createDisputeCase(disputeCase);
+  await scheduleSlaCheck(disputeCase, 'first_response', firstResponseDueAt);
+  await scheduleSlaCheck(disputeCase, 'resolution', resolutionDueAt);
+
+  return disputeCase;
+}
+
+/**
+ * Retrieves one of a customer's cases
+ *
+ * @param userId - Customer
+ * @param disputeId - Case identifier
+ * @returns Promise<DisputeCase> - The case
+ * @throws Error - When the case does not exist or belongs to someone else
+ */
+export async function getCustomerCase(userId: string, disputeId: string): Promise<DisputeCase> {
+  const disputeCase = await db.getDisputeCase(disputeId);
+  if (!disputeCase || disputeCase.userId !== userId) {
+    throw new Error('Billing case not found');
+  }
+  return disputeCase;
+}
+
+/**
+ * Adds a customer's reply to their case
+ *
+ * @param userId - Customer
+ * @param disputeId - Case identifier
+ * @param body - Message text
+ * @returns Promise<DisputeMessage> - The stored message
+ */
+export async function addCustomerMessage(userId: string, disputeId: string, body: string): Promise<DisputeMessage> {
+  if (!body?.trim()) {
+    throw new Error('Billing case message is required');
+  }
+
+  const disputeCase = await requireOpenCase(disputeId, userId);
+  const customerName = disputeCase.messages?.find(m => m.authorRole === 'customer')?.authorName || disputeCase.userName;
+  const message = buildMessage(userId, customerName, 'customer', body);
+  await db.addDisputeMessage(disputeId, message, { updatedAt: message.createdAt });
+
+  if (disputeCase.assignedTo) {
+    await notify(
+      disputeCase.assignedTo,
+      `Customer replied on ${disputeCase.caseNumber}`,
+      message.body.slice(0, 140),
+      disputeCase,
+      '/admin/financial'
+    );
+  }
+  return message;
+}
+
+/**
+ * Attaches evidence a customer uploaded through the media service
+ *
+ * @param userId - Customer
+ * @param disputeId - Case identifier
+ * @param evidence - Evidence type, description and uploaded file URL
+ * @returns Promise<DisputeEvidence> - The stored evidence
+ * @throws Error - When the file was not uploaded by the customer
+ */
+export async function addCustomerEvidence(
+  userId: string,
+  disputeId: string,
+  evidence: Pick<DisputeEvidence, 'type' | 'description' | 'fileUrl'>
+): Promise<DisputeEvidence> {
+  if (!EVIDENCE_TYPES.includes(evidence.type)) {
+    throw new Error(`Billing case evidence type must be one of ${EVIDENCE_TYPES.join(', ')}`);
+  }
+  if (!evidence.description?.trim()) {
+    throw new Error('Billing case evidence description is required');
+  }
+  // Uploads are stored under the uploader's user ID
+  if (evidence.fileUrl && !evidence.fileUrl.includes(`/${userId}/`)) {
+    throw new Error('Billing case evidence must be a file you uploaded');
+  }
+
+  await requireOpenCase(disputeId, userId);
+  const record: DisputeEvidence = {
+    evidenceId: generateId(),
+    type: evidence.type,
+    description: sanitizeString(evidence.description),
+    fileUrl: evidence.fileUrl,
+    submittedAt: new Date().toISOString(),
+    submittedBy: userId,
+  };
+  await db.addDisputeEvidence(disputeId, record);
+  return record;
+}
+
+/**
+ * Adds a finance staff reply to a case
+ *
+ * The first staff reply meets the first-response SLA, moves the case under
+ * review and assigns it to the staff member who replied.
+ *
+ * @param staff - Staff member replying
+ * @param disputeId - Case identifier
+ * @param body - Message text
+ * @returns Promise<DisputeMessage> - The stored message
+ */
+export async function addStaffMessage(staff: CaseStaffMember, disputeId: string, body: string): Promise<DisputeMessage> {
+  if (!body?.trim()) {
+    throw new Error('Billing case message is required');
+  }
+
+  const disputeCase = await requireOpenCase(disputeId);
+  const message = buildMessage(staff.id, staff.name, 'staff', body);
+  await db.addDisputeMessage(disputeId, message, {
+    disputeStatus: disputeCase.disputeStatus === 'open' ? 'under_review' : undefined,
+    assignedTo: disputeCase.assignedTo || staff.id,
+    sla: disputeCase.sla && !disputeCase.sla.firstRespondedAt
+      ? { ...disputeCase.sla, firstRespondedAt: message.createdAt }
+      : undefined,
+    updatedAt: message.createdAt,
+  });
+
+  if (disputeCase.source === 'customer') {
+    await notify(
+      disputeCase.userId,
+      `New reply on your case ${disputeCase.caseNumber}`,
+      message.body.slice(0, 140),
+      disputeCase,
+      CUSTOMER_CASE_URL
+    );
+  }
+  return message;
+}
+
+/**
+ * Assigns a case to a staff member and moves it under review
+ *
+ * @param staff - Staff member taking the case
+ * @param disputeId - Case identifier
+ */
+export async function assignBillingCase(staff: CaseStaffMember, disputeId: string): Promise<void> {
+  const disputeCase = await requireOpenCase(disputeId);
+  await db.updateDisputeCase(disputeId, {
+    assignedTo: staff.id,
+    disputeStatus: disputeCase.disputeStatus === 'escalated' ? 'escalated' : 'under_review',
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Escalates a case to the finance team's managers
+ *
+ * @param disputeId - Case identifier
+ * @param reason - Why the case is escalated
+ * @param breachedTimer - SLA timer that ran out, when escalated automatically
+ * @returns Promise<DisputeCase | null> - The escalated case, or null when it is already resolved
+ */
+export async function escalateBillingCase(
+  disputeId: string,
+  reason: string,
+  breachedTimer?: SlaTimer
+): Promise<DisputeCase | null> {
+  const disputeCase = await db.getDisputeCase(disputeId);
+  if (!disputeCase || !isCaseOpen(disputeCase)) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const updates: Partial<DisputeCase> = {
+    disputeStatus: 'escalated',
+    priority: raisePriority(disputeCase.priority),
+    escalatedAt: now,
+    escalationReason: reason,
+    assignedTeam: TeamId.FINANCE,
+    sla: disputeCase.sla && breachedTimer
+      ? { ...disputeCase.sla, breached: [...(disputeCase.sla.breached || []), breachedTimer] }
+      : disputeCase.sla,
+    updatedAt: now,
+  };
+  await db.addDisputeMessage(disputeId, buildMessage('system', 'HarborList', 'system', `Escalated to the finance team: ${reason}`), updates);
+
+  const escalated = { ...disputeCase, ...updates };
+  try {
+    const managers = (await getTeamMembers(TeamId.FINANCE)).filter(member => member.role === TeamRole.MANAGER);
+    for (const manager of managers) {
+      await notify(manager.userId, `Escalated: ${disputeCase.caseNumber}`, reason, escalated, '/admin/financial');
+    }
+  } catch (error) {
+    console.error(`Failed to notify finance managers about billing case ${disputeId}:`, error);
+  }
+  return escalated;
+}
+
+/**
+ * Escalates a case whose SLA timer ran out (called by the job scheduler)
+ *
+ * Does nothing when the case was resolved, the first response was made in
+ * time, or the timer was already handled.
+ *
+ * @param disputeId - Case identifier
+ * @param timer - SLA timer that is due
+ */
+export async function checkBillingCaseSla(disputeId: string, timer: SlaTimer): Promise<void> {
+  const disputeCase = await db.getDisputeCase(disputeId);
+  if (!disputeCase || !isCaseOpen(disputeCase) || !disputeCase.sla) {
+    return;
+  }
+  if (disputeCase.sla.breached?.includes(timer)) {
+    return;
+  }
+  if (timer === 'first_response' && disputeCase.sla.firstRespondedAt) {
+    return;
+  }
+
+  await escalateBillingCase(
+    disputeId,
+    timer === 'first_response'
+      ? `No reply within ${FIRST_RESPONSE_SLA_HOURS} hours`
+      : `Not resolved within ${RESOLUTION_SLA_DAYS[disputeCase.caseType || 'dispute']} days`,
+    timer
+  );
+}
+
+/**
+ * Resolves a customer case, refunding the charge when approved
+ *
+ * @param staff - Staff member resolving the case
+ * @param disputeId - Case identifier
+ * @param resolution - Refund or decline, with notes for the customer
+ * @param paymentProcessor - Processor that took the charge
+ * @returns Promise<DisputeCase> - The resolved case
+ * @throws Error - When the case is resolved already or the refund is invalid
+ */
+export async function resolveBillingCase(
+  staff: CaseStaffMember,
+  disputeId: string,
+  resolution: BillingCaseResolution,
+  paymentProcessor: PaymentProcessor
+): Promise<DisputeCase> {
+  if (resolution.decision !== 'refund' && resolution.decision !== 'decline') {
+    throw new Error('Billing case decision must be refund or decline');
+  }
+  if (!resolution.notes?.trim()) {
+    throw new Error('Billing case resolution notes are required');
+  }
+
+  const disputeCase = await requireOpenCase(disputeId);
+  if (disputeCase.source !== 'customer') {
+    throw new Error('Billing case was opened by the payment processor and is resolved there');
+  }
+
+  let refundAmount: number | undefined;
+  let refundTransactionId: string | undefined;
+  if (resolution.decision === 'refund') {
+    refundAmount = resolution.refundAmount ?? disputeCase.disputeAmount;
+    if (!(refundAmount > 0)) {
+      throw new Error('Billing case refund amount must be more than zero');
+    }
+    const original = await db.getTransaction(disputeCase.transactionId);
+    if (!original) {
+      throw new Error('Billing case transaction not found');
+    }
+    const { refundTransaction } = await issueRefund(
+      paymentProcessor,
+      original,
+      refundAmount,
+      `Billing case ${disputeCase.caseNumber}`,
+      { disputeId }
+    );
+    refundTransactionId = refundTransaction.transactionId;
+  }
+
+  const now = new Date().toISOString();
+  const updates: Partial<DisputeCase> = {
+    disputeStatus: 'resolved',
+    assignedTo: disputeCase.assignedTo || staff.id,
+    resolution: {
+      outcome: resolution.decision === 'refund' ? 'refunded' : 'declined',
+      resolvedAt: now,
+      resolvedBy: staff.id,
+      notes: sanitizeString(resolution.notes),
+      refundAmount,
+      refundTransactionId,
+    },
+    sla: disputeCase.sla && !disputeCase.sla.firstRespondedAt
+      ? { ...disputeCase.sla, firstRespondedAt: now }
+      : disputeCase.sla,
+    updatedAt: now,
+  };
+  await db.addDisputeMessage(disputeId, buildMessage(staff.id, staff.name, 'staff', resolution.notes), updates);
+
+  const resolved = { ...disputeCase, ...updates };
+  await notify(
+    disputeCase.userId,
+    resolution.decision === 'refund'
+      ? `Refund approved for ${disputeCase.caseNumber}`
+      : `Update on your case ${disputeCase.caseNumber}`,
+    resolution.decision === 'refund'
+      ? `We refunded ${refundAmount!.toFixed(2)} ${disputeCase.currency}.`
+      : 'Your case has been reviewed and closed.',
+    resolved,
+    CUSTOMER_CASE_URL
+  );
+  return resolved;
+}
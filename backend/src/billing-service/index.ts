@@ -8,6 +8,13 @@
  * - Premium membership billing cycles and renewals
  * - Financial reporting and transaction management
  * - Payment failure handling and dispute resolution
+ * - Invoices with HTML and PDF documents for platform charges
+ * - Sales tax by jurisdiction, exemption certificates and a tax liability report
+ * - Double-entry ledger postings for every completed charge, refund and payout
+ * - Offline payment simulator with scriptable declines and disputes for local development
+ * - Customer refund requests and billing disputes with messaging, evidence and SLA escalation
+ * - Usage metering against tier limits, with overage invoiced at renewal
+ * - Paid featured and boosted listing promotions with seller performance reports
  * 
  * Security Features:
  * - PCI compliance for payment data handling
@@ -21,7 +28,7 @@
  * - Prorated billing for plan changes
  * - Automatic membership expiration handling
  * - Payment retry mechanisms for failed transactions
- * - Commission calculation for marketplace transactions
+ * - Commission statements for sales reps and dealers on their customers' revenue
  * 
  * @author HarborList Development Team
  * @version 1.0.0
@@ -30,14 +37,63 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { db } from '../shared/database';
 import { createResponse, createErrorResponse, parseBody, getUserId, generateId, validateRequired, sanitizeString } from '../shared/utils';
-import { BillingAccount, Transaction, EnhancedUser } from '@harborlist/shared-types';
+import { AppliedCoupon, BillingAccount, DisputeEvidence, Transaction, EnhancedUser } from '@harborlist/shared-types';
 
 import { PaymentProcessor } from './payment-processors/stripe';
+import { isSuccessfulPaymentStatus, PaymentProcessorType } from './payment-processors/types';
+import {
+  buildSimulatorWebhookEvent,
+  SIMULATOR_SCENARIOS,
+  SimulatorPaymentProcessor,
+  SimulatorScenario,
+} from './payment-processors/simulator';
 import { SubscriptionManager, CreateSubscriptionRequest, UpdateSubscriptionRequest } from './subscription-manager';
 import { PaymentFailureHandler } from './payment-failure-handler';
 import { WebhookHandler } from './webhook-handler';
 import { PaymentMethodManager, createPaymentMethodManager } from './payment-method-manager';
+import { issueRefund } from './refunds';
 import { getPaymentProcessorConfigManager, getPrimaryPaymentProcessor } from './payment-processor-config';
+import {
+  issueInvoice,
+  listingFeeLineItem,
+  markInvoicePaid,
+  prorationLineItem,
+  subscriptionLineItem,
+  voidInvoice,
+} from './invoices/invoice-manager';
+import { getInvoice, listInvoicesByUser } from './invoices/invoice-store';
+import { createInvoiceDocumentResponse } from './invoices/invoice-renderer';
+import {
+  applyCouponToPrice,
+  calculateCouponDiscount,
+  checkCoupon,
+  describeCouponDiscount,
+  getSubscriptionDiscount,
+  recordCouponUsage,
+  summarizeCouponRedemptions,
+} from './coupons/coupon-manager';
+import { listRedemptionsBetween } from './coupons/coupon-store';
+import { submitExemptionCertificate, TaxExemptionSubmission } from './tax/tax-exemptions';
+import { generateTaxLiabilityReport, TaxReportPeriod } from './tax/tax-report';
+import { recordTransactionInLedger } from './ledger/ledger-manager';
+import { getLedgerPeriodKey, roundToCents } from './ledger/ledger-reports';
+import { listStatementsByPeriod } from './commissions/commission-store';
+import { getPayeeCommissionHistory } from './commissions/commission-manager';
+import {
+  addCustomerEvidence,
+  addCustomerMessage,
+  getCustomerCase,
+  openBillingCase,
+  OpenBillingCaseRequest,
+} from './disputes/billing-cases';
+import { getUsageSummary } from './metering/usage-meter';
+import {
+  getPromotionReport,
+  getSellerPromotions,
+  PromotionRequest,
+  purchasePromotion,
+  quotePromotion,
+} from './promotions/promotion-manager';
 
 // Initialize payment processor configuration manager
 const configManager = getPaymentProcessorConfigManager();
@@ -55,8 +111,17 @@ const subscriptionManager = new SubscriptionManager(paymentProcessor);
 const paymentFailureHandler = new PaymentFailureHandler(paymentProcessor);
 const webhookHandler = new WebhookHandler(paymentProcessor, paymentFailureHandler, subscriptionManager);
 
+// The simulator delivers its signed webhooks straight to the webhook handler
+if (paymentProcessor instanceof SimulatorPaymentProcessor) {
+  paymentProcessor.setWebhookDispatcher((payload, signature) =>
+    webhookHandler.handleWebhook(buildSimulatorWebhookEvent(payload, signature))
+  );
+}
+
 // Initialize payment method manager
-const processorType = process.env.PAYMENT_PROCESSOR === 'paypal' ? 'paypal' : 'stripe';
+const processorType: PaymentProcessorType = paymentProcessor instanceof SimulatorPaymentProcessor
+  ? 'simulator'
+  : process.env.PAYMENT_PROCESSOR === 'paypal' ? 'paypal' : 'stripe';
 const paymentMethodManager = createPaymentMethodManager(paymentProcessor, processorType);
 
 /**
@@ -149,20 +214,22 @@ function calculateSubscriptionPricing(plan: string, billingCycle: 'monthly' | 'y
  * @param newPlan - New subscription plan
  * @param billingCycle - Billing cycle
  * @param daysRemaining - Days remaining in current billing period
+ * @param coupon - Coupon discounting the subscription, applied to both plan prices
  * @returns object - Prorated pricing information
  */
 function calculateProratedBilling(
   currentPlan: string, 
   newPlan: string, 
   billingCycle: 'monthly' | 'yearly',
-  daysRemaining: number
+  daysRemaining: number,
+  coupon?: AppliedCoupon
 ): { proratedAmount: number; refundAmount: number; upgradeAmount: number } {
   const currentPricing = calculateSubscriptionPricing(currentPlan, billingCycle);
   const newPricing = calculateSubscriptionPricing(newPlan, billingCycle);
   
   const totalDays = billingCycle === 'yearly' ? 365 : 30;
-  const dailyCurrentRate = currentPricing.amount / totalDays;
-  const dailyNewRate = newPricing.amount / totalDays;
+  const dailyCurrentRate = applyCouponToPrice(coupon, currentPricing.amount) / totalDays;
+  const dailyNewRate = applyCouponToPrice(coupon, newPricing.amount) / totalDays;
   
   const refundAmount = dailyCurrentRate * daysRemaining;
   const upgradeAmount = dailyNewRate * daysRemaining;
@@ -255,11 +322,28 @@ function getMembershipFeatures(plan: string): string[] {
  * - PUT /billing/accounts/{billingId} - Update billing account
  * - DELETE /billing/accounts/{billingId} - Cancel billing account
  * - GET /billing/transactions - Get transaction history
+ * - GET /billing/invoices - List the caller's invoices
+ * - GET /billing/invoices/{invoiceId} - Get an invoice
+ * - GET /billing/invoices/{invoiceId}/html|pdf - Invoice document
+ * - GET /billing/usage - The caller's usage against plan quotas this billing period
+ * - GET /billing/promotions - List the caller's listing promotions
+ * - GET /billing/promotions/{promotionId}/report - Impressions, clicks and cost per click of a promotion
+ * - POST /billing/promotions/quote - Price a featured or boost promotion
+ * - POST /billing/promotions - Buy a featured or boost promotion
  * - POST /billing/transactions - Process payment
- * - POST /billing/subscriptions - Create subscription
+ * - POST /billing/subscriptions - Create subscription (optionally with a coupon code)
+ * - POST /billing/coupons/validate - Check a coupon code against a plan
  * - PUT /billing/subscriptions/{subscriptionId} - Update subscription
  * - DELETE /billing/subscriptions/{subscriptionId} - Cancel subscription
  * - POST /billing/refunds - Process refund
+ * - GET /billing/tax/exemptions - List the caller's tax exemption certificates
+ * - POST /billing/tax/exemptions - Submit a tax exemption certificate for review
+ * - POST /billing/reports/tax - Sales tax liability by jurisdiction and period
+ * - GET /billing/disputes - List the caller's refund requests and billing disputes
+ * - GET /billing/disputes/{disputeId} - Get a case with its conversation
+ * - POST /billing/disputes - Open a refund request or billing dispute
+ * - POST /billing/disputes/{disputeId}/messages - Reply on a case
+ * - POST /billing/disputes/{disputeId}/evidence - Attach uploaded evidence to a case
  * 
  * @param event - API Gateway proxy event containing request details
  * @returns Promise<APIGatewayProxyResult> - Standardized API response
@@ -278,10 +362,22 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
           return await getBillingAccount(pathParameters.userId, requestId);
         } else if (path.includes('/billing/transactions')) {
           return await getTransactionHistory(event, requestId);
+        } else if (path.includes('/billing/invoices')) {
+          return await getUserInvoices(event, requestId);
+        } else if (path.includes('/billing/usage')) {
+          return await getUsage(event, requestId);
+        } else if (path.includes('/billing/promotions')) {
+          return await getPromotions(event, requestId);
         } else if (path.includes('/billing/payment-methods')) {
           return await getUserPaymentMethods(event, requestId);
         } else if (path.includes('/billing/health-check')) {
           return await getProcessorHealthStatus(event, requestId);
+        } else if (path.includes('/billing/tax/exemptions')) {
+          return await getTaxExemptions(event, requestId);
+        } else if (path.includes('/billing/commissions/history')) {
+          return await getCommissionHistory(event, requestId);
+        } else if (path.includes('/billing/disputes')) {
+          return await getBillingCases(event, requestId);
         } else {
           return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
         }
@@ -293,6 +389,8 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
           return await processPayment(event, requestId);
         } else if (path.includes('/billing/subscriptions')) {
           return await createEnhancedSubscription(event, requestId);
+        } else if (path.includes('/billing/coupons/validate')) {
+          return await validateCouponCode(event, requestId);
         } else if (path.includes('/billing/refunds')) {
           return await processRefund(event, requestId);
         } else if (path.includes('/billing/memberships/upgrade')) {
@@ -307,6 +405,14 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
           return await generateRevenueReport(event, requestId);
         } else if (path.includes('/billing/reports/commissions')) {
           return await generateCommissionReport(event, requestId);
+        } else if (path.includes('/billing/reports/tax')) {
+          return await generateTaxReport(event, requestId);
+        } else if (path.includes('/billing/tax/exemptions')) {
+          return await submitTaxExemption(event, requestId);
+        } else if (path.includes('/billing/disputes')) {
+          return await handleBillingCaseRequest(event, requestId);
+        } else if (path.includes('/billing/promotions')) {
+          return await handlePromotionRequest(event, requestId);
         } else if (path.includes('/billing/analytics/dashboard')) {
           return await getFinancialDashboard(event, requestId);
         } else if (path.includes('/billing/plans')) {
@@ -317,6 +423,10 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
           return await webhookHandler.handleWebhook(event);
         } else if (path.includes('/billing/webhooks/paypal')) {
           return await webhookHandler.handleWebhook(event);
+        } else if (path.includes('/billing/webhooks/simulator')) {
+          return await webhookHandler.handleWebhook(event);
+        } else if (path.includes('/billing/simulator/')) {
+          return await handleSimulatorRequest(event, requestId);
         } else if (path.includes('/billing/failures/retry')) {
           return await processPaymentRetries(event, requestId);
         } else if (path.includes('/billing/payment-methods')) {
@@ -547,6 +657,16 @@ async function updateBillingAccount(billingId: string, event: APIGatewayProxyEve
     delete updates.userId;
     delete updates.customerId;
     delete updates.createdAt;
+    delete updates.coupon;
+
+    // Customers may only change their tax ID; exemptions come from reviewed certificates
+    if (updates.taxInfo) {
+      updates.taxInfo = {
+        ...existingAccount.taxInfo,
+        taxExempt: existingAccount.taxInfo?.taxExempt ?? false,
+        taxId: updates.taxInfo.taxId,
+      };
+    }
 
     // If plan is being changed, recalculate pricing
     if (updates.plan && updates.plan !== existingAccount.plan) {
@@ -656,9 +776,18 @@ async function processPayment(event: APIGatewayProxyEvent, requestId: string): P
       return createErrorResponse(404, 'BILLING_ACCOUNT_NOT_FOUND', 'No billing account found for user', requestId);
     }
 
+    // Listing fees are invoiced (with tax) and charged the invoice total
+    const invoice = body.listingId
+      ? await issueInvoice({
+          billingAccount,
+          lineItems: [listingFeeLineItem(body.listingId, sanitizeString(body.description!), body.amount!)],
+        })
+      : null;
+    const amount = invoice ? invoice.total : body.amount!;
+
     // Process payment through payment processor
     const paymentResult = await paymentProcessor.processPayment(
-      body.amount!,
+      amount,
       body.currency!,
       billingAccount.paymentMethodId!,
       body.metadata
@@ -670,9 +799,9 @@ async function processPayment(event: APIGatewayProxyEvent, requestId: string): P
       id: transactionId,
       transactionId,
       type: body.type!,
-      amount: body.amount!,
+      amount,
       currency: body.currency!,
-      status: paymentResult.status === 'completed' ? 'completed' : 'failed',
+      status: isSuccessfulPaymentStatus(paymentResult.status) ? 'completed' : 'failed',
       userId,
       userName: '', // This would be populated from user data
       userEmail: '', // This would be populated from user data
@@ -680,12 +809,15 @@ async function processPayment(event: APIGatewayProxyEvent, requestId: string): P
       paymentMethod: 'card', // This would come from billing account
       processorTransactionId: paymentResult.transactionId,
       createdAt: new Date().toISOString(),
-      completedAt: paymentResult.status === 'completed' ? new Date().toISOString() : undefined,
+      completedAt: isSuccessfulPaymentStatus(paymentResult.status) ? new Date().toISOString() : undefined,
       description: sanitizeString(body.description!),
-      fees: body.amount! * 0.029 + 0.30, // Example fee calculation (2.9% + $0.30)
-      netAmount: body.amount! - (body.amount! * 0.029 + 0.30),
+      fees: amount * 0.029 + 0.30, // Example fee calculation (2.9% + $0.30)
+      netAmount: amount - (amount * 0.029 + 0.30),
       metadata: body.metadata,
       billingAccountId: billingAccount.billingId,
+      invoiceId: invoice?.invoiceId,
+      taxLines: invoice?.taxLines,
+      taxAmount: invoice?.taxTotal,
     };
 
     // Validate transaction
@@ -696,6 +828,15 @@ async function processPayment(event: APIGatewayProxyEvent, requestId: string): P
 
     // Save transaction to database
     await db.createTransaction(transaction);
+    await recordTransactionInLedger(transaction);
+
+    if (invoice) {
+      if (transaction.status === 'completed') {
+        await markInvoicePaid(invoice.invoiceId, transaction.transactionId);
+      } else {
+        await voidInvoice(invoice.invoiceId, 'Payment failed');
+      }
+    }
 
     // Update billing account payment history
     const updatedPaymentHistory = [...(billingAccount.paymentHistory || []), transaction];
@@ -710,6 +851,7 @@ async function processPayment(event: APIGatewayProxyEvent, requestId: string): P
       amount: transaction.amount,
       currency: transaction.currency,
       processorTransactionId: transaction.processorTransactionId,
+      invoiceId: transaction.invoiceId,
       message: transaction.status === 'completed' ? 'Payment processed successfully' : 'Payment failed'
     });
   } catch (error) {
@@ -971,42 +1113,13 @@ async function processRefund(event: APIGatewayProxyEvent, requestId: string): Pr
       return createErrorResponse(400, 'INVALID_REFUND_AMOUNT', 'Refund amount cannot exceed original transaction amount', requestId);
     }
 
-    // Process refund through payment processor
-    const { refundId } = await paymentProcessor.processRefund(
-      originalTransaction.processorTransactionId,
-      refundAmount
+    const { refundTransaction, refundId } = await issueRefund(
+      paymentProcessor,
+      originalTransaction,
+      refundAmount,
+      body.reason!
     );
 
-    // Create refund transaction record
-    const refundTransactionId = generateId();
-    const refundTransaction: Transaction = {
-      id: refundTransactionId,
-      transactionId: refundTransactionId,
-      type: 'refund',
-      amount: refundAmount,
-      currency: originalTransaction.currency,
-      status: 'completed',
-      userId: originalTransaction.userId,
-      userName: originalTransaction.userName,
-      userEmail: originalTransaction.userEmail,
-      listingId: originalTransaction.listingId,
-      paymentMethod: originalTransaction.paymentMethod,
-      processorTransactionId: refundId,
-      createdAt: new Date().toISOString(),
-      completedAt: new Date().toISOString(),
-      description: `Refund for transaction ${originalTransaction.transactionId}: ${sanitizeString(body.reason!)}`,
-      fees: 0, // Refunds typically don't have fees
-      netAmount: refundAmount,
-      metadata: {
-        originalTransactionId: originalTransaction.transactionId,
-        refundReason: body.reason,
-      },
-      billingAccountId: originalTransaction.billingAccountId,
-    };
-
-    // Save refund transaction
-    await db.createTransaction(refundTransaction);
-
     return createResponse(200, {
       refundTransactionId: refundTransaction.transactionId,
       refundId,
@@ -1070,6 +1183,187 @@ async function getTransactionHistory(event: APIGatewayProxyEvent, requestId: str
   }
 }
 
+/**
+ * Lists the caller's invoices, or returns one invoice or its document
+ *
+ * Drafts are internal until finalized and are never returned.
+ *
+ * Routes:
+ * - /billing/invoices - Paginated list, newest first
+ * - /billing/invoices/{invoiceId} - Invoice as JSON
+ * - /billing/invoices/{invoiceId}/html - HTML document
+ * - /billing/invoices/{invoiceId}/pdf - PDF download
+ *
+ * @param event - API Gateway event
+ * @param requestId - Request tracking identifier
+ * @returns Promise<APIGatewayProxyResult> - Invoices, invoice, document or error
+ */
+async function getUserInvoices(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const userId = getUserId(event);
+    const match = (event.path || '').split('?')[0].match(/\/billing\/invoices(?:\/([^/]+))?(?:\/(html|pdf))?\/?$/);
+    if (!match) {
+      return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
+    }
+
+    const [, invoiceId, format] = match;
+    if (!invoiceId) {
+      const queryParams = event.queryStringParameters || {};
+      const result = await listInvoicesByUser(
+        userId,
+        Math.min(parseInt(queryParams.limit || '20'), 100),
+        queryParams.nextToken ? JSON.parse(Buffer.from(queryParams.nextToken, 'base64').toString()) : undefined
+      );
+
+      const response: any = { invoices: result.invoices.filter(invoice => invoice.status !== 'draft') };
+      if (result.lastKey) {
+        response.nextToken = Buffer.from(JSON.stringify(result.lastKey)).toString('base64');
+      }
+      return createResponse(200, response);
+    }
+
+    const invoice = await getInvoice(invoiceId);
+    if (!invoice || invoice.userId !== userId || invoice.status === 'draft') {
+      return createErrorResponse(404, 'INVOICE_NOT_FOUND', 'Invoice not found', requestId);
+    }
+
+    if (format === 'html' || format === 'pdf') {
+      return createInvoiceDocumentResponse(invoice, format);
+    }
+    return createResponse(200, { invoice });
+  } catch (error) {
+    console.error('Error getting invoices:', error);
+
+    if (error instanceof Error && error.message.includes('User not authenticated')) {
+      return createErrorResponse(401, 'UNAUTHORIZED', error.message, requestId);
+    }
+
+    return createErrorResponse(500, 'BILLING_ERROR', 'Failed to retrieve invoices', requestId);
+  }
+}
+
+/**
+ * Gets the caller's usage against plan quotas for the current billing period
+ *
+ * @param event - API Gateway event
+ * @param requestId - Request tracking identifier
+ * @returns Promise<APIGatewayProxyResult> - Usage summary or error
+ */
+async function getUsage(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const userId = getUserId(event);
+    const usage = await getUsageSummary(userId);
+    return createResponse(200, { usage });
+  } catch (error) {
+    console.error('Error getting usage:', error);
+
+    if (error instanceof Error && error.message.includes('User not authenticated')) {
+      return createErrorResponse(401, 'UNAUTHORIZED', error.message, requestId);
+    }
+
+    return createErrorResponse(500, 'BILLING_ERROR', 'Failed to retrieve usage', requestId);
+  }
+}
+
+/**
+ * Lists the caller's promotions, or reports on one of them
+ *
+ * Routes:
+ * - /billing/promotions - The caller's promotions, newest first
+ * - /billing/promotions/{promotionId}/report - Performance of one promotion
+ *
+ * @param event - API Gateway event
+ * @param requestId - Request tracking identifier
+ * @returns Promise<APIGatewayProxyResult> - Promotions or the report, or error
+ */
+async function getPromotions(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const userId = getUserId(event);
+    const match = (event.path || '').split('?')[0].match(/\/billing\/promotions(?:\/([^/]+)\/report)?\/?$/);
+    if (!match) {
+      return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
+    }
+
+    const [, promotionId] = match;
+    if (!promotionId) {
+      return createResponse(200, { promotions: await getSellerPromotions(userId) });
+    }
+    return createResponse(200, { report: await getPromotionReport(userId, promotionId) });
+  } catch (error) {
+    console.error('Error getting promotions:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('User not authenticated')) {
+        return createErrorResponse(401, 'UNAUTHORIZED', error.message, requestId);
+      }
+      if (error.message === 'Promotion not found') {
+        return createErrorResponse(404, 'PROMOTION_NOT_FOUND', error.message, requestId);
+      }
+    }
+
+    return createErrorResponse(500, 'BILLING_ERROR', 'Failed to retrieve promotions', requestId);
+  }
+}
+
+/**
+ * Quotes or buys a listing promotion
+ *
+ * Routes:
+ * - /billing/promotions/quote - Price a promotion with listingId, type and days
+ * - /billing/promotions - Buy it, charging the caller's payment method for days not covered by their plan
+ *
+ * @param event - API Gateway event
+ * @param requestId - Request tracking identifier
+ * @returns Promise<APIGatewayProxyResult> - The quote or the promotion, or error
+ */
+async function handlePromotionRequest(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const userId = getUserId(event);
+    const match = (event.path || '').split('?')[0].match(/\/billing\/promotions(\/quote)?\/?$/);
+    if (!match) {
+      return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
+    }
+
+    const body = parseBody<PromotionRequest>(event);
+    validateRequired(body, ['listingId', 'type', 'days']);
+
+    if (match[1]) {
+      return createResponse(200, { quote: await quotePromotion(userId, body) });
+    }
+
+    if (!paymentProcessor) {
+      return createErrorResponse(500, 'PAYMENT_PROCESSOR_UNAVAILABLE', 'Payment processor is not available', requestId);
+    }
+    const promotion = await purchasePromotion(paymentProcessor, userId, body);
+    return createResponse(201, {
+      promotion,
+      message: promotion.type === 'featured' ? 'Your listing is now featured' : 'Your listing is now boosted'
+    });
+  } catch (error) {
+    console.error('Error handling promotion request:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Missing required fields')) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', error.message, requestId);
+      }
+      if (error.message.includes('User not authenticated')) {
+        return createErrorResponse(401, 'UNAUTHORIZED', error.message, requestId);
+      }
+      if (error.message === 'Promotion listing not found') {
+        return createErrorResponse(404, 'LISTING_NOT_FOUND', error.message, requestId);
+      }
+      if (error.message === 'Promotion payment failed') {
+        return createErrorResponse(400, 'PAYMENT_FAILED', 'Failed to process promotion payment', requestId);
+      }
+      if (error.message.startsWith('Promotion')) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', error.message, requestId);
+      }
+    }
+
+    return createErrorResponse(500, 'BILLING_ERROR', 'Failed to process promotion', requestId);
+  }
+}
+
 /**
  * Upgrades a user's membership plan with prorated billing
  * 
@@ -1114,18 +1408,25 @@ async function upgradeMembership(event: APIGatewayProxyEvent, requestId: string)
 
     // Calculate prorated billing
     const daysRemaining = Math.ceil((billingAccount.nextBillingDate! - Date.now()) / (24 * 60 * 60 * 1000));
-    const proratedBilling = calculateProratedBilling(currentPlan, newPlan, billingCycle, daysRemaining);
+    const proratedBilling = calculateProratedBilling(currentPlan, newPlan, billingCycle, daysRemaining, billingAccount.coupon);
 
     // Process prorated payment if needed
     if (proratedBilling.proratedAmount > 0) {
+      const invoice = await issueInvoice({
+        billingAccount,
+        subscriptionId: billingAccount.subscriptionId,
+        lineItems: [prorationLineItem(currentPlan, newPlan, proratedBilling.proratedAmount, daysRemaining)],
+      });
+
       const paymentResult = await paymentProcessor.processPayment(
-        proratedBilling.proratedAmount,
+        invoice.total,
         'USD',
         billingAccount.paymentMethodId!,
         { type: 'membership_upgrade', fromPlan: currentPlan, toPlan: newPlan }
       );
 
-      if (paymentResult.status !== 'completed') {
+      if (!isSuccessfulPaymentStatus(paymentResult.status)) {
+        await voidInvoice(invoice.invoiceId, 'Payment failed');
         return createErrorResponse(400, 'PAYMENT_FAILED', 'Failed to process upgrade payment', requestId);
       }
 
@@ -1134,7 +1435,7 @@ async function upgradeMembership(event: APIGatewayProxyEvent, requestId: string)
         id: generateId(),
         transactionId: generateId(),
         type: 'membership',
-        amount: proratedBilling.proratedAmount,
+        amount: invoice.total,
         currency: 'USD',
         status: 'completed',
         userId,
@@ -1145,8 +1446,8 @@ async function upgradeMembership(event: APIGatewayProxyEvent, requestId: string)
         createdAt: new Date().toISOString(),
         completedAt: new Date().toISOString(),
         description: `Membership upgrade from ${currentPlan} to ${newPlan}`,
-        fees: proratedBilling.proratedAmount * 0.029 + 0.30,
-        netAmount: proratedBilling.proratedAmount - (proratedBilling.proratedAmount * 0.029 + 0.30),
+        fees: invoice.total * 0.029 + 0.30,
+        netAmount: invoice.total - (invoice.total * 0.029 + 0.30),
         metadata: {
           type: 'membership_upgrade',
           fromPlan: currentPlan,
@@ -1155,9 +1456,14 @@ async function upgradeMembership(event: APIGatewayProxyEvent, requestId: string)
           daysRemaining
         },
         billingAccountId: billingAccount.billingId,
+        invoiceId: invoice.invoiceId,
+        taxLines: invoice.taxLines,
+        taxAmount: invoice.taxTotal,
       };
 
       await db.createTransaction(upgradeTransaction);
+      await recordTransactionInLedger(upgradeTransaction);
+      await markInvoicePaid(invoice.invoiceId, upgradeTransaction.transactionId);
     }
 
     // Update billing account with new plan
@@ -1291,6 +1597,7 @@ async function downgradeMembership(event: APIGatewayProxyEvent, requestId: strin
         };
 
         await db.createTransaction(refundTransaction);
+        await recordTransactionInLedger(refundTransaction);
       }
 
       // Update billing account immediately
@@ -1399,16 +1706,28 @@ async function renewMembership(event: APIGatewayProxyEvent, requestId: string):
 
     const billingCycle = body.billingCycle || 'monthly';
     const pricing = calculateSubscriptionPricing(billingAccount.plan, billingCycle);
+    const nextBillingDate = calculateNextBillingDate(billingCycle);
+
+    const couponDiscount = getSubscriptionDiscount(billingAccount, pricing.amount);
+    const invoice = await issueInvoice({
+      billingAccount,
+      subscriptionId: billingAccount.subscriptionId,
+      lineItems: [
+        subscriptionLineItem(billingAccount.plan, pricing.amount, Date.now(), nextBillingDate),
+        ...(couponDiscount ? [couponDiscount.lineItem] : []),
+      ],
+    });
 
     // Process renewal payment
     const paymentResult = await paymentProcessor.processPayment(
-      pricing.amount,
+      invoice.total,
       pricing.currency,
       billingAccount.paymentMethodId!,
       { type: 'membership_renewal', plan: billingAccount.plan }
     );
 
-    if (paymentResult.status !== 'completed') {
+    if (!isSuccessfulPaymentStatus(paymentResult.status)) {
+      await voidInvoice(invoice.invoiceId, 'Payment failed');
       return createErrorResponse(400, 'PAYMENT_FAILED', 'Failed to process renewal payment', requestId);
     }
 
@@ -1417,7 +1736,7 @@ async function renewMembership(event: APIGatewayProxyEvent, requestId: string):
       id: generateId(),
       transactionId: generateId(),
       type: 'membership',
-      amount: pricing.amount,
+      amount: invoice.total,
       currency: pricing.currency,
       status: 'completed',
       userId,
@@ -1428,20 +1747,31 @@ async function renewMembership(event: APIGatewayProxyEvent, requestId: string):
       createdAt: new Date().toISOString(),
       completedAt: new Date().toISOString(),
       description: `Membership renewal for ${billingAccount.plan}`,
-      fees: pricing.amount * 0.029 + 0.30,
-      netAmount: pricing.amount - (pricing.amount * 0.029 + 0.30),
+      fees: invoice.total * 0.029 + 0.30,
+      netAmount: invoice.total - (invoice.total * 0.029 + 0.30),
       metadata: {
         type: 'membership_renewal',
         plan: billingAccount.plan,
         billingCycle
       },
       billingAccountId: billingAccount.billingId,
+      invoiceId: invoice.invoiceId,
+      taxLines: invoice.taxLines,
+      taxAmount: invoice.taxTotal,
     };
 
     await db.createTransaction(renewalTransaction);
+    await recordTransactionInLedger(renewalTransaction);
+    await markInvoicePaid(invoice.invoiceId, renewalTransaction.transactionId);
+    if (couponDiscount) {
+      try {
+        await recordCouponUsage(billingAccount, couponDiscount.discount);
+      } catch (error) {
+        console.error(`Error recording coupon usage for billing account ${billingAccount.billingId}:`, error);
+      }
+    }
 
     // Update billing account with new billing date
-    const nextBillingDate = calculateNextBillingDate(billingCycle);
     await db.updateBillingAccount(billingAccount.billingId, {
       nextBillingDate,
       amount: pricing.amount,
@@ -1663,6 +1993,13 @@ async function generateRevenueReport(event: APIGatewayProxyEvent, requestId: str
       churnRate: 0.05, // 5% monthly churn
     };
 
+    // Coupon redemptions in the period and the revenue they gave up
+    const redemptions = await listRedemptionsBetween(
+      new Date(filters.startDate).getTime(),
+      new Date(filters.endDate).getTime()
+    );
+    const couponMetrics = summarizeCouponRedemptions(redemptions, revenueMetrics.totalRevenue);
+
     return createResponse(200, {
       report: {
         title: 'Revenue Report',
@@ -1671,6 +2008,7 @@ async function generateRevenueReport(event: APIGatewayProxyEvent, requestId: str
           endDate: filters.endDate
         },
         metrics: revenueMetrics,
+        couponMetrics,
         generatedAt: new Date().toISOString(),
         filters
       }
@@ -1682,73 +2020,114 @@ async function generateRevenueReport(event: APIGatewayProxyEvent, requestId: str
 }
 
 /**
- * Generates commission report for marketplace transactions
- * 
- * @param event - API Gateway event containing report parameters
+ * Generates the sales tax liability report
+ *
+ * Totals tax collected and refunded by jurisdiction and filing period, for
+ * completed transactions in the date range (default: the current month).
+ *
+ * @param event - API Gateway event with startDate, endDate and groupBy (month, quarter, year)
+ * @param requestId - Request tracking identifier
+ * @returns Promise<APIGatewayProxyResult> - Tax liability report or error
+ */
+async function generateTaxReport(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const queryParams = event.queryStringParameters || {};
+    const now = new Date();
+    const startDate = queryParams.startDate || new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+    const endDate = queryParams.endDate || now.toISOString();
+    const groupBy = ['month', 'quarter', 'year'].includes(queryParams.groupBy || '')
+      ? queryParams.groupBy as TaxReportPeriod
+      : 'month';
+
+    if (isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate)) || startDate > endDate) {
+      return createErrorResponse(400, 'VALIDATION_ERROR', 'Invalid date range', requestId);
+    }
+
+    const report = await generateTaxLiabilityReport(startDate, endDate, groupBy);
+
+    return createResponse(200, {
+      report: {
+        title: 'Sales Tax Liability Report',
+        ...report,
+        generatedAt: new Date().toISOString(),
+      }
+    });
+  } catch (error) {
+    console.error('Error generating tax report:', error);
+    return createErrorResponse(500, 'REPORT_ERROR', 'Failed to generate tax report', requestId);
+  }
+}
+
+/**
+ * Generates the commission report for a month
+ *
+ * Totals the month's commission statements by payee and rule, and shows
+ * which statements have been paid (default: the previous month).
+ *
+ * @param event - API Gateway event with period (YYYY-MM) and optional payeeId
  * @param requestId - Request tracking identifier
  * @returns Promise<APIGatewayProxyResult> - Commission report or error
  */
 async function generateCommissionReport(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
   try {
     const queryParams = event.queryStringParameters || {};
-    
-    const filters = {
-      startDate: queryParams.startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-      endDate: queryParams.endDate || new Date().toISOString(),
-      sellerId: queryParams.sellerId, // Optional: filter by specific seller
-      commissionRate: parseFloat(queryParams.commissionRate || '0.05'), // Default 5% commission
-    };
+    const now = new Date();
+    const period = queryParams.period || getLedgerPeriodKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)));
 
-    // Mock commission data (in real implementation, this would come from transaction analysis)
-    const commissionData = {
-      totalCommissionEarned: 1250.75,
-      totalSalesVolume: 25015.00,
-      averageCommissionRate: 0.05,
-      commissionByPeriod: [
-        { period: '2024-01-01', commission: 425.25, sales: 8505.00, transactions: 12 },
-        { period: '2024-01-02', commission: 387.50, sales: 7750.00, transactions: 8 },
-        { period: '2024-01-03', commission: 438.00, sales: 8760.00, transactions: 15 },
-      ],
-      topSellers: [
-        { sellerId: 'seller-1', sellerName: 'Premium Boats LLC', commission: 675.25, sales: 13505.00, transactions: 18 },
-        { sellerId: 'seller-2', sellerName: 'Marina Sales Co', commission: 425.50, sales: 8510.00, transactions: 12 },
-        { sellerId: 'seller-3', sellerName: 'Yacht Brokers Inc', commission: 150.00, sales: 3000.00, transactions: 5 },
-      ],
-      commissionByCategory: [
-        { category: 'Sailboats', commission: 625.25, sales: 12505.00, averageCommission: 0.05 },
-        { category: 'Motor Boats', commission: 475.50, sales: 9510.00, averageCommission: 0.05 },
-        { category: 'Yachts', commission: 150.00, sales: 3000.00, averageCommission: 0.05 },
-      ],
-      payoutSchedule: [
-        { sellerId: 'seller-1', amount: 675.25, scheduledDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), status: 'scheduled' },
-        { sellerId: 'seller-2', amount: 425.50, scheduledDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), status: 'scheduled' },
-      ]
-    };
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+      return createErrorResponse(400, 'VALIDATION_ERROR', 'Period must be YYYY-MM', requestId);
+    }
+
+    const statements = (await listStatementsByPeriod(period))
+      .filter(statement => !queryParams.payeeId || statement.payeeId === queryParams.payeeId);
+
+    const byRule = new Map<string, { ruleId: string; revenue: number; commission: number; transactions: number }>();
+    statements.forEach(statement => statement.lines.forEach(line => {
+      const totals = byRule.get(line.ruleId) || { ruleId: line.ruleId, revenue: 0, commission: 0, transactions: 0 };
+      totals.revenue = roundToCents(totals.revenue + line.revenue);
+      totals.commission = roundToCents(totals.commission + line.commission);
+      totals.transactions += 1;
+      byRule.set(line.ruleId, totals);
+    }));
+
+    const totalCommission = roundToCents(statements.reduce((sum, statement) => sum + statement.totalCommission, 0));
+    const totalRevenue = roundToCents(statements.reduce((sum, statement) => sum + statement.totalRevenue, 0));
+    const owed = (status: string) => roundToCents(statements
+      .filter(statement => statement.status === status)
+      .reduce((sum, statement) => sum + Math.max(0, statement.totalCommission), 0));
 
     return createResponse(200, {
       report: {
         title: 'Commission Report',
-        dateRange: {
-          startDate: filters.startDate,
-          endDate: filters.endDate
-        },
+        period,
         summary: {
-          totalCommissionEarned: commissionData.totalCommissionEarned,
-          totalSalesVolume: commissionData.totalSalesVolume,
-          averageCommissionRate: commissionData.averageCommissionRate,
-          totalTransactions: commissionData.commissionByPeriod.reduce((sum, period) => sum + period.transactions, 0)
+          totalCommissionEarned: totalCommission,
+          totalSalesVolume: totalRevenue,
+          averageCommissionRate: totalRevenue > 0 ? Math.round((totalCommission / totalRevenue) * 10000) / 10000 : 0,
+          totalTransactions: statements.reduce((sum, statement) => sum + statement.lines.length, 0),
+          payees: statements.length,
         },
         breakdown: {
-          byPeriod: commissionData.commissionByPeriod,
-          byCategory: commissionData.commissionByCategory,
-          topSellers: commissionData.topSellers
+          byPayee: statements
+            .map(statement => ({
+              payeeId: statement.payeeId,
+              payeeName: statement.payeeName,
+              payeeType: statement.payeeType,
+              commission: statement.totalCommission,
+              sales: statement.totalRevenue,
+              transactions: statement.lines.length,
+              status: statement.status,
+              payoutBatchId: statement.payoutBatchId,
+            }))
+            .sort((a, b) => b.commission - a.commission),
+          byRule: Array.from(byRule.values()),
         },
         payouts: {
-          scheduled: commissionData.payoutSchedule,
-          totalScheduled: commissionData.payoutSchedule.reduce((sum, payout) => sum + payout.amount, 0)
+          unbatched: owed('draft'),
+          inBatch: owed('in_batch'),
+          paid: owed('paid'),
         },
         generatedAt: new Date().toISOString(),
-        filters
       }
     });
   } catch (error) {
@@ -1936,6 +2315,7 @@ async function createEnhancedSubscription(event: APIGatewayProxyEvent, requestId
       billingCycle: 'monthly' | 'yearly';
       paymentMethodId?: string;
       trialDays?: number;
+      couponCode?: string;
       metadata?: Record<string, string>;
     }>(event);
 
@@ -1948,6 +2328,7 @@ async function createEnhancedSubscription(event: APIGatewayProxyEvent, requestId
       billingCycle: body.billingCycle!,
       paymentMethodId: body.paymentMethodId,
       trialDays: body.trialDays,
+      couponCode: body.couponCode || undefined,
       metadata: body.metadata,
     };
 
@@ -1958,12 +2339,16 @@ async function createEnhancedSubscription(event: APIGatewayProxyEvent, requestId
       status: result.status,
       trialEnd: result.trialEnd,
       nextBillingDate: result.nextBillingDate,
+      coupon: result.coupon,
       message: 'Subscription created successfully'
     });
   } catch (error) {
     console.error('Error creating enhanced subscription:', error);
     
     if (error instanceof Error) {
+      if (error.message.startsWith('Coupon')) {
+        return createErrorResponse(400, 'INVALID_COUPON', error.message, requestId);
+      }
       if (error.message.includes('Missing required fields')) {
         return createErrorResponse(400, 'VALIDATION_ERROR', error.message, requestId);
       }
@@ -2100,6 +2485,287 @@ async function getSubscriptionPlans(event: APIGatewayProxyEvent, requestId: stri
   }
 }
 
+/**
+ * Lists the caller's tax exemption certificates
+ *
+ * @param event - API Gateway event
+ * @param requestId - Request tracking identifier
+ * @returns Promise<APIGatewayProxyResult> - Certificates or error
+ */
+async function getTaxExemptions(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const userId = getUserId(event);
+    const billingAccount = await db.getBillingAccountByUser(userId);
+    if (!billingAccount) {
+      return createErrorResponse(404, 'NOT_FOUND', 'Billing account not found', requestId);
+    }
+
+    return createResponse(200, {
+      taxExempt: billingAccount.taxInfo?.taxExempt ?? false,
+      certificates: billingAccount.taxInfo?.exemptionCertificates || [],
+    });
+  } catch (error) {
+    console.error('Error getting tax exemptions:', error);
+
+    if (error instanceof Error && error.message.includes('User not authenticated')) {
+      return createErrorResponse(401, 'UNAUTHORIZED', error.message, requestId);
+    }
+
+    return createErrorResponse(500, 'TAX_ERROR', 'Failed to retrieve tax exemptions', requestId);
+  }
+}
+
+/**
+ * Lists the caller's commission statements and payouts (sales reps and dealers)
+ *
+ * @param event - API Gateway event with an optional months limit
+ * @param requestId - Request tracking identifier
+ * @returns Promise<APIGatewayProxyResult> - Commission history or error
+ */
+async function getCommissionHistory(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const userId = getUserId(event);
+    const months = Math.min(parseInt(event.queryStringParameters?.months || '12') || 12, 36);
+    const history = await getPayeeCommissionHistory(userId, months);
+    return createResponse(200, history);
+  } catch (error) {
+    console.error('Error getting commission history:', error);
+
+    if (error instanceof Error && error.message.includes('User not authenticated')) {
+      return createErrorResponse(401, 'UNAUTHORIZED', error.message, requestId);
+    }
+
+    return createErrorResponse(500, 'COMMISSION_ERROR', 'Failed to retrieve commission history', requestId);
+  }
+}
+
+/**
+ * Lists the caller's refund requests and billing disputes, or gets one case
+ *
+ * Routes:
+ * - /billing/disputes - The caller's cases, newest first
+ * - /billing/disputes/{disputeId} - A case with its conversation and evidence
+ *
+ * @param event - API Gateway event
+ * @param requestId - Request tracking identifier
+ * @returns Promise<APIGatewayProxyResult> - Cases, case or error
+ */
+async function getBillingCases(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const userId = getUserId(event);
+    const match = (event.path || '').split('?')[0].match(/\/billing\/disputes(?:\/([^/]+))?\/?$/);
+    if (!match) {
+      return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
+    }
+
+    const [, disputeId] = match;
+    if (!disputeId) {
+      const cases = await db.getDisputeCasesByUser(userId);
+      return createResponse(200, { cases: cases.filter(c => c.source === 'customer') });
+    }
+    return createResponse(200, { case: await getCustomerCase(userId, disputeId) });
+  } catch (error) {
+    console.error('Error getting billing cases:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('User not authenticated')) {
+        return createErrorResponse(401, 'UNAUTHORIZED', error.message, requestId);
+      }
+      if (error.message === 'Billing case not found') {
+        return createErrorResponse(404, 'CASE_NOT_FOUND', error.message, requestId);
+      }
+    }
+
+    return createErrorResponse(500, 'DISPUTE_ERROR', 'Failed to retrieve billing cases', requestId);
+  }
+}
+
+/**
+ * Opens a refund request or billing dispute, or adds to an open one
+ *
+ * Routes:
+ * - /billing/disputes - Open a case with transactionId, caseType, reason, description and amount
+ * - /billing/disputes/{disputeId}/messages - Reply with a message body
+ * - /billing/disputes/{disputeId}/evidence - Attach evidence with type, description and fileUrl
+ *
+ * @param event - API Gateway event
+ * @param requestId - Request tracking identifier
+ * @returns Promise<APIGatewayProxyResult> - The case, message or evidence, or error
+ */
+async function handleBillingCaseRequest(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const userId = getUserId(event);
+    const match = (event.path || '').split('?')[0].match(/\/billing\/disputes(?:\/([^/]+)\/(messages|evidence))?\/?$/);
+    if (!match) {
+      return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
+    }
+
+    const [, disputeId, action] = match;
+    if (!disputeId) {
+      const body = parseBody<OpenBillingCaseRequest>(event);
+      validateRequired(body, ['transactionId', 'caseType', 'reason', 'description']);
+      const disputeCase = await openBillingCase(userId, body);
+      return createResponse(201, {
+        case: disputeCase,
+        message: 'Your request has been sent to our billing team'
+      });
+    }
+
+    if (action === 'messages') {
+      const body = parseBody<{ body: string }>(event);
+      validateRequired(body, ['body']);
+      return createResponse(201, { message: await addCustomerMessage(userId, disputeId, body.body) });
+    }
+
+    const body = parseBody<Pick<DisputeEvidence, 'type' | 'description' | 'fileUrl'>>(event);
+    validateRequired(body, ['type', 'description']);
+    return createResponse(201, { evidence: await addCustomerEvidence(userId, disputeId, body) });
+  } catch (error) {
+    console.error('Error handling billing case request:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Missing required fields')) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', error.message, requestId);
+      }
+      if (error.message.includes('User not authenticated')) {
+        return createErrorResponse(401, 'UNAUTHORIZED', error.message, requestId);
+      }
+      if (error.message === 'Billing case not found' || error.message === 'Billing case transaction not found') {
+        return createErrorResponse(404, 'CASE_NOT_FOUND', error.message, requestId);
+      }
+      if (error.message.startsWith('Billing case')) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', error.message, requestId);
+      }
+    }
+
+    return createErrorResponse(500, 'DISPUTE_ERROR', 'Failed to update billing case', requestId);
+  }
+}
+
+/**
+ * Submits a tax exemption certificate for review by finance staff
+ *
+ * @param event - API Gateway event with certificateNumber, exemptionType, states, expiresAt and documentUrl
+ * @param requestId - Request tracking identifier
+ * @returns Promise<APIGatewayProxyResult> - The pending certificate or error
+ */
+async function submitTaxExemption(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const userId = getUserId(event);
+    const body = parseBody<TaxExemptionSubmission>(event);
+
+    validateRequired(body, ['certificateNumber', 'exemptionType']);
+
+    const billingAccount = await db.getBillingAccountByUser(userId);
+    if (!billingAccount) {
+      return createErrorResponse(404, 'NOT_FOUND', 'Billing account not found', requestId);
+    }
+
+    const certificate = await submitExemptionCertificate(billingAccount, {
+      certificateNumber: sanitizeString(body.certificateNumber),
+      exemptionType: body.exemptionType,
+      states: body.states,
+      expiresAt: body.expiresAt,
+      documentUrl: body.documentUrl,
+    });
+
+    return createResponse(201, {
+      certificate,
+      message: 'Exemption certificate submitted for review'
+    });
+  } catch (error) {
+    console.error('Error submitting tax exemption:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Missing required fields')) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', error.message, requestId);
+      }
+      if (error.message.includes('User not authenticated')) {
+        return createErrorResponse(401, 'UNAUTHORIZED', error.message, requestId);
+      }
+      if (error.message.startsWith('Certificate')) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', error.message, requestId);
+      }
+    }
+
+    return createErrorResponse(500, 'TAX_ERROR', 'Failed to submit tax exemption', requestId);
+  }
+}
+
+/**
+ * Checks a coupon code against a plan before checkout
+ *
+ * Returns what the coupon would give on the plan's first charge without
+ * redeeming it; the code is redeemed when the subscription is created.
+ *
+ * @param event - API Gateway event with code, planId and billingCycle
+ * @param requestId - Request tracking identifier
+ * @returns Promise<APIGatewayProxyResult> - Discount preview or error
+ */
+async function validateCouponCode(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const userId = getUserId(event);
+    const body = parseBody<{
+      code: string;
+      planId: string;
+      billingCycle: 'monthly' | 'yearly';
+    }>(event);
+
+    validateRequired(body, ['code', 'planId', 'billingCycle']);
+
+    const plan = subscriptionManager.getActiveSubscriptionPlans().find(p => p.planId === body.planId);
+    if (!plan) {
+      return createErrorResponse(404, 'NOT_FOUND', `Subscription plan not found: ${body.planId}`, requestId);
+    }
+
+    const billingAccount = await db.getBillingAccountByUser(userId);
+    if (!billingAccount) {
+      return createErrorResponse(404, 'NOT_FOUND', 'Billing account not found', requestId);
+    }
+
+    const coupon = await checkCoupon(body.code!, {
+      userId,
+      planId: plan.planId,
+      planType: plan.type,
+      billingCycle: body.billingCycle!,
+      billingAccount,
+    });
+
+    const amount = body.billingCycle === 'yearly' ? plan.pricing.yearly : plan.pricing.monthly;
+    const discount = calculateCouponDiscount(coupon, amount);
+
+    return createResponse(200, {
+      valid: true,
+      code: coupon.code,
+      description: coupon.description,
+      discountType: coupon.discountType,
+      discountDescription: describeCouponDiscount(coupon),
+      duration: coupon.duration,
+      durationCycles: coupon.durationCycles,
+      freeMonths: coupon.freeMonths,
+      amount,
+      discount,
+      amountAfterDiscount: Math.round((amount - discount) * 100) / 100,
+    });
+  } catch (error) {
+    console.error('Error validating coupon:', error);
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Coupon')) {
+        return createErrorResponse(400, 'INVALID_COUPON', error.message, requestId);
+      }
+      if (error.message.includes('Missing required fields')) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', error.message, requestId);
+      }
+      if (error.message.includes('User not authenticated')) {
+        return createErrorResponse(401, 'UNAUTHORIZED', error.message, requestId);
+      }
+    }
+
+    return createErrorResponse(500, 'COUPON_ERROR', 'Failed to validate coupon', requestId);
+  }
+}
+
 /**
  * Processes automatic subscription renewals (called by scheduled job)
  * 
@@ -2422,7 +3088,7 @@ async function getProcessorHealthStatus(event: APIGatewayProxyEvent, requestId:
     // Get processor configurations (without sensitive data)
     const configurations: Record<string, any> = {};
     for (const processor of availableProcessors) {
-      const config = configManager.getConfig(processor as 'stripe' | 'paypal');
+      const config = configManager.getConfig(processor as PaymentProcessorType);
       if (config) {
         configurations[processor] = {
           type: config.type,
@@ -2444,4 +3110,92 @@ async function getProcessorHealthStatus(event: APIGatewayProxyEvent, requestId:
     console.error('Error getting processor health status:', error);
     return createErrorResponse(500, 'HEALTH_CHECK_ERROR', 'Failed to get processor health status', requestId);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Drives the payment simulator: scripted failures, disputes, renewals and webhook delivery
+ *
+ * Only available when the primary processor is the simulator (local development).
+ *
+ * @param event - API Gateway event
+ * @param requestId - Request tracking identifier
+ * @returns Promise<APIGatewayProxyResult> - Result of the simulator action
+ */
+async function handleSimulatorRequest(event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  if (!(paymentProcessor instanceof SimulatorPaymentProcessor)) {
+    return createErrorResponse(404, 'SIMULATOR_DISABLED', 'Payment simulator is not the active processor', requestId);
+  }
+
+  try {
+    const path = event.path || '';
+    const closeMatch = path.match(/\/billing\/simulator\/disputes\/([^/]+)\/close/);
+
+    if (path.includes('/billing/simulator/scenarios')) {
+      const body = parseBody<{
+        scenario: SimulatorScenario;
+        times?: number;
+        paymentMethodId?: string;
+        customerId?: string;
+        userId?: string;
+      }>(event);
+      validateRequired(body, ['scenario']);
+
+      // Scenarios can target a user's billing account instead of processor IDs
+      let target = body.paymentMethodId || body.customerId;
+      if (!target && body.userId) {
+        const billingAccount = await db.getBillingAccountByUser(body.userId);
+        target = billingAccount?.customerId;
+      }
+      if (!target) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', 'paymentMethodId, customerId or a userId with a billing account is required', requestId);
+      }
+
+      paymentProcessor.scriptScenario(target, body.scenario!, body.times ?? 1);
+      return createResponse(200, { target, scenario: body.scenario, times: body.times ?? 1, scenarios: SIMULATOR_SCENARIOS });
+    }
+
+    if (closeMatch) {
+      const body = parseBody<{ outcome: 'won' | 'lost' }>(event);
+      validateRequired(body, ['outcome']);
+      paymentProcessor.closeDispute(closeMatch[1], body.outcome!);
+      return createResponse(200, { disputeId: closeMatch[1], status: body.outcome });
+    }
+
+    if (path.includes('/billing/simulator/disputes')) {
+      const body = parseBody<{ transactionId: string; reason?: string }>(event);
+      validateRequired(body, ['transactionId']);
+
+      // Accept either our transaction ID or the processor's payment ID
+      const transaction = await db.getTransaction(body.transactionId!);
+      const disputeId = paymentProcessor.openDispute(transaction?.processorTransactionId || body.transactionId!, body.reason);
+      return createResponse(201, { disputeId });
+    }
+
+    if (path.includes('/billing/simulator/subscriptions/renew')) {
+      const body = parseBody<{ subscriptionId: string }>(event);
+      validateRequired(body, ['subscriptionId']);
+      const subscription = await paymentProcessor.renewSubscription(body.subscriptionId!);
+      return createResponse(200, { subscription });
+    }
+
+    if (path.includes('/billing/simulator/webhooks/flush')) {
+      const delivered = await paymentProcessor.flushWebhooks();
+      return createResponse(200, { delivered });
+    }
+
+    return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
+  } catch (error) {
+    console.error('Error in payment simulator:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('No such')) {
+        return createErrorResponse(404, 'NOT_FOUND', error.message, requestId);
+      }
+      if (error.message.includes('Missing required fields') || error.message.startsWith('Simulator')) {
+        return createErrorResponse(400, 'SIMULATOR_ERROR', error.message, requestId);
+      }
+    }
+
+    return createErrorResponse(500, 'SIMULATOR_ERROR', 'Payment simulator request failed', requestId);
+  }
+}
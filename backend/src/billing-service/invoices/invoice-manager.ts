@@ -0,0 +1,369 @@
+/**
+ * @fileoverview Invoice lifecycle for platform charges.
+ *
+ * Every charge the platform initiates (subscription renewals and their usage
+ * overage, prorated plan upgrades, listing fees, listing promotions) is
+ * invoiced before it is charged, and the invoice total is the amount charged:
+ * 1. A draft is built from line items, taxed by the tax engine (see ../tax)
+ * 2. Finalizing assigns the next sequential invoice number and opens it
+ * 3. A successful charge marks it paid; a failed charge leaves it open
+ *
+ * Business Rules:
+ * - Invoice numbers are assigned on finalization, so drafts never consume one
+ * - Only drafts and open invoices can be voided; paid invoices are final
+ * - Tax is calculated on the subtotal after discounts, one line per jurisdiction
+ * - Amounts are in currency units, rounded to cents per line
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import {
+  BillingAccount,
+  Invoice,
+  InvoiceLineItem,
+  InvoiceStatus,
+  UsageMeter,
+} from '@harborlist/shared-types';
+import { db } from '../../shared/database';
+import { generateId } from '../../shared/utils';
+import { calculateTax } from '../tax/tax-calculator';
+import { createInvoice, getInvoice, nextInvoiceSequence, updateInvoice } from './invoice-store';
+
+/**
+ * Prefix of invoice numbers (e.g. HL-000042)
+ */
+export const INVOICE_NUMBER_PREFIX = process.env.INVOICE_NUMBER_PREFIX || 'HL';
+
+/**
+ * Days between issuing an invoice and its due date
+ */
+export const INVOICE_DUE_DAYS = 14;
+
+/**
+ * Allowed status changes
+ */
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['open', 'void'],
+  open: ['paid', 'void'],
+  paid: [],
+  void: [],
+};
+
+/**
+ * Request to create a draft invoice
+ */
+export interface CreateInvoiceRequest {
+  billingAccount: BillingAccount;
+  lineItems: InvoiceLineItem[];
+  subscriptionId?: string;
+  /** Deterministic ID for charges that may be retried; reissuing it returns the existing invoice */
+  invoiceId?: string;
+}
+
+/**
+ * Rounds an amount to cents
+ */
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Formats an invoice sequence number
+ *
+ * @param sequence - Sequence number from the invoice counter
+ * @param prefix - Invoice number prefix
+ */
+export function formatInvoiceNumber(sequence: number, prefix: string = INVOICE_NUMBER_PREFIX): string {
+  return `${prefix}-${String(sequence).padStart(6, '0')}`;
+}
+
+/**
+ * Whether an invoice may move from one status to another
+ */
+export function canTransitionInvoice(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Builds a subscription line item for one billing period
+ */
+export function subscriptionLineItem(
+  plan: string,
+  amount: number,
+  periodStart: number,
+  periodEnd: number
+): InvoiceLineItem {
+  return {
+    lineItemId: generateId(),
+    type: 'subscription',
+    description: `${formatPlanName(plan)} subscription`,
+    quantity: 1,
+    unitAmount: roundCurrency(amount),
+    amount: roundCurrency(amount),
+    periodStart,
+    periodEnd,
+  };
+}
+
+/**
+ * Builds a proration line item for a mid-cycle plan change
+ */
+export function prorationLineItem(
+  fromPlan: string,
+  toPlan: string,
+  amount: number,
+  daysRemaining: number
+): InvoiceLineItem {
+  return {
+    lineItemId: generateId(),
+    type: 'proration',
+    description: `Change from ${formatPlanName(fromPlan)} to ${formatPlanName(toPlan)} (${daysRemaining} days remaining)`,
+    quantity: 1,
+    unitAmount: roundCurrency(amount),
+    amount: roundCurrency(amount),
+  };
+}
+
+/**
+ * Builds a listing fee line item
+ */
+export function listingFeeLineItem(listingId: string, description: string, amount: number): InvoiceLineItem {
+  return {
+    lineItemId: generateId(),
+    type: 'listing_fee',
+    description,
+    quantity: 1,
+    unitAmount: roundCurrency(amount),
+    amount: roundCurrency(amount),
+    listingId,
+  };
+}
+
+/**
+ * Builds a usage overage line item for units used beyond a plan's quota
+ */
+export function usageOverageLineItem(
+  meter: UsageMeter,
+  label: string,
+  quantity: number,
+  unitAmount: number,
+  periodStart: number,
+  periodEnd: number
+): InvoiceLineItem {
+  return {
+    lineItemId: generateId(),
+    type: 'usage_overage',
+    description: `${label} over plan limit`,
+    quantity,
+    unitAmount: roundCurrency(unitAmount),
+    amount: roundCurrency(quantity * unitAmount),
+    periodStart,
+    periodEnd,
+    meter,
+  };
+}
+
+/**
+ * Builds a listing promotion line item for the days being charged
+ */
+export function promotionLineItem(
+  listingId: string,
+  description: string,
+  days: number,
+  dayPrice: number,
+  periodStart: number,
+  periodEnd: number
+): InvoiceLineItem {
+  return {
+    lineItemId: generateId(),
+    type: 'promotion',
+    description,
+    quantity: days,
+    unitAmount: roundCurrency(dayPrice),
+    amount: roundCurrency(days * dayPrice),
+    periodStart,
+    periodEnd,
+    listingId,
+  };
+}
+
+/**
+ * Builds a coupon discount line item (a negative amount)
+ */
+export function discountLineItem(couponCode: string, description: string, discount: number): InvoiceLineItem {
+  return {
+    lineItemId: generateId(),
+    type: 'discount',
+    description,
+    quantity: 1,
+    unitAmount: -roundCurrency(discount),
+    amount: -roundCurrency(discount),
+    couponCode,
+  };
+}
+
+/**
+ * Creates and stores a draft invoice
+ *
+ * @param request - Billing account and line items
+ * @returns Promise<Invoice> - The draft
+ */
+export async function createDraftInvoice(request: CreateInvoiceRequest): Promise<Invoice> {
+  const { billingAccount, lineItems } = request;
+  const user = await db.getUser(billingAccount.userId);
+
+  const now = Date.now();
+  const subtotal = roundCurrency(lineItems.reduce((sum, item) => sum + item.amount, 0));
+  const tax = await calculateTax({ billingAccount, amount: subtotal, date: now });
+  const taxTotal = roundCurrency(tax.taxTotal);
+  const total = roundCurrency(subtotal + taxTotal);
+
+  const invoice: Invoice = {
+    invoiceId: request.invoiceId || `inv_${generateId()}`,
+    userId: billingAccount.userId,
+    billingAccountId: billingAccount.billingId,
+    status: 'draft',
+    currency: billingAccount.currency || 'USD',
+    customer: {
+      name: user?.name || '',
+      email: user?.email || '',
+      address: billingAccount.billingAddress,
+      taxId: billingAccount.taxInfo?.taxId,
+      taxExempt: tax.exempt,
+    },
+    lineItems,
+    taxLines: tax.taxLines,
+    subtotal,
+    taxTotal,
+    taxExemptionCertificateId: tax.exemptionCertificateId,
+    total,
+    amountPaid: 0,
+    amountDue: total,
+    subscriptionId: request.subscriptionId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  if (!await createInvoice(invoice)) {
+    throw new Error(`Invoice ${invoice.invoiceId} already exists`);
+  }
+  return invoice;
+}
+
+/**
+ * Finalizes a draft: assigns its invoice number and opens it for payment
+ *
+ * @param invoiceId - Draft invoice ID
+ * @returns Promise<Invoice> - The open invoice
+ */
+export async function finalizeInvoice(invoiceId: string): Promise<Invoice> {
+  const invoice = await getInvoiceForTransition(invoiceId, 'open');
+  const now = Date.now();
+
+  const finalized = await updateInvoice(invoiceId, invoice.status, {
+    status: 'open',
+    invoiceNumber: formatInvoiceNumber(await nextInvoiceSequence()),
+    issuedAt: now,
+    dueDate: now + INVOICE_DUE_DAYS * 24 * 60 * 60 * 1000,
+    updatedAt: now,
+  });
+  if (!finalized) {
+    throw new Error(`Invoice ${invoiceId} changed while being finalized`);
+  }
+  return finalized;
+}
+
+/**
+ * Records full payment of an open invoice
+ *
+ * @param invoiceId - Open invoice ID
+ * @param transactionId - Transaction that paid it
+ * @returns Promise<Invoice> - The paid invoice
+ */
+export async function markInvoicePaid(invoiceId: string, transactionId: string): Promise<Invoice> {
+  const invoice = await getInvoiceForTransition(invoiceId, 'paid');
+  const now = Date.now();
+
+  const paid = await updateInvoice(invoiceId, invoice.status, {
+    status: 'paid',
+    amountPaid: invoice.total,
+    amountDue: 0,
+    transactionId,
+    paidAt: now,
+    updatedAt: now,
+  });
+  if (!paid) {
+    throw new Error(`Invoice ${invoiceId} changed while being paid`);
+  }
+  return paid;
+}
+
+/**
+ * Voids a draft or open invoice
+ *
+ * @param invoiceId - Invoice ID
+ * @param reason - Why the invoice was voided
+ * @returns Promise<Invoice> - The voided invoice
+ */
+export async function voidInvoice(invoiceId: string, reason: string): Promise<Invoice> {
+  const invoice = await getInvoiceForTransition(invoiceId, 'void');
+  const now = Date.now();
+
+  const voided = await updateInvoice(invoiceId, invoice.status, {
+    status: 'void',
+    amountDue: 0,
+    voidedAt: now,
+    voidReason: reason,
+    updatedAt: now,
+  });
+  if (!voided) {
+    throw new Error(`Invoice ${invoiceId} changed while being voided`);
+  }
+  return voided;
+}
+
+/**
+ * Creates and finalizes an invoice for a charge that is about to be made
+ *
+ * With a deterministic `invoiceId`, a retried charge gets the invoice issued by
+ * the first attempt (finalized if it was left as a draft) instead of a new one.
+ *
+ * @param request - Billing account and line items
+ * @returns Promise<Invoice> - The invoice; charge its `total` while it is open
+ */
+export async function issueInvoice(request: CreateInvoiceRequest): Promise<Invoice> {
+  if (request.invoiceId) {
+    const existing = await getInvoice(request.invoiceId);
+    if (existing) {
+      return existing.status === 'draft' ? finalizeInvoice(existing.invoiceId) : existing;
+    }
+  }
+
+  const draft = await createDraftInvoice(request);
+  return finalizeInvoice(draft.invoiceId);
+}
+
+/**
+ * Loads an invoice and checks it can move to a status
+ */
+async function getInvoiceForTransition(invoiceId: string, nextStatus: InvoiceStatus): Promise<Invoice> {
+  const invoice = await getInvoice(invoiceId);
+  if (!invoice) {
+    throw new Error(`Invoice not found: ${invoiceId}`);
+  }
+  if (!canTransitionInvoice(invoice.status, nextStatus)) {
+    throw new Error(`Invoice ${invoiceId} cannot change from ${invoice.status} to ${nextStatus}`);
+  }
+  return invoice;
+}
+
+/**
+ * Formats a plan ID for display (premium_dealer -> Premium Dealer)
+ */
+function formatPlanName(plan: string): string {
+  return plan
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
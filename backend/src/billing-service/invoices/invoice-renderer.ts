@@ -0,0 +1,322 @@
+/**
+ * @fileoverview Invoice documents.
+ *
+ * Renders an invoice as a standalone HTML page (for viewing and printing in
+ * the browser) and as a PDF (for download). Both show the same content:
+ * issuer, customer and billing address, invoice number and dates, line
+ * items, tax lines and totals.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { Invoice, InvoiceStatus } from '@harborlist/shared-types';
+import { createResponse } from '../../shared/utils';
+import { buildPdf, measureText, PdfPage, PAGE_HEIGHT, PAGE_WIDTH } from './pdf';
+
+/**
+ * Name shown as the invoice issuer
+ */
+export const INVOICE_ISSUER_NAME = process.env.INVOICE_ISSUER_NAME || 'HarborList Marketplace';
+
+/**
+ * Status labels shown on documents
+ */
+const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'DRAFT',
+  open: 'DUE',
+  paid: 'PAID',
+  void: 'VOID',
+};
+
+/**
+ * Formats an amount in the invoice currency
+ */
+export function formatInvoiceAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+}
+
+/**
+ * Formats a timestamp as a calendar date (UTC)
+ */
+export function formatInvoiceDate(timestamp: number | undefined): string {
+  if (!timestamp) {
+    return '';
+  }
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Title of an invoice document, also used as its download file name
+ */
+export function getInvoiceTitle(invoice: Invoice): string {
+  return `Invoice ${invoice.invoiceNumber || invoice.invoiceId}`;
+}
+
+/**
+ * Customer block lines: name, email, address, tax details
+ */
+function getCustomerLines(invoice: Invoice): string[] {
+  const { customer } = invoice;
+  const lines = [customer.name, customer.email];
+
+  if (customer.address) {
+    lines.push(customer.address.street);
+    lines.push(`${customer.address.city}, ${customer.address.state} ${customer.address.zipCode}`);
+    lines.push(customer.address.country);
+  }
+  if (customer.taxId) {
+    lines.push(`Tax ID: ${customer.taxId}`);
+  }
+  if (customer.taxExempt) {
+    lines.push('Tax exempt');
+  }
+
+  return lines.filter(Boolean);
+}
+
+/**
+ * Invoice detail lines: number, dates, status
+ */
+function getDetailLines(invoice: Invoice): Array<[string, string]> {
+  const details: Array<[string, string]> = [
+    ['Invoice number', invoice.invoiceNumber || 'Draft'],
+    ['Status', STATUS_LABELS[invoice.status]],
+  ];
+
+  if (invoice.issuedAt) details.push(['Issued', formatInvoiceDate(invoice.issuedAt)]);
+  if (invoice.dueDate && invoice.status === 'open') details.push(['Due', formatInvoiceDate(invoice.dueDate)]);
+  if (invoice.paidAt) details.push(['Paid', formatInvoiceDate(invoice.paidAt)]);
+  if (invoice.voidedAt) details.push(['Voided', formatInvoiceDate(invoice.voidedAt)]);
+
+  return details;
+}
+
+/**
+ * Line item description including its billing period
+ */
+function describeLineItem(item: Invoice['lineItems'][number]): string {
+  if (item.periodStart && item.periodEnd) {
+    return `${item.description} (${formatInvoiceDate(item.periodStart)} - ${formatInvoiceDate(item.periodEnd)})`;
+  }
+  return item.description;
+}
+
+/**
+ * Totals rows: subtotal, each tax line, total, paid, due
+ */
+function getTotalRows(invoice: Invoice): Array<[string, string]> {
+  const money = (amount: number) => formatInvoiceAmount(amount, invoice.currency);
+
+  return [
+    ['Subtotal', money(invoice.subtotal)],
+    ...invoice.taxLines.map((line): [string, string] => [`${line.description} ${line.rate}%`, money(line.amount)]),
+    ['Total', money(invoice.total)],
+    ['Amount paid', money(invoice.amountPaid)],
+    ['Amount due', money(invoice.amountDue)],
+  ];
+}
+
+/**
+ * Escapes text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders an invoice as a standalone HTML document
+ *
+ * @param invoice - Invoice to render
+ * @returns string - HTML page
+ */
+export function renderInvoiceHtml(invoice: Invoice): string {
+  const money = (amount: number) => escapeHtml(formatInvoiceAmount(amount, invoice.currency));
+  const title = escapeHtml(getInvoiceTitle(invoice));
+
+  const customer = getCustomerLines(invoice).map(line => `<div>${escapeHtml(line)}</div>`).join('');
+  const details = getDetailLines(invoice)
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('');
+  const items = invoice.lineItems
+    .map(item => `<tr><td>${escapeHtml(describeLineItem(item))}</td><td class="num">${item.quantity}</td>` +
+      `<td class="num">${money(item.unitAmount)}</td><td class="num">${money(item.amount)}</td></tr>`)
+    .join('');
+  const totals = getTotalRows(invoice)
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td class="num">${escapeHtml(value)}</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #1f2937; max-width: 760px; margin: 40px auto; padding: 0 24px; }
+  h1 { font-size: 28px; margin: 0; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 32px; }
+  .status { font-weight: bold; letter-spacing: 1px; padding: 4px 10px; border: 2px solid currentColor; border-radius: 4px; }
+  .status-paid { color: #047857; } .status-open { color: #b45309; } .status-void, .status-draft { color: #6b7280; }
+  .parties { display: flex; justify-content: space-between; margin-bottom: 32px; }
+  .label { font-size: 12px; text-transform: uppercase; color: #6b7280; margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-weight: 600; }
+  .details th, .details td { padding: 2px 0 2px 16px; font-size: 14px; }
+  .items { margin-bottom: 24px; }
+  .items th { border-bottom: 2px solid #d1d5db; padding: 8px 4px; font-size: 13px; }
+  .items td { border-bottom: 1px solid #e5e7eb; padding: 8px 4px; font-size: 14px; }
+  .totals { width: 320px; margin-left: auto; }
+  .totals th, .totals td { padding: 4px; font-size: 14px; }
+  .num { text-align: right; white-space: nowrap; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<div class="header">
+  <div><h1>Invoice</h1><div>${escapeHtml(INVOICE_ISSUER_NAME)}</div></div>
+  <div class="status status-${invoice.status}">${STATUS_LABELS[invoice.status]}</div>
+</div>
+<div class="parties">
+  <div><div class="label">Bill to</div>${customer}</div>
+  <table class="details" style="width:auto">${details}</table>
+</div>
+<table class="items">
+  <thead><tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr></thead>
+  <tbody>${items}</tbody>
+</table>
+<table class="totals">${totals}</table>
+${invoice.voidReason ? `<p>Voided: ${escapeHtml(invoice.voidReason)}</p>` : ''}
+</body>
+</html>`;
+}
+
+/**
+ * Renders an invoice as a PDF document
+ *
+ * Line items that do not fit on the first page continue on further pages.
+ *
+ * @param invoice - Invoice to render
+ * @returns string - PDF file (ASCII)
+ */
+export function renderInvoicePdf(invoice: Invoice): string {
+  const margin = 54;
+  const right = PAGE_WIDTH - margin;
+  const lineHeight = 16;
+  const money = (amount: number) => formatInvoiceAmount(amount, invoice.currency);
+
+  const pages: PdfPage[] = [];
+  let page: PdfPage = { texts: [], rules: [] };
+  let y = PAGE_HEIGHT - margin;
+
+  const text = (x: number, value: string, size = 10, bold = false) =>
+    page.texts.push({ x, y, text: value, size, bold });
+  const textRight = (x: number, value: string, size = 10, bold = false) =>
+    page.texts.push({ x: x - measureText(value, size), y, text: value, size, bold });
+  const rule = () => page.rules.push({ x1: margin, y1: y, x2: right, y2: y });
+  const newPageIfNeeded = (rows: number) => {
+    if (y - rows * lineHeight < margin) {
+      pages.push(page);
+      page = { texts: [], rules: [] };
+      y = PAGE_HEIGHT - margin;
+    }
+  };
+
+  // Header
+  text(margin, 'INVOICE', 22, true);
+  textRight(right, STATUS_LABELS[invoice.status], 14, true);
+  y -= 20;
+  text(margin, INVOICE_ISSUER_NAME, 11);
+  y -= 36;
+
+  // Customer (left) and invoice details (right)
+  const top = y;
+  text(margin, 'BILL TO', 8, true);
+  y -= 14;
+  for (const line of getCustomerLines(invoice)) {
+    text(margin, line);
+    y -= 14;
+  }
+  const customerBottom = y;
+
+  y = top;
+  for (const [label, value] of getDetailLines(invoice)) {
+    text(right - 220, label, 10, true);
+    textRight(right, value);
+    y -= 14;
+  }
+  y = Math.min(y, customerBottom) - 24;
+
+  // Line items
+  const quantityX = right - 190;
+  const unitX = right - 90;
+  text(margin, 'Description', 9, true);
+  textRight(quantityX, 'Qty', 9, true);
+  textRight(unitX, 'Unit price', 9, true);
+  textRight(right, 'Amount', 9, true);
+  y -= 6;
+  rule();
+  y -= lineHeight;
+
+  for (const item of invoice.lineItems) {
+    newPageIfNeeded(1);
+    text(margin, describeLineItem(item));
+    textRight(quantityX, String(item.quantity));
+    textRight(unitX, money(item.unitAmount));
+    textRight(right, money(item.amount));
+    y -= lineHeight;
+  }
+  y += lineHeight - 6;
+  rule();
+  y -= lineHeight + 4;
+
+  // Totals
+  const totalRows = getTotalRows(invoice);
+  newPageIfNeeded(totalRows.length);
+  for (const [label, value] of totalRows) {
+    const bold = label === 'Total' || label === 'Amount due';
+    text(right - 220, label, 10, bold);
+    textRight(right, value, 10, bold);
+    y -= lineHeight;
+  }
+
+  if (invoice.voidReason) {
+    y -= lineHeight;
+    newPageIfNeeded(1);
+    text(margin, `Voided: ${invoice.voidReason}`);
+  }
+
+  pages.push(page);
+  return buildPdf(pages, getInvoiceTitle(invoice));
+}
+
+/**
+ * Builds the API response for an invoice document
+ *
+ * HTML is returned inline for viewing; PDF is returned as an attachment.
+ *
+ * @param invoice - Invoice to render
+ * @param format - Document format
+ * @returns APIGatewayProxyResult - Response with the rendered document as its body
+ */
+export function createInvoiceDocumentResponse(invoice: Invoice, format: 'html' | 'pdf'): APIGatewayProxyResult {
+  const fileName = `${getInvoiceTitle(invoice).replace(/\s+/g, '-').toLowerCase()}.${format}`;
+  const response = createResponse(200, null, format === 'pdf'
+    ? { 'Content-Type': 'application/pdf', 'Content-Disposition': `attachment; filename="${fileName}"` }
+    : { 'Content-Type': 'text/html; charset=utf-8', 'Content-Disposition': `inline; filename="${fileName}"` });
+
+  return {
+    ...response,
+    body: format === 'pdf' ? renderInvoicePdf(invoice) : renderInvoiceHtml(invoice),
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Invoice storage.
+ *
+ * Invoices are stored one item per invoice. Status changes are conditional on
+ * the status the caller read, so two requests racing to pay and void the same
+ * invoice cannot both win. Invoice numbers come from an atomic counter item
+ * kept in the same table; the counter has no `userId` or `status`, so it never
+ * appears in the indexes.
+ *
+ * Indexes:
+ * - user-index: a customer's invoices, newest first
+ * - status-index: invoices by status, for the admin listing
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { Invoice, InvoiceStatus } from '@harborlist/shared-types';
+import { isConditionalCheckFailure } from '../../shared/utils';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const INVOICES_TABLE = process.env.INVOICES_TABLE || 'harborlist-invoices';
+
+/**
+ * Invoice indexes
+ */
+const USER_INDEX = 'user-index';
+const STATUS_INDEX = 'status-index';
+
+/**
+ * Key of the invoice number counter item
+ */
+const INVOICE_NUMBER_COUNTER_ID = 'counter#invoice-number';
+
+/**
+ * A page of invoices
+ */
+export interface InvoicePage {
+  invoices: Invoice[];
+  lastKey?: Record<string, any>;
+}
+
+/**
+ * Retrieves an invoice
+ *
+ * @param invoiceId - Invoice identifier
+ * @returns Promise<Invoice | null> - The invoice, or null when it does not exist
+ */
+export async function getInvoice(invoiceId: string): Promise<Invoice | null> {
+  if (invoiceId === INVOICE_NUMBER_COUNTER_ID) {
+    return null;
+  }
+
+  const result = await docClient.send(new GetCommand({
+    TableName: INVOICES_TABLE,
+    Key: { invoiceId },
+  }));
+
+  return (result.Item as Invoice) || null;
+}
+
+/**
+ * Stores a new invoice
+ *
+ * @param invoice - Invoice to create
+ * @returns Promise<boolean> - False when an invoice with the same ID already exists
+ */
+export async function createInvoice(invoice: Invoice): Promise<boolean> {
+  try {
+    await docClient.send(new PutCommand({
+      TableName: INVOICES_TABLE,
+      Item: invoice,
+      ConditionExpression: 'attribute_not_exists(invoiceId)',
+    }));
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Updates an invoice that is still in the status the caller read
+ *
+ * @param invoiceId - Invoice identifier
+ * @param expectedStatus - Status the invoice must still have
+ * @param changes - Fields to set
+ * @returns Promise<Invoice | null> - The updated invoice, or null when its status has changed
+ */
+export async function updateInvoice(
+  invoiceId: string,
+  expectedStatus: InvoiceStatus,
+  changes: Partial<Invoice>
+): Promise<Invoice | null> {
+  const entries = Object.entries(changes).filter(([key]) => key !== 'invoiceId');
+
+  try {
+    const result = await docClient.send(new UpdateCommand({
+      TableName: INVOICES_TABLE,
+      Key: { invoiceId },
+      UpdateExpression: `SET ${entries.map(([key]) => `#${key} = :${key}`).join(', ')}`,
+      ConditionExpression: '#currentStatus = :expectedStatus',
+      ExpressionAttributeNames: {
+        ...Object.fromEntries(entries.map(([key]) => [`#${key}`, key])),
+        '#currentStatus': 'status',
+      },
+      ExpressionAttributeValues: {
+        ...Object.fromEntries(entries.map(([key, value]) => [`:${key}`, value])),
+        ':expectedStatus': expectedStatus,
+      },
+      ReturnValues: 'ALL_NEW',
+    }));
+    return result.Attributes as Invoice;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reserves the next invoice sequence number
+ *
+ * @returns Promise<number> - The reserved number, starting at 1
+ */
+export async function nextInvoiceSequence(): Promise<number> {
+  const result = await docClient.send(new UpdateCommand({
+    TableName: INVOICES_TABLE,
+    Key: { invoiceId: INVOICE_NUMBER_COUNTER_ID },
+    UpdateExpression: 'ADD #sequence :one',
+    ExpressionAttributeNames: { '#sequence': 'sequence' },
+    ExpressionAttributeValues: { ':one': 1 },
+    ReturnValues: 'UPDATED_NEW',
+  }));
+
+  return result.Attributes!.sequence as number;
+}
+
+/**
+ * Lists a customer's invoices, newest first
+ *
+ * @param userId - Customer user ID
+ * @param limit - Maximum number of invoices to return
+ * @param lastKey - Pagination key from the previous page
+ * @returns Promise<InvoicePage> - Invoices and the key of the next page
+ */
+export async function listInvoicesByUser(
+  userId: string,
+  limit: number,
+  lastKey?: Record<string, any>
+): Promise<InvoicePage> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: INVOICES_TABLE,
+    IndexName: USER_INDEX,
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: { ':userId': userId },
+    ScanIndexForward: false,
+    Limit: limit,
+    ExclusiveStartKey: lastKey,
+  }));
+
+  return {
+    invoices: (result.Items || []) as Invoice[],
+    lastKey: result.LastEvaluatedKey,
+  };
+}
+
+/**
+ * Lists invoices for the admin view, newest first within a status
+ *
+ * Without a status the table is scanned, so results are unordered.
+ *
+ * @param status - Invoice status, or undefined for all invoices
+ * @param limit - Maximum number of invoices to return
+ * @param lastKey - Pagination key from the previous page
+ * @returns Promise<InvoicePage> - Invoices and the key of the next page
+ */
+export async function listInvoices(
+  status: InvoiceStatus | undefined,
+  limit: number,
+  lastKey?: Record<string, any>
+): Promise<InvoicePage> {
+  if (status) {
+    const result = await docClient.send(new QueryCommand({
+      TableName: INVOICES_TABLE,
+      IndexName: STATUS_INDEX,
+      KeyConditionExpression: '#status = :status',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':status': status },
+      ScanIndexForward: false,
+      Limit: limit,
+      ExclusiveStartKey: lastKey,
+    }));
+
+    return {
+      invoices: (result.Items || []) as Invoice[],
+      lastKey: result.LastEvaluatedKey,
+    };
+  }
+
+  const result = await docClient.send(new ScanCommand({
+    TableName: INVOICES_TABLE,
+    FilterExpression: 'attribute_exists(userId)',
+    Limit: limit,
+    ExclusiveStartKey: lastKey,
+  }));
+
+  return {
+    invoices: (result.Items || []) as Invoice[],
+    lastKey: result.LastEvaluatedKey,
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Unit tests for invoicing
+ *
+ * Tests invoice numbering, status transitions, taxed totals, and the HTML and
+ * PDF documents rendered for an invoice.
+ */
+
+import { BillingAccount, Invoice, InvoiceTaxLine } from '@harborlist/shared-types';
+import {
+  canTransitionInvoice,
+  createDraftInvoice,
+  finalizeInvoice,
+  formatInvoiceNumber,
+  issueInvoice,
+  listingFeeLineItem,
+  markInvoicePaid,
+  subscriptionLineItem,
+  voidInvoice,
+} from './invoice-manager';
+import { createInvoice, getInvoice, nextInvoiceSequence, updateInvoice } from './invoice-store';
+import { createInvoiceDocumentResponse, renderInvoiceHtml, renderInvoicePdf } from './invoice-renderer';
+import { db } from '../../shared/database';
+
+jest.mock('./invoice-store', () => ({
+  createInvoice: jest.fn(),
+  getInvoice: jest.fn(),
+  updateInvoice: jest.fn(),
+  nextInvoiceSequence: jest.fn(),
+}));
+
+jest.mock('../../shared/database', () => ({
+  db: {
+    getUser: jest.fn(),
+  },
+}));
+
+const mockCreateInvoice = createInvoice as jest.MockedFunction<typeof createInvoice>;
+const mockGetInvoice = getInvoice as jest.MockedFunction<typeof getInvoice>;
+const mockUpdateInvoice = updateInvoice as jest.MockedFunction<typeof updateInvoice>;
+const mockNextInvoiceSequence = nextInvoiceSequence as jest.MockedFunction<typeof nextInvoiceSequence>;
+const mockDb = db as jest.Mocked<typeof db>;
+
+const NOW = 1_700_000_000_000;
+
+const billingAccount: BillingAccount = {
+  billingId: 'billing-1',
+  userId: 'user-1',
+  plan: 'premium_individual',
+  amount: 29.99,
+  currency: 'USD',
+  status: 'active',
+  paymentHistory: [],
+  billingAddress: { street: '1 Harbor Way', city: 'Miami', state: 'FL', zipCode: '33101', country: 'US' },
+  taxInfo: { taxExempt: false },
+  createdAt: NOW,
+  updatedAt: NOW,
+};
+
+const taxLines: InvoiceTaxLine[] = [
+  { description: 'Florida state sales tax', jurisdiction: 'FL', jurisdictionType: 'state', rate: 6, taxableAmount: 29.99, amount: 1.8 },
+  { description: 'Miami-Dade County sales tax', jurisdiction: 'FL - Miami-Dade County', jurisdictionType: 'county', rate: 1, taxableAmount: 29.99, amount: 0.3 },
+];
+
+function createTestInvoice(overrides: Partial<Invoice> = {}): Invoice {
+  return {
+    invoiceId: 'inv-1',
+    invoiceNumber: 'HL-000042',
+    userId: 'user-1',
+    billingAccountId: 'billing-1',
+    status: 'open',
+    currency: 'USD',
+    customer: { name: 'Jane Sailor', email: 'jane@example.com', address: billingAccount.billingAddress, taxExempt: false },
+    lineItems: [subscriptionLineItem('premium_individual', 29.99, NOW, NOW + 30 * 24 * 60 * 60 * 1000)],
+    taxLines,
+    subtotal: 29.99,
+    taxTotal: 2.1,
+    total: 32.09,
+    amountPaid: 0,
+    amountDue: 32.09,
+    issuedAt: NOW,
+    dueDate: NOW + 14 * 24 * 60 * 60 * 1000,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('Invoices', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    mockCreateInvoice.mockResolvedValue(true);
+    mockUpdateInvoice.mockImplementation(async (invoiceId, _expectedStatus, changes) =>
+      ({ ...createTestInvoice({ invoiceId }), ...changes }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Numbering and transitions', () => {
+    test('should format zero-padded sequential numbers', () => {
+      expect(formatInvoiceNumber(42)).toBe('HL-000042');
+      expect(formatInvoiceNumber(1234567, 'INV')).toBe('INV-1234567');
+    });
+
+    test('should only allow forward transitions', () => {
+      expect(canTransitionInvoice('draft', 'open')).toBe(true);
+      expect(canTransitionInvoice('open', 'paid')).toBe(true);
+      expect(canTransitionInvoice('open', 'void')).toBe(true);
+      expect(canTransitionInvoice('paid', 'void')).toBe(false);
+      expect(canTransitionInvoice('void', 'open')).toBe(false);
+      expect(canTransitionInvoice('draft', 'paid')).toBe(false);
+    });
+  });
+
+  describe('Lifecycle', () => {
+    test('should create a draft with customer details, tax and totals', async () => {
+      mockDb.getUser.mockResolvedValue({ name: 'Jane Sailor', email: 'jane@example.com' } as any);
+
+      const invoice = await createDraftInvoice({
+        billingAccount,
+        lineItems: [
+          listingFeeLineItem('listing-1', 'Featured listing', 19.99),
+          listingFeeLineItem('listing-2', 'Featured listing', 10.01),
+        ],
+      });
+
+      expect(invoice).toEqual(expect.objectContaining({
+        status: 'draft',
+        userId: 'user-1',
+        billingAccountId: 'billing-1',
+        subtotal: 30,
+        taxTotal: 2.1,
+        total: 32.1,
+        amountDue: 32.1,
+        amountPaid: 0,
+        customer: expect.objectContaining({ name: 'Jane Sailor', email: 'jane@example.com', taxExempt: false }),
+      }));
+      expect(invoice.taxLines.map(line => line.jurisdiction)).toEqual(['FL', 'FL - Miami-Dade County']);
+      expect(invoice.invoiceNumber).toBeUndefined();
+      expect(mockCreateInvoice).toHaveBeenCalledWith(invoice);
+    });
+
+    test('should assign the next number and due date when finalizing', async () => {
+      mockGetInvoice.mockResolvedValue(createTestInvoice({ status: 'draft', invoiceNumber: undefined }));
+      mockNextInvoiceSequence.mockResolvedValue(43);
+
+      const invoice = await finalizeInvoice('inv-1');
+
+      expect(mockUpdateInvoice).toHaveBeenCalledWith('inv-1', 'draft', expect.objectContaining({
+        status: 'open',
+        invoiceNumber: 'HL-000043',
+        issuedAt: NOW,
+        dueDate: NOW + 14 * 24 * 60 * 60 * 1000,
+      }));
+      expect(invoice.invoiceNumber).toBe('HL-000043');
+    });
+
+    test('should issue a numbered open invoice in one step', async () => {
+      mockDb.getUser.mockResolvedValue(null);
+      mockNextInvoiceSequence.mockResolvedValue(1);
+      mockGetInvoice.mockImplementation(async () => mockCreateInvoice.mock.calls[0][0]);
+      mockUpdateInvoice.mockImplementation(async (_invoiceId, _expectedStatus, changes) =>
+        ({ ...mockCreateInvoice.mock.calls[0][0], ...changes }));
+
+      const invoice = await issueInvoice({ billingAccount, lineItems: [listingFeeLineItem('listing-1', 'Listing fee', 10)] });
+
+      expect(invoice).toEqual(expect.objectContaining({ status: 'open', invoiceNumber: 'HL-000001', total: 10.7 }));
+    });
+
+    test('should return the invoice already issued under a deterministic ID', async () => {
+      mockGetInvoice.mockResolvedValue(createTestInvoice({ invoiceId: 'inv_renewal_sub-1_1700000000000' }));
+
+      const invoice = await issueInvoice({
+        billingAccount,
+        invoiceId: 'inv_renewal_sub-1_1700000000000',
+        lineItems: [listingFeeLineItem('listing-1', 'Listing fee', 10)],
+      });
+
+      expect(invoice).toEqual(expect.objectContaining({ invoiceId: 'inv_renewal_sub-1_1700000000000', invoiceNumber: 'HL-000042' }));
+      expect(mockCreateInvoice).not.toHaveBeenCalled();
+      expect(mockUpdateInvoice).not.toHaveBeenCalled();
+    });
+
+    test('should record payment against an open invoice', async () => {
+      mockGetInvoice.mockResolvedValue(createTestInvoice());
+
+      await markInvoicePaid('inv-1', 'txn-1');
+
+      expect(mockUpdateInvoice).toHaveBeenCalledWith('inv-1', 'open', expect.objectContaining({
+        status: 'paid',
+        amountPaid: 32.09,
+        amountDue: 0,
+        transactionId: 'txn-1',
+        paidAt: NOW,
+      }));
+    });
+
+    test('should void open invoices but not paid ones', async () => {
+      mockGetInvoice.mockResolvedValueOnce(createTestInvoice());
+      await voidInvoice('inv-1', 'Payment failed');
+      expect(mockUpdateInvoice).toHaveBeenCalledWith('inv-1', 'open', expect.objectContaining({
+        status: 'void',
+        amountDue: 0,
+        voidReason: 'Payment failed',
+      }));
+
+      mockGetInvoice.mockResolvedValueOnce(createTestInvoice({ status: 'paid' }));
+      await expect(voidInvoice('inv-1', 'Too late')).rejects.toThrow('cannot change from paid to void');
+    });
+
+    test('should fail when the invoice changed concurrently', async () => {
+      mockGetInvoice.mockResolvedValue(createTestInvoice());
+      mockUpdateInvoice.mockResolvedValue(null);
+
+      await expect(markInvoicePaid('inv-1', 'txn-1')).rejects.toThrow('changed while being paid');
+    });
+  });
+
+  describe('Documents', () => {
+    test('should render escaped HTML with line items and totals', () => {
+      const html = renderInvoiceHtml(createTestInvoice({
+        customer: { name: '<script>alert(1)</script>', email: 'jane@example.com', taxExempt: false },
+      }));
+
+      expect(html).toContain('HL-000042');
+      expect(html).toContain('Premium Individual subscription');
+      expect(html).toContain('Florida state sales tax 6%');
+      expect(html).toContain('Miami-Dade County sales tax 1%');
+      expect(html).toContain('$32.09');
+      expect(html).toContain('&lt;script&gt;');
+      expect(html).not.toContain('<script>');
+    });
+
+    test('should render an ASCII PDF with a valid cross-reference table', () => {
+      const pdf = renderInvoicePdf(createTestInvoice({
+        customer: { name: 'Zoë (Captain)', email: 'zoe@example.com', taxExempt: false },
+      }));
+
+      expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(/^[\x00-\x7f]*$/.test(pdf)).toBe(true);
+      expect(pdf).toContain('(Zo? \\(Captain\\)) Tj');
+
+      const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      expect(pdf.slice(xrefOffset).startsWith('xref')).toBe(true);
+
+      const offsets = pdf.slice(xrefOffset).match(/^\d{10} 00000 n $/gm)!.map(entry => Number(entry.slice(0, 10)));
+      offsets.forEach((offset, index) => {
+        expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+    });
+
+    test('should continue long invoices on further pages', () => {
+      const lineItems = Array.from({ length: 80 }, (_, index) => listingFeeLineItem(`listing-${index}`, `Listing fee ${index}`, 1));
+      const pdf = renderInvoicePdf(createTestInvoice({ lineItems }));
+
+      expect(pdf).toMatch(/\/Count [2-9]/);
+    });
+
+    test('should return PDFs as attachments and HTML inline', () => {
+      const invoice = createTestInvoice();
+
+      const pdf = createInvoiceDocumentResponse(invoice, 'pdf');
+      expect(pdf.headers).toEqual(expect.objectContaining({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'attachment; filename="invoice-hl-000042.pdf"',
+      }));
+
+      const html = createInvoiceDocumentResponse(invoice, 'html');
+      expect(html.headers!['Content-Type']).toBe('text/html; charset=utf-8');
+      expect(html.body).toContain('<!DOCTYPE html>');
+    });
+  });
+});
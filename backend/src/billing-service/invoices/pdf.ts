@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Minimal PDF writer for generated documents.
+ *
+ * Writes PDF 1.4 files containing positioned text in the standard Helvetica
+ * fonts and straight rules: enough for invoices without a PDF library. The
+ * output is plain 7-bit ASCII (other characters are replaced with '?'), so
+ * it can be returned as a text body through API Gateway.
+ *
+ * Coordinates are in points from the bottom-left corner of the page.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+/**
+ * US Letter page size in points
+ */
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+/**
+ * Text drawn at a position
+ */
+export interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  bold?: boolean;
+}
+
+/**
+ * Straight line between two points
+ */
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Contents of one page
+ */
+export interface PdfPage {
+  texts: PdfText[];
+  rules: PdfRule[];
+}
+
+/**
+ * Helvetica advance widths (per 1000 units of font size) for the characters
+ * that appear in amounts and dates; other characters use an average width
+ */
+const HELVETICA_WIDTHS: Record<string, number> = {
+  ' ': 278, '$': 556, ',': 278, '.': 278, '-': 333, '%': 889, '(': 333, ')': 333, '/': 278, ':': 278,
+  '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556, '8': 556, '9': 556,
+};
+const HELVETICA_AVERAGE_WIDTH = 540;
+
+/**
+ * Approximate width of text in points, for right-aligning
+ *
+ * @param text - Text to measure
+ * @param size - Font size in points
+ */
+export function measureText(text: string, size: number): number {
+  let units = 0;
+  for (const char of text) {
+    units += HELVETICA_WIDTHS[char] ?? HELVETICA_AVERAGE_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * Escapes text for a PDF string literal, replacing non-ASCII characters
+ */
+export function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+/**
+ * Builds the content stream of a page
+ */
+function buildContentStream(page: PdfPage): string {
+  const operations: string[] = [];
+
+  if (page.rules.length > 0) {
+    operations.push('0.5 w');
+    for (const rule of page.rules) {
+      operations.push(`${rule.x1} ${rule.y1} m ${rule.x2} ${rule.y2} l S`);
+    }
+  }
+
+  for (const text of page.texts) {
+    const font = text.bold ? 'F2' : 'F1';
+    operations.push(`BT /${font} ${text.size} Tf ${text.x.toFixed(2)} ${text.y.toFixed(2)} Td (${escapePdfText(text.text)}) Tj ET`);
+  }
+
+  return operations.join('\n');
+}
+
+/**
+ * Serializes pages into a PDF document
+ *
+ * @param pages - Page contents
+ * @param title - Document title stored in the PDF metadata
+ * @returns string - The PDF file (ASCII)
+ */
+export function buildPdf(pages: PdfPage[], title: string): string {
+  // Objects 1-4 are fixed; each page adds a page object and a content stream
+  const objects: string[] = [];
+  const pageObjectIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((page, index) => {
+    const pageId = pageObjectIds[index];
+    const content = buildContentStream(page);
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  const infoId = objects.length;
+  objects[infoId] = `<< /Title (${escapePdfText(title)}) /Producer (HarborList) >>`;
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return output;
+}
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Billing job handlers for the durable job scheduler.
+ *
+ * Maps the billing job types to the subscription manager and payment
+ * failure handler:
+ * - Dunning steps and payment retries after a failed payment
+ * - Grace-period downgrades of past-due subscriptions
+ * - Subscription renewals on the billing date
+ * - SLA checks on customer refund requests and billing disputes
+ * - Ledger postings that failed when the money moved
+ *
+ * Every handler re-reads current state before acting, so a job that runs
+ * late or twice does nothing once its work is no longer needed.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { JobHandler } from '../jobs/scheduler';
+import { PaymentProcessor } from './payment-processors/stripe';
+import { getPrimaryPaymentProcessor } from './payment-processor-config';
+import { PaymentFailureHandler, DUNNING_STEP_JOB, PAYMENT_RETRY_JOB } from './payment-failure-handler';
+import { SubscriptionManager, SUBSCRIPTION_RENEWAL_JOB, GRACE_PERIOD_EXPIRY_JOB } from './subscription-manager';
+import { BILLING_CASE_SLA_JOB, checkBillingCaseSla } from './disputes/billing-cases';
+import { LEDGER_POSTING_JOB, retryTransactionPosting } from './ledger/ledger-manager';
+
+/**
+ * How long charging jobs wait before checking again for a payment processor
+ */
+export const PROCESSOR_UNAVAILABLE_RETRY_MS = 15 * 60 * 1000;
+
+/**
+ * Creates the billing job handlers
+ *
+ * Without a payment processor the jobs that need one are deferred, without
+ * using up attempts, until a processor is configured; billing case SLA checks
+ * and ledger postings still run.
+ *
+ * @param paymentProcessor - Processor used for retries and renewals (defaults to the primary processor)
+ * @returns Job handlers by job type
+ */
+export function createBillingJobHandlers(
+  paymentProcessor: PaymentProcessor | null = getPrimaryPaymentProcessor()
+): Record<string, JobHandler> {
+  const processorFreeHandlers: Record<string, JobHandler> = {
+    [BILLING_CASE_SLA_JOB]: payload =>
+      checkBillingCaseSla(payload.disputeId, payload.timer),
+    [LEDGER_POSTING_JOB]: payload =>
+      retryTransactionPosting(payload.transactionId),
+  };
+
+  if (!paymentProcessor) {
+    console.error('Payment processor initialization failed; billing jobs that charge will be deferred');
+    const unavailable: JobHandler = async () => ({
+      deferUntil: Date.now() + PROCESSOR_UNAVAILABLE_RETRY_MS,
+      reason: 'Payment processor initialization failed',
+    });
+    return {
+      [DUNNING_STEP_JOB]: unavailable,
+      [PAYMENT_RETRY_JOB]: unavailable,
+      [GRACE_PERIOD_EXPIRY_JOB]: unavailable,
+      [SUBSCRIPTION_RENEWAL_JOB]: unavailable,
+      ...processorFreeHandlers,
+    };
+  }
+
+  const subscriptionManager = new SubscriptionManager(paymentProcessor);
+  const paymentFailureHandler = new PaymentFailureHandler(paymentProcessor);
+
+  return {
+    [DUNNING_STEP_JOB]: payload =>
+      paymentFailureHandler.runDunningStep(payload.failureId, payload.stepId),
+    [PAYMENT_RETRY_JOB]: payload =>
+      paymentFailureHandler.runRetryAttempt(payload.failureId, payload.attemptNumber),
+    [GRACE_PERIOD_EXPIRY_JOB]: payload =>
+      subscriptionManager.expireGracePeriod(payload.billingId, payload.userId),
+    [SUBSCRIPTION_RENEWAL_JOB]: payload =>
+      subscriptionManager.renewSubscription(payload.billingId, payload.billingDate),
+    ...processorFreeHandlers,
+  };
+}
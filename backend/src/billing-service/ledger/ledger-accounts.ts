@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Chart of accounts for the platform ledger.
+ *
+ * Account codes follow the usual ranges: 1xxx assets, 2xxx liabilities,
+ * 3xxx equity, 4xxx revenue (4900 is contra revenue) and 5xxx expenses.
+ * Accounts are fixed in code so every posting and report agrees on them;
+ * add an account here before posting to it.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { LedgerAccount } from '@harborlist/shared-types';
+
+/**
+ * Codes of the accounts postings refer to
+ */
+export const LEDGER_ACCOUNT_CODES = {
+  PROCESSOR_CLEARING: '1000',
+  DISPUTED_FUNDS: '1100',
+  SALES_TAX_PAYABLE: '2000',
+  SELLER_PAYOUTS_PAYABLE: '2100',
+  COMMISSIONS_PAYABLE: '2200',
+  OWNER_EQUITY: '3000',
+  SUBSCRIPTION_REVENUE: '4000',
+  LISTING_FEE_REVENUE: '4100',
+  COMMISSION_REVENUE: '4200',
+  PROMOTION_REVENUE: '4300',
+  REFUNDS: '4900',
+  PROCESSING_FEES: '5000',
+  CHARGEBACK_LOSSES: '5100',
+  SALES_COMMISSIONS: '5200',
+} as const;
+
+/**
+ * The chart of accounts, in code order
+ */
+export const LEDGER_ACCOUNTS: LedgerAccount[] = [
+  {
+    code: '1000',
+    name: 'Payment processor clearing',
+    type: 'asset',
+    normalBalance: 'debit',
+    description: 'Funds held by the payment processor',
+  },
+  {
+    code: '1100',
+    name: 'Funds held in disputes',
+    type: 'asset',
+    normalBalance: 'debit',
+    description: 'Charges withdrawn by the processor while a dispute is open',
+  },
+  {
+    code: '2000',
+    name: 'Sales tax payable',
+    type: 'liability',
+    normalBalance: 'credit',
+  },
+  {
+    code: '2100',
+    name: 'Seller payouts payable',
+    type: 'liability',
+    normalBalance: 'credit',
+    description: 'Amounts owed to sellers and dealers',
+  },
+  {
+    code: '2200',
+    name: 'Commissions payable',
+    type: 'liability',
+    normalBalance: 'credit',
+    description: 'Approved commissions not yet paid out',
+  },
+  {
+    code: '3000',
+    name: "Owner's equity",
+    type: 'equity',
+    normalBalance: 'credit',
+  },
+  {
+    code: '4000',
+    name: 'Subscription revenue',
+    type: 'revenue',
+    normalBalance: 'credit',
+  },
+  {
+    code: '4100',
+    name: 'Listing fee revenue',
+    type: 'revenue',
+    normalBalance: 'credit',
+  },
+  {
+    code: '4200',
+    name: 'Commission revenue',
+    type: 'revenue',
+    normalBalance: 'credit',
+  },
+  {
+    code: '4300',
+    name: 'Promotion revenue',
+    type: 'revenue',
+    normalBalance: 'credit',
+    description: 'Featured and boosted listing placements',
+  },
+  {
+    code: '4900',
+    name: 'Refunds',
+    type: 'revenue',
+    normalBalance: 'debit',
+    description: 'Contra revenue: revenue returned to customers',
+  },
+  {
+    code: '5000',
+    name: 'Payment processing fees',
+    type: 'expense',
+    normalBalance: 'debit',
+  },
+  {
+    code: '5100',
+    name: 'Chargeback losses',
+    type: 'expense',
+    normalBalance: 'debit',
+  },
+  {
+    code: '5200',
+    name: 'Sales commissions',
+    type: 'expense',
+    normalBalance: 'debit',
+    description: 'Commissions earned by sales reps and dealers',
+  },
+];
+
+/**
+ * Looks up an account
+ *
+ * @param code - Account code
+ * @returns LedgerAccount | null - The account, or null when it is not in the chart
+ */
+export function getLedgerAccount(code: string): LedgerAccount | null {
+  return LEDGER_ACCOUNTS.find(account => account.code === code) || null;
+}
+
+/**
+ * Balance of an account on its normal side
+ *
+ * @param account - Ledger account
+ * @param balance - Signed balance, debits positive
+ * @returns number - Positive when the account has its normal balance
+ */
+export function toNormalBalance(account: LedgerAccount, balance: number): number {
+  return account.normalBalance === 'debit' ? balance : 0 - balance;
+}
@@ -0,0 +1,459 @@
+/**
+ * @fileoverview Posting to the double-entry ledger.
+ *
+ * Every movement of platform money posts a balanced journal entry:
+ * - Charges (subscriptions, listing fees, commissions): processor clearing
+ *   against revenue and sales tax payable, less processing fees
+ * - Refunds: refunds (contra revenue) and the reversed sales tax against clearing
+ * - Payouts: seller payouts payable (or commissions payable, for commission
+ *   payouts) against clearing
+ * - Commissions: sales commissions expense against commissions payable when
+ *   a payout batch is approved
+ * - Disputes: the disputed amount is held until the dispute is won (returned
+ *   to clearing) or lost (written off as a chargeback loss)
+ * - Adjustments: manual entries by finance staff
+ *
+ * Business Rules:
+ * - Debits must equal credits, and every line posts to an account in the chart
+ * - An entry's ID is derived from its source, so a source posts at most once
+ * - Entries are posted in the current month; closed months accept no entries
+ * - Months are closed in order, and only once they have ended
+ *
+ * Validation errors are thrown as `Error`s whose message starts with "Journal
+ * entry" or "Ledger period".
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { JournalEntry, JournalEntrySourceType, JournalLine, LedgerPeriod, Transaction } from '@harborlist/shared-types';
+import { db } from '../../shared/database';
+import { generateId } from '../../shared/utils';
+import { scheduleJob } from '../../jobs/scheduler';
+import { getLedgerAccount, LEDGER_ACCOUNT_CODES } from './ledger-accounts';
+import {
+  createJournalEntry,
+  ensureLedgerPeriod,
+  getJournalEntry,
+  getLedgerPeriod,
+  listJournalEntriesByPeriod,
+  listLedgerPeriods,
+  saveClosedLedgerPeriod,
+} from './ledger-store';
+import { applyJournalEntries, buildTrialBalance, getLedgerPeriodEnd, getLedgerPeriodKey, roundToCents } from './ledger-reports';
+
+/**
+ * Job that retries posting a transaction the ledger failed to record
+ */
+export const LEDGER_POSTING_JOB = 'billing.ledger_posting';
+
+/**
+ * Entry to post
+ */
+export interface JournalEntryRequest {
+  entryId: string;
+  description: string;
+  source: { type: JournalEntrySourceType; id: string };
+  lines: JournalLine[];
+  currency?: string;
+  userId?: string;
+  billingAccountId?: string;
+  postedBy?: string;
+}
+
+/**
+ * Validates journal lines
+ *
+ * @param lines - Lines of an entry
+ * @returns string | null - Error message or null if valid
+ */
+export function validateJournalLines(lines: JournalLine[]): string | null {
+  if (!Array.isArray(lines) || lines.length < 2) {
+    return 'Journal entry needs at least two lines';
+  }
+
+  for (const line of lines) {
+    if (!getLedgerAccount(line.accountCode)) {
+      return `Journal entry posts to an unknown account: ${line.accountCode}`;
+    }
+    const debit = Number(line.debit) || 0;
+    const credit = Number(line.credit) || 0;
+    if (debit < 0 || credit < 0 || !isFinite(debit) || !isFinite(credit)) {
+      return 'Journal entry amounts must be positive';
+    }
+    if ((debit > 0) === (credit > 0)) {
+      return 'Journal entry lines must be either a debit or a credit';
+    }
+  }
+
+  const totalDebits = roundToCents(lines.reduce((sum, line) => sum + (Number(line.debit) || 0), 0));
+  const totalCredits = roundToCents(lines.reduce((sum, line) => sum + (Number(line.credit) || 0), 0));
+  if (totalDebits !== totalCredits) {
+    return `Journal entry is not balanced: debits ${totalDebits.toFixed(2)}, credits ${totalCredits.toFixed(2)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Posts a journal entry in the current period
+ *
+ * @param request - Entry to post
+ * @returns Promise<JournalEntry | null> - The posted entry, or null when its source was already posted
+ * @throws Error - When the entry is invalid or the period is closed
+ */
+export async function postJournalEntry(request: JournalEntryRequest): Promise<JournalEntry | null> {
+  const lines = request.lines.map(line => ({
+    accountCode: line.accountCode,
+    debit: roundToCents(Number(line.debit) || 0),
+    credit: roundToCents(Number(line.credit) || 0),
+    ...(line.memo && { memo: line.memo }),
+  }));
+
+  const error = validateJournalLines(lines);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const postedAt = new Date().toISOString();
+  const period = getLedgerPeriodKey(postedAt);
+  const ledgerPeriod = await getLedgerPeriod(period);
+  if (ledgerPeriod?.status === 'closed') {
+    throw new Error(`Ledger period ${period} is closed`);
+  }
+  if (!ledgerPeriod) {
+    await ensureLedgerPeriod(period);
+  }
+
+  const entry: JournalEntry = {
+    entryId: request.entryId,
+    period,
+    postedAt,
+    description: request.description,
+    source: request.source,
+    lines,
+    currency: request.currency || 'USD',
+    userId: request.userId,
+    billingAccountId: request.billingAccountId,
+    postedBy: request.postedBy,
+  };
+
+  const created = await createJournalEntry(entry);
+  return created ? entry : null;
+}
+
+/**
+ * Revenue account a charge is credited to
+ *
+ * Promotions are payments recording the promotion they bought; listing fees are
+ * other payments tied to a listing; other payments are subscription charges.
+ */
+function getRevenueAccount(transaction: Transaction): string {
+  if (transaction.type === 'commission') {
+    return LEDGER_ACCOUNT_CODES.COMMISSION_REVENUE;
+  }
+  if (transaction.type === 'payment' && transaction.metadata?.promotionId) {
+    return LEDGER_ACCOUNT_CODES.PROMOTION_REVENUE;
+  }
+  if (transaction.type === 'payment' && transaction.listingId) {
+    return LEDGER_ACCOUNT_CODES.LISTING_FEE_REVENUE;
+  }
+  return LEDGER_ACCOUNT_CODES.SUBSCRIPTION_REVENUE;
+}
+
+/**
+ * Journal lines recording a completed transaction
+ *
+ * @param transaction - Completed transaction
+ * @returns JournalLine[] | null - Balanced lines, or null when the transaction moves no money
+ */
+export function buildTransactionLines(transaction: Transaction): JournalLine[] | null {
+  const amount = roundToCents(transaction.amount);
+  if (transaction.status !== 'completed' || !(amount > 0)) {
+    return null;
+  }
+
+  const tax = roundToCents(Math.abs(transaction.taxAmount || 0));
+  const fees = roundToCents(transaction.fees || 0);
+  const { PROCESSOR_CLEARING, SALES_TAX_PAYABLE, SELLER_PAYOUTS_PAYABLE, COMMISSIONS_PAYABLE, REFUNDS, PROCESSING_FEES } = LEDGER_ACCOUNT_CODES;
+  const lines: JournalLine[] = [];
+
+  switch (transaction.type) {
+    case 'refund':
+      lines.push({ accountCode: REFUNDS, debit: roundToCents(amount - tax), credit: 0 });
+      lines.push({ accountCode: SALES_TAX_PAYABLE, debit: tax, credit: 0 });
+      lines.push({ accountCode: PROCESSOR_CLEARING, debit: 0, credit: amount });
+      break;
+
+    case 'payout':
+      lines.push({
+        accountCode: transaction.metadata?.commissionStatementId ? COMMISSIONS_PAYABLE : SELLER_PAYOUTS_PAYABLE,
+        debit: amount,
+        credit: 0,
+      });
+      lines.push({ accountCode: PROCESSOR_CLEARING, debit: 0, credit: amount });
+      break;
+
+    default:
+      lines.push({ accountCode: PROCESSOR_CLEARING, debit: amount, credit: 0 });
+      lines.push({ accountCode: getRevenueAccount(transaction), debit: 0, credit: roundToCents(amount - tax) });
+      lines.push({ accountCode: SALES_TAX_PAYABLE, debit: 0, credit: tax });
+  }
+
+  if (fees > 0) {
+    lines.push({ accountCode: PROCESSING_FEES, debit: fees, credit: 0, memo: 'Processor fee' });
+    lines.push({ accountCode: PROCESSOR_CLEARING, debit: 0, credit: fees, memo: 'Processor fee' });
+  }
+
+  return lines.filter(line => line.debit > 0 || line.credit > 0);
+}
+
+/**
+ * Posts a completed transaction
+ *
+ * @param transaction - Transaction to record
+ * @returns Promise<JournalEntry | null> - The entry, or null when nothing was posted
+ */
+export async function postTransaction(transaction: Transaction): Promise<JournalEntry | null> {
+  const lines = buildTransactionLines(transaction);
+  if (!lines) {
+    return null;
+  }
+
+  return postJournalEntry({
+    entryId: `txn_${transaction.transactionId}`,
+    description: transaction.description || `${transaction.type} ${transaction.transactionId}`,
+    source: { type: 'transaction', id: transaction.transactionId },
+    lines,
+    currency: transaction.currency,
+    userId: transaction.userId,
+    billingAccountId: transaction.billingAccountId,
+  });
+}
+
+/**
+ * Posts a completed transaction without failing the caller
+ *
+ * The money has already moved when this is called, so a ledger failure is
+ * not thrown: the posting is queued as a job and retried with backoff.
+ * reconcileLedger still posts anything the job could not.
+ *
+ * @param transaction - Transaction to record (already saved)
+ */
+export async function recordTransactionInLedger(transaction: Transaction): Promise<void> {
+  try {
+    await postTransaction(transaction);
+  } catch (error) {
+    console.error(`Error posting transaction ${transaction.transactionId} to the ledger:`, error);
+    try {
+      await scheduleJob({
+        type: LEDGER_POSTING_JOB,
+        jobId: `ledger-posting:${transaction.transactionId}`,
+        runAt: Date.now(),
+        payload: { transactionId: transaction.transactionId },
+      });
+    } catch (scheduleError) {
+      console.error(`Error queueing ledger posting for transaction ${transaction.transactionId}:`, scheduleError);
+    }
+  }
+}
+
+/**
+ * Retries posting a transaction, for the ledger posting job
+ *
+ * Throws while the posting still fails so the job is retried, and does
+ * nothing once the transaction has been posted.
+ *
+ * @param transactionId - Transaction to post
+ */
+export async function retryTransactionPosting(transactionId: string): Promise<void> {
+  const transaction = await db.getTransaction(transactionId);
+  if (!transaction) {
+    throw new Error(`Transaction ${transactionId} not found`);
+  }
+  await postTransaction(transaction);
+}
+
+/**
+ * Posts the funds a processor withdrew for a dispute
+ *
+ * @param transactionId - Disputed transaction
+ * @param amount - Disputed amount
+ * @param currency - Currency
+ * @returns Promise<JournalEntry | null> - The entry, or null when already posted
+ */
+export async function postDisputeOpened(transactionId: string, amount: number, currency: string = 'USD'): Promise<JournalEntry | null> {
+  return postJournalEntry({
+    entryId: `dispute_${transactionId}_opened`,
+    description: `Dispute opened for transaction ${transactionId}`,
+    source: { type: 'dispute_opened', id: transactionId },
+    lines: [
+      { accountCode: LEDGER_ACCOUNT_CODES.DISPUTED_FUNDS, debit: amount, credit: 0 },
+      { accountCode: LEDGER_ACCOUNT_CODES.PROCESSOR_CLEARING, debit: 0, credit: amount },
+    ],
+    currency,
+  });
+}
+
+/**
+ * Posts the outcome of a dispute
+ *
+ * Only disputes whose opening was posted are closed: releasing funds that
+ * were never held would leave disputed funds with an unbalanced credit.
+ *
+ * @param transactionId - Disputed transaction
+ * @param amount - Disputed amount
+ * @param outcome - Won returns the funds; lost writes them off
+ * @param currency - Currency
+ * @returns Promise<JournalEntry | null> - The entry, or null when already posted or never opened
+ */
+export async function postDisputeClosed(
+  transactionId: string,
+  amount: number,
+  outcome: 'won' | 'lost',
+  currency: string = 'USD'
+): Promise<JournalEntry | null> {
+  if (!await getJournalEntry(`dispute_${transactionId}_opened`)) {
+    return null;
+  }
+
+  return postJournalEntry({
+    entryId: `dispute_${transactionId}_closed`,
+    description: `Dispute ${outcome} for transaction ${transactionId}`,
+    source: { type: 'dispute_closed', id: transactionId },
+    lines: [
+      {
+        accountCode: outcome === 'won' ? LEDGER_ACCOUNT_CODES.PROCESSOR_CLEARING : LEDGER_ACCOUNT_CODES.CHARGEBACK_LOSSES,
+        debit: amount,
+        credit: 0,
+      },
+      { accountCode: LEDGER_ACCOUNT_CODES.DISPUTED_FUNDS, debit: 0, credit: amount },
+    ],
+    currency,
+  });
+}
+
+/**
+ * Posts the commission owed on an approved statement
+ *
+ * @param statementId - Commission statement
+ * @param amount - Commission owed
+ * @param payeeId - Sales rep or dealer owed the commission
+ * @param currency - Currency
+ * @returns Promise<JournalEntry | null> - The entry, or null when already posted
+ */
+export async function postCommissionAccrual(
+  statementId: string,
+  amount: number,
+  payeeId: string,
+  currency: string = 'USD'
+): Promise<JournalEntry | null> {
+  return postJournalEntry({
+    entryId: `commission_${statementId}`,
+    description: `Commission statement ${statementId} approved`,
+    source: { type: 'commission_accrual', id: statementId },
+    lines: [
+      { accountCode: LEDGER_ACCOUNT_CODES.SALES_COMMISSIONS, debit: amount, credit: 0 },
+      { accountCode: LEDGER_ACCOUNT_CODES.COMMISSIONS_PAYABLE, debit: 0, credit: amount },
+    ],
+    currency,
+    userId: payeeId,
+  });
+}
+
+/**
+ * Posts a manual adjustment
+ *
+ * @param description - Why the adjustment is made
+ * @param lines - Balanced lines
+ * @param postedBy - Staff member posting it
+ * @returns Promise<JournalEntry> - The posted entry
+ * @throws Error - When the entry is invalid or the period is closed
+ */
+export async function postAdjustment(description: string, lines: JournalLine[], postedBy: string): Promise<JournalEntry> {
+  if (!description || !description.trim()) {
+    throw new Error('Journal entry description is required');
+  }
+
+  const entryId = `adj_${generateId()}`;
+  const entry = await postJournalEntry({
+    entryId,
+    description: description.trim(),
+    source: { type: 'adjustment', id: entryId },
+    lines,
+    postedBy,
+  });
+  return entry!;
+}
+
+/**
+ * Posts every completed transaction in a range that is missing from the ledger
+ *
+ * @param startDate - Range start (ISO timestamp)
+ * @param endDate - Range end (ISO timestamp)
+ * @returns Promise<{ checked: number; posted: number }> - Transactions checked and newly posted
+ */
+export async function reconcileLedger(startDate: string, endDate: string): Promise<{ checked: number; posted: number }> {
+  const transactions = await db.getCompletedTransactionsInRange(startDate, endDate);
+  let posted = 0;
+
+  for (const transaction of transactions) {
+    if (await postTransaction(transaction)) {
+      posted += 1;
+    }
+  }
+
+  return { checked: transactions.length, posted };
+}
+
+/**
+ * Closes a month, locking it and recording its closing balances
+ *
+ * @param period - Month to close (YYYY-MM)
+ * @param closedBy - Staff member closing it
+ * @returns Promise<LedgerPeriod> - The closed period
+ * @throws Error - When the month has not ended, an earlier month is open,
+ *                 it is already closed or the ledger is out of balance
+ */
+export async function closeLedgerPeriod(period: string, closedBy: string): Promise<LedgerPeriod> {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+    throw new Error('Ledger period must be YYYY-MM');
+  }
+  if (period >= getLedgerPeriodKey(new Date())) {
+    throw new Error(`Ledger period ${period} has not ended`);
+  }
+
+  const periods = await listLedgerPeriods();
+  const existing = periods.find(p => p.period === period);
+  if (existing?.status === 'closed') {
+    throw new Error(`Ledger period ${period} is already closed`);
+  }
+  const earlierOpen = periods.find(p => p.period < period && p.status !== 'closed');
+  if (earlierOpen) {
+    throw new Error(`Ledger period ${earlierOpen.period} must be closed first`);
+  }
+
+  const previous = periods.filter(p => p.period < period).pop();
+  const entries = await listJournalEntriesByPeriod(period);
+  const closingBalances = applyJournalEntries({ ...(previous?.closingBalances || {}) }, entries);
+
+  const trialBalance = buildTrialBalance(closingBalances, getLedgerPeriodEnd(period));
+  if (!trialBalance.balanced) {
+    throw new Error(`Ledger period ${period} is out of balance: debits ${trialBalance.totalDebits.toFixed(2)}, credits ${trialBalance.totalCredits.toFixed(2)}`);
+  }
+
+  const closed: LedgerPeriod = {
+    period,
+    status: 'closed',
+    entryCount: entries.length,
+    closingBalances,
+    closedAt: Date.now(),
+    closedBy,
+    createdAt: existing?.createdAt || Date.now(),
+  };
+
+  if (!(await saveClosedLedgerPeriod(closed))) {
+    throw new Error(`Ledger period ${period} is already closed`);
+  }
+  return closed;
+}
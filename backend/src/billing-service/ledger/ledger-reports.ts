@@ -0,0 +1,361 @@
+/**
+ * @fileoverview Ledger balances and reports.
+ *
+ * Balances are rebuilt from journal entries: the closing balances of the
+ * latest closed period, plus every entry posted since. Balances are signed
+ * with debits positive; reports show them on each account's normal side.
+ *
+ * Reports:
+ * - Trial balance: every account's balance at a point in time
+ * - Account statement: opening balance, entries and running balance of one account
+ * - Ledger summary: revenue, refunds, fees and liabilities for a date range
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { JournalEntry, LedgerAccountType } from '@harborlist/shared-types';
+import { getLedgerAccount, LEDGER_ACCOUNT_CODES, LEDGER_ACCOUNTS, toNormalBalance } from './ledger-accounts';
+import { listJournalEntriesByPeriod, listLedgerPeriods } from './ledger-store';
+
+/**
+ * One account on the trial balance
+ */
+export interface TrialBalanceRow {
+  accountCode: string;
+  accountName: string;
+  accountType: LedgerAccountType;
+  debit: number;
+  credit: number;
+}
+
+/**
+ * Trial balance
+ */
+export interface TrialBalance {
+  asOf: string;
+  rows: TrialBalanceRow[];
+  totalDebits: number;
+  totalCredits: number;
+  balanced: boolean;
+}
+
+/**
+ * One entry on an account statement
+ */
+export interface AccountStatementLine {
+  entryId: string;
+  postedAt: string;
+  description: string;
+  sourceType: JournalEntry['source']['type'];
+  sourceId: string;
+  debit: number;
+  credit: number;
+  balance: number; // running balance on the account's normal side
+  memo?: string;
+}
+
+/**
+ * Account statement
+ */
+export interface AccountStatement {
+  accountCode: string;
+  accountName: string;
+  normalBalance: 'debit' | 'credit';
+  startDate: string;
+  endDate: string;
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  lines: AccountStatementLine[];
+}
+
+/**
+ * Ledger totals for a date range
+ */
+export interface LedgerSummary {
+  grossRevenue: number; // subscription, listing fee and commission revenue
+  commissionRevenue: number;
+  refunds: number;
+  processingFees: number;
+  chargebackLosses: number;
+  netRevenue: number; // gross revenue less refunds, fees and chargeback losses
+  salesTaxCollected: number;
+  pendingPayouts: number; // seller payouts and commissions owed at the end of the range
+  chargeCount: number;
+  refundCount: number;
+  disputeCount: number;
+}
+
+/**
+ * Rounds an amount to cents
+ */
+export function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Ledger period (month) a time falls in
+ *
+ * @param date - ISO timestamp or Date
+ * @returns string - YYYY-MM (UTC)
+ */
+export function getLedgerPeriodKey(date: string | Date): string {
+  return new Date(date).toISOString().slice(0, 7);
+}
+
+/**
+ * Last moment of a ledger period
+ *
+ * @param period - YYYY-MM
+ * @returns string - ISO timestamp
+ */
+export function getLedgerPeriodEnd(period: string): string {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 1) - 1).toISOString();
+}
+
+/**
+ * Adds entries to signed balances (debits positive)
+ *
+ * @param balances - Balances by account code, updated in place
+ * @param entries - Entries to apply
+ * @returns Record<string, number> - The updated balances
+ */
+export function applyJournalEntries(balances: Record<string, number>, entries: JournalEntry[]): Record<string, number> {
+  entries.forEach(entry => {
+    entry.lines.forEach(line => {
+      balances[line.accountCode] = roundToCents((balances[line.accountCode] || 0) + line.debit - line.credit);
+    });
+  });
+  return balances;
+}
+
+/**
+ * Entries posted in a date range, oldest first
+ *
+ * @param startDate - Range start (ISO timestamp)
+ * @param endDate - Range end (ISO timestamp)
+ */
+export async function listJournalEntries(startDate: string, endDate: string): Promise<JournalEntry[]> {
+  const start = new Date(startDate).toISOString();
+  const end = new Date(endDate).toISOString();
+  const periods = (await listLedgerPeriods())
+    .filter(period => period.period >= getLedgerPeriodKey(start) && period.period <= getLedgerPeriodKey(end));
+
+  const entries: JournalEntry[] = [];
+  for (const period of periods) {
+    const periodEntries = await listJournalEntriesByPeriod(period.period);
+    entries.push(...periodEntries.filter(entry => entry.postedAt >= start && entry.postedAt <= end));
+  }
+
+  return entries.sort((a, b) => a.postedAt.localeCompare(b.postedAt) || a.entryId.localeCompare(b.entryId));
+}
+
+/**
+ * Signed balance of every account at a point in time
+ *
+ * @param asOf - ISO timestamp
+ * @returns Promise<Record<string, number>> - Balances by account code, debits positive
+ */
+export async function getAccountBalances(asOf: string): Promise<Record<string, number>> {
+  const end = new Date(asOf).toISOString();
+  const asOfPeriod = getLedgerPeriodKey(end);
+  const periods = await listLedgerPeriods();
+
+  // Periods are closed in order, so the latest closed one carries everything before it
+  const lastClosed = periods.filter(period => period.status === 'closed' && period.period < asOfPeriod).pop();
+  const balances: Record<string, number> = { ...(lastClosed?.closingBalances || {}) };
+
+  const openPeriods = periods.filter(period => period.period > (lastClosed?.period || '') && period.period <= asOfPeriod);
+  for (const period of openPeriods) {
+    const entries = await listJournalEntriesByPeriod(period.period);
+    applyJournalEntries(balances, entries.filter(entry => entry.postedAt <= end));
+  }
+
+  return balances;
+}
+
+/**
+ * Builds a trial balance from signed balances
+ *
+ * @param balances - Balances by account code, debits positive
+ * @param asOf - Time the balances are for
+ * @returns TrialBalance - Every account in the chart, with totals
+ */
+export function buildTrialBalance(balances: Record<string, number>, asOf: string): TrialBalance {
+  const rows: TrialBalanceRow[] = LEDGER_ACCOUNTS.map(account => {
+    const balance = balances[account.code] || 0;
+    return {
+      accountCode: account.code,
+      accountName: account.name,
+      accountType: account.type,
+      debit: balance > 0 ? balance : 0,
+      credit: balance < 0 ? -balance : 0,
+    };
+  });
+
+  const totalDebits = roundToCents(rows.reduce((sum, row) => sum + row.debit, 0));
+  const totalCredits = roundToCents(rows.reduce((sum, row) => sum + row.credit, 0));
+
+  return {
+    asOf,
+    rows,
+    totalDebits,
+    totalCredits,
+    balanced: totalDebits === totalCredits,
+  };
+}
+
+/**
+ * Generates the trial balance at a point in time
+ *
+ * @param asOf - ISO timestamp
+ * @returns Promise<TrialBalance> - The trial balance
+ */
+export async function getTrialBalance(asOf: string): Promise<TrialBalance> {
+  const balances = await getAccountBalances(asOf);
+  return buildTrialBalance(balances, new Date(asOf).toISOString());
+}
+
+/**
+ * Builds an account statement
+ *
+ * @param accountCode - Account to report on
+ * @param openingBalance - Signed balance before the range, debits positive
+ * @param entries - Entries posted in the range, oldest first
+ * @param startDate - Range start
+ * @param endDate - Range end
+ * @returns AccountStatement - The statement
+ * @throws Error - When the account is not in the chart
+ */
+export function buildAccountStatement(
+  accountCode: string,
+  openingBalance: number,
+  entries: JournalEntry[],
+  startDate: string,
+  endDate: string
+): AccountStatement {
+  const account = getLedgerAccount(accountCode);
+  if (!account) {
+    throw new Error('Ledger account not found');
+  }
+
+  let balance = openingBalance;
+  let totalDebits = 0;
+  let totalCredits = 0;
+  const lines: AccountStatementLine[] = [];
+
+  entries.forEach(entry => {
+    entry.lines
+      .filter(line => line.accountCode === accountCode)
+      .forEach(line => {
+        balance = roundToCents(balance + line.debit - line.credit);
+        totalDebits = roundToCents(totalDebits + line.debit);
+        totalCredits = roundToCents(totalCredits + line.credit);
+        lines.push({
+          entryId: entry.entryId,
+          postedAt: entry.postedAt,
+          description: entry.description,
+          sourceType: entry.source.type,
+          sourceId: entry.source.id,
+          debit: line.debit,
+          credit: line.credit,
+          balance: toNormalBalance(account, balance),
+          memo: line.memo,
+        });
+      });
+  });
+
+  return {
+    accountCode,
+    accountName: account.name,
+    normalBalance: account.normalBalance,
+    startDate,
+    endDate,
+    openingBalance: toNormalBalance(account, openingBalance),
+    totalDebits,
+    totalCredits,
+    closingBalance: toNormalBalance(account, balance),
+    lines,
+  };
+}
+
+/**
+ * Generates an account statement for a date range
+ *
+ * @param accountCode - Account to report on
+ * @param startDate - Range start (ISO timestamp)
+ * @param endDate - Range end (ISO timestamp)
+ * @returns Promise<AccountStatement> - The statement
+ * @throws Error - When the account is not in the chart
+ */
+export async function getAccountStatement(accountCode: string, startDate: string, endDate: string): Promise<AccountStatement> {
+  if (!getLedgerAccount(accountCode)) {
+    throw new Error('Ledger account not found');
+  }
+
+  const openingBalances = await getAccountBalances(new Date(new Date(startDate).getTime() - 1).toISOString());
+  const entries = await listJournalEntries(startDate, endDate);
+  return buildAccountStatement(accountCode, openingBalances[accountCode] || 0, entries, startDate, endDate);
+}
+
+/**
+ * Totals ledger activity for a date range
+ *
+ * @param entries - Entries posted in the range
+ * @param closingBalances - Signed balances at the end of the range
+ * @returns LedgerSummary - Revenue, refunds, fees and liabilities
+ */
+export function summarizeLedger(entries: JournalEntry[], closingBalances: Record<string, number>): LedgerSummary {
+  const activity = applyJournalEntries({}, entries);
+  // Revenue accounts have credit balances, so their activity is negated
+  const credited = (code: string) => roundToCents(0 - (activity[code] || 0));
+  const debited = (code: string) => roundToCents(activity[code] || 0);
+
+  const commissionRevenue = credited(LEDGER_ACCOUNT_CODES.COMMISSION_REVENUE);
+  const grossRevenue = roundToCents(
+    credited(LEDGER_ACCOUNT_CODES.SUBSCRIPTION_REVENUE) +
+    credited(LEDGER_ACCOUNT_CODES.LISTING_FEE_REVENUE) +
+    credited(LEDGER_ACCOUNT_CODES.PROMOTION_REVENUE) +
+    commissionRevenue
+  );
+  const refunds = debited(LEDGER_ACCOUNT_CODES.REFUNDS);
+  const processingFees = debited(LEDGER_ACCOUNT_CODES.PROCESSING_FEES);
+  const chargebackLosses = debited(LEDGER_ACCOUNT_CODES.CHARGEBACK_LOSSES);
+
+  const transactionEntries = entries.filter(entry => entry.source.type === 'transaction');
+  const debits = (entry: JournalEntry, code: string) =>
+    entry.lines.some(line => line.accountCode === code && line.debit > 0);
+
+  return {
+    grossRevenue,
+    commissionRevenue,
+    refunds,
+    processingFees,
+    chargebackLosses,
+    netRevenue: roundToCents(grossRevenue - refunds - processingFees - chargebackLosses),
+    salesTaxCollected: credited(LEDGER_ACCOUNT_CODES.SALES_TAX_PAYABLE),
+    pendingPayouts: roundToCents(0 - (
+      (closingBalances[LEDGER_ACCOUNT_CODES.SELLER_PAYOUTS_PAYABLE] || 0) +
+      (closingBalances[LEDGER_ACCOUNT_CODES.COMMISSIONS_PAYABLE] || 0)
+    )),
+    chargeCount: transactionEntries.filter(entry => debits(entry, LEDGER_ACCOUNT_CODES.PROCESSOR_CLEARING)).length,
+    refundCount: transactionEntries.filter(entry => debits(entry, LEDGER_ACCOUNT_CODES.REFUNDS)).length,
+    disputeCount: entries.filter(entry => entry.source.type === 'dispute_opened').length,
+  };
+}
+
+/**
+ * Generates the ledger summary for a date range
+ *
+ * @param startDate - Range start (ISO timestamp)
+ * @param endDate - Range end (ISO timestamp)
+ * @returns Promise<LedgerSummary> - The summary
+ */
+export async function getLedgerSummary(startDate: string, endDate: string): Promise<LedgerSummary> {
+  const entries = await listJournalEntries(startDate, endDate);
+  const closingBalances = await getAccountBalances(endDate);
+  return summarizeLedger(entries, closingBalances);
+}
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Journal entry and ledger period storage.
+ *
+ * Journal entries are stored one item per entry. An entry's ID is derived
+ * from its source (e.g. the transaction it records) and written with a
+ * condition on the ID, so retried postings never record money twice.
+ * Periods are stored one item per month and record whether the month is
+ * closed, with its closing balances.
+ *
+ * Entry indexes:
+ * - period-index: entries posted in a month, oldest first
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { JournalEntry, LedgerPeriod } from '@harborlist/shared-types';
+import { isConditionalCheckFailure } from '../../shared/utils';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const LEDGER_ENTRIES_TABLE = process.env.LEDGER_ENTRIES_TABLE || 'harborlist-ledger-entries';
+const LEDGER_PERIODS_TABLE = process.env.LEDGER_PERIODS_TABLE || 'harborlist-ledger-periods';
+
+/**
+ * Entry indexes
+ */
+const PERIOD_INDEX = 'period-index';
+
+/**
+ * Stores a journal entry
+ *
+ * @param entry - Balanced journal entry
+ * @returns Promise<boolean> - False when an entry with the same ID was already posted
+ */
+export async function createJournalEntry(entry: JournalEntry): Promise<boolean> {
+  try {
+    await docClient.send(new PutCommand({
+      TableName: LEDGER_ENTRIES_TABLE,
+      Item: entry,
+      ConditionExpression: 'attribute_not_exists(entryId)',
+    }));
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Retrieves a journal entry
+ *
+ * @param entryId - Entry ID
+ * @returns Promise<JournalEntry | null> - The entry, or null when it does not exist
+ */
+export async function getJournalEntry(entryId: string): Promise<JournalEntry | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: LEDGER_ENTRIES_TABLE,
+    Key: { entryId },
+  }));
+
+  return (result.Item as JournalEntry) || null;
+}
+
+/**
+ * Lists every entry posted in a month
+ *
+ * @param period - Month (YYYY-MM)
+ * @returns Promise<JournalEntry[]> - Entries, oldest first
+ */
+export async function listJournalEntriesByPeriod(period: string): Promise<JournalEntry[]> {
+  const entries: JournalEntry[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: LEDGER_ENTRIES_TABLE,
+      IndexName: PERIOD_INDEX,
+      KeyConditionExpression: '#period = :period',
+      ExpressionAttributeNames: { '#period': 'period' },
+      ExpressionAttributeValues: { ':period': period },
+      ExclusiveStartKey: lastKey,
+    }));
+
+    entries.push(...((result.Items || []) as JournalEntry[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return entries;
+}
+
+/**
+ * Retrieves a ledger period
+ *
+ * @param period - Month (YYYY-MM)
+ * @returns Promise<LedgerPeriod | null> - The period, or null when nothing was posted in it
+ */
+export async function getLedgerPeriod(period: string): Promise<LedgerPeriod | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: LEDGER_PERIODS_TABLE,
+    Key: { period },
+  }));
+
+  return (result.Item as LedgerPeriod) || null;
+}
+
+/**
+ * Lists every ledger period
+ *
+ * @returns Promise<LedgerPeriod[]> - Periods, oldest first
+ */
+export async function listLedgerPeriods(): Promise<LedgerPeriod[]> {
+  const periods: LedgerPeriod[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: LEDGER_PERIODS_TABLE,
+      ExclusiveStartKey: lastKey,
+    }));
+
+    periods.push(...((result.Items || []) as LedgerPeriod[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return periods.sort((a, b) => a.period.localeCompare(b.period));
+}
+
+/**
+ * Records an open period, unless it already exists
+ *
+ * @param period - Month (YYYY-MM)
+ */
+export async function ensureLedgerPeriod(period: string): Promise<void> {
+  try {
+    await docClient.send(new PutCommand({
+      TableName: LEDGER_PERIODS_TABLE,
+      Item: { period, status: 'open', createdAt: Date.now() } as LedgerPeriod,
+      ConditionExpression: 'attribute_not_exists(#period)',
+      ExpressionAttributeNames: { '#period': 'period' },
+    }));
+  } catch (error) {
+    if (!isConditionalCheckFailure(error)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Stores a closed period
+ *
+ * @param period - Closed period with its closing balances
+ * @returns Promise<boolean> - False when the period was already closed
+ */
+export async function saveClosedLedgerPeriod(period: LedgerPeriod): Promise<boolean> {
+  try {
+    await docClient.send(new PutCommand({
+      TableName: LEDGER_PERIODS_TABLE,
+      Item: period,
+      ConditionExpression: 'attribute_not_exists(#period) OR #status <> :closed',
+      ExpressionAttributeNames: { '#period': 'period', '#status': 'status' },
+      ExpressionAttributeValues: { ':closed': 'closed' },
+    }));
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
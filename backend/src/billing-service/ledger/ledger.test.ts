@@ -0,0 +1,380 @@
+/**
+ * @fileoverview Unit tests for the double-entry ledger
+ *
+ * Tests entry validation, postings for transactions and disputes, idempotent
+ * posting, period close, trial balance, account statements and the summary.
+ */
+
+import { JournalEntry, LedgerPeriod, Transaction } from '@harborlist/shared-types';
+import {
+  buildTransactionLines,
+  closeLedgerPeriod,
+  postDisputeClosed,
+  postDisputeOpened,
+  postTransaction,
+  reconcileLedger,
+  recordTransactionInLedger,
+  retryTransactionPosting,
+  validateJournalLines,
+} from './ledger-manager';
+import {
+  buildAccountStatement,
+  buildTrialBalance,
+  getAccountBalances,
+  summarizeLedger,
+} from './ledger-reports';
+import {
+  createJournalEntry,
+  ensureLedgerPeriod,
+  getJournalEntry,
+  getLedgerPeriod,
+  listJournalEntriesByPeriod,
+  listLedgerPeriods,
+  saveClosedLedgerPeriod,
+} from './ledger-store';
+import { db } from '../../shared/database';
+import { scheduleJob } from '../../jobs/scheduler';
+
+jest.mock('./ledger-store', () => ({
+  createJournalEntry: jest.fn(),
+  ensureLedgerPeriod: jest.fn(),
+  getJournalEntry: jest.fn(),
+  getLedgerPeriod: jest.fn(),
+  listJournalEntriesByPeriod: jest.fn(),
+  listLedgerPeriods: jest.fn(),
+  saveClosedLedgerPeriod: jest.fn(),
+}));
+
+jest.mock('../../shared/database', () => ({
+  db: {
+    getCompletedTransactionsInRange: jest.fn(),
+    getTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../jobs/scheduler', () => ({
+  scheduleJob: jest.fn(),
+}));
+
+const mockCreateJournalEntry = createJournalEntry as jest.MockedFunction<typeof createJournalEntry>;
+const mockEnsureLedgerPeriod = ensureLedgerPeriod as jest.MockedFunction<typeof ensureLedgerPeriod>;
+const mockGetJournalEntry = getJournalEntry as jest.MockedFunction<typeof getJournalEntry>;
+const mockGetLedgerPeriod = getLedgerPeriod as jest.MockedFunction<typeof getLedgerPeriod>;
+const mockListJournalEntriesByPeriod = listJournalEntriesByPeriod as jest.MockedFunction<typeof listJournalEntriesByPeriod>;
+const mockListLedgerPeriods = listLedgerPeriods as jest.MockedFunction<typeof listLedgerPeriods>;
+const mockSaveClosedLedgerPeriod = saveClosedLedgerPeriod as jest.MockedFunction<typeof saveClosedLedgerPeriod>;
+const mockDb = db as jest.Mocked<typeof db>;
+const mockScheduleJob = scheduleJob as jest.MockedFunction<typeof scheduleJob>;
+
+const NOW = new Date('2024-03-15T12:00:00.000Z');
+
+function createTestTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'txn-1',
+    transactionId: 'txn-1',
+    type: 'membership',
+    amount: 107,
+    currency: 'USD',
+    status: 'completed',
+    userId: 'user-1',
+    userName: '',
+    userEmail: '',
+    paymentMethod: 'card',
+    processorTransactionId: 'pi_1',
+    createdAt: NOW.toISOString(),
+    description: 'Membership renewal',
+    fees: 3.4,
+    netAmount: 103.6,
+    taxAmount: 7,
+    billingAccountId: 'billing-1',
+    ...overrides,
+  };
+}
+
+function createTestEntry(postedAt: string, lines: JournalEntry['lines'], overrides: Partial<JournalEntry> = {}): JournalEntry {
+  return {
+    entryId: `entry-${postedAt}`,
+    period: postedAt.slice(0, 7),
+    postedAt,
+    description: 'Test entry',
+    source: { type: 'transaction', id: `txn-${postedAt}` },
+    lines,
+    currency: 'USD',
+    ...overrides,
+  };
+}
+
+const balanceOf = (lines: JournalEntry['lines'], code: string) =>
+  Math.round(lines.filter(line => line.accountCode === code).reduce((sum, line) => sum + line.debit - line.credit, 0) * 100) / 100;
+
+describe('Ledger', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(NOW);
+    mockCreateJournalEntry.mockResolvedValue(true);
+    mockGetLedgerPeriod.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('validateJournalLines', () => {
+    it('should accept balanced lines', () => {
+      expect(validateJournalLines([
+        { accountCode: '1000', debit: 10, credit: 0 },
+        { accountCode: '4000', debit: 0, credit: 10 },
+      ])).toBeNull();
+    });
+
+    it('should reject unbalanced, one-sided and unknown-account lines', () => {
+      expect(validateJournalLines([{ accountCode: '1000', debit: 10, credit: 0 }]))
+        .toBe('Journal entry needs at least two lines');
+      expect(validateJournalLines([
+        { accountCode: '1000', debit: 10, credit: 0 },
+        { accountCode: '4000', debit: 0, credit: 9.99 },
+      ])).toBe('Journal entry is not balanced: debits 10.00, credits 9.99');
+      expect(validateJournalLines([
+        { accountCode: '1000', debit: 10, credit: 10 },
+        { accountCode: '4000', debit: 0, credit: 0 },
+      ])).toBe('Journal entry lines must be either a debit or a credit');
+      expect(validateJournalLines([
+        { accountCode: '9999', debit: 10, credit: 0 },
+        { accountCode: '4000', debit: 0, credit: 10 },
+      ])).toBe('Journal entry posts to an unknown account: 9999');
+    });
+  });
+
+  describe('transaction postings', () => {
+    it('should split a charge into revenue, sales tax and processing fees', () => {
+      const lines = buildTransactionLines(createTestTransaction())!;
+
+      expect(validateJournalLines(lines)).toBeNull();
+      expect(balanceOf(lines, '1000')).toBe(103.6);
+      expect(balanceOf(lines, '4000')).toBe(-100);
+      expect(balanceOf(lines, '2000')).toBe(-7);
+      expect(balanceOf(lines, '5000')).toBe(3.4);
+    });
+
+    it('should credit listing fees and commissions to their own revenue accounts', () => {
+      const listingFee = buildTransactionLines(createTestTransaction({ type: 'payment', listingId: 'listing-1', taxAmount: 0, fees: 0 }))!;
+      const commission = buildTransactionLines(createTestTransaction({ type: 'commission', taxAmount: 0, fees: 0 }))!;
+
+      expect(balanceOf(listingFee, '4100')).toBe(-107);
+      expect(balanceOf(commission, '4200')).toBe(-107);
+    });
+
+    it('should reverse revenue and sales tax on refunds', () => {
+      const lines = buildTransactionLines(createTestTransaction({ type: 'refund', amount: 53.5, taxAmount: -3.5, fees: 0 }))!;
+
+      expect(validateJournalLines(lines)).toBeNull();
+      expect(balanceOf(lines, '4900')).toBe(50);
+      expect(balanceOf(lines, '2000')).toBe(3.5);
+      expect(balanceOf(lines, '1000')).toBe(-53.5);
+    });
+
+    it('should settle seller payouts from clearing', () => {
+      const lines = buildTransactionLines(createTestTransaction({ type: 'payout', amount: 500, taxAmount: undefined, fees: 0.25 }))!;
+
+      expect(balanceOf(lines, '2100')).toBe(500);
+      expect(balanceOf(lines, '1000')).toBe(-500.25);
+    });
+
+    it('should not post transactions that did not complete', () => {
+      expect(buildTransactionLines(createTestTransaction({ status: 'failed' }))).toBeNull();
+      expect(buildTransactionLines(createTestTransaction({ status: 'pending' }))).toBeNull();
+    });
+
+    it('should post each transaction once, keyed by its ID', async () => {
+      const entry = await postTransaction(createTestTransaction());
+
+      expect(entry).toMatchObject({ entryId: 'txn_txn-1', period: '2024-03', source: { type: 'transaction', id: 'txn-1' } });
+      expect(mockEnsureLedgerPeriod).toHaveBeenCalledWith('2024-03');
+
+      mockCreateJournalEntry.mockResolvedValue(false);
+      await expect(postTransaction(createTestTransaction())).resolves.toBeNull();
+    });
+
+    it('should refuse to post into a closed period', async () => {
+      mockGetLedgerPeriod.mockResolvedValue({ period: '2024-03', status: 'closed', createdAt: 0 });
+
+      await expect(postTransaction(createTestTransaction())).rejects.toThrow('Ledger period 2024-03 is closed');
+      expect(mockCreateJournalEntry).not.toHaveBeenCalled();
+    });
+
+    it('should post completed transactions missing from the ledger', async () => {
+      mockDb.getCompletedTransactionsInRange.mockResolvedValue([
+        createTestTransaction({ transactionId: 'txn-1' }),
+        createTestTransaction({ transactionId: 'txn-2' }),
+      ]);
+      mockCreateJournalEntry.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+      const result = await reconcileLedger('2024-03-01T00:00:00.000Z', '2024-03-31T23:59:59.999Z');
+
+      expect(result).toEqual({ checked: 2, posted: 1 });
+    });
+
+    it('should queue a retry when a posting fails', async () => {
+      mockCreateJournalEntry.mockRejectedValueOnce(new Error('unavailable'));
+      jest.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+
+      await expect(recordTransactionInLedger(createTestTransaction())).resolves.toBeUndefined();
+
+      expect(mockScheduleJob).toHaveBeenCalledWith({
+        type: 'billing.ledger_posting',
+        jobId: 'ledger-posting:txn-1',
+        runAt: NOW.getTime(),
+        payload: { transactionId: 'txn-1' },
+      });
+    });
+
+    it('should retry a posting from the saved transaction', async () => {
+      mockDb.getTransaction.mockResolvedValue(createTestTransaction());
+
+      await retryTransactionPosting('txn-1');
+
+      expect(mockDb.getTransaction).toHaveBeenCalledWith('txn-1');
+      expect(mockCreateJournalEntry).toHaveBeenCalledWith(expect.objectContaining({ entryId: 'txn_txn-1' }));
+
+      mockCreateJournalEntry.mockRejectedValueOnce(new Error('unavailable'));
+      await expect(retryTransactionPosting('txn-1')).rejects.toThrow('unavailable');
+    });
+  });
+
+  describe('dispute postings', () => {
+    it('should hold disputed funds and release them by outcome', async () => {
+      mockGetJournalEntry.mockResolvedValue(createTestEntry('2024-03-01T10:00:00.000Z', []));
+
+      const opened = await postDisputeOpened('txn-1', 107);
+      const won = await postDisputeClosed('txn-1', 107, 'won');
+      const lost = await postDisputeClosed('txn-2', 50, 'lost');
+
+      expect(balanceOf(opened!.lines, '1100')).toBe(107);
+      expect(balanceOf(opened!.lines, '1000')).toBe(-107);
+      expect(balanceOf(won!.lines, '1000')).toBe(107);
+      expect(balanceOf(won!.lines, '1100')).toBe(-107);
+      expect(balanceOf(lost!.lines, '5100')).toBe(50);
+      expect(opened!.entryId).toBe('dispute_txn-1_opened');
+      expect(won!.entryId).toBe('dispute_txn-1_closed');
+      expect(mockGetJournalEntry).toHaveBeenCalledWith('dispute_txn-1_opened');
+    });
+
+    it('should not close a dispute whose opening was never posted', async () => {
+      mockGetJournalEntry.mockResolvedValue(null);
+
+      expect(await postDisputeClosed('txn-1', 107, 'lost')).toBeNull();
+      expect(mockCreateJournalEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('balances and reports', () => {
+    const charge = createTestEntry('2024-02-10T10:00:00.000Z', buildTransactionLines(createTestTransaction())!);
+    const refund = createTestEntry(
+      '2024-03-05T10:00:00.000Z',
+      buildTransactionLines(createTestTransaction({ type: 'refund', amount: 53.5, taxAmount: -3.5, fees: 0 }))!
+    );
+
+    it('should start from the latest closed period and add later entries', async () => {
+      const closedBalances = { '1000': 200, '4000': -200 };
+      mockListLedgerPeriods.mockResolvedValue([
+        { period: '2024-01', status: 'closed', closingBalances: closedBalances, createdAt: 0 },
+        { period: '2024-02', status: 'open', createdAt: 0 },
+        { period: '2024-03', status: 'open', createdAt: 0 },
+      ]);
+      mockListJournalEntriesByPeriod.mockImplementation(async period => (period === '2024-02' ? [charge] : [refund]));
+
+      const balances = await getAccountBalances('2024-03-01T00:00:00.000Z');
+
+      expect(mockListJournalEntriesByPeriod).not.toHaveBeenCalledWith('2024-01');
+      expect(balances).toEqual({ '1000': 303.6, '4000': -300, '2000': -7, '5000': 3.4 });
+    });
+
+    it('should build a balanced trial balance', () => {
+      const trialBalance = buildTrialBalance({ '1000': 303.6, '4000': -300, '2000': -7, '5000': 3.4 }, NOW.toISOString());
+
+      expect(trialBalance.balanced).toBe(true);
+      expect(trialBalance.totalDebits).toBe(307);
+      expect(trialBalance.rows.find(row => row.accountCode === '4000')).toMatchObject({ debit: 0, credit: 300 });
+    });
+
+    it('should show a running balance on the account statement', () => {
+      const statement = buildAccountStatement('2000', -10, [charge, refund], '2024-02-01', '2024-03-31');
+
+      expect(statement.openingBalance).toBe(10);
+      expect(statement.lines.map(line => line.balance)).toEqual([17, 13.5]);
+      expect(statement.closingBalance).toBe(13.5);
+      expect(statement).toMatchObject({ totalDebits: 3.5, totalCredits: 7 });
+      expect(() => buildAccountStatement('9999', 0, [], '', '')).toThrow('Ledger account not found');
+    });
+
+    it('should summarize revenue, refunds, fees and payouts owed', () => {
+      const dispute = createTestEntry('2024-03-06T10:00:00.000Z', [
+        { accountCode: '1100', debit: 20, credit: 0 },
+        { accountCode: '1000', debit: 0, credit: 20 },
+      ], { source: { type: 'dispute_opened', id: 'txn-9' } });
+
+      const summary = summarizeLedger([charge, refund, dispute], { '2100': -250 });
+
+      expect(summary).toEqual({
+        grossRevenue: 100,
+        commissionRevenue: 0,
+        refunds: 50,
+        processingFees: 3.4,
+        chargebackLosses: 0,
+        netRevenue: 46.6,
+        salesTaxCollected: 3.5,
+        pendingPayouts: 250,
+        chargeCount: 1,
+        refundCount: 1,
+        disputeCount: 1,
+      });
+    });
+  });
+
+  describe('closeLedgerPeriod', () => {
+    const entry = createTestEntry('2024-02-10T10:00:00.000Z', [
+      { accountCode: '1000', debit: 100, credit: 0 },
+      { accountCode: '4000', debit: 0, credit: 100 },
+    ]);
+
+    beforeEach(() => {
+      mockSaveClosedLedgerPeriod.mockResolvedValue(true);
+      mockListJournalEntriesByPeriod.mockResolvedValue([entry]);
+    });
+
+    it('should carry the previous closing balances forward', async () => {
+      mockListLedgerPeriods.mockResolvedValue([
+        { period: '2024-01', status: 'closed', closingBalances: { '1000': 50, '4000': -50 }, createdAt: 0 },
+        { period: '2024-02', status: 'open', createdAt: 1 },
+      ]);
+
+      const closed = await closeLedgerPeriod('2024-02', 'admin-1');
+
+      expect(closed).toMatchObject({
+        period: '2024-02',
+        status: 'closed',
+        entryCount: 1,
+        closingBalances: { '1000': 150, '4000': -150 },
+        closedBy: 'admin-1',
+        createdAt: 1,
+      });
+      expect(mockSaveClosedLedgerPeriod).toHaveBeenCalledWith(closed);
+    });
+
+    it('should only close ended periods, in order, once', async () => {
+      const periods: LedgerPeriod[] = [
+        { period: '2024-01', status: 'open', createdAt: 0 },
+        { period: '2024-02', status: 'open', createdAt: 0 },
+      ];
+      mockListLedgerPeriods.mockResolvedValue(periods);
+
+      await expect(closeLedgerPeriod('2024-03', 'admin-1')).rejects.toThrow('Ledger period 2024-03 has not ended');
+      await expect(closeLedgerPeriod('2024-13', 'admin-1')).rejects.toThrow('Ledger period must be YYYY-MM');
+      await expect(closeLedgerPeriod('2024-02', 'admin-1')).rejects.toThrow('Ledger period 2024-01 must be closed first');
+
+      mockListLedgerPeriods.mockResolvedValue([{ period: '2024-01', status: 'closed', createdAt: 0 }]);
+      await expect(closeLedgerPeriod('2024-01', 'admin-1')).rejects.toThrow('Ledger period 2024-01 is already closed');
+      expect(mockSaveClosedLedgerPeriod).not.toHaveBeenCalled();
+    });
+  });
+});
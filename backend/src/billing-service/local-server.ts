@@ -137,4 +137,21 @@ app.listen(PORT, () => {
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
   console.log(`🌐 Service URL: http://localhost:${PORT}`);
   console.log(`🔗 Custom Domain: https://billing.local.harborlist.com`);
-});
\ No newline at end of file
+});
+// The job scheduler ticks on an EventBridge schedule in AWS; poll locally instead
+const JOB_TICK_INTERVAL_MS = parseInt(process.env.JOB_TICK_INTERVAL_MS || '60000');
+const jobTickTimer = JOB_TICK_INTERVAL_MS > 0
+  ? setInterval(async () => {
+      try {
+        const { scheduledHandler } = await import('../jobs');
+        await scheduledHandler();
+      } catch (error) {
+        console.error('Job scheduler tick failed:', error);
+      }
+    }, JOB_TICK_INTERVAL_MS)
+  : undefined;
+
+process.on('SIGTERM', () => {
+  clearInterval(jobTickTimer);
+  process.exit(0);
+});
@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Unit tests for usage metering
+ *
+ * Tests billing period resolution, quotas from tier limits, hard limits for
+ * free plans, overage for subscribers and overage line items at renewal.
+ */
+
+import { BillingAccount, UsageRecord } from '@harborlist/shared-types';
+import {
+  checkListingPhotoLimit,
+  checkUsage,
+  getMeterQuota,
+  getOverageLineItems,
+  getRemainingQuota,
+  getUsagePeriod,
+  getUsageSummary,
+  DEFAULT_USAGE_LIMITS,
+} from './usage-meter';
+import { getUsageRecord } from './usage-store';
+import { db } from '../../shared/database';
+
+jest.mock('../../shared/database', () => ({
+  db: {
+    getBillingAccountByUser: jest.fn(),
+    getUser: jest.fn(),
+    getListingsByOwner: jest.fn(),
+  },
+}));
+
+jest.mock('./usage-store', () => ({
+  USAGE_METERS: ['active_listings', 'photos', 'featured_listing_days', 'boosted_searches'],
+  getUsageRecord: jest.fn(),
+  incrementUsage: jest.fn(),
+  recordPeakUsage: jest.fn(),
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+const mockGetUsageRecord = getUsageRecord as jest.MockedFunction<typeof getUsageRecord>;
+
+const NOW = new Date('2024-04-10T12:00:00.000Z');
+const NEXT_BILLING = new Date('2024-04-20T00:00:00.000Z').getTime();
+const PERIOD_START = new Date('2024-03-20T00:00:00.000Z').getTime();
+
+const subscription = (overrides: Partial<BillingAccount> = {}): BillingAccount => ({
+  billingId: 'billing-1',
+  userId: 'user-1',
+  customerId: 'cus_1',
+  subscriptionId: 'sub_1',
+  paymentMethodId: 'pm_1',
+  plan: 'premium_individual_monthly',
+  amount: 29.99,
+  currency: 'USD',
+  status: 'active',
+  nextBillingDate: NEXT_BILLING,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+} as BillingAccount);
+
+const usageRecord = (usage: UsageRecord['usage'], overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  userId: 'user-1',
+  periodStart: PERIOD_START,
+  periodEnd: NEXT_BILLING,
+  usage,
+  updatedAt: NOW.getTime(),
+  ...overrides,
+});
+
+const listings = (...statuses: string[]) => statuses.map((status, index) => ({ listingId: `listing-${index}`, status })) as any;
+
+const withLimits = (limits: Partial<typeof DEFAULT_USAGE_LIMITS>) =>
+  mockDb.getUser.mockResolvedValue({ membershipDetails: { limits: { ...DEFAULT_USAGE_LIMITS, ...limits } } } as any);
+
+describe('Usage metering', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(NOW);
+    mockDb.getBillingAccountByUser.mockResolvedValue(null);
+    mockDb.getUser.mockResolvedValue({ userId: 'user-1' } as any);
+    mockDb.getListingsByOwner.mockResolvedValue([]);
+    mockGetUsageRecord.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getUsagePeriod', () => {
+    it('meters subscribers by their current billing cycle', async () => {
+      mockDb.getBillingAccountByUser.mockResolvedValue(subscription());
+
+      await expect(getUsagePeriod('user-1')).resolves.toEqual({
+        periodStart: PERIOD_START,
+        periodEnd: NEXT_BILLING,
+        overageAllowed: true,
+      });
+    });
+
+    it('meters users without a subscription by calendar month', async () => {
+      mockDb.getBillingAccountByUser.mockResolvedValue(subscription({ status: 'canceled' }));
+
+      await expect(getUsagePeriod('user-1')).resolves.toEqual({
+        periodStart: Date.UTC(2024, 3, 1),
+        periodEnd: Date.UTC(2024, 4, 1),
+        overageAllowed: false,
+      });
+    });
+  });
+
+  describe('getMeterQuota', () => {
+    const period = { periodStart: Date.UTC(2024, 3, 1), periodEnd: Date.UTC(2024, 4, 1) };
+
+    it('derives quotas from tier limits', () => {
+      const limits = { ...DEFAULT_USAGE_LIMITS, featuredListings: 2, boostedSearches: 20 };
+
+      expect(getMeterQuota(limits, 'active_listings', period)).toBe(5);
+      expect(getMeterQuota(limits, 'photos', period)).toBe(50);
+      expect(getMeterQuota(limits, 'featured_listing_days', period)).toBe(60);
+      expect(getMeterQuota(limits, 'boosted_searches', period)).toBe(20);
+    });
+
+    it('treats photos as unlimited when listings are unlimited', () => {
+      expect(getMeterQuota({ ...DEFAULT_USAGE_LIMITS, maxListings: -1 }, 'photos', period)).toBe(-1);
+    });
+  });
+
+  describe('checkUsage', () => {
+    it('holds free plans to their listing limit', async () => {
+      mockDb.getListingsByOwner.mockResolvedValue(listings('active', 'active', 'pending_review', 'active', 'approved', 'sold'));
+
+      const result = await checkUsage('user-1', 'active_listings');
+
+      expect(result).toEqual(expect.objectContaining({ allowed: false, used: 5, quota: 5, overage: 1 }));
+      expect(result.message).toContain('5 active listings');
+    });
+
+    it('lets subscribers go over their quota as billable overage', async () => {
+      mockDb.getBillingAccountByUser.mockResolvedValue(subscription());
+      withLimits({ maxListings: 10, maxImages: 2 });
+      mockGetUsageRecord.mockResolvedValue(usageRecord({ photos: 20 }));
+
+      await expect(checkUsage('user-1', 'photos')).resolves.toEqual(
+        expect.objectContaining({ allowed: true, used: 20, quota: 20, overage: 1 })
+      );
+    });
+
+    it('allows unlimited meters without overage', async () => {
+      withLimits({ maxListings: -1 });
+      mockDb.getListingsByOwner.mockResolvedValue(listings(...Array(40).fill('active')));
+
+      await expect(checkUsage('user-1', 'active_listings')).resolves.toEqual(
+        expect.objectContaining({ allowed: true, quota: -1, overage: 0 })
+      );
+    });
+  });
+
+  describe('getRemainingQuota', () => {
+    it('does not count prepaid usage against the plan allowance', async () => {
+      withLimits({ featuredListings: 1 });
+      mockGetUsageRecord.mockResolvedValue(usageRecord({ featured_listing_days: 40 }, { prepaid: { featured_listing_days: 30 } }));
+
+      await expect(getRemainingQuota('user-1', 'featured_listing_days')).resolves.toBe(20);
+    });
+  });
+
+  it('caps photos per listing at the tier limit', async () => {
+    await expect(checkListingPhotoLimit('user-1', 10)).resolves.toBeNull();
+    await expect(checkListingPhotoLimit('user-1', 12)).resolves.toContain('up to 10 photos');
+  });
+
+  describe('getUsageSummary', () => {
+    it('prices subscriber overage and counts current listings', async () => {
+      mockDb.getBillingAccountByUser.mockResolvedValue(subscription());
+      withLimits({ maxListings: 2, boostedSearches: 10 });
+      mockDb.getListingsByOwner.mockResolvedValue(listings('active', 'active', 'active'));
+      mockGetUsageRecord.mockResolvedValue(usageRecord({ active_listings: 2, boosted_searches: 14 }));
+
+      const summary = await getUsageSummary('user-1');
+
+      expect(summary.meters.find(meter => meter.meter === 'active_listings')).toEqual(
+        expect.objectContaining({ used: 3, quota: 2, overage: 1, overageAmount: 5 })
+      );
+      expect(summary.meters.find(meter => meter.meter === 'boosted_searches')).toEqual(
+        expect.objectContaining({ used: 14, overage: 4, overageAmount: 2 })
+      );
+      expect(summary.overageTotal).toBe(7);
+    });
+
+    it('never bills prepaid usage as overage', async () => {
+      mockDb.getBillingAccountByUser.mockResolvedValue(subscription());
+      withLimits({ boostedSearches: 10 });
+      mockGetUsageRecord.mockResolvedValue(usageRecord({ boosted_searches: 50 }, { prepaid: { boosted_searches: 45 } }));
+
+      const summary = await getUsageSummary('user-1');
+
+      expect(summary.meters.find(meter => meter.meter === 'boosted_searches')).toEqual(
+        expect.objectContaining({ used: 50, prepaid: 45, overage: 0, overageAmount: 0 })
+      );
+    });
+  });
+
+  describe('getOverageLineItems', () => {
+    it('invoices each meter over quota for the period just ended', async () => {
+      withLimits({ maxListings: 2, maxImages: 5 });
+      mockGetUsageRecord.mockResolvedValue(usageRecord({ active_listings: 4, photos: 13 }));
+
+      const { period, lineItems } = await getOverageLineItems(subscription(), NEXT_BILLING);
+
+      expect(mockGetUsageRecord).toHaveBeenCalledWith('user-1', PERIOD_START);
+      expect(period).toEqual({ periodStart: PERIOD_START, periodEnd: NEXT_BILLING });
+      expect(lineItems).toEqual([
+        expect.objectContaining({ type: 'usage_overage', meter: 'active_listings', quantity: 2, unitAmount: 5, amount: 10 }),
+        expect.objectContaining({ type: 'usage_overage', meter: 'photos', quantity: 3, unitAmount: 0.1, amount: 0.3 }),
+      ]);
+    });
+
+    it('does not bill a period twice', async () => {
+      withLimits({ maxListings: 2 });
+      mockGetUsageRecord.mockResolvedValue(usageRecord({ active_listings: 4 }, { billedInvoiceId: 'inv_1' }));
+
+      await expect(getOverageLineItems(subscription(), NEXT_BILLING)).resolves.toEqual(
+        expect.objectContaining({ lineItems: [] })
+      );
+    });
+  });
+});
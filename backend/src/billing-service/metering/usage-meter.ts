@@ -0,0 +1,381 @@
+/**
+ * @fileoverview Usage metering against tier limits.
+ *
+ * Records usage per user and billing period and checks it against the limits
+ * of the user's tier (`membershipDetails.limits`):
+ * - active_listings: peak number of live listings in the period (maxListings)
+ * - photos: photos uploaded in the period (maxImages per listing x maxListings)
+ * - featured_listing_days: days of featured placement (featuredListings slots x days in the period)
+ * - boosted_searches: boosted search placements (boostedSearches)
+ *
+ * The billing period is the subscription's current billing cycle; users
+ * without a subscription are metered by calendar month.
+ *
+ * Business Rules:
+ * - A quota of -1 is unlimited
+ * - Users without a subscription are held to their quota
+ * - Subscribers can go over their quota; the overage is billed at renewal
+ * - Prepaid usage (purchased promotions) counts as used but is never overage
+ * - Listings are also capped at maxImages photos each
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import {
+  BillingAccount,
+  InvoiceLineItem,
+  UsageMeter,
+  UsageMeterSummary,
+  UsageSummary,
+  UserLimits,
+} from '@harborlist/shared-types';
+import { db } from '../../shared/database';
+import { usageOverageLineItem } from '../invoices/invoice-manager';
+import { getUsageRecord, incrementUsage, recordPeakUsage, UsagePeriod, USAGE_METERS } from './usage-store';
+
+/**
+ * How each meter is described and what its overage costs (USD per unit)
+ */
+export const METER_DEFINITIONS: Record<UsageMeter, { label: string; unit: string; overageUnitPrice: number }> = {
+  active_listings: { label: 'Active listings', unit: 'listing', overageUnitPrice: 5 },
+  photos: { label: 'Photos', unit: 'photo', overageUnitPrice: 0.1 },
+  featured_listing_days: { label: 'Featured listing days', unit: 'day', overageUnitPrice: 3 },
+  boosted_searches: { label: 'Boosted searches', unit: 'search', overageUnitPrice: 0.5 },
+};
+
+/**
+ * Limits for users whose membership has no limits recorded (the free plan)
+ */
+export const DEFAULT_USAGE_LIMITS: UserLimits = {
+  maxListings: 5,
+  maxImages: 10,
+  priorityPlacement: false,
+  featuredListings: 0,
+  analyticsAccess: false,
+  bulkOperations: false,
+  advancedSearch: false,
+  premiumSupport: false,
+  boostedSearches: 0,
+};
+
+/**
+ * Listing statuses that do not count as active
+ */
+const INACTIVE_LISTING_STATUSES = ['inactive', 'sold', 'rejected'];
+
+/**
+ * Subscription statuses that are billed for overage
+ */
+const BILLED_SUBSCRIPTION_STATUSES: BillingAccount['status'][] = ['active', 'trialing', 'past_due'];
+
+/**
+ * A user's current billing period
+ */
+export interface UserUsagePeriod extends UsagePeriod {
+  /** Whether the user has a subscription that is billed for overage */
+  overageAllowed: boolean;
+}
+
+/**
+ * The result of checking usage against a quota
+ */
+export interface UsageCheck {
+  allowed: boolean;
+  meter: UsageMeter;
+  used: number;
+  quota: number;
+  /** Units over the quota once the requested usage is added */
+  overage: number;
+  message?: string;
+}
+
+/**
+ * Start of the billing period that ends on a billing date
+ *
+ * Steps back one cycle the same way renewals step forward.
+ */
+export function getBillingPeriodStart(billingAccount: BillingAccount, periodEnd: number): number {
+  const date = new Date(periodEnd);
+  if (billingAccount.plan.includes('yearly')) {
+    date.setFullYear(date.getFullYear() - 1);
+  } else {
+    date.setMonth(date.getMonth() - 1);
+  }
+  return date.getTime();
+}
+
+/**
+ * Calendar month containing a time (UTC)
+ */
+export function getCalendarMonthPeriod(at: number = Date.now()): UsagePeriod {
+  const date = new Date(at);
+  return {
+    periodStart: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+    periodEnd: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+  };
+}
+
+/**
+ * Gets a user's current billing period
+ *
+ * @param userId - User
+ * @returns Promise<UserUsagePeriod> - The subscription's billing cycle, or the calendar month without a subscription
+ */
+export async function getUsagePeriod(userId: string): Promise<UserUsagePeriod> {
+  const billingAccount = await db.getBillingAccountByUser(userId);
+  if (
+    billingAccount?.subscriptionId
+    && billingAccount.nextBillingDate
+    && BILLED_SUBSCRIPTION_STATUSES.includes(billingAccount.status)
+  ) {
+    return {
+      periodStart: getBillingPeriodStart(billingAccount, billingAccount.nextBillingDate),
+      periodEnd: billingAccount.nextBillingDate,
+      overageAllowed: true,
+    };
+  }
+
+  return { ...getCalendarMonthPeriod(), overageAllowed: false };
+}
+
+/**
+ * Gets a user's tier limits
+ *
+ * @param userId - User
+ * @returns Promise<UserLimits> - Limits of the user's membership, or the free plan's
+ */
+export async function getUserLimits(userId: string): Promise<UserLimits> {
+  const user = await db.getUser(userId);
+  return { ...DEFAULT_USAGE_LIMITS, ...user?.membershipDetails?.limits };
+}
+
+/**
+ * Quota for a meter in a billing period
+ *
+ * @param limits - Tier limits
+ * @param meter - Meter
+ * @param period - Billing period (featured days depend on its length)
+ * @returns number - Units included in the tier, or -1 for unlimited
+ */
+export function getMeterQuota(limits: UserLimits, meter: UsageMeter, period: UsagePeriod): number {
+  switch (meter) {
+    case 'active_listings':
+      return limits.maxListings;
+    case 'photos':
+      return limits.maxListings === -1 || limits.maxImages === -1 ? -1 : limits.maxListings * limits.maxImages;
+    case 'featured_listing_days':
+      return limits.featuredListings * Math.round((period.periodEnd - period.periodStart) / (24 * 60 * 60 * 1000));
+    case 'boosted_searches':
+      return limits.boostedSearches ?? 0;
+  }
+}
+
+/**
+ * Counts a user's active listings (everything not inactive, sold or rejected)
+ *
+ * @param userId - Listing owner
+ * @returns Promise<number> - Active listings
+ */
+export async function countActiveListings(userId: string): Promise<number> {
+  const listings = await db.getListingsByOwner(userId);
+  return listings.filter(listing => !INACTIVE_LISTING_STATUSES.includes(listing.status)).length;
+}
+
+/**
+ * Checks whether a user can add usage to a meter
+ *
+ * Active listings are checked against the current count; the other meters
+ * against what was recorded this period.
+ *
+ * @param userId - User
+ * @param meter - Meter
+ * @param quantity - Usage about to be added
+ * @returns Promise<UsageCheck> - Whether the usage is allowed, and any overage it causes
+ */
+export async function checkUsage(userId: string, meter: UsageMeter, quantity: number = 1): Promise<UsageCheck> {
+  const [period, limits] = await Promise.all([getUsagePeriod(userId), getUserLimits(userId)]);
+  const quota = getMeterQuota(limits, meter, period);
+  let used = 0;
+  let prepaid = 0;
+  if (meter === 'active_listings') {
+    used = await countActiveListings(userId);
+  } else {
+    const record = await getUsageRecord(userId, period.periodStart);
+    used = record?.usage[meter] || 0;
+    prepaid = record?.prepaid?.[meter] || 0;
+  }
+
+  if (quota === -1) {
+    return { allowed: true, meter, used, quota, overage: 0 };
+  }
+
+  const overage = Math.max(0, used - prepaid + quantity - quota);
+  if (overage > 0 && !period.overageAllowed) {
+    const definition = METER_DEFINITIONS[meter];
+    return {
+      allowed: false,
+      meter,
+      used,
+      quota,
+      overage,
+      message: `Your plan includes ${quota} ${definition.label.toLowerCase()} per billing period and you have used ${used}. Upgrade your plan to add more.`,
+    };
+  }
+
+  return { allowed: true, meter, used, quota, overage };
+}
+
+/**
+ * Units of a meter still included in the user's plan this billing period
+ *
+ * @param userId - User
+ * @param meter - Counter meter
+ * @returns Promise<number> - Units left before overage, or -1 for unlimited
+ */
+export async function getRemainingQuota(userId: string, meter: UsageMeter): Promise<number> {
+  const [period, limits] = await Promise.all([getUsagePeriod(userId), getUserLimits(userId)]);
+  const quota = getMeterQuota(limits, meter, period);
+  if (quota === -1) {
+    return -1;
+  }
+
+  const record = await getUsageRecord(userId, period.periodStart);
+  const included = (record?.usage[meter] || 0) - (record?.prepaid?.[meter] || 0);
+  return Math.max(0, quota - included);
+}
+
+/**
+ * Checks a listing's photo count against the tier's per-listing limit
+ *
+ * @param userId - Listing owner
+ * @param photoCount - Photos on the listing
+ * @returns Promise<string | null> - Error message, or null when within the limit
+ */
+export async function checkListingPhotoLimit(userId: string, photoCount: number): Promise<string | null> {
+  const { maxImages } = await getUserLimits(userId);
+  if (maxImages !== -1 && photoCount > maxImages) {
+    return `Your plan allows up to ${maxImages} photos per listing. Remove ${photoCount - maxImages} or upgrade your plan.`;
+  }
+  return null;
+}
+
+/**
+ * Records usage on a counter meter for the current billing period
+ *
+ * @param userId - User
+ * @param meter - Counter meter
+ * @param quantity - Usage to add
+ * @param prepaid - How much of the usage was already paid for
+ */
+export async function recordUsage(userId: string, meter: UsageMeter, quantity: number = 1, prepaid: number = 0): Promise<void> {
+  const period = await getUsagePeriod(userId);
+  await incrementUsage(userId, period, meter, quantity, prepaid);
+}
+
+/**
+ * Records the user's current active listing count as a gauge reading
+ *
+ * @param userId - Listing owner
+ */
+export async function syncActiveListings(userId: string): Promise<void> {
+  const [period, count] = await Promise.all([getUsagePeriod(userId), countActiveListings(userId)]);
+  await recordPeakUsage(userId, period, 'active_listings', count);
+}
+
+/**
+ * Summarizes usage against quota for a billing period
+ *
+ * @param userId - User
+ * @param period - Billing period
+ * @param limits - Tier limits
+ * @param overageAllowed - Whether overage is billed rather than blocked
+ * @returns Promise<UsageSummary> - Usage, quota and overage by meter
+ */
+export async function summarizeUsage(
+  userId: string,
+  period: UsagePeriod,
+  limits: UserLimits,
+  overageAllowed: boolean
+): Promise<UsageSummary> {
+  const record = await getUsageRecord(userId, period.periodStart);
+
+  const meters: UsageMeterSummary[] = USAGE_METERS.map(meter => {
+    const used = record?.usage[meter] || 0;
+    const prepaid = record?.prepaid?.[meter] || 0;
+    const quota = getMeterQuota(limits, meter, period);
+    const overage = quota === -1 ? 0 : Math.max(0, used - prepaid - quota);
+    const { label, overageUnitPrice } = METER_DEFINITIONS[meter];
+    return {
+      meter,
+      label,
+      used,
+      quota,
+      prepaid,
+      overage,
+      overageUnitPrice,
+      overageAmount: overageAllowed ? Math.round(overage * overageUnitPrice * 100) / 100 : 0,
+    };
+  });
+
+  return {
+    userId,
+    periodStart: period.periodStart,
+    periodEnd: period.periodEnd,
+    overageAllowed,
+    meters,
+    overageTotal: Math.round(meters.reduce((sum, meter) => sum + meter.overageAmount, 0) * 100) / 100,
+    currency: 'USD',
+  };
+}
+
+/**
+ * Gets a user's usage for the current billing period
+ *
+ * Active listings show the higher of the period's peak and the current count.
+ *
+ * @param userId - User
+ * @returns Promise<UsageSummary> - Usage, quota and overage by meter
+ */
+export async function getUsageSummary(userId: string): Promise<UsageSummary> {
+  const [period, limits, activeListings] = await Promise.all([
+    getUsagePeriod(userId),
+    getUserLimits(userId),
+    countActiveListings(userId),
+  ]);
+  const summary = await summarizeUsage(userId, period, limits, period.overageAllowed);
+
+  const listings = summary.meters.find(meter => meter.meter === 'active_listings')!;
+  if (activeListings > listings.used) {
+    listings.used = activeListings;
+    listings.overage = listings.quota === -1 ? 0 : Math.max(0, activeListings - listings.quota);
+    listings.overageAmount = period.overageAllowed ? Math.round(listings.overage * listings.overageUnitPrice * 100) / 100 : 0;
+    summary.overageTotal = Math.round(summary.meters.reduce((sum, meter) => sum + meter.overageAmount, 0) * 100) / 100;
+  }
+  return summary;
+}
+
+/**
+ * Builds the overage line items for a subscription's billing period
+ *
+ * @param billingAccount - Subscription being renewed
+ * @param periodEnd - End of the period (the renewal's billing date)
+ * @returns Promise<{ period: UsagePeriod; lineItems: InvoiceLineItem[] }> - Overage to invoice; empty when none or already billed
+ */
+export async function getOverageLineItems(
+  billingAccount: BillingAccount,
+  periodEnd: number
+): Promise<{ period: UsagePeriod; lineItems: InvoiceLineItem[] }> {
+  const period = { periodStart: getBillingPeriodStart(billingAccount, periodEnd), periodEnd };
+  const record = await getUsageRecord(billingAccount.userId, period.periodStart);
+  if (!record || record.billedInvoiceId) {
+    return { period, lineItems: [] };
+  }
+
+  const summary = await summarizeUsage(billingAccount.userId, period, await getUserLimits(billingAccount.userId), true);
+  const lineItems = summary.meters
+    .filter(meter => meter.overage > 0)
+    .map(meter => usageOverageLineItem(meter.meter, meter.label, meter.overage, meter.overageUnitPrice, period.periodStart, period.periodEnd));
+
+  return { period, lineItems };
+}
@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Usage record storage.
+ *
+ * One item per user and billing period (key: userId + periodStart). Each meter
+ * is its own top-level attribute so counters can be incremented atomically
+ * with ADD, and gauges only ever move up with a conditional SET. Usage that
+ * was paid for up front (purchased promotions) is also counted under
+ * `prepaid_<meter>` so it is not billed again as overage. Once a
+ * period's overage has been invoiced the record is stamped with the invoice,
+ * which stops it from being billed twice.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { UsageMeter, UsageRecord } from '@harborlist/shared-types';
+import { isConditionalCheckFailure } from '../../shared/utils';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+const USAGE_TABLE = process.env.USAGE_TABLE || 'harborlist-usage';
+
+/**
+ * Meters stored on a usage record
+ */
+export const USAGE_METERS: UsageMeter[] = ['active_listings', 'photos', 'featured_listing_days', 'boosted_searches'];
+
+/**
+ * A billing period
+ */
+export interface UsagePeriod {
+  periodStart: number;
+  periodEnd: number;
+}
+
+/**
+ * Attribute counting the prepaid part of a meter's usage
+ */
+function prepaidAttribute(meter: UsageMeter): string {
+  return `prepaid_${meter}`;
+}
+
+/**
+ * Converts a stored item to a usage record
+ */
+function toUsageRecord(item: Record<string, any>): UsageRecord {
+  const usage: UsageRecord['usage'] = {};
+  const prepaid: UsageRecord['prepaid'] = {};
+  for (const meter of USAGE_METERS) {
+    if (typeof item[meter] === 'number') {
+      usage[meter] = item[meter];
+    }
+    if (typeof item[prepaidAttribute(meter)] === 'number') {
+      prepaid[meter] = item[prepaidAttribute(meter)];
+    }
+  }
+
+  return {
+    userId: item.userId,
+    periodStart: item.periodStart,
+    periodEnd: item.periodEnd,
+    usage,
+    prepaid,
+    billedInvoiceId: item.billedInvoiceId,
+    billedAt: item.billedAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+/**
+ * Retrieves a user's usage for a billing period
+ *
+ * @param userId - User
+ * @param periodStart - Start of the billing period
+ * @returns Promise<UsageRecord | null> - The usage, or null when nothing was recorded
+ */
+export async function getUsageRecord(userId: string, periodStart: number): Promise<UsageRecord | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: USAGE_TABLE,
+    Key: { userId, periodStart },
+  }));
+
+  return result.Item ? toUsageRecord(result.Item) : null;
+}
+
+/**
+ * Adds to a counter meter
+ *
+ * @param userId - User
+ * @param period - Billing period the usage falls in
+ * @param meter - Counter meter
+ * @param quantity - Amount to add
+ * @param prepaid - How much of the amount was already paid for
+ */
+export async function incrementUsage(
+  userId: string,
+  period: UsagePeriod,
+  meter: UsageMeter,
+  quantity: number,
+  prepaid: number = 0
+): Promise<void> {
+  await docClient.send(new UpdateCommand({
+    TableName: USAGE_TABLE,
+    Key: { userId, periodStart: period.periodStart },
+    UpdateExpression: 'ADD #meter :quantity, #prepaid :prepaid SET periodEnd = :periodEnd, updatedAt = :now',
+    ExpressionAttributeNames: { '#meter': meter, '#prepaid': prepaidAttribute(meter) },
+    ExpressionAttributeValues: {
+      ':quantity': quantity,
+      ':prepaid': prepaid,
+      ':periodEnd': period.periodEnd,
+      ':now': Date.now(),
+    },
+  }));
+}
+
+/**
+ * Records a gauge reading, keeping the highest reading of the period
+ *
+ * @param userId - User
+ * @param period - Billing period the reading falls in
+ * @param meter - Gauge meter
+ * @param value - Current reading
+ */
+export async function recordPeakUsage(userId: string, period: UsagePeriod, meter: UsageMeter, value: number): Promise<void> {
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: USAGE_TABLE,
+      Key: { userId, periodStart: period.periodStart },
+      UpdateExpression: 'SET #meter = :value, periodEnd = :periodEnd, updatedAt = :now',
+      ConditionExpression: 'attribute_not_exists(#meter) OR #meter < :value',
+      ExpressionAttributeNames: { '#meter': meter },
+      ExpressionAttributeValues: {
+        ':value': value,
+        ':periodEnd': period.periodEnd,
+        ':now': Date.now(),
+      },
+    }));
+  } catch (error) {
+    // The period already had a higher reading
+    if (!isConditionalCheckFailure(error)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Stamps a period's usage with the invoice that billed its overage
+ *
+ * @param userId - User
+ * @param periodStart - Start of the billing period
+ * @param invoiceId - Invoice carrying the overage
+ * @returns Promise<boolean> - False when the period was already billed
+ */
+export async function markUsageBilled(userId: string, periodStart: number, invoiceId: string): Promise<boolean> {
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: USAGE_TABLE,
+      Key: { userId, periodStart },
+      UpdateExpression: 'SET billedInvoiceId = :invoiceId, billedAt = :now, updatedAt = :now',
+      ConditionExpression: 'attribute_exists(userId) AND attribute_not_exists(billedInvoiceId)',
+      ExpressionAttributeValues: {
+        ':invoiceId': invoiceId,
+        ':now': Date.now(),
+      },
+    }));
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
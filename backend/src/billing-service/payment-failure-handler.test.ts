@@ -20,6 +20,11 @@ import { BillingAccount, Transaction } from '@harborlist/shared-types';
 jest.mock('../shared/database');
 const mockDb = db as jest.Mocked<typeof db>;
 
+// Mock the job scheduler (dunning steps and retries are scheduled as jobs)
+jest.mock('../jobs/scheduler', () => ({
+  scheduleJob: jest.fn().mockResolvedValue(true),
+}));
+
 describe('PaymentFailureHandler', () => {
   let paymentFailureHandler: PaymentFailureHandler;
   let mockPaymentProcessor: jest.Mocked<PaymentProcessor>;
@@ -86,6 +91,7 @@ describe('PaymentFailureHandler', () => {
     mockDb.updateUser.mockResolvedValue(undefined);
     mockDb.createTransaction.mockResolvedValue(undefined);
     mockDb.getTransaction.mockResolvedValue(mockTransaction);
+    mockDb.getTransactionByProcessorId.mockResolvedValue(mockTransaction);
     mockDb.createDisputeCase.mockResolvedValue(undefined);
     mockDb.createDisputeWorkflow.mockResolvedValue(undefined);
   });
@@ -327,7 +333,7 @@ describe('PaymentFailureHandler', () => {
 
     it('should throw error when transaction not found', async () => {
       // Arrange
-      mockDb.getTransaction.mockResolvedValue(null);
+      mockDb.getTransactionByProcessorId.mockResolvedValue(null);
 
       // Act & Assert
       await expect(paymentFailureHandler.createDisputeCase(
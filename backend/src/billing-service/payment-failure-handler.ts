@@ -12,6 +12,7 @@
  * - 7-day grace period for failed payments
  * - Automatic subscription suspension after grace period
  * - Dispute evidence collection and submission
+ * - Dunning steps and retries run as persisted jobs (see jobs/scheduler.ts)
  * 
  * @author HarborList Development Team
  * @version 1.0.0
@@ -19,8 +20,17 @@
 
 import { db } from '../shared/database';
 import { PaymentProcessor } from './payment-processors/stripe';
+import { isSuccessfulPaymentStatus } from './payment-processors/types';
 import { BillingAccount, Transaction, DisputeCase, DisputeEvidence } from '@harborlist/shared-types';
 import { generateId } from '../shared/utils';
+import { scheduleJob } from '../jobs/scheduler';
+import { postDisputeOpened } from './ledger/ledger-manager';
+
+/**
+ * Scheduled job types run by this handler (see billing-service/jobs.ts)
+ */
+export const DUNNING_STEP_JOB = 'billing.dunning_step';
+export const PAYMENT_RETRY_JOB = 'billing.payment_retry';
 
 /**
  * Payment failure reason codes
@@ -343,7 +353,7 @@ export class PaymentFailureHandler {
         }
       );
 
-      if (paymentResult.status === 'succeeded' || paymentResult.status === 'completed') {
+      if (isSuccessfulPaymentStatus(paymentResult.status)) {
         // Payment succeeded - resolve failure
         await this.resolvePaymentFailure(failure.failureId, 'retry_success');
         
@@ -378,11 +388,14 @@ export class PaymentFailureHandler {
         this.retryConfig.maxDelayMs
       );
 
+      const nextRetryAt = Date.now() + nextRetryDelay;
       await db.updatePaymentFailure(failure.failureId, {
         attemptNumber: nextAttempt,
-        nextRetryAt: Date.now() + nextRetryDelay,
+        nextRetryAt,
         updatedAt: Date.now(),
       });
+
+      await this.scheduleRetryAttempt({ ...failure, attemptNumber: nextAttempt, nextRetryAt });
     } else {
       // Max attempts reached - suspend service
       await this.suspendService(failure);
@@ -460,41 +473,75 @@ export class PaymentFailureHandler {
    * Schedules a dunning step for future execution
    */
   private async scheduleDunningStep(failure: PaymentFailure, step: DunningStep): Promise<void> {
-    const executeAt = failure.createdAt + (step.delayDays * 24 * 60 * 60 * 1000);
-    
-    // In a real implementation, you'd use a job queue or scheduler
-    console.log(`Scheduling dunning step ${step.stepId} for ${new Date(executeAt)}`);
-    
-    // For now, we'll use setTimeout (not recommended for production)
-    setTimeout(async () => {
-      const currentFailure = await db.getPaymentFailure(failure.failureId);
-      if (currentFailure && !currentFailure.resolved) {
-        await this.executeDunningStep(currentFailure, step);
-      }
-    }, executeAt - Date.now());
+    await scheduleJob({
+      type: DUNNING_STEP_JOB,
+      jobId: `dunning:${failure.failureId}:${step.stepId}`,
+      runAt: failure.createdAt + (step.delayDays * 24 * 60 * 60 * 1000),
+      payload: { failureId: failure.failureId, stepId: step.stepId },
+    });
+  }
+
+  /**
+   * Runs a scheduled dunning step (called by the job scheduler)
+   *
+   * Skipped when the failure has been resolved in the meantime.
+   */
+  async runDunningStep(failureId: string, stepId: string): Promise<void> {
+    const failure = await db.getPaymentFailure(failureId);
+    if (!failure || failure.resolved) {
+      return;
+    }
+
+    const step = this.findDunningCampaign(failure)?.steps.find(candidate => candidate.stepId === stepId);
+    if (!step) {
+      console.log(`Dunning step ${stepId} no longer applies to failure ${failureId}`);
+      return;
+    }
+
+    await this.executeDunningStep(failure, step);
+  }
+
+  /**
+   * Runs a scheduled payment retry (called by the job scheduler)
+   *
+   * Skipped when the failure has been resolved or the attempt was already
+   * made, e.g. by the manual retry sweep.
+   */
+  async runRetryAttempt(failureId: string, attemptNumber: number): Promise<void> {
+    const failure = await db.getPaymentFailure(failureId);
+    if (!failure || failure.resolved || failure.attemptNumber !== attemptNumber) {
+      return;
+    }
+
+    await this.attemptPaymentRetry(failure);
   }
 
   /**
    * Creates a dispute case
+   *
+   * @param processorTransactionId - Processor's ID for the disputed charge, as sent in dispute webhooks
    */
   async createDisputeCase(
-    transactionId: string,
+    processorTransactionId: string,
     disputeType: 'chargeback' | 'inquiry' | 'fraud' | 'authorization' | 'processing_error',
     disputeAmount: number,
     evidenceRequired: string[],
     respondByDate: number
   ): Promise<DisputeCase> {
     try {
-      const transaction = await db.getTransaction(transactionId);
+      const transaction = await db.getTransactionByProcessorId(processorTransactionId);
       if (!transaction) {
         throw new Error('Transaction not found');
       }
+      const { transactionId } = transaction;
 
+      const disputeId = generateId();
       const disputeCase: DisputeCase = {
-        disputeId: generateId(),
+        id: disputeId,
+        disputeId,
         caseNumber: `DISP-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
         transactionId,
-        type: 'dispute',
+        type: transaction.type,
         amount: transaction.amount,
         currency: transaction.currency,
         status: 'disputed',
@@ -520,6 +567,13 @@ export class PaymentFailureHandler {
 
       await db.createDisputeCase(disputeCase);
 
+      // The processor withdraws the disputed amount while the dispute is open
+      try {
+        await postDisputeOpened(transactionId, disputeAmount, transaction.currency);
+      } catch (error) {
+        console.error(`Error posting dispute ${disputeId} to the ledger:`, error);
+      }
+
       // Create dispute workflow
       await this.createDisputeWorkflow(disputeCase);
 
@@ -600,7 +654,7 @@ export class PaymentFailureHandler {
   /**
    * Resolves a payment failure
    */
-  private async resolvePaymentFailure(
+  async resolvePaymentFailure(
     failureId: string,
     resolutionMethod: 'retry_success' | 'manual_payment' | 'plan_change' | 'cancellation'
   ): Promise<void> {
@@ -655,8 +709,12 @@ export class PaymentFailureHandler {
    * Schedules retry attempt
    */
   private async scheduleRetryAttempt(failure: PaymentFailure): Promise<void> {
-    // In a real implementation, you'd use a job queue
-    console.log(`Scheduling retry attempt for ${new Date(failure.nextRetryAt!)}`);
+    await scheduleJob({
+      type: PAYMENT_RETRY_JOB,
+      jobId: `payment-retry:${failure.failureId}:${failure.attemptNumber}`,
+      runAt: failure.nextRetryAt!,
+      payload: { failureId: failure.failureId, attemptNumber: failure.attemptNumber },
+    });
   }
 
   /**
@@ -17,6 +17,7 @@
  */
 
 import { PaymentProcessor } from './payment-processors/stripe';
+import { PaymentProcessorType } from './payment-processors/types';
 import { db } from '../shared/database';
 import { generateId, sanitizeString } from '../shared/utils';
 
@@ -59,7 +60,7 @@ export interface PaymentMethodData {
 export interface StoredPaymentMethod {
   id: string;
   userId: string;
-  processorType: 'stripe' | 'paypal';
+  processorType: PaymentProcessorType;
   processorPaymentMethodId: string;
   type: 'card' | 'bank_account' | 'paypal';
   last4?: string;
@@ -101,9 +102,9 @@ export interface PaymentMethodValidationResult {
  */
 export class PaymentMethodManager {
   private paymentProcessor: PaymentProcessor;
-  private processorType: 'stripe' | 'paypal';
+  private processorType: PaymentProcessorType;
 
-  constructor(paymentProcessor: PaymentProcessor, processorType: 'stripe' | 'paypal') {
+  constructor(paymentProcessor: PaymentProcessor, processorType: PaymentProcessorType) {
     this.paymentProcessor = paymentProcessor;
     this.processorType = processorType;
   }
@@ -517,7 +518,7 @@ export class PaymentMethodManager {
  */
 export function createPaymentMethodManager(
   paymentProcessor: PaymentProcessor,
-  processorType: 'stripe' | 'paypal'
+  processorType: PaymentProcessorType
 ): PaymentMethodManager {
   return new PaymentMethodManager(paymentProcessor, processorType);
 }
\ No newline at end of file
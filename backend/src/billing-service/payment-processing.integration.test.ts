@@ -221,7 +221,7 @@ describe('Payment Processing Integration Tests', () => {
       expect(result.subscriptionId).toBe('sub_test123');
       expect(result.status).toBe('active');
       expect(mockDb.updateBillingAccount).toHaveBeenCalled();
-      expect(mockDb.updateUser).toHaveBeenCalled();
+      expect(mockDb.updateUserType).toHaveBeenCalled();
     });
 
     it('should update subscription plan with prorated billing', async () => {
@@ -348,7 +348,7 @@ describe('Payment Processing Integration Tests', () => {
         netAmount: 28.82,
       };
 
-      mockDb.getTransaction.mockResolvedValue(mockTransaction);
+      mockDb.getTransactionByProcessorId.mockResolvedValue(mockTransaction);
       mockDb.createDisputeCase.mockResolvedValue(undefined);
       mockDb.createDisputeWorkflow.mockResolvedValue(undefined);
 
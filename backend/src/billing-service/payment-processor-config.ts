@@ -5,7 +5,7 @@
  * environment-specific settings, security validation, and processor selection.
  * 
  * Features:
- * - Multi-processor support (Stripe, PayPal)
+ * - Multi-processor support (Stripe, PayPal, and the offline simulator for local development)
  * - Environment-specific configuration
  * - Security validation and key management
  * - Processor health checking
@@ -17,12 +17,14 @@
 
 import { PaymentProcessor, createStripeProcessor } from './payment-processors/stripe';
 import { createPayPalProcessor } from './payment-processors/paypal';
+import { createSimulatorProcessor } from './payment-processors/simulator';
+import { PaymentProcessorType } from './payment-processors/types';
 
 /**
  * Payment processor configuration interface
  */
 export interface PaymentProcessorConfig {
-  type: 'stripe' | 'paypal';
+  type: PaymentProcessorType;
   enabled: boolean;
   environment: 'sandbox' | 'live' | 'test';
   credentials: {
@@ -51,7 +53,7 @@ export interface PaymentProcessorConfig {
  * Payment processor health status
  */
 export interface ProcessorHealthStatus {
-  type: 'stripe' | 'paypal';
+  type: PaymentProcessorType;
   healthy: boolean;
   lastChecked: number;
   responseTime?: number;
@@ -129,9 +131,32 @@ export class PaymentProcessorConfigManager {
       },
     };
 
+    // Load simulator configuration (local development and tests only)
+    const simulatorConfig: PaymentProcessorConfig = {
+      type: 'simulator',
+      enabled: this.isProcessorEnabled('simulator'),
+      environment: this.getEnvironment(),
+      credentials: {
+        webhookSecret: process.env.SIMULATOR_WEBHOOK_SECRET,
+      },
+      settings: {
+        returnUrl: this.getDefaultReturnUrl(),
+        cancelUrl: this.getDefaultCancelUrl(),
+        currency: process.env.DEFAULT_CURRENCY || 'USD',
+        supportedCountries: this.getSupportedCountries('simulator'),
+        features: {
+          subscriptions: true,
+          refunds: true,
+          disputes: true,
+          webhooks: true,
+        },
+      },
+    };
+
     // Store configurations
     this.configs.set('stripe', stripeConfig);
     this.configs.set('paypal', paypalConfig);
+    this.configs.set('simulator', simulatorConfig);
 
     // Initialize processors
     this.initializeProcessors();
@@ -175,6 +200,18 @@ export class PaymentProcessorConfigManager {
             );
             break;
 
+          case 'simulator':
+            if (config.environment === 'live') {
+              console.warn(`Payment simulator cannot run in production, skipping initialization`);
+              continue;
+            }
+            if (!config.credentials.webhookSecret) {
+              console.warn(`Simulator configuration incomplete, skipping initialization`);
+              continue;
+            }
+            processor = createSimulatorProcessor(config.credentials.webhookSecret);
+            break;
+
           default:
             console.warn(`Unknown payment processor type: ${config.type}`);
             continue;
@@ -204,7 +241,7 @@ export class PaymentProcessorConfigManager {
    * @param type - Processor type to retrieve
    * @returns PaymentProcessor | null - Processor or null if not available
    */
-  getProcessor(type: 'stripe' | 'paypal'): PaymentProcessor | null {
+  getProcessor(type: PaymentProcessorType): PaymentProcessor | null {
     return this.processors.get(type) || null;
   }
 
@@ -226,7 +263,7 @@ export class PaymentProcessorConfigManager {
    * @param type - Processor type
    * @returns PaymentProcessorConfig | null - Configuration or null if not found
    */
-  getConfig(type: 'stripe' | 'paypal'): PaymentProcessorConfig | null {
+  getConfig(type: PaymentProcessorType): PaymentProcessorConfig | null {
     return this.configs.get(type) || null;
   }
 
@@ -245,7 +282,7 @@ export class PaymentProcessorConfigManager {
    * @param type - Processor type to check
    * @returns boolean - True if processor is available
    */
-  isProcessorAvailable(type: 'stripe' | 'paypal'): boolean {
+  isProcessorAvailable(type: PaymentProcessorType): boolean {
     return this.processors.has(type);
   }
 
@@ -273,7 +310,7 @@ export class PaymentProcessorConfigManager {
         const responseTime = Date.now() - startTime;
 
         this.healthStatus.set(type, {
-          type: type as 'stripe' | 'paypal',
+          type: type as PaymentProcessorType,
           healthy: isHealthy,
           lastChecked: now,
           responseTime,
@@ -290,7 +327,7 @@ export class PaymentProcessorConfigManager {
         const responseTime = Date.now() - startTime;
         
         this.healthStatus.set(type, {
-          type: type as 'stripe' | 'paypal',
+          type: type as PaymentProcessorType,
           healthy: false,
           lastChecked: now,
           responseTime,
@@ -326,7 +363,7 @@ export class PaymentProcessorConfigManager {
    * @param type - Processor type to check
    * @returns boolean - True if processor is enabled
    */
-  private isProcessorEnabled(type: 'stripe' | 'paypal'): boolean {
+  private isProcessorEnabled(type: PaymentProcessorType): boolean {
     const enabledProcessors = (process.env.ENABLED_PAYMENT_PROCESSORS || 'stripe,paypal')
       .split(',')
       .map(p => p.trim().toLowerCase());
@@ -387,7 +424,7 @@ export class PaymentProcessorConfigManager {
    * @param type - Processor type
    * @returns string[] - Array of supported country codes
    */
-  private getSupportedCountries(type: 'stripe' | 'paypal'): string[] {
+  private getSupportedCountries(type: PaymentProcessorType): string[] {
     // This would typically come from processor documentation or API
     const defaultCountries = ['US', 'CA', 'GB', 'AU', 'DE', 'FR', 'IT', 'ES', 'NL', 'BE'];
     
@@ -433,7 +470,7 @@ export class PaymentProcessorConfigManager {
    * @param type - Processor type
    * @returns object - Processor capabilities
    */
-  getProcessorCapabilities(type: 'stripe' | 'paypal'): PaymentProcessorConfig['settings']['features'] | null {
+  getProcessorCapabilities(type: PaymentProcessorType): PaymentProcessorConfig['settings']['features'] | null {
     const config = this.getConfig(type);
     return config?.settings.features || null;
   }
@@ -444,7 +481,7 @@ export class PaymentProcessorConfigManager {
    * @param type - Processor type to validate
    * @returns object - Validation result
    */
-  validateProcessorConfig(type: 'stripe' | 'paypal'): { valid: boolean; errors: string[] } {
+  validateProcessorConfig(type: PaymentProcessorType): { valid: boolean; errors: string[] } {
     const config = this.getConfig(type);
     const errors: string[] = [];
 
@@ -475,6 +512,15 @@ export class PaymentProcessorConfigManager {
           errors.push('PayPal client secret is missing');
         }
         break;
+
+      case 'simulator':
+        if (config.environment === 'live') {
+          errors.push('Payment simulator cannot run in production');
+        }
+        if (!config.credentials.webhookSecret) {
+          errors.push('Simulator webhook secret is missing');
+        }
+        break;
     }
 
     if (!config.settings.returnUrl) {
@@ -522,6 +568,6 @@ export function getPrimaryPaymentProcessor(): PaymentProcessor | null {
  * @param type - Processor type to retrieve
  * @returns PaymentProcessor | null - Requested payment processor
  */
-export function getPaymentProcessor(type: 'stripe' | 'paypal'): PaymentProcessor | null {
+export function getPaymentProcessor(type: PaymentProcessorType): PaymentProcessor | null {
   return getPaymentProcessorConfigManager().getProcessor(type);
 }
\ No newline at end of file
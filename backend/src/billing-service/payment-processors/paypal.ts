@@ -15,7 +15,7 @@
  */
 
 import axios, { AxiosInstance } from 'axios';
-import { PaymentProcessor, PaymentMethodData, SubscriptionUpdateData, PaymentIntentData, SubscriptionData, WebhookHandlerResult } from './stripe';
+import { PaymentProcessor, PaymentMethodData, SubscriptionDiscount, SubscriptionUpdateData, PaymentIntentData, SubscriptionData, WebhookHandlerResult } from './types';
 
 /**
  * PayPal API configuration
@@ -237,12 +237,20 @@ export class PayPalPaymentProcessor implements PaymentProcessor {
     customerId: string, 
     priceId: string, 
     paymentMethodId: string,
-    metadata?: Record<string, string>
+    metadata?: Record<string, string>,
+    firstPeriodDiscount?: SubscriptionDiscount,
+    trialEnd?: number
   ): Promise<{ subscriptionId: string; status: string }> {
     try {
+      // PayPal bills the plan's price from the first cycle; it has no one-off credit to discount it with
+      if (firstPeriodDiscount) {
+        throw new Error('PayPal subscriptions cannot take a first-period discount');
+      }
+
       const subscriptionData = {
         plan_id: priceId,
-        start_time: new Date(Date.now() + 60000).toISOString(), // Start 1 minute from now
+        // Billing starts when the trial ends, otherwise 1 minute from now
+        start_time: new Date(trialEnd || Date.now() + 60000).toISOString(),
         quantity: '1',
         shipping_amount: {
           currency_code: 'USD',
@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Unit tests for the payment processor simulator
+ *
+ * Drives the simulator through the real WebhookHandler: signed webhook
+ * delivery, scripted declines feeding dunning, disputes, subscription
+ * renewals and signature verification.
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { BillingAccount, JournalEntry, Transaction } from '@harborlist/shared-types';
+import {
+  buildSimulatorWebhookEvent,
+  signSimulatorPayload,
+  SimulatorPaymentProcessor,
+} from './simulator';
+import { isSuccessfulPaymentStatus } from './types';
+import { WebhookHandler } from '../webhook-handler';
+import { PaymentFailureHandler, PaymentFailureReason } from '../payment-failure-handler';
+import { SubscriptionManager } from '../subscription-manager';
+import { recordTransactionInLedger } from '../ledger/ledger-manager';
+import { LEDGER_ACCOUNT_CODES } from '../ledger/ledger-accounts';
+import { createJournalEntry, getJournalEntry } from '../ledger/ledger-store';
+import { db } from '../../shared/database';
+
+jest.mock('../../shared/database');
+const mockDb = db as jest.Mocked<typeof db>;
+
+// Dispute postings run for real against an in-memory journal
+jest.mock('../ledger/ledger-manager', () => ({
+  ...jest.requireActual('../ledger/ledger-manager'),
+  recordTransactionInLedger: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../ledger/ledger-store', () => ({
+  createJournalEntry: jest.fn(),
+  getJournalEntry: jest.fn(),
+  getLedgerPeriod: jest.fn(),
+  ensureLedgerPeriod: jest.fn(),
+}));
+const mockCreateJournalEntry = createJournalEntry as jest.MockedFunction<typeof createJournalEntry>;
+const mockGetJournalEntry = getJournalEntry as jest.MockedFunction<typeof getJournalEntry>;
+
+const SECRET = 'whsec_test_simulator';
+
+const card = (number: string) => ({
+  type: 'card' as const,
+  card: { number, exp_month: 12, exp_year: 2030, cvc: '123' },
+});
+
+describe('SimulatorPaymentProcessor', () => {
+  let processor: SimulatorPaymentProcessor;
+  let paymentFailureHandler: jest.Mocked<Pick<PaymentFailureHandler, 'handlePaymentFailure' | 'createDisputeCase'>>;
+  let webhookHandler: WebhookHandler;
+  let responses: APIGatewayProxyResult[];
+  let customerId: string;
+  let paymentMethodId: string;
+  let journal: Map<string, JournalEntry>;
+
+  const billingAccount = {
+    billingId: 'billing123',
+    userId: 'user123',
+    plan: 'premium_individual',
+    status: 'active',
+  } as BillingAccount;
+
+  const transactionFor = (processorTransactionId: string): Transaction => ({
+    id: 'txn-record',
+    transactionId: 'txn123',
+    type: 'payment',
+    amount: 50,
+    currency: 'USD',
+    status: 'pending',
+    userId: 'user123',
+    userName: '',
+    userEmail: '',
+    paymentMethod: 'card',
+    processorTransactionId,
+    createdAt: '2024-03-15T00:00:00.000Z',
+    description: 'Listing fee',
+    fees: 1.75,
+    netAmount: 48.25,
+    billingAccountId: 'billing123',
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    responses = [];
+
+    mockDb.getProcessedWebhookEvent.mockResolvedValue(null);
+    mockDb.createProcessedWebhookEvent.mockResolvedValue(undefined);
+    mockDb.getBillingAccountByCustomerId.mockResolvedValue(null);
+    mockDb.getBillingAccountBySubscription.mockResolvedValue(billingAccount);
+    mockDb.getTransactionByProcessorId.mockImplementation(async id => transactionFor(id));
+
+    journal = new Map();
+    mockCreateJournalEntry.mockImplementation(async entry => {
+      if (journal.has(entry.entryId)) {
+        return false;
+      }
+      journal.set(entry.entryId, entry);
+      return true;
+    });
+    mockGetJournalEntry.mockImplementation(async entryId => journal.get(entryId) || null);
+
+    paymentFailureHandler = {
+      handlePaymentFailure: jest.fn().mockResolvedValue(undefined),
+      createDisputeCase: jest.fn().mockResolvedValue(undefined),
+    } as any;
+
+    processor = new SimulatorPaymentProcessor(SECRET, { webhookDelayMs: -1 });
+    webhookHandler = new WebhookHandler(
+      processor,
+      paymentFailureHandler as unknown as PaymentFailureHandler,
+      {} as SubscriptionManager
+    );
+    processor.setWebhookDispatcher(async (payload, signature) => {
+      responses.push(await webhookHandler.handleWebhook(buildSimulatorWebhookEvent(payload, signature)));
+    });
+
+    ({ customerId } = await processor.createCustomer({ email: 'buyer@example.com', name: 'Test Buyer' }));
+    ({ paymentMethodId } = await processor.createPaymentMethod(customerId, card('4242424242424242')));
+    await processor.flushWebhooks();
+    responses = [];
+  });
+
+  it('delivers a signed webhook that completes the transaction', async () => {
+    const result = await processor.processPayment(50, 'USD', paymentMethodId, { listingId: 'listing-1' });
+    expect(isSuccessfulPaymentStatus(result.status)).toBe(true);
+
+    expect(await processor.flushWebhooks()).toBe(1);
+    expect(responses.map(response => response.statusCode)).toEqual([200]);
+    expect(mockDb.getTransactionByProcessorId).toHaveBeenCalledWith(result.transactionId);
+    expect(mockDb.updateTransaction).toHaveBeenCalledWith('txn-record', expect.objectContaining({ status: 'completed' }));
+    expect(recordTransactionInLedger).toHaveBeenCalledWith(expect.objectContaining({ status: 'completed' }));
+  });
+
+  it('declines scripted charges and hands them to dunning', async () => {
+    processor.scriptScenario(paymentMethodId, 'insufficient_funds', 2);
+
+    const first = await processor.processPayment(50, 'USD', paymentMethodId);
+    const second = await processor.processPayment(50, 'USD', paymentMethodId);
+    const third = await processor.processPayment(50, 'USD', paymentMethodId);
+
+    expect([first, second, third].map(result => isSuccessfulPaymentStatus(result.status))).toEqual([false, false, true]);
+
+    await processor.flushWebhooks();
+    expect(paymentFailureHandler.handlePaymentFailure).toHaveBeenCalledTimes(2);
+    expect(paymentFailureHandler.handlePaymentFailure).toHaveBeenCalledWith(
+      'txn123',
+      'billing123',
+      PaymentFailureReason.INSUFFICIENT_FUNDS,
+      'Your card has insufficient funds.'
+    );
+  });
+
+  it('opens disputes for test cards and only closes disputes opened in the ledger', async () => {
+    const { paymentMethodId: disputedCard } = await processor.createPaymentMethod(customerId, card('4000 0000 0000 0259'));
+    const result = await processor.processPayment(50, 'USD', disputedCard);
+    expect(isSuccessfulPaymentStatus(result.status)).toBe(true);
+
+    await processor.flushWebhooks();
+    expect(paymentFailureHandler.createDisputeCase).toHaveBeenCalledWith(
+      result.transactionId,
+      'fraud',
+      50,
+      expect.any(Array),
+      expect.any(Number)
+    );
+
+    const disputeId = processor.openDispute(result.transactionId, 'duplicate');
+    processor.closeDispute(disputeId, 'lost');
+    await processor.flushWebhooks();
+
+    // The dispute case handler is mocked here, so no opening was posted and nothing is released
+    expect(responses.every(response => response.statusCode === 200)).toBe(true);
+    expect(journal.size).toBe(0);
+    expect(() => processor.closeDispute(disputeId, 'won')).toThrow('already closed');
+  });
+
+  it('creates a dispute case and balanced ledger postings for a disputed charge', async () => {
+    const disputeWebhookHandler = new WebhookHandler(processor, new PaymentFailureHandler(processor), {} as SubscriptionManager);
+    processor.setWebhookDispatcher(async (payload, signature) => {
+      responses.push(await disputeWebhookHandler.handleWebhook(buildSimulatorWebhookEvent(payload, signature)));
+    });
+
+    const result = await processor.processPayment(50, 'USD', paymentMethodId);
+    const disputeId = processor.openDispute(result.transactionId, 'fraudulent');
+    await processor.flushWebhooks();
+
+    expect(mockDb.getTransactionByProcessorId).toHaveBeenCalledWith(result.transactionId);
+    expect(mockDb.createDisputeCase).toHaveBeenCalledWith(expect.objectContaining({
+      transactionId: 'txn123',
+      processorTransactionId: result.transactionId,
+      disputeType: 'fraud',
+      disputeAmount: 50,
+    }));
+
+    processor.closeDispute(disputeId, 'lost');
+    await processor.flushWebhooks();
+
+    expect(responses.every(response => response.statusCode === 200)).toBe(true);
+    expect([...journal.keys()]).toEqual(['dispute_txn123_opened', 'dispute_txn123_closed']);
+    const disputedFunds = [...journal.values()]
+      .flatMap(entry => entry.lines)
+      .filter(line => line.accountCode === LEDGER_ACCOUNT_CODES.DISPUTED_FUNDS)
+      .reduce((balance, line) => balance + line.debit - line.credit, 0);
+    expect(disputedFunds).toBe(0);
+    expect(journal.get('dispute_txn123_closed')!.lines).toContainEqual(
+      expect.objectContaining({ accountCode: LEDGER_ACCOUNT_CODES.CHARGEBACK_LOSSES, debit: 50 })
+    );
+  });
+
+  it('reports failed subscription renewals as failed invoices', async () => {
+    const { subscriptionId } = await processor.createSubscription(customerId, 'price_premium_monthly', paymentMethodId);
+    await processor.flushWebhooks();
+
+    processor.scriptScenario(customerId, 'card_declined');
+    const renewed = await processor.renewSubscription(subscriptionId);
+    expect(renewed.status).toBe('past_due');
+
+    await processor.flushWebhooks();
+    expect(paymentFailureHandler.handlePaymentFailure).toHaveBeenCalledWith(
+      expect.stringMatching(/^invoice_in_sim_/),
+      'billing123',
+      expect.any(String),
+      'Invoice payment failed'
+    );
+    expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing123', expect.objectContaining({ status: 'past_due' }));
+  });
+
+  it('rejects tampered and stale webhook signatures', async () => {
+    const payload = JSON.stringify({ id: 'evt_1', type: 'payment_intent.succeeded', data: { object: {} } });
+    const signature = signSimulatorPayload(payload, SECRET);
+
+    expect(processor.constructWebhookEvent(payload, signature).id).toBe('evt_1');
+    expect(() => processor.constructWebhookEvent(payload.replace('evt_1', 'evt_2'), signature))
+      .toThrow('Invalid webhook signature');
+    expect(() => processor.constructWebhookEvent(payload, signSimulatorPayload(payload, SECRET, Math.floor(Date.now() / 1000) - 600)))
+      .toThrow('Invalid webhook signature');
+
+    const response = await webhookHandler.handleWebhook(
+      buildSimulatorWebhookEvent(payload, signSimulatorPayload(payload, 'whsec_wrong'))
+    );
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('refunds up to the amount charged', async () => {
+    const { transactionId } = await processor.processPayment(20, 'USD', paymentMethodId);
+
+    await expect(processor.processRefund(transactionId, 15)).resolves.toEqual(expect.objectContaining({ status: 'succeeded' }));
+    await expect(processor.processRefund(transactionId, 10)).rejects.toThrow('Refund exceeds');
+  });
+
+  it('only scripts scenarios for known payment methods and customers', () => {
+    expect(() => processor.scriptScenario('pm_unknown', 'card_declined')).toThrow('not found');
+    expect(() => processor.scriptScenario(paymentMethodId, 'stolen' as any)).toThrow('Simulator scenario must be one of');
+  });
+});
@@ -0,0 +1,814 @@
+/**
+ * @fileoverview Offline payment processor simulator for HarborList billing service.
+ *
+ * Implements PaymentProcessor entirely in memory so billing can run without
+ * Stripe or PayPal credentials (docker-compose, tests). Objects and webhook
+ * events are shaped like Stripe's. Every state change emits a webhook event,
+ * signed with an HMAC of the payload and delivered to the registered
+ * dispatcher (normally WebhookHandler.handleWebhook) shortly after the call
+ * that caused it, the way a real processor calls back asynchronously.
+ *
+ * Failure scenarios are scripted per payment method or customer:
+ * - card_declined, insufficient_funds, expired_card, authentication_required: the charge fails
+ * - dispute: the charge succeeds, then the customer disputes it
+ * Test card numbers (SIMULATOR_TEST_CARDS) trigger a scenario on every charge.
+ *
+ * State lives in process memory and is lost on restart. The simulator refuses
+ * to start in production (see PaymentProcessorConfigManager).
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import crypto from 'crypto';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { generateId } from '../../shared/utils';
+import {
+  PaymentProcessor,
+  PaymentMethodData,
+  SubscriptionDiscount,
+  SubscriptionUpdateData,
+  PaymentIntentData,
+  SubscriptionData,
+  WebhookHandlerResult,
+} from './types';
+
+/**
+ * Failure scenarios the simulator can play out
+ */
+export type SimulatorScenario =
+  | 'card_declined'
+  | 'insufficient_funds'
+  | 'expired_card'
+  | 'authentication_required'
+  | 'dispute';
+
+export const SIMULATOR_SCENARIOS: SimulatorScenario[] = [
+  'card_declined',
+  'insufficient_funds',
+  'expired_card',
+  'authentication_required',
+  'dispute',
+];
+
+/**
+ * Card numbers that trigger a scenario on every charge (the same numbers Stripe uses in test mode)
+ */
+export const SIMULATOR_TEST_CARDS: Record<string, SimulatorScenario> = {
+  '4000000000000002': 'card_declined',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000000069': 'expired_card',
+  '4000002500003155': 'authentication_required',
+  '4000000000000259': 'dispute',
+};
+
+/**
+ * Header carrying the webhook signature
+ */
+export const SIMULATOR_SIGNATURE_HEADER = 'simulator-signature';
+
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+const DISPUTE_EVIDENCE_DAYS = 7;
+
+const DECLINE_MESSAGES: Record<Exclude<SimulatorScenario, 'dispute'>, string> = {
+  card_declined: 'Your card was declined.',
+  insufficient_funds: 'Your card has insufficient funds.',
+  expired_card: 'Your card has expired.',
+  authentication_required: 'Your card requires authentication.',
+};
+
+/**
+ * Webhook event emitted by the simulator
+ */
+export interface SimulatorWebhookEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: {
+    object: any;
+  };
+}
+
+/**
+ * Delivers a signed webhook payload
+ */
+export type SimulatorWebhookDispatcher = (payload: string, signature: string) => Promise<unknown>;
+
+/**
+ * Simulator options
+ */
+export interface SimulatorOptions {
+  webhookDelayMs?: number; // negative disables automatic delivery; use flushWebhooks()
+  prices?: Record<string, number>; // subscription price amounts by price ID, in dollars
+}
+
+interface SimulatedPaymentMethod {
+  id: string;
+  customer: string;
+  type: PaymentMethodData['type'];
+  last4?: string;
+  scenario?: SimulatorScenario;
+}
+
+interface SimulatedPaymentIntent {
+  id: string;
+  object: 'payment_intent';
+  amount: number; // cents
+  amount_refunded: number; // cents
+  currency: string;
+  customer: string;
+  payment_method: string;
+  status: string;
+  last_payment_error?: { code: string; decline_code: string; message: string };
+  metadata: Record<string, string>;
+  created: number;
+}
+
+interface SimulatedSubscription {
+  id: string;
+  object: 'subscription';
+  customer: string;
+  price: string;
+  default_payment_method: string;
+  status: string;
+  current_period_start: number;
+  current_period_end: number;
+  cancel_at_period_end: boolean;
+  canceled_at: number | null;
+  trial_end: number | null;
+  metadata: Record<string, string>;
+}
+
+interface SimulatedDispute {
+  id: string;
+  object: 'dispute';
+  charge: string;
+  amount: number; // cents
+  currency: string;
+  reason: string;
+  status: string;
+  evidence_details: { due_by: number };
+  created: number;
+}
+
+interface ScriptedScenario {
+  scenario: SimulatorScenario;
+  remaining: number;
+}
+
+/**
+ * Signs a webhook payload
+ *
+ * Uses the same scheme as Stripe: an HMAC-SHA256 of "timestamp.payload".
+ *
+ * @param payload - Raw JSON payload
+ * @param secret - Webhook secret
+ * @param timestamp - Unix seconds (defaults to now)
+ * @returns string - Signature header value, "t=...,v1=..."
+ */
+export function signSimulatorPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Wraps a signed webhook payload in the API Gateway event the webhook handler expects
+ *
+ * @param payload - Raw JSON payload
+ * @param signature - Signature header value
+ * @returns APIGatewayProxyEvent - Event for WebhookHandler.handleWebhook
+ */
+export function buildSimulatorWebhookEvent(payload: string, signature: string): APIGatewayProxyEvent {
+  // Only the fields the webhook handler reads
+  return {
+    httpMethod: 'POST',
+    path: '/billing/webhooks/simulator',
+    headers: { [SIMULATOR_SIGNATURE_HEADER]: signature },
+    body: payload,
+    requestContext: { requestId: `simulator-${generateId()}` },
+  } as unknown as APIGatewayProxyEvent;
+}
+
+/**
+ * In-memory payment processor
+ */
+export class SimulatorPaymentProcessor implements PaymentProcessor {
+  private webhookSecret: string;
+  private webhookDelayMs: number;
+  private prices: Record<string, number>;
+  private dispatcher?: SimulatorWebhookDispatcher;
+  private deliveryTimer?: NodeJS.Timeout;
+  private pendingEvents: SimulatorWebhookEvent[] = [];
+
+  private customers = new Map<string, { id: string; email: string; name: string; metadata: Record<string, string> }>();
+  private paymentMethods = new Map<string, SimulatedPaymentMethod>();
+  private paymentIntents = new Map<string, SimulatedPaymentIntent>();
+  private subscriptions = new Map<string, SimulatedSubscription>();
+  private disputes = new Map<string, SimulatedDispute>();
+  private scripted = new Map<string, ScriptedScenario>();
+
+  constructor(webhookSecret: string, options: SimulatorOptions = {}) {
+    if (!webhookSecret) {
+      throw new Error('Simulator webhook secret is required');
+    }
+
+    this.webhookSecret = webhookSecret;
+    this.webhookDelayMs = options.webhookDelayMs ?? 1000;
+    this.prices = options.prices || {};
+  }
+
+  /**
+   * Sets where webhook events are delivered
+   */
+  setWebhookDispatcher(dispatcher: SimulatorWebhookDispatcher): void {
+    this.dispatcher = dispatcher;
+  }
+
+  /**
+   * Scripts a failure for the next charges on a payment method or customer
+   *
+   * @param target - Payment method or customer ID
+   * @param scenario - Scenario to play out
+   * @param times - Number of charges it applies to
+   * @throws Error - When the scenario, target or count is invalid
+   */
+  scriptScenario(target: string, scenario: SimulatorScenario, times: number = 1): void {
+    if (!SIMULATOR_SCENARIOS.includes(scenario)) {
+      throw new Error(`Simulator scenario must be one of: ${SIMULATOR_SCENARIOS.join(', ')}`);
+    }
+    if (!Number.isInteger(times) || times < 1) {
+      throw new Error('Simulator scenario must apply to at least one charge');
+    }
+    if (!this.paymentMethods.has(target) && !this.customers.has(target)) {
+      throw new Error(`Simulator payment method or customer not found: ${target}`);
+    }
+
+    this.scripted.set(target, { scenario, remaining: times });
+  }
+
+  /**
+   * Clears scripted scenarios for a payment method or customer (or all of them)
+   */
+  clearScenarios(target?: string): void {
+    if (target) {
+      this.scripted.delete(target);
+    } else {
+      this.scripted.clear();
+    }
+  }
+
+  /**
+   * Creates a customer
+   */
+  async createCustomer(userInfo: {
+    email: string;
+    name: string;
+    metadata?: Record<string, string>
+  }): Promise<{ customerId: string }> {
+    const customerId = `cus_sim_${generateId()}`;
+    this.customers.set(customerId, {
+      id: customerId,
+      email: userInfo.email,
+      name: userInfo.name,
+      metadata: { source: 'harborlist', ...userInfo.metadata },
+    });
+    this.emit('customer.created', this.customers.get(customerId));
+
+    return { customerId };
+  }
+
+  /**
+   * Creates a payment method for a customer
+   */
+  async createPaymentMethod(
+    customerId: string,
+    paymentData: PaymentMethodData
+  ): Promise<{ paymentMethodId: string }> {
+    if (!this.customers.has(customerId)) {
+      throw new Error(`Failed to create payment method: No such customer: ${customerId}`);
+    }
+
+    const cardNumber = paymentData.card?.number.replace(/\s/g, '');
+    const paymentMethodId = `pm_sim_${generateId()}`;
+    this.paymentMethods.set(paymentMethodId, {
+      id: paymentMethodId,
+      customer: customerId,
+      type: paymentData.type,
+      last4: cardNumber?.slice(-4),
+      scenario: cardNumber ? SIMULATOR_TEST_CARDS[cardNumber] : undefined,
+    });
+
+    return { paymentMethodId };
+  }
+
+  /**
+   * Creates a subscription and charges its first invoice
+   */
+  async createSubscription(
+    customerId: string,
+    priceId: string,
+    paymentMethodId: string,
+    metadata?: Record<string, string>,
+    firstPeriodDiscount?: SubscriptionDiscount,
+    trialEnd?: number
+  ): Promise<{ subscriptionId: string; status: string }> {
+    const paymentMethod = this.paymentMethods.get(paymentMethodId);
+    if (!this.customers.has(customerId) || !paymentMethod || paymentMethod.customer !== customerId) {
+      throw new Error('Failed to create subscription: Payment method does not belong to customer');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const trialEndSeconds = trialEnd ? Math.floor(trialEnd / 1000) : null;
+    const subscription: SimulatedSubscription = {
+      id: `sub_sim_${generateId()}`,
+      object: 'subscription',
+      customer: customerId,
+      price: priceId,
+      default_payment_method: paymentMethodId,
+      status: trialEndSeconds ? 'trialing' : 'active',
+      current_period_start: now,
+      current_period_end: trialEndSeconds || this.addBillingInterval(priceId, now),
+      cancel_at_period_end: false,
+      canceled_at: null,
+      trial_end: trialEndSeconds,
+      metadata: { source: 'harborlist', ...metadata },
+    };
+
+    // A trial is charged at renewal, once it ends
+    const paid = trialEndSeconds ? null : this.isChargeSuccessful(this.takeScenario(paymentMethod));
+    if (paid === false) {
+      subscription.status = 'incomplete';
+    }
+
+    this.subscriptions.set(subscription.id, subscription);
+    this.emit('customer.subscription.created', subscription);
+    if (paid !== null) {
+      this.emitInvoice(subscription, paid, firstPeriodDiscount?.amount);
+    }
+
+    return { subscriptionId: subscription.id, status: subscription.status };
+  }
+
+  /**
+   * Processes a one-time payment
+   */
+  async processPayment(
+    amount: number,
+    currency: string,
+    paymentMethodId: string,
+    metadata?: Record<string, string>
+  ): Promise<{ transactionId: string; status: string; clientSecret?: string }> {
+    const paymentMethod = this.paymentMethods.get(paymentMethodId);
+    if (!paymentMethod) {
+      throw new Error(`Failed to process payment: No such payment method: ${paymentMethodId}`);
+    }
+
+    const scenario = this.takeScenario(paymentMethod);
+    const paymentIntent: SimulatedPaymentIntent = {
+      id: `pi_sim_${generateId()}`,
+      object: 'payment_intent',
+      amount: Math.round(amount * 100),
+      amount_refunded: 0,
+      currency: currency.toLowerCase(),
+      customer: paymentMethod.customer,
+      payment_method: paymentMethodId,
+      status: 'succeeded',
+      metadata: { source: 'harborlist', ...metadata },
+      created: Math.floor(Date.now() / 1000),
+    };
+
+    if (scenario && scenario !== 'dispute') {
+      // Declines leave the intent waiting for a new payment method, as Stripe does
+      paymentIntent.status = 'requires_payment_method';
+      paymentIntent.last_payment_error = {
+        code: scenario,
+        decline_code: scenario,
+        message: DECLINE_MESSAGES[scenario],
+      };
+      this.paymentIntents.set(paymentIntent.id, paymentIntent);
+      this.emit('payment_intent.payment_failed', paymentIntent);
+    } else {
+      this.paymentIntents.set(paymentIntent.id, paymentIntent);
+      this.emit('payment_intent.succeeded', paymentIntent);
+      if (scenario === 'dispute') {
+        this.openDispute(paymentIntent.id, 'fraudulent');
+      }
+    }
+
+    return { transactionId: paymentIntent.id, status: paymentIntent.status };
+  }
+
+  /**
+   * Cancels a subscription immediately
+   */
+  async cancelSubscription(subscriptionId: string): Promise<void> {
+    const subscription = this.getSubscription(subscriptionId, 'cancel subscription');
+    subscription.status = 'canceled';
+    subscription.canceled_at = Math.floor(Date.now() / 1000);
+    this.emit('customer.subscription.deleted', subscription);
+  }
+
+  /**
+   * Updates an existing subscription
+   */
+  async updateSubscription(subscriptionId: string, updates: SubscriptionUpdateData): Promise<void> {
+    const subscription = this.getSubscription(subscriptionId, 'update subscription');
+
+    if (updates.priceId) {
+      subscription.price = updates.priceId;
+    }
+    if (updates.metadata) {
+      subscription.metadata = { ...subscription.metadata, ...updates.metadata };
+    }
+    if (updates.trial_end) {
+      subscription.trial_end = updates.trial_end;
+      subscription.status = 'trialing';
+    }
+    if (updates.cancel_at_period_end !== undefined) {
+      subscription.cancel_at_period_end = updates.cancel_at_period_end;
+    }
+
+    this.emit('customer.subscription.updated', subscription);
+  }
+
+  /**
+   * Refunds all or part of a payment
+   */
+  async processRefund(
+    transactionId: string,
+    amount?: number,
+    reason?: string
+  ): Promise<{ refundId: string; status: string }> {
+    const paymentIntent = this.paymentIntents.get(transactionId);
+    if (!paymentIntent || paymentIntent.status !== 'succeeded') {
+      throw new Error(`Failed to process refund: No successful payment ${transactionId}`);
+    }
+
+    const refundable = paymentIntent.amount - paymentIntent.amount_refunded;
+    const refundAmount = amount !== undefined ? Math.round(amount * 100) : refundable;
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      throw new Error('Failed to process refund: Refund exceeds the amount left on the payment');
+    }
+
+    paymentIntent.amount_refunded += refundAmount;
+    const refundId = `re_sim_${generateId()}`;
+    this.emit('charge.refunded', {
+      id: refundId,
+      object: 'refund',
+      payment_intent: paymentIntent.id,
+      amount: refundAmount,
+      currency: paymentIntent.currency,
+      reason: reason || 'requested_by_customer',
+      status: 'succeeded',
+    });
+
+    return { refundId, status: 'succeeded' };
+  }
+
+  /**
+   * Retrieves payment intent details
+   */
+  async retrievePaymentIntent(paymentIntentId: string): Promise<PaymentIntentData> {
+    const paymentIntent = this.paymentIntents.get(paymentIntentId);
+    if (!paymentIntent) {
+      throw new Error(`Failed to retrieve payment intent: No such payment intent: ${paymentIntentId}`);
+    }
+
+    return {
+      id: paymentIntent.id,
+      amount: paymentIntent.amount / 100,
+      currency: paymentIntent.currency,
+      status: paymentIntent.status,
+      metadata: paymentIntent.metadata,
+    };
+  }
+
+  /**
+   * Retrieves subscription details
+   */
+  async retrieveSubscription(subscriptionId: string): Promise<SubscriptionData> {
+    const subscription = this.getSubscription(subscriptionId, 'retrieve subscription');
+
+    return {
+      id: subscription.id,
+      status: subscription.status,
+      current_period_start: subscription.current_period_start,
+      current_period_end: subscription.current_period_end,
+      cancel_at_period_end: subscription.cancel_at_period_end,
+      metadata: subscription.metadata,
+    };
+  }
+
+  /**
+   * Bills the next period of a subscription, as the processor would at renewal
+   *
+   * @param subscriptionId - Subscription to renew
+   * @returns Promise<SubscriptionData> - The subscription after the attempt
+   * @throws Error - When the subscription does not exist or was canceled
+   */
+  async renewSubscription(subscriptionId: string): Promise<SubscriptionData> {
+    const subscription = this.getSubscription(subscriptionId, 'renew subscription');
+    if (subscription.status === 'canceled') {
+      throw new Error(`Simulator subscription ${subscriptionId} is canceled`);
+    }
+
+    const paymentMethod = this.paymentMethods.get(subscription.default_payment_method)!;
+    const paid = this.isChargeSuccessful(this.takeScenario(paymentMethod));
+
+    if (paid) {
+      subscription.current_period_start = subscription.current_period_end;
+      subscription.current_period_end = this.addBillingInterval(subscription.price, subscription.current_period_start);
+      subscription.status = 'active';
+    } else {
+      subscription.status = 'past_due';
+    }
+
+    this.emitInvoice(subscription, paid);
+    this.emit('customer.subscription.updated', subscription);
+
+    return this.retrieveSubscription(subscriptionId);
+  }
+
+  /**
+   * Opens a dispute against a successful payment
+   *
+   * @param paymentIntentId - Disputed payment
+   * @param reason - Dispute reason (Stripe's reason codes)
+   * @returns string - Dispute ID
+   * @throws Error - When the payment does not exist or did not succeed
+   */
+  openDispute(paymentIntentId: string, reason: string = 'fraudulent'): string {
+    const paymentIntent = this.paymentIntents.get(paymentIntentId);
+    if (!paymentIntent || paymentIntent.status !== 'succeeded') {
+      throw new Error(`Simulator payment not found or not successful: ${paymentIntentId}`);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const dispute: SimulatedDispute = {
+      id: `dp_sim_${generateId()}`,
+      object: 'dispute',
+      charge: paymentIntent.id,
+      amount: paymentIntent.amount - paymentIntent.amount_refunded,
+      currency: paymentIntent.currency,
+      reason,
+      status: 'needs_response',
+      evidence_details: { due_by: now + DISPUTE_EVIDENCE_DAYS * 24 * 60 * 60 },
+      created: now,
+    };
+
+    this.disputes.set(dispute.id, dispute);
+    this.emit('charge.dispute.created', dispute);
+    return dispute.id;
+  }
+
+  /**
+   * Closes a dispute with an outcome
+   *
+   * @param disputeId - Dispute to close
+   * @param outcome - Whether the platform won or lost
+   * @throws Error - When the dispute does not exist or is already closed
+   */
+  closeDispute(disputeId: string, outcome: 'won' | 'lost'): void {
+    const dispute = this.disputes.get(disputeId);
+    if (!dispute) {
+      throw new Error(`Simulator dispute not found: ${disputeId}`);
+    }
+    if (dispute.status === 'won' || dispute.status === 'lost') {
+      throw new Error(`Simulator dispute ${disputeId} is already closed`);
+    }
+    if (outcome !== 'won' && outcome !== 'lost') {
+      throw new Error('Simulator dispute outcome must be won or lost');
+    }
+
+    dispute.status = outcome;
+    this.emit('charge.dispute.closed', dispute);
+  }
+
+  /**
+   * Delivers every pending webhook event now
+   *
+   * @returns Promise<number> - Number of events delivered
+   */
+  async flushWebhooks(): Promise<number> {
+    if (this.deliveryTimer) {
+      clearTimeout(this.deliveryTimer);
+      this.deliveryTimer = undefined;
+    }
+    if (!this.dispatcher) {
+      return 0;
+    }
+
+    let delivered = 0;
+    // Handlers can trigger further events, which are delivered in the same flush
+    while (this.pendingEvents.length > 0) {
+      const event = this.pendingEvents.shift()!;
+      const payload = JSON.stringify(event);
+      await this.dispatcher(payload, signSimulatorPayload(payload, this.webhookSecret));
+      delivered++;
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Verifies a webhook signature and parses the event
+   */
+  constructWebhookEvent(payload: string, signature: string): SimulatorWebhookEvent {
+    const parts = Object.fromEntries(
+      signature.split(',').map(part => part.split('=') as [string, string])
+    );
+    const timestamp = Number(parts.t);
+
+    if (!timestamp || !parts.v1) {
+      throw new Error('Invalid webhook signature: Malformed signature header');
+    }
+    if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new Error('Invalid webhook signature: Timestamp outside the tolerance zone');
+    }
+
+    const expected = Buffer.from(signSimulatorPayload(payload, this.webhookSecret, timestamp).split('v1=')[1]);
+    const received = Buffer.from(parts.v1);
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      throw new Error('Invalid webhook signature: Signature does not match payload');
+    }
+
+    return JSON.parse(payload);
+  }
+
+  /**
+   * Maps simulator events to the same actions as the Stripe processor
+   */
+  async handleWebhookEvent(event: SimulatorWebhookEvent): Promise<WebhookHandlerResult> {
+    const object = event.data.object;
+
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+      case 'payment_intent.payment_failed':
+        return {
+          handled: true,
+          action: event.type === 'payment_intent.succeeded' ? 'payment_succeeded' : 'payment_failed',
+          data: {
+            paymentIntentId: object.id,
+            amount: object.amount / 100,
+            currency: object.currency,
+            customerId: object.customer,
+            lastPaymentError: object.last_payment_error,
+            metadata: object.metadata,
+          },
+        };
+
+      case 'invoice.payment_succeeded':
+      case 'invoice.payment_failed':
+        return {
+          handled: true,
+          action: event.type === 'invoice.payment_succeeded' ? 'invoice_payment_succeeded' : 'invoice_payment_failed',
+          data: {
+            invoiceId: object.id,
+            subscriptionId: object.subscription,
+            customerId: object.customer,
+            amount: (object.amount_paid || object.amount_due) / 100,
+            currency: object.currency,
+            periodStart: object.period_start,
+            periodEnd: object.period_end,
+            attemptCount: object.attempt_count,
+          },
+        };
+
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        return {
+          handled: true,
+          action: event.type.replace('customer.subscription.', 'subscription_'),
+          data: {
+            subscriptionId: object.id,
+            customerId: object.customer,
+            status: object.status,
+            currentPeriodStart: object.current_period_start,
+            currentPeriodEnd: object.current_period_end,
+            cancelAtPeriodEnd: object.cancel_at_period_end,
+            canceledAt: object.canceled_at,
+            metadata: object.metadata,
+          },
+        };
+
+      case 'charge.dispute.created':
+      case 'charge.dispute.closed':
+        return {
+          handled: true,
+          action: event.type === 'charge.dispute.created' ? 'dispute_created' : 'dispute_closed',
+          data: {
+            disputeId: object.id,
+            chargeId: object.charge,
+            amount: object.amount / 100,
+            currency: object.currency,
+            reason: object.reason,
+            status: object.status,
+            evidenceDueBy: object.evidence_details?.due_by,
+          },
+        };
+
+      default:
+        return { handled: false };
+    }
+  }
+
+  /**
+   * Takes the scenario that applies to the next charge on a payment method
+   */
+  private takeScenario(paymentMethod: SimulatedPaymentMethod): SimulatorScenario | undefined {
+    for (const target of [paymentMethod.id, paymentMethod.customer]) {
+      const scripted = this.scripted.get(target);
+      if (scripted) {
+        scripted.remaining--;
+        if (scripted.remaining <= 0) {
+          this.scripted.delete(target);
+        }
+        return scripted.scenario;
+      }
+    }
+
+    return paymentMethod.scenario;
+  }
+
+  /**
+   * Subscription invoices cannot be disputed, so only declines fail them
+   */
+  private isChargeSuccessful(scenario?: SimulatorScenario): boolean {
+    return !scenario || scenario === 'dispute';
+  }
+
+  private getSubscription(subscriptionId: string, operation: string): SimulatedSubscription {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Failed to ${operation}: No such subscription: ${subscriptionId}`);
+    }
+    return subscription;
+  }
+
+  private addBillingInterval(priceId: string, from: number): number {
+    const date = new Date(from * 1000);
+    if (priceId.includes('yearly')) {
+      date.setUTCFullYear(date.getUTCFullYear() + 1);
+    } else {
+      date.setUTCMonth(date.getUTCMonth() + 1);
+    }
+    return Math.floor(date.getTime() / 1000);
+  }
+
+  private emitInvoice(subscription: SimulatedSubscription, paid: boolean, discount: number = 0): void {
+    const amount = Math.max(0, Math.round(((this.prices[subscription.price] || 0) - discount) * 100));
+    this.emit(paid ? 'invoice.payment_succeeded' : 'invoice.payment_failed', {
+      id: `in_sim_${generateId()}`,
+      object: 'invoice',
+      subscription: subscription.id,
+      customer: subscription.customer,
+      amount_due: amount,
+      amount_paid: paid ? amount : 0,
+      currency: 'usd',
+      period_start: subscription.current_period_start,
+      period_end: subscription.current_period_end,
+      attempt_count: 1,
+    });
+  }
+
+  /**
+   * Queues a webhook event; a snapshot of the object is taken so later changes are not leaked
+   */
+  private emit(type: string, object: unknown): void {
+    this.pendingEvents.push({
+      id: `evt_sim_${generateId()}`,
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data: { object: JSON.parse(JSON.stringify(object)) },
+    });
+
+    if (this.webhookDelayMs >= 0 && this.dispatcher && !this.deliveryTimer) {
+      this.deliveryTimer = setTimeout(() => {
+        this.deliveryTimer = undefined;
+        this.flushWebhooks().catch(error => console.error('Error delivering simulator webhooks:', error));
+      }, this.webhookDelayMs);
+      this.deliveryTimer.unref?.();
+    }
+  }
+}
+
+/**
+ * Factory function to create the simulator payment processor
+ */
+export function createSimulatorProcessor(webhookSecret?: string, options?: SimulatorOptions): SimulatorPaymentProcessor {
+  const secret = webhookSecret || process.env.SIMULATOR_WEBHOOK_SECRET;
+
+  if (!secret) {
+    throw new Error('Simulator webhook secret not found. Set SIMULATOR_WEBHOOK_SECRET environment variable.');
+  }
+
+  return new SimulatorPaymentProcessor(secret, {
+    webhookDelayMs: process.env.SIMULATOR_WEBHOOK_DELAY_MS ? parseInt(process.env.SIMULATOR_WEBHOOK_DELAY_MS) : undefined,
+    ...options,
+  });
+}
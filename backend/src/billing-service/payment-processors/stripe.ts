@@ -15,78 +15,18 @@
  */
 
 import Stripe from 'stripe';
-
-/**
- * Payment processor interface for abstraction
- */
-export interface PaymentProcessor {
-  createCustomer(userInfo: { email: string; name: string; metadata?: Record<string, string> }): Promise<{ customerId: string }>;
-  createPaymentMethod(customerId: string, paymentData: PaymentMethodData): Promise<{ paymentMethodId: string }>;
-  createSubscription(customerId: string, priceId: string, paymentMethodId: string, metadata?: Record<string, string>): Promise<{ subscriptionId: string; status: string }>;
-  processPayment(amount: number, currency: string, paymentMethodId: string, metadata?: Record<string, string>): Promise<{ transactionId: string; status: string; clientSecret?: string }>;
-  cancelSubscription(subscriptionId: string): Promise<void>;
-  updateSubscription(subscriptionId: string, updates: SubscriptionUpdateData): Promise<void>;
-  processRefund(transactionId: string, amount?: number, reason?: string): Promise<{ refundId: string; status: string }>;
-  retrievePaymentIntent(paymentIntentId: string): Promise<PaymentIntentData>;
-  retrieveSubscription(subscriptionId: string): Promise<SubscriptionData>;
-  constructWebhookEvent(payload: string, signature: string): any;
-  handleWebhookEvent(event: any): Promise<WebhookHandlerResult>;
-}
-
-export interface PaymentMethodData {
-  type: 'card' | 'bank_account' | 'paypal';
-  card?: {
-    number: string;
-    exp_month: number;
-    exp_year: number;
-    cvc: string;
-  };
-  billing_details?: {
-    name?: string;
-    email?: string;
-    address?: {
-      line1: string;
-      line2?: string;
-      city: string;
-      state: string;
-      postal_code: string;
-      country: string;
-    };
-  };
-}
-
-export interface SubscriptionUpdateData {
-  priceId?: string;
-  quantity?: number;
-  metadata?: Record<string, string>;
-  trial_end?: number;
-  cancel_at_period_end?: boolean;
-}
-
-export interface PaymentIntentData {
-  id: string;
-  amount: number;
-  currency: string;
-  status: string;
-  client_secret?: string;
-  metadata?: Record<string, string>;
-}
-
-export interface SubscriptionData {
-  id: string;
-  status: string;
-  current_period_start: number;
-  current_period_end: number;
-  cancel_at_period_end: boolean;
-  metadata?: Record<string, string>;
-}
-
-export interface WebhookHandlerResult {
-  handled: boolean;
-  action?: string;
-  data?: any;
-  error?: string;
-}
+import {
+  PaymentProcessor,
+  PaymentMethodData,
+  SubscriptionDiscount,
+  SubscriptionUpdateData,
+  PaymentIntentData,
+  SubscriptionData,
+  WebhookHandlerResult,
+} from './types';
+
+// Existing callers import the processor interface from here
+export * from './types';
 
 /**
  * Stripe payment processor implementation
@@ -192,7 +132,9 @@ export class StripePaymentProcessor implements PaymentProcessor {
     customerId: string, 
     priceId: string, 
     paymentMethodId: string,
-    metadata?: Record<string, string>
+    metadata?: Record<string, string>,
+    firstPeriodDiscount?: SubscriptionDiscount,
+    trialEnd?: number
   ): Promise<{ subscriptionId: string; status: string }> {
     try {
       // Set the payment method as default for the customer
@@ -202,12 +144,23 @@ export class StripePaymentProcessor implements PaymentProcessor {
         },
       });
 
+      // A pending credit is pulled into the subscription's first invoice
+      if (firstPeriodDiscount) {
+        await this.stripe.invoiceItems.create({
+          customer: customerId,
+          amount: -Math.round(firstPeriodDiscount.amount * 100),
+          currency: firstPeriodDiscount.currency.toLowerCase(),
+          description: firstPeriodDiscount.description,
+        });
+      }
+
       // Create subscription
       const subscription = await this.stripe.subscriptions.create({
         customer: customerId,
         items: [{ price: priceId }],
         default_payment_method: paymentMethodId,
         expand: ['latest_invoice.payment_intent'],
+        ...(trialEnd && { trial_end: Math.floor(trialEnd / 1000) }),
         metadata: {
           source: 'harborlist',
           ...metadata,
@@ -428,6 +381,9 @@ export class StripePaymentProcessor implements PaymentProcessor {
         case 'charge.dispute.created':
           return await this.handleDisputeCreated(event.data.object as Stripe.Dispute);
         
+        case 'charge.dispute.closed':
+          return await this.handleDisputeClosed(event.data.object as Stripe.Dispute);
+        
         default:
           console.log(`Unhandled webhook event type: ${event.type}`);
           return { handled: false };
@@ -585,6 +541,23 @@ export class StripePaymentProcessor implements PaymentProcessor {
       },
     };
   }
+
+  /**
+   * Handles dispute closed events
+   */
+  private async handleDisputeClosed(dispute: Stripe.Dispute): Promise<WebhookHandlerResult> {
+    return {
+      handled: true,
+      action: 'dispute_closed',
+      data: {
+        disputeId: dispute.id,
+        chargeId: dispute.charge,
+        amount: dispute.amount / 100,
+        currency: dispute.currency,
+        status: dispute.status,
+      },
+    };
+  }
 }
 
 /**
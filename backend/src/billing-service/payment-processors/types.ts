@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Processor-agnostic payment interfaces for HarborList billing service.
+ *
+ * Every payment processor (Stripe, PayPal and the offline simulator) implements
+ * PaymentProcessor, so billing code never depends on a particular SDK.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+/**
+ * Payment processors the billing service can run against
+ */
+export type PaymentProcessorType = 'stripe' | 'paypal' | 'simulator';
+
+/**
+ * Payment processor interface for abstraction
+ */
+export interface PaymentProcessor {
+  createCustomer(userInfo: { email: string; name: string; metadata?: Record<string, string> }): Promise<{ customerId: string }>;
+  createPaymentMethod(customerId: string, paymentData: PaymentMethodData): Promise<{ paymentMethodId: string }>;
+  createSubscription(
+    customerId: string,
+    priceId: string,
+    paymentMethodId: string,
+    metadata?: Record<string, string>,
+    firstPeriodDiscount?: SubscriptionDiscount,
+    trialEnd?: number // in milliseconds; nothing is charged before it
+  ): Promise<{ subscriptionId: string; status: string }>;
+  processPayment(amount: number, currency: string, paymentMethodId: string, metadata?: Record<string, string>): Promise<{ transactionId: string; status: string; clientSecret?: string }>;
+  cancelSubscription(subscriptionId: string): Promise<void>;
+  updateSubscription(subscriptionId: string, updates: SubscriptionUpdateData): Promise<void>;
+  processRefund(transactionId: string, amount?: number, reason?: string): Promise<{ refundId: string; status: string }>;
+  retrievePaymentIntent(paymentIntentId: string): Promise<PaymentIntentData>;
+  retrieveSubscription(subscriptionId: string): Promise<SubscriptionData>;
+  constructWebhookEvent(payload: string, signature: string): any;
+  handleWebhookEvent(event: any): Promise<WebhookHandlerResult>;
+}
+
+export interface PaymentMethodData {
+  type: 'card' | 'bank_account' | 'paypal';
+  card?: {
+    number: string;
+    exp_month: number;
+    exp_year: number;
+    cvc: string;
+  };
+  billing_details?: {
+    name?: string;
+    email?: string;
+    address?: {
+      line1: string;
+      line2?: string;
+      city: string;
+      state: string;
+      postal_code: string;
+      country: string;
+    };
+  };
+}
+
+/**
+ * Discount taken off the first invoice of a new subscription (a coupon redeemed at signup)
+ */
+export interface SubscriptionDiscount {
+  amount: number; // in currency units
+  currency: string;
+  description: string;
+}
+
+export interface SubscriptionUpdateData {
+  priceId?: string;
+  quantity?: number;
+  metadata?: Record<string, string>;
+  trial_end?: number;
+  cancel_at_period_end?: boolean;
+}
+
+export interface PaymentIntentData {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  client_secret?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface SubscriptionData {
+  id: string;
+  status: string;
+  current_period_start: number;
+  current_period_end: number;
+  cancel_at_period_end: boolean;
+  metadata?: Record<string, string>;
+}
+
+export interface WebhookHandlerResult {
+  handled: boolean;
+  action?: string;
+  data?: any;
+  error?: string;
+}
+
+/**
+ * Checks whether a payment status reported by a processor means the charge went through
+ *
+ * Stripe reports 'succeeded' while PayPal reports 'completed'.
+ *
+ * @param status - Status returned from processPayment
+ * @returns boolean - True when the payment succeeded
+ */
+export function isSuccessfulPaymentStatus(status: string): boolean {
+  return status === 'succeeded' || status === 'completed';
+}
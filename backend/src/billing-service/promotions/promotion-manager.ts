@@ -0,0 +1,332 @@
+/**
+ * @fileoverview Paid listing promotions.
+ *
+ * Sellers buy a promotion for one of their live listings for a number of days:
+ * - featured: rotated into the top slots of search results and the homepage
+ * - boost: the listing's search relevance is multiplied (see promotion-placement.ts)
+ *
+ * A purchase is invoiced and charged like a listing fee, and the charge is
+ * posted to promotion revenue in the ledger. Featured days are also metered
+ * (featured_listing_days): days covered by the plan's featured allowance are
+ * free, and the days charged are recorded as prepaid so they are never
+ * billed again as overage.
+ *
+ * Business Rules:
+ * - Promotions run for 1 to 30 days
+ * - Only the listing's owner can promote it, and only while it is live
+ * - Buying the same promotion for a listing that already has one running
+ *   extends it: the new days start when the current ones end
+ * - If the charge fails the invoice is voided and nothing is promoted
+ *
+ * Validation errors are thrown as `Error`s whose message starts with "Promotion".
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import {
+  ListingPromotion,
+  PromotionQuote,
+  PromotionReport,
+  PromotionType,
+  Transaction,
+} from '@harborlist/shared-types';
+import { db } from '../../shared/database';
+import { generateId } from '../../shared/utils';
+import { PaymentProcessor } from '../payment-processors/stripe';
+import { isSuccessfulPaymentStatus } from '../payment-processors/types';
+import { issueInvoice, markInvoicePaid, promotionLineItem, roundCurrency, voidInvoice } from '../invoices/invoice-manager';
+import { recordTransactionInLedger } from '../ledger/ledger-manager';
+import { getRemainingQuota, METER_DEFINITIONS, recordUsage } from '../metering/usage-meter';
+import { clearPromotionCache } from './promotion-placement';
+import { createPromotion, getPromotion, listPromotionDailyStats, listPromotionsBySeller } from './promotion-store';
+
+/**
+ * Price per day of each promotion (USD); a featured day costs the same as
+ * featured day overage
+ */
+export const PROMOTION_DAY_PRICES: Record<PromotionType, number> = {
+  featured: METER_DEFINITIONS.featured_listing_days.overageUnitPrice,
+  boost: 1,
+};
+
+/**
+ * Shortest and longest promotion, in days
+ */
+export const MIN_PROMOTION_DAYS = 1;
+export const MAX_PROMOTION_DAYS = 30;
+
+/**
+ * Listing statuses that can be promoted
+ */
+const PROMOTABLE_LISTING_STATUSES = ['active', 'approved'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Request to buy a promotion
+ */
+export interface PromotionRequest {
+  listingId: string;
+  type: PromotionType;
+  days: number;
+}
+
+/**
+ * Validates a promotion request
+ *
+ * @param request - Promotion request
+ * @returns string | null - Error message or null if valid
+ */
+export function validatePromotionRequest(request: Partial<PromotionRequest>): string | null {
+  if (!request.listingId) {
+    return 'Promotion listing is required';
+  }
+  if (request.type !== 'featured' && request.type !== 'boost') {
+    return 'Promotion type must be featured or boost';
+  }
+  const days = Number(request.days);
+  if (!Number.isInteger(days) || days < MIN_PROMOTION_DAYS || days > MAX_PROMOTION_DAYS) {
+    return `Promotion must run for ${MIN_PROMOTION_DAYS} to ${MAX_PROMOTION_DAYS} days`;
+  }
+  return null;
+}
+
+/**
+ * Prices a promotion
+ *
+ * @param type - Promotion type
+ * @param days - Days requested
+ * @param includedDays - Days the seller's plan still covers (-1 for unlimited)
+ * @param startsAt - When the promotion starts
+ * @returns PromotionQuote - Dates, days charged and amount
+ */
+export function pricePromotion(type: PromotionType, days: number, includedDays: number, startsAt: number): PromotionQuote {
+  const dayPrice = PROMOTION_DAY_PRICES[type];
+  const included = includedDays === -1 ? days : Math.min(days, includedDays);
+  const chargedDays = days - included;
+  return {
+    type,
+    days,
+    startsAt,
+    endsAt: startsAt + days * DAY_MS,
+    dayPrice,
+    includedDays: included,
+    chargedDays,
+    amount: roundCurrency(chargedDays * dayPrice),
+    currency: 'USD',
+  };
+}
+
+/**
+ * Quotes a promotion for one of the seller's listings
+ *
+ * @param sellerId - Listing owner
+ * @param request - Listing, type and days
+ * @returns Promise<PromotionQuote> - What the promotion would cost and when it would run
+ * @throws Error - When the request is invalid or the listing cannot be promoted
+ */
+export async function quotePromotion(sellerId: string, request: PromotionRequest): Promise<PromotionQuote> {
+  const { quote } = await buildQuote(sellerId, request);
+  return quote;
+}
+
+/**
+ * Validates a request and prices it against the listing's running promotions
+ */
+async function buildQuote(sellerId: string, request: PromotionRequest) {
+  const validationError = validatePromotionRequest(request);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+  const listing = await getPromotableListing(sellerId, request.listingId);
+
+  const days = Number(request.days);
+  const now = Date.now();
+  const running = (await listPromotionsBySeller(sellerId)).filter(promotion =>
+    promotion.listingId === request.listingId
+    && promotion.type === request.type
+    && promotion.status === 'active'
+    && promotion.endsAt > now
+  );
+  const startsAt = running.reduce((latest, promotion) => Math.max(latest, promotion.endsAt), now);
+
+  // Only featured placements come with a plan allowance
+  const includedDays = request.type === 'featured' ? await getRemainingQuota(sellerId, 'featured_listing_days') : 0;
+  return { listing, quote: pricePromotion(request.type, days, includedDays, startsAt) };
+}
+
+/**
+ * Buys a promotion, charging the seller's payment method for any days not
+ * covered by their plan
+ *
+ * @param paymentProcessor - Processor to charge
+ * @param sellerId - Listing owner
+ * @param request - Listing, type and days
+ * @returns Promise<ListingPromotion> - The promotion
+ * @throws Error - When the request is invalid, there is no payment method, or the charge fails
+ */
+export async function purchasePromotion(
+  paymentProcessor: PaymentProcessor,
+  sellerId: string,
+  request: PromotionRequest
+): Promise<ListingPromotion> {
+  const { quote, listing } = await buildQuote(sellerId, request);
+  const promotionId = `promo_${generateId()}`;
+
+  let invoiceId: string | undefined;
+  let transactionId: string | undefined;
+  if (quote.amount > 0) {
+    const billingAccount = await db.getBillingAccountByUser(sellerId);
+    if (!billingAccount?.paymentMethodId) {
+      throw new Error('Promotion requires a payment method on file');
+    }
+
+    const label = quote.type === 'featured' ? 'Featured placement' : 'Search boost';
+    const invoice = await issueInvoice({
+      billingAccount,
+      lineItems: [promotionLineItem(
+        listing.listingId,
+        `${label}: ${listing.title} (${quote.chargedDays} days)`,
+        quote.chargedDays,
+        quote.dayPrice,
+        quote.startsAt,
+        quote.endsAt
+      )],
+    });
+
+    const metadata = { promotionId, promotionType: quote.type };
+    const paymentResult = await paymentProcessor.processPayment(
+      invoice.total,
+      invoice.currency,
+      billingAccount.paymentMethodId,
+      metadata
+    );
+    const completed = isSuccessfulPaymentStatus(paymentResult.status);
+
+    transactionId = generateId();
+    const transaction: Transaction = {
+      id: transactionId,
+      transactionId,
+      type: 'payment',
+      amount: invoice.total,
+      currency: invoice.currency,
+      status: completed ? 'completed' : 'failed',
+      userId: sellerId,
+      userName: invoice.customer.name,
+      userEmail: invoice.customer.email,
+      listingId: listing.listingId,
+      listingTitle: listing.title,
+      paymentMethod: 'card',
+      processorTransactionId: paymentResult.transactionId,
+      createdAt: new Date().toISOString(),
+      completedAt: completed ? new Date().toISOString() : undefined,
+      description: `${label} for ${listing.title}`,
+      fees: invoice.total * 0.029 + 0.30,
+      netAmount: invoice.total - (invoice.total * 0.029 + 0.30),
+      metadata,
+      billingAccountId: billingAccount.billingId,
+      invoiceId: invoice.invoiceId,
+      taxLines: invoice.taxLines,
+      taxAmount: invoice.taxTotal,
+    };
+    await db.createTransaction(transaction);
+
+    if (!completed) {
+      await voidInvoice(invoice.invoiceId, 'Payment failed');
+      throw new Error('Promotion payment failed');
+    }
+
+    await recordTransactionInLedger(transaction);
+    await markInvoicePaid(invoice.invoiceId, transactionId);
+    invoiceId = invoice.invoiceId;
+  }
+
+  const now = Date.now();
+  const promotion: ListingPromotion = {
+    promotionId,
+    listingId: listing.listingId,
+    listingTitle: listing.title,
+    sellerId,
+    type: quote.type,
+    status: 'active',
+    days: quote.days,
+    startsAt: quote.startsAt,
+    endsAt: quote.endsAt,
+    includedDays: quote.includedDays,
+    chargedDays: quote.chargedDays,
+    dayPrice: quote.dayPrice,
+    amount: quote.amount,
+    currency: quote.currency,
+    invoiceId,
+    transactionId,
+    impressions: 0,
+    clicks: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await createPromotion(promotion);
+  clearPromotionCache();
+
+  if (promotion.type === 'featured') {
+    try {
+      await recordUsage(sellerId, 'featured_listing_days', promotion.days, promotion.chargedDays);
+    } catch (error) {
+      console.error(`Failed to record featured days for promotion ${promotionId}:`, error);
+    }
+  }
+
+  return promotion;
+}
+
+/**
+ * Lists a seller's promotions, newest first
+ *
+ * @param sellerId - Listing owner
+ * @returns Promise<ListingPromotion[]> - The seller's promotions
+ */
+export async function getSellerPromotions(sellerId: string): Promise<ListingPromotion[]> {
+  return listPromotionsBySeller(sellerId);
+}
+
+/**
+ * Builds the performance report of one of a seller's promotions
+ *
+ * @param sellerId - Listing owner
+ * @param promotionId - Promotion ID
+ * @returns Promise<PromotionReport> - Totals, click-through rate, cost per click and daily engagement
+ * @throws Error - When the promotion is not the seller's
+ */
+export async function getPromotionReport(sellerId: string, promotionId: string): Promise<PromotionReport> {
+  const promotion = await getPromotion(promotionId);
+  if (!promotion || promotion.sellerId !== sellerId) {
+    throw new Error('Promotion not found');
+  }
+
+  const daily = (await listPromotionDailyStats(promotionId)).sort((a, b) => a.day.localeCompare(b.day));
+  const impressions = promotion.impressions || 0;
+  const clicks = promotion.clicks || 0;
+
+  return {
+    promotion,
+    impressions,
+    clicks,
+    clickThroughRate: impressions > 0 ? Math.round((clicks / impressions) * 10000) / 10000 : 0,
+    costPerClick: clicks > 0 ? roundCurrency(promotion.amount / clicks) : undefined,
+    daily,
+  };
+}
+
+/**
+ * Loads a listing the seller may promote
+ */
+async function getPromotableListing(sellerId: string, listingId: string) {
+  const listing = await db.getListing(listingId);
+  if (!listing || listing.ownerId !== sellerId) {
+    throw new Error('Promotion listing not found');
+  }
+  if (!PROMOTABLE_LISTING_STATUSES.includes(listing.status)) {
+    throw new Error('Promotion is only available for live listings');
+  }
+  return listing;
+}
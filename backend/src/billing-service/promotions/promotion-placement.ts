@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Placement of paid promotions in search results.
+ *
+ * Used by the search handler on every request, so it only depends on the
+ * promotion store and keeps live promotions cached per container:
+ * - Boosted listings have their relevance score multiplied
+ * - Featured listings are rotated into a fixed number of top slots
+ *
+ * Business Rules:
+ * - Only promoted listings that match the search can be placed, so a featured
+ *   slot never shows a boat outside the shopper's filters
+ * - Featured slots are shared fairly: the promotions with the fewest
+ *   impressions so far are shown first, ties broken at random
+ * - A boost applies to relevance ranking only; explicit sorts (price, year,
+ *   ...) are never reordered
+ * - Boosted search placements are metered as prepaid usage, since boost days
+ *   are paid for up front
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { ListingPromotion, PromotionPlacement } from '@harborlist/shared-types';
+import { recordUsage } from '../metering/usage-meter';
+import { listUnexpiredPromotions } from './promotion-store';
+
+/**
+ * Relevance multiplier of a boosted listing
+ */
+export const BOOST_MULTIPLIER = 1.5;
+
+/**
+ * Featured slots per placement
+ */
+export const FEATURED_SLOTS: Record<PromotionPlacement, number> = {
+  search: 2,
+  home: 4,
+};
+
+/**
+ * How long live promotions are cached per container
+ */
+const PROMOTION_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Listing fields placement needs
+ */
+interface PlaceableListing {
+  listingId: string;
+  ownerId: string;
+  score: number;
+}
+
+/**
+ * Promotions currently running, split by type
+ */
+export interface LivePromotions {
+  featured: Map<string, ListingPromotion>;
+  boosted: Map<string, ListingPromotion>;
+}
+
+let cache: { promotions: ListingPromotion[]; loadedAt: number } | null = null;
+
+/**
+ * Featured placements served by this container since the cache was loaded,
+ * added to the stored impressions so rotation keeps moving between refreshes
+ */
+const servedSinceLoad = new Map<string, number>();
+
+/**
+ * Gets the promotions running now, keyed by listing
+ *
+ * @param now - Current time
+ * @returns Promise<LivePromotions> - Featured and boosted promotions by listing ID
+ */
+export async function getLivePromotions(now: number = Date.now()): Promise<LivePromotions> {
+  if (!cache || now - cache.loadedAt > PROMOTION_CACHE_TTL_MS) {
+    cache = { promotions: await listUnexpiredPromotions(now), loadedAt: now };
+    servedSinceLoad.clear();
+  }
+
+  const live: LivePromotions = { featured: new Map(), boosted: new Map() };
+  for (const promotion of cache.promotions) {
+    if (promotion.startsAt <= now && promotion.endsAt > now) {
+      (promotion.type === 'featured' ? live.featured : live.boosted).set(promotion.listingId, promotion);
+    }
+  }
+  return live;
+}
+
+/**
+ * Clears the promotion cache (after a purchase, and between tests)
+ */
+export function clearPromotionCache(): void {
+  cache = null;
+  servedSinceLoad.clear();
+}
+
+/**
+ * Multiplies the relevance score of boosted listings
+ *
+ * Listings without a text score (searches with no query) are treated as a
+ * score of 1, so boosts still lift them above unboosted listings.
+ *
+ * @param listings - Search matches with their scores
+ * @param promotions - Live promotions
+ * @returns Listings with boosted scores applied
+ */
+export function applyBoosts<T extends PlaceableListing>(listings: T[], promotions: LivePromotions): T[] {
+  if (promotions.boosted.size === 0) {
+    return listings;
+  }
+  return listings.map(listing => promotions.boosted.has(listing.listingId)
+    ? { ...listing, score: (listing.score || 1) * BOOST_MULTIPLIER }
+    : listing);
+}
+
+/**
+ * Picks the featured listings to show for a search
+ *
+ * @param listings - Search matches
+ * @param promotions - Live promotions
+ * @param placement - Where the slots are shown
+ * @returns Featured listings with their promotion IDs, in slot order
+ */
+export function selectFeaturedListings<T extends PlaceableListing>(
+  listings: T[],
+  promotions: LivePromotions,
+  placement: PromotionPlacement
+): Array<T & { promotionId: string }> {
+  const eligible = listings
+    .filter(listing => promotions.featured.has(listing.listingId))
+    .map(listing => {
+      const promotion = promotions.featured.get(listing.listingId)!;
+      const shown = (promotion.impressions || 0) + (servedSinceLoad.get(promotion.promotionId) || 0);
+      return { listing, promotionId: promotion.promotionId, shown, tiebreak: Math.random() };
+    })
+    .sort((a, b) => a.shown - b.shown || a.tiebreak - b.tiebreak)
+    .slice(0, FEATURED_SLOTS[placement]);
+
+  for (const { promotionId } of eligible) {
+    servedSinceLoad.set(promotionId, (servedSinceLoad.get(promotionId) || 0) + 1);
+  }
+
+  return eligible.map(({ listing, promotionId }) => ({ ...listing, promotionId }));
+}
+
+/**
+ * Meters boosted listings shown on a page of results against their sellers
+ *
+ * Failures are logged, never surfaced: metering must not fail a search.
+ *
+ * @param listings - Page of results
+ * @param promotions - Live promotions
+ */
+export async function recordBoostedPlacements(listings: PlaceableListing[], promotions: LivePromotions): Promise<void> {
+  const placementsBySeller = new Map<string, number>();
+  for (const listing of listings) {
+    if (promotions.boosted.has(listing.listingId)) {
+      placementsBySeller.set(listing.ownerId, (placementsBySeller.get(listing.ownerId) || 0) + 1);
+    }
+  }
+
+  await Promise.all(Array.from(placementsBySeller, async ([sellerId, placements]) => {
+    try {
+      await recordUsage(sellerId, 'boosted_searches', placements, placements);
+    } catch (error) {
+      console.warn(`Failed to record boosted searches for ${sellerId}:`, error);
+    }
+  }));
+}
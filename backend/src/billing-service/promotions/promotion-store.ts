@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Listing promotion storage.
+ *
+ * Promotions are stored one item per purchase. Impressions and clicks are
+ * counted twice: as running totals on the promotion, and per UTC day in the
+ * stats table for the seller's report. Both are incremented atomically with
+ * ADD, so concurrent search requests never lose a count.
+ *
+ * Promotion indexes:
+ * - seller-index: a seller's promotions, newest first
+ * - status-index: promotions by status, ordered by end time
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { ListingPromotion, PromotionDailyStats } from '@harborlist/shared-types';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const PROMOTIONS_TABLE = process.env.PROMOTIONS_TABLE || 'harborlist-promotions';
+const PROMOTION_STATS_TABLE = process.env.PROMOTION_STATS_TABLE || 'harborlist-promotion-stats';
+
+/**
+ * Promotion indexes
+ */
+const SELLER_INDEX = 'seller-index';
+const STATUS_INDEX = 'status-index';
+
+/**
+ * Engagement counted against a promotion
+ */
+export type PromotionEngagement = 'impressions' | 'clicks';
+
+/**
+ * Day key (YYYY-MM-DD, UTC) of a time
+ */
+export function getStatsDay(at: number = Date.now()): string {
+  return new Date(at).toISOString().slice(0, 10);
+}
+
+/**
+ * Stores a new promotion
+ *
+ * @param promotion - Promotion to store
+ */
+export async function createPromotion(promotion: ListingPromotion): Promise<void> {
+  await docClient.send(new PutCommand({
+    TableName: PROMOTIONS_TABLE,
+    Item: promotion,
+    ConditionExpression: 'attribute_not_exists(promotionId)',
+  }));
+}
+
+/**
+ * Retrieves a promotion
+ *
+ * @param promotionId - Promotion ID
+ * @returns Promise<ListingPromotion | null> - The promotion, or null when not found
+ */
+export async function getPromotion(promotionId: string): Promise<ListingPromotion | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: PROMOTIONS_TABLE,
+    Key: { promotionId },
+  }));
+
+  return (result.Item as ListingPromotion) || null;
+}
+
+/**
+ * Updates a promotion
+ *
+ * @param promotionId - Promotion ID
+ * @param updates - Attributes to set
+ */
+export async function updatePromotion(promotionId: string, updates: Partial<ListingPromotion>): Promise<void> {
+  const entries = Object.entries(updates).filter(([key]) => key !== 'promotionId');
+  if (entries.length === 0) {
+    return;
+  }
+
+  await docClient.send(new UpdateCommand({
+    TableName: PROMOTIONS_TABLE,
+    Key: { promotionId },
+    UpdateExpression: `SET ${entries.map((_, index) => `#attr${index} = :val${index}`).join(', ')}`,
+    ExpressionAttributeNames: Object.fromEntries(entries.map(([key], index) => [`#attr${index}`, key])),
+    ExpressionAttributeValues: Object.fromEntries(entries.map(([, value], index) => [`:val${index}`, value])),
+  }));
+}
+
+/**
+ * Lists a seller's promotions, newest first
+ *
+ * @param sellerId - Listing owner
+ * @returns Promise<ListingPromotion[]> - The seller's promotions
+ */
+export async function listPromotionsBySeller(sellerId: string): Promise<ListingPromotion[]> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: PROMOTIONS_TABLE,
+    IndexName: SELLER_INDEX,
+    KeyConditionExpression: 'sellerId = :sellerId',
+    ExpressionAttributeValues: { ':sellerId': sellerId },
+    ScanIndexForward: false,
+  }));
+
+  return (result.Items || []) as ListingPromotion[];
+}
+
+/**
+ * Lists active promotions that have not ended yet
+ *
+ * Includes promotions queued to start later (extensions of a running one).
+ *
+ * @param at - Time to compare end times against
+ * @returns Promise<ListingPromotion[]> - Unexpired active promotions
+ */
+export async function listUnexpiredPromotions(at: number = Date.now()): Promise<ListingPromotion[]> {
+  const promotions: ListingPromotion[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: PROMOTIONS_TABLE,
+      IndexName: STATUS_INDEX,
+      KeyConditionExpression: '#status = :status AND endsAt > :at',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':status': 'active', ':at': at },
+      ExclusiveStartKey: lastKey,
+    }));
+    promotions.push(...((result.Items || []) as ListingPromotion[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return promotions;
+}
+
+/**
+ * Counts impressions or clicks against a promotion
+ *
+ * @param promotionId - Promotion ID
+ * @param engagement - What to count
+ * @param quantity - How many
+ * @param at - When it happened (selects the stats day)
+ */
+export async function recordPromotionEngagement(
+  promotionId: string,
+  engagement: PromotionEngagement,
+  quantity: number = 1,
+  at: number = Date.now()
+): Promise<void> {
+  await Promise.all([
+    docClient.send(new UpdateCommand({
+      TableName: PROMOTIONS_TABLE,
+      Key: { promotionId },
+      UpdateExpression: 'ADD #engagement :quantity',
+      ConditionExpression: 'attribute_exists(promotionId)',
+      ExpressionAttributeNames: { '#engagement': engagement },
+      ExpressionAttributeValues: { ':quantity': quantity },
+    })),
+    docClient.send(new UpdateCommand({
+      TableName: PROMOTION_STATS_TABLE,
+      Key: { promotionId, day: getStatsDay(at) },
+      UpdateExpression: 'ADD #engagement :quantity',
+      ExpressionAttributeNames: { '#engagement': engagement },
+      ExpressionAttributeValues: { ':quantity': quantity },
+    })),
+  ]);
+}
+
+/**
+ * Lists a promotion's daily impressions and clicks, oldest day first
+ *
+ * @param promotionId - Promotion ID
+ * @returns Promise<PromotionDailyStats[]> - One entry per day with engagement
+ */
+export async function listPromotionDailyStats(promotionId: string): Promise<PromotionDailyStats[]> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: PROMOTION_STATS_TABLE,
+    KeyConditionExpression: 'promotionId = :promotionId',
+    ExpressionAttributeValues: { ':promotionId': promotionId },
+  }));
+
+  return (result.Items || []).map(item => ({
+    day: item.day,
+    impressions: item.impressions || 0,
+    clicks: item.clicks || 0,
+  }));
+}
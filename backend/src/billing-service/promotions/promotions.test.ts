@@ -0,0 +1,295 @@
+/**
+ * @fileoverview Unit tests for listing promotions
+ *
+ * Tests request validation, pricing against the plan's featured allowance,
+ * extension of running promotions, purchase and failed payments, seller
+ * reports, boosts and featured slot rotation.
+ */
+
+import { ListingPromotion } from '@harborlist/shared-types';
+import {
+  getPromotionReport,
+  pricePromotion,
+  purchasePromotion,
+  quotePromotion,
+  validatePromotionRequest,
+} from './promotion-manager';
+import { applyBoosts, BOOST_MULTIPLIER, clearPromotionCache, getLivePromotions, selectFeaturedListings } from './promotion-placement';
+import {
+  createPromotion,
+  getPromotion,
+  listPromotionDailyStats,
+  listPromotionsBySeller,
+  listUnexpiredPromotions,
+} from './promotion-store';
+import { db } from '../../shared/database';
+import { issueInvoice, markInvoicePaid, voidInvoice } from '../invoices/invoice-manager';
+import { recordTransactionInLedger } from '../ledger/ledger-manager';
+import { getRemainingQuota, recordUsage } from '../metering/usage-meter';
+import { PaymentProcessor } from '../payment-processors/stripe';
+
+jest.mock('../../shared/database', () => ({
+  db: {
+    getListing: jest.fn(),
+    getBillingAccountByUser: jest.fn(),
+    createTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('./promotion-store', () => ({
+  createPromotion: jest.fn(),
+  getPromotion: jest.fn(),
+  listPromotionDailyStats: jest.fn(),
+  listPromotionsBySeller: jest.fn(),
+  listUnexpiredPromotions: jest.fn(),
+}));
+
+jest.mock('../invoices/invoice-manager', () => ({
+  ...jest.requireActual('../invoices/invoice-manager'),
+  issueInvoice: jest.fn(),
+  markInvoicePaid: jest.fn(),
+  voidInvoice: jest.fn(),
+}));
+
+jest.mock('../ledger/ledger-manager', () => ({
+  recordTransactionInLedger: jest.fn(),
+}));
+
+jest.mock('../metering/usage-meter', () => ({
+  METER_DEFINITIONS: jest.requireActual('../metering/usage-meter').METER_DEFINITIONS,
+  getRemainingQuota: jest.fn(),
+  recordUsage: jest.fn(),
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+const mockCreatePromotion = createPromotion as jest.MockedFunction<typeof createPromotion>;
+const mockGetPromotion = getPromotion as jest.MockedFunction<typeof getPromotion>;
+const mockListPromotionDailyStats = listPromotionDailyStats as jest.MockedFunction<typeof listPromotionDailyStats>;
+const mockListPromotionsBySeller = listPromotionsBySeller as jest.MockedFunction<typeof listPromotionsBySeller>;
+const mockListUnexpiredPromotions = listUnexpiredPromotions as jest.MockedFunction<typeof listUnexpiredPromotions>;
+const mockIssueInvoice = issueInvoice as jest.MockedFunction<typeof issueInvoice>;
+const mockMarkInvoicePaid = markInvoicePaid as jest.MockedFunction<typeof markInvoicePaid>;
+const mockVoidInvoice = voidInvoice as jest.MockedFunction<typeof voidInvoice>;
+const mockRecordTransactionInLedger = recordTransactionInLedger as jest.MockedFunction<typeof recordTransactionInLedger>;
+const mockGetRemainingQuota = getRemainingQuota as jest.MockedFunction<typeof getRemainingQuota>;
+const mockRecordUsage = recordUsage as jest.MockedFunction<typeof recordUsage>;
+
+const NOW = new Date('2024-04-10T12:00:00.000Z').getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const processPayment = jest.fn();
+const processor = { processPayment } as unknown as PaymentProcessor;
+
+const promotion = (overrides: Partial<ListingPromotion> = {}): ListingPromotion => ({
+  promotionId: 'promo-1',
+  listingId: 'listing-1',
+  listingTitle: '2020 Boston Whaler',
+  sellerId: 'seller-1',
+  type: 'featured',
+  status: 'active',
+  days: 7,
+  startsAt: NOW,
+  endsAt: NOW + 7 * DAY_MS,
+  includedDays: 0,
+  chargedDays: 7,
+  dayPrice: 3,
+  amount: 21,
+  currency: 'USD',
+  impressions: 0,
+  clicks: 0,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+describe('Listing promotions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(NOW);
+    clearPromotionCache();
+    mockDb.getListing.mockResolvedValue({ listingId: 'listing-1', ownerId: 'seller-1', title: '2020 Boston Whaler', status: 'active' } as any);
+    mockDb.getBillingAccountByUser.mockResolvedValue({ billingId: 'billing-1', userId: 'seller-1', paymentMethodId: 'pm_1' } as any);
+    mockListPromotionsBySeller.mockResolvedValue([]);
+    mockGetRemainingQuota.mockResolvedValue(0);
+    mockIssueInvoice.mockResolvedValue({
+      invoiceId: 'inv-1',
+      total: 21,
+      currency: 'USD',
+      taxLines: [],
+      taxTotal: 0,
+      customer: { name: 'Sam Seller', email: 'sam@example.com' },
+    } as any);
+    processPayment.mockResolvedValue({ transactionId: 'pi_1', status: 'succeeded' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('validatePromotionRequest', () => {
+    it('accepts a valid request', () => {
+      expect(validatePromotionRequest({ listingId: 'listing-1', type: 'boost', days: 7 })).toBeNull();
+    });
+
+    it('rejects unknown types and out of range durations', () => {
+      expect(validatePromotionRequest({ listingId: 'listing-1', type: 'banner' as any, days: 7 })).toMatch(/featured or boost/);
+      expect(validatePromotionRequest({ listingId: 'listing-1', type: 'boost', days: 0 })).toMatch(/1 to 30 days/);
+      expect(validatePromotionRequest({ listingId: 'listing-1', type: 'boost', days: 31 })).toMatch(/1 to 30 days/);
+      expect(validatePromotionRequest({ listingId: 'listing-1', type: 'boost', days: 2.5 })).toMatch(/1 to 30 days/);
+    });
+  });
+
+  describe('pricePromotion', () => {
+    it('charges only the days the plan does not cover', () => {
+      const quote = pricePromotion('featured', 7, 3, NOW);
+
+      expect(quote.includedDays).toBe(3);
+      expect(quote.chargedDays).toBe(4);
+      expect(quote.amount).toBe(12);
+      expect(quote.endsAt).toBe(NOW + 7 * DAY_MS);
+    });
+
+    it('covers every day on unlimited plans', () => {
+      expect(pricePromotion('featured', 7, -1, NOW)).toMatchObject({ includedDays: 7, chargedDays: 0, amount: 0 });
+    });
+  });
+
+  describe('quotePromotion', () => {
+    it('starts after a running promotion of the same type', async () => {
+      const runningEnd = NOW + 3 * DAY_MS;
+      mockListPromotionsBySeller.mockResolvedValue([
+        promotion({ endsAt: runningEnd }),
+        promotion({ promotionId: 'promo-2', type: 'boost', endsAt: NOW + 10 * DAY_MS }),
+      ]);
+
+      const quote = await quotePromotion('seller-1', { listingId: 'listing-1', type: 'featured', days: 7 });
+
+      expect(quote.startsAt).toBe(runningEnd);
+      expect(quote.endsAt).toBe(runningEnd + 7 * DAY_MS);
+    });
+
+    it('does not apply the featured allowance to boosts', async () => {
+      mockGetRemainingQuota.mockResolvedValue(10);
+
+      const quote = await quotePromotion('seller-1', { listingId: 'listing-1', type: 'boost', days: 5 });
+
+      expect(quote).toMatchObject({ includedDays: 0, chargedDays: 5, amount: 5 });
+      expect(mockGetRemainingQuota).not.toHaveBeenCalled();
+    });
+
+    it('rejects listings the seller does not own or that are not live', async () => {
+      mockDb.getListing.mockResolvedValueOnce({ listingId: 'listing-1', ownerId: 'someone-else', status: 'active' } as any);
+      await expect(quotePromotion('seller-1', { listingId: 'listing-1', type: 'boost', days: 5 }))
+        .rejects.toThrow('Promotion listing not found');
+
+      mockDb.getListing.mockResolvedValueOnce({ listingId: 'listing-1', ownerId: 'seller-1', status: 'pending_review' } as any);
+      await expect(quotePromotion('seller-1', { listingId: 'listing-1', type: 'boost', days: 5 }))
+        .rejects.toThrow('Promotion is only available for live listings');
+    });
+  });
+
+  describe('purchasePromotion', () => {
+    it('charges, records and meters a featured promotion', async () => {
+      mockGetRemainingQuota.mockResolvedValue(2);
+
+      const result = await purchasePromotion(processor, 'seller-1', { listingId: 'listing-1', type: 'featured', days: 7 });
+
+      expect(processPayment).toHaveBeenCalledWith(21, 'USD', 'pm_1', { promotionId: result.promotionId, promotionType: 'featured' });
+      expect(mockRecordTransactionInLedger).toHaveBeenCalledWith(expect.objectContaining({ status: 'completed', invoiceId: 'inv-1' }));
+      expect(mockMarkInvoicePaid).toHaveBeenCalledWith('inv-1', result.transactionId);
+      expect(mockCreatePromotion).toHaveBeenCalledWith(result);
+      expect(result).toMatchObject({ includedDays: 2, chargedDays: 5, amount: 15, invoiceId: 'inv-1', status: 'active' });
+      expect(mockRecordUsage).toHaveBeenCalledWith('seller-1', 'featured_listing_days', 7, 5);
+    });
+
+    it('does not charge promotions fully covered by the plan', async () => {
+      mockGetRemainingQuota.mockResolvedValue(-1);
+
+      const result = await purchasePromotion(processor, 'seller-1', { listingId: 'listing-1', type: 'featured', days: 7 });
+
+      expect(processPayment).not.toHaveBeenCalled();
+      expect(mockIssueInvoice).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ amount: 0, chargedDays: 0 });
+      expect(mockRecordUsage).toHaveBeenCalledWith('seller-1', 'featured_listing_days', 7, 0);
+    });
+
+    it('voids the invoice and promotes nothing when the payment fails', async () => {
+      processPayment.mockResolvedValue({ transactionId: 'pi_1', status: 'failed' });
+
+      await expect(purchasePromotion(processor, 'seller-1', { listingId: 'listing-1', type: 'boost', days: 7 }))
+        .rejects.toThrow('Promotion payment failed');
+
+      expect(mockDb.createTransaction).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed' }));
+      expect(mockVoidInvoice).toHaveBeenCalledWith('inv-1', 'Payment failed');
+      expect(mockRecordTransactionInLedger).not.toHaveBeenCalled();
+      expect(mockCreatePromotion).not.toHaveBeenCalled();
+    });
+
+    it('requires a payment method when there is something to charge', async () => {
+      mockDb.getBillingAccountByUser.mockResolvedValue(null);
+
+      await expect(purchasePromotion(processor, 'seller-1', { listingId: 'listing-1', type: 'boost', days: 7 }))
+        .rejects.toThrow('Promotion requires a payment method on file');
+      expect(mockIssueInvoice).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPromotionReport', () => {
+    it('computes click-through rate and cost per click', async () => {
+      mockGetPromotion.mockResolvedValue(promotion({ impressions: 400, clicks: 12, amount: 21 }));
+      mockListPromotionDailyStats.mockResolvedValue([
+        { day: '2024-04-11', impressions: 150, clicks: 5 },
+        { day: '2024-04-10', impressions: 250, clicks: 7 },
+      ]);
+
+      const report = await getPromotionReport('seller-1', 'promo-1');
+
+      expect(report.clickThroughRate).toBe(0.03);
+      expect(report.costPerClick).toBe(1.75);
+      expect(report.daily.map(day => day.day)).toEqual(['2024-04-10', '2024-04-11']);
+    });
+
+    it('hides other sellers\' promotions', async () => {
+      mockGetPromotion.mockResolvedValue(promotion({ sellerId: 'seller-2' }));
+
+      await expect(getPromotionReport('seller-1', 'promo-1')).rejects.toThrow('Promotion not found');
+    });
+  });
+
+  describe('placement', () => {
+    it('multiplies the score of boosted listings only', async () => {
+      mockListUnexpiredPromotions.mockResolvedValue([promotion({ type: 'boost', listingId: 'b' })]);
+      const live = await getLivePromotions(NOW + 1);
+
+      const boosted = applyBoosts([
+        { listingId: 'a', ownerId: 'seller-2', score: 2 },
+        { listingId: 'b', ownerId: 'seller-1', score: 2 },
+        { listingId: 'c', ownerId: 'seller-1', score: 0 },
+      ], live);
+
+      expect(boosted.map(listing => listing.score)).toEqual([2, 2 * BOOST_MULTIPLIER, 0]);
+    });
+
+    it('ignores promotions that have not started yet', async () => {
+      mockListUnexpiredPromotions.mockResolvedValue([promotion({ startsAt: NOW + DAY_MS })]);
+
+      const live = await getLivePromotions(NOW);
+
+      expect(live.featured.size).toBe(0);
+    });
+
+    it('fills featured slots with the least shown promotions first', async () => {
+      mockListUnexpiredPromotions.mockResolvedValue([
+        promotion({ promotionId: 'promo-a', listingId: 'a', impressions: 50 }),
+        promotion({ promotionId: 'promo-b', listingId: 'b', impressions: 5 }),
+        promotion({ promotionId: 'promo-c', listingId: 'c', impressions: 20 }),
+      ]);
+      const live = await getLivePromotions(NOW + 1);
+      const listings = ['a', 'b', 'c', 'd'].map(listingId => ({ listingId, ownerId: 'seller-1', score: 1 }));
+
+      const featured = selectFeaturedListings(listings, live, 'search');
+
+      expect(featured.map(listing => listing.promotionId)).toEqual(['promo-b', 'promo-c']);
+    });
+  });
+});
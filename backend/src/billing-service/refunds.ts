@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Refunds of completed charges.
+ *
+ * Refunds the charge through the payment processor, then records the refund
+ * transaction with its share of the original tax and posts it to the ledger.
+ * Used by the refund endpoint and when finance staff approve a customer's
+ * refund request.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { Transaction } from '@harborlist/shared-types';
+import { db } from '../shared/database';
+import { generateId, sanitizeString } from '../shared/utils';
+import { PaymentProcessor } from './payment-processors/stripe';
+import { reverseTaxLines } from './tax/tax-calculator';
+import { recordTransactionInLedger } from './ledger/ledger-manager';
+
+/**
+ * Refunds part or all of a completed charge
+ *
+ * @param paymentProcessor - Processor that took the original charge
+ * @param originalTransaction - Charge being refunded
+ * @param refundAmount - Amount to refund; must not exceed the charge
+ * @param reason - Why the refund was given
+ * @param metadata - Extra metadata for the refund transaction
+ * @returns Promise<{ refundTransaction: Transaction; refundId: string }> - The recorded refund
+ * @throws Error - When the amount exceeds the original charge
+ */
+export async function issueRefund(
+  paymentProcessor: PaymentProcessor,
+  originalTransaction: Transaction,
+  refundAmount: number,
+  reason: string,
+  metadata: Record<string, any> = {}
+): Promise<{ refundTransaction: Transaction; refundId: string }> {
+  if (refundAmount > originalTransaction.amount) {
+    throw new Error('Refund amount cannot exceed original transaction amount');
+  }
+
+  // Process refund through payment processor
+  const { refundId } = await paymentProcessor.processRefund(
+    originalTransaction.processorTransactionId,
+    refundAmount
+  );
+
+  // The refunded share of the original charge's tax is no longer owed
+  const refundTaxLines = originalTransaction.taxLines?.length
+    ? reverseTaxLines(originalTransaction.taxLines, refundAmount / originalTransaction.amount)
+    : undefined;
+
+  const refundTransactionId = generateId();
+  const refundTransaction: Transaction = {
+    id: refundTransactionId,
+    transactionId: refundTransactionId,
+    type: 'refund',
+    amount: refundAmount,
+    currency: originalTransaction.currency,
+    status: 'completed',
+    userId: originalTransaction.userId,
+    userName: originalTransaction.userName,
+    userEmail: originalTransaction.userEmail,
+    listingId: originalTransaction.listingId,
+    paymentMethod: originalTransaction.paymentMethod,
+    processorTransactionId: refundId,
+    createdAt: new Date().toISOString(),
+    completedAt: new Date().toISOString(),
+    description: `Refund for transaction ${originalTransaction.transactionId}: ${sanitizeString(reason)}`,
+    fees: 0, // Refunds typically don't have fees
+    netAmount: refundAmount,
+    metadata: {
+      ...metadata,
+      originalTransactionId: originalTransaction.transactionId,
+      refundReason: reason,
+    },
+    billingAccountId: originalTransaction.billingAccountId,
+    invoiceId: originalTransaction.invoiceId,
+    taxLines: refundTaxLines,
+    taxAmount: refundTaxLines ? Math.round(refundTaxLines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100 : undefined,
+  };
+
+  await db.createTransaction(refundTransaction);
+  await recordTransactionInLedger(refundTransaction);
+
+  return { refundTransaction, refundId };
+}
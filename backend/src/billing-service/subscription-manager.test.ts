@@ -11,15 +11,22 @@
  * @version 1.0.0
  */
 
-import { SubscriptionManager, CreateSubscriptionRequest, UpdateSubscriptionRequest } from './subscription-manager';
+import { SubscriptionManager, CreateSubscriptionRequest, UpdateSubscriptionRequest, SUBSCRIPTION_RENEWAL_JOB } from './subscription-manager';
 import { PaymentProcessor } from './payment-processors/stripe';
 import { db } from '../shared/database';
+import { scheduleJob } from '../jobs/scheduler';
 import { BillingAccount, EnhancedUser } from '@harborlist/shared-types';
 
 // Mock the database
 jest.mock('../shared/database');
 const mockDb = db as jest.Mocked<typeof db>;
 
+// Mock the job scheduler
+jest.mock('../jobs/scheduler', () => ({
+  scheduleJob: jest.fn(),
+}));
+const mockScheduleJob = scheduleJob as jest.MockedFunction<typeof scheduleJob>;
+
 describe('SubscriptionManager', () => {
   let subscriptionManager: SubscriptionManager;
   let mockPaymentProcessor: jest.Mocked<PaymentProcessor>;
@@ -36,7 +43,8 @@ describe('SubscriptionManager', () => {
     loginAttempts: 0,
     createdAt: '2023-01-01T00:00:00Z',
     updatedAt: '2023-01-01T00:00:00Z',
-    userType: 'individual',
+    userType: 'customer',
+    customerTier: 'individual',
     membershipDetails: {
       plan: 'basic',
       features: [],
@@ -99,6 +107,7 @@ describe('SubscriptionManager', () => {
     mockDb.updateBillingAccount.mockResolvedValue(undefined);
     mockDb.updateUser.mockResolvedValue(undefined);
     mockDb.createTransaction.mockResolvedValue(undefined);
+    mockScheduleJob.mockResolvedValue(true);
   });
 
   describe('createSubscription', () => {
@@ -129,7 +138,9 @@ describe('SubscriptionManager', () => {
           userId: 'user123',
           planId: 'premium_individual',
           billingCycle: 'monthly',
-        })
+        }),
+        undefined,
+        undefined
       );
       expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing123', expect.objectContaining({
         subscriptionId: 'sub_test123',
@@ -137,10 +148,9 @@ describe('SubscriptionManager', () => {
         amount: 29.99,
         status: 'active',
       }));
-      expect(mockDb.updateUser).toHaveBeenCalledWith('user123', expect.objectContaining({
-        userType: 'premium_individual',
-        premiumActive: true,
-        premiumPlan: 'premium_individual',
+      expect(mockDb.updateUserType).toHaveBeenCalledWith('user123', 'premium_individual', expect.objectContaining({
+        plan: 'premium_individual',
+        autoRenew: true,
       }));
     });
 
@@ -165,15 +175,15 @@ describe('SubscriptionManager', () => {
         'cus_test123',
         'price_premium_dealer_yearly',
         'pm_test123',
-        expect.any(Object)
+        expect.any(Object),
+        undefined,
+        undefined
       );
       expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing123', expect.objectContaining({
         plan: 'premium_dealer',
         amount: 999.99,
       }));
-      expect(mockDb.updateUser).toHaveBeenCalledWith('user123', expect.objectContaining({
-        userType: 'premium_dealer',
-      }));
+      expect(mockDb.updateUserType).toHaveBeenCalledWith('user123', 'premium_dealer', expect.any(Object));
     });
 
     it('should create subscription with trial period', async () => {
@@ -196,6 +206,18 @@ describe('SubscriptionManager', () => {
       // Assert
       expect(result.status).toBe('trialing');
       expect(result.trialEnd).toBeDefined();
+      expect(mockPaymentProcessor.createSubscription).toHaveBeenCalledWith(
+        'cus_test123',
+        'price_premium_individual_monthly',
+        'pm_test123',
+        expect.any(Object),
+        undefined,
+        result.trialEnd
+      );
+      expect(mockScheduleJob).toHaveBeenCalledWith(expect.objectContaining({
+        type: SUBSCRIPTION_RENEWAL_JOB,
+        runAt: result.trialEnd,
+      }));
       expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing123', expect.objectContaining({
         status: 'trialing',
         trialEndsAt: expect.any(Number),
@@ -343,100 +365,53 @@ describe('SubscriptionManager', () => {
   });
 
   describe('processAutomaticRenewals', () => {
-    it('should process successful renewals', async () => {
-      // Arrange
-      const dueSubscriptions = [
-        {
-          ...mockBillingAccount,
-          subscriptionId: 'sub_test123',
-          plan: 'premium_individual',
-          amount: 29.99,
-          nextBillingDate: Date.now() - 1000, // Past due
-        },
-      ];
-
-      mockDb.getSubscriptionsDueForRenewal.mockResolvedValue(dueSubscriptions);
-      mockPaymentProcessor.processPayment.mockResolvedValue({
-        transactionId: 'pi_renewal123',
-        status: 'succeeded',
-      });
-
-      // Act
-      await subscriptionManager.processAutomaticRenewals();
-
-      // Assert
-      expect(mockDb.getSubscriptionsDueForRenewal).toHaveBeenCalled();
-      expect(mockPaymentProcessor.processPayment).toHaveBeenCalledWith(
-        29.99,
-        'USD',
-        'pm_test123',
-        expect.objectContaining({
-          type: 'subscription_renewal',
-          subscriptionId: 'sub_test123',
-        })
-      );
-      expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing123', expect.objectContaining({
-        status: 'active',
-        nextBillingDate: expect.any(Number),
-      }));
-      expect(mockDb.updateUser).toHaveBeenCalledWith('user123', expect.objectContaining({
-        premiumExpiresAt: expect.any(Number),
-      }));
+    const dueAccount = (overrides: Partial<BillingAccount> = {}): BillingAccount => ({
+      ...mockBillingAccount,
+      subscriptionId: 'sub_test123',
+      plan: 'premium_individual',
+      amount: 29.99,
+      nextBillingDate: Date.now() - 1000, // Past due
+      ...overrides,
     });
 
-    it('should handle renewal payment failures', async () => {
+    it('should schedule a renewal job for each subscription due', async () => {
       // Arrange
-      const dueSubscriptions = [
-        {
-          ...mockBillingAccount,
-          subscriptionId: 'sub_test123',
-          nextBillingDate: Date.now() - 1000, // Past due
-        },
-      ];
-
-      mockDb.getSubscriptionsDueForRenewal.mockResolvedValue(dueSubscriptions);
-      mockPaymentProcessor.processPayment.mockResolvedValue({
-        transactionId: 'pi_renewal123',
-        status: 'failed',
-      });
+      const due = dueAccount();
+      mockDb.getBillingAccountsByStatus.mockImplementation(async (status) => ({
+        accounts: status === 'active' ? [due, dueAccount({ billingId: 'billing789', nextBillingDate: Date.now() + 7 * 24 * 60 * 60 * 1000 })] : [],
+      }));
 
       // Act
       await subscriptionManager.processAutomaticRenewals();
 
       // Assert
-      expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing123', expect.objectContaining({
-        status: 'past_due',
-      }));
+      expect(mockDb.getBillingAccountsByStatus).toHaveBeenCalledWith('active', 100, undefined);
+      expect(mockDb.getBillingAccountsByStatus).toHaveBeenCalledWith('trialing', 100, undefined);
+      expect(mockScheduleJob).toHaveBeenCalledTimes(1);
+      expect(mockScheduleJob).toHaveBeenCalledWith({
+        type: SUBSCRIPTION_RENEWAL_JOB,
+        jobId: `renewal:billing123:${due.nextBillingDate}`,
+        runAt: due.nextBillingDate,
+        payload: { billingId: 'billing123', billingDate: due.nextBillingDate },
+      });
+      expect(mockPaymentProcessor.processPayment).not.toHaveBeenCalled();
     });
 
-    it('should continue processing other subscriptions when one fails', async () => {
+    it('should continue scheduling other subscriptions when one fails', async () => {
       // Arrange
-      const dueSubscriptions = [
-        {
-          ...mockBillingAccount,
-          billingId: 'billing123',
-          subscriptionId: 'sub_test123',
-        },
-        {
-          ...mockBillingAccount,
-          billingId: 'billing456',
-          subscriptionId: 'sub_test456',
-        },
-      ];
-
-      mockDb.getSubscriptionsDueForRenewal.mockResolvedValue(dueSubscriptions);
-      mockPaymentProcessor.processPayment
-        .mockRejectedValueOnce(new Error('Payment failed'))
-        .mockResolvedValueOnce({
-          transactionId: 'pi_renewal456',
-          status: 'succeeded',
-        });
+      mockDb.getBillingAccountsByStatus.mockImplementation(async (status) => ({
+        accounts: status === 'active' ? [dueAccount(), dueAccount({ billingId: 'billing456', subscriptionId: 'sub_test456' })] : [],
+      }));
+      mockScheduleJob.mockRejectedValueOnce(new Error('Jobs table unavailable'));
 
       // Act
       await subscriptionManager.processAutomaticRenewals();
 
       // Assert
-      expect(mockPaymentProcessor.processPayment).toHaveBeenCalledTimes(2);
+      expect(mockScheduleJob).toHaveBeenCalledTimes(2);
+      expect(mockScheduleJob).toHaveBeenLastCalledWith(expect.objectContaining({
+        payload: expect.objectContaining({ billingId: 'billing456' }),
+      }));
     });
   });
 
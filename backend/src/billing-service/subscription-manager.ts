@@ -12,6 +12,10 @@
  * - Prorated billing for mid-cycle plan changes
  * - Grace period for failed payments
  * - Automatic downgrade for expired subscriptions
+ * - Renewals and grace-period downgrades run as persisted jobs (see jobs/scheduler.ts)
+ * - Renewals and prorated upgrades are invoiced first and charged the invoice total
+ * - Coupons are redeemed on creation; their discount applies to renewals and proration
+ * - Renewal invoices carry the usage overage of the period just ended (see metering/)
  * 
  * @author HarborList Development Team
  * @version 1.0.0
@@ -19,8 +23,40 @@
 
 import { db } from '../shared/database';
 import { PaymentProcessor } from './payment-processors/stripe';
-import { BillingAccount, Transaction, EnhancedUser } from '@harborlist/shared-types';
+import { isSuccessfulPaymentStatus } from './payment-processors/types';
+import { BillingAccount, Transaction, Invoice } from '@harborlist/shared-types';
 import { generateId } from '../shared/utils';
+import { scheduleJob } from '../jobs/scheduler';
+import {
+  issueInvoice,
+  markInvoicePaid,
+  prorationLineItem,
+  subscriptionLineItem,
+  voidInvoice,
+} from './invoices/invoice-manager';
+import {
+  applyCouponToPrice,
+  describeCouponDiscount,
+  getSubscriptionDiscount,
+  recordCouponUsage,
+  redeemCoupon,
+  releaseCouponRedemption,
+  CouponRedemptionResult,
+} from './coupons/coupon-manager';
+import { recordTransactionInLedger } from './ledger/ledger-manager';
+import { getOverageLineItems } from './metering/usage-meter';
+import { markUsageBilled } from './metering/usage-store';
+
+/**
+ * Scheduled job types run by this manager (see billing-service/jobs.ts)
+ */
+export const SUBSCRIPTION_RENEWAL_JOB = 'billing.subscription_renewal';
+export const GRACE_PERIOD_EXPIRY_JOB = 'billing.grace_period_expiry';
+
+/**
+ * Days a past-due subscription keeps premium features
+ */
+export const GRACE_PERIOD_DAYS = 7;
 
 /**
  * Subscription plan configuration
@@ -57,6 +93,7 @@ export interface CreateSubscriptionRequest {
   billingCycle: 'monthly' | 'yearly';
   paymentMethodId?: string;
   trialDays?: number;
+  couponCode?: string;
   metadata?: Record<string, string>;
 }
 
@@ -194,6 +231,7 @@ export class SubscriptionManager {
     status: string;
     trialEnd?: number;
     nextBillingDate: number;
+    coupon?: { code: string; discount: string };
   }> {
     try {
       // Get subscription plan
@@ -215,12 +253,25 @@ export class SubscriptionManager {
 
       // Calculate pricing
       const amount = request.billingCycle === 'yearly' ? plan.pricing.yearly : plan.pricing.monthly;
+
+      // Redeem the coupon first so an invalid code fails before anything is created
+      let couponRedemption: CouponRedemptionResult | undefined;
+      if (request.couponCode) {
+        couponRedemption = await redeemCoupon(request.couponCode, {
+          userId: request.userId,
+          planId: plan.planId,
+          planType: plan.type,
+          billingCycle: request.billingCycle,
+          billingAccount,
+        });
+      }
       
       // Get processor-specific price ID
       const processorType = process.env.PAYMENT_PROCESSOR || 'stripe';
       let priceId: string;
       
-      if (processorType === 'stripe') {
+      // The simulator mirrors Stripe, so it takes Stripe price IDs
+      if (processorType === 'stripe' || processorType === 'simulator') {
         priceId = request.billingCycle === 'yearly' 
           ? plan.stripePriceIds?.yearly || `price_${request.planId}_yearly`
           : plan.stripePriceIds?.monthly || `price_${request.planId}_monthly`;
@@ -230,24 +281,50 @@ export class SubscriptionManager {
           : plan.paypalPlanIds?.monthly || `plan_${request.planId}_monthly`;
       }
 
-      // Create subscription with payment processor
-      const subscriptionResult = await this.paymentProcessor.createSubscription(
-        billingAccount.customerId!,
-        priceId,
-        billingAccount.paymentMethodId!,
-        {
-          userId: request.userId,
-          planId: request.planId,
-          billingCycle: request.billingCycle,
-          ...request.metadata,
-        }
-      );
-
-      // Calculate billing dates
+      // Calculate billing dates; free months from a coupon extend the trial
       const now = Date.now();
-      const trialEnd = request.trialDays ? now + (request.trialDays * 24 * 60 * 60 * 1000) : undefined;
+      let trialEnd = request.trialDays ? now + (request.trialDays * 24 * 60 * 60 * 1000) : undefined;
+      if (couponRedemption?.freeMonths) {
+        const freeUntil = new Date(trialEnd || now);
+        freeUntil.setMonth(freeUntil.getMonth() + couponRedemption.freeMonths);
+        trialEnd = freeUntil.getTime();
+      }
       const nextBillingDate = trialEnd || this.calculateNextBillingDate(request.billingCycle, now);
 
+      // A percentage or fixed coupon discounts the first invoice when it is charged now;
+      // after a trial the first renewal takes the discount instead
+      const firstPeriodDiscount = couponRedemption?.appliedCoupon && !trialEnd
+        ? getSubscriptionDiscount({ ...billingAccount, coupon: couponRedemption.appliedCoupon }, amount)
+        : null;
+
+      // Create subscription with payment processor; it charges nothing until the trial ends
+      let subscriptionResult: { subscriptionId: string; status: string };
+      try {
+        subscriptionResult = await this.paymentProcessor.createSubscription(
+          billingAccount.customerId!,
+          priceId,
+          billingAccount.paymentMethodId!,
+          {
+            userId: request.userId,
+            planId: request.planId,
+            billingCycle: request.billingCycle,
+            ...(couponRedemption && { couponCode: couponRedemption.coupon.code }),
+            ...request.metadata,
+          },
+          firstPeriodDiscount ? {
+            amount: firstPeriodDiscount.discount,
+            currency: plan.pricing.currency,
+            description: firstPeriodDiscount.lineItem.description,
+          } : undefined,
+          trialEnd
+        );
+      } catch (error) {
+        if (couponRedemption) {
+          await releaseCouponRedemption(couponRedemption.redemption);
+        }
+        throw error;
+      }
+
       // Update billing account
       await db.updateBillingAccount(billingAccount.billingId, {
         subscriptionId: subscriptionResult.subscriptionId,
@@ -257,33 +334,40 @@ export class SubscriptionManager {
         status: subscriptionResult.status === 'active' ? 'active' : 'trialing',
         nextBillingDate,
         trialEndsAt: trialEnd,
+        ...(couponRedemption?.appliedCoupon && { coupon: couponRedemption.appliedCoupon }),
         updatedAt: Date.now(),
       });
 
-      // Update user with premium membership
-      const enhancedUser: Partial<EnhancedUser> = {
-        userType: plan.type === 'dealer' ? 'premium_dealer' : 'premium_individual',
-        premiumActive: true,
-        premiumPlan: request.planId,
-        premiumExpiresAt: nextBillingDate,
-        membershipDetails: {
-          plan: request.planId,
-          features: plan.features,
-          limits: this.getPlanLimits(plan),
-          expiresAt: nextBillingDate,
-          autoRenew: true,
-          billingCycle: request.billingCycle,
-        },
-        updatedAt: new Date().toISOString(),
-      };
+      // The first period has been charged at the discount, so it uses up one of the coupon's periods
+      if (firstPeriodDiscount) {
+        try {
+          await recordCouponUsage({ ...billingAccount, coupon: couponRedemption!.appliedCoupon }, firstPeriodDiscount.discount);
+        } catch (error) {
+          console.error(`Error recording coupon usage for subscription ${subscriptionResult.subscriptionId}:`, error);
+        }
+      }
+
+      // Update user with premium membership; updateUserType also sets the premium flag, plan and expiry
+      await db.updateUserType(request.userId, plan.type === 'dealer' ? 'premium_dealer' : 'premium_individual', {
+        plan: request.planId,
+        features: plan.features,
+        limits: this.getPlanLimits(plan),
+        expiresAt: nextBillingDate,
+        autoRenew: true,
+        billingCycle: request.billingCycle,
+      });
 
-      await db.updateUser(request.userId, enhancedUser);
+      await this.scheduleRenewal(billingAccount.billingId, nextBillingDate);
 
       return {
         subscriptionId: String(subscriptionResult.subscriptionId),
         status: String(subscriptionResult.status),
         trialEnd,
         nextBillingDate,
+        coupon: couponRedemption && {
+          code: couponRedemption.coupon.code,
+          discount: describeCouponDiscount(couponRedemption.coupon),
+        },
       };
     } catch (error) {
       console.error('Error creating subscription:', error);
@@ -423,21 +507,33 @@ export class SubscriptionManager {
 
   /**
    * Processes automatic renewals for subscriptions
+   *
+   * Renewals normally run from the job scheduled when a subscription starts
+   * or renews. This sweep schedules the renewal job for any subscription due
+   * within the next hour that does not have one yet (e.g. subscriptions
+   * created before renewals were scheduled); job IDs make it safe to repeat.
    */
   async processAutomaticRenewals(): Promise<void> {
     try {
-      // Get subscriptions due for renewal (next billing date is within next hour)
       const dueDate = Date.now() + (60 * 60 * 1000); // 1 hour from now
-      // TODO: Implement getSubscriptionsDueForRenewal method in DatabaseService
-      const subscriptionsDue: any[] = []; // Temporarily return empty array
 
-      for (const billingAccount of subscriptionsDue) {
-        try {
-          await this.processSubscriptionRenewal(billingAccount);
-        } catch (error) {
-          console.error(`Error processing renewal for subscription ${billingAccount.subscriptionId}:`, error);
-          // Continue processing other subscriptions
-        }
+      for (const status of ['active', 'trialing'] as const) {
+        let lastKey: any;
+        do {
+          const page = await db.getBillingAccountsByStatus(status, 100, lastKey);
+          for (const billingAccount of page.accounts) {
+            if (!billingAccount.subscriptionId || !billingAccount.nextBillingDate || billingAccount.nextBillingDate > dueDate) {
+              continue;
+            }
+            try {
+              await this.scheduleRenewal(billingAccount.billingId, billingAccount.nextBillingDate);
+            } catch (error) {
+              console.error(`Error scheduling renewal for subscription ${billingAccount.subscriptionId}:`, error);
+              // Continue processing other subscriptions
+            }
+          }
+          lastKey = page.lastKey;
+        } while (lastKey);
       }
     } catch (error) {
       console.error('Error processing automatic renewals:', error);
@@ -445,6 +541,48 @@ export class SubscriptionManager {
     }
   }
 
+  /**
+   * Renews a subscription for a billing date (called by the job scheduler)
+   *
+   * Skipped when the subscription was canceled, suspended or already renewed
+   * past that date since the job was scheduled.
+   */
+  async renewSubscription(billingId: string, billingDate: number): Promise<void> {
+    const billingAccount = await db.getBillingAccount(billingId);
+    if (!billingAccount || !billingAccount.subscriptionId || billingAccount.nextBillingDate !== billingDate) {
+      return;
+    }
+    if (billingAccount.status !== 'active' && billingAccount.status !== 'trialing') {
+      return;
+    }
+
+    await this.processSubscriptionRenewal(billingAccount);
+  }
+
+  /**
+   * Ends a past-due subscription's grace period (called by the job scheduler)
+   *
+   * Downgrades the user unless the account has been brought up to date.
+   */
+  async expireGracePeriod(billingId: string, userId: string): Promise<void> {
+    const currentAccount = await db.getBillingAccount(billingId);
+    if (currentAccount?.status === 'past_due') {
+      await this.downgradeUser(userId);
+    }
+  }
+
+  /**
+   * Schedules the renewal job for a billing date
+   */
+  private async scheduleRenewal(billingId: string, billingDate: number): Promise<void> {
+    await scheduleJob({
+      type: SUBSCRIPTION_RENEWAL_JOB,
+      jobId: `renewal:${billingId}:${billingDate}`,
+      runAt: billingDate,
+      payload: { billingId, billingDate },
+    });
+  }
+
   /**
    * Handles plan changes with prorated billing
    */
@@ -468,14 +606,21 @@ export class SubscriptionManager {
       currentPlan,
       newPlan,
       billingCycle,
-      daysRemaining
+      daysRemaining,
+      billingAccount
     );
 
     // Process prorated payment if upgrade
     if (proratedBilling.proratedAmount > 0) {
+      const invoice = await issueInvoice({
+        billingAccount,
+        subscriptionId: billingAccount.subscriptionId,
+        lineItems: [prorationLineItem(currentPlan.planId, newPlan.planId, proratedBilling.proratedAmount, daysRemaining)],
+      });
+
       const transaction = await this.processPayment(
         billingAccount.userId,
-        proratedBilling.proratedAmount,
+        invoice.total,
         'USD',
         'Plan upgrade prorated payment',
         {
@@ -483,12 +628,15 @@ export class SubscriptionManager {
           oldPlan: currentPlan.planId,
           newPlan: newPlan.planId,
           proratedDays: daysRemaining.toString(),
-        }
+        },
+        invoice
       );
 
       if (transaction.status !== 'completed') {
+        await voidInvoice(invoice.invoiceId, 'Prorated payment failed');
         throw new Error('Prorated payment failed');
       }
+      await markInvoicePaid(invoice.invoiceId, transaction.transactionId);
     }
 
     // Process refund if downgrade
@@ -501,15 +649,25 @@ export class SubscriptionManager {
 
   /**
    * Calculates prorated billing for plan changes
+   *
+   * Both plans are priced after the account's coupon, so a percentage coupon
+   * also discounts the upgrade and a fixed coupon leaves the difference as is.
    */
   private calculateProratedBilling(
     currentPlan: SubscriptionPlan,
     newPlan: SubscriptionPlan,
     billingCycle: 'monthly' | 'yearly',
-    daysRemaining: number
+    daysRemaining: number,
+    billingAccount: BillingAccount
   ): ProratedBilling {
-    const currentAmount = billingCycle === 'yearly' ? currentPlan.pricing.yearly : currentPlan.pricing.monthly;
-    const newAmount = billingCycle === 'yearly' ? newPlan.pricing.yearly : newPlan.pricing.monthly;
+    const currentAmount = applyCouponToPrice(
+      billingAccount.coupon,
+      billingCycle === 'yearly' ? currentPlan.pricing.yearly : currentPlan.pricing.monthly
+    );
+    const newAmount = applyCouponToPrice(
+      billingAccount.coupon,
+      billingCycle === 'yearly' ? newPlan.pricing.yearly : newPlan.pricing.monthly
+    );
     
     const totalDays = billingCycle === 'yearly' ? 365 : 30;
     const dailyCurrentRate = currentAmount / totalDays;
@@ -534,27 +692,63 @@ export class SubscriptionManager {
    * Processes subscription renewal
    */
   private async processSubscriptionRenewal(billingAccount: BillingAccount): Promise<void> {
+    const nextBillingDate = this.calculateNextBillingDate(
+      billingAccount.plan.includes('yearly') ? 'yearly' : 'monthly',
+      billingAccount.nextBillingDate!
+    );
+
+    // Invoice the new period and the overage of the period just ended; an unpaid renewal invoice stays open.
+    // A metering outage must not hold up the renewal: the usage stays unbilled and is logged for follow-up
+    const couponDiscount = getSubscriptionDiscount(billingAccount, billingAccount.amount);
+    let overage: Awaited<ReturnType<typeof getOverageLineItems>> | null = null;
+    try {
+      overage = await getOverageLineItems(billingAccount, billingAccount.nextBillingDate!);
+    } catch (error) {
+      console.error(`Error calculating overage for subscription ${billingAccount.subscriptionId}:`, error);
+    }
+
+    // One invoice per subscription and billing date, so a retried renewal job reuses it instead of issuing another
+    const invoice = await issueInvoice({
+      billingAccount,
+      subscriptionId: billingAccount.subscriptionId,
+      invoiceId: `inv_renewal_${billingAccount.subscriptionId}_${billingAccount.nextBillingDate}`,
+      lineItems: [
+        subscriptionLineItem(billingAccount.plan, billingAccount.amount, billingAccount.nextBillingDate!, nextBillingDate),
+        ...(couponDiscount ? [couponDiscount.lineItem] : []),
+        ...(overage?.lineItems ?? []),
+      ],
+    });
+    if (invoice.status !== 'open') {
+      console.log(`Renewal invoice ${invoice.invoiceId} is already ${invoice.status}; not charging again`);
+      return;
+    }
+
+    // The overage is on this invoice whether or not it gets paid, so a retried renewal must not bill it again
+    if (overage && overage.lineItems.length > 0) {
+      try {
+        await markUsageBilled(billingAccount.userId, overage.period.periodStart, invoice.invoiceId);
+      } catch (error) {
+        console.error(`Error marking usage billed on renewal invoice ${invoice.invoiceId}:`, error);
+      }
+    }
+
     try {
       // Process payment for renewal
       const transaction = await this.processPayment(
         billingAccount.userId,
-        billingAccount.amount,
+        invoice.total,
         billingAccount.currency,
         'Subscription renewal',
         {
           type: 'subscription_renewal',
           subscriptionId: billingAccount.subscriptionId!,
           plan: billingAccount.plan,
-        }
+        },
+        invoice
       );
 
       if (transaction.status === 'completed') {
         // Successful renewal - extend subscription
-        const nextBillingDate = this.calculateNextBillingDate(
-          billingAccount.plan.includes('yearly') ? 'yearly' : 'monthly',
-          billingAccount.nextBillingDate!
-        );
-
         await db.updateBillingAccount(billingAccount.billingId, {
           nextBillingDate,
           status: 'active',
@@ -566,6 +760,26 @@ export class SubscriptionManager {
           premiumExpiresAt: nextBillingDate,
           updatedAt: Date.now(),
         });
+
+        // The payment has already succeeded, so bookkeeping errors must not fail the renewal;
+        // the renewal sweep reschedules a missing renewal job
+        try {
+          await markInvoicePaid(invoice.invoiceId, transaction.transactionId);
+        } catch (error) {
+          console.error(`Error marking renewal invoice ${invoice.invoiceId} paid:`, error);
+        }
+        if (couponDiscount) {
+          try {
+            await recordCouponUsage(billingAccount, couponDiscount.discount);
+          } catch (error) {
+            console.error(`Error recording coupon usage for subscription ${billingAccount.subscriptionId}:`, error);
+          }
+        }
+        try {
+          await this.scheduleRenewal(billingAccount.billingId, nextBillingDate);
+        } catch (error) {
+          console.error(`Error scheduling next renewal for subscription ${billingAccount.subscriptionId}:`, error);
+        }
       } else {
         // Failed renewal - handle payment failure
         await this.handlePaymentFailure(billingAccount, transaction);
@@ -586,20 +800,16 @@ export class SubscriptionManager {
       updatedAt: Date.now(),
     });
 
-    // Set grace period (7 days)
-    const gracePeriodEnd = Date.now() + (7 * 24 * 60 * 60 * 1000);
-    
-    // Schedule retry attempts
-    // In a real implementation, you'd schedule retry jobs here
+    const gracePeriodEnd = Date.now() + (GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000);
     console.log(`Payment failure for subscription ${billingAccount.subscriptionId}. Grace period until ${new Date(gracePeriodEnd)}`);
-    
-    // If grace period expires, downgrade user
-    setTimeout(async () => {
-      const currentAccount = await db.getBillingAccount(billingAccount.billingId);
-      if (currentAccount?.status === 'past_due') {
-        await this.downgradeUser(billingAccount.userId);
-      }
-    }, 7 * 24 * 60 * 60 * 1000); // 7 days
+
+    // If the grace period expires while still past due, downgrade the user
+    await scheduleJob({
+      type: GRACE_PERIOD_EXPIRY_JOB,
+      jobId: `grace-period:${billingAccount.billingId}:${billingAccount.nextBillingDate ?? gracePeriodEnd}`,
+      runAt: gracePeriodEnd,
+      payload: { billingId: billingAccount.billingId, userId: billingAccount.userId },
+    });
   }
 
   /**
@@ -611,22 +821,14 @@ export class SubscriptionManager {
       throw new Error('Basic plan not found');
     }
 
-    const enhancedUser: Partial<EnhancedUser> = {
-      userType: 'individual',
-      premiumActive: false,
-      premiumPlan: undefined,
-      premiumExpiresAt: undefined,
-      membershipDetails: {
-        plan: 'basic',
-        features: basicPlan.features,
-        limits: this.getPlanLimits(basicPlan),
-        expiresAt: undefined,
-        autoRenew: false,
-      },
-      updatedAt: new Date().toISOString(),
-    };
-
-    await db.updateUser(userId, enhancedUser);
+    // Clears the premium flag, plan and expiry along with the user type
+    await db.updateUserType(userId, 'individual', {
+      plan: 'basic',
+      features: basicPlan.features,
+      limits: this.getPlanLimits(basicPlan),
+      expiresAt: undefined,
+      autoRenew: false,
+    });
   }
 
   /**
@@ -637,7 +839,8 @@ export class SubscriptionManager {
     amount: number,
     currency: string,
     description: string,
-    metadata?: Record<string, string>
+    metadata?: Record<string, string>,
+    invoice?: Pick<Invoice, 'invoiceId' | 'taxLines' | 'taxTotal'>
   ): Promise<Transaction> {
     const billingAccount = await db.getBillingAccountByUser(userId);
     if (!billingAccount) {
@@ -657,22 +860,26 @@ export class SubscriptionManager {
       type: 'payment',
       amount,
       currency,
-      status: paymentResult.status === 'succeeded' ? 'completed' : 'failed',
+      status: isSuccessfulPaymentStatus(paymentResult.status) ? 'completed' : 'failed',
       userId,
       userName: '', // Would be populated from user data
       userEmail: '', // Would be populated from user data
       paymentMethod: 'card',
       processorTransactionId: paymentResult.transactionId,
       createdAt: new Date().toISOString(),
-      completedAt: paymentResult.status === 'succeeded' ? new Date().toISOString() : undefined,
+      completedAt: isSuccessfulPaymentStatus(paymentResult.status) ? new Date().toISOString() : undefined,
       description,
       fees: amount * 0.029 + 0.30,
       netAmount: amount - (amount * 0.029 + 0.30),
       metadata,
       billingAccountId: billingAccount.billingId,
+      invoiceId: invoice?.invoiceId,
+      taxLines: invoice?.taxLines,
+      taxAmount: invoice?.taxTotal,
     };
 
     await db.createTransaction(transaction);
+    await recordTransactionInLedger(transaction);
     return transaction;
   }
 
@@ -704,6 +911,7 @@ export class SubscriptionManager {
       bulkOperations: false,
       advancedSearch: false,
       premiumSupport: false,
+      boostedSearches: 0,
     };
 
     if (plan.planId === 'premium_individual') {
@@ -716,6 +924,7 @@ export class SubscriptionManager {
         analyticsAccess: true,
         advancedSearch: true,
         premiumSupport: true,
+        boostedSearches: 20,
       };
     }
 
@@ -730,6 +939,7 @@ export class SubscriptionManager {
         bulkOperations: true,
         advancedSearch: true,
         premiumSupport: true,
+        boostedSearches: 100,
       };
     }
 
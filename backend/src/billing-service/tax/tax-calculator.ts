@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Sales tax calculation for platform charges.
+ *
+ * Tax is calculated from the billing address at the time of the charge:
+ * 1. Charges to accounts with a verified exemption certificate for the
+ *    billing state are not taxed
+ * 2. US addresses are taxed by the configured calculator, one tax line per
+ *    jurisdiction (state, county, city, district)
+ * 3. Other addresses are taxed at the account's fallback `taxInfo.taxRate`
+ *
+ * Calculators are pluggable: register one with registerTaxCalculator and
+ * select it with the TAX_CALCULATOR environment variable. The built-in
+ * 'offline' calculator uses the rules table in tax-rules.ts; when another
+ * calculator fails, the offline rules are used so charges are never blocked.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { BillingAccount, InvoiceTaxLine } from '@harborlist/shared-types';
+import { findExemptionCertificate } from './tax-exemptions';
+import { getLocalTaxRules, getStateTaxRule } from './tax-rules';
+
+/**
+ * Address a charge is taxed at
+ */
+export interface TaxAddress {
+  country: string;
+  state: string;
+  zipCode?: string;
+  city?: string;
+}
+
+/**
+ * Source of US sales tax rates
+ */
+export interface TaxCalculator {
+  readonly name: string;
+
+  /**
+   * Tax lines for an amount charged to a US address
+   *
+   * @param address - Billing address
+   * @param amount - Taxable amount
+   * @returns Promise<InvoiceTaxLine[]> - One line per jurisdiction with a non-zero rate
+   */
+  calculateTaxLines(address: TaxAddress, amount: number): Promise<InvoiceTaxLine[]>;
+}
+
+/**
+ * Charge to calculate tax for
+ */
+export interface TaxRequest {
+  billingAccount: BillingAccount;
+  amount: number;
+  date?: number;
+}
+
+/**
+ * Tax on a charge
+ */
+export interface TaxCalculation {
+  taxLines: InvoiceTaxLine[];
+  taxTotal: number;
+  exempt: boolean;
+  exemptionCertificateId?: string;
+  calculator?: string; // calculator that produced the lines
+}
+
+/**
+ * Registered calculators by name
+ */
+const calculatorFactories: Record<string, () => TaxCalculator> = {
+  offline: createOfflineTaxCalculator,
+};
+
+const calculators = new Map<string, TaxCalculator>();
+
+/**
+ * Rounds a tax amount to cents
+ */
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Creates the calculator that uses the offline rules table
+ */
+export function createOfflineTaxCalculator(): TaxCalculator {
+  return {
+    name: 'offline',
+
+    async calculateTaxLines(address: TaxAddress, amount: number): Promise<InvoiceTaxLine[]> {
+      const state = address.state.trim().toUpperCase();
+      const stateRule = getStateTaxRule(state);
+      if (!stateRule) {
+        return [];
+      }
+
+      const lines: InvoiceTaxLine[] = [];
+      if (stateRule.rate > 0) {
+        lines.push({
+          description: `${stateRule.name} state sales tax`,
+          jurisdiction: state,
+          jurisdictionType: 'state',
+          rate: stateRule.rate,
+          taxableAmount: roundToCents(amount),
+          amount: roundToCents(amount * stateRule.rate / 100),
+        });
+      }
+
+      getLocalTaxRules(state, address.zipCode).forEach(rule => {
+        lines.push({
+          description: `${rule.name} sales tax`,
+          jurisdiction: `${state} - ${rule.name}`,
+          jurisdictionType: rule.jurisdictionType,
+          rate: rule.rate,
+          taxableAmount: roundToCents(amount),
+          amount: roundToCents(amount * rule.rate / 100),
+        });
+      });
+
+      return lines;
+    },
+  };
+}
+
+/**
+ * Registers a tax calculator
+ *
+ * @param name - Name to select it by in TAX_CALCULATOR
+ * @param factory - Creates the calculator on first use
+ */
+export function registerTaxCalculator(name: string, factory: () => TaxCalculator): void {
+  calculatorFactories[name] = factory;
+  calculators.delete(name);
+}
+
+/**
+ * Returns the configured tax calculator
+ *
+ * @throws Error - When TAX_CALCULATOR names an unregistered calculator
+ */
+export function getTaxCalculator(): TaxCalculator {
+  const name = process.env.TAX_CALCULATOR || 'offline';
+  let calculator = calculators.get(name);
+  if (!calculator) {
+    const factory = calculatorFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown tax calculator: ${name}`);
+    }
+    calculator = factory();
+    calculators.set(name, calculator);
+  }
+  return calculator;
+}
+
+/**
+ * Calculates the tax on a charge to a billing account
+ *
+ * @param request - Account, taxable amount and charge date
+ * @returns Promise<TaxCalculation> - Tax lines and total, or the exemption that applied
+ */
+export async function calculateTax(request: TaxRequest): Promise<TaxCalculation> {
+  const { billingAccount, amount } = request;
+  const address = billingAccount.billingAddress;
+  const noTax: TaxCalculation = { taxLines: [], taxTotal: 0, exempt: false };
+
+  if (amount <= 0) {
+    return noTax;
+  }
+
+  if (address?.state) {
+    const certificate = findExemptionCertificate(billingAccount, address.state, request.date);
+    if (certificate) {
+      return { ...noTax, exempt: true, exemptionCertificateId: certificate.certificateId };
+    }
+  }
+
+  if (address?.state && (!address.country || address.country.toUpperCase() === 'US')) {
+    const taxAddress: TaxAddress = {
+      country: 'US',
+      state: address.state,
+      zipCode: address.zipCode,
+      city: address.city,
+    };
+
+    let calculator = getTaxCalculator();
+    let taxLines: InvoiceTaxLine[];
+    try {
+      taxLines = await calculator.calculateTaxLines(taxAddress, amount);
+    } catch (error) {
+      if (calculator.name === 'offline') {
+        throw error;
+      }
+      console.error(`Tax calculator ${calculator.name} failed, using offline rules:`, error);
+      calculator = createOfflineTaxCalculator();
+      taxLines = await calculator.calculateTaxLines(taxAddress, amount);
+    }
+
+    return {
+      taxLines,
+      taxTotal: roundToCents(taxLines.reduce((sum, line) => sum + line.amount, 0)),
+      exempt: false,
+      calculator: calculator.name,
+    };
+  }
+
+  // Outside the US rules: the account's fallback rate, if one is set
+  const taxRate = billingAccount.taxInfo?.taxRate;
+  if (!taxRate) {
+    return noTax;
+  }
+
+  const jurisdiction = address ? [address.state, address.country].filter(Boolean).join(', ') : '';
+  const taxLine: InvoiceTaxLine = {
+    description: jurisdiction ? `Sales tax (${jurisdiction})` : 'Sales tax',
+    jurisdiction,
+    jurisdictionType: 'other',
+    rate: taxRate,
+    taxableAmount: roundToCents(amount),
+    amount: roundToCents(amount * taxRate / 100),
+  };
+  return { taxLines: [taxLine], taxTotal: taxLine.amount, exempt: false };
+}
+
+/**
+ * Tax lines reversing part of a charge's tax, for a refund
+ *
+ * @param taxLines - Tax lines of the refunded charge
+ * @param fraction - Share of the charge refunded (0-1)
+ * @returns InvoiceTaxLine[] - Lines with negative amounts
+ */
+export function reverseTaxLines(taxLines: InvoiceTaxLine[], fraction: number): InvoiceTaxLine[] {
+  const share = Math.min(Math.max(fraction, 0), 1);
+  return taxLines.map(line => ({
+    ...line,
+    taxableAmount: -roundToCents(line.taxableAmount * share),
+    amount: -roundToCents(line.amount * share),
+  }));
+}
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Sales tax exemption certificates.
+ *
+ * Customers submit exemption certificates (resale, nonprofit, government)
+ * for the states they are exempt in; finance staff verify or reject them.
+ * Certificates are kept on the billing account's `taxInfo`.
+ *
+ * Business Rules:
+ * - Only verified, unexpired certificates exempt a charge
+ * - A certificate covers the states it lists, or every state when it lists none
+ * - `taxInfo.taxExempt` is kept true while any verified certificate is on file
+ * - Reviewed certificates are final; a new certificate must be submitted instead
+ *
+ * Validation and review errors are thrown as `Error`s whose message starts
+ * with "Certificate".
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { BillingAccount, TaxExemptionCertificate, TaxExemptionType } from '@harborlist/shared-types';
+import { db } from '../../shared/database';
+import { generateId } from '../../shared/utils';
+import { STATE_TAX_RULES } from './tax-rules';
+
+/**
+ * Supported exemption types
+ */
+export const TAX_EXEMPTION_TYPES: TaxExemptionType[] = ['resale', 'nonprofit', 'government', 'other'];
+
+/**
+ * Certificate details submitted by a customer
+ */
+export interface TaxExemptionSubmission {
+  certificateNumber: string;
+  exemptionType: TaxExemptionType;
+  states?: string[];
+  expiresAt?: number;
+  documentUrl?: string;
+}
+
+/**
+ * Validates a certificate submission
+ *
+ * @param submission - Submitted certificate details
+ * @param now - Current time
+ * @returns string | null - Error message or null if valid
+ */
+export function validateExemptionSubmission(submission: Partial<TaxExemptionSubmission>, now: number = Date.now()): string | null {
+  if (!submission.certificateNumber || !submission.certificateNumber.trim()) {
+    return 'Certificate number is required';
+  }
+  if (!TAX_EXEMPTION_TYPES.includes(submission.exemptionType as TaxExemptionType)) {
+    return `Certificate exemption type must be one of: ${TAX_EXEMPTION_TYPES.join(', ')}`;
+  }
+  const unknownState = (submission.states || []).find(state => !STATE_TAX_RULES[String(state).toUpperCase()]);
+  if (unknownState !== undefined) {
+    return `Certificate covers an unknown state: ${unknownState}`;
+  }
+  if (submission.expiresAt !== undefined && submission.expiresAt <= now) {
+    return 'Certificate has already expired';
+  }
+  return null;
+}
+
+/**
+ * Whether a certificate exempts a charge in a state
+ *
+ * @param certificate - Exemption certificate
+ * @param state - Two-letter state code of the billing address
+ * @param now - Time of the charge
+ */
+export function certificateCoversCharge(certificate: TaxExemptionCertificate, state: string, now: number = Date.now()): boolean {
+  if (certificate.status !== 'verified') {
+    return false;
+  }
+  if (certificate.expiresAt && certificate.expiresAt <= now) {
+    return false;
+  }
+  return certificate.states.length === 0 || certificate.states.includes(state.toUpperCase());
+}
+
+/**
+ * Finds the certificate that exempts an account's charges in a state
+ *
+ * @param billingAccount - Account being charged
+ * @param state - Two-letter state code of the billing address
+ * @param now - Time of the charge
+ * @returns TaxExemptionCertificate | null - The certificate, or null when the charge is taxable
+ */
+export function findExemptionCertificate(
+  billingAccount: BillingAccount,
+  state: string,
+  now: number = Date.now()
+): TaxExemptionCertificate | null {
+  const certificates = billingAccount.taxInfo?.exemptionCertificates || [];
+  return certificates.find(certificate => certificateCoversCharge(certificate, state, now)) || null;
+}
+
+/**
+ * Stores a customer's certificate for review
+ *
+ * @param billingAccount - Customer's billing account
+ * @param submission - Certificate details
+ * @returns Promise<TaxExemptionCertificate> - The pending certificate
+ * @throws Error - When the submission is invalid
+ */
+export async function submitExemptionCertificate(
+  billingAccount: BillingAccount,
+  submission: TaxExemptionSubmission
+): Promise<TaxExemptionCertificate> {
+  const error = validateExemptionSubmission(submission);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const certificate: TaxExemptionCertificate = {
+    certificateId: `cert_${generateId()}`,
+    certificateNumber: submission.certificateNumber.trim(),
+    exemptionType: submission.exemptionType,
+    states: Array.from(new Set((submission.states || []).map(state => state.toUpperCase()))),
+    expiresAt: submission.expiresAt,
+    documentUrl: submission.documentUrl,
+    status: 'pending',
+    submittedAt: Date.now(),
+  };
+
+  await saveCertificates(billingAccount, [...(billingAccount.taxInfo?.exemptionCertificates || []), certificate]);
+  return certificate;
+}
+
+/**
+ * Verifies or rejects a pending certificate
+ *
+ * @param billingId - Billing account holding the certificate
+ * @param certificateId - Certificate to review
+ * @param decision - Review outcome
+ * @param reviewedBy - Staff member reviewing
+ * @param rejectionReason - Why the certificate was rejected
+ * @returns Promise<TaxExemptionCertificate> - The reviewed certificate
+ * @throws Error - When the account or certificate is not found, or it was already reviewed
+ */
+export async function reviewExemptionCertificate(
+  billingId: string,
+  certificateId: string,
+  decision: 'verified' | 'rejected',
+  reviewedBy: string,
+  rejectionReason?: string
+): Promise<TaxExemptionCertificate> {
+  const billingAccount = await db.getBillingAccount(billingId);
+  if (!billingAccount) {
+    throw new Error('Billing account not found');
+  }
+
+  const certificates = billingAccount.taxInfo?.exemptionCertificates || [];
+  const certificate = certificates.find(c => c.certificateId === certificateId);
+  if (!certificate) {
+    throw new Error('Certificate not found');
+  }
+  if (certificate.status !== 'pending') {
+    throw new Error(`Certificate has already been ${certificate.status}`);
+  }
+  if (decision === 'rejected' && !rejectionReason) {
+    throw new Error('Certificate rejection requires a reason');
+  }
+
+  const reviewed: TaxExemptionCertificate = {
+    ...certificate,
+    status: decision,
+    reviewedAt: Date.now(),
+    reviewedBy,
+    rejectionReason: decision === 'rejected' ? rejectionReason : undefined,
+  };
+
+  await saveCertificates(billingAccount, certificates.map(c => c.certificateId === certificateId ? reviewed : c));
+  return reviewed;
+}
+
+/**
+ * Writes an account's certificates and keeps `taxExempt` in step with them
+ */
+async function saveCertificates(billingAccount: BillingAccount, certificates: TaxExemptionCertificate[]): Promise<void> {
+  const now = Date.now();
+  await db.updateBillingAccount(billingAccount.billingId, {
+    taxInfo: {
+      ...billingAccount.taxInfo,
+      taxExempt: certificates.some(certificate =>
+        certificate.status === 'verified' && (!certificate.expiresAt || certificate.expiresAt > now)),
+      exemptionCertificates: certificates,
+    },
+    updatedAt: now,
+  });
+}
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Sales tax liability report.
+ *
+ * Totals the tax recorded on completed transactions by jurisdiction and
+ * filing period. Refund transactions carry negative tax lines, so the net
+ * liability of a jurisdiction is tax collected less tax refunded.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { InvoiceTaxLine, TaxJurisdictionType, Transaction } from '@harborlist/shared-types';
+import { db } from '../../shared/database';
+import { TAX_RULES_VERSION } from './tax-rules';
+
+/**
+ * Filing period length
+ */
+export type TaxReportPeriod = 'month' | 'quarter' | 'year';
+
+/**
+ * Tax totals for one jurisdiction (in one period, or over the whole report)
+ */
+export interface TaxLiabilityRow {
+  jurisdiction: string;
+  jurisdictionType?: TaxJurisdictionType;
+  period?: string; // e.g. 2024-03, 2024-Q1, 2024
+  taxableAmount: number;
+  taxCollected: number;
+  taxRefunded: number;
+  netLiability: number;
+  transactionCount: number;
+}
+
+/**
+ * Tax liability report
+ */
+export interface TaxLiabilityReport {
+  startDate: string;
+  endDate: string;
+  groupBy: TaxReportPeriod;
+  rulesVersion: string;
+  totals: {
+    taxableAmount: number;
+    taxCollected: number;
+    taxRefunded: number;
+    netLiability: number;
+    transactionCount: number;
+  };
+  byJurisdiction: TaxLiabilityRow[];
+  byPeriod: TaxLiabilityRow[];
+}
+
+/**
+ * Rounds an amount to cents
+ */
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Filing period a date falls in
+ *
+ * @param date - ISO timestamp
+ * @param groupBy - Period length
+ */
+export function getTaxPeriod(date: string, groupBy: TaxReportPeriod): string {
+  const parsed = new Date(date);
+  const year = parsed.getUTCFullYear();
+  const month = parsed.getUTCMonth() + 1;
+
+  if (groupBy === 'year') {
+    return String(year);
+  }
+  if (groupBy === 'quarter') {
+    return `${year}-Q${Math.ceil(month / 3)}`;
+  }
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+/**
+ * Adds one tax line to a row
+ */
+function addTaxLine(row: TaxLiabilityRow, line: InvoiceTaxLine): void {
+  row.taxableAmount = roundToCents(row.taxableAmount + line.taxableAmount);
+  if (line.amount >= 0) {
+    row.taxCollected = roundToCents(row.taxCollected + line.amount);
+  } else {
+    row.taxRefunded = roundToCents(row.taxRefunded - line.amount);
+  }
+  row.netLiability = roundToCents(row.taxCollected - row.taxRefunded);
+  row.transactionCount += 1;
+}
+
+/**
+ * Builds the liability report from transactions
+ *
+ * @param transactions - Completed transactions in the period
+ * @param startDate - Report start (ISO timestamp)
+ * @param endDate - Report end (ISO timestamp)
+ * @param groupBy - Filing period length
+ * @returns TaxLiabilityReport - Totals overall, by jurisdiction and by period
+ */
+export function buildTaxLiabilityReport(
+  transactions: Transaction[],
+  startDate: string,
+  endDate: string,
+  groupBy: TaxReportPeriod = 'month'
+): TaxLiabilityReport {
+  const byJurisdiction = new Map<string, TaxLiabilityRow>();
+  const byPeriod = new Map<string, TaxLiabilityRow>();
+  const emptyRow = (jurisdiction: string, jurisdictionType?: TaxJurisdictionType, period?: string): TaxLiabilityRow => ({
+    jurisdiction,
+    jurisdictionType,
+    period,
+    taxableAmount: 0,
+    taxCollected: 0,
+    taxRefunded: 0,
+    netLiability: 0,
+    transactionCount: 0,
+  });
+
+  transactions.forEach(transaction => {
+    const period = getTaxPeriod(transaction.createdAt, groupBy);
+
+    (transaction.taxLines || []).forEach(line => {
+      const jurisdiction = line.jurisdiction || 'Unspecified';
+
+      if (!byJurisdiction.has(jurisdiction)) {
+        byJurisdiction.set(jurisdiction, emptyRow(jurisdiction, line.jurisdictionType));
+      }
+      addTaxLine(byJurisdiction.get(jurisdiction)!, line);
+
+      const periodKey = `${period}|${jurisdiction}`;
+      if (!byPeriod.has(periodKey)) {
+        byPeriod.set(periodKey, emptyRow(jurisdiction, line.jurisdictionType, period));
+      }
+      addTaxLine(byPeriod.get(periodKey)!, line);
+    });
+  });
+
+  const jurisdictionRows = Array.from(byJurisdiction.values())
+    .sort((a, b) => b.netLiability - a.netLiability || a.jurisdiction.localeCompare(b.jurisdiction));
+  const periodRows = Array.from(byPeriod.values())
+    .sort((a, b) => a.period!.localeCompare(b.period!) || a.jurisdiction.localeCompare(b.jurisdiction));
+
+  const taxedTransactions = transactions.filter(transaction => transaction.taxLines?.length);
+  const taxCollected = roundToCents(jurisdictionRows.reduce((sum, row) => sum + row.taxCollected, 0));
+  const taxRefunded = roundToCents(jurisdictionRows.reduce((sum, row) => sum + row.taxRefunded, 0));
+
+  return {
+    startDate,
+    endDate,
+    groupBy,
+    rulesVersion: TAX_RULES_VERSION,
+    totals: {
+      // Each charge is taxed by several jurisdictions on the same base, so count it once
+      taxableAmount: roundToCents(taxedTransactions.reduce((sum, transaction) => sum + transaction.taxLines![0].taxableAmount, 0)),
+      taxCollected,
+      taxRefunded,
+      netLiability: roundToCents(taxCollected - taxRefunded),
+      transactionCount: taxedTransactions.length,
+    },
+    byJurisdiction: jurisdictionRows,
+    byPeriod: periodRows,
+  };
+}
+
+/**
+ * Generates the liability report for a date range
+ *
+ * @param startDate - Report start (ISO timestamp)
+ * @param endDate - Report end (ISO timestamp)
+ * @param groupBy - Filing period length
+ * @returns Promise<TaxLiabilityReport> - The report
+ */
+export async function generateTaxLiabilityReport(
+  startDate: string,
+  endDate: string,
+  groupBy: TaxReportPeriod = 'month'
+): Promise<TaxLiabilityReport> {
+  const transactions = await db.getCompletedTransactionsInRange(startDate, endDate);
+  return buildTaxLiabilityReport(transactions, startDate, endDate, groupBy);
+}
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Offline US sales tax rules.
+ *
+ * Rates used by the offline tax calculator, so tax can be computed without an
+ * external tax service:
+ * - Every state (and DC) has its state-level rate; states without a sales tax have 0
+ * - Local rules add county, city and district taxes for a ZIP code or ZIP prefix
+ *
+ * Local rules only cover the metro areas listed below; elsewhere only the
+ * state rate is charged. A five-digit ZIP rule takes precedence over a
+ * three-digit prefix rule. Rates are percentages and must be reviewed when
+ * states publish changes; bump TAX_RULES_VERSION when editing them.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { TaxJurisdictionType } from '@harborlist/shared-types';
+
+/**
+ * Version of the rules table, recorded in reports
+ */
+export const TAX_RULES_VERSION = '2024-07';
+
+/**
+ * State-level sales tax
+ */
+export interface StateTaxRule {
+  name: string;
+  rate: number; // percent
+}
+
+/**
+ * A local tax added on top of the state rate
+ */
+export interface LocalTaxRule {
+  name: string;
+  jurisdictionType: Exclude<TaxJurisdictionType, 'state'>;
+  rate: number; // percent
+}
+
+/**
+ * State-level rates by two-letter state code
+ */
+export const STATE_TAX_RULES: Record<string, StateTaxRule> = {
+  AL: { name: 'Alabama', rate: 4 },
+  AK: { name: 'Alaska', rate: 0 },
+  AZ: { name: 'Arizona', rate: 5.6 },
+  AR: { name: 'Arkansas', rate: 6.5 },
+  CA: { name: 'California', rate: 7.25 },
+  CO: { name: 'Colorado', rate: 2.9 },
+  CT: { name: 'Connecticut', rate: 6.35 },
+  DE: { name: 'Delaware', rate: 0 },
+  DC: { name: 'District of Columbia', rate: 6 },
+  FL: { name: 'Florida', rate: 6 },
+  GA: { name: 'Georgia', rate: 4 },
+  HI: { name: 'Hawaii', rate: 4 },
+  ID: { name: 'Idaho', rate: 6 },
+  IL: { name: 'Illinois', rate: 6.25 },
+  IN: { name: 'Indiana', rate: 7 },
+  IA: { name: 'Iowa', rate: 6 },
+  KS: { name: 'Kansas', rate: 6.5 },
+  KY: { name: 'Kentucky', rate: 6 },
+  LA: { name: 'Louisiana', rate: 4.45 },
+  ME: { name: 'Maine', rate: 5.5 },
+  MD: { name: 'Maryland', rate: 6 },
+  MA: { name: 'Massachusetts', rate: 6.25 },
+  MI: { name: 'Michigan', rate: 6 },
+  MN: { name: 'Minnesota', rate: 6.875 },
+  MS: { name: 'Mississippi', rate: 7 },
+  MO: { name: 'Missouri', rate: 4.225 },
+  MT: { name: 'Montana', rate: 0 },
+  NE: { name: 'Nebraska', rate: 5.5 },
+  NV: { name: 'Nevada', rate: 6.85 },
+  NH: { name: 'New Hampshire', rate: 0 },
+  NJ: { name: 'New Jersey', rate: 6.625 },
+  NM: { name: 'New Mexico', rate: 4.875 },
+  NY: { name: 'New York', rate: 4 },
+  NC: { name: 'North Carolina', rate: 4.75 },
+  ND: { name: 'North Dakota', rate: 5 },
+  OH: { name: 'Ohio', rate: 5.75 },
+  OK: { name: 'Oklahoma', rate: 4.5 },
+  OR: { name: 'Oregon', rate: 0 },
+  PA: { name: 'Pennsylvania', rate: 6 },
+  RI: { name: 'Rhode Island', rate: 7 },
+  SC: { name: 'South Carolina', rate: 6 },
+  SD: { name: 'South Dakota', rate: 4.2 },
+  TN: { name: 'Tennessee', rate: 7 },
+  TX: { name: 'Texas', rate: 6.25 },
+  UT: { name: 'Utah', rate: 6.1 },
+  VT: { name: 'Vermont', rate: 6 },
+  VA: { name: 'Virginia', rate: 5.3 },
+  WA: { name: 'Washington', rate: 6.5 },
+  WV: { name: 'West Virginia', rate: 6 },
+  WI: { name: 'Wisconsin', rate: 5 },
+  WY: { name: 'Wyoming', rate: 4 },
+};
+
+/**
+ * Local taxes by five-digit ZIP code or three-digit ZIP prefix
+ */
+export const LOCAL_TAX_RULES: Record<string, { state: string; rules: LocalTaxRule[] }> = {
+  // Florida
+  '330': { state: 'FL', rules: [{ name: 'Miami-Dade County', jurisdictionType: 'county', rate: 1 }] },
+  '331': { state: 'FL', rules: [{ name: 'Miami-Dade County', jurisdictionType: 'county', rate: 1 }] },
+  '333': { state: 'FL', rules: [{ name: 'Broward County', jurisdictionType: 'county', rate: 1 }] },
+  // New York City
+  '100': { state: 'NY', rules: [
+    { name: 'New York City', jurisdictionType: 'city', rate: 4.5 },
+    { name: 'Metropolitan Commuter Transportation District', jurisdictionType: 'district', rate: 0.375 },
+  ] },
+  '112': { state: 'NY', rules: [
+    { name: 'New York City', jurisdictionType: 'city', rate: 4.5 },
+    { name: 'Metropolitan Commuter Transportation District', jurisdictionType: 'district', rate: 0.375 },
+  ] },
+  // California
+  '900': { state: 'CA', rules: [{ name: 'Los Angeles County', jurisdictionType: 'county', rate: 2.25 }] },
+  '941': { state: 'CA', rules: [{ name: 'San Francisco', jurisdictionType: 'city', rate: 1.375 }] },
+  '921': { state: 'CA', rules: [{ name: 'San Diego County', jurisdictionType: 'county', rate: 0.5 }] },
+  // Texas
+  '770': { state: 'TX', rules: [
+    { name: 'Houston', jurisdictionType: 'city', rate: 1 },
+    { name: 'Houston Metropolitan Transit Authority', jurisdictionType: 'district', rate: 1 },
+  ] },
+  '787': { state: 'TX', rules: [
+    { name: 'Austin', jurisdictionType: 'city', rate: 1 },
+    { name: 'Capital Metropolitan Transportation Authority', jurisdictionType: 'district', rate: 1 },
+  ] },
+  // Illinois
+  '606': { state: 'IL', rules: [
+    { name: 'Cook County', jurisdictionType: 'county', rate: 1.75 },
+    { name: 'Chicago', jurisdictionType: 'city', rate: 1.25 },
+    { name: 'Regional Transportation Authority', jurisdictionType: 'district', rate: 1 },
+  ] },
+  // Washington
+  '981': { state: 'WA', rules: [{ name: 'Seattle', jurisdictionType: 'city', rate: 3.75 }] },
+  // Arizona
+  '850': { state: 'AZ', rules: [
+    { name: 'Maricopa County', jurisdictionType: 'county', rate: 0.7 },
+    { name: 'Phoenix', jurisdictionType: 'city', rate: 2.3 },
+  ] },
+};
+
+/**
+ * Looks up the state rule for a state code
+ *
+ * @param state - Two-letter state code (any case)
+ * @returns StateTaxRule | null - The rule, or null for unknown states
+ */
+export function getStateTaxRule(state: string): StateTaxRule | null {
+  return STATE_TAX_RULES[state.trim().toUpperCase()] || null;
+}
+
+/**
+ * Looks up the local taxes for a ZIP code in a state
+ *
+ * @param state - Two-letter state code
+ * @param zipCode - ZIP or ZIP+4 code
+ * @returns LocalTaxRule[] - Local taxes (empty when none are listed)
+ */
+export function getLocalTaxRules(state: string, zipCode?: string): LocalTaxRule[] {
+  const zip = (zipCode || '').trim().slice(0, 5);
+  if (!/^\d{5}$/.test(zip)) {
+    return [];
+  }
+
+  const entry = LOCAL_TAX_RULES[zip] || LOCAL_TAX_RULES[zip.slice(0, 3)];
+  // A ZIP listed under another state means the address is inconsistent; charge the state rate only
+  return entry && entry.state === state.trim().toUpperCase() ? entry.rules : [];
+}
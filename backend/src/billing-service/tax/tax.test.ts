@@ -0,0 +1,346 @@
+/**
+ * @fileoverview Unit tests for sales tax
+ *
+ * Tests jurisdiction tax lines from the offline rules, exemption certificates,
+ * pluggable calculators, refund reversals and the tax liability report.
+ */
+
+import { BillingAccount, InvoiceTaxLine, TaxExemptionCertificate, Transaction } from '@harborlist/shared-types';
+import { calculateTax, registerTaxCalculator, reverseTaxLines } from './tax-calculator';
+import {
+  findExemptionCertificate,
+  reviewExemptionCertificate,
+  submitExemptionCertificate,
+  validateExemptionSubmission,
+} from './tax-exemptions';
+import { buildTaxLiabilityReport, getTaxPeriod } from './tax-report';
+import { getLocalTaxRules } from './tax-rules';
+import { db } from '../../shared/database';
+
+jest.mock('../../shared/database', () => ({
+  db: {
+    getBillingAccount: jest.fn(),
+    updateBillingAccount: jest.fn(),
+    getCompletedTransactionsInRange: jest.fn(),
+  },
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+const NOW = 1_700_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+
+function createTestAccount(overrides: Partial<BillingAccount> = {}): BillingAccount {
+  return {
+    billingId: 'billing-1',
+    userId: 'user-1',
+    plan: 'premium_individual',
+    amount: 29.99,
+    currency: 'USD',
+    status: 'active',
+    paymentHistory: [],
+    billingAddress: {
+      street: '1 Harbor Way',
+      city: 'Miami',
+      state: 'FL',
+      zipCode: '33101',
+      country: 'US',
+    },
+    taxInfo: { taxExempt: false },
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function createTestCertificate(overrides: Partial<TaxExemptionCertificate> = {}): TaxExemptionCertificate {
+  return {
+    certificateId: 'cert-1',
+    certificateNumber: 'FL-85-123456',
+    exemptionType: 'resale',
+    states: ['FL'],
+    status: 'verified',
+    submittedAt: NOW - DAY,
+    ...overrides,
+  };
+}
+
+function createTestTransaction(createdAt: string, taxLines: InvoiceTaxLine[]): Transaction {
+  return {
+    id: `txn-${createdAt}`,
+    transactionId: `txn-${createdAt}`,
+    type: 'membership',
+    amount: 100,
+    currency: 'USD',
+    status: 'completed',
+    userId: 'user-1',
+    userName: 'Test User',
+    userEmail: 'test@example.com',
+    paymentMethod: 'card',
+    processorTransactionId: 'proc-1',
+    createdAt,
+    description: 'Membership',
+    fees: 0,
+    netAmount: 100,
+    taxLines,
+  };
+}
+
+describe('Sales Tax', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.TAX_CALCULATOR;
+  });
+
+  describe('calculateTax', () => {
+    it('should add state and local lines for a US address', async () => {
+      const tax = await calculateTax({ billingAccount: createTestAccount(), amount: 100 });
+
+      expect(tax.exempt).toBe(false);
+      expect(tax.calculator).toBe('offline');
+      expect(tax.taxLines).toEqual([
+        expect.objectContaining({ jurisdiction: 'FL', jurisdictionType: 'state', rate: 6, taxableAmount: 100, amount: 6 }),
+        expect.objectContaining({ jurisdiction: 'FL - Miami-Dade County', jurisdictionType: 'county', rate: 1, amount: 1 }),
+      ]);
+      expect(tax.taxTotal).toBe(7);
+    });
+
+    it('should charge only the state rate outside listed local areas', async () => {
+      const billingAccount = createTestAccount({
+        billingAddress: { street: '1 Bay St', city: 'Tampa', state: 'fl', zipCode: '33602', country: 'US' },
+      });
+
+      const tax = await calculateTax({ billingAccount, amount: 29.99 });
+
+      expect(tax.taxLines).toHaveLength(1);
+      expect(tax.taxTotal).toBe(1.8);
+    });
+
+    it('should not tax charges in states without a sales tax', async () => {
+      const billingAccount = createTestAccount({
+        billingAddress: { street: '1 River Rd', city: 'Portland', state: 'OR', zipCode: '97201', country: 'US' },
+      });
+
+      const tax = await calculateTax({ billingAccount, amount: 100 });
+
+      expect(tax.taxLines).toEqual([]);
+      expect(tax.taxTotal).toBe(0);
+    });
+
+    it('should ignore local rules for a ZIP code listed under another state', () => {
+      expect(getLocalTaxRules('GA', '33101')).toEqual([]);
+      expect(getLocalTaxRules('FL', '33101-1234')).toHaveLength(1);
+    });
+
+    it('should not tax zero amounts', async () => {
+      const tax = await calculateTax({ billingAccount: createTestAccount(), amount: 0 });
+
+      expect(tax).toEqual({ taxLines: [], taxTotal: 0, exempt: false });
+    });
+
+    it('should use the fallback rate outside the US', async () => {
+      const billingAccount = createTestAccount({
+        billingAddress: { street: '1 Queen St', city: 'Toronto', state: 'ON', zipCode: 'M5H 2N2', country: 'CA' },
+        taxInfo: { taxExempt: false, taxRate: 13 },
+      });
+
+      const tax = await calculateTax({ billingAccount, amount: 100 });
+
+      expect(tax.taxLines).toEqual([
+        expect.objectContaining({ description: 'Sales tax (ON, CA)', jurisdictionType: 'other', rate: 13, amount: 13 }),
+      ]);
+    });
+
+    it('should exempt charges covered by a verified certificate', async () => {
+      const billingAccount = createTestAccount({
+        taxInfo: { taxExempt: true, exemptionCertificates: [createTestCertificate()] },
+      });
+
+      const tax = await calculateTax({ billingAccount, amount: 100, date: NOW });
+
+      expect(tax).toEqual({ taxLines: [], taxTotal: 0, exempt: true, exemptionCertificateId: 'cert-1' });
+    });
+
+    it('should tax charges when the certificate is pending, expired or for another state', async () => {
+      const certificates = [
+        createTestCertificate({ certificateId: 'pending', status: 'pending' }),
+        createTestCertificate({ certificateId: 'expired', expiresAt: NOW - DAY }),
+        createTestCertificate({ certificateId: 'other-state', states: ['GA'] }),
+      ];
+      const billingAccount = createTestAccount({
+        taxInfo: { taxExempt: true, exemptionCertificates: certificates },
+      });
+
+      const tax = await calculateTax({ billingAccount, amount: 100, date: NOW });
+
+      expect(tax.exempt).toBe(false);
+      expect(tax.taxTotal).toBe(7);
+    });
+
+    it('should use the calculator selected by TAX_CALCULATOR', async () => {
+      registerTaxCalculator('flat', () => ({
+        name: 'flat',
+        calculateTaxLines: async (address, amount) => [
+          { description: 'Flat tax', jurisdiction: address.state, rate: 10, taxableAmount: amount, amount: amount / 10 },
+        ],
+      }));
+      process.env.TAX_CALCULATOR = 'flat';
+
+      const tax = await calculateTax({ billingAccount: createTestAccount(), amount: 50 });
+
+      expect(tax.calculator).toBe('flat');
+      expect(tax.taxTotal).toBe(5);
+    });
+
+    it('should fall back to the offline rules when a calculator fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      registerTaxCalculator('unavailable', () => ({
+        name: 'unavailable',
+        calculateTaxLines: async () => { throw new Error('Service unavailable'); },
+      }));
+      process.env.TAX_CALCULATOR = 'unavailable';
+
+      const tax = await calculateTax({ billingAccount: createTestAccount(), amount: 100 });
+
+      expect(tax.calculator).toBe('offline');
+      expect(tax.taxTotal).toBe(7);
+    });
+
+    it('should reject an unknown calculator', async () => {
+      process.env.TAX_CALCULATOR = 'missing';
+
+      await expect(calculateTax({ billingAccount: createTestAccount(), amount: 100 }))
+        .rejects.toThrow('Unknown tax calculator: missing');
+    });
+  });
+
+  describe('reverseTaxLines', () => {
+    it('should reverse the refunded share of each line', () => {
+      const lines: InvoiceTaxLine[] = [
+        { description: 'Florida state sales tax', jurisdiction: 'FL', rate: 6, taxableAmount: 100, amount: 6 },
+        { description: 'Miami-Dade County sales tax', jurisdiction: 'FL - Miami-Dade County', rate: 1, taxableAmount: 100, amount: 1 },
+      ];
+
+      const reversed = reverseTaxLines(lines, 0.5);
+
+      expect(reversed.map(line => [line.taxableAmount, line.amount])).toEqual([[-50, -3], [-50, -0.5]]);
+      expect(reverseTaxLines(lines, 2)[0].amount).toBe(-6);
+    });
+  });
+
+  describe('exemption certificates', () => {
+    it('should validate submissions', () => {
+      expect(validateExemptionSubmission({ certificateNumber: ' ', exemptionType: 'resale' }))
+        .toBe('Certificate number is required');
+      expect(validateExemptionSubmission({ certificateNumber: 'X1', exemptionType: 'charity' as any }))
+        .toMatch(/^Certificate exemption type must be one of/);
+      expect(validateExemptionSubmission({ certificateNumber: 'X1', exemptionType: 'resale', states: ['ZZ'] }))
+        .toBe('Certificate covers an unknown state: ZZ');
+      expect(validateExemptionSubmission({ certificateNumber: 'X1', exemptionType: 'resale', expiresAt: NOW - 1 }, NOW))
+        .toBe('Certificate has already expired');
+      expect(validateExemptionSubmission({ certificateNumber: 'X1', exemptionType: 'nonprofit', states: ['fl'] }, NOW))
+        .toBeNull();
+    });
+
+    it('should store submitted certificates as pending without exempting the account', async () => {
+      const billingAccount = createTestAccount();
+
+      const certificate = await submitExemptionCertificate(billingAccount, {
+        certificateNumber: ' FL-85-123456 ',
+        exemptionType: 'resale',
+        states: ['fl', 'FL', 'ga'],
+      });
+
+      expect(certificate).toMatchObject({ certificateNumber: 'FL-85-123456', states: ['FL', 'GA'], status: 'pending' });
+      expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing-1', expect.objectContaining({
+        taxInfo: { taxExempt: false, exemptionCertificates: [certificate] },
+      }));
+    });
+
+    it('should mark the account exempt when a certificate is verified', async () => {
+      mockDb.getBillingAccount.mockResolvedValue(createTestAccount({
+        taxInfo: { taxExempt: false, exemptionCertificates: [createTestCertificate({ status: 'pending' })] },
+      }));
+
+      const certificate = await reviewExemptionCertificate('billing-1', 'cert-1', 'verified', 'admin-1');
+
+      expect(certificate).toMatchObject({ status: 'verified', reviewedBy: 'admin-1' });
+      expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing-1', expect.objectContaining({
+        taxInfo: expect.objectContaining({ taxExempt: true }),
+      }));
+    });
+
+    it('should require a reason to reject a certificate', async () => {
+      mockDb.getBillingAccount.mockResolvedValue(createTestAccount({
+        taxInfo: { taxExempt: false, exemptionCertificates: [createTestCertificate({ status: 'pending' })] },
+      }));
+
+      await expect(reviewExemptionCertificate('billing-1', 'cert-1', 'rejected', 'admin-1'))
+        .rejects.toThrow('Certificate rejection requires a reason');
+      expect(mockDb.updateBillingAccount).not.toHaveBeenCalled();
+    });
+
+    it('should not review a certificate twice', async () => {
+      mockDb.getBillingAccount.mockResolvedValue(createTestAccount({
+        taxInfo: { taxExempt: true, exemptionCertificates: [createTestCertificate()] },
+      }));
+
+      await expect(reviewExemptionCertificate('billing-1', 'cert-1', 'rejected', 'admin-1', 'Invalid'))
+        .rejects.toThrow('Certificate has already been verified');
+      await expect(reviewExemptionCertificate('billing-1', 'cert-2', 'verified', 'admin-1'))
+        .rejects.toThrow('Certificate not found');
+    });
+
+    it('should cover every state when a certificate lists none', () => {
+      const billingAccount = createTestAccount({
+        taxInfo: { taxExempt: true, exemptionCertificates: [createTestCertificate({ states: [] })] },
+      });
+
+      expect(findExemptionCertificate(billingAccount, 'tx', NOW)?.certificateId).toBe('cert-1');
+    });
+  });
+
+  describe('tax liability report', () => {
+    const floridaLines = (amount: number): InvoiceTaxLine[] => [
+      { description: 'Florida state sales tax', jurisdiction: 'FL', jurisdictionType: 'state', rate: 6, taxableAmount: amount, amount: amount * 0.06 },
+      { description: 'Miami-Dade County sales tax', jurisdiction: 'FL - Miami-Dade County', jurisdictionType: 'county', rate: 1, taxableAmount: amount, amount: amount * 0.01 },
+    ];
+
+    it('should net refunds against collected tax by jurisdiction and period', () => {
+      const transactions = [
+        createTestTransaction('2024-01-15T10:00:00.000Z', floridaLines(100)),
+        createTestTransaction('2024-02-03T10:00:00.000Z', floridaLines(200)),
+        createTestTransaction('2024-02-20T10:00:00.000Z', reverseTaxLines(floridaLines(100), 1)),
+        createTestTransaction('2024-02-21T10:00:00.000Z', []),
+      ];
+
+      const report = buildTaxLiabilityReport(transactions, '2024-01-01T00:00:00.000Z', '2024-03-31T23:59:59.999Z', 'month');
+
+      expect(report.totals).toEqual({
+        taxableAmount: 200,
+        taxCollected: 21,
+        taxRefunded: 7,
+        netLiability: 14,
+        transactionCount: 3,
+      });
+      expect(report.byJurisdiction[0]).toMatchObject({
+        jurisdiction: 'FL',
+        taxCollected: 18,
+        taxRefunded: 6,
+        netLiability: 12,
+      });
+      expect(report.byPeriod.map(row => [row.period, row.jurisdiction, row.netLiability])).toEqual([
+        ['2024-01', 'FL', 6],
+        ['2024-01', 'FL - Miami-Dade County', 1],
+        ['2024-02', 'FL', 6],
+        ['2024-02', 'FL - Miami-Dade County', 1],
+      ]);
+    });
+
+    it('should label filing periods', () => {
+      expect(getTaxPeriod('2024-05-31T23:00:00.000Z', 'month')).toBe('2024-05');
+      expect(getTaxPeriod('2024-05-31T23:00:00.000Z', 'quarter')).toBe('2024-Q2');
+      expect(getTaxPeriod('2024-05-31T23:00:00.000Z', 'year')).toBe('2024');
+    });
+  });
+});
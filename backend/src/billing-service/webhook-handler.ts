@@ -1,7 +1,7 @@
 /**
  * @fileoverview Webhook handler for payment processor events in HarborList billing system.
  * 
- * Handles webhook events from payment processors (Stripe, PayPal) including:
+ * Handles webhook events from payment processors (Stripe, PayPal, simulator) including:
  * - Payment success and failure events
  * - Subscription lifecycle events
  * - Dispute and chargeback notifications
@@ -19,11 +19,14 @@
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { PaymentProcessor } from './payment-processors/stripe';
+import { PaymentProcessorType } from './payment-processors/types';
+import { SIMULATOR_SIGNATURE_HEADER } from './payment-processors/simulator';
 import { PaymentFailureHandler, PaymentFailureReason } from './payment-failure-handler';
 import { SubscriptionManager } from './subscription-manager';
 import { db } from '../shared/database';
 import { createResponse, createErrorResponse } from '../shared/utils';
 import { Transaction, BillingAccount } from '@harborlist/shared-types';
+import { postDisputeClosed, recordTransactionInLedger } from './ledger/ledger-manager';
 
 /**
  * Webhook event types
@@ -62,7 +65,7 @@ export enum WebhookEventType {
  */
 export interface ProcessedWebhookEvent {
   eventId: string;
-  processorType: 'stripe' | 'paypal';
+  processorType: PaymentProcessorType;
   eventType: string;
   processed: boolean;
   processedAt?: number;
@@ -101,7 +104,10 @@ export class WebhookHandler {
     try {
       // Get webhook payload and signature
       const payload = event.body || '';
-      const signature = event.headers['stripe-signature'] || event.headers['paypal-auth-algo'] || '';
+      const signature = event.headers['stripe-signature']
+        || event.headers['paypal-auth-algo']
+        || event.headers[SIMULATOR_SIGNATURE_HEADER]
+        || '';
       
       if (!payload || !signature) {
         return createErrorResponse(400, 'INVALID_WEBHOOK', 'Missing payload or signature', requestId);
@@ -153,7 +159,7 @@ export class WebhookHandler {
   /**
    * Constructs webhook event from payload and signature
    */
-  private async constructWebhookEvent(payload: string, signature: string, processorType: 'stripe' | 'paypal'): Promise<any> {
+  private async constructWebhookEvent(payload: string, signature: string, processorType: PaymentProcessorType): Promise<any> {
     try {
       return this.paymentProcessor.constructWebhookEvent(payload, signature);
     } catch (error) {
@@ -165,12 +171,12 @@ export class WebhookHandler {
   /**
    * Processes webhook event based on type
    */
-  private async processWebhookEvent(webhookEvent: any, processorType: 'stripe' | 'paypal'): Promise<any> {
+  private async processWebhookEvent(webhookEvent: any, processorType: PaymentProcessorType): Promise<any> {
     try {
       // Use payment processor's webhook handler
       const result = await this.paymentProcessor.handleWebhookEvent(webhookEvent);
       
-      if (result.handled) {
+      if (result.handled && result.action) {
         // Process the event data based on action
         await this.handleWebhookAction(result.action, result.data, processorType);
       }
@@ -185,7 +191,7 @@ export class WebhookHandler {
   /**
    * Handles specific webhook actions
    */
-  private async handleWebhookAction(action: string, data: any, processorType: 'stripe' | 'paypal'): Promise<void> {
+  private async handleWebhookAction(action: string, data: any, processorType: PaymentProcessorType): Promise<void> {
     try {
       switch (action) {
         case 'payment_succeeded':
@@ -220,6 +226,10 @@ export class WebhookHandler {
           await this.handleDisputeCreated(data);
           break;
         
+        case 'dispute_closed':
+          await this.handleDisputeClosed(data);
+          break;
+        
         default:
           console.log(`Unhandled webhook action: ${action}`);
       }
@@ -237,10 +247,12 @@ export class WebhookHandler {
       // Update transaction status
       const transaction = await db.getTransactionByProcessorId(data.paymentIntentId);
       if (transaction) {
+        const completedAt = new Date().toISOString();
         await db.updateTransaction(transaction.id, {
           status: 'completed',
-          completedAt: new Date().toISOString(),
+          completedAt,
         });
+        await recordTransactionInLedger({ ...transaction, status: 'completed', completedAt });
 
         // If this was a retry payment, resolve the failure
         if (data.metadata?.originalFailureId) {
@@ -448,10 +460,34 @@ export class WebhookHandler {
     }
   }
 
+  /**
+   * Handles dispute closed events
+   */
+  private async handleDisputeClosed(data: any): Promise<void> {
+    try {
+      if (data.status !== 'won' && data.status !== 'lost') {
+        return;
+      }
+
+      const transaction = await db.getTransactionByProcessorId(data.chargeId);
+      if (!transaction) {
+        console.warn(`Dispute closed for unknown charge ${data.chargeId}`);
+        return;
+      }
+
+      // Won disputes return the held funds; lost ones are written off. Keyed like the opening posting,
+      // which is only there if the dispute case was created
+      await postDisputeClosed(transaction.transactionId, data.amount, data.status, (data.currency || 'usd').toUpperCase());
+    } catch (error) {
+      console.error('Error handling dispute closed:', error);
+      throw error;
+    }
+  }
+
   /**
    * Determines processor type from event
    */
-  private determineProcessorType(event: APIGatewayProxyEvent): 'stripe' | 'paypal' {
+  private determineProcessorType(event: APIGatewayProxyEvent): PaymentProcessorType {
     const path = event.path || '';
     const headers = event.headers || {};
 
@@ -463,14 +499,18 @@ export class WebhookHandler {
       return 'paypal';
     }
 
+    if (path.includes('/simulator') || headers[SIMULATOR_SIGNATURE_HEADER]) {
+      return 'simulator';
+    }
+
     // Default to configured processor
-    return (process.env.PAYMENT_PROCESSOR || 'stripe') as 'stripe' | 'paypal';
+    return (process.env.PAYMENT_PROCESSOR || 'stripe') as PaymentProcessorType;
   }
 
   /**
    * Checks if event is duplicate
    */
-  private async isDuplicateEvent(eventId: string, processorType: 'stripe' | 'paypal'): Promise<boolean> {
+  private async isDuplicateEvent(eventId: string, processorType: PaymentProcessorType): Promise<boolean> {
     const key = `${processorType}_${eventId}`;
     
     // Check in-memory cache first
@@ -494,7 +534,7 @@ export class WebhookHandler {
    */
   private async recordProcessedEvent(
     eventId: string,
-    processorType: 'stripe' | 'paypal',
+    processorType: PaymentProcessorType,
     eventType: string,
     processed: boolean,
     error?: string
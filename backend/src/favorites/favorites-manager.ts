@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Favorites (watchlist) storage for HarborList buyers.
+ *
+ * Stores one record per user and favorited listing:
+ * - Users add, remove and list their favorites
+ * - A listing index finds everyone watching a listing, for watcher
+ *   notifications (see `watch-notifier.ts`) and owner favorite counts
+ * - The listing price at the time of saving is kept so watchers can be told
+ *   how far a price has dropped since they started watching
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  DeleteCommand,
+  BatchWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { Favorite, Listing } from '../types/common';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const FAVORITES_TABLE = process.env.FAVORITES_TABLE || 'harborlist-favorites';
+
+/**
+ * Index of favorites by listing
+ */
+const LISTING_INDEX = 'listing-index';
+
+/**
+ * Maximum number of favorites a user can keep
+ */
+export const MAX_FAVORITES_PER_USER = 500;
+
+/**
+ * Maximum items per DynamoDB batch write
+ */
+const BATCH_WRITE_SIZE = 25;
+
+/**
+ * Lists a user's favorites, most recently added first
+ *
+ * @param userId - Owner of the favorites
+ * @returns Promise<Favorite[]> - The user's favorites
+ */
+export async function listFavorites(userId: string): Promise<Favorite[]> {
+  const favorites: Favorite[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: FAVORITES_TABLE,
+      KeyConditionExpression: 'userId = :userId',
+      ExpressionAttributeValues: {
+        ':userId': userId,
+      },
+      ExclusiveStartKey: lastKey,
+    }));
+    favorites.push(...((result.Items || []) as Favorite[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return favorites.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Retrieves a single favorite
+ *
+ * @param userId - Owner of the favorite
+ * @param listingId - Favorited listing
+ * @returns Promise<Favorite | null> - The favorite, or null when the listing is not favorited
+ */
+export async function getFavorite(userId: string, listingId: string): Promise<Favorite | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: FAVORITES_TABLE,
+    Key: { userId, listingId },
+  }));
+
+  return (result.Item as Favorite) || null;
+}
+
+/**
+ * Adds a listing to a user's favorites
+ *
+ * Adding a listing that is already a favorite keeps the original record.
+ *
+ * @param userId - User adding the favorite
+ * @param listing - Listing to favorite
+ * @returns Promise<{ favorite: Favorite; created: boolean }> - The favorite and whether it was new
+ *
+ * @throws {Error} When the user already has the maximum number of favorites
+ */
+export async function addFavorite(userId: string, listing: Listing): Promise<{ favorite: Favorite; created: boolean }> {
+  const existing = await getFavorite(userId, listing.listingId);
+  if (existing) {
+    return { favorite: existing, created: false };
+  }
+
+  const favorites = await listFavorites(userId);
+  if (favorites.length >= MAX_FAVORITES_PER_USER) {
+    throw new Error(`Favorite limit reached (${MAX_FAVORITES_PER_USER})`);
+  }
+
+  const favorite: Favorite = {
+    userId,
+    listingId: listing.listingId,
+    createdAt: Date.now(),
+    priceAtSave: listing.price,
+  };
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: FAVORITES_TABLE,
+      Item: favorite,
+      ConditionExpression: 'attribute_not_exists(listingId)',
+    }));
+  } catch (error: any) {
+    // Favorited concurrently from another tab or device
+    if (error?.name === 'ConditionalCheckFailedException') {
+      return { favorite: (await getFavorite(userId, listing.listingId)) || favorite, created: false };
+    }
+    throw error;
+  }
+
+  return { favorite, created: true };
+}
+
+/**
+ * Removes a listing from a user's favorites
+ *
+ * @param userId - Owner of the favorite
+ * @param listingId - Listing to remove
+ * @returns Promise<boolean> - True when a favorite was removed
+ */
+export async function removeFavorite(userId: string, listingId: string): Promise<boolean> {
+  const result = await docClient.send(new DeleteCommand({
+    TableName: FAVORITES_TABLE,
+    Key: { userId, listingId },
+    ReturnValues: 'ALL_OLD',
+  }));
+
+  return !!result.Attributes;
+}
+
+/**
+ * Returns everyone watching a listing
+ *
+ * @param listingId - Listing identifier
+ * @returns Promise<Favorite[]> - One favorite per watching user
+ */
+export async function getListingWatchers(listingId: string): Promise<Favorite[]> {
+  const watchers: Favorite[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: FAVORITES_TABLE,
+      IndexName: LISTING_INDEX,
+      KeyConditionExpression: 'listingId = :listingId',
+      ExpressionAttributeValues: {
+        ':listingId': listingId,
+      },
+      ExclusiveStartKey: lastKey,
+    }));
+    watchers.push(...((result.Items || []) as Favorite[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return watchers;
+}
+
+/**
+ * Counts how many users have favorited a listing
+ *
+ * @param listingId - Listing identifier
+ * @returns Promise<number> - Number of watchers
+ */
+export async function countFavorites(listingId: string): Promise<number> {
+  let count = 0;
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: FAVORITES_TABLE,
+      IndexName: LISTING_INDEX,
+      KeyConditionExpression: 'listingId = :listingId',
+      ExpressionAttributeValues: {
+        ':listingId': listingId,
+      },
+      Select: 'COUNT',
+      ExclusiveStartKey: lastKey,
+    }));
+    count += result.Count || 0;
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return count;
+}
+
+/**
+ * Removes every favorite of a listing
+ *
+ * Called after watchers have been told a listing was deleted, so
+ * watchlists do not keep pointing at it.
+ *
+ * @param favorites - Favorites to remove (from `getListingWatchers`)
+ * @returns Promise<void> - Resolves once all favorites are removed
+ */
+export async function deleteFavorites(favorites: Favorite[]): Promise<void> {
+  for (let i = 0; i < favorites.length; i += BATCH_WRITE_SIZE) {
+    const batch = favorites.slice(i, i + BATCH_WRITE_SIZE);
+    await docClient.send(new BatchWriteCommand({
+      RequestItems: {
+        [FAVORITES_TABLE]: batch.map(({ userId, listingId }) => ({
+          DeleteRequest: { Key: { userId, listingId } },
+        })),
+      },
+    }));
+  }
+}
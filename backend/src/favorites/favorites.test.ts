@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Unit tests for favorites (watchlist)
+ *
+ * Tests the favorites API handler, change detection for watched listings
+ * and the notifications sent to watchers.
+ */
+
+import { handler } from './index';
+import { detectWatchlistChange, notifyWatchers, notifyWatchersOfChange } from './watch-notifier';
+import {
+  addFavorite,
+  listFavorites,
+  countFavorites,
+  getListingWatchers,
+  deleteFavorites,
+} from './favorites-manager';
+import { createNotification } from '../notification-service';
+import { db } from '../shared/database';
+import { Favorite, Listing } from '../types/common';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+jest.mock('./favorites-manager', () => ({
+  MAX_FAVORITES_PER_USER: 500,
+  listFavorites: jest.fn(),
+  getFavorite: jest.fn(),
+  addFavorite: jest.fn(),
+  removeFavorite: jest.fn(),
+  countFavorites: jest.fn(),
+  getListingWatchers: jest.fn(),
+  deleteFavorites: jest.fn(),
+}));
+
+jest.mock('../notification-service', () => ({
+  createNotification: jest.fn(),
+}));
+
+jest.mock('../shared/database', () => ({
+  db: {
+    getListing: jest.fn(),
+    getListingsByOwner: jest.fn(),
+  },
+}));
+
+const mockGetListingWatchers = getListingWatchers as jest.MockedFunction<typeof getListingWatchers>;
+const mockCreateNotification = createNotification as jest.MockedFunction<typeof createNotification>;
+const mockGetListing = db.getListing as jest.Mock;
+
+function createListing(overrides: Partial<Listing> = {}): Listing {
+  return {
+    listingId: 'listing-1',
+    ownerId: 'owner-1',
+    title: '2019 Grady-White 257',
+    description: '',
+    price: 50000,
+    location: { city: 'Miami', state: 'FL' },
+    boatDetails: { type: 'Center Console', year: 2019, length: 25, condition: 'Good' },
+    features: [],
+    images: [],
+    thumbnails: [],
+    status: 'active',
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  } as Listing;
+}
+
+function createFavorite(overrides: Partial<Favorite> = {}): Favorite {
+  return {
+    userId: 'watcher-1',
+    listingId: 'listing-1',
+    createdAt: 2000,
+    priceAtSave: 55000,
+    ...overrides,
+  };
+}
+
+function createEvent(method: string, path: string, body?: any, userId: string | null = 'user-1'): APIGatewayProxyEvent {
+  return {
+    httpMethod: method,
+    path,
+    body: body ? JSON.stringify(body) : null,
+    requestContext: {
+      requestId: 'test-request',
+      ...(userId && { authorizer: { claims: { sub: userId } } }),
+    } as any,
+  } as APIGatewayProxyEvent;
+}
+
+describe('Favorites', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('API handler', () => {
+    test('should require authentication', async () => {
+      const result = await handler(createEvent('GET', '/api/favorites', undefined, null));
+      expect(result.statusCode).toBe(401);
+    });
+
+    test('should list favorites with their current listings', async () => {
+      (listFavorites as jest.Mock).mockResolvedValue([createFavorite({ listingId: 'listing-1' }), createFavorite({ listingId: 'deleted' })]);
+      mockGetListing.mockImplementation(async (listingId: string) => listingId === 'listing-1' ? createListing() : null);
+
+      const result = await handler(createEvent('GET', '/api/favorites'));
+      const { favorites } = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(favorites[0].listing.title).toBe('2019 Grady-White 257');
+      expect(favorites[1].listing).toBeUndefined();
+    });
+
+    test('should favorite a visible listing', async () => {
+      const listing = createListing();
+      mockGetListing.mockResolvedValue(listing);
+      (addFavorite as jest.Mock).mockResolvedValue({ favorite: createFavorite({ userId: 'user-1' }), created: true });
+
+      const result = await handler(createEvent('POST', '/api/favorites', { listingId: 'listing-1' }));
+
+      expect(result.statusCode).toBe(201);
+      expect(addFavorite).toHaveBeenCalledWith('user-1', listing);
+    });
+
+    test('should not favorite hidden or own listings', async () => {
+      mockGetListing.mockResolvedValueOnce(createListing({ status: 'pending_review' }));
+      const hidden = await handler(createEvent('POST', '/api/favorites', { listingId: 'listing-1' }));
+
+      mockGetListing.mockResolvedValueOnce(createListing({ ownerId: 'user-1' }));
+      const own = await handler(createEvent('POST', '/api/favorites', { listingId: 'listing-1' }));
+
+      expect(hidden.statusCode).toBe(404);
+      expect(own.statusCode).toBe(400);
+      expect(addFavorite).not.toHaveBeenCalled();
+    });
+
+    test('should return favorite counts for the caller\'s own listings', async () => {
+      (db.getListingsByOwner as jest.Mock).mockResolvedValue([
+        createListing({ listingId: 'a' }),
+        createListing({ listingId: 'b' }),
+      ]);
+      (countFavorites as jest.Mock).mockImplementation(async (listingId: string) => listingId === 'a' ? 3 : 0);
+
+      const result = await handler(createEvent('GET', '/api/favorites/counts'));
+
+      expect(db.getListingsByOwner).toHaveBeenCalledWith('user-1');
+      expect(JSON.parse(result.body).counts).toEqual({ a: 3, b: 0 });
+    });
+  });
+
+  describe('detectWatchlistChange', () => {
+    test('should detect a live price drop with the highest recorded price', () => {
+      const before = createListing({ price: 50000 });
+      const after = createListing({
+        price: 45000,
+        priceHistory: [{ price: 60000, changedAt: 1 }, { price: 50000, changedAt: 2 }],
+      } as any);
+
+      expect(detectWatchlistChange(before, after)).toEqual({
+        type: 'price_drop',
+        previousPrice: 50000,
+        newPrice: 45000,
+        highestPrice: 60000,
+      });
+    });
+
+    test('should ignore price increases and unchanged listings', () => {
+      expect(detectWatchlistChange(createListing({ price: 50000 }), createListing({ price: 52000 }))).toBeNull();
+      expect(detectWatchlistChange(createListing(), createListing())).toBeNull();
+    });
+
+    test('should detect sold and removed listings', () => {
+      expect(detectWatchlistChange(createListing(), createListing({ status: 'sold' }))).toEqual({ type: 'sold' });
+      expect(detectWatchlistChange(createListing(), createListing({ status: 'inactive' })))
+        .toEqual({ type: 'removed', deleted: false });
+      expect(detectWatchlistChange(createListing(), null)).toEqual({ type: 'removed', deleted: true });
+    });
+
+    test('should not report listings that were never visible becoming hidden', () => {
+      expect(detectWatchlistChange(
+        createListing({ status: 'pending_review' }),
+        createListing({ status: 'rejected' })
+      )).toBeNull();
+    });
+  });
+
+  describe('notifyWatchers', () => {
+    test('should notify every watcher except the owner', async () => {
+      mockGetListingWatchers.mockResolvedValue([
+        createFavorite({ userId: 'watcher-1' }),
+        createFavorite({ userId: 'owner-1' }),
+        createFavorite({ userId: 'watcher-2', priceAtSave: 40000 }),
+      ]);
+
+      const notified = await notifyWatchers(
+        createListing({ price: 45000, slug: 'grady-white-257' } as any),
+        { type: 'price_drop', previousPrice: 50000, newPrice: 45000, highestPrice: 50000 }
+      );
+
+      expect(notified).toBe(2);
+      expect(mockCreateNotification).toHaveBeenCalledWith(
+        'watcher-1',
+        'watchlist_price_drop',
+        '💰 Price drop: 2019 Grady-White 257',
+        'Now $45,000, down from $50,000. That\'s $10,000 less than when you saved it.',
+        expect.objectContaining({ listingId: 'listing-1', previousPrice: 50000, newPrice: 45000 }),
+        '/boat/grady-white-257'
+      );
+      expect(mockCreateNotification).toHaveBeenCalledWith(
+        'watcher-2',
+        'watchlist_price_drop',
+        expect.any(String),
+        'Now $45,000, down from $50,000.',
+        expect.any(Object),
+        '/boat/grady-white-257'
+      );
+      expect(deleteFavorites).not.toHaveBeenCalled();
+    });
+
+    test('should remove favorites of deleted listings after notifying', async () => {
+      const watchers = [createFavorite()];
+      mockGetListingWatchers.mockResolvedValue(watchers);
+
+      await notifyWatchersOfChange(createListing(), null);
+
+      expect(mockCreateNotification).toHaveBeenCalledWith(
+        'watcher-1',
+        'watchlist_removed',
+        'No longer available: 2019 Grady-White 257',
+        expect.any(String),
+        expect.objectContaining({ change: 'removed' }),
+        '/favorites'
+      );
+      expect(deleteFavorites).toHaveBeenCalledWith(watchers);
+    });
+
+    test('should never throw from notifyWatchersOfChange', async () => {
+      mockGetListingWatchers.mockRejectedValue(new Error('DynamoDB unavailable'));
+
+      await expect(notifyWatchersOfChange(createListing(), createListing({ status: 'sold' }))).resolves.toBeUndefined();
+    });
+  });
+});
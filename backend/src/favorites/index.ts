@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Favorites (watchlist) API handler.
+ *
+ * Endpoints (authenticated):
+ * - GET    /api/favorites             - List favorites with current listing details
+ * - POST   /api/favorites             - Favorite a listing (`{ listingId }`)
+ * - GET    /api/favorites/counts      - Favorite counts for the caller's own listings
+ * - GET    /api/favorites/:listingId  - Whether a listing is favorited
+ * - DELETE /api/favorites/:listingId  - Remove a favorite
+ *
+ * Watchers are notified of price drops, sales and removals by
+ * `watch-notifier.ts`, which the listing and admin services call on changes.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { db } from '../shared/database';
+import { createResponse, createErrorResponse, parseBody, getUserId } from '../shared/utils';
+import { ValidationFramework, CommonRules } from '../shared/validators';
+import { isSearchable } from '../search/filters';
+import { FavoriteListing } from '../types/common';
+import {
+  listFavorites,
+  getFavorite,
+  addFavorite,
+  removeFavorite,
+  countFavorites,
+} from './favorites-manager';
+
+/**
+ * Main Lambda handler for favorites requests
+ *
+ * @param event - API Gateway proxy event
+ * @returns Promise<APIGatewayProxyResult> - Favorites response
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const method = event.httpMethod;
+  const path = event.path.split('?')[0];
+
+  if (method === 'OPTIONS') {
+    return createResponse(200, {});
+  }
+
+  let userId: string;
+  try {
+    userId = getUserId(event);
+  } catch {
+    return createErrorResponse(401, 'UNAUTHORIZED', 'User authentication required', requestId);
+  }
+
+  try {
+    const listingId = path.match(/\/favorites\/([^/]+)\/?$/)?.[1];
+
+    // GET /api/favorites/counts - Favorite counts for the caller's listings
+    if (method === 'GET' && listingId === 'counts') {
+      const ownListings = await db.getListingsByOwner(userId);
+      const counts = await Promise.all(
+        ownListings.map(async listing => [listing.listingId, await countFavorites(listing.listingId)] as const)
+      );
+      return createResponse(200, { counts: Object.fromEntries(counts) });
+    }
+
+    // GET /api/favorites - List favorites with current listing details
+    if (method === 'GET' && !listingId) {
+      const favorites = await listFavorites(userId);
+      const withListings: FavoriteListing[] = await Promise.all(
+        favorites.map(async favorite => ({
+          ...favorite,
+          listing: ((await db.getListing(favorite.listingId)) || undefined) as FavoriteListing['listing'],
+        }))
+      );
+      return createResponse(200, { favorites: withListings });
+    }
+
+    // POST /api/favorites - Favorite a listing
+    if (method === 'POST' && !listingId) {
+      const body = parseBody<{ listingId: string }>(event);
+      const validation = ValidationFramework.validate(body, [
+        CommonRules.required('listingId', 'Listing ID'),
+      ], requestId);
+      if (!validation.isValid) {
+        return validation.response!;
+      }
+
+      const listing = await db.getListing(body.listingId);
+      if (!listing || !isSearchable(listing as any)) {
+        return createErrorResponse(404, 'NOT_FOUND', 'Listing not found', requestId);
+      }
+      if (listing.ownerId === userId) {
+        return createErrorResponse(400, 'OWN_LISTING', 'You cannot favorite your own listing', requestId);
+      }
+
+      try {
+        const { favorite, created } = await addFavorite(userId, listing as any);
+        return createResponse(created ? 201 : 200, { favorite });
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Favorite limit reached')) {
+          return createErrorResponse(409, 'FAVORITE_LIMIT', error.message, requestId);
+        }
+        throw error;
+      }
+    }
+
+    if (listingId) {
+      // GET /api/favorites/:listingId - Whether a listing is favorited
+      if (method === 'GET') {
+        const favorite = await getFavorite(userId, listingId);
+        return createResponse(200, { favorited: !!favorite, favorite: favorite || undefined });
+      }
+
+      // DELETE /api/favorites/:listingId - Remove a favorite
+      if (method === 'DELETE') {
+        const removed = await removeFavorite(userId, listingId);
+        if (!removed) {
+          return createErrorResponse(404, 'NOT_FOUND', 'Favorite not found', requestId);
+        }
+        return createResponse(200, { success: true });
+      }
+    }
+
+    return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
+  } catch (error) {
+    console.error('Favorites error:', error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Favorites request failed', requestId);
+  }
+};
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Notifications to users watching a listing.
+ *
+ * Compares a listing before and after a change to its live data and tells
+ * everyone who favorited it when:
+ * - The price drops (compared against the listing's `priceHistory` and the
+ *   price each watcher saved it at)
+ * - The listing is marked sold
+ * - The listing is removed (deleted, deactivated or taken down by moderation)
+ *
+ * Only changes buyers can see count: edits waiting in `pendingUpdate` are
+ * reported when a moderator approves them.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { Favorite, Listing } from '../types/common';
+import { isSearchable } from '../search/filters';
+import { getListingWatchers, deleteFavorites } from './favorites-manager';
+
+/**
+ * Change to a watched listing that watchers are told about
+ */
+export type WatchlistChange =
+  | { type: 'price_drop'; previousPrice: number; newPrice: number; highestPrice: number }
+  | { type: 'sold' }
+  | { type: 'removed'; deleted: boolean };
+
+/**
+ * Price entries recorded on enhanced listings
+ */
+type ListingWithPriceHistory = Listing & {
+  slug?: string;
+  priceHistory?: Array<{ price: number; changedAt: number }>;
+};
+
+/**
+ * Works out what watchers should be told about a listing change
+ *
+ * @param before - Listing before the change
+ * @param after - Listing after the change, or null when it was deleted
+ * @returns The change to report, or null when watchers need not be told
+ *
+ * @example
+ * ```typescript
+ * detectWatchlistChange({ ...listing, price: 50000 }, { ...listing, price: 45000 });
+ * // { type: 'price_drop', previousPrice: 50000, newPrice: 45000, highestPrice: 50000 }
+ * ```
+ */
+export function detectWatchlistChange(before: Listing, after: Listing | null): WatchlistChange | null {
+  if (!after) {
+    return { type: 'removed', deleted: true };
+  }
+
+  const wasVisible = isSearchable(before);
+  if (after.status === 'sold' && before.status !== 'sold') {
+    return { type: 'sold' };
+  }
+  if (wasVisible && !isSearchable(after) && after.status !== 'sold') {
+    return { type: 'removed', deleted: false };
+  }
+
+  if (isSearchable(after) && after.price < before.price) {
+    const history = (after as ListingWithPriceHistory).priceHistory || [];
+    const highestPrice = history.reduce((max, entry) => Math.max(max, entry.price || 0), before.price);
+    return { type: 'price_drop', previousPrice: before.price, newPrice: after.price, highestPrice };
+  }
+
+  return null;
+}
+
+/**
+ * Formats a price for notification text
+ */
+function formatPrice(price: number): string {
+  return `$${price.toLocaleString('en-US')}`;
+}
+
+/**
+ * Builds the notification for one watcher
+ */
+function buildNotification(
+  listing: Listing,
+  change: WatchlistChange,
+  favorite: Favorite
+): { type: 'watchlist_price_drop' | 'watchlist_sold' | 'watchlist_removed'; title: string; message: string } {
+  switch (change.type) {
+    case 'price_drop': {
+      const savedDrop = favorite.priceAtSave > change.newPrice
+        ? ` That's ${formatPrice(favorite.priceAtSave - change.newPrice)} less than when you saved it.`
+        : '';
+      const percentOff = Math.round(((change.highestPrice - change.newPrice) / change.highestPrice) * 100);
+      return {
+        type: 'watchlist_price_drop',
+        title: `💰 Price drop: ${listing.title}`,
+        message: `Now ${formatPrice(change.newPrice)}, down from ${formatPrice(change.previousPrice)}` +
+          `${change.highestPrice > change.previousPrice ? ` (${percentOff}% off its original price)` : ''}.${savedDrop}`,
+      };
+    }
+    case 'sold':
+      return {
+        type: 'watchlist_sold',
+        title: `Sold: ${listing.title}`,
+        message: 'A boat on your watchlist has been sold.',
+      };
+    case 'removed':
+      return {
+        type: 'watchlist_removed',
+        title: `No longer available: ${listing.title}`,
+        message: change.deleted
+          ? 'A boat on your watchlist has been removed by the seller and taken off your watchlist.'
+          : 'A boat on your watchlist is no longer listed.',
+      };
+  }
+}
+
+/**
+ * Notifies everyone watching a listing about a change
+ *
+ * The listing owner is never notified about their own listing. Favorites of
+ * a deleted listing are removed once its watchers have been told.
+ *
+ * @param listing - Listing as watchers last saw it (the pre-change version for deletions)
+ * @param change - Change to report
+ * @returns Promise<number> - Number of watchers notified
+ */
+export async function notifyWatchers(listing: Listing, change: WatchlistChange): Promise<number> {
+  const watchers = await getListingWatchers(listing.listingId);
+  if (watchers.length === 0) {
+    return 0;
+  }
+
+  // Imported lazily to avoid loading the notification service in every caller
+  const { createNotification } = await import('../notification-service');
+
+  const { slug } = listing as ListingWithPriceHistory;
+  const actionUrl = change.type === 'removed' && change.deleted
+    ? '/favorites'
+    : slug ? `/boat/${slug}` : `/listing/${listing.listingId}`;
+
+  let notified = 0;
+  for (const favorite of watchers) {
+    if (favorite.userId === listing.ownerId) {
+      continue;
+    }
+
+    const { type, title, message } = buildNotification(listing, change, favorite);
+    try {
+      await createNotification(favorite.userId, type, title, message, {
+        listingId: listing.listingId,
+        change: change.type,
+        ...(change.type === 'price_drop' && { previousPrice: change.previousPrice, newPrice: change.newPrice }),
+      }, actionUrl);
+      notified++;
+    } catch (error) {
+      console.error(`Failed to notify watcher ${favorite.userId} of listing ${listing.listingId}:`, error);
+    }
+  }
+
+  if (change.type === 'removed' && change.deleted) {
+    await deleteFavorites(watchers);
+  }
+
+  console.log(`Notified ${notified} watchers of ${change.type} on listing ${listing.listingId}`);
+  return notified;
+}
+
+/**
+ * Notifies watchers when a listing change is one they care about
+ *
+ * Safe to call after any write to a listing: errors are logged and never
+ * fail the caller's request.
+ *
+ * @param before - Listing before the change
+ * @param after - Listing after the change, or null when it was deleted
+ * @returns Promise<void> - Resolves once watchers have been notified
+ *
+ * @example
+ * ```typescript
+ * await db.updateListing(listingId, updates);
+ * await notifyWatchersOfChange(existingListing, await db.getListing(listingId));
+ * ```
+ */
+export async function notifyWatchersOfChange(before: Listing, after: Listing | null): Promise<void> {
+  try {
+    const change = detectWatchlistChange(before, after);
+    if (change) {
+      await notifyWatchers(after || before, change);
+    }
+  } catch (error) {
+    console.error(`Failed to notify watchers of listing ${before.listingId}:`, error);
+  }
+}
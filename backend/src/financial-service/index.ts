@@ -3,12 +3,63 @@
  * 
  * Provides real financial data aggregated from listings, users, and transactions
  * stored in DynamoDB. This is NOT mock data - it's calculated from actual platform data.
+ * The financial summary and ledger reports (trial balance, account statements,
+ * period close) come from the double-entry ledger posted by the billing service.
+ * Commission rules, statements and payout batches are managed here too, as is
+ * the finance team's queue of customer refund requests and billing disputes.
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { createResponse, createErrorResponse } from '../shared/utils';
+import { createResponse, createErrorResponse, generateId } from '../shared/utils';
 import { db } from '../shared/database';
+import { CommissionRule, Coupon, DisputeCase, Invoice, InvoiceStatus, TaxExemptionCertificate } from '@harborlist/shared-types';
+import { getInvoice, listInvoices } from '../billing-service/invoices/invoice-store';
+import { createInvoiceDocumentResponse } from '../billing-service/invoices/invoice-renderer';
+import {
+  createCoupon,
+  getCoupon,
+  listCoupons,
+  listRedemptionsByCode,
+  updateCoupon,
+} from '../billing-service/coupons/coupon-store';
+import { normalizeCouponCode, validateCouponDefinition } from '../billing-service/coupons/coupon-manager';
+import { reviewExemptionCertificate } from '../billing-service/tax/tax-exemptions';
+import { generateTaxLiabilityReport, TaxReportPeriod } from '../billing-service/tax/tax-report';
+import { LEDGER_ACCOUNTS } from '../billing-service/ledger/ledger-accounts';
+import { closeLedgerPeriod, postAdjustment, reconcileLedger } from '../billing-service/ledger/ledger-manager';
+import {
+  getAccountStatement,
+  getLedgerSummary,
+  getTrialBalance,
+  listJournalEntries,
+} from '../billing-service/ledger/ledger-reports';
+import { listLedgerPeriods } from '../billing-service/ledger/ledger-store';
+import {
+  createCommissionRule,
+  getCommissionRule,
+  listCommissionRules,
+  listPayoutBatches,
+  listStatementsByPeriod,
+  updateCommissionRule,
+} from '../billing-service/commissions/commission-store';
+import { generateCommissionStatements, validateCommissionRule } from '../billing-service/commissions/commission-manager';
+import {
+  approvePayoutBatch,
+  createPayoutBatch,
+  holdPayoutBatch,
+  releasePayoutBatch,
+} from '../billing-service/commissions/payout-manager';
+import {
+  addStaffMessage,
+  assignBillingCase,
+  escalateBillingCase,
+  getNextSlaDeadline,
+  isCaseOpen,
+  listBillingCases,
+  resolveBillingCase,
+} from '../billing-service/disputes/billing-cases';
+import { getPrimaryPaymentProcessor } from '../billing-service/payment-processor-config';
 
 // We need direct access to docClient for custom scans
 // Import the configured client from database module
@@ -31,11 +82,16 @@ const docClient = DynamoDBDocumentClient.from(ddbClient, {
 
 const LISTINGS_TABLE = process.env.LISTINGS_TABLE || 'harborlist-listings';
 const USERS_TABLE = process.env.USERS_TABLE || 'harborlist-users';
+const BILLING_ACCOUNTS_TABLE = process.env.BILLING_ACCOUNTS_TABLE || 'harborlist-billing-accounts';
 
 interface FinancialSummary {
   totalRevenue: number;
+  commissionEarned: number;
+  refundsProcessed: number;
   pendingPayouts: number;
   processingFees: number;
+  chargebackLosses: number;
+  salesTaxCollected: number;
   netRevenue: number;
   transactionCount: number;
   totalTransactions: number;
@@ -48,73 +104,29 @@ interface FinancialSummary {
 }
 
 /**
- * Calculate real financial summary from listings and user data
+ * Calculate the financial summary from ledger activity in the period
+ *
+ * Amounts are returned in cents.
  */
 async function calculateFinancialSummary(startDate: string, endDate: string): Promise<FinancialSummary> {
   try {
     console.log(`[FinancialService] Calculating summary for ${startDate} to ${endDate}`);
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-
-    // Scan listings to calculate revenue
-    console.log(`[FinancialService] Scanning ${LISTINGS_TABLE} table...`);
-    const listingsResponse = await docClient.send(new ScanCommand({
-      TableName: LISTINGS_TABLE,
-      ProjectionExpression: 'listingId, price, #status, createdAt, updatedAt',
-      ExpressionAttributeNames: {
-        '#status': 'status'
-      }
-    }));
-
-    const listings = listingsResponse.Items || [];
-    console.log(`[FinancialService] Found ${listings.length} total listings`);
-    
-    // Filter listings within date range
-    const periodListings = listings.filter(listing => {
-      const createdAt = new Date(listing.createdAt);
-      return createdAt >= start && createdAt <= end;
-    });
-
-    // Calculate metrics based on listing prices
-    // In a real implementation, you'd track actual transactions
-    // For now, we'll use listing prices as proxy for potential revenue
-    const approvedListings = periodListings.filter(l => l.status === 'approved');
-    const totalRevenue = approvedListings.reduce((sum, l) => sum + (l.price || 0), 0);
-    
-    // Assume 5% platform fee
-    const platformFeeRate = 0.05;
-    const platformRevenue = totalRevenue * platformFeeRate;
-    
-    // Assume 2.9% + $0.30 per transaction for payment processing
-    const processingFeeRate = 0.029;
-    const processingFeeFixed = 0.30;
-    const processingFees = approvedListings.length > 0
-      ? (platformRevenue * processingFeeRate) + (approvedListings.length * processingFeeFixed)
-      : 0;
-    
-    const netRevenue = platformRevenue - processingFees;
-    const pendingPayouts = platformRevenue * 0.3; // Assume 30% pending
-
-    // Transaction metrics
-    const transactionCount = approvedListings.length;
-    const totalTransactions = periodListings.length;
-    const disputedTransactions = periodListings.filter(l => 
-      l.status === 'rejected' || l.status === 'flagged'
-    ).length;
-    
-    const averageTransactionValue = transactionCount > 0 
-      ? platformRevenue / transactionCount 
-      : 0;
+    const ledger = await getLedgerSummary(startDate, endDate);
+    const toCents = (amount: number) => Math.round(amount * 100);
 
     return {
-      totalRevenue: Math.round(platformRevenue * 100), // Convert to cents
-      pendingPayouts: Math.round(pendingPayouts * 100),
-      processingFees: Math.round(processingFees * 100),
-      netRevenue: Math.round(netRevenue * 100),
-      transactionCount,
-      totalTransactions,
-      disputedTransactions,
-      averageTransactionValue: Math.round(averageTransactionValue * 100),
+      totalRevenue: toCents(ledger.grossRevenue),
+      commissionEarned: toCents(ledger.commissionRevenue),
+      refundsProcessed: toCents(ledger.refunds),
+      pendingPayouts: toCents(ledger.pendingPayouts),
+      processingFees: toCents(ledger.processingFees),
+      chargebackLosses: toCents(ledger.chargebackLosses),
+      salesTaxCollected: toCents(ledger.salesTaxCollected),
+      netRevenue: toCents(ledger.netRevenue),
+      transactionCount: ledger.chargeCount,
+      totalTransactions: ledger.chargeCount + ledger.refundCount,
+      disputedTransactions: ledger.disputeCount,
+      averageTransactionValue: ledger.chargeCount > 0 ? toCents(ledger.grossRevenue / ledger.chargeCount) : 0,
       period: {
         startDate,
         endDate
@@ -209,76 +221,30 @@ async function getBillingAccounts(filters: any = {}) {
   }
 }
 
+const DISPUTE_STATUSES: DisputeCase['disputeStatus'][] = ['open', 'under_review', 'escalated', 'resolved'];
+
 /**
- * Get disputed transactions
- * 
- * Real disputes are transactions where:
- * 1. Customer initiated a payment dispute (status='disputed')
- * 2. Or payment processor flagged transaction as disputed
- * 
- * This queries the transactions table for actual dispute records,
- * NOT listing moderation issues.
+ * Get the billing dispute queue
+ *
+ * Customer refund requests and billing disputes, plus disputes opened by the
+ * payment processor, with escalated and overdue cases first.
  */
 async function getDisputedTransactions(filters: any = {}) {
-  try {
-    // TODO: Once we have a real transactions table with disputes,
-    // query it here. For now, check if any listings have dispute metadata
-    
-    console.log('[FinancialService] Scanning for disputed transactions...');
-    
-    const listingsResponse = await docClient.send(new ScanCommand({
-      TableName: LISTINGS_TABLE,
-    }));
-
-    const listings = listingsResponse.Items || [];
-    
-    // Look for listings with dispute information in metadata
-    const disputes = listings
-      .filter(l => {
-        // Check if listing has dispute metadata or is flagged with dispute reason
-        return l.disputeStatus || 
-               l.metadata?.hasDispute || 
-               l.status === 'disputed';
-      })
-      .map(listing => ({
-        id: `dispute-${listing.listingId}`,
-        transactionId: `txn-${listing.listingId}`,
-        type: 'payment' as const,
-        listingId: listing.listingId,
-        userId: listing.userId,
-        userName: listing.ownerName || 'Unknown User',
-        userEmail: listing.ownerEmail || 'N/A',
-        amount: listing.price || 0,
-        currency: 'USD',
-        status: 'disputed' as const,
-        paymentMethod: 'stripe',
-        processorTransactionId: `pi_${listing.listingId}`,
-        createdAt: listing.createdAt,
-        completedAt: listing.updatedAt,
-        description: `Dispute for ${listing.title || 'listing'}`,
-        fees: 0,
-        netAmount: listing.price || 0,
-        disputeReason: listing.disputeReason || 'Customer initiated dispute',
-        disputeDate: listing.disputeDate || listing.updatedAt || listing.createdAt,
-        disputeStatus: listing.disputeStatus || 'under_review' as const,
-        disputeNotes: listing.disputeNotes || '',
-      }));
+  const status = DISPUTE_STATUSES.includes(filters.status) ? filters.status : undefined;
+  const cases = await listBillingCases(status);
+  const open = cases.filter(isCaseOpen);
+  const now = new Date().toISOString();
 
-    console.log(`[FinancialService] Found ${disputes.length} disputed transactions`);
-
-    return {
-      disputes,
-      total: disputes.length,
-      page: filters.page || 1,
-      limit: filters.limit || 20,
-      message: disputes.length === 0 
-        ? 'No disputes found. Customer dispute system not yet implemented.'
-        : undefined
-    };
-  } catch (error) {
-    console.error('Error getting disputed transactions:', error);
-    throw error;
-  }
+  return {
+    disputes: cases,
+    total: cases.length,
+    summary: {
+      open: open.length,
+      escalated: open.filter(c => c.disputeStatus === 'escalated').length,
+      unassigned: open.filter(c => !c.assignedTo).length,
+      overdue: open.filter(c => getNextSlaDeadline(c) < now).length,
+    },
+  };
 }
 
 /**
@@ -319,6 +285,201 @@ async function getFinancialReports() {
   }
 }
 
+/**
+ * Get invoices issued by the billing service
+ */
+async function getInvoices(filters: any = {}) {
+  try {
+    const status = ['draft', 'open', 'paid', 'void'].includes(filters.status)
+      ? filters.status as InvoiceStatus
+      : undefined;
+    const limit = Math.min(parseInt(filters.limit || '50'), 200);
+    const lastKey = filters.nextToken
+      ? JSON.parse(Buffer.from(filters.nextToken, 'base64').toString())
+      : undefined;
+
+    const result = await listInvoices(status, limit, lastKey);
+    const search = (filters.search || '').toLowerCase();
+    const invoices = search
+      ? result.invoices.filter((invoice: Invoice) =>
+          [invoice.invoiceNumber, invoice.customer.name, invoice.customer.email, invoice.userId]
+            .some(value => value?.toLowerCase().includes(search)))
+      : result.invoices;
+
+    return {
+      invoices,
+      total: invoices.length,
+      nextToken: result.lastKey ? Buffer.from(JSON.stringify(result.lastKey)).toString('base64') : undefined,
+    };
+  } catch (error) {
+    console.error('Error getting invoices:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get tax exemption certificates across billing accounts, pending first
+ */
+async function getTaxExemptions(filters: any = {}) {
+  try {
+    const certificates: any[] = [];
+    let lastKey: Record<string, any> | undefined;
+
+    do {
+      const result = await docClient.send(new ScanCommand({
+        TableName: BILLING_ACCOUNTS_TABLE,
+        FilterExpression: 'attribute_exists(taxInfo.exemptionCertificates)',
+        ProjectionExpression: 'billingId, userId, taxInfo, billingAddress',
+        ExclusiveStartKey: lastKey,
+      }));
+
+      (result.Items || []).forEach((account: any) => {
+        (account.taxInfo.exemptionCertificates as TaxExemptionCertificate[])
+          .filter(certificate => !filters.status || certificate.status === filters.status)
+          .forEach(certificate => certificates.push({
+            ...certificate,
+            billingId: account.billingId,
+            userId: account.userId,
+            billingState: account.billingAddress?.state,
+          }));
+      });
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    const statusOrder: Record<string, number> = { pending: 0, verified: 1, rejected: 2 };
+    certificates.sort((a, b) => statusOrder[a.status] - statusOrder[b.status] || b.submittedAt - a.submittedAt);
+
+    return {
+      certificates,
+      total: certificates.length,
+    };
+  } catch (error) {
+    console.error('Error getting tax exemptions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Reads a ledger date range, defaulting to the current month
+ *
+ * @returns The range, or null when it is invalid
+ */
+function getLedgerRange(params: Record<string, any> | null = {}): { startDate: string; endDate: string } | null {
+  const now = new Date();
+  const startDate = params?.startDate || new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+  const endDate = params?.endDate || now.toISOString();
+
+  if (isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate)) || Date.parse(startDate) > Date.parse(endDate)) {
+    return null;
+  }
+  return { startDate, endDate };
+}
+
+/**
+ * Coupon fields that can be changed after creation. The discount itself is
+ * fixed once customers may have redeemed it.
+ */
+const EDITABLE_COUPON_FIELDS = ['description', 'expiresAt', 'maxRedemptions', 'planIds', 'planTypes', 'firstTimeOnly', 'active'] as const;
+
+/**
+ * Encodes a pagination key as a token
+ */
+function encodeNextToken(lastKey?: Record<string, any>): string | undefined {
+  return lastKey ? Buffer.from(JSON.stringify(lastKey)).toString('base64') : undefined;
+}
+
+/**
+ * Decodes a pagination token
+ */
+function decodeNextToken(nextToken?: string): Record<string, any> | undefined {
+  return nextToken ? JSON.parse(Buffer.from(nextToken, 'base64').toString()) : undefined;
+}
+
+/**
+ * Get coupons, newest first within the page
+ */
+async function getCoupons(filters: any = {}) {
+  try {
+    const limit = Math.min(parseInt(filters.limit || '100'), 200);
+    const result = await listCoupons(limit, decodeNextToken(filters.nextToken));
+    const coupons = result.coupons
+      .filter((coupon: Coupon) => filters.active === undefined || String(coupon.active) === filters.active)
+      .sort((a: Coupon, b: Coupon) => b.createdAt - a.createdAt);
+
+    return {
+      coupons,
+      total: coupons.length,
+      nextToken: encodeNextToken(result.lastKey),
+    };
+  } catch (error) {
+    console.error('Error getting coupons:', error);
+    throw error;
+  }
+}
+
+/**
+ * Builds a new coupon from an admin request
+ *
+ * @returns The coupon, or the validation error
+ */
+function buildCoupon(body: any, createdBy?: string): { coupon?: Coupon; error?: string } {
+  const now = Date.now();
+  const coupon: Coupon = {
+    code: normalizeCouponCode(String(body.code || '')),
+    description: body.description || undefined,
+    discountType: body.discountType,
+    percentOff: body.discountType === 'percentage' ? Number(body.percentOff) : undefined,
+    amountOff: body.discountType === 'fixed' ? Number(body.amountOff) : undefined,
+    freeMonths: body.discountType === 'free_months' ? Number(body.freeMonths) : undefined,
+    duration: body.discountType === 'free_months' ? 'once' : body.duration,
+    durationCycles: body.duration === 'repeating' ? Number(body.durationCycles) : undefined,
+    planIds: body.planIds?.length ? body.planIds : undefined,
+    planTypes: body.planTypes?.length ? body.planTypes : undefined,
+    firstTimeOnly: Boolean(body.firstTimeOnly),
+    maxRedemptions: body.maxRedemptions ? Number(body.maxRedemptions) : undefined,
+    redemptionCount: 0,
+    expiresAt: body.expiresAt ? Number(body.expiresAt) : undefined,
+    active: body.active !== false,
+    createdBy,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const error = validateCouponDefinition(coupon);
+  return error ? { error } : { coupon };
+}
+
+const EDITABLE_COMMISSION_RULE_FIELDS = ['name', 'payeeId', 'payeeType', 'planIds', 'transactionTypes', 'rate', 'tiers', 'priority', 'active'] as const;
+
+/**
+ * Builds a new commission rule from an admin request
+ *
+ * @returns The rule, or the validation error
+ */
+function buildCommissionRule(body: any, createdBy?: string): { rule?: CommissionRule; error?: string } {
+  const now = Date.now();
+  const rule: CommissionRule = {
+    ruleId: `crule_${generateId()}`,
+    name: String(body.name || '').trim(),
+    payeeId: body.payeeId || undefined,
+    payeeType: body.payeeType || undefined,
+    planIds: body.planIds?.length ? body.planIds : undefined,
+    transactionTypes: body.transactionTypes?.length ? body.transactionTypes : undefined,
+    rate: body.tiers?.length ? undefined : Number(body.rate),
+    tiers: body.tiers?.length
+      ? body.tiers.map((tier: any) => ({ rate: Number(tier.rate), upTo: tier.upTo === undefined || tier.upTo === null || tier.upTo === '' ? undefined : Number(tier.upTo) }))
+      : undefined,
+    priority: Number(body.priority) || 0,
+    active: body.active !== false,
+    createdBy,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const error = validateCommissionRule(rule);
+  return error ? { error } : { rule };
+}
+
 /**
  * Lambda handler
  */
@@ -342,6 +503,112 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return createResponse(200, summary);
     }
 
+    // GET /api/admin/billing/ledger/accounts
+    if (path.match(/\/billing\/ledger\/accounts\/?$/) && method === 'GET') {
+      return createResponse(200, { accounts: LEDGER_ACCOUNTS });
+    }
+
+    // GET /api/admin/billing/ledger/accounts/{code}/statement
+    const statementMatch = path.match(/\/billing\/ledger\/accounts\/([^/]+)\/statement\/?$/);
+    if (statementMatch && method === 'GET') {
+      const range = getLedgerRange(event.queryStringParameters);
+      if (!range) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', 'Invalid date range', requestId);
+      }
+      try {
+        const statement = await getAccountStatement(decodeURIComponent(statementMatch[1]), range.startDate, range.endDate);
+        return createResponse(200, { statement });
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Ledger account not found') {
+          return createErrorResponse(404, 'ACCOUNT_NOT_FOUND', error.message, requestId);
+        }
+        throw error;
+      }
+    }
+
+    // GET /api/admin/billing/ledger/trial-balance
+    if (path.includes('/billing/ledger/trial-balance') && method === 'GET') {
+      const asOf = event.queryStringParameters?.asOf || new Date().toISOString();
+      if (isNaN(Date.parse(asOf))) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', 'Invalid asOf date', requestId);
+      }
+      const trialBalance = await getTrialBalance(asOf);
+      return createResponse(200, { trialBalance });
+    }
+
+    // GET /api/admin/billing/ledger/entries
+    if (path.includes('/billing/ledger/entries') && method === 'GET') {
+      const range = getLedgerRange(event.queryStringParameters);
+      if (!range) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', 'Invalid date range', requestId);
+      }
+      const entries = await listJournalEntries(range.startDate, range.endDate);
+      return createResponse(200, { entries, total: entries.length });
+    }
+
+    // POST /api/admin/billing/ledger/entries (manual adjustment)
+    if (path.includes('/billing/ledger/entries') && method === 'POST') {
+      let body: any;
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return createErrorResponse(400, 'INVALID_JSON', 'Invalid JSON in request body', requestId);
+      }
+
+      try {
+        const entry = await postAdjustment(
+          body.description,
+          body.lines || [],
+          event.requestContext.authorizer?.claims?.sub || 'admin'
+        );
+        return createResponse(201, { entry });
+      } catch (error) {
+        if (error instanceof Error && (error.message.startsWith('Journal entry') || error.message.startsWith('Ledger period'))) {
+          return createErrorResponse(400, 'VALIDATION_ERROR', error.message, requestId);
+        }
+        throw error;
+      }
+    }
+
+    // GET /api/admin/billing/ledger/periods
+    if (path.match(/\/billing\/ledger\/periods\/?$/) && method === 'GET') {
+      const periods = await listLedgerPeriods();
+      return createResponse(200, { periods: periods.reverse() });
+    }
+
+    // POST /api/admin/billing/ledger/periods/{period}/close
+    const closeMatch = path.match(/\/billing\/ledger\/periods\/([^/]+)\/close\/?$/);
+    if (closeMatch && method === 'POST') {
+      try {
+        const period = await closeLedgerPeriod(
+          decodeURIComponent(closeMatch[1]),
+          event.requestContext.authorizer?.claims?.sub || 'admin'
+        );
+        return createResponse(200, { period });
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Ledger period')) {
+          return createErrorResponse(400, 'VALIDATION_ERROR', error.message, requestId);
+        }
+        throw error;
+      }
+    }
+
+    // POST /api/admin/billing/ledger/reconcile
+    if (path.includes('/billing/ledger/reconcile') && method === 'POST') {
+      let body: any;
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return createErrorResponse(400, 'INVALID_JSON', 'Invalid JSON in request body', requestId);
+      }
+      const range = getLedgerRange(body);
+      if (!range) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', 'Invalid date range', requestId);
+      }
+      const result = await reconcileLedger(range.startDate, range.endDate);
+      return createResponse(200, result);
+    }
+
     // GET /api/admin/billing/transactions
     if (path.includes('/billing/transactions') && method === 'GET') {
       const filters = event.queryStringParameters || {};
@@ -356,13 +623,399 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return createResponse(200, result);
     }
 
+    // GET /api/admin/billing/invoices/{invoiceId}/html|pdf
+    const invoiceDocumentMatch = path.match(/\/billing\/invoices\/([^/]+)\/(html|pdf)\/?$/);
+    if (invoiceDocumentMatch && method === 'GET') {
+      const invoice = await getInvoice(invoiceDocumentMatch[1]);
+      if (!invoice) {
+        return createErrorResponse(404, 'INVOICE_NOT_FOUND', 'Invoice not found', requestId);
+      }
+      return createInvoiceDocumentResponse(invoice, invoiceDocumentMatch[2] as 'html' | 'pdf');
+    }
+
+    // GET /api/admin/billing/invoices
+    if (path.includes('/billing/invoices') && method === 'GET') {
+      const filters = event.queryStringParameters || {};
+      const result = await getInvoices(filters);
+      return createResponse(200, result);
+    }
+
+    // GET /api/admin/billing/coupons/{code}/redemptions
+    const redemptionsMatch = path.match(/\/billing\/coupons\/([^/]+)\/redemptions\/?$/);
+    if (redemptionsMatch && method === 'GET') {
+      const filters = event.queryStringParameters || {};
+      const code = normalizeCouponCode(decodeURIComponent(redemptionsMatch[1]));
+      const limit = Math.min(parseInt(filters.limit || '50'), 200);
+      const result = await listRedemptionsByCode(code, limit, decodeNextToken(filters.nextToken));
+      return createResponse(200, {
+        redemptions: result.redemptions,
+        total: result.redemptions.length,
+        nextToken: encodeNextToken(result.lastKey),
+      });
+    }
+
+    // PUT|DELETE /api/admin/billing/coupons/{code}
+    const couponMatch = path.match(/\/billing\/coupons\/([^/]+)\/?$/);
+    if (couponMatch && (method === 'PUT' || method === 'DELETE')) {
+      const code = normalizeCouponCode(decodeURIComponent(couponMatch[1]));
+      const existing = await getCoupon(code);
+      if (!existing) {
+        return createErrorResponse(404, 'COUPON_NOT_FOUND', 'Coupon not found', requestId);
+      }
+
+      // Coupons are deactivated rather than deleted so redemptions keep their coupon
+      if (method === 'DELETE') {
+        const coupon = await updateCoupon(code, { active: false, updatedAt: Date.now() });
+        return createResponse(200, { coupon });
+      }
+
+      let body: any;
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return createErrorResponse(400, 'INVALID_JSON', 'Invalid JSON in request body', requestId);
+      }
+
+      const changes: Partial<Coupon> = {};
+      EDITABLE_COUPON_FIELDS.forEach(field => {
+        if (body[field] !== undefined) {
+          (changes as any)[field] = body[field];
+        }
+      });
+
+      const error = validateCouponDefinition({ ...existing, ...changes });
+      if (error) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', error, requestId);
+      }
+
+      const coupon = await updateCoupon(code, { ...changes, updatedAt: Date.now() });
+      if (!coupon) {
+        return createErrorResponse(404, 'COUPON_NOT_FOUND', 'Coupon not found', requestId);
+      }
+      return createResponse(200, { coupon });
+    }
+
+    // POST /api/admin/billing/coupons
+    if (path.match(/\/billing\/coupons\/?$/) && method === 'POST') {
+      let body: any;
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return createErrorResponse(400, 'INVALID_JSON', 'Invalid JSON in request body', requestId);
+      }
+
+      const { coupon, error } = buildCoupon(body, event.requestContext.authorizer?.claims?.sub);
+      if (!coupon) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', error!, requestId);
+      }
+      if (!(await createCoupon(coupon))) {
+        return createErrorResponse(409, 'COUPON_EXISTS', `Coupon ${coupon.code} already exists`, requestId);
+      }
+      return createResponse(201, { coupon });
+    }
+
+    // GET /api/admin/billing/coupons
+    if (path.match(/\/billing\/coupons\/?$/) && method === 'GET') {
+      const filters = event.queryStringParameters || {};
+      const result = await getCoupons(filters);
+      return createResponse(200, result);
+    }
+
+    // GET /api/admin/billing/commissions/rules
+    if (path.match(/\/billing\/commissions\/rules\/?$/) && method === 'GET') {
+      const rules = await listCommissionRules();
+      return createResponse(200, { rules: rules.sort((a, b) => b.createdAt - a.createdAt) });
+    }
+
+    // POST /api/admin/billing/commissions/rules
+    if (path.match(/\/billing\/commissions\/rules\/?$/) && method === 'POST') {
+      let body: any;
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return createErrorResponse(400, 'INVALID_JSON', 'Invalid JSON in request body', requestId);
+      }
+
+      const { rule, error } = buildCommissionRule(body, event.requestContext.authorizer?.claims?.sub);
+      if (!rule) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', error!, requestId);
+      }
+      await createCommissionRule(rule);
+      return createResponse(201, { rule });
+    }
+
+    // PUT|DELETE /api/admin/billing/commissions/rules/{ruleId}
+    const commissionRuleMatch = path.match(/\/billing\/commissions\/rules\/([^/]+)\/?$/);
+    if (commissionRuleMatch && (method === 'PUT' || method === 'DELETE')) {
+      const ruleId = decodeURIComponent(commissionRuleMatch[1]);
+
+      // Rules are deactivated rather than deleted so statements keep their rule
+      let changes: Partial<CommissionRule> = { active: false };
+      if (method === 'PUT') {
+        let body: any;
+        try {
+          body = JSON.parse(event.body || '{}');
+        } catch {
+          return createErrorResponse(400, 'INVALID_JSON', 'Invalid JSON in request body', requestId);
+        }
+        changes = {};
+        EDITABLE_COMMISSION_RULE_FIELDS.forEach(field => {
+          if (body[field] !== undefined) {
+            (changes as any)[field] = body[field];
+          }
+        });
+      }
+
+      const existing = await getCommissionRule(ruleId);
+      if (!existing) {
+        return createErrorResponse(404, 'RULE_NOT_FOUND', 'Commission rule not found', requestId);
+      }
+      const error = validateCommissionRule({ ...existing, ...changes });
+      if (error) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', error, requestId);
+      }
+
+      const rule = await updateCommissionRule(ruleId, { ...changes, updatedAt: Date.now() });
+      if (!rule) {
+        return createErrorResponse(404, 'RULE_NOT_FOUND', 'Commission rule not found', requestId);
+      }
+      return createResponse(200, { rule });
+    }
+
+    // POST /api/admin/billing/commissions/statements/generate
+    if (path.includes('/billing/commissions/statements/generate') && method === 'POST') {
+      let body: any;
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return createErrorResponse(400, 'INVALID_JSON', 'Invalid JSON in request body', requestId);
+      }
+
+      try {
+        const result = await generateCommissionStatements(String(body.period || ''));
+        return createResponse(200, result);
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Commission')) {
+          return createErrorResponse(400, 'VALIDATION_ERROR', error.message, requestId);
+        }
+        throw error;
+      }
+    }
+
+    // GET /api/admin/billing/commissions/statements?period=YYYY-MM
+    if (path.match(/\/billing\/commissions\/statements\/?$/) && method === 'GET') {
+      const period = event.queryStringParameters?.period || '';
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', 'Period must be YYYY-MM', requestId);
+      }
+      const statements = await listStatementsByPeriod(period);
+      return createResponse(200, {
+        statements: statements.sort((a, b) => b.totalCommission - a.totalCommission),
+        total: statements.length,
+      });
+    }
+
+    // POST /api/admin/billing/payouts/batches/{batchId}/{approve|hold|release}
+    const payoutActionMatch = path.match(/\/billing\/payouts\/batches\/([^/]+)\/(approve|hold|release)\/?$/);
+    if (payoutActionMatch && method === 'POST') {
+      let body: any;
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return createErrorResponse(400, 'INVALID_JSON', 'Invalid JSON in request body', requestId);
+      }
+
+      const batchId = decodeURIComponent(payoutActionMatch[1]);
+      const staffId = event.requestContext.authorizer?.claims?.sub || 'admin';
+      try {
+        const batch = payoutActionMatch[2] === 'approve'
+          ? await approvePayoutBatch(batchId, staffId)
+          : payoutActionMatch[2] === 'hold'
+            ? await holdPayoutBatch(batchId, staffId, body.reason)
+            : await releasePayoutBatch(batchId, staffId);
+        return createResponse(200, { batch });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : '';
+        if (message === 'Payout batch not found') {
+          return createErrorResponse(404, 'BATCH_NOT_FOUND', message, requestId);
+        }
+        if (message.startsWith('Payout batch') || message.startsWith('Ledger period')) {
+          return createErrorResponse(400, 'VALIDATION_ERROR', message, requestId);
+        }
+        throw error;
+      }
+    }
+
+    // POST /api/admin/billing/payouts/batches
+    if (path.match(/\/billing\/payouts\/batches\/?$/) && method === 'POST') {
+      let body: any;
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return createErrorResponse(400, 'INVALID_JSON', 'Invalid JSON in request body', requestId);
+      }
+
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(String(body.period || ''))) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', 'Period must be YYYY-MM', requestId);
+      }
+      try {
+        const batch = await createPayoutBatch(body.period, event.requestContext.authorizer?.claims?.sub || 'admin');
+        return createResponse(201, { batch });
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Payout batch')) {
+          return createErrorResponse(400, 'VALIDATION_ERROR', error.message, requestId);
+        }
+        throw error;
+      }
+    }
+
+    // GET /api/admin/billing/payouts/batches
+    if (path.match(/\/billing\/payouts\/batches\/?$/) && method === 'GET') {
+      const filters = event.queryStringParameters || {};
+      const limit = Math.min(parseInt(filters.limit || '50'), 200);
+      const result = await listPayoutBatches(limit, decodeNextToken(filters.nextToken));
+      return createResponse(200, {
+        batches: result.batches.sort((a, b) => b.createdAt - a.createdAt),
+        total: result.batches.length,
+        nextToken: encodeNextToken(result.lastKey),
+      });
+    }
+
     // GET /api/admin/billing/disputes
-    if (path.includes('/billing/disputes') && method === 'GET') {
+    if (path.match(/\/billing\/disputes\/?$/) && method === 'GET') {
       const filters = event.queryStringParameters || {};
       const result = await getDisputedTransactions(filters);
       return createResponse(200, result);
     }
 
+    // GET|PUT /api/admin/billing/disputes/{disputeId}
+    // POST /api/admin/billing/disputes/{disputeId}/{messages|resolve}
+    const disputeMatch = path.match(/\/billing\/disputes\/([^/]+)(?:\/(messages|resolve))?\/?$/);
+    if (disputeMatch) {
+      const disputeId = decodeURIComponent(disputeMatch[1]);
+      const action = disputeMatch[2];
+
+      if (!action && method === 'GET') {
+        const disputeCase = await db.getDisputeCase(disputeId);
+        if (!disputeCase) {
+          return createErrorResponse(404, 'CASE_NOT_FOUND', 'Billing case not found', requestId);
+        }
+        return createResponse(200, { case: disputeCase });
+      }
+
+      if ((!action && method === 'PUT') || (action && method === 'POST')) {
+        let body: any;
+        try {
+          body = JSON.parse(event.body || '{}');
+        } catch {
+          return createErrorResponse(400, 'INVALID_JSON', 'Invalid JSON in request body', requestId);
+        }
+
+        const staff = {
+          id: event.requestContext.authorizer?.claims?.sub || 'admin',
+          name: event.requestContext.authorizer?.claims?.name || 'Billing team',
+        };
+        try {
+          if (action === 'messages') {
+            return createResponse(201, { message: await addStaffMessage(staff, disputeId, body.body) });
+          }
+
+          if (action === 'resolve') {
+            const paymentProcessor = getPrimaryPaymentProcessor();
+            if (!paymentProcessor) {
+              return createErrorResponse(503, 'PROCESSOR_UNAVAILABLE', 'Payment processor is not available', requestId);
+            }
+            const disputeCase = await resolveBillingCase(staff, disputeId, body, paymentProcessor);
+            return createResponse(200, { case: disputeCase });
+          }
+
+          // PUT takes the case (under_review) or escalates it to the finance managers
+          if (body.status === 'under_review') {
+            await assignBillingCase(staff, disputeId);
+          } else if (body.status === 'escalated') {
+            if (!body.notes?.trim()) {
+              return createErrorResponse(400, 'VALIDATION_ERROR', 'Escalation reason is required', requestId);
+            }
+            if (!(await escalateBillingCase(disputeId, body.notes))) {
+              return createErrorResponse(400, 'VALIDATION_ERROR', 'Billing case is not open', requestId);
+            }
+          } else {
+            return createErrorResponse(400, 'VALIDATION_ERROR', 'Status must be under_review or escalated', requestId);
+          }
+          return createResponse(200, { case: await db.getDisputeCase(disputeId) });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : '';
+          if (message === 'Billing case not found' || message === 'Billing case transaction not found') {
+            return createErrorResponse(404, 'CASE_NOT_FOUND', message, requestId);
+          }
+          if (message.startsWith('Billing case') || message.startsWith('Refund amount')) {
+            return createErrorResponse(400, 'VALIDATION_ERROR', message, requestId);
+          }
+          throw error;
+        }
+      }
+    }
+
+    // GET /api/admin/billing/reports/tax
+    if (path.includes('/billing/reports/tax') && method === 'GET') {
+      const params = event.queryStringParameters || {};
+      const now = new Date();
+      const startDate = params.startDate || new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+      const endDate = params.endDate || now.toISOString();
+      const groupBy = ['month', 'quarter', 'year'].includes(params.groupBy || '')
+        ? params.groupBy as TaxReportPeriod
+        : 'month';
+
+      if (isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate)) || startDate > endDate) {
+        return createErrorResponse(400, 'VALIDATION_ERROR', 'Invalid date range', requestId);
+      }
+
+      const report = await generateTaxLiabilityReport(startDate, endDate, groupBy);
+      return createResponse(200, { report });
+    }
+
+    // PUT /api/admin/billing/tax/exemptions/{billingId}/{certificateId}
+    const exemptionMatch = path.match(/\/billing\/tax\/exemptions\/([^/]+)\/([^/]+)\/?$/);
+    if (exemptionMatch && method === 'PUT') {
+      let body: any;
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return createErrorResponse(400, 'INVALID_JSON', 'Invalid JSON in request body', requestId);
+      }
+
+      if (body.decision !== 'verified' && body.decision !== 'rejected') {
+        return createErrorResponse(400, 'VALIDATION_ERROR', 'Decision must be verified or rejected', requestId);
+      }
+
+      try {
+        const certificate = await reviewExemptionCertificate(
+          exemptionMatch[1],
+          exemptionMatch[2],
+          body.decision,
+          event.requestContext.authorizer?.claims?.sub || 'admin',
+          body.reason
+        );
+        return createResponse(200, { certificate });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : '';
+        if (message.includes('not found')) {
+          return createErrorResponse(404, 'NOT_FOUND', message, requestId);
+        }
+        if (message.startsWith('Certificate')) {
+          return createErrorResponse(400, 'VALIDATION_ERROR', message, requestId);
+        }
+        throw error;
+      }
+    }
+
+    // GET /api/admin/billing/tax/exemptions
+    if (path.includes('/billing/tax/exemptions') && method === 'GET') {
+      const filters = event.queryStringParameters || {};
+      const result = await getTaxExemptions(filters);
+      return createResponse(200, result);
+    }
+
     // GET /api/admin/billing/reports
     if (path.includes('/billing/reports') && method === 'GET') {
       const result = await getFinancialReports();
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Scheduler tick for persisted jobs.
+ *
+ * Runs every minute from an EventBridge rule in AWS and from an interval
+ * runner in the local billing service. Each tick claims due jobs (and jobs
+ * whose worker died mid-run) and dispatches them to their handlers.
+ *
+ * Job types:
+ * - billing.* - Dunning, payment retries, grace periods, renewals, billing case
+ *   SLAs and ledger posting retries (billing-service/jobs.ts)
+ * - moderation.sla_check - Escalates moderation queue items that missed their SLA (listing/moderation-routing.ts)
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { createBillingJobHandlers } from '../billing-service/jobs';
+import { MODERATION_SLA_JOB, checkModerationSla } from '../listing/moderation-routing';
+import { JobHandler, JobRunSummary, runDueJobs } from './scheduler';
+
+let jobHandlers: Record<string, JobHandler> | undefined;
+
+/**
+ * Builds the handler registry once per container
+ */
+function getJobHandlers(): Record<string, JobHandler> {
+  if (!jobHandlers) {
+    jobHandlers = {
+      ...createBillingJobHandlers(),
+      [MODERATION_SLA_JOB]: payload => checkModerationSla(payload.queueId),
+    };
+  }
+  return jobHandlers;
+}
+
+/**
+ * Scheduled handler: runs the jobs that are due
+ *
+ * @returns Promise<JobRunSummary> - Claimed, completed, retried and dead-lettered counts
+ */
+export const scheduledHandler = async (): Promise<JobRunSummary> => {
+  const summary = await runDueJobs(getJobHandlers());
+  if (summary.claimed > 0) {
+    console.log('Job tick:', JSON.stringify(summary));
+  }
+  return summary;
+};
@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Scheduled job storage.
+ *
+ * Jobs are stored one item per job. A worker claims a due job by moving it to
+ * `running` with a conditional write on the state it read, so two workers
+ * ticking at the same moment cannot both run it. While a job is running its
+ * `runAt` holds the lease expiry: if the worker dies before finishing, the
+ * job becomes due again once the lease runs out.
+ *
+ * Indexes:
+ * - status-index: jobs by status and run time, for the scheduler tick and
+ *   for inspecting dead-lettered jobs
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { isConditionalCheckFailure } from '../shared/utils';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const JOBS_TABLE = process.env.JOBS_TABLE || 'harborlist-jobs';
+
+/**
+ * Job indexes
+ */
+const STATUS_INDEX = 'status-index';
+
+/**
+ * Completed jobs are kept for a month, then removed by the table's TTL
+ */
+const COMPLETED_JOB_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Job lifecycle states
+ *
+ * - pending: waiting for `runAt`
+ * - running: claimed by a worker until the lease (`runAt`) expires
+ * - completed: handler finished
+ * - dead: failed `maxAttempts` times (dead-letter); kept for inspection
+ */
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+/**
+ * A persisted job
+ */
+export interface Job {
+  jobId: string;
+  type: string;
+  payload: Record<string, any>;
+  status: JobStatus;
+  /** When a pending job is due, or when a running job's lease expires */
+  runAt: number;
+  /** Number of times the job has been claimed */
+  attempts: number;
+  maxAttempts: number;
+  leaseOwner?: string;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+  /** TTL (seconds) for completed jobs */
+  expiresAt?: number;
+}
+
+/**
+ * Retrieves a job
+ *
+ * @param jobId - Job identifier
+ * @returns Promise<Job | null> - The job, or null when it does not exist
+ */
+export async function getJob(jobId: string): Promise<Job | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: JOBS_TABLE,
+    Key: { jobId },
+  }));
+
+  return (result.Item as Job) || null;
+}
+
+/**
+ * Stores a new job
+ *
+ * @param job - Job to create
+ * @returns Promise<boolean> - False when a job with the same ID already exists
+ */
+export async function createJob(job: Job): Promise<boolean> {
+  try {
+    await docClient.send(new PutCommand({
+      TableName: JOBS_TABLE,
+      Item: job,
+      ConditionExpression: 'attribute_not_exists(jobId)',
+    }));
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists jobs in a status whose run time (or lease) is at or before a time
+ *
+ * @param status - Job status
+ * @param before - Upper bound for `runAt` in milliseconds
+ * @param limit - Maximum number of jobs to return
+ * @returns Promise<Job[]> - Jobs, oldest first
+ */
+export async function listJobsByStatus(status: JobStatus, before: number, limit: number): Promise<Job[]> {
+  const jobs: Job[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: JOBS_TABLE,
+      IndexName: STATUS_INDEX,
+      KeyConditionExpression: '#status = :status AND runAt <= :before',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':status': status, ':before': before },
+      Limit: limit - jobs.length,
+      ExclusiveStartKey: lastKey,
+    }));
+    jobs.push(...((result.Items || []) as Job[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey && jobs.length < limit);
+
+  return jobs;
+}
+
+/**
+ * Claims a due job for a worker
+ *
+ * Succeeds only if the job is still in the state it was listed in, so a job
+ * is run by at most one worker per lease.
+ *
+ * @param job - Job as listed by the tick
+ * @param workerId - Identifier of the claiming worker
+ * @param leaseExpiresAt - When the claim lapses if the worker does not finish
+ * @returns Promise<Job | null> - The claimed job, or null when another worker got it first
+ */
+export async function claimJob(job: Job, workerId: string, leaseExpiresAt: number): Promise<Job | null> {
+  try {
+    const result = await docClient.send(new UpdateCommand({
+      TableName: JOBS_TABLE,
+      Key: { jobId: job.jobId },
+      UpdateExpression: 'SET #status = :running, runAt = :leaseExpiresAt, leaseOwner = :workerId, attempts = :nextAttempt, updatedAt = :now',
+      ConditionExpression: '#status = :status AND runAt = :runAt AND attempts = :attempts',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':running': 'running',
+        ':leaseExpiresAt': leaseExpiresAt,
+        ':workerId': workerId,
+        ':nextAttempt': job.attempts + 1,
+        ':now': Date.now(),
+        ':status': job.status,
+        ':runAt': job.runAt,
+        ':attempts': job.attempts,
+      },
+      ReturnValues: 'ALL_NEW',
+    }));
+    return result.Attributes as Job;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Updates a job the worker still holds the lease on
+ *
+ * @returns Promise<boolean> - False when the lease was lost to another worker
+ */
+async function updateClaimedJob(job: Job, changes: Partial<Job>, remove: string[] = []): Promise<boolean> {
+  const entries = Object.entries(changes);
+  const setExpression = entries.map(([key]) => `#${key} = :${key}`).join(', ');
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: JOBS_TABLE,
+      Key: { jobId: job.jobId },
+      UpdateExpression: `SET ${setExpression}${remove.length > 0 ? ` REMOVE ${remove.join(', ')}` : ''}`,
+      ConditionExpression: 'leaseOwner = :claimedLeaseOwner AND attempts = :claimedAttempts',
+      ExpressionAttributeNames: Object.fromEntries(entries.map(([key]) => [`#${key}`, key])),
+      ExpressionAttributeValues: {
+        ...Object.fromEntries(entries.map(([key, value]) => [`:${key}`, value])),
+        ':claimedLeaseOwner': job.leaseOwner,
+        ':claimedAttempts': job.attempts,
+      },
+    }));
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Marks a claimed job as completed
+ *
+ * @param job - Claimed job
+ * @param now - Current time in milliseconds
+ * @returns Promise<boolean> - False when the lease was lost to another worker
+ */
+export async function completeJob(job: Job, now: number = Date.now()): Promise<boolean> {
+  return updateClaimedJob(job, {
+    status: 'completed',
+    completedAt: now,
+    updatedAt: now,
+    expiresAt: Math.floor(now / 1000) + COMPLETED_JOB_RETENTION_SECONDS,
+  }, ['leaseOwner']);
+}
+
+/**
+ * Records a failed run of a claimed job
+ *
+ * @param job - Claimed job
+ * @param error - Failure message
+ * @param retryAt - When to run again, or undefined to dead-letter the job
+ * @param now - Current time in milliseconds
+ * @returns Promise<boolean> - False when the lease was lost to another worker
+ */
+export async function failJob(job: Job, error: string, retryAt: number | undefined, now: number = Date.now()): Promise<boolean> {
+  return updateClaimedJob(job, {
+    status: retryAt === undefined ? 'dead' : 'pending',
+    runAt: retryAt ?? now,
+    lastError: error,
+    updatedAt: now,
+  }, ['leaseOwner']);
+}
+
+/**
+ * Returns a claimed job to pending without using up the attempt its claim counted
+ *
+ * @param job - Claimed job
+ * @param reason - Why the job could not run
+ * @param runAt - When to run again
+ * @param now - Current time in milliseconds
+ * @returns Promise<boolean> - False when the lease was lost to another worker
+ */
+export async function deferJob(job: Job, reason: string, runAt: number, now: number = Date.now()): Promise<boolean> {
+  return updateClaimedJob(job, {
+    status: 'pending',
+    runAt,
+    attempts: Math.max(job.attempts - 1, 0),
+    lastError: reason,
+    updatedAt: now,
+  }, ['leaseOwner']);
+}
@@ -0,0 +1,426 @@
+/**
+ * @fileoverview Unit tests for the durable job scheduler
+ *
+ * Tests idempotent scheduling, claiming due and lease-expired jobs, retries
+ * with backoff, deferrals, lost leases and dead-lettering, and the billing jobs that replace the
+ * in-process timers for dunning, payment retries, grace periods and renewals.
+ */
+
+import {
+  getRetryDelay,
+  runDueJobs,
+  scheduleJob,
+  JOB_LEASE_MS,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+} from './scheduler';
+import { claimJob, completeJob, createJob, deferJob, failJob, Job, listJobsByStatus } from './job-store';
+import { createBillingJobHandlers, PROCESSOR_UNAVAILABLE_RETRY_MS } from '../billing-service/jobs';
+import { PaymentFailureHandler, PaymentFailureReason } from '../billing-service/payment-failure-handler';
+import { issueInvoice } from '../billing-service/invoices/invoice-manager';
+import { getOverageLineItems } from '../billing-service/metering/usage-meter';
+import { db } from '../shared/database';
+
+jest.mock('./job-store', () => ({
+  createJob: jest.fn(),
+  listJobsByStatus: jest.fn(),
+  claimJob: jest.fn(),
+  completeJob: jest.fn(),
+  failJob: jest.fn(),
+  deferJob: jest.fn(),
+}));
+
+jest.mock('../shared/database', () => ({
+  db: {
+    getBillingAccount: jest.fn(),
+    getBillingAccountByUser: jest.fn(),
+    updateBillingAccount: jest.fn(),
+    createTransaction: jest.fn(),
+    updateUser: jest.fn(),
+    updateUserType: jest.fn(),
+    createPaymentFailure: jest.fn(),
+    getPaymentFailure: jest.fn(),
+    updatePaymentFailure: jest.fn(),
+  },
+}));
+
+jest.mock('../billing-service/invoices/invoice-manager', () => ({
+  issueInvoice: jest.fn(async ({ invoiceId, lineItems }) => ({
+    invoiceId,
+    status: 'open',
+    total: lineItems.reduce((sum: number, item: { amount: number }) => sum + item.amount, 0),
+  })),
+  markInvoicePaid: jest.fn(),
+  voidInvoice: jest.fn(),
+  subscriptionLineItem: jest.fn((plan, amount) => ({ type: 'subscription', amount })),
+  prorationLineItem: jest.fn((fromPlan, toPlan, amount) => ({ type: 'proration', amount })),
+}));
+
+jest.mock('../billing-service/metering/usage-meter', () => ({
+  getOverageLineItems: jest.fn(),
+}));
+
+jest.mock('../billing-service/metering/usage-store', () => ({
+  markUsageBilled: jest.fn(),
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1_700_000_000_000;
+
+const mockCreateJob = createJob as jest.MockedFunction<typeof createJob>;
+const mockListJobsByStatus = listJobsByStatus as jest.MockedFunction<typeof listJobsByStatus>;
+const mockClaimJob = claimJob as jest.MockedFunction<typeof claimJob>;
+const mockFailJob = failJob as jest.MockedFunction<typeof failJob>;
+const mockDeferJob = deferJob as jest.MockedFunction<typeof deferJob>;
+const mockDb = db as jest.Mocked<typeof db>;
+const mockIssueInvoice = issueInvoice as jest.MockedFunction<typeof issueInvoice>;
+const mockGetOverageLineItems = getOverageLineItems as jest.MockedFunction<typeof getOverageLineItems>;
+
+const mockPaymentProcessor = {
+  processPayment: jest.fn(),
+  cancelSubscription: jest.fn(),
+} as any;
+
+function createTestJob(overrides: Partial<Job> = {}): Job {
+  return {
+    jobId: 'job-1',
+    type: 'test.job',
+    payload: { value: 1 },
+    status: 'pending',
+    runAt: NOW - 1000,
+    attempts: 0,
+    maxAttempts: 3,
+    createdAt: NOW - DAY,
+    updatedAt: NOW - DAY,
+    ...overrides,
+  };
+}
+
+function claimed(job: Job): Job {
+  return { ...job, status: 'running', attempts: job.attempts + 1, leaseOwner: 'worker-1', runAt: NOW + JOB_LEASE_MS };
+}
+
+/**
+ * Job IDs passed to createJob, by job type
+ */
+function scheduledJobs(type: string): Job[] {
+  return mockCreateJob.mock.calls.map(([job]) => job).filter(job => job.type === type);
+}
+
+describe('Job scheduler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockCreateJob.mockResolvedValue(true);
+    mockListJobsByStatus.mockResolvedValue([]);
+    mockClaimJob.mockImplementation(async (job) => claimed(job));
+    (completeJob as jest.Mock).mockResolvedValue(true);
+    mockFailJob.mockResolvedValue(true);
+    mockDeferJob.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Scheduling', () => {
+    test('should store a pending job under its deterministic ID', async () => {
+      const created = await scheduleJob({ type: 'test.job', jobId: 'test:1', runAt: NOW + DAY, payload: { value: 1 } });
+
+      expect(created).toBe(true);
+      expect(mockCreateJob).toHaveBeenCalledWith(expect.objectContaining({
+        jobId: 'test:1',
+        status: 'pending',
+        runAt: NOW + DAY,
+        attempts: 0,
+        maxAttempts: 5,
+      }));
+    });
+
+    test('should report an already scheduled job', async () => {
+      mockCreateJob.mockResolvedValue(false);
+
+      expect(await scheduleJob({ type: 'test.job', jobId: 'test:1', runAt: NOW, payload: {} })).toBe(false);
+    });
+
+    test('should back off exponentially up to the cap', () => {
+      expect(getRetryDelay(1)).toBe(RETRY_BASE_DELAY_MS);
+      expect(getRetryDelay(3)).toBe(RETRY_BASE_DELAY_MS * 4);
+      expect(getRetryDelay(20)).toBe(RETRY_MAX_DELAY_MS);
+    });
+  });
+
+  describe('Running due jobs', () => {
+    test('should run due jobs and jobs whose lease expired', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const due = createTestJob();
+      const abandoned = createTestJob({ jobId: 'job-2', status: 'running', attempts: 1, leaseOwner: 'dead-worker' });
+      mockListJobsByStatus.mockImplementation(async (status) => (status === 'pending' ? [due] : [abandoned]));
+
+      const summary = await runDueJobs({ 'test.job': handler }, { workerId: 'worker-1' });
+
+      expect(mockListJobsByStatus).toHaveBeenCalledWith('pending', NOW, 25);
+      expect(mockListJobsByStatus).toHaveBeenCalledWith('running', NOW, 24);
+      expect(mockClaimJob).toHaveBeenCalledWith(due, 'worker-1', NOW + JOB_LEASE_MS);
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(completeJob).toHaveBeenCalledTimes(2);
+      expect(summary).toEqual({ claimed: 2, completed: 2, retried: 0, deferred: 0, deadLettered: 0 });
+    });
+
+    test('should skip jobs another worker claimed first', async () => {
+      const handler = jest.fn();
+      mockListJobsByStatus.mockResolvedValueOnce([createTestJob()]);
+      mockClaimJob.mockResolvedValue(null);
+
+      const summary = await runDueJobs({ 'test.job': handler });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(summary.claimed).toBe(0);
+    });
+
+    test('should retry a failed job with backoff', async () => {
+      mockListJobsByStatus.mockResolvedValueOnce([createTestJob({ attempts: 1 })]);
+
+      const summary = await runDueJobs({ 'test.job': jest.fn().mockRejectedValue(new Error('Processor timeout')) });
+
+      expect(mockFailJob).toHaveBeenCalledWith(
+        expect.objectContaining({ jobId: 'job-1', attempts: 2 }),
+        'Processor timeout',
+        NOW + getRetryDelay(2)
+      );
+      expect(summary).toEqual({ claimed: 1, completed: 0, retried: 1, deferred: 0, deadLettered: 0 });
+    });
+
+    test('should reschedule a deferred job without using up an attempt', async () => {
+      mockListJobsByStatus.mockResolvedValueOnce([createTestJob({ attempts: 2 })]);
+      const handler = jest.fn().mockResolvedValue({ deferUntil: NOW + DAY, reason: 'Not ready' });
+
+      const summary = await runDueJobs({ 'test.job': handler });
+
+      expect(mockDeferJob).toHaveBeenCalledWith(expect.objectContaining({ attempts: 3 }), 'Not ready', NOW + DAY);
+      expect(completeJob).not.toHaveBeenCalled();
+      expect(mockFailJob).not.toHaveBeenCalled();
+      expect(summary).toEqual({ claimed: 1, completed: 0, retried: 0, deferred: 1, deadLettered: 0 });
+    });
+
+    test('should not count jobs whose lease was lost mid-run', async () => {
+      mockListJobsByStatus.mockResolvedValueOnce([createTestJob(), createTestJob({ jobId: 'job-2' })]);
+      (completeJob as jest.Mock).mockResolvedValue(false);
+      mockFailJob.mockResolvedValue(false);
+      const handler = jest.fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Processor timeout'));
+
+      const summary = await runDueJobs({ 'test.job': handler });
+
+      expect(summary).toEqual({ claimed: 2, completed: 0, retried: 0, deferred: 0, deadLettered: 0 });
+      expect(console.warn).toHaveBeenCalledWith('Job job-1 (test.job) lost its lease before its outcome was recorded');
+      expect(console.warn).toHaveBeenCalledWith('Job job-2 (test.job) lost its lease before its outcome was recorded');
+    });
+
+    test('should dead-letter a job after its last attempt', async () => {
+      mockListJobsByStatus.mockResolvedValueOnce([createTestJob({ attempts: 2 })]);
+
+      const summary = await runDueJobs({ 'test.job': jest.fn().mockRejectedValue(new Error('Still failing')) });
+
+      expect(mockFailJob).toHaveBeenCalledWith(expect.objectContaining({ attempts: 3 }), 'Still failing', undefined);
+      expect(summary.deadLettered).toBe(1);
+    });
+
+    test('should dead-letter jobs without a handler', async () => {
+      mockListJobsByStatus.mockResolvedValueOnce([createTestJob({ type: 'unknown.job' })]);
+
+      const summary = await runDueJobs({});
+
+      expect(mockFailJob).toHaveBeenCalledWith(expect.anything(), 'No handler registered for job type unknown.job', undefined);
+      expect(summary.deadLettered).toBe(1);
+    });
+  });
+
+  describe('Billing jobs', () => {
+    const billingAccount: any = {
+      billingId: 'billing-1',
+      userId: 'user-1',
+      subscriptionId: 'sub-1',
+      paymentMethodId: 'pm-1',
+      plan: 'premium_individual',
+      amount: 29.99,
+      currency: 'USD',
+      status: 'active',
+      nextBillingDate: NOW - 1000,
+    };
+
+    const failure: any = {
+      failureId: 'failure-1',
+      transactionId: 'txn-1',
+      billingAccountId: 'billing-1',
+      userId: 'user-1',
+      amount: 29.99,
+      currency: 'USD',
+      reason: PaymentFailureReason.CARD_DECLINED,
+      attemptNumber: 1,
+      maxAttempts: 3,
+      nextRetryAt: NOW,
+      gracePeriodEnds: NOW + 7 * DAY,
+      resolved: false,
+      createdAt: NOW - DAY,
+      updatedAt: NOW - DAY,
+    };
+
+    let handlers: ReturnType<typeof createBillingJobHandlers>;
+
+    beforeEach(() => {
+      handlers = createBillingJobHandlers(mockPaymentProcessor);
+      mockDb.getBillingAccount.mockResolvedValue(billingAccount);
+      mockDb.getBillingAccountByUser.mockResolvedValue(billingAccount);
+      mockGetOverageLineItems.mockResolvedValue({
+        period: { periodStart: billingAccount.nextBillingDate - 30 * DAY, periodEnd: billingAccount.nextBillingDate },
+        lineItems: [],
+      });
+    });
+
+    test('should schedule dunning steps and the first retry instead of timers', async () => {
+      const handler = new PaymentFailureHandler(mockPaymentProcessor);
+
+      const created = await handler.handlePaymentFailure('txn-1', 'billing-1', PaymentFailureReason.CARD_DECLINED);
+
+      expect(scheduledJobs('billing.dunning_step').map(job => [job.jobId, job.runAt])).toEqual([
+        [`dunning:${created.failureId}:retry_payment_1`, NOW + DAY],
+        [`dunning:${created.failureId}:reminder_email_1`, NOW + 2 * DAY],
+        [`dunning:${created.failureId}:retry_payment_2`, NOW + 3 * DAY],
+        [`dunning:${created.failureId}:final_notice`, NOW + 5 * DAY],
+        [`dunning:${created.failureId}:retry_payment_3`, NOW + 6 * DAY],
+        [`dunning:${created.failureId}:suspend_service`, NOW + 7 * DAY],
+      ]);
+      expect(scheduledJobs('billing.payment_retry')).toEqual([
+        expect.objectContaining({
+          jobId: `payment-retry:${created.failureId}:1`,
+          runAt: NOW + DAY,
+          payload: { failureId: created.failureId, attemptNumber: 1 },
+        }),
+      ]);
+    });
+
+    test('should skip dunning steps once the failure is resolved', async () => {
+      mockDb.getPaymentFailure.mockResolvedValue({ ...failure, resolved: true });
+
+      await handlers['billing.dunning_step']({ failureId: 'failure-1', stepId: 'suspend_service' }, createTestJob());
+
+      expect(mockDb.updateBillingAccount).not.toHaveBeenCalled();
+    });
+
+    test('should run a due suspension step', async () => {
+      mockDb.getPaymentFailure.mockResolvedValue(failure);
+
+      await handlers['billing.dunning_step']({ failureId: 'failure-1', stepId: 'suspend_service' }, createTestJob());
+
+      expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing-1', expect.objectContaining({ status: 'suspended' }));
+      expect(mockDb.updateUser).toHaveBeenCalledWith('user-1', expect.objectContaining({ premiumActive: false }));
+    });
+
+    test('should schedule the next retry when a retry fails', async () => {
+      mockDb.getPaymentFailure.mockResolvedValue(failure);
+      mockPaymentProcessor.processPayment.mockResolvedValue({ status: 'failed', transactionId: 'txn-2' });
+
+      await handlers['billing.payment_retry']({ failureId: 'failure-1', attemptNumber: 1 }, createTestJob());
+
+      expect(mockDb.updatePaymentFailure).toHaveBeenCalledWith('failure-1', expect.objectContaining({ attemptNumber: 2 }));
+      expect(scheduledJobs('billing.payment_retry')).toEqual([
+        expect.objectContaining({ jobId: 'payment-retry:failure-1:2', runAt: NOW + 2 * DAY }),
+      ]);
+    });
+
+    test('should skip a retry that was already attempted', async () => {
+      mockDb.getPaymentFailure.mockResolvedValue({ ...failure, attemptNumber: 2 });
+
+      await handlers['billing.payment_retry']({ failureId: 'failure-1', attemptNumber: 1 }, createTestJob());
+
+      expect(mockPaymentProcessor.processPayment).not.toHaveBeenCalled();
+    });
+
+    test('should downgrade only if still past due when the grace period ends', async () => {
+      mockDb.getBillingAccount.mockResolvedValueOnce({ ...billingAccount, status: 'active' });
+      await handlers['billing.grace_period_expiry']({ billingId: 'billing-1', userId: 'user-1' }, createTestJob());
+      expect(mockDb.updateUserType).not.toHaveBeenCalled();
+
+      mockDb.getBillingAccount.mockResolvedValueOnce({ ...billingAccount, status: 'past_due' });
+      await handlers['billing.grace_period_expiry']({ billingId: 'billing-1', userId: 'user-1' }, createTestJob());
+      expect(mockDb.updateUserType).toHaveBeenCalledWith('user-1', 'individual', expect.objectContaining({ plan: 'basic', autoRenew: false }));
+    });
+
+    test('should renew on the billing date and schedule the next renewal', async () => {
+      mockPaymentProcessor.processPayment.mockResolvedValue({ status: 'succeeded', transactionId: 'txn-3' });
+
+      await handlers['billing.subscription_renewal']({ billingId: 'billing-1', billingDate: billingAccount.nextBillingDate }, createTestJob());
+
+      const [renewal] = scheduledJobs('billing.subscription_renewal');
+      expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing-1', expect.objectContaining({ nextBillingDate: renewal.runAt }));
+      expect(renewal.jobId).toBe(`renewal:billing-1:${renewal.runAt}`);
+      expect(renewal.runAt).toBeGreaterThan(billingAccount.nextBillingDate);
+    });
+
+    test('should renew without overage when usage cannot be loaded', async () => {
+      mockGetOverageLineItems.mockRejectedValue(new Error('metering unavailable'));
+      mockPaymentProcessor.processPayment.mockResolvedValue({ status: 'succeeded', transactionId: 'txn-5' });
+
+      await handlers['billing.subscription_renewal']({ billingId: 'billing-1', billingDate: billingAccount.nextBillingDate }, createTestJob());
+
+      expect(mockPaymentProcessor.processPayment).toHaveBeenCalledWith(29.99, 'USD', 'pm-1', expect.any(Object));
+      expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing-1', expect.objectContaining({ status: 'active' }));
+    });
+
+    test('should reuse the renewal invoice and not charge it again once paid', async () => {
+      const invoiceId = `inv_renewal_sub-1_${billingAccount.nextBillingDate}`;
+      mockIssueInvoice.mockResolvedValueOnce({ invoiceId, status: 'paid', total: 29.99 } as any);
+
+      await handlers['billing.subscription_renewal']({ billingId: 'billing-1', billingDate: billingAccount.nextBillingDate }, createTestJob());
+
+      expect(mockIssueInvoice).toHaveBeenCalledWith(expect.objectContaining({ invoiceId }));
+      expect(mockPaymentProcessor.processPayment).not.toHaveBeenCalled();
+    });
+
+    test('should schedule the grace-period downgrade when a renewal fails', async () => {
+      mockPaymentProcessor.processPayment.mockResolvedValue({ status: 'failed', transactionId: 'txn-4' });
+
+      await handlers['billing.subscription_renewal']({ billingId: 'billing-1', billingDate: billingAccount.nextBillingDate }, createTestJob());
+
+      expect(mockDb.updateBillingAccount).toHaveBeenCalledWith('billing-1', expect.objectContaining({ status: 'past_due' }));
+      expect(scheduledJobs('billing.grace_period_expiry')).toEqual([
+        expect.objectContaining({
+          jobId: `grace-period:billing-1:${billingAccount.nextBillingDate}`,
+          runAt: NOW + 7 * DAY,
+          payload: { billingId: 'billing-1', userId: 'user-1' },
+        }),
+      ]);
+    });
+
+    test('should skip a renewal that is no longer due', async () => {
+      mockDb.getBillingAccount.mockResolvedValue({ ...billingAccount, nextBillingDate: NOW + 30 * DAY });
+
+      await handlers['billing.subscription_renewal']({ billingId: 'billing-1', billingDate: billingAccount.nextBillingDate }, createTestJob());
+
+      expect(mockPaymentProcessor.processPayment).not.toHaveBeenCalled();
+    });
+
+    test('should defer charging jobs while no payment processor is configured', async () => {
+      const unconfigured = createBillingJobHandlers(null);
+      mockListJobsByStatus.mockResolvedValueOnce([
+        createTestJob({ type: 'billing.subscription_renewal', payload: { billingId: 'billing-1', billingDate: NOW } }),
+      ]);
+
+      const summary = await runDueJobs(unconfigured);
+
+      expect(Object.keys(unconfigured)).toEqual(expect.arrayContaining(['billing.case_sla', 'billing.ledger_posting']));
+      expect(mockDeferJob).toHaveBeenCalledWith(
+        expect.objectContaining({ attempts: 1 }),
+        'Payment processor initialization failed',
+        NOW + PROCESSOR_UNAVAILABLE_RETRY_MS
+      );
+      expect(mockFailJob).not.toHaveBeenCalled();
+      expect(summary).toEqual({ claimed: 1, completed: 0, retried: 0, deferred: 1, deadLettered: 0 });
+    });
+  });
+});
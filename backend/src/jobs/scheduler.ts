@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Durable job scheduler.
+ *
+ * Replaces in-process timers for work that must happen hours or days later
+ * (dunning steps, payment retries, grace periods, renewals). Jobs are
+ * persisted with a due time and run by a periodic tick — an EventBridge rule
+ * in AWS and an interval runner in local development — so they survive
+ * Lambda freezes and container restarts.
+ *
+ * Guarantees:
+ * - At-least-once: a job whose worker dies is retried when its lease expires,
+ *   so handlers must tolerate running twice (re-read state, skip stale work)
+ * - Scheduling is idempotent when a deterministic `jobId` is given
+ * - Failed runs are retried with exponential backoff, then dead-lettered
+ * - A handler that cannot run yet returns a deferral; the job runs again
+ *   later without using up an attempt
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { generateId } from '../shared/utils';
+import { claimJob, completeJob, createJob, deferJob, failJob, Job, listJobsByStatus } from './job-store';
+
+/**
+ * Default number of runs before a job is dead-lettered
+ */
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+/**
+ * How long a worker holds a claimed job
+ */
+export const JOB_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Backoff between failed runs: 1 minute, doubling, capped at 1 hour
+ */
+export const RETRY_BASE_DELAY_MS = 60 * 1000;
+export const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Maximum number of jobs one tick claims
+ */
+export const DEFAULT_BATCH_SIZE = 25;
+
+/**
+ * Returned by a handler that cannot run the job yet
+ */
+export interface JobDeferral {
+  /** When to run the job again, in milliseconds */
+  deferUntil: number;
+  reason: string;
+}
+
+/**
+ * Runs one job; throwing schedules a retry, returning a deferral reschedules it
+ */
+export type JobHandler = (payload: Record<string, any>, job: Job) => Promise<void | JobDeferral>;
+
+/**
+ * Options for scheduling a job
+ */
+export interface ScheduleJobOptions {
+  type: string;
+  payload: Record<string, any>;
+  /** When the job becomes due, in milliseconds */
+  runAt: number;
+  /** Deterministic ID so scheduling the same work twice creates one job */
+  jobId?: string;
+  maxAttempts?: number;
+}
+
+/**
+ * Outcome counts of one scheduler tick
+ */
+export interface JobRunSummary {
+  claimed: number;
+  completed: number;
+  retried: number;
+  deferred: number;
+  deadLettered: number;
+}
+
+/**
+ * Delay before the next run after a job has failed a number of times
+ *
+ * @param attempts - Runs so far (1 after the first failure)
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Schedules a job
+ *
+ * @param options - Job type, payload, due time and optional deterministic ID
+ * @returns Promise<boolean> - False when a job with the same ID already exists
+ */
+export async function scheduleJob(options: ScheduleJobOptions): Promise<boolean> {
+  const now = Date.now();
+  return createJob({
+    jobId: options.jobId || generateId(),
+    type: options.type,
+    payload: options.payload,
+    status: 'pending',
+    runAt: options.runAt,
+    attempts: 0,
+    maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Claims and runs due jobs
+ *
+ * Picks up pending jobs that are due and running jobs whose lease has
+ * expired, runs each claimed job's handler, then completes, retries, defers
+ * or dead-letters it. Jobs without a handler are dead-lettered straight away.
+ * A job whose lease was lost mid-run is left to the worker that took it over
+ * and is not counted.
+ *
+ * @param handlers - Job handlers by job type
+ * @param options - Clock, worker ID and batch size overrides
+ * @returns Promise<JobRunSummary> - What happened during the tick
+ */
+export async function runDueJobs(
+  handlers: Record<string, JobHandler>,
+  options: { now?: number; workerId?: string; limit?: number } = {}
+): Promise<JobRunSummary> {
+  const now = options.now ?? Date.now();
+  const workerId = options.workerId || `worker_${generateId()}`;
+  const limit = options.limit || DEFAULT_BATCH_SIZE;
+  const summary: JobRunSummary = { claimed: 0, completed: 0, retried: 0, deferred: 0, deadLettered: 0 };
+  const logLostLease = (job: Job) =>
+    console.warn(`Job ${job.jobId} (${job.type}) lost its lease before its outcome was recorded`);
+
+  const due = await listJobsByStatus('pending', now, limit);
+  if (due.length < limit) {
+    due.push(...await listJobsByStatus('running', now, limit - due.length));
+  }
+
+  for (const listed of due) {
+    const job = await claimJob(listed, workerId, now + JOB_LEASE_MS);
+    if (!job) {
+      continue;
+    }
+    summary.claimed++;
+
+    const hasHandler = job.type in handlers;
+    try {
+      if (!hasHandler) {
+        throw new Error(`No handler registered for job type ${job.type}`);
+      }
+      const deferral = await handlers[job.type](job.payload, job);
+      if (deferral) {
+        console.warn(`Job ${job.jobId} (${job.type}) deferred: ${deferral.reason}`);
+        if (await deferJob(job, deferral.reason, deferral.deferUntil)) {
+          summary.deferred++;
+        } else {
+          logLostLease(job);
+        }
+      } else if (await completeJob(job)) {
+        summary.completed++;
+      } else {
+        logLostLease(job);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt = hasHandler && job.attempts < job.maxAttempts
+        ? Date.now() + getRetryDelay(job.attempts)
+        : undefined;
+
+      console.error(`Job ${job.jobId} (${job.type}) failed on attempt ${job.attempts}:`, error);
+      if (!await failJob(job, message, retryAt)) {
+        logLostLease(job);
+      } else if (retryAt === undefined) {
+        summary.deadLettered++;
+      } else {
+        summary.retried++;
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Unit tests for duplicate and scam listing detection
+ *
+ * Tests the perceptual hash, MinHash and HIN fingerprints, and screening a
+ * listing against other sellers' listings: duplicates, likely scams, the
+ * seller's own listings and matches that were already flagged.
+ */
+
+import { ContentFlag } from '@harborlist/shared-types';
+import {
+  DUPLICATE_DETECTION_SOURCE,
+  ScreenedListing,
+  buildListingFingerprint,
+  imageKeyFromUrl,
+  screenListingForDuplicates,
+} from './duplicate-detection';
+import {
+  IMAGE_MATCH_DISTANCE,
+  ListingFingerprint,
+  PHASH_IMAGE_SIZE,
+  estimateSimilarity,
+  fingerprintBuckets,
+  hammingDistance,
+  minhashSignature,
+  normalizeHin,
+  perceptualHash,
+} from '../shared/fingerprints';
+import { findBucketEntries, getImageHashes, getListingFingerprints } from '../shared/fingerprint-store';
+
+jest.mock('../shared/fingerprint-store', () => ({
+  findBucketEntries: jest.fn(),
+  getImageHashes: jest.fn(),
+  getListingFingerprints: jest.fn(),
+}));
+
+jest.mock('../shared/database', () => ({
+  db: { getListing: jest.fn() },
+}));
+
+const mockFindBucketEntries = findBucketEntries as jest.MockedFunction<typeof findBucketEntries>;
+const mockGetImageHashes = getImageHashes as jest.MockedFunction<typeof getImageHashes>;
+const mockGetListingFingerprints = getListingFingerprints as jest.MockedFunction<typeof getListingFingerprints>;
+
+/**
+ * Synthetic greyscale photo: overlapping waves of falling strength, like the
+ * spectrum of a real photo, varying with the seed, plus optional noise
+ */
+const photo = (seed: number, noise: number = 0): number[] => {
+  const pixels: number[] = [];
+  for (let y = 0; y < PHASH_IMAGE_SIZE; y++) {
+    for (let x = 0; x < PHASH_IMAGE_SIZE; x++) {
+      let value = 128;
+      for (let k = 1; k <= 6; k++) {
+        value += (70 / k) * Math.sin((x * (k + seed)) / 11 + seed * k) * Math.cos((y * (k * 2 + seed)) / 13 + k);
+      }
+      const jitter = noise ? (((x * 31 + y * 17 + seed) % 7) - 3) * noise : 0;
+      pixels.push(Math.max(0, Math.min(255, value + jitter)));
+    }
+  }
+  return pixels;
+};
+
+const DESCRIPTION = 'Meticulously maintained 2019 Boston Whaler Montauk 170 with a Mercury 90 four stroke, ' +
+  'only 120 hours, trailer included, new bimini top, fresh bottom paint, garmin chartplotter and fishfinder, ' +
+  'stored indoors every winter and serviced annually by the dealer';
+
+const URL_BASE = 'https://media.s3.amazonaws.com';
+
+const listing = (overrides: Partial<ScreenedListing> = {}): ScreenedListing => ({
+  listingId: 'listing-new',
+  ownerId: 'scammer-1',
+  description: DESCRIPTION,
+  images: [`${URL_BASE}/scammer-1/photo-a`],
+  boatDetails: {
+    type: 'Center Console',
+    manufacturer: 'Boston Whaler',
+    model: 'Montauk 170',
+    year: 2019,
+    length: 17,
+    condition: 'Excellent',
+  },
+  ...overrides,
+});
+
+const fingerprint = (overrides: Partial<ListingFingerprint> = {}): ListingFingerprint => ({
+  listingId: 'listing-original',
+  ownerId: 'seller-1',
+  modelYearKey: 'bostonwhaler#montauk170#2019',
+  imageHashes: [{ image: `${URL_BASE}/seller-1/photo-1`, hash: perceptualHash(photo(3)) }],
+  minhash: minhashSignature(DESCRIPTION),
+  buckets: [],
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('Duplicate detection', () => {
+  describe('perceptualHash', () => {
+    it('keeps re-compressed copies of a photo within the match distance', () => {
+      const original = perceptualHash(photo(3));
+      const copy = perceptualHash(photo(3, 1));
+
+      expect(original).toMatch(/^[0-9a-f]{16}$/);
+      expect(hammingDistance(original, copy)).toBeLessThanOrEqual(IMAGE_MATCH_DISTANCE);
+    });
+
+    it('keeps different photos apart', () => {
+      expect(hammingDistance(perceptualHash(photo(3)), perceptualHash(photo(11)))).toBeGreaterThan(IMAGE_MATCH_DISTANCE);
+    });
+
+    it('rejects images of the wrong size', () => {
+      expect(() => perceptualHash([1, 2, 3])).toThrow('Perceptual hash needs 1024 pixels');
+    });
+  });
+
+  describe('minhashSignature', () => {
+    it('estimates lightly edited descriptions as near-identical', () => {
+      const edited = DESCRIPTION.replace('only 120 hours', 'only 125 hours');
+      expect(estimateSimilarity(minhashSignature(DESCRIPTION), minhashSignature(edited))).toBeGreaterThanOrEqual(0.8);
+    });
+
+    it('estimates unrelated descriptions as dissimilar', () => {
+      const other = 'Classic wooden sailboat restored over three years with new canvas, bronze fittings, ' +
+        'varnished mahogany brightwork, a rebuilt diesel and a cozy cabin that sleeps four adults comfortably';
+      expect(estimateSimilarity(minhashSignature(DESCRIPTION), minhashSignature(other))).toBeLessThan(0.2);
+    });
+
+    it('skips descriptions too short to compare', () => {
+      expect(minhashSignature('Great boat, must see!')).toBeUndefined();
+    });
+  });
+
+  describe('normalizeHin', () => {
+    it('ignores case, separators and the US prefix', () => {
+      expect(normalizeHin('abc-12345-d4-04')).toBe('ABC12345D404');
+      expect(normalizeHin('US-ABC12345D404')).toBe('ABC12345D404');
+      expect(normalizeHin('not a hin')).toBeUndefined();
+    });
+  });
+
+  describe('imageKeyFromUrl', () => {
+    it('extracts the S3 key from AWS and LocalStack URLs', () => {
+      expect(imageKeyFromUrl(`${URL_BASE}/user-1/file-1`)).toBe('user-1/file-1');
+      expect(imageKeyFromUrl('http://localhost:4566/harborlist-media/user-1/file-1')).toBe('user-1/file-1');
+      expect(imageKeyFromUrl('not a url')).toBeUndefined();
+    });
+  });
+
+  describe('screenListingForDuplicates', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockGetImageHashes.mockResolvedValue(new Map([['scammer-1/photo-a', perceptualHash(photo(3, 1))]]));
+      mockFindBucketEntries.mockResolvedValue([
+        { bucket: 'image#0#abcd', listingId: 'listing-original', ownerId: 'seller-1' },
+      ]);
+      mockGetListingFingerprints.mockResolvedValue([fingerprint()]);
+    });
+
+    it('fingerprints photos, description, HIN and model', async () => {
+      const result = await buildListingFingerprint(listing({
+        boatDetails: { ...listing().boatDetails, hin: 'abc-12345-d4-04' },
+      }));
+
+      expect(result).toMatchObject({
+        hin: 'ABC12345D404',
+        modelYearKey: 'bostonwhaler#montauk170#2019',
+        imageHashes: [{ image: `${URL_BASE}/scammer-1/photo-a` }],
+      });
+      expect(result.buckets).toEqual(fingerprintBuckets(result));
+      expect(result.buckets).toContain('hin#ABC12345D404');
+    });
+
+    it('flags copied photos and description as a duplicate', async () => {
+      const { flag, matches } = await screenListingForDuplicates(listing());
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toMatchObject({
+        listingId: 'listing-original',
+        ownerId: 'seller-1',
+        signals: ['image', 'description', 'model_year'],
+      });
+      expect(flag).toMatchObject({
+        type: 'duplicate',
+        severity: 'medium',
+        reportedBy: 'system',
+        status: 'pending',
+        metadata: { source: DUPLICATE_DETECTION_SOURCE, matches },
+      });
+    });
+
+    it('flags stolen photos on a different boat as fraud', async () => {
+      const { flag } = await screenListingForDuplicates(listing({
+        description: 'Cheap boat, wire the deposit today and I will ship it to you',
+        boatDetails: { ...listing().boatDetails, manufacturer: 'Sea Ray', model: 'SPX 190' },
+      }));
+
+      expect(flag).toMatchObject({ type: 'fraud', severity: 'high' });
+      expect(flag!.reason).toMatch(/Possible scam/);
+    });
+
+    it('ignores the seller\'s own listings', async () => {
+      mockGetListingFingerprints.mockResolvedValue([fingerprint({ ownerId: 'scammer-1' })]);
+
+      const { flag, matches } = await screenListingForDuplicates(listing());
+
+      expect(matches).toHaveLength(0);
+      expect(flag).toBeUndefined();
+    });
+
+    it('does not flag a match again', async () => {
+      const existing: ContentFlag = {
+        id: 'flag-1',
+        type: 'duplicate',
+        reason: 'Possible duplicate',
+        reportedBy: 'system',
+        reportedAt: '2024-04-10T12:00:00.000Z',
+        severity: 'medium',
+        status: 'pending',
+        metadata: { source: DUPLICATE_DETECTION_SOURCE, matches: [{ listingId: 'listing-original' }] },
+      };
+
+      const { flag, matches } = await screenListingForDuplicates(listing({ flags: [existing] }));
+
+      expect(matches).toHaveLength(1);
+      expect(flag).toBeUndefined();
+    });
+
+    it('does not compare listings without shared buckets', async () => {
+      mockFindBucketEntries.mockResolvedValue([]);
+
+      const { flag } = await screenListingForDuplicates(listing());
+
+      expect(flag).toBeUndefined();
+      expect(mockGetListingFingerprints).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * @fileoverview Duplicate and scam listing detection.
+ *
+ * Screens a listing against other sellers' listings using the fingerprints
+ * in `shared/fingerprints.ts`: perceptual hashes of its photos, a MinHash
+ * signature of its description and its HIN. Matches are raised as a single
+ * ContentFlag (reported by `system`) carrying the matched listings, so
+ * moderators can compare them side by side.
+ *
+ * Business Rules:
+ * - Only listings of other sellers are compared; sellers may relist their own boats
+ * - A listing is a near-duplicate when it shares a HIN, a photo (perceptual
+ *   hashes within IMAGE_MATCH_DISTANCE bits) or a description (estimated
+ *   similarity of at least DESCRIPTION_MATCH_SIMILARITY) with another listing
+ * - Matching manufacturer/model/year supports a match but never makes one
+ * - A match is a likely scam (`fraud`, high severity) when the shared
+ *   evidence describes a different boat: the same HIN or photos with a
+ *   different manufacturer/model/year, or the same photos or description
+ *   with a different HIN. Other matches are `duplicate` (medium severity)
+ * - Listings already flagged for a match are not flagged for it again
+ * - Detection never blocks a listing: it only flags for review
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import {
+  ContentFlag,
+  DuplicateComparison,
+  DuplicateImageMatch,
+  DuplicateMatch,
+  DuplicateSignal,
+  Listing,
+} from '@harborlist/shared-types';
+import {
+  DESCRIPTION_MATCH_SIMILARITY,
+  IMAGE_MATCH_DISTANCE,
+  ListingFingerprint,
+  estimateSimilarity,
+  fingerprintBuckets,
+  hammingDistance,
+  minhashSignature,
+  modelYearKey,
+  normalizeHin,
+} from '../shared/fingerprints';
+import { findBucketEntries, getImageHashes, getListingFingerprints } from '../shared/fingerprint-store';
+import { db } from '../shared/database';
+import { generateId } from '../shared/utils';
+
+/**
+ * `ContentFlag.metadata.source` of flags raised by duplicate detection
+ */
+export const DUPLICATE_DETECTION_SOURCE = 'duplicate_detection';
+
+/**
+ * Listing fields duplicate detection reads
+ */
+export type ScreenedListing = Pick<Listing, 'listingId' | 'ownerId' | 'description' | 'images' | 'boatDetails'> & {
+  flags?: ContentFlag[];
+};
+
+/**
+ * A match and whether it points to a scam
+ */
+interface ScoredMatch {
+  match: DuplicateMatch;
+  fraud: boolean;
+}
+
+/**
+ * Result of screening a listing
+ */
+export interface DuplicateScreening {
+  fingerprint: ListingFingerprint;
+  matches: DuplicateMatch[];
+  flag?: ContentFlag; // Set when there are matches not flagged before
+}
+
+/**
+ * S3 key of an uploaded photo from its URL
+ *
+ * Photo URLs end in `<userId>/<fileId>` whether they point at S3 directly
+ * or at LocalStack, where the bucket name is part of the path.
+ *
+ * @param url - Photo URL
+ * @returns S3 key, or undefined for URLs that are not uploads
+ */
+export function imageKeyFromUrl(url: string): string | undefined {
+  try {
+    const segments = new URL(url).pathname.split('/').filter(Boolean);
+    return segments.length >= 2 ? segments.slice(-2).join('/') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds a listing's fingerprint
+ *
+ * Photos that have not been hashed yet (still processing) are left out.
+ *
+ * @param listing - Listing to fingerprint
+ * @returns Promise<ListingFingerprint> - Fingerprint with its buckets
+ */
+export async function buildListingFingerprint(listing: ScreenedListing): Promise<ListingFingerprint> {
+  const imageKeys = (listing.images || []).map(image => ({ image, key: imageKeyFromUrl(image) }));
+  const hashes = await getImageHashes(imageKeys.flatMap(({ key }) => key ? [key] : []));
+
+  const fingerprint: ListingFingerprint = {
+    listingId: listing.listingId,
+    ownerId: listing.ownerId,
+    hin: normalizeHin(listing.boatDetails?.hin),
+    modelYearKey: listing.boatDetails ? modelYearKey(listing.boatDetails) : undefined,
+    imageHashes: imageKeys.flatMap(({ image, key }) => {
+      const hash = key && hashes.get(key);
+      return hash ? [{ image, hash }] : [];
+    }),
+    minhash: minhashSignature(listing.description || ''),
+    buckets: [],
+    updatedAt: Date.now(),
+  };
+  fingerprint.buckets = fingerprintBuckets(fingerprint);
+  return fingerprint;
+}
+
+/**
+ * Compares two listings' fingerprints
+ *
+ * @param fingerprint - Listing being screened
+ * @param other - Another seller's listing
+ * @returns ScoredMatch | null - The match, or null if the listings are not near-duplicates
+ */
+function compareFingerprints(fingerprint: ListingFingerprint, other: ListingFingerprint): ScoredMatch | null {
+  const signals: DuplicateSignal[] = [];
+
+  const sameHin = !!fingerprint.hin && fingerprint.hin === other.hin;
+  if (sameHin) signals.push('hin');
+
+  const imageMatches: DuplicateImageMatch[] = [];
+  for (const { image, hash } of fingerprint.imageHashes) {
+    let best: DuplicateImageMatch | undefined;
+    for (const candidate of other.imageHashes || []) {
+      const distance = hammingDistance(hash, candidate.hash);
+      if (distance <= IMAGE_MATCH_DISTANCE && (!best || distance < best.distance)) {
+        best = { image, matchedImage: candidate.image, distance };
+      }
+    }
+    if (best) imageMatches.push(best);
+  }
+  if (imageMatches.length > 0) signals.push('image');
+
+  const descriptionSimilarity = estimateSimilarity(fingerprint.minhash, other.minhash);
+  if (descriptionSimilarity >= DESCRIPTION_MATCH_SIMILARITY) signals.push('description');
+
+  if (signals.length === 0) {
+    return null;
+  }
+
+  if (fingerprint.modelYearKey && fingerprint.modelYearKey === other.modelYearKey) {
+    signals.push('model_year');
+  }
+
+  const differentBoat = !!fingerprint.modelYearKey && !!other.modelYearKey && fingerprint.modelYearKey !== other.modelYearKey;
+  const differentHin = !!fingerprint.hin && !!other.hin && fingerprint.hin !== other.hin;
+  const fraud = (differentBoat && (sameHin || imageMatches.length > 0))
+    || (differentHin && (imageMatches.length > 0 || signals.includes('description')));
+
+  return {
+    match: {
+      listingId: other.listingId,
+      ownerId: other.ownerId,
+      signals,
+      imageMatches,
+      descriptionSimilarity: Math.round(descriptionSimilarity * 100) / 100,
+    },
+    fraud,
+  };
+}
+
+/**
+ * Finds other sellers' listings that are near-duplicates of a fingerprint
+ *
+ * @param fingerprint - Listing being screened
+ * @returns Promise<ScoredMatch[]> - Matches, likely scams and strongest evidence first
+ */
+async function findDuplicateListings(fingerprint: ListingFingerprint): Promise<ScoredMatch[]> {
+  const entries = await findBucketEntries(fingerprint.buckets);
+  const candidateIds = entries
+    .filter(entry => entry.listingId !== fingerprint.listingId && entry.ownerId !== fingerprint.ownerId)
+    .map(entry => entry.listingId);
+  if (candidateIds.length === 0) {
+    return [];
+  }
+
+  const candidates = await getListingFingerprints(candidateIds);
+  return candidates
+    .filter(candidate => candidate.ownerId !== fingerprint.ownerId)
+    .map(candidate => compareFingerprints(fingerprint, candidate))
+    .filter((scored): scored is ScoredMatch => scored !== null)
+    .sort((a, b) => Number(b.fraud) - Number(a.fraud) || b.match.signals.length - a.match.signals.length);
+}
+
+/**
+ * Listings already matched by a pending duplicate detection flag
+ */
+function getFlaggedMatchIds(flags: ContentFlag[] = []): Set<string> {
+  const flagged = flags.filter(flag =>
+    flag.status === 'pending' && flag.metadata?.source === DUPLICATE_DETECTION_SOURCE
+  );
+  return new Set(flagged.flatMap(flag => (flag.metadata?.matches || []).map((match: DuplicateMatch) => match.listingId)));
+}
+
+/**
+ * Describes matches for moderators
+ */
+function describeMatches(matches: DuplicateMatch[], fraud: boolean): string {
+  const labels: Record<DuplicateSignal, string> = {
+    hin: 'HIN',
+    image: 'photos',
+    description: 'description',
+    model_year: 'make/model/year',
+  };
+  const evidence = [...new Set(matches.flatMap(match => match.signals))].map(signal => labels[signal]);
+  const listings = matches.length === 1 ? '1 listing' : `${matches.length} listings`;
+
+  return fraud
+    ? `Possible scam: shares ${evidence.join(', ')} with ${listings} by other sellers but describes a different boat`
+    : `Possible duplicate: shares ${evidence.join(', ')} with ${listings} by other sellers`;
+}
+
+/**
+ * Screens a listing for near-duplicates of other sellers' listings
+ *
+ * @param listing - Listing to screen, with its current flags
+ * @returns Promise<DuplicateScreening> - Fingerprint to store, matches and the flag to raise (if any)
+ */
+export async function screenListingForDuplicates(listing: ScreenedListing): Promise<DuplicateScreening> {
+  const fingerprint = await buildListingFingerprint(listing);
+  const scored = await findDuplicateListings(fingerprint);
+  const matches = scored.map(({ match }) => match);
+
+  const alreadyFlagged = getFlaggedMatchIds(listing.flags);
+  const unflagged = scored.filter(({ match }) => !alreadyFlagged.has(match.listingId));
+  if (unflagged.length === 0) {
+    return { fingerprint, matches };
+  }
+
+  const fraud = unflagged.some(({ fraud }) => fraud);
+  const flag: ContentFlag = {
+    id: generateId(),
+    type: fraud ? 'fraud' : 'duplicate',
+    reason: describeMatches(unflagged.map(({ match }) => match), fraud),
+    reportedBy: 'system',
+    reportedAt: new Date().toISOString(),
+    severity: fraud ? 'high' : 'medium',
+    status: 'pending',
+    metadata: {
+      source: DUPLICATE_DETECTION_SOURCE,
+      matches: unflagged.map(({ match }) => match),
+    },
+  };
+
+  return { fingerprint, matches, flag };
+}
+
+/**
+ * Loads the listings matched by a listing's duplicate detection flags, for
+ * side-by-side review
+ *
+ * @param flags - Flags of the listing under review
+ * @returns Promise<DuplicateComparison[]> - Latest match per listing, with the matched listing's details
+ */
+export async function getDuplicateComparisons(flags: ContentFlag[] = []): Promise<DuplicateComparison[]> {
+  const latest = new Map<string, DuplicateMatch>();
+  flags
+    .filter(flag => flag.metadata?.source === DUPLICATE_DETECTION_SOURCE)
+    .forEach(flag => (flag.metadata?.matches || []).forEach((match: DuplicateMatch) => latest.set(match.listingId, match)));
+
+  return Promise.all([...latest.values()].map(async match => {
+    const listing = await db.getListing(match.listingId);
+    return {
+      ...match,
+      listing: listing ? {
+        title: listing.title,
+        description: listing.description,
+        price: listing.price,
+        location: { city: listing.location?.city, state: listing.location?.state },
+        images: listing.images || [],
+        boatDetails: listing.boatDetails,
+        status: listing.status,
+        createdAt: listing.createdAt,
+      } : undefined,
+    };
+  }));
+}
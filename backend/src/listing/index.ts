@@ -9,6 +9,7 @@
  * - Pagination support for listing queries
  * - Data validation for boat specifications
  * - Image and media management integration
+ * - Duplicate and scam detection against other sellers' listings
  * 
  * Security Features:
  * - User authentication and authorization
@@ -36,6 +37,25 @@ import { ValidationFramework, CommonRules } from '../shared/validators';
 import { getUserFromEvent } from '../shared/auth';
 import { Listing, Engine, EnhancedListing } from '@harborlist/shared-types';
 import { filterContent, generateFlagReason, getViolationSummary } from '../shared/content-filter';
+import { getContentFilter } from '../shared/content-filter-rules';
+import { indexListing, reindexListing, removeListingFromIndex, recordListingView } from '../search/indexer';
+import { geocodeLocation } from '../shared/geocoding';
+import { notifyWatchersOfChange } from '../favorites/watch-notifier';
+import { checkListingPhotoLimit, checkUsage, syncActiveListings } from '../billing-service/metering/usage-meter';
+import { submitListingReport } from './listing-reports';
+import { closeModerationItems, enqueueModerationItem } from './moderation-routing';
+import {
+  appendPriceHistory,
+  diffListingFields,
+  formatFieldName,
+  getAutoApprovalRules,
+  getAutoApprovedFields,
+  omitFields,
+  pickFields,
+} from './pending-updates';
+import { ScreenedListing, screenListingForDuplicates } from './duplicate-detection';
+import { ListingFingerprint } from '../shared/fingerprints';
+import { deleteListingFingerprint, saveListingFingerprint } from '../shared/fingerprint-store';
 
 /**
  * Helper function to validate engine specifications
@@ -233,6 +253,7 @@ function validateEnginesArray(engines: Engine[]): string | null {
  * - DELETE /listings/{id} - Delete listing (owner only)
  * - POST /listings/{id}/engines - Add/update engines for listing
  * - DELETE /listings/{id}/engines/{engineId} - Remove engine from listing
+ * - POST /listings/{id}/report - Report a listing to moderators (signed-in users)
  * 
  * @param event - API Gateway proxy event containing request details
  * @returns Promise<APIGatewayProxyResult> - Standardized API response
@@ -269,6 +290,9 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
         if (pathParameters.id && event.path?.includes('/resubmit')) {
           return await resubmitForModeration(pathParameters.id, event, requestId);
         }
+        if (pathParameters.id && event.path?.endsWith('/report')) {
+          return await reportListing(pathParameters.id, event, requestId);
+        }
         return await createListing(event, requestId);
 
       case 'PUT':
@@ -295,6 +319,50 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
   }
 };
 
+/**
+ * Projects a listing owner for a listing response
+ *
+ * The owner's email address is contact information rather than listing
+ * content, so it is only included when the caller is the owner or an admin.
+ *
+ * @param owner - User record of the listing owner, if found
+ * @param includeEmail - Whether the caller may see the owner's email
+ * @returns Owner summary, or null when the owner no longer exists
+ */
+function toListingOwner(owner: any, includeEmail: boolean) {
+  if (!owner) {
+    return null;
+  }
+
+  return {
+    id: owner.id,
+    name: owner.name,
+    ...(includeEmail && { email: owner.email }),
+  };
+}
+
+/**
+ * Checks whether the caller is the listing owner or an admin/moderator
+ *
+ * @param event - API Gateway event of the request, if any
+ * @param ownerId - User ID of the listing owner
+ * @returns Promise<boolean> - False for unauthenticated callers
+ */
+async function isOwnerOrAdmin(event: APIGatewayProxyEvent | undefined, ownerId: string): Promise<boolean> {
+  if (!event) {
+    return false;
+  }
+
+  try {
+    const userPayload = await getUserFromEvent(event);
+    const adminRoles = ['ADMIN', 'SUPER_ADMIN', 'MODERATOR', 'SUPPORT'];
+    return userPayload.sub === ownerId || (!!userPayload.role && adminRoles.includes(userPayload.role));
+  } catch (error) {
+    // User not authenticated
+    return false;
+  }
+}
+
 /**
  * Retrieves a specific boat listing by ID with view tracking
  * 
@@ -348,6 +416,7 @@ async function getListing(listingId: string, requestId: string, event?: APIGatew
       // Increment view count only for active/approved listings
       if (!isPending) {
         await db.incrementViews(listingId);
+        await recordListingView(listing as any);
       }
 
       // Fetch owner information
@@ -356,11 +425,7 @@ async function getListing(listingId: string, requestId: string, event?: APIGatew
         const owner = await db.getUser(listing.ownerId);
         listingWithOwner = {
           ...listing,
-          owner: owner ? {
-            id: owner.id,
-            name: owner.name,
-            email: owner.email
-          } : null
+          owner: toListingOwner(owner, await isOwnerOrAdmin(event, listing.ownerId))
         } as any;
       } catch (error) {
         console.warn(`Failed to fetch owner for listing ${listingId}:`, error);
@@ -454,6 +519,7 @@ async function getListingBySlug(slug: string, requestId: string, event?: APIGate
     // Increment view count only for active/approved listings
     if (!isPending) {
       await db.incrementViews(result.listingId);
+      await recordListingView(result as any);
     }
 
     // Fetch owner information
@@ -462,11 +528,7 @@ async function getListingBySlug(slug: string, requestId: string, event?: APIGate
       const owner = await db.getUser(result.ownerId);
       listingWithOwner = {
         ...result,
-        owner: owner ? {
-          id: owner.id,
-          name: owner.name,
-          email: owner.email
-        } : null
+        owner: toListingOwner(owner, await isOwnerOrAdmin(event, result.ownerId))
       } as any;
     } catch (error) {
       console.warn(`Failed to fetch owner for listing ${result.listingId}:`, error);
@@ -602,11 +664,8 @@ async function getListings(event: APIGatewayProxyEvent, requestId: string): Prom
             const owner = await db.getUser(listing.ownerId);
             return {
               ...listing,
-              owner: owner ? {
-                id: owner.id,
-                name: owner.name,
-                email: owner.email
-              } : null
+              // Only the owner can list by ownerId, so they see their own email
+              owner: toListingOwner(owner, true)
             };
           } catch (error) {
             console.warn(`Failed to fetch owner for listing ${listing.listingId}:`, error);
@@ -643,11 +702,7 @@ async function getListings(event: APIGatewayProxyEvent, requestId: string): Prom
           const owner = await db.getUser(listing.ownerId);
           return {
             ...listing,
-            owner: owner ? {
-              id: owner.id,
-              name: owner.name,
-              email: owner.email // Optional: include email if needed
-            } : null
+            owner: toListingOwner(owner, false)
           };
         } catch (error) {
           console.warn(`Failed to fetch owner for listing ${listing.listingId}:`, error);
@@ -710,6 +765,58 @@ async function getListings(event: APIGatewayProxyEvent, requestId: string): Prom
  * 
  * @throws {Error} When validation fails or database operations fail
  */
+/**
+ * Stores a listing's fingerprint for duplicate detection
+ * 
+ * Failures are logged, never surfaced: the listing itself is already saved
+ * and is only left out of future comparisons.
+ * 
+ * @param fingerprint - Fingerprint to store
+ * @param requestId - Request tracking identifier for logging
+ */
+async function saveFingerprint(fingerprint: ListingFingerprint, requestId: string): Promise<void> {
+  try {
+    await saveListingFingerprint(fingerprint);
+  } catch (error) {
+    console.error(`[${requestId}] Error saving fingerprint of listing ${fingerprint.listingId}:`, error);
+  }
+}
+
+/**
+ * Re-runs duplicate detection after an update to a listing's description,
+ * photos or boat details, flagging new matches for review
+ * 
+ * @param existingListing - Listing before the update
+ * @param updatedListing - Listing with the update applied
+ * @param requestId - Request tracking identifier for logging
+ * @param storeFingerprint - Whether the update is live and its fingerprint should replace the stored one
+ */
+async function screenUpdatedListing(
+  existingListing: ScreenedListing,
+  updatedListing: ScreenedListing,
+  requestId: string,
+  storeFingerprint: boolean = false
+): Promise<void> {
+  const fingerprinted = (listing: ScreenedListing) =>
+    JSON.stringify([listing.description, listing.images, listing.boatDetails]);
+  if (fingerprinted(existingListing) === fingerprinted(updatedListing)) {
+    return;
+  }
+
+  try {
+    const screening = await screenListingForDuplicates(updatedListing);
+    if (screening.flag) {
+      console.log(`[${requestId}] Duplicate detection matched ${screening.matches.length} listing(s) for listing ${updatedListing.listingId}`);
+      await db.addListingFlag(updatedListing.listingId, screening.flag);
+    }
+    if (storeFingerprint) {
+      await saveFingerprint(screening.fingerprint, requestId);
+    }
+  } catch (error) {
+    console.error(`[${requestId}] Duplicate detection failed for listing ${updatedListing.listingId}:`, error);
+  }
+}
+
 /**
  * Creates a new boat listing with validation and content moderation
  * 
@@ -792,6 +899,16 @@ async function createListing(event: APIGatewayProxyEvent, requestId: string): Pr
         }
       }
 
+      // Enforce the tier's listing and per-listing photo limits
+      const listingUsage = await checkUsage(userId, 'active_listings');
+      if (!listingUsage.allowed) {
+        return ResponseHandler.error(listingUsage.message!, 'USAGE_LIMIT_EXCEEDED', 403);
+      }
+      const photoLimitError = await checkListingPhotoLimit(userId, body.images?.length || 0);
+      if (photoLimitError) {
+        return ResponseHandler.error(photoLimitError, 'USAGE_LIMIT_EXCEEDED', 403);
+      }
+
       const listingId = generateId();
       const slug = await generateUniqueSlug(body.title!, listingId);
       const totalHorsepower = calculateTotalHorsepower(engines);
@@ -808,12 +925,13 @@ async function createListing(event: APIGatewayProxyEvent, requestId: string): Pr
           city: sanitizeString(body.location!.city),
           state: body.location!.state,
           zipCode: body.location!.zipCode ? sanitizeString(body.location!.zipCode) : undefined,
-          coordinates: body.location!.coordinates,
+          coordinates: geocodeLocation(body.location) || undefined,
         },
         boatDetails: {
           type: body.boatDetails!.type,
           manufacturer: body.boatDetails!.manufacturer ? sanitizeString(body.boatDetails!.manufacturer) : undefined,
           model: body.boatDetails!.model ? sanitizeString(body.boatDetails!.model) : undefined,
+          hin: body.boatDetails!.hin ? sanitizeString(body.boatDetails!.hin) : undefined,
           year: body.boatDetails!.year,
           length: body.boatDetails!.length,
           beam: body.boatDetails!.beam,
@@ -849,7 +967,8 @@ async function createListing(event: APIGatewayProxyEvent, requestId: string): Pr
       };
 
       // Run automated content filter (non-blocking - only flags, doesn't reject)
-      const filterResult = filterContent(enhancedListing.title, enhancedListing.description);
+      const contentFilter = await getContentFilter();
+      const filterResult = filterContent(enhancedListing.title, enhancedListing.description, contentFilter);
       
       // If content violations found, add flags for moderator review
       const flags: any[] = [];
@@ -866,7 +985,8 @@ async function createListing(event: APIGatewayProxyEvent, requestId: string): Pr
           reportedAt: new Date().toISOString(),
           severity: filterResult.severity,
           status: 'pending' as const,
-          details: getViolationSummary(filterResult.violations)
+          details: getViolationSummary(filterResult.violations),
+          metadata: { source: 'content_filter', ruleVersion: contentFilter.version }
         };
         
         flags.push(flag);
@@ -878,6 +998,19 @@ async function createListing(event: APIGatewayProxyEvent, requestId: string): Pr
         }
       }
 
+      // Look for near-duplicates of other sellers' listings (non-blocking - only flags)
+      let fingerprint: ListingFingerprint | undefined;
+      try {
+        const screening = await screenListingForDuplicates(enhancedListing as any);
+        fingerprint = screening.fingerprint;
+        if (screening.flag) {
+          console.log(`[${requestId}] Duplicate detection matched ${screening.matches.length} listing(s) for listing ${listingId}`);
+          flags.push(screening.flag);
+        }
+      } catch (error) {
+        console.error(`[${requestId}] Duplicate detection failed for listing ${listingId}:`, error);
+      }
+
       // Add flags to listing if any (but still save the listing)
       if (flags.length > 0) {
         (enhancedListing as any).flags = flags;
@@ -885,6 +1018,7 @@ async function createListing(event: APIGatewayProxyEvent, requestId: string): Pr
 
       // Create listing in database (always save, regardless of content filter results)
       await db.createListing(enhancedListing as any);
+      await indexListing(enhancedListing as any);
 
       // Create engines in separate table if any
       if (engines.length > 0) {
@@ -895,8 +1029,12 @@ async function createListing(event: APIGatewayProxyEvent, requestId: string): Pr
         await db.batchCreateEngines(enginesWithListingId);
       }
 
-      // Create moderation queue entry
-      await db.createModerationQueue({
+      if (fingerprint) {
+        await saveFingerprint(fingerprint, requestId);
+      }
+
+      // Queue the listing for review; routing assigns a moderator and sets its due date
+      await enqueueModerationItem({
         queueId: generateId(),
         listingId,
         submittedBy: userId,
@@ -907,6 +1045,13 @@ async function createListing(event: APIGatewayProxyEvent, requestId: string): Pr
         escalated: false,
       });
 
+      // Metering is bookkeeping; a failure must not fail the listing
+      try {
+        await syncActiveListings(userId);
+      } catch (error) {
+        console.error(`[${requestId}] Error recording listing usage for ${userId}:`, error);
+      }
+
       return ResponseHandler.success(
         {
           listingId: enhancedListing.listingId,
@@ -946,6 +1091,13 @@ async function updateListing(listingId: string, event: APIGatewayProxyEvent, req
         return ResponseHandler.error('Year must be between 1900 and current year + 1', 'INVALID_YEAR', 400);
       }
 
+      if (body.images) {
+        const photoLimitError = await checkListingPhotoLimit(userId, body.images.length);
+        if (photoLimitError) {
+          return ResponseHandler.error(photoLimitError, 'USAGE_LIMIT_EXCEEDED', 403);
+        }
+      }
+
       // Sanitize string fields
       const updates: Partial<Listing> = {
         ...body,
@@ -956,6 +1108,19 @@ async function updateListing(listingId: string, event: APIGatewayProxyEvent, req
       if (updates.description) updates.description = sanitizeString(updates.description);
       if (updates.features) updates.features = updates.features.map(f => sanitizeString(f));
 
+      // Re-geocode when the address changes so radius searches use the new location
+      if (updates.location) {
+        const previous = existingListing.location;
+        const addressChanged = updates.location.zipCode !== previous?.zipCode ||
+          updates.location.city !== previous?.city ||
+          updates.location.state !== previous?.state;
+        const coordinatesUnchanged = JSON.stringify(updates.location.coordinates) === JSON.stringify(previous?.coordinates);
+        const coordinates = geocodeLocation(addressChanged && coordinatesUnchanged
+          ? { ...updates.location, coordinates: undefined }
+          : updates.location);
+        updates.location = { ...updates.location, coordinates: coordinates || undefined };
+      }
+
       // Update slug if title changed
       let newSlug: string | undefined;
       if (updates.title && updates.title !== existingListing.title) {
@@ -969,22 +1134,11 @@ async function updateListing(listingId: string, event: APIGatewayProxyEvent, req
       const listingWithWorkflow = existingListing as any;
       const currentTimestamp = Date.now();
 
-      // CASE 1: Listing is ACTIVE (approved) - Create/update pendingUpdate for moderation
-      if (existingListing.status === 'active' || existingListing.status === 'approved') {
+      // CASE 1: Listing is ACTIVE (approved or under contract) - Create/update pendingUpdate for moderation
+      if (existingListing.status === 'active' || existingListing.status === 'approved' ||
+          existingListing.status === 'under_contract') {
         console.log(`[PENDING UPDATE] Listing ${listingId} is active - changes will go through moderation`);
         
-        // Track price changes in priceHistory
-        if (updates.price && updates.price !== existingListing.price) {
-          const existingPriceHistory = listingWithWorkflow.priceHistory || [];
-          const newPriceEntry = {
-            price: updates.price,
-            changedAt: currentTimestamp,
-            changedBy: userId,
-            reason: 'owner_update'
-          };
-          (updates as any).priceHistory = [...existingPriceHistory, newPriceEntry];
-        }
-        
         // Build change history for tracking all modifications
         const changeHistory: Array<{ field: string; oldValue: any; newValue: any; timestamp: number }> = [];
         Object.keys(updates).forEach(key => {
@@ -998,21 +1152,30 @@ async function updateListing(listingId: string, event: APIGatewayProxyEvent, req
           }
         });
         
+        // Low-risk edits go live straight away, the rest wait for review
+        const autoApprovedFields = getAutoApprovedFields(existingListing, updates, await getAutoApprovalRules());
+        const autoApproved = pickFields(updates, autoApprovedFields);
+
         // Create or update pendingUpdate object
         const existingPendingUpdate = listingWithWorkflow.pendingUpdate;
         const accumulatedChanges = existingPendingUpdate?.changes || {};
         const existingChangeHistory = existingPendingUpdate?.changeHistory || [];
+        const pendingChanges = omitFields({
+          ...accumulatedChanges,
+          ...updates // Accumulate changes - latest values override previous
+        }, autoApprovedFields);
+        const pendingFields = diffListingFields(existingListing, pendingChanges);
         
-        (updates as any).pendingUpdate = {
+        (updates as any).pendingUpdate = pendingFields.length === 0 ? null : {
           status: 'pending_review',
           submittedAt: existingPendingUpdate?.submittedAt || currentTimestamp,
           submittedBy: userId,
           lastUpdatedAt: currentTimestamp,
-          changes: {
-            ...accumulatedChanges,
-            ...updates // Accumulate changes - latest values override previous
-          },
-          changeHistory: [...existingChangeHistory, ...changeHistory],
+          changes: pendingChanges,
+          changeHistory: [
+            ...existingChangeHistory,
+            ...changeHistory.filter(change => !autoApprovedFields.includes(change.field))
+          ],
           moderationWorkflow: {
             status: 'pending_review',
             submissionType: 'update',
@@ -1021,27 +1184,59 @@ async function updateListing(listingId: string, event: APIGatewayProxyEvent, req
         };
         
         // Don't apply updates directly - they stay in pendingUpdate
-        // Only update timestamp and pendingUpdate object
+        // Only update timestamp, auto-approved fields and pendingUpdate object
         const pendingUpdateData: any = {
+          ...autoApproved,
           updatedAt: currentTimestamp,
           pendingUpdate: (updates as any).pendingUpdate
         };
         
-        if ((updates as any).priceHistory) {
-          pendingUpdateData.priceHistory = (updates as any).priceHistory;
+        // A price is recorded in the history only once it goes live
+        if (autoApprovedFields.includes('price')) {
+          pendingUpdateData.priceHistory = appendPriceHistory(existingListing, updates.price!, userId, currentTimestamp);
+        }
+
+        if (autoApprovedFields.length > 0) {
+          pendingUpdateData.moderationHistory = [
+            ...(listingWithWorkflow.moderationHistory || []),
+            {
+              action: 'approve_update',
+              reviewedBy: 'system',
+              reviewedAt: currentTimestamp,
+              status: 'approved',
+              publicNotes: `Approved automatically: ${autoApprovedFields.map(formatFieldName).join(', ')}`,
+              approvedFields: autoApprovedFields
+            }
+          ];
         }
         
         await db.updateListing(listingId, pendingUpdateData);
+        await reindexListing(listingId);
+        // Pending changes are screened now but only fingerprinted once approved
+        const liveListing = { ...existingListing, ...autoApproved } as any;
+        await screenUpdatedListing(existingListing as any, liveListing, requestId, true);
+        await screenUpdatedListing(liveListing, { ...liveListing, ...pendingChanges }, requestId);
+        if (autoApprovedFields.length > 0) {
+          await notifyWatchersOfChange(existingListing as any, liveListing);
+        }
         
-        console.log(`✅ Listing ${listingId} - changes accumulated in pendingUpdate (${changeHistory.length} fields changed)`);
+        console.log(`✅ Listing ${listingId} - ${autoApprovedFields.length} field(s) auto-approved, ${pendingFields.length} pending review`);
         
         // TODO: Send notification to moderators about pending update
         // This will be implemented when moderator notification system is ready
         
+        if (pendingFields.length === 0) {
+          return ResponseHandler.success({
+            message: 'Listing updated successfully',
+            pendingReview: false,
+            changesCount: 0
+          });
+        }
+
         return ResponseHandler.success({ 
           message: 'Changes submitted for review. Your listing will remain visible with current details until approved.',
           pendingReview: true,
-          changesCount: changeHistory.length
+          changesCount: pendingFields.length
         });
       }
 
@@ -1078,6 +1273,9 @@ async function updateListing(listingId: string, event: APIGatewayProxyEvent, req
 
       // CASE 3: Other statuses - apply updates directly
       await db.updateListing(listingId, updates);
+      await reindexListing(listingId);
+      await screenUpdatedListing(existingListing as any, { ...existingListing, ...updates } as any, requestId, true);
+      await notifyWatchersOfChange(existingListing as any, { ...existingListing, ...updates } as any);
 
       return ResponseHandler.success({ 
         message: 'Listing updated successfully',
@@ -1106,6 +1304,14 @@ async function deleteListing(listingId: string, event: APIGatewayProxyEvent, req
       }
 
       await db.deleteListing(listingId);
+      await removeListingFromIndex(listingId);
+      await notifyWatchersOfChange(existingListing as any, null);
+
+      try {
+        await deleteListingFingerprint(listingId);
+      } catch (error) {
+        console.error(`[${requestId}] Error removing fingerprint of listing ${listingId}:`, error);
+      }
 
       return ResponseHandler.success({ message: 'Listing deleted successfully' });
     },
@@ -1184,6 +1390,7 @@ async function manageListingEngines(listingId: string, event: APIGatewayProxyEve
 
       // Update listing with engine information
       await db.updateListingWithEngines(listingId, engines);
+      await reindexListing(listingId);
 
       return ResponseHandler.success({
         message: 'Engines updated successfully',
@@ -1244,6 +1451,7 @@ async function deleteListingEngine(listingId: string, engineId: string, event: A
       // Update listing with remaining engines
       const remainingEngines = engines.filter(e => e.engineId !== engineId);
       await db.updateListingWithEngines(listingId, remainingEngines);
+      await reindexListing(listingId);
 
       return ResponseHandler.success({
         message: 'Engine deleted successfully',
@@ -1369,11 +1577,13 @@ async function processModerationDecision(listingId: string, event: APIGatewayPro
         moderationHistory: newHistory,
         updatedAt: Date.now(),
       } as any);
+      await reindexListing(listingId);
+      await notifyWatchersOfChange(existingListing as any, { ...existingListing, status: newStatus } as any);
 
-      // Update moderation queue status
-      await db.updateModerationStatus(listingId, body.action === 'approve' ? 'approved' : 
-                                     body.action === 'reject' ? 'rejected' : 'changes_requested', 
-                                     moderationNotes);
+      // Close the listing's open moderation queue item
+      await closeModerationItems(listingId, body.action === 'approve' ? 'approved' : 
+                                 body.action === 'reject' ? 'rejected' : 'changes_requested', 
+                                 moderationNotes);
 
       // Send notification to listing owner (this would integrate with notification service)
       await sendModerationNotification(existingListing.ownerId, listingId, body.action, body.publicNotes || body.reason);
@@ -1498,9 +1708,10 @@ async function resubmitForModeration(listingId: string, event: APIGatewayProxyEv
         },
         updatedAt: Date.now(),
       } as any);
+      await reindexListing(listingId);
 
-      // Create new moderation queue entry
-      await db.createModerationQueue({
+      // Queue the resubmission for review
+      await enqueueModerationItem({
         queueId: generateId(),
         listingId,
         submittedBy: userId,
@@ -1520,3 +1731,55 @@ async function resubmitForModeration(listingId: string, event: APIGatewayProxyEv
     { operation: 'Resubmit For Moderation', requestId }
   );
 }
+
+/**
+ * Reports a listing to moderators
+ *
+ * Stores the report as a flag on the listing and, once enough reports are
+ * open, puts the listing in front of moderators (see listing-reports.ts).
+ *
+ * @param listingId - Unique identifier for the listing
+ * @param event - API Gateway event containing the report type and reason
+ * @param requestId - Request tracking identifier for logging
+ * @returns Promise<APIGatewayProxyResult> - The stored report or error
+ */
+async function reportListing(listingId: string, event: APIGatewayProxyEvent, requestId: string): Promise<APIGatewayProxyResult> {
+  let reporterId: string;
+  try {
+    reporterId = getUserId(event);
+  } catch {
+    return createErrorResponse(401, 'UNAUTHORIZED', 'Sign in to report a listing', requestId);
+  }
+
+  try {
+    const body = parseBody<{ type: any; reason: string }>(event);
+    const report = await submitListingReport({
+      listingId,
+      reporterId,
+      ipAddress: event.requestContext.identity?.sourceIp || 'unknown',
+      type: body.type,
+      reason: body.reason,
+    });
+
+    return createResponse(201, {
+      report: { id: report.id, type: report.type, status: report.status, reportedAt: report.reportedAt },
+      message: 'Thanks, our moderators will review your report',
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Report listing not found') {
+      return createErrorResponse(404, 'NOT_FOUND', 'Listing not found', requestId);
+    }
+    if (message.startsWith('Report limit')) {
+      return createErrorResponse(429, 'RATE_LIMIT_EXCEEDED', message, requestId);
+    }
+    if (message === 'Report already submitted for this listing') {
+      return createErrorResponse(409, 'ALREADY_REPORTED', message, requestId);
+    }
+    if (message.startsWith('Report') || message.includes('Invalid JSON')) {
+      return createErrorResponse(400, 'VALIDATION_ERROR', message, requestId);
+    }
+    console.error(`[${requestId}] Error reporting listing ${listingId}:`, error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Failed to report listing', requestId);
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * @fileoverview Unit tests for listing reports
+ *
+ * Tests report validation, rate limiting, ownership and duplicate checks,
+ * queue re-prioritization once reports pass the review threshold, and
+ * moderator review with reporter notifications.
+ */
+
+import { ContentFlag, ModerationWorkflow } from '@harborlist/shared-types';
+import {
+  getReportPriority,
+  reviewListingReport,
+  submitListingReport,
+  validateReportRequest,
+} from './listing-reports';
+import { consumeReportAllowance } from './report-limits';
+import { addModerationItemFlag, enqueueModerationItem, getOpenModerationItem } from './moderation-routing';
+import { db } from '../shared/database';
+import { createNotification } from '../notification-service';
+
+jest.mock('../shared/database', () => ({
+  db: {
+    getListing: jest.fn(),
+    addListingFlag: jest.fn(),
+    updateListing: jest.fn(),
+    updateModerationStatus: jest.fn(),
+  },
+}));
+
+jest.mock('./report-limits', () => ({
+  consumeReportAllowance: jest.fn(),
+}));
+
+jest.mock('./moderation-routing', () => ({
+  enqueueModerationItem: jest.fn(),
+  addModerationItemFlag: jest.fn(),
+  getOpenModerationItem: jest.fn(),
+}));
+
+jest.mock('../notification-service', () => ({
+  createNotification: jest.fn(),
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+const mockConsumeReportAllowance = consumeReportAllowance as jest.MockedFunction<typeof consumeReportAllowance>;
+const mockCreateNotification = createNotification as jest.MockedFunction<typeof createNotification>;
+const mockEnqueueModerationItem = enqueueModerationItem as jest.MockedFunction<typeof enqueueModerationItem>;
+const mockAddModerationItemFlag = addModerationItemFlag as jest.MockedFunction<typeof addModerationItemFlag>;
+const mockGetOpenModerationItem = getOpenModerationItem as jest.MockedFunction<typeof getOpenModerationItem>;
+
+const report = (overrides: Partial<ContentFlag> = {}): ContentFlag => ({
+  id: 'report-1',
+  type: 'misleading',
+  reason: 'Engine hours are wrong',
+  reportedBy: 'buyer-1',
+  reportedAt: '2024-04-10T12:00:00.000Z',
+  severity: 'medium',
+  status: 'pending',
+  metadata: { source: 'user_report' },
+  ...overrides,
+});
+
+const listing = (overrides: Record<string, any> = {}) => ({
+  listingId: 'listing-1',
+  ownerId: 'seller-1',
+  title: '2020 Boston Whaler',
+  status: 'active',
+  moderationStatus: 'approved',
+  flags: [] as ContentFlag[],
+  ...overrides,
+});
+
+const queueItem = (overrides: Partial<ModerationWorkflow> = {}): ModerationWorkflow => ({
+  queueId: 'queue-1',
+  listingId: 'listing-1',
+  submittedBy: 'seller-1',
+  priority: 'medium',
+  flags: [],
+  status: 'pending',
+  submittedAt: Date.now(),
+  escalated: false,
+  ...overrides,
+});
+
+const submission = {
+  listingId: 'listing-1',
+  reporterId: 'buyer-2',
+  ipAddress: '203.0.113.7',
+  type: 'fraud' as const,
+  reason: 'Seller asked for a wire transfer before viewing',
+};
+
+describe('Listing reports', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConsumeReportAllowance.mockResolvedValue(true);
+    mockDb.getListing.mockResolvedValue(listing() as any);
+    mockGetOpenModerationItem.mockResolvedValue(undefined);
+  });
+
+  describe('validateReportRequest', () => {
+    it('requires a supported type and a reason', () => {
+      expect(validateReportRequest({ type: 'bogus' as any, reason: 'x' })).toBe('Report type is not supported');
+      expect(validateReportRequest({ type: 'spam', reason: '  ' })).toBe('Report reason is required');
+      expect(validateReportRequest({ type: 'spam', reason: 'x'.repeat(1001) })).toMatch(/at most 1000/);
+      expect(validateReportRequest({ type: 'spam', reason: 'Ad for a marina' })).toBeNull();
+    });
+  });
+
+  describe('getReportPriority', () => {
+    it('weighs open reports by severity', () => {
+      expect(getReportPriority([report({ severity: 'low' })])).toBeNull();
+      expect(getReportPriority([report({ severity: 'high' })])).toBe('high');
+      expect(getReportPriority([report({ severity: 'high' }), report({ severity: 'high' })])).toBe('urgent');
+    });
+  });
+
+  describe('submitListingReport', () => {
+    it('rejects reporters over their rate limit', async () => {
+      mockConsumeReportAllowance.mockResolvedValueOnce(false);
+
+      await expect(submitListingReport(submission)).rejects.toThrow('Report limit reached');
+      expect(mockDb.addListingFlag).not.toHaveBeenCalled();
+    });
+
+    it('rate limits by IP address as well as reporter', async () => {
+      mockConsumeReportAllowance.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      await expect(submitListingReport(submission)).rejects.toThrow('Report limit reached');
+      expect(mockConsumeReportAllowance).toHaveBeenCalledWith('ip#203.0.113.7', 20, expect.any(Number));
+    });
+
+    it('does not let sellers report their own listings', async () => {
+      await expect(submitListingReport({ ...submission, reporterId: 'seller-1' }))
+        .rejects.toThrow('Report cannot be filed on your own listing');
+    });
+
+    it('allows one open report per reporter and listing', async () => {
+      mockDb.getListing.mockResolvedValue(listing({ flags: [report({ reportedBy: 'buyer-2' })] }) as any);
+
+      await expect(submitListingReport(submission)).rejects.toThrow('Report already submitted for this listing');
+    });
+
+    it('stores low-weight reports without opening a review', async () => {
+      const stored = await submitListingReport({ ...submission, type: 'spam' });
+
+      expect(stored).toMatchObject({ type: 'spam', severity: 'low', status: 'pending', reportedBy: 'buyer-2' });
+      expect(mockDb.addListingFlag).toHaveBeenCalledWith('listing-1', stored, {});
+      expect(mockEnqueueModerationItem).not.toHaveBeenCalled();
+    });
+
+    it('sends the listing back to review once reports pass the threshold', async () => {
+      const stored = await submitListingReport(submission);
+
+      expect(mockDb.addListingFlag).toHaveBeenCalledWith('listing-1', stored, { moderationStatus: 'flagged' });
+      expect(mockEnqueueModerationItem).toHaveBeenCalledWith(expect.objectContaining({
+        listingId: 'listing-1',
+        priority: 'high',
+        flags: [stored],
+        status: 'pending',
+      }));
+    });
+
+    it('raises the priority of an open queue item', async () => {
+      mockDb.getListing.mockResolvedValue(listing({ flags: [report({ severity: 'high', type: 'fraud' })] }) as any);
+      mockGetOpenModerationItem.mockResolvedValue(queueItem({ priority: 'high' }));
+
+      const stored = await submitListingReport(submission);
+
+      expect(mockAddModerationItemFlag).toHaveBeenCalledWith(expect.objectContaining({ queueId: 'queue-1' }), stored, 'urgent');
+      expect(mockEnqueueModerationItem).not.toHaveBeenCalled();
+    });
+
+    it('never lowers the priority of an open queue item', async () => {
+      mockGetOpenModerationItem.mockResolvedValue(queueItem({ priority: 'urgent' }));
+
+      const stored = await submitListingReport({ ...submission, type: 'spam' });
+
+      expect(mockAddModerationItemFlag).toHaveBeenCalledWith(expect.objectContaining({ queueId: 'queue-1' }), stored, 'urgent');
+    });
+  });
+
+  describe('reviewListingReport', () => {
+    beforeEach(() => {
+      mockDb.getListing.mockResolvedValue(listing({
+        moderationStatus: 'flagged',
+        flags: [report({ id: 'report-1', severity: 'high', type: 'fraud' })],
+      }) as any);
+    });
+
+    it('resolves the report and notifies the reporter', async () => {
+      const reviewed = await reviewListingReport('listing-1', 'report-1', 'mod-1', 'resolved', 'Listing removed');
+
+      expect(reviewed).toMatchObject({ status: 'resolved', reviewedBy: 'mod-1', resolution: 'Listing removed' });
+      expect(mockDb.updateListing).toHaveBeenCalledWith('listing-1', expect.objectContaining({
+        flags: [reviewed],
+        moderationStatus: 'approved',
+      }));
+      expect(mockCreateNotification).toHaveBeenCalledWith(
+        'buyer-1',
+        'listing_report',
+        'Report Resolved',
+        expect.stringContaining('Listing removed'),
+        expect.objectContaining({ reportId: 'report-1', outcome: 'resolved' }),
+        '/listing/listing-1'
+      );
+    });
+
+    it('closes the review once no open reports remain', async () => {
+      mockGetOpenModerationItem.mockResolvedValue(queueItem());
+
+      await reviewListingReport('listing-1', 'report-1', 'mod-1', 'dismissed');
+
+      expect(mockDb.updateModerationStatus).toHaveBeenCalledWith('queue-1', 'approved');
+    });
+
+    it('keeps the review open while the listing itself awaits review', async () => {
+      mockDb.getListing.mockResolvedValue(listing({
+        status: 'pending_review',
+        flags: [report()],
+      }) as any);
+      mockGetOpenModerationItem.mockResolvedValue(queueItem());
+
+      await reviewListingReport('listing-1', 'report-1', 'mod-1', 'dismissed');
+
+      expect(mockDb.updateModerationStatus).not.toHaveBeenCalled();
+    });
+
+    it('rejects reports that were already reviewed', async () => {
+      mockDb.getListing.mockResolvedValue(listing({ flags: [report({ status: 'dismissed' })] }) as any);
+
+      await expect(reviewListingReport('listing-1', 'report-1', 'mod-1', 'resolved'))
+        .rejects.toThrow('Report has already been reviewed');
+    });
+
+    it('only reviews user reports', async () => {
+      mockDb.getListing.mockResolvedValue(listing({
+        flags: [report({ reportedBy: 'system', metadata: { source: 'content_filter' } })],
+      }) as any);
+
+      await expect(reviewListingReport('listing-1', 'report-1', 'mod-1', 'resolved'))
+        .rejects.toThrow('Report not found');
+    });
+
+    it('still succeeds when the reporter cannot be notified', async () => {
+      mockCreateNotification.mockRejectedValueOnce(new Error('Notifications unavailable'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(reviewListingReport('listing-1', 'report-1', 'mod-1', 'dismissed'))
+        .resolves.toMatchObject({ status: 'dismissed' });
+    });
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * @fileoverview Listing reports filed by users.
+ *
+ * A report is stored on the listing as a ContentFlag alongside the flags the
+ * content filter raises (those are reported by `system`). Each report
+ * weighs in by severity, and once the open reports on a listing weigh
+ * enough the listing is flagged for review: its open moderation queue item
+ * is re-prioritized, or a new one is opened for a listing that had already
+ * been reviewed.
+ *
+ * Business Rules:
+ * - Reporters must be signed in, cannot report their own listings and can
+ *   only have one open report per listing
+ * - Reports are rate limited per reporter and per IP address
+ * - Open reports weighing REPORT_REVIEW_THRESHOLD send the listing to
+ *   review with high priority; REPORT_URGENT_THRESHOLD makes it urgent
+ * - Queue priority is only ever raised by reports, never lowered
+ * - Moderators resolve (action taken) or dismiss each report, and the
+ *   reporter is notified of the outcome
+ * - Once no open reports remain the listing leaves the report queue
+ *
+ * Validation errors are thrown as `Error`s whose message starts with "Report".
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import {
+  ContentFlag,
+  ListingReportOutcome,
+  ListingReportRequest,
+  ListingReportType,
+  ModerationWorkflow,
+} from '@harborlist/shared-types';
+import { db } from '../shared/database';
+import { generateId, sanitizeString } from '../shared/utils';
+import { createNotification } from '../notification-service';
+import { consumeReportAllowance } from './report-limits';
+import { addModerationItemFlag, enqueueModerationItem, getOpenModerationItem } from './moderation-routing';
+
+/**
+ * Severity of each report type
+ */
+export const REPORT_SEVERITY: Record<ListingReportType, ContentFlag['severity']> = {
+  fraud: 'high',
+  copyright: 'medium',
+  misleading: 'medium',
+  inappropriate: 'medium',
+  duplicate: 'low',
+  spam: 'low',
+  other: 'low',
+};
+
+/**
+ * Weight an open report adds towards review, by severity
+ */
+const SEVERITY_WEIGHTS: Record<ContentFlag['severity'], number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 6,
+};
+
+/**
+ * Open report weight that sends a listing to review, and that makes it urgent
+ */
+export const REPORT_REVIEW_THRESHOLD = 3;
+export const REPORT_URGENT_THRESHOLD = 6;
+
+/**
+ * Reports allowed per reporter and per IP address in each window
+ */
+export const REPORT_RATE_LIMITS = {
+  perUser: 5,
+  perIp: 20,
+  windowMs: 60 * 60 * 1000,
+};
+
+const MAX_REASON_LENGTH = 1000;
+
+const PRIORITY_ORDER: ModerationWorkflow['priority'][] = ['low', 'medium', 'high', 'urgent'];
+
+/**
+ * A report as submitted through the API
+ */
+export interface SubmitReportRequest extends ListingReportRequest {
+  listingId: string;
+  reporterId: string;
+  ipAddress: string;
+}
+
+/**
+ * Whether a flag was filed by a user rather than the content filter
+ */
+export function isUserReport(flag: ContentFlag): boolean {
+  return flag.reportedBy !== 'system' && flag.metadata?.source === 'user_report';
+}
+
+/**
+ * User reports still awaiting a moderator
+ */
+export function getOpenReports(flags: ContentFlag[] = []): ContentFlag[] {
+  return flags.filter(flag => isUserReport(flag) && flag.status === 'pending');
+}
+
+/**
+ * Combined weight of open reports
+ */
+export function getReportWeight(reports: ContentFlag[]): number {
+  return reports.reduce((total, report) => total + (SEVERITY_WEIGHTS[report.severity] || 1), 0);
+}
+
+/**
+ * Queue priority warranted by a set of open reports
+ *
+ * @param reports - Open reports
+ * @returns Priority, or null while the reports are below the review threshold
+ */
+export function getReportPriority(reports: ContentFlag[]): ModerationWorkflow['priority'] | null {
+  const weight = getReportWeight(reports);
+  if (weight >= REPORT_URGENT_THRESHOLD) return 'urgent';
+  if (weight >= REPORT_REVIEW_THRESHOLD) return 'high';
+  return null;
+}
+
+/**
+ * Validates a report request
+ *
+ * @param request - Report type and reason
+ * @returns string | null - Error message or null if valid
+ */
+export function validateReportRequest(request: Partial<ListingReportRequest>): string | null {
+  if (!request.type || !(request.type in REPORT_SEVERITY)) {
+    return 'Report type is not supported';
+  }
+  if (typeof request.reason !== 'string' || !request.reason.trim()) {
+    return 'Report reason is required';
+  }
+  if (request.reason.length > MAX_REASON_LENGTH) {
+    return `Report reason must be at most ${MAX_REASON_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Files a report against a listing
+ *
+ * @param request - Listing, reporter, reporter's IP address, type and reason
+ * @returns Promise<ContentFlag> - The stored report
+ * @throws Error - When the request is invalid, rate limited or not allowed
+ */
+export async function submitListingReport(request: SubmitReportRequest): Promise<ContentFlag> {
+  const validationError = validateReportRequest(request);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const { perUser, perIp, windowMs } = REPORT_RATE_LIMITS;
+  const allowed = await consumeReportAllowance(`user#${request.reporterId}`, perUser, windowMs)
+    && await consumeReportAllowance(`ip#${request.ipAddress}`, perIp, windowMs);
+  if (!allowed) {
+    throw new Error('Report limit reached, please try again later');
+  }
+
+  const listing = await db.getListing(request.listingId);
+  if (!listing) {
+    throw new Error('Report listing not found');
+  }
+  if (listing.ownerId === request.reporterId) {
+    throw new Error('Report cannot be filed on your own listing');
+  }
+
+  const flags: ContentFlag[] = (listing as any).flags || [];
+  if (getOpenReports(flags).some(flag => flag.reportedBy === request.reporterId)) {
+    throw new Error('Report already submitted for this listing');
+  }
+
+  const report: ContentFlag = {
+    id: generateId(),
+    type: request.type,
+    reason: sanitizeString(request.reason),
+    reportedBy: request.reporterId,
+    reportedAt: new Date().toISOString(),
+    severity: REPORT_SEVERITY[request.type],
+    status: 'pending',
+    metadata: { source: 'user_report' },
+  };
+
+  const openReports = [...getOpenReports(flags), report];
+  const priority = getReportPriority(openReports);
+  await db.addListingFlag(request.listingId, report, priority ? { moderationStatus: 'flagged' } : {});
+
+  const openItem = await getOpenModerationItem(request.listingId);
+  if (openItem) {
+    await addModerationItemFlag(openItem, report, raisePriority(openItem.priority, priority));
+  } else if (priority) {
+    // Re-open review of a listing that had already been moderated
+    await enqueueModerationItem({
+      queueId: generateId(),
+      listingId: request.listingId,
+      submittedBy: listing.ownerId,
+      priority,
+      flags: openReports,
+      status: 'pending',
+      submittedAt: Date.now(),
+      escalated: false,
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Resolves or dismisses a report and tells the reporter
+ *
+ * @param listingId - Reported listing
+ * @param reportId - Report (flag) ID
+ * @param moderatorId - Moderator reviewing the report
+ * @param outcome - resolved (action was taken) or dismissed (no violation)
+ * @param resolution - Moderator's note, shared with the reporter
+ * @returns Promise<ContentFlag> - The reviewed report
+ * @throws Error - When the report does not exist or was already reviewed
+ */
+export async function reviewListingReport(
+  listingId: string,
+  reportId: string,
+  moderatorId: string,
+  outcome: ListingReportOutcome,
+  resolution?: string
+): Promise<ContentFlag> {
+  if (outcome !== 'resolved' && outcome !== 'dismissed') {
+    throw new Error('Report outcome must be resolved or dismissed');
+  }
+
+  const listing = await db.getListing(listingId);
+  const flags: ContentFlag[] = (listing as any)?.flags || [];
+  const report = flags.find(flag => flag.id === reportId && isUserReport(flag));
+  if (!listing || !report) {
+    throw new Error('Report not found');
+  }
+  if (report.status !== 'pending') {
+    throw new Error('Report has already been reviewed');
+  }
+
+  const reviewed: ContentFlag = {
+    ...report,
+    status: outcome,
+    reviewedBy: moderatorId,
+    reviewedAt: new Date().toISOString(),
+    resolution: resolution ? sanitizeString(resolution) : undefined,
+  };
+  const updatedFlags = flags.map(flag => flag.id === reportId ? reviewed : flag);
+  const stillFlagged = getReportPriority(getOpenReports(updatedFlags)) !== null;
+
+  await db.updateListing(listingId, {
+    flags: updatedFlags,
+    ...(listing.moderationStatus === 'flagged' && !stillFlagged && {
+      moderationStatus: listing.status === 'rejected' ? 'rejected' : 'approved',
+    }),
+    updatedAt: Date.now(),
+  } as any);
+
+  // Close the review the reports opened once none are left, unless the
+  // listing itself is waiting for review
+  const awaitingReview = listing.status === 'pending_review'
+    || listing.status === 'under_review'
+    || (listing as any).pendingUpdate?.status === 'pending_review';
+  if (getOpenReports(updatedFlags).length === 0 && !awaitingReview) {
+    const openItem = await getOpenModerationItem(listingId);
+    if (openItem) {
+      await db.updateModerationStatus(openItem.queueId, 'approved');
+    }
+  }
+
+  await notifyReporter(listing, reviewed);
+  return reviewed;
+}
+
+/**
+ * The higher of a queue item's priority and the priority reports warrant
+ */
+function raisePriority(
+  current: ModerationWorkflow['priority'],
+  warranted: ModerationWorkflow['priority'] | null
+): ModerationWorkflow['priority'] {
+  if (!warranted) return current;
+  return PRIORITY_ORDER.indexOf(warranted) > PRIORITY_ORDER.indexOf(current) ? warranted : current;
+}
+
+/**
+ * Tells a reporter how their report was handled
+ *
+ * Notification failures are logged, never surfaced: the review is already stored.
+ */
+async function notifyReporter(listing: { listingId: string; title: string }, report: ContentFlag): Promise<void> {
+  const message = report.status === 'resolved'
+    ? `Thanks for reporting "${listing.title}". We reviewed it and took action.`
+    : `Thanks for reporting "${listing.title}". We reviewed it and found it does not break our listing guidelines.`;
+
+  try {
+    await createNotification(
+      report.reportedBy,
+      'listing_report',
+      report.status === 'resolved' ? 'Report Resolved' : 'Report Reviewed',
+      report.resolution ? `${message} ${report.resolution}` : message,
+      { listingId: listing.listingId, reportId: report.id, outcome: report.status },
+      `/listing/${listing.listingId}`
+    );
+  } catch (error) {
+    console.error(`Failed to notify reporter ${report.reportedBy} about report ${report.id}:`, error);
+  }
+}
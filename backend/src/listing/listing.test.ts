@@ -13,6 +13,21 @@ import { APIGatewayProxyEvent } from 'aws-lambda';
 jest.mock('../shared/database');
 const mockDb = db as jest.Mocked<typeof db>;
 
+// Mock the search index maintenance
+jest.mock('../search/indexer', () => ({
+  indexListing: jest.fn(),
+  reindexListing: jest.fn(),
+  removeListingFromIndex: jest.fn(),
+  recordListingView: jest.fn(),
+}));
+
+// Mock usage metering; every user is within their plan
+jest.mock('../billing-service/metering/usage-meter', () => ({
+  checkUsage: jest.fn().mockResolvedValue({ allowed: true, meter: 'active_listings', used: 0, quota: 5, overage: 0 }),
+  checkListingPhotoLimit: jest.fn().mockResolvedValue(null),
+  syncActiveListings: jest.fn().mockResolvedValue(undefined),
+}));
+
 // Mock the utils
 jest.mock('../shared/utils', () => ({
   createResponse: jest.fn((statusCode, body) => ({
@@ -473,6 +488,8 @@ describe('Enhanced Listing Service', () => {
       const responseBody = JSON.parse(result.body);
       expect(responseBody.listing.slug).toBe('beautiful-sailboat-2023');
       expect(responseBody.listing.totalHorsepower).toBe(50);
+      expect(responseBody.listing.owner).toEqual({ id: 'owner-123', name: 'John Doe' });
+      expect(result.body).not.toContain('john@example.com');
       expect(mockDb.incrementViews).toHaveBeenCalledWith('listing-123');
     });
 
@@ -494,6 +511,32 @@ describe('Enhanced Listing Service', () => {
     });
   });
 
+  describe('Owner Information', () => {
+    test('should not expose owner email addresses in public listing results', async () => {
+      const event: Partial<APIGatewayProxyEvent> = {
+        httpMethod: 'GET',
+        path: '/listings',
+        requestContext: { requestId: 'test-request' } as any,
+      };
+
+      mockDb.getListings.mockResolvedValue({
+        listings: [{ listingId: 'listing-123', ownerId: 'owner-123', title: 'Test Boat', status: 'active' }],
+      } as any);
+      mockDb.getUser.mockResolvedValue({
+        id: 'owner-123',
+        name: 'John Doe',
+        email: 'john@example.com'
+      } as any);
+
+      const result = await handler(event as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      const responseBody = JSON.parse(result.body);
+      expect(responseBody.listings[0].owner).toEqual({ id: 'owner-123', name: 'John Doe' });
+      expect(result.body).not.toContain('john@example.com');
+    });
+  });
+
   describe('Engine Management', () => {
     test('should prevent deletion of the only engine', async () => {
       const event: Partial<APIGatewayProxyEvent> = {
@@ -0,0 +1,302 @@
+/**
+ * @fileoverview Unit tests for moderation queue routing
+ *
+ * Tests due dates by priority, auto-assignment by load, capacity and team
+ * role, rebalancing, SLA escalation and the workload summary.
+ */
+
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { ContentFlag, ModerationWorkflow, TeamId, TeamRole } from '@harborlist/shared-types';
+import {
+  DEFAULT_MODERATION_QUEUE,
+  MODERATION_SLA_JOB,
+  addModerationItemFlag,
+  calculateSlaCompliance,
+  checkModerationSla,
+  clearModerationQueueCache,
+  computeDueDate,
+  enqueueModerationItem,
+  getModerationWorkload,
+  pickModerator,
+  rebalanceModerationQueue,
+  updateModerationQueueConfig,
+} from './moderation-routing';
+import { db } from '../shared/database';
+import { scheduleJob } from '../jobs/scheduler';
+import { getTeamMembers } from '../admin-service/teams';
+
+jest.mock('../shared/database', () => ({
+  db: {
+    createModerationQueue: jest.fn(),
+    assignModerator: jest.fn(),
+    addModerationFlag: jest.fn(),
+    escalateModerationItem: jest.fn(),
+    getModerationItem: jest.fn(),
+    getModerationItemsByStatus: jest.fn(),
+    getModerationHistory: jest.fn(),
+    updateModerationStatus: jest.fn(),
+  },
+}));
+
+jest.mock('../jobs/scheduler', () => ({
+  scheduleJob: jest.fn(),
+}));
+
+jest.mock('../admin-service/teams', () => ({
+  getTeamMembers: jest.fn(),
+}));
+
+const mockCreateNotification = jest.fn();
+jest.mock('../notification-service', () => ({
+  createNotification: (...args: any[]) => mockCreateNotification(...args),
+}));
+
+const ddbMock = mockClient(DynamoDBDocumentClient);
+const mockDb = db as jest.Mocked<typeof db>;
+const mockScheduleJob = scheduleJob as jest.MockedFunction<typeof scheduleJob>;
+const mockGetTeamMembers = getTeamMembers as jest.MockedFunction<typeof getTeamMembers>;
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2024-05-01T12:00:00Z').getTime();
+
+const member = (userId: string, role: TeamRole = TeamRole.MEMBER) => ({
+  userId,
+  email: `${userId}@harborlist.com`,
+  name: userId,
+  role,
+  assignedAt: '2024-01-01T00:00:00Z',
+  assignedBy: 'admin',
+});
+
+const item = (overrides: Partial<ModerationWorkflow> = {}): ModerationWorkflow => ({
+  queueId: 'queue-1',
+  listingId: 'listing-1',
+  submittedBy: 'seller-1',
+  priority: 'medium',
+  flags: [],
+  status: 'pending',
+  submittedAt: NOW,
+  escalated: false,
+  ...overrides,
+});
+
+/**
+ * Serves queue items from the status index mock
+ */
+const withQueueItems = (items: ModerationWorkflow[]) => {
+  mockDb.getModerationItemsByStatus.mockImplementation(async status => items.filter(queued => queued.status === status));
+};
+
+describe('Moderation routing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    ddbMock.reset();
+    ddbMock.on(GetCommand).resolves({});
+    clearModerationQueueCache();
+    mockGetTeamMembers.mockResolvedValue([member('mod-a'), member('mod-b'), member('lead', TeamRole.MANAGER)]);
+    withQueueItems([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('computeDueDate', () => {
+    it('scales the SLA by priority', () => {
+      expect(computeDueDate(NOW, 'urgent', DEFAULT_MODERATION_QUEUE)).toBe(NOW + 6 * HOUR);
+      expect(computeDueDate(NOW, 'high', DEFAULT_MODERATION_QUEUE)).toBe(NOW + 12 * HOUR);
+      expect(computeDueDate(NOW, 'medium', DEFAULT_MODERATION_QUEUE)).toBe(NOW + 24 * HOUR);
+      expect(computeDueDate(NOW, 'low', { ...DEFAULT_MODERATION_QUEUE, slaHours: 8 })).toBe(NOW + 16 * HOUR);
+    });
+  });
+
+  describe('pickModerator', () => {
+    const loads = [
+      { moderatorId: 'mod-a', moderatorName: 'A', role: TeamRole.MEMBER, openItems: 4 },
+      { moderatorId: 'mod-b', moderatorName: 'B', role: TeamRole.MEMBER, openItems: 2 },
+      { moderatorId: 'lead', moderatorName: 'Lead', role: TeamRole.MANAGER, openItems: 3 },
+    ];
+
+    it('picks the least loaded moderator with capacity', () => {
+      expect(pickModerator({ priority: 'medium' }, loads, DEFAULT_MODERATION_QUEUE)?.moderatorId).toBe('mod-b');
+      expect(pickModerator({ priority: 'medium' }, loads, { ...DEFAULT_MODERATION_QUEUE, maxItemsPerModerator: 2 })).toBeNull();
+    });
+
+    it('routes urgent items to managers first', () => {
+      expect(pickModerator({ priority: 'urgent' }, loads, DEFAULT_MODERATION_QUEUE)?.moderatorId).toBe('lead');
+      expect(pickModerator({ priority: 'urgent' }, loads, { ...DEFAULT_MODERATION_QUEUE, maxItemsPerModerator: 3 })?.moderatorId).toBe('mod-b');
+    });
+
+    it('only routes to the queue\'s moderators when it lists them', () => {
+      const queue = { ...DEFAULT_MODERATION_QUEUE, filters: { assignedModerators: ['mod-a'] } };
+      expect(pickModerator({ priority: 'medium' }, loads, queue)?.moderatorId).toBe('mod-a');
+    });
+  });
+
+  describe('enqueueModerationItem', () => {
+    it('sets the due date, schedules the SLA check and assigns the least loaded moderator', async () => {
+      withQueueItems([
+        item({ queueId: 'q-a1', assignedTo: 'mod-a' }),
+        item({ queueId: 'q-l1', assignedTo: 'lead', status: 'in_review' }),
+      ]);
+
+      const queued = await enqueueModerationItem(item({ priority: 'high' }));
+
+      expect(mockDb.createModerationQueue).toHaveBeenCalledWith(expect.objectContaining({ queueId: 'queue-1', dueDate: NOW + 12 * HOUR }));
+      expect(mockScheduleJob).toHaveBeenCalledWith({
+        type: MODERATION_SLA_JOB,
+        jobId: `moderation-sla:queue-1:${NOW + 12 * HOUR}`,
+        runAt: NOW + 12 * HOUR,
+        payload: { queueId: 'queue-1' },
+      });
+      expect(mockDb.assignModerator).toHaveBeenCalledWith('queue-1', 'mod-b', { expectedAssignee: null, startReview: false });
+      expect(queued.assignedTo).toBe('mod-b');
+      expect(mockGetTeamMembers).toHaveBeenCalledWith(TeamId.CONTENT_MODERATION);
+    });
+
+    it('leaves items unassigned when auto-assignment is off', async () => {
+      ddbMock.on(GetCommand).resolves({ Item: { settingKey: 'moderation-queue', autoAssignment: false } });
+
+      const queued = await enqueueModerationItem(item());
+
+      expect(mockDb.createModerationQueue).toHaveBeenCalled();
+      expect(mockDb.assignModerator).not.toHaveBeenCalled();
+      expect(queued.assignedTo).toBeUndefined();
+    });
+
+    it('queues the item even when routing fails', async () => {
+      mockGetTeamMembers.mockRejectedValue(new Error('Failed to fetch team members'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const queued = await enqueueModerationItem(item());
+
+      expect(mockDb.createModerationQueue).toHaveBeenCalled();
+      expect(queued.dueDate).toBe(NOW + 24 * HOUR);
+    });
+  });
+
+  describe('addModerationItemFlag', () => {
+    const flag: ContentFlag = {
+      id: 'report-1',
+      type: 'fraud',
+      reason: 'Wire transfer',
+      reportedBy: 'buyer-1',
+      reportedAt: '2024-05-01T12:00:00.000Z',
+      severity: 'high',
+      status: 'pending',
+    };
+
+    it('brings the due date forward when the priority rises', async () => {
+      await addModerationItemFlag(item({ dueDate: NOW + 20 * HOUR }), flag, 'urgent');
+
+      expect(mockDb.addModerationFlag).toHaveBeenCalledWith('queue-1', flag, 'urgent', NOW + 6 * HOUR);
+      expect(mockScheduleJob).toHaveBeenCalledWith(expect.objectContaining({ runAt: NOW + 6 * HOUR }));
+    });
+
+    it('keeps an earlier due date', async () => {
+      await addModerationItemFlag(item({ dueDate: NOW + HOUR }), flag, 'high');
+
+      expect(mockDb.addModerationFlag).toHaveBeenCalledWith('queue-1', flag, 'high', undefined);
+      expect(mockScheduleJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rebalanceModerationQueue', () => {
+    it('moves unstarted items off overloaded moderators and routes the backlog by priority', async () => {
+      await updateModerationQueueConfig({ maxItemsPerModerator: 2 });
+      withQueueItems([
+        item({ queueId: 'a1', assignedTo: 'mod-a', status: 'in_review' }),
+        item({ queueId: 'a2', assignedTo: 'mod-a', submittedAt: NOW - 2 * HOUR }),
+        item({ queueId: 'a3', assignedTo: 'mod-a', submittedAt: NOW - HOUR, priority: 'low' }),
+        item({ queueId: 'u1', priority: 'low', submittedAt: NOW - 5 * HOUR }),
+        item({ queueId: 'u2', priority: 'high', submittedAt: NOW - HOUR }),
+        item({ queueId: 'u3', priority: 'medium', submittedAt: NOW - 3 * HOUR }),
+        item({ queueId: 'u4', priority: 'medium', submittedAt: NOW - 2 * HOUR }),
+      ]);
+
+      const result = await rebalanceModerationQueue();
+
+      expect(result).toEqual({ assigned: 3, moved: 1, unassigned: 1 });
+      expect(mockDb.assignModerator).toHaveBeenCalledWith('a3', 'lead', { expectedAssignee: 'mod-a', startReview: false });
+      const routed = mockDb.assignModerator.mock.calls.filter(call => call[2]?.expectedAssignee === null).map(call => call[0]);
+      expect(routed).toEqual(['u2', 'u3', 'u4']);
+      expect(ddbMock.commandCalls(PutCommand)[0].args[0].input.Item).toMatchObject({ settingKey: 'moderation-queue', maxItemsPerModerator: 2 });
+    });
+
+    it('skips items that were assigned in the meantime', async () => {
+      withQueueItems([item({ queueId: 'u1' })]);
+      mockDb.assignModerator.mockRejectedValueOnce(Object.assign(new Error('conditional'), { name: 'ConditionalCheckFailedException' }));
+
+      expect(await rebalanceModerationQueue()).toEqual({ assigned: 0, moved: 0, unassigned: 0 });
+    });
+  });
+
+  describe('checkModerationSla', () => {
+    it('escalates an overdue item and notifies the managers and the assigned moderator', async () => {
+      mockDb.getModerationItem.mockResolvedValue(item({ assignedTo: 'mod-a', priority: 'high', dueDate: NOW - 1 }));
+
+      await checkModerationSla('queue-1');
+
+      expect(mockDb.escalateModerationItem).toHaveBeenCalledWith('queue-1', 'system', 'Not reviewed within 12 hours', 'urgent');
+      expect(mockCreateNotification.mock.calls.map(call => call[0])).toEqual(['mod-a', 'lead']);
+      expect(mockCreateNotification).toHaveBeenCalledWith(
+        'lead', 'moderation_escalation', 'Moderation SLA missed', 'Not reviewed within 12 hours',
+        expect.objectContaining({ queueId: 'queue-1', priority: 'urgent' }), '/admin/moderation/review/listing-1'
+      );
+    });
+
+    it('does nothing for decided, escalated or not yet due items', async () => {
+      for (const queued of [
+        item({ status: 'approved', dueDate: NOW - 1 }),
+        item({ escalated: true, dueDate: NOW - 1 }),
+        item({ dueDate: NOW + HOUR }),
+      ]) {
+        mockDb.getModerationItem.mockResolvedValueOnce(queued);
+        await checkModerationSla('queue-1');
+      }
+
+      expect(mockDb.escalateModerationItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('SLA compliance and workload', () => {
+    it('counts decided items reviewed by their due date and open items not yet due', () => {
+      const items = [
+        item({ status: 'approved', dueDate: NOW, reviewedAt: NOW - HOUR }),
+        item({ status: 'rejected', dueDate: NOW - 2 * HOUR, reviewedAt: NOW - HOUR }),
+        item({ status: 'pending', dueDate: NOW + HOUR }),
+        item({ status: 'in_review', dueDate: NOW - HOUR }),
+      ];
+
+      expect(calculateSlaCompliance(items, DEFAULT_MODERATION_QUEUE, NOW)).toBe(50);
+      expect(calculateSlaCompliance([], DEFAULT_MODERATION_QUEUE, NOW)).toBe(100);
+    });
+
+    it('summarizes each moderator\'s load', async () => {
+      withQueueItems([
+        item({ queueId: 'a1', assignedTo: 'mod-a', dueDate: NOW - HOUR }),
+        item({ queueId: 'a2', assignedTo: 'mod-a', status: 'in_review', dueDate: NOW + HOUR }),
+        item({ queueId: 'u1', dueDate: NOW + HOUR }),
+        item({ queueId: 'd1', status: 'approved', assignedTo: 'mod-b', submittedAt: NOW - 2 * HOUR, reviewedAt: NOW - HOUR, dueDate: NOW }),
+      ]);
+
+      const summary = await getModerationWorkload(NOW);
+
+      expect(summary).toMatchObject({ unassigned: 1, overdue: 1, slaCompliance: 75, autoAssignment: true, maxItemsPerModerator: 10 });
+      expect(summary.workload.find(moderator => moderator.moderatorId === 'mod-a')).toMatchObject({
+        currentLoad: 2,
+        pendingItems: 1,
+        overdueItems: 1,
+        utilizationRate: 20,
+        status: 'available',
+      });
+      expect(summary.workload.find(moderator => moderator.moderatorId === 'mod-b')).toMatchObject({
+        currentLoad: 0,
+        completedToday: 1,
+        averageReviewTime: 60,
+      });
+    });
+  });
+});
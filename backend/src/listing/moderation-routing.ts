@@ -0,0 +1,710 @@
+/**
+ * @fileoverview Moderation queue routing and SLA enforcement.
+ *
+ * Every listing submitted for review gets a moderation queue item with a due
+ * date from the queue's SLA. With auto-assignment on, the item is routed to
+ * a member of the content moderation team straight away; items nobody has
+ * capacity for wait until a moderator frees up and an admin rebalances the
+ * queue. A scheduled job checks each item when it falls due and escalates it
+ * if it is still open.
+ *
+ * The queue's settings (auto-assignment, capacity and SLA) are stored in the
+ * platform settings table (`moderation-queue`); until they are changed the
+ * defaults below apply.
+ *
+ * Business Rules:
+ * - The SLA scales with priority: urgent items are due in a quarter of the
+ *   queue's SLA hours, high in half, medium in the full SLA and low in double
+ * - Raising an item's priority can only bring its due date forward
+ * - Moderators never get more than maxItemsPerModerator open items from
+ *   routing; the least loaded moderator gets the next item
+ * - Urgent items go to team managers first when a manager has capacity
+ * - Rebalancing only moves items whose review has not started
+ * - An overdue item is escalated once: its priority is raised and the team's
+ *   managers and the assigned moderator are notified
+ * - SLA compliance counts open items not yet due and decided items reviewed
+ *   by their due date, of all open items and the items submitted in the
+ *   last SLA_WINDOW_DAYS that were decided
+ *
+ * Validation errors are thrown as `Error`s whose message starts with
+ * "Moderation queue".
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  ContentFlag,
+  ModerationQueue,
+  ModerationRebalanceResult,
+  ModerationWorkflow,
+  ModerationWorkloadSummary,
+  ModeratorWorkload,
+  TeamId,
+  TeamMemberSummary,
+  TeamRole,
+} from '@harborlist/shared-types';
+import { db } from '../shared/database';
+import { scheduleJob } from '../jobs/scheduler';
+import { getTeamMembers } from '../admin-service/teams';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+const PLATFORM_SETTINGS_TABLE = process.env.PLATFORM_SETTINGS_TABLE || 'harborlist-platform-settings';
+
+/**
+ * Setting key of the queue's configuration
+ */
+const SETTINGS_KEY = 'moderation-queue';
+
+/**
+ * Job that checks whether a queue item met its SLA
+ */
+export const MODERATION_SLA_JOB = 'moderation.sla_check';
+
+/**
+ * Queue configuration used until an admin changes it
+ */
+export const DEFAULT_MODERATION_QUEUE: ModerationQueue = {
+  queueId: 'listings',
+  name: 'Listing review',
+  description: 'New, resubmitted and reported listings',
+  filters: {},
+  autoAssignment: true,
+  maxItemsPerModerator: 10,
+  slaHours: 24,
+  active: true,
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+/**
+ * Share of the queue's SLA hours each priority gets
+ */
+export const PRIORITY_SLA_FACTORS: Record<ModerationWorkflow['priority'], number> = {
+  urgent: 0.25,
+  high: 0.5,
+  medium: 1,
+  low: 2,
+};
+
+/**
+ * Days of submissions SLA compliance is measured over
+ */
+export const SLA_WINDOW_DAYS = 30;
+
+/**
+ * How long the queue configuration is cached per container
+ */
+const QUEUE_CONFIG_CACHE_TTL_MS = 60 * 1000;
+
+const PRIORITY_ORDER: ModerationWorkflow['priority'][] = ['low', 'medium', 'high', 'urgent'];
+const DECIDED_STATUSES: ModerationWorkflow['status'][] = ['approved', 'rejected', 'changes_requested'];
+const HOUR_MS = 60 * 60 * 1000;
+
+let cache: { queue: ModerationQueue; loadedAt: number } | null = null;
+
+/**
+ * A queue item as stored, with its bookkeeping timestamps
+ */
+type StoredModerationItem = ModerationWorkflow & { updatedAt?: number };
+
+/**
+ * A moderator who can be routed items, with their open items
+ */
+interface ModeratorLoad {
+  moderatorId: string;
+  moderatorName: string;
+  role: TeamRole;
+  openItems: number;
+}
+
+/**
+ * Retrieves the queue configuration
+ *
+ * Cached per container. If it cannot be loaded, the last loaded
+ * configuration (or the defaults) is used so routing never fails.
+ *
+ * @returns Promise<ModerationQueue> - Queue configuration
+ */
+export async function getModerationQueueConfig(): Promise<ModerationQueue> {
+  const now = Date.now();
+  if (cache && now - cache.loadedAt <= QUEUE_CONFIG_CACHE_TTL_MS) {
+    return cache.queue;
+  }
+
+  try {
+    const result = await docClient.send(new GetCommand({
+      TableName: PLATFORM_SETTINGS_TABLE,
+      Key: { settingKey: SETTINGS_KEY },
+    }));
+    const stored: Record<string, any> = { ...result.Item };
+    delete stored.settingKey;
+    cache = { queue: { ...DEFAULT_MODERATION_QUEUE, ...stored }, loadedAt: now };
+    return cache.queue;
+  } catch (error) {
+    console.error('Failed to load moderation queue settings, using the last loaded settings:', error);
+    return cache?.queue || DEFAULT_MODERATION_QUEUE;
+  }
+}
+
+/**
+ * Updates the queue configuration
+ *
+ * @param updates - Settings to change
+ * @returns Promise<ModerationQueue> - The updated configuration
+ * @throws Error - When a setting is out of range
+ */
+export async function updateModerationQueueConfig(
+  updates: Partial<Pick<ModerationQueue, 'autoAssignment' | 'maxItemsPerModerator' | 'slaHours' | 'filters'>>
+): Promise<ModerationQueue> {
+  if (updates.maxItemsPerModerator !== undefined
+    && (!Number.isInteger(updates.maxItemsPerModerator) || updates.maxItemsPerModerator < 1)) {
+    throw new Error('Moderation queue capacity must be a whole number of at least 1');
+  }
+  if (updates.slaHours !== undefined && (typeof updates.slaHours !== 'number' || !(updates.slaHours > 0))) {
+    throw new Error('Moderation queue SLA must be a positive number of hours');
+  }
+
+  const current = await getModerationQueueConfig();
+  const now = Date.now();
+  const queue: ModerationQueue = {
+    ...current,
+    ...(updates.autoAssignment !== undefined && { autoAssignment: Boolean(updates.autoAssignment) }),
+    ...(updates.maxItemsPerModerator !== undefined && { maxItemsPerModerator: updates.maxItemsPerModerator }),
+    ...(updates.slaHours !== undefined && { slaHours: updates.slaHours }),
+    ...(updates.filters !== undefined && { filters: updates.filters }),
+    createdAt: current.createdAt || now,
+    updatedAt: now,
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: PLATFORM_SETTINGS_TABLE,
+    Item: { settingKey: SETTINGS_KEY, ...queue },
+  }));
+
+  cache = { queue, loadedAt: now };
+  return queue;
+}
+
+/**
+ * Clears the cached queue configuration (between tests)
+ */
+export function clearModerationQueueCache(): void {
+  cache = null;
+}
+
+/**
+ * Hours an item of a priority has to be reviewed in
+ */
+export function getSlaHours(priority: ModerationWorkflow['priority'], queue: ModerationQueue): number {
+  return queue.slaHours * (PRIORITY_SLA_FACTORS[priority] ?? 1);
+}
+
+/**
+ * When an item submitted at a point in time is due
+ *
+ * @param submittedAt - Submission time in milliseconds
+ * @param priority - Item priority
+ * @param queue - Queue configuration
+ * @returns number - Due date in milliseconds
+ */
+export function computeDueDate(
+  submittedAt: number,
+  priority: ModerationWorkflow['priority'],
+  queue: ModerationQueue
+): number {
+  return submittedAt + Math.round(getSlaHours(priority, queue) * HOUR_MS);
+}
+
+/**
+ * Whether an item is waiting for a decision
+ */
+export function isOpenModerationItem(item: ModerationWorkflow): boolean {
+  return item.status === 'pending' || item.status === 'in_review';
+}
+
+/**
+ * Whether an open item has passed its due date
+ */
+export function isOverdue(item: ModerationWorkflow, now: number = Date.now()): boolean {
+  return isOpenModerationItem(item) && item.dueDate !== undefined && item.dueDate < now;
+}
+
+/**
+ * The next priority up (urgent stays urgent)
+ */
+function raisePriority(priority: ModerationWorkflow['priority']): ModerationWorkflow['priority'] {
+  return PRIORITY_ORDER[Math.min(PRIORITY_ORDER.indexOf(priority) + 1, PRIORITY_ORDER.length - 1)];
+}
+
+/**
+ * When a decided item was decided
+ */
+function decidedAt(item: StoredModerationItem): number | undefined {
+  return item.reviewedAt ?? item.updatedAt;
+}
+
+/**
+ * Percentage of items that met their SLA
+ *
+ * Decided items count when they were decided by their due date; open items
+ * count while they are not yet due. Items without a due date (queued before
+ * due dates were set) are measured against the medium-priority SLA.
+ *
+ * @param items - Queue items, open and decided
+ * @param queue - Queue configuration
+ * @param now - Current time in milliseconds
+ * @returns number - Compliance percentage with one decimal, 100 when there are no items
+ */
+export function calculateSlaCompliance(
+  items: StoredModerationItem[],
+  queue: ModerationQueue,
+  now: number = Date.now()
+): number {
+  if (items.length === 0) {
+    return 100;
+  }
+
+  const withinSla = items.filter(item => {
+    const dueDate = item.dueDate ?? computeDueDate(item.submittedAt, 'medium', queue);
+    if (isOpenModerationItem(item)) {
+      return dueDate >= now;
+    }
+    const decided = decidedAt(item);
+    return decided !== undefined && decided <= dueDate;
+  }).length;
+
+  return Math.round((withinSla / items.length) * 1000) / 10;
+}
+
+/**
+ * Picks the moderator an item should be routed to
+ *
+ * Only moderators below the queue's capacity (and on the queue's moderator
+ * list, if it has one) qualify. Urgent items go to the least loaded manager
+ * with capacity; everything else to the least loaded moderator.
+ *
+ * @param item - Item to route
+ * @param moderators - Content moderation team members with their open items
+ * @param queue - Queue configuration
+ * @returns The moderator to assign, or null when nobody has capacity
+ */
+export function pickModerator<T extends ModeratorLoad>(
+  item: Pick<ModerationWorkflow, 'priority'>,
+  moderators: T[],
+  queue: ModerationQueue
+): T | null {
+  const allowed = queue.filters.assignedModerators?.length ? queue.filters.assignedModerators : null;
+  const available = moderators
+    .filter(moderator => moderator.openItems < queue.maxItemsPerModerator)
+    .filter(moderator => !allowed || allowed.includes(moderator.moderatorId))
+    .sort((a, b) => a.openItems - b.openItems || a.moderatorId.localeCompare(b.moderatorId));
+
+  if (item.priority === 'urgent') {
+    const manager = available.find(moderator => moderator.role === TeamRole.MANAGER);
+    if (manager) {
+      return manager;
+    }
+  }
+  return available[0] || null;
+}
+
+/**
+ * Open queue items
+ */
+async function getOpenModerationItems(): Promise<StoredModerationItem[]> {
+  const [pending, inReview] = await Promise.all([
+    db.getModerationItemsByStatus('pending'),
+    db.getModerationItemsByStatus('in_review'),
+  ]);
+  return [...pending, ...inReview];
+}
+
+/**
+ * Items decided from those submitted since a point in time
+ */
+async function getDecidedModerationItems(submittedSince: number): Promise<StoredModerationItem[]> {
+  const results = await Promise.all(DECIDED_STATUSES.map(status => db.getModerationItemsByStatus(status, submittedSince)));
+  return results.flat();
+}
+
+/**
+ * Content moderation team members with their open items
+ */
+function getModeratorLoads(members: TeamMemberSummary[], openItems: ModerationWorkflow[]): ModeratorLoad[] {
+  return members.map(member => ({
+    moderatorId: member.userId,
+    moderatorName: member.name,
+    role: member.role,
+    openItems: openItems.filter(item => item.assignedTo === member.userId).length,
+  }));
+}
+
+/**
+ * Routing order: highest priority first, then oldest
+ */
+function byRoutingOrder(a: ModerationWorkflow, b: ModerationWorkflow): number {
+  return PRIORITY_ORDER.indexOf(b.priority) - PRIORITY_ORDER.indexOf(a.priority) || a.submittedAt - b.submittedAt;
+}
+
+/**
+ * Assigns an item unless it changed since it was read
+ *
+ * @returns Promise<boolean> - False when the item was assigned or decided in the meantime
+ */
+async function routeItem(queueId: string, moderatorId: string, expectedAssignee: string | null): Promise<boolean> {
+  try {
+    await db.assignModerator(queueId, moderatorId, { expectedAssignee, startReview: false });
+    return true;
+  } catch (error: any) {
+    if (error?.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Schedules the SLA check for an item's due date
+ */
+async function scheduleSlaCheck(queueId: string, dueDate: number): Promise<void> {
+  await scheduleJob({
+    type: MODERATION_SLA_JOB,
+    jobId: `moderation-sla:${queueId}:${dueDate}`,
+    runAt: dueDate,
+    payload: { queueId },
+  });
+}
+
+/**
+ * Sends a queue notification without failing the caller
+ */
+async function notify(userId: string, title: string, message: string, item: ModerationWorkflow): Promise<void> {
+  try {
+    const { createNotification } = await import('../notification-service');
+    await createNotification(userId, 'moderation_escalation', title, message, {
+      queueId: item.queueId,
+      listingId: item.listingId,
+      priority: item.priority,
+    }, `/admin/moderation/review/${item.listingId}`);
+  } catch (error) {
+    console.error(`Failed to send notification for moderation item ${item.queueId}:`, error);
+  }
+}
+
+/**
+ * Adds a listing to the moderation queue
+ *
+ * Sets the item's due date, schedules its SLA check and, with
+ * auto-assignment on, routes it to a moderator. Routing and scheduling are
+ * best effort: the item is queued even when they fail, and a rebalance picks
+ * up items left unassigned.
+ *
+ * @param item - Queue item without its due date
+ * @returns Promise<ModerationWorkflow> - The queued item
+ */
+export async function enqueueModerationItem(
+  item: Omit<ModerationWorkflow, 'dueDate' | 'assignedTo'>
+): Promise<ModerationWorkflow> {
+  const queue = await getModerationQueueConfig();
+  const queued: ModerationWorkflow = {
+    ...item,
+    dueDate: computeDueDate(item.submittedAt, item.priority, queue),
+  };
+  await db.createModerationQueue(queued);
+
+  try {
+    await scheduleSlaCheck(queued.queueId, queued.dueDate!);
+  } catch (error) {
+    console.error(`Failed to schedule the SLA check for moderation item ${queued.queueId}:`, error);
+  }
+
+  if (queue.autoAssignment && queue.active) {
+    try {
+      const [members, openItems] = await Promise.all([
+        getTeamMembers(TeamId.CONTENT_MODERATION),
+        getOpenModerationItems(),
+      ]);
+      const moderator = pickModerator(queued, getModeratorLoads(members, openItems), queue);
+      if (moderator && await routeItem(queued.queueId, moderator.moderatorId, null)) {
+        queued.assignedTo = moderator.moderatorId;
+      }
+    } catch (error) {
+      console.error(`Failed to auto-assign moderation item ${queued.queueId}:`, error);
+    }
+  }
+
+  return queued;
+}
+
+/**
+ * Adds a flag to an open queue item and raises its priority
+ *
+ * A higher priority brings the due date forward to the new priority's SLA
+ * from now, if that is sooner, and schedules the earlier SLA check.
+ *
+ * @param item - Open queue item
+ * @param flag - Flag to add
+ * @param priority - Priority after the flag
+ */
+export async function addModerationItemFlag(
+  item: ModerationWorkflow,
+  flag: ContentFlag,
+  priority: ModerationWorkflow['priority']
+): Promise<void> {
+  let dueDate: number | undefined;
+  if (PRIORITY_ORDER.indexOf(priority) > PRIORITY_ORDER.indexOf(item.priority)) {
+    const queue = await getModerationQueueConfig();
+    const raisedDueDate = computeDueDate(Date.now(), priority, queue);
+    if (item.dueDate === undefined || raisedDueDate < item.dueDate) {
+      dueDate = raisedDueDate;
+    }
+  }
+
+  await db.addModerationFlag(item.queueId, flag, priority, dueDate);
+
+  if (dueDate !== undefined) {
+    try {
+      await scheduleSlaCheck(item.queueId, dueDate);
+    } catch (error) {
+      console.error(`Failed to schedule the SLA check for moderation item ${item.queueId}:`, error);
+    }
+  }
+}
+
+/**
+ * Finds a listing's queue item that has not been decided yet
+ *
+ * @param listingId - Listing identifier
+ * @returns Promise<ModerationWorkflow | undefined> - The open item, if any
+ */
+export async function getOpenModerationItem(listingId: string): Promise<ModerationWorkflow | undefined> {
+  const history = await db.getModerationHistory(listingId);
+  return history.find(isOpenModerationItem);
+}
+
+/**
+ * Records the decision on a listing's open queue items
+ *
+ * @param listingId - Listing identifier
+ * @param status - Decision
+ * @param moderationNotes - Moderator's notes on the decision
+ */
+export async function closeModerationItems(
+  listingId: string,
+  status: 'approved' | 'rejected' | 'changes_requested',
+  moderationNotes?: ModerationWorkflow['moderationNotes']
+): Promise<void> {
+  const history = await db.getModerationHistory(listingId);
+  for (const item of history.filter(isOpenModerationItem)) {
+    await db.updateModerationStatus(item.queueId, status, moderationNotes);
+  }
+}
+
+/**
+ * Assigns listings' open queue items to a moderator
+ *
+ * Manual assignment by an admin: capacity is not enforced.
+ *
+ * @param listingIds - Listings to assign
+ * @param moderatorId - Moderator to assign them to
+ * @returns Promise<{ assigned: string[]; skipped: string[] }> - Listings assigned, and listings without an open item
+ * @throws Error - When no listings or moderator are given
+ */
+export async function assignModerationItems(
+  listingIds: string[],
+  moderatorId: string
+): Promise<{ assigned: string[]; skipped: string[] }> {
+  if (!Array.isArray(listingIds) || listingIds.length === 0) {
+    throw new Error('Moderation queue assignment needs at least one listing');
+  }
+  if (!moderatorId) {
+    throw new Error('Moderation queue assignment needs a moderator');
+  }
+
+  const assigned: string[] = [];
+  const skipped: string[] = [];
+  for (const listingId of listingIds) {
+    const item = await getOpenModerationItem(listingId);
+    if (!item) {
+      skipped.push(listingId);
+      continue;
+    }
+    await db.assignModerator(item.queueId, moderatorId, { startReview: false });
+    assigned.push(listingId);
+  }
+  return { assigned, skipped };
+}
+
+/**
+ * Rebalances the queue across the content moderation team
+ *
+ * Moves items not yet started off moderators who are over capacity or have
+ * left the team (lowest priority and newest first), then routes unassigned
+ * items by priority and age to whoever has capacity.
+ *
+ * @returns Promise<ModerationRebalanceResult> - Items assigned, moved and left unassigned
+ */
+export async function rebalanceModerationQueue(): Promise<ModerationRebalanceResult> {
+  const [queue, members, openItems] = await Promise.all([
+    getModerationQueueConfig(),
+    getTeamMembers(TeamId.CONTENT_MODERATION),
+    getOpenModerationItems(),
+  ]);
+  const loads = getModeratorLoads(members, openItems);
+  const loadById = new Map(loads.map(load => [load.moderatorId, load]));
+  const result: ModerationRebalanceResult = { assigned: 0, moved: 0, unassigned: 0 };
+
+  // Items to move: everything from former members, the excess from overloaded members
+  const toMove: ModerationWorkflow[] = [];
+  const byAssignee = new Map<string, ModerationWorkflow[]>();
+  for (const item of openItems.filter(item => item.assignedTo)) {
+    byAssignee.set(item.assignedTo!, [...(byAssignee.get(item.assignedTo!) || []), item]);
+  }
+  for (const [moderatorId, items] of byAssignee) {
+    const excess = loadById.has(moderatorId) ? items.length - queue.maxItemsPerModerator : items.length;
+    if (excess <= 0) continue;
+    const movable = items
+      .filter(item => item.status === 'pending')
+      .sort((a, b) => byRoutingOrder(b, a))
+      .slice(0, excess);
+    toMove.push(...movable);
+  }
+
+  for (const item of toMove.sort(byRoutingOrder)) {
+    const from = loadById.get(item.assignedTo!);
+    const candidates = loads.filter(load => load.moderatorId !== item.assignedTo);
+    const moderator = pickModerator(item, candidates, queue);
+    if (moderator && await routeItem(item.queueId, moderator.moderatorId, item.assignedTo!)) {
+      moderator.openItems++;
+      if (from) from.openItems--;
+      result.moved++;
+    }
+  }
+
+  for (const item of openItems.filter(item => !item.assignedTo).sort(byRoutingOrder)) {
+    const moderator = pickModerator(item, loads, queue);
+    if (!moderator) {
+      result.unassigned++;
+      continue;
+    }
+    if (await routeItem(item.queueId, moderator.moderatorId, null)) {
+      moderator.openItems++;
+      result.assigned++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Escalates a queue item that missed its SLA (called by the job scheduler)
+ *
+ * Does nothing when the item was decided, is already escalated, or is not
+ * due yet (its due date moved).
+ *
+ * @param queueId - Queue item identifier
+ */
+export async function checkModerationSla(queueId: string): Promise<void> {
+  const item = await db.getModerationItem(queueId);
+  if (!item || !isOpenModerationItem(item) || item.escalated) {
+    return;
+  }
+  if (item.dueDate === undefined || item.dueDate > Date.now()) {
+    return;
+  }
+
+  const queue = await getModerationQueueConfig();
+  const reason = `Not reviewed within ${getSlaHours(item.priority, queue)} hours`;
+  const priority = raisePriority(item.priority);
+  await db.escalateModerationItem(queueId, 'system', reason, priority);
+
+  const escalated = { ...item, priority };
+  const recipients = new Set<string>(item.assignedTo ? [item.assignedTo] : []);
+  try {
+    const managers = (await getTeamMembers(TeamId.CONTENT_MODERATION)).filter(member => member.role === TeamRole.MANAGER);
+    managers.forEach(manager => recipients.add(manager.userId));
+  } catch (error) {
+    console.error(`Failed to load content moderation managers for moderation item ${queueId}:`, error);
+  }
+  for (const userId of recipients) {
+    await notify(userId, 'Moderation SLA missed', reason, escalated);
+  }
+}
+
+/**
+ * Current workload of the content moderation team
+ *
+ * Lists every team member, and anyone else who still holds open items.
+ *
+ * @param now - Current time in milliseconds
+ * @returns Promise<ModerationWorkloadSummary> - Per-moderator workload, backlog and SLA compliance
+ */
+export async function getModerationWorkload(now: number = Date.now()): Promise<ModerationWorkloadSummary> {
+  const [queue, members, openItems, decidedItems] = await Promise.all([
+    getModerationQueueConfig(),
+    getTeamMembers(TeamId.CONTENT_MODERATION),
+    getOpenModerationItems(),
+    getDecidedModerationItems(now - SLA_WINDOW_DAYS * 24 * HOUR_MS),
+  ]);
+
+  const todayStart = new Date(now);
+  todayStart.setHours(0, 0, 0, 0);
+
+  const moderators = new Map(members.map(member => [member.userId, member.name]));
+  for (const item of openItems) {
+    if (item.assignedTo && !moderators.has(item.assignedTo)) {
+      moderators.set(item.assignedTo, item.assignedTo);
+    }
+  }
+
+  const workload: ModeratorWorkload[] = [...moderators].map(([moderatorId, moderatorName]) => {
+    const assigned = openItems.filter(item => item.assignedTo === moderatorId);
+    const decided = decidedItems.filter(item => (item.moderationNotes?.reviewerId || item.assignedTo) === moderatorId);
+    const reviewTimes = decided
+      .map(item => (decidedAt(item) ?? item.submittedAt) - item.submittedAt)
+      .filter(time => time > 0);
+    const utilizationRate = Math.round((assigned.length / queue.maxItemsPerModerator) * 100);
+
+    return {
+      moderatorId,
+      moderatorName,
+      currentLoad: assigned.length,
+      capacity: queue.maxItemsPerModerator,
+      utilizationRate,
+      averageReviewTime: reviewTimes.length > 0
+        ? Math.round(reviewTimes.reduce((sum, time) => sum + time, 0) / reviewTimes.length / 60000)
+        : 0,
+      pendingItems: assigned.filter(item => item.status === 'pending').length,
+      overdueItems: assigned.filter(item => isOverdue(item, now)).length,
+      completedToday: decided.filter(item => (decidedAt(item) ?? 0) >= todayStart.getTime()).length,
+      status: utilizationRate >= 100 ? 'overloaded' : utilizationRate >= 80 ? 'busy' : 'available',
+    };
+  });
+
+  return {
+    workload,
+    unassigned: openItems.filter(item => !item.assignedTo).length,
+    overdue: openItems.filter(item => isOverdue(item, now)).length,
+    slaCompliance: calculateSlaCompliance([...openItems, ...decidedItems], queue, now),
+    autoAssignment: queue.autoAssignment,
+    maxItemsPerModerator: queue.maxItemsPerModerator,
+    slaHours: queue.slaHours,
+  };
+}
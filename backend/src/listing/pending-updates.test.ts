@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Unit tests for pending listing update review
+ *
+ * Tests the field diff, per-field decisions, the price history behind the
+ * price drop sort, auto-approval of low-risk edits and storing the
+ * auto-approval rules.
+ */
+
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { PendingUpdateAutoApprovalRules } from '@harborlist/shared-types';
+import {
+  DEFAULT_AUTO_APPROVAL_RULES,
+  applyFieldDecisions,
+  clearAutoApprovalRulesCache,
+  getAutoApprovalRules,
+  getAutoApprovedFields,
+  getPendingUpdateFieldChanges,
+  updateAutoApprovalRules,
+} from './pending-updates';
+import { getPriceDrop, getSortKey } from '../search/sorting';
+
+const ddbMock = mockClient(DynamoDBDocumentClient);
+
+const NOW = 1_700_000_000_000;
+
+const listingWithUpdate = (changes: Record<string, any>) => ({
+  listingId: 'listing-1',
+  ownerId: 'owner-1',
+  title: 'Sea Ray 240',
+  slug: 'sea-ray-240',
+  description: 'Well kept bowrider',
+  price: 50000,
+  features: ['GPS'],
+  priceHistory: [],
+  moderationHistory: [],
+  pendingUpdate: {
+    status: 'pending_review',
+    submittedAt: NOW - 1000,
+    submittedBy: 'owner-1',
+    lastUpdatedAt: NOW - 1000,
+    changes: { updatedAt: NOW - 1000, ...changes },
+    changeHistory: [],
+  },
+});
+
+const rules = (overrides: Partial<PendingUpdateAutoApprovalRules> = {}): PendingUpdateAutoApprovalRules => ({
+  enabled: true,
+  maxPriceDecreasePercent: 10,
+  lowRiskFields: ['features'],
+  ...overrides,
+});
+
+describe('Pending listing updates', () => {
+  describe('getPendingUpdateFieldChanges', () => {
+    it('lists changed fields only, without bookkeeping', () => {
+      const listing = listingWithUpdate({
+        price: 45000,
+        description: 'Well kept bowrider',
+        features: ['GPS'],
+        slug: 'sea-ray-240-new',
+        priceHistory: [{ price: 45000 }],
+      });
+
+      expect(getPendingUpdateFieldChanges(listing)).toEqual([
+        { field: 'price', oldValue: 50000, newValue: 45000 },
+      ]);
+    });
+  });
+
+  describe('applyFieldDecisions', () => {
+    it('applies approved fields, drops rejected ones and keeps the rest pending', () => {
+      const listing = listingWithUpdate({ price: 45000, description: 'Call 555-0100', features: ['GPS', 'Radar'] });
+
+      const { updates, result } = applyFieldDecisions(listing, {
+        decisions: [
+          { field: 'price', decision: 'approve' },
+          { field: 'description', decision: 'reject', reason: 'Contact details are not allowed' },
+        ],
+      }, 'mod-1', NOW);
+
+      expect(result).toEqual({ approvedFields: ['price'], rejectedFields: ['description'], remainingFields: ['features'] });
+      expect(updates.price).toBe(45000);
+      expect(updates.description).toBeUndefined();
+      expect(updates.priceHistory).toEqual([{ price: 45000, changedAt: NOW, changedBy: 'owner-1', reason: 'owner_update' }]);
+      expect(updates.pendingUpdate.changes).toEqual({ updatedAt: NOW - 1000, features: ['GPS', 'Radar'] });
+      expect(updates.moderationHistory[0]).toMatchObject({
+        action: 'review_update',
+        reviewedBy: 'mod-1',
+        status: 'approved',
+        approvedFields: ['price'],
+        rejectedFields: ['description'],
+        publicNotes: 'Approved: price. Not approved: description: Contact details are not allowed. Still in review: features.',
+      });
+    });
+
+    it('clears the pending update once every field is decided and applies the slug with the title', () => {
+      const listing = listingWithUpdate({ title: 'Sea Ray 240 Sundeck', slug: 'sea-ray-240-sundeck' });
+
+      const { updates, result } = applyFieldDecisions(listing, {
+        decisions: [{ field: 'title', decision: 'approve' }],
+      }, 'mod-1', NOW);
+
+      expect(result.remainingFields).toEqual([]);
+      expect(updates).toMatchObject({ title: 'Sea Ray 240 Sundeck', slug: 'sea-ray-240-sundeck', pendingUpdate: null });
+      expect(updates.moderationHistory[0].action).toBe('approve_update');
+    });
+
+    it('records a price in the history only once it is approved, so a rejected increase is no price drop', () => {
+      const priceHistory = [{ price: 50000, changedAt: NOW - 5000, changedBy: 'owner-1', reason: 'owner_update' }];
+      const raised = { ...listingWithUpdate({ price: 65000 }), priceHistory };
+      const cut = { ...listingWithUpdate({ price: 45000 }), listingId: 'listing-2', priceHistory };
+
+      const rejected = applyFieldDecisions(raised, {
+        decisions: [{ field: 'price', decision: 'reject', reason: 'Price does not match the survey' }],
+      }, 'mod-1', NOW);
+      const approved = applyFieldDecisions(cut, { decisions: [{ field: 'price', decision: 'approve' }] }, 'mod-1', NOW);
+      const liveRaised = { ...raised, ...rejected.updates, score: 1 } as any;
+      const liveCut = { ...cut, ...approved.updates, score: 1 } as any;
+
+      expect(rejected.updates.priceHistory).toBeUndefined();
+      expect(approved.updates.priceHistory).toEqual([
+        ...priceHistory,
+        { price: 45000, changedAt: NOW, changedBy: 'owner-1', reason: 'owner_update' },
+      ]);
+      expect(getPriceDrop(liveRaised)).toBeUndefined();
+      expect(getPriceDrop(liveCut)).toBe(0.1);
+
+      const byPriceDrop = { field: 'priceDrop', order: 'desc' } as const;
+      expect(getSortKey(liveRaised, byPriceDrop)[0]).toBe(1);
+      expect(getSortKey(liveCut, byPriceDrop).slice(0, 2)).toEqual([0, -0.1]);
+    });
+
+    it('rejects invalid decisions', () => {
+      const listing = listingWithUpdate({ price: 45000 });
+
+      expect(() => applyFieldDecisions(listing, { decisions: [] }, 'mod-1'))
+        .toThrow('Pending update review needs at least one field decision');
+      expect(() => applyFieldDecisions(listing, { decisions: [{ field: 'title', decision: 'approve' }] }, 'mod-1'))
+        .toThrow('Pending update has no change to "title"');
+      expect(() => applyFieldDecisions(listing, { decisions: [{ field: 'price', decision: 'reject' }] }, 'mod-1'))
+        .toThrow('Pending update rejection of "price" needs a reason');
+    });
+  });
+
+  describe('getAutoApprovedFields', () => {
+    const listing = { price: 50000, features: ['GPS'], description: 'Well kept' };
+
+    it('approves price decreases within the threshold and low-risk fields', () => {
+      expect(getAutoApprovedFields(listing, { price: 45000, features: ['GPS', 'Radar'], description: 'New' }, rules()))
+        .toEqual(['price', 'features']);
+    });
+
+    it('never approves price increases or cuts over the threshold', () => {
+      expect(getAutoApprovedFields(listing, { price: 55000 }, rules())).toEqual([]);
+      expect(getAutoApprovedFields(listing, { price: 44000 }, rules())).toEqual([]);
+      expect(getAutoApprovedFields(listing, { price: 48000 }, rules({ maxPriceDecreaseAmount: 1000 }))).toEqual([]);
+    });
+
+    it('approves nothing while disabled', () => {
+      expect(getAutoApprovedFields(listing, { price: 49000 }, rules({ enabled: false }))).toEqual([]);
+    });
+  });
+
+  describe('auto-approval rules', () => {
+    beforeEach(() => {
+      ddbMock.reset();
+      clearAutoApprovalRulesCache();
+    });
+
+    it('stores valid rules', async () => {
+      ddbMock.on(PutCommand).resolves({});
+
+      const stored = await updateAutoApprovalRules(rules({ lowRiskFields: ['features', 'features'] }), 'admin@harborlist.com');
+
+      expect(stored).toMatchObject({ enabled: true, lowRiskFields: ['features'], updatedBy: 'admin@harborlist.com' });
+      expect(ddbMock.commandCalls(PutCommand)[0].args[0].input.Item).toMatchObject({ settingKey: 'pending-update-auto-approval' });
+    });
+
+    it('rejects fields that always need review', async () => {
+      await expect(updateAutoApprovalRules(rules({ lowRiskFields: ['description'], maxPriceDecreasePercent: 150 }), 'admin'))
+        .rejects.toThrow('Pending update auto-approval rules are invalid: maxPriceDecreasePercent must be between 0 and 100; "description" cannot be auto-approved');
+      expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+    });
+
+    it('falls back to the defaults when the rules cannot be loaded', async () => {
+      ddbMock.on(GetCommand).rejects(new Error('unavailable'));
+      jest.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+
+      expect(await getAutoApprovalRules()).toEqual(DEFAULT_AUTO_APPROVAL_RULES);
+    });
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * @fileoverview Field-level review and auto-approval of pending listing updates.
+ *
+ * Owner edits to a live listing wait in `pendingUpdate` until a moderator
+ * reviews them. Moderators decide each changed field on its own, so a price
+ * change can go live while a new description is rejected; fields nobody has
+ * decided yet stay pending. Low-risk edits can skip review entirely under
+ * auto-approval rules stored in the platform settings table
+ * (`pending-update-auto-approval`); until they are changed nothing is
+ * auto-approved.
+ *
+ * Business Rules:
+ * - Only fields whose value differs from the live listing are reviewed
+ * - Approving a title also applies its new slug; a price is recorded in the
+ *   price history only when it goes live (auto-approved or approved), never
+ *   while it is pending
+ * - A rejected field needs a reason, which is passed on to the owner
+ * - The pending update is cleared once no changed field is left undecided
+ * - Price increases are never auto-approved; decreases are when they are
+ *   within maxPriceDecreasePercent of the live price (and
+ *   maxPriceDecreaseAmount when set)
+ * - Only fields in AUTO_APPROVABLE_FIELDS can be made low-risk: titles,
+ *   descriptions and photos are always reviewed
+ *
+ * Validation errors are thrown as `Error`s whose message starts with
+ * "Pending update".
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  EnhancedListing,
+  PendingUpdateAutoApprovalRules,
+  PendingUpdateFieldChange,
+  PendingUpdateReviewRequest,
+  PendingUpdateReviewResult,
+} from '@harborlist/shared-types';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+const PLATFORM_SETTINGS_TABLE = process.env.PLATFORM_SETTINGS_TABLE || 'harborlist-platform-settings';
+
+/**
+ * Setting key of the auto-approval rules
+ */
+const SETTINGS_KEY = 'pending-update-auto-approval';
+
+/**
+ * Fields admins can mark as low-risk
+ */
+export const AUTO_APPROVABLE_FIELDS = ['condition', 'features', 'specifications', 'boatDetails', 'engines'];
+
+/**
+ * Auto-approval rules used until an admin changes them
+ */
+export const DEFAULT_AUTO_APPROVAL_RULES: PendingUpdateAutoApprovalRules = {
+  enabled: false,
+  maxPriceDecreasePercent: 10,
+  lowRiskFields: [],
+};
+
+/**
+ * Fields an update carries that are bookkeeping rather than owner edits
+ */
+const BOOKKEEPING_FIELDS = new Set([
+  'listingId', 'ownerId', 'status', 'slug', 'createdAt', 'updatedAt', 'priceHistory',
+  'pendingUpdate', 'moderationWorkflow', 'moderationHistory',
+]);
+
+/**
+ * Bookkeeping fields that go live with the field they were derived from
+ */
+const DEPENDENT_FIELDS: Record<string, string[]> = {
+  title: ['slug'],
+};
+
+/**
+ * How long the auto-approval rules are cached per container
+ */
+const AUTO_APPROVAL_CACHE_TTL_MS = 60 * 1000;
+
+let cache: { rules: PendingUpdateAutoApprovalRules; loadedAt: number } | null = null;
+
+type PendingUpdate = NonNullable<EnhancedListing['pendingUpdate']>;
+type ModerationHistoryEntry = NonNullable<EnhancedListing['moderationHistory']>[number];
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Fields of an update whose value differs from the listing
+ *
+ * @param listing - Live listing
+ * @param changes - Edited fields
+ * @returns PendingUpdateFieldChange[] - Changed fields, in the order they were edited
+ */
+export function diffListingFields(listing: Record<string, any>, changes: Record<string, any>): PendingUpdateFieldChange[] {
+  return Object.keys(changes)
+    .filter(field => !BOOKKEEPING_FIELDS.has(field) && !isSameValue(listing[field], changes[field]))
+    .map(field => ({ field, oldValue: listing[field], newValue: changes[field] }));
+}
+
+/**
+ * Fields of a listing's pending update that still need a decision
+ *
+ * @param listing - Listing with a pending update
+ * @returns PendingUpdateFieldChange[] - Changed fields, empty without a pending update
+ */
+export function getPendingUpdateFieldChanges(listing: Record<string, any>): PendingUpdateFieldChange[] {
+  return listing.pendingUpdate ? diffListingFields(listing, listing.pendingUpdate.changes || {}) : [];
+}
+
+/**
+ * Checks auto-approval rules
+ *
+ * @param rules - Rules to check
+ * @returns string[] - Problems found, empty when the rules are valid
+ */
+export function validateAutoApprovalRules(rules: Partial<PendingUpdateAutoApprovalRules>): string[] {
+  const errors: string[] = [];
+  const percent = rules.maxPriceDecreasePercent;
+
+  if (typeof percent !== 'number' || !Number.isFinite(percent) || percent < 0 || percent > 100) {
+    errors.push('maxPriceDecreasePercent must be between 0 and 100');
+  }
+  if (rules.maxPriceDecreaseAmount !== undefined && rules.maxPriceDecreaseAmount !== null &&
+      (typeof rules.maxPriceDecreaseAmount !== 'number' || !(rules.maxPriceDecreaseAmount > 0))) {
+    errors.push('maxPriceDecreaseAmount must be a positive amount');
+  }
+  if (!Array.isArray(rules.lowRiskFields)) {
+    errors.push('lowRiskFields must be a list');
+  } else {
+    rules.lowRiskFields
+      .filter(field => !AUTO_APPROVABLE_FIELDS.includes(field))
+      .forEach(field => errors.push(`"${field}" cannot be auto-approved`));
+  }
+
+  return errors;
+}
+
+/**
+ * Fields of an owner's edit that go live without review
+ *
+ * @param listing - Live listing
+ * @param changes - Edited fields
+ * @param rules - Auto-approval rules
+ * @returns string[] - Changed fields the rules approve
+ */
+export function getAutoApprovedFields(
+  listing: Record<string, any>,
+  changes: Record<string, any>,
+  rules: PendingUpdateAutoApprovalRules
+): string[] {
+  if (!rules.enabled) {
+    return [];
+  }
+
+  return diffListingFields(listing, changes)
+    .filter(({ field, oldValue, newValue }) => {
+      if (field === 'price') {
+        const decrease = Number(oldValue) - Number(newValue);
+        return decrease > 0 &&
+          decrease <= Number(oldValue) * rules.maxPriceDecreasePercent / 100 &&
+          (!rules.maxPriceDecreaseAmount || decrease <= rules.maxPriceDecreaseAmount);
+      }
+      return rules.lowRiskFields.includes(field);
+    })
+    .map(({ field }) => field);
+}
+
+/**
+ * Copies fields, with the bookkeeping fields derived from them
+ */
+export function pickFields(changes: Record<string, any>, fields: string[]): Record<string, any> {
+  const picked: Record<string, any> = {};
+  fields.flatMap(field => [field, ...(DEPENDENT_FIELDS[field] || [])])
+    .filter(field => field in changes)
+    .forEach(field => { picked[field] = changes[field]; });
+  return picked;
+}
+
+/**
+ * Removes fields, with the bookkeeping fields derived from them
+ */
+export function omitFields(changes: Record<string, any>, fields: string[]): Record<string, any> {
+  const omitted = new Set(fields.flatMap(field => [field, ...(DEPENDENT_FIELDS[field] || [])]));
+  return Object.fromEntries(Object.entries(changes).filter(([field]) => !omitted.has(field)));
+}
+
+/**
+ * Price history of a listing with a new live price appended
+ *
+ * @param listing - Listing before the price goes live
+ * @param price - Price going live
+ * @param changedBy - Owner who set the price
+ * @param now - When the price went live
+ */
+export function appendPriceHistory(
+  listing: Record<string, any>,
+  price: number,
+  changedBy: string,
+  now: number
+): Array<Record<string, any>> {
+  return [
+    ...(listing.priceHistory || []),
+    { price, changedAt: now, changedBy, reason: 'owner_update' },
+  ];
+}
+
+/**
+ * Turns a moderator's per-field decisions into the update for the listing
+ *
+ * Approved fields are merged into the listing, rejected fields are dropped
+ * from the pending update and undecided fields stay pending.
+ *
+ * @param listing - Listing with a pending update
+ * @param request - Decisions and internal notes
+ * @param moderatorId - Moderator making the decisions
+ * @param now - Review time
+ * @returns The listing update to write and which fields were decided
+ * @throws Error when there is no pending update or a decision is invalid
+ */
+export function applyFieldDecisions(
+  listing: Record<string, any>,
+  request: PendingUpdateReviewRequest,
+  moderatorId: string,
+  now: number = Date.now()
+): { updates: Record<string, any>; result: PendingUpdateReviewResult } {
+  const pendingUpdate: PendingUpdate | undefined = listing.pendingUpdate;
+  if (!pendingUpdate) {
+    throw new Error('Pending update not found');
+  }
+
+  const decisions = Array.isArray(request.decisions) ? request.decisions : [];
+  if (decisions.length === 0) {
+    throw new Error('Pending update review needs at least one field decision');
+  }
+
+  const changedFields = getPendingUpdateFieldChanges(listing).map(change => change.field);
+  const decided = new Set<string>();
+  for (const { field, decision, reason } of decisions) {
+    if (!changedFields.includes(field)) {
+      throw new Error(`Pending update has no change to "${field}"`);
+    }
+    if (decided.has(field)) {
+      throw new Error(`Pending update field "${field}" was decided twice`);
+    }
+    if (decision !== 'approve' && decision !== 'reject') {
+      throw new Error(`Pending update decision for "${field}" must be approve or reject`);
+    }
+    if (decision === 'reject' && !reason?.trim()) {
+      throw new Error(`Pending update rejection of "${field}" needs a reason`);
+    }
+    decided.add(field);
+  }
+
+  const approvedFields = decisions.filter(d => d.decision === 'approve').map(d => d.field);
+  const rejected = decisions.filter(d => d.decision === 'reject');
+  const rejectedFields = rejected.map(d => d.field);
+  const remainingFields = changedFields.filter(field => !decided.has(field));
+
+  const updates: Record<string, any> = {
+    ...pickFields(pendingUpdate.changes as Record<string, any>, approvedFields),
+    updatedAt: now,
+  };
+
+  if (approvedFields.includes('price')) {
+    updates.priceHistory = appendPriceHistory(listing, pendingUpdate.changes.price!, listing.ownerId, now);
+  }
+
+  const rejectionReason = rejected.map(d => `${formatFieldName(d.field)}: ${d.reason!.trim()}`).join('; ');
+  const historyEntry: ModerationHistoryEntry = {
+    action: rejectedFields.length === 0 ? 'approve_update' : approvedFields.length === 0 ? 'reject' : 'review_update',
+    reviewedBy: moderatorId,
+    reviewedAt: now,
+    status: approvedFields.length > 0 ? 'approved' : 'rejected',
+    rejectionReason: rejectionReason || undefined,
+    publicNotes: describeFieldDecisions({ approvedFields, rejectedFields, remainingFields }, rejectionReason),
+    internalNotes: request.moderatorNotes || '',
+    approvedFields,
+    rejectedFields,
+  };
+  updates.moderationHistory = [...(listing.moderationHistory || []), historyEntry];
+
+  updates.pendingUpdate = remainingFields.length === 0 ? null : {
+    ...pendingUpdate,
+    lastUpdatedAt: now,
+    changes: omitFields(pendingUpdate.changes as Record<string, any>, [...decided]),
+  };
+
+  return { updates, result: { approvedFields, rejectedFields, remainingFields } };
+}
+
+/**
+ * Readable name of a listing field ("boatDetails" → "boat details")
+ */
+export function formatFieldName(field: string): string {
+  return field.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+/**
+ * Summary of a review for the listing owner
+ *
+ * @param result - Fields decided
+ * @param rejectionReason - Reasons the rejected fields were rejected
+ * @returns string - e.g. "Approved: price. Not approved: description: Contact details are not allowed."
+ */
+export function describeFieldDecisions(result: PendingUpdateReviewResult, rejectionReason?: string): string {
+  const parts: string[] = [];
+  if (result.approvedFields.length > 0) {
+    parts.push(`Approved: ${result.approvedFields.map(formatFieldName).join(', ')}.`);
+  }
+  if (result.rejectedFields.length > 0) {
+    parts.push(`Not approved: ${rejectionReason || result.rejectedFields.map(formatFieldName).join(', ')}.`);
+  }
+  if (result.remainingFields.length > 0) {
+    parts.push(`Still in review: ${result.remainingFields.map(formatFieldName).join(', ')}.`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Retrieves the auto-approval rules
+ *
+ * Cached per container. If they cannot be loaded, the last loaded rules (or
+ * the defaults, which approve nothing) are used.
+ *
+ * @returns Promise<PendingUpdateAutoApprovalRules> - Rules in use
+ */
+export async function getAutoApprovalRules(): Promise<PendingUpdateAutoApprovalRules> {
+  const now = Date.now();
+  if (cache && now - cache.loadedAt <= AUTO_APPROVAL_CACHE_TTL_MS) {
+    return cache.rules;
+  }
+
+  try {
+    const result = await docClient.send(new GetCommand({
+      TableName: PLATFORM_SETTINGS_TABLE,
+      Key: { settingKey: SETTINGS_KEY },
+    }));
+    const { settingKey, ...stored } = result.Item || {};
+    cache = { rules: { ...DEFAULT_AUTO_APPROVAL_RULES, ...stored }, loadedAt: now };
+    return cache.rules;
+  } catch (error) {
+    console.error('Failed to load pending update auto-approval rules, using the last loaded rules:', error);
+    return cache?.rules || DEFAULT_AUTO_APPROVAL_RULES;
+  }
+}
+
+/**
+ * Replaces the auto-approval rules
+ *
+ * @param rules - New rules
+ * @param updatedBy - Admin making the change
+ * @returns Promise<PendingUpdateAutoApprovalRules> - The stored rules
+ * @throws Error when the rules are invalid
+ */
+export async function updateAutoApprovalRules(
+  rules: Partial<PendingUpdateAutoApprovalRules>,
+  updatedBy: string
+): Promise<PendingUpdateAutoApprovalRules> {
+  const errors = validateAutoApprovalRules(rules);
+  if (errors.length > 0) {
+    throw new Error(`Pending update auto-approval rules are invalid: ${errors.join('; ')}`);
+  }
+
+  const stored: PendingUpdateAutoApprovalRules = {
+    enabled: rules.enabled === true,
+    maxPriceDecreasePercent: rules.maxPriceDecreasePercent!,
+    maxPriceDecreaseAmount: rules.maxPriceDecreaseAmount || undefined,
+    lowRiskFields: [...new Set(rules.lowRiskFields!)],
+    updatedBy,
+    updatedAt: Date.now(),
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: PLATFORM_SETTINGS_TABLE,
+    Item: { settingKey: SETTINGS_KEY, ...stored },
+  }));
+
+  clearAutoApprovalRulesCache();
+  return stored;
+}
+
+/**
+ * Clears the cached rules (after an update, and between tests)
+ */
+export function clearAutoApprovalRulesCache(): void {
+  cache = null;
+}
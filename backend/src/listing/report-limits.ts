@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Rate limit counters for listing reports.
+ *
+ * Listing functions scale out across containers, so report limits are
+ * counted in DynamoDB rather than in memory. Each counter is one item per
+ * key (reporter or IP address) and fixed time window, incremented with a
+ * conditional ADD so concurrent reports can never exceed the limit. Items
+ * expire through the table's TTL once their window has passed.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { isConditionalCheckFailure } from '../shared/utils';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+const REPORT_LIMITS_TABLE = process.env.REPORT_LIMITS_TABLE || 'harborlist-report-limits';
+
+/**
+ * Counts one report against a key's allowance for the current window
+ *
+ * @param key - What is being limited (e.g. `user#<id>` or `ip#<address>`)
+ * @param maxReports - Reports allowed per window
+ * @param windowMs - Window length
+ * @param now - Current time
+ * @returns Promise<boolean> - False when the allowance is used up
+ */
+export async function consumeReportAllowance(
+  key: string,
+  maxReports: number,
+  windowMs: number,
+  now: number = Date.now()
+): Promise<boolean> {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: REPORT_LIMITS_TABLE,
+      Key: { limitKey: `${key}#${windowStart}` },
+      UpdateExpression: 'ADD #count :one SET expiresAt = :expiresAt',
+      ConditionExpression: 'attribute_not_exists(#count) OR #count < :max',
+      ExpressionAttributeNames: { '#count': 'count' },
+      ExpressionAttributeValues: {
+        ':one': 1,
+        ':max': maxReports,
+        ':expiresAt': Math.ceil((windowStart + windowMs) / 1000),
+      },
+    }));
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -275,6 +275,7 @@ app.get('/health', (req: Request, res: Response) => {
 app.use('/api/auth', lambdaToExpress('./auth-service'));
 // Note: slug route must come before :id route to avoid conflict
 app.use('/api/listings/slug/:slug', lambdaToExpress('./listing'));
+app.use('/api/listings/:id/rating', lambdaToExpress('./reviews')); // Listing rating summary (before :id)
 app.use('/api/listings/:id', lambdaToExpress('./listing'));
 app.use('/api/listings', lambdaToExpress('./listing'));
 app.use('/api/search', lambdaToExpress('./search'));
@@ -287,6 +288,12 @@ app.use('/api/admin', lambdaToExpress('./admin-service'));
 app.use('/api/analytics', lambdaToExpress('./analytics-service'));
 app.use('/api/stats', lambdaToExpress('./analytics-service')); // Platform stats
 app.use('/api/dealer', lambdaToExpress('./dealer-service')); // Dealer sub-account management
+app.use('/api/saved-searches', lambdaToExpress('./saved-search')); // Saved searches and alerts
+app.use('/api/favorites', lambdaToExpress('./favorites')); // Favorites (watchlist)
+app.use('/api/messages', lambdaToExpress('./messaging')); // Buyer–seller messaging
+app.use('/api/offers', lambdaToExpress('./offers')); // Listing offers and counter-offers
+app.use('/api/reviews', lambdaToExpress('./reviews')); // Listing reviews and seller responses
+app.use('/api/sellers', lambdaToExpress('./sellers')); // Public seller profiles
 
 // Catch-all for undefined routes
 app.use('*', (req: Request, res: Response) => {
@@ -305,6 +312,12 @@ app.use('*', (req: Request, res: Response) => {
       '/api/analytics',
       '/api/stats',
       '/api/dealer',
+      '/api/saved-searches',
+      '/api/favorites',
+      '/api/messages',
+      '/api/offers',
+      '/api/reviews',
+      '/api/sellers',
     ],
   });
 });
@@ -332,9 +345,37 @@ server.listen(parseInt(PORT.toString()), '0.0.0.0', () => {
   console.log(`⚡ Environment: ${process.env.NODE_ENV || 'development'}`);
 });
 
+// Saved search alerts run on an EventBridge schedule in AWS; poll locally instead
+const SAVED_SEARCH_ALERT_INTERVAL_MS = parseInt(process.env.SAVED_SEARCH_ALERT_INTERVAL_MS || '300000');
+const savedSearchAlertTimer = SAVED_SEARCH_ALERT_INTERVAL_MS > 0
+  ? setInterval(async () => {
+      try {
+        const { scheduledHandler } = await import('./saved-search');
+        await scheduledHandler();
+      } catch (error) {
+        console.error('Saved search alert run failed:', error);
+      }
+    }, SAVED_SEARCH_ALERT_INTERVAL_MS)
+  : undefined;
+
+// Offer expiry runs on an EventBridge schedule in AWS; poll locally instead
+const OFFER_EXPIRY_INTERVAL_MS = parseInt(process.env.OFFER_EXPIRY_INTERVAL_MS || '300000');
+const offerExpiryTimer = OFFER_EXPIRY_INTERVAL_MS > 0
+  ? setInterval(async () => {
+      try {
+        const { scheduledHandler } = await import('./offers');
+        await scheduledHandler();
+      } catch (error) {
+        console.error('Offer expiry run failed:', error);
+      }
+    }, OFFER_EXPIRY_INTERVAL_MS)
+  : undefined;
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
+  clearInterval(savedSearchAlertTimer);
+  clearInterval(offerExpiryTimer);
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -343,6 +384,8 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully');
+  clearInterval(savedSearchAlertTimer);
+  clearInterval(offerExpiryTimer);
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -17,6 +17,7 @@
  * - Aspect ratio preservation with smart cropping
  * - Progressive JPEG encoding for faster loading
  * - Image metadata extraction (dimensions, format, size)
+ * - Perceptual hashing for duplicate and stolen photo detection
  * 
  * Security Features:
  * - User authentication for upload operations
@@ -47,6 +48,9 @@ import { S3Client, PutObjectCommand, GetObjectCommand, CreateBucketCommand, Head
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import sharp from 'sharp';
 import { createResponse, createErrorResponse, getUserId, generateId } from '../shared/utils';
+import { checkUsage, recordUsage } from '../billing-service/metering/usage-meter';
+import { PHASH_IMAGE_SIZE, perceptualHash } from '../shared/fingerprints';
+import { saveImageHash } from '../shared/fingerprint-store';
 
 /**
  * S3 client configuration with environment-aware settings
@@ -185,6 +189,7 @@ async function initializeBuckets() {
  * 
  * Supported operations:
  * - POST /media/upload - Generate presigned upload URL
+ *   (`?purpose=attachment` for message and evidence attachments, which are not metered as photos)
  * - Automatic processing triggered by S3 events
  * 
  * @param event - API Gateway proxy event containing upload request
@@ -232,6 +237,15 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return createErrorResponse(400, 'INVALID_CONTENT_TYPE', 'Content-Type must be multipart/form-data', requestId);
     }
 
+    // Listing photos count against the tier's photo quota
+    const meteredPhoto = event.queryStringParameters?.purpose !== 'attachment';
+    if (meteredPhoto) {
+      const photoUsage = await checkUsage(userId, 'photos');
+      if (!photoUsage.allowed) {
+        return createErrorResponse(403, 'USAGE_LIMIT_EXCEEDED', photoUsage.message!, requestId);
+      }
+    }
+
     // Generate unique file identifier and user-scoped path
     const fileId = generateId();
     const fileName = `${userId}/${fileId}`;
@@ -240,6 +254,10 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     const internalUploadUrl = await generatePresignedUploadUrl(fileName, 'image/jpeg');
     const uploadUrl = convertUrlForFrontend(internalUploadUrl);
 
+    if (meteredPhoto) {
+      await recordUsage(userId, 'photos');
+    }
+
     const response = {
       uploadId: fileId,
       uploadUrl,
@@ -277,6 +295,7 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
  * 3. Generate multiple thumbnail sizes
  * 4. Create WebP format for modern browsers
  * 5. Upload processed images to thumbnails bucket
+ * 6. Store the perceptual hash of the original for duplicate detection
  * 
  * @param event - S3 event containing upload notifications
  * @returns Promise<void> - Completes when all images are processed
@@ -313,6 +332,7 @@ export const processImageHandler = async (event: any) => {
  * - 300x300 thumbnail for card displays
  * - 600x400 thumbnail for detail views
  * - WebP format for modern browser optimization
+ * - Perceptual hash of the original, keyed by its S3 key
  * 
  * @param bucket - S3 bucket name containing the original image
  * @param key - S3 object key for the uploaded image
@@ -392,6 +412,35 @@ async function processImage(bucket: string, key: string): Promise<void> {
       'processing-date': new Date().toISOString(),
     },
   }));
+
+  // Duplicate detection is best-effort; a missing hash only means this
+  // photo is not compared
+  try {
+    await storeImageHash(imageBuffer, key);
+  } catch (error) {
+    console.error(`Failed to hash image ${key}:`, error);
+  }
+}
+
+/**
+ * Computes and stores the perceptual hash of an uploaded image
+ * 
+ * Uploads are keyed `<userId>/<fileId>`, so the uploader is the first path
+ * segment. The hash is computed on a small greyscale copy, which makes it
+ * insensitive to resizing, re-compression and colour adjustments.
+ * 
+ * @param imageBuffer - Original image data
+ * @param key - S3 object key of the original upload
+ * @returns Promise<void> - Completes when the hash is stored
+ */
+async function storeImageHash(imageBuffer: Buffer, key: string): Promise<void> {
+  const pixels = await sharp(imageBuffer)
+    .greyscale()
+    .resize(PHASH_IMAGE_SIZE, PHASH_IMAGE_SIZE, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  await saveImageHash(key, perceptualHash(pixels), key.split('/')[0]);
 }
 
 /**
@@ -0,0 +1,437 @@
+/**
+ * @fileoverview Buyer–seller messaging API handler.
+ *
+ * Endpoints (authenticated):
+ * - GET  /api/messages/threads?box=inbox|outbox     - Threads as seller (inbox) or buyer (outbox)
+ * - POST /api/messages/threads                      - Message a listing's seller (`{ listingId, body, attachments? }`)
+ * - GET  /api/messages/threads/:threadId            - Thread with a page of messages (`?before=&limit=`)
+ * - POST /api/messages/threads/:threadId/messages   - Reply in a thread (`{ body, attachments? }`)
+ * - POST /api/messages/threads/:threadId/read       - Mark a thread read
+ * - GET  /api/messages/unread-count                 - Unread messages across all threads
+ *
+ * Dealer sub-accounts with `accessScope.leads` see and answer their parent
+ * dealer's inbox. Every message notifies the recipient in-app and by email
+ * through a masked relay address; replies to that address arrive through
+ * `inboundEmailHandler` (SES inbound email stored in S3).
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, SESEvent } from 'aws-lambda';
+import { db } from '../shared/database';
+import { emailService } from '../shared/email';
+import { createResponse, createErrorResponse, parseBody, getUserId } from '../shared/utils';
+import { ValidationFramework, CommonRules } from '../shared/validators';
+import { isSearchable } from '../search/filters';
+import { checkSubAccountPermission } from '../dealer-service';
+import {
+  DealerSubAccount,
+  MessageAttachment,
+  MessageParticipantRole,
+  MessageThread,
+  MessageThreadSummary,
+  UserStatus,
+} from '../types/common';
+import {
+  findOrCreateThread,
+  getThread,
+  listThreads,
+  listMessages,
+  addMessage,
+  markThreadRead,
+  otherRole,
+  DEFAULT_MESSAGE_PAGE_SIZE,
+} from './thread-manager';
+import { createRelayAddress, parseRelayAddress, extractEmailAddress, extractReplyText, readInboundEmail } from './relay';
+
+const INBOUND_EMAIL_BUCKET = process.env.INBOUND_EMAIL_BUCKET || 'harborlist-inbound-email';
+const INBOUND_EMAIL_PREFIX = process.env.INBOUND_EMAIL_PREFIX || 'messages/';
+
+/**
+ * Maximum message length in characters
+ */
+const MAX_MESSAGE_LENGTH = 5000;
+
+/**
+ * Maximum attachments per message
+ */
+const MAX_ATTACHMENTS = 5;
+
+/**
+ * Largest page of messages a client can request
+ */
+const MAX_MESSAGE_PAGE_SIZE = 100;
+
+/**
+ * The caller and the seller inboxes they can act for
+ */
+interface MessagingIdentity {
+  userId: string;
+  name: string;
+  /** The caller's own ID plus their parent dealer's when they have lead access */
+  sellerIds: string[];
+}
+
+/**
+ * Message being sent by a participant
+ */
+interface OutgoingMessage {
+  senderId: string;
+  senderName: string;
+  body: string;
+  attachments?: MessageAttachment[];
+  source: 'web' | 'relay';
+}
+
+/**
+ * Loads the caller and the seller inboxes they can act for
+ */
+async function getIdentity(userId: string): Promise<MessagingIdentity | null> {
+  const user = await db.getUser(userId);
+  if (!user) {
+    return null;
+  }
+
+  const sellerIds = [userId];
+  if (
+    user.isDealerSubAccount &&
+    user.parentDealerId &&
+    user.status === UserStatus.ACTIVE &&
+    user.accessScope &&
+    checkSubAccountPermission(user as DealerSubAccount, 'lead', 'read')
+  ) {
+    sellerIds.push(user.parentDealerId);
+  }
+
+  return { userId, name: user.name || 'HarborList user', sellerIds };
+}
+
+/**
+ * Returns the caller's role in a thread, or null when they cannot see it
+ */
+function getRole(thread: MessageThread, identity: MessagingIdentity): MessageParticipantRole | null {
+  if (thread.buyerId === identity.userId) {
+    return 'buyer';
+  }
+  if (identity.sellerIds.includes(thread.sellerId)) {
+    return 'seller';
+  }
+  return null;
+}
+
+/**
+ * Presents a thread from one participant's side
+ */
+function toSummary(thread: MessageThread, role: MessageParticipantRole): MessageThreadSummary {
+  return {
+    ...thread,
+    role,
+    unreadCount: role === 'buyer' ? thread.buyerUnreadCount : thread.sellerUnreadCount,
+  };
+}
+
+/**
+ * Checks message attachments came from the sender's media uploads
+ *
+ * @returns An error message, or null when the attachments are valid
+ */
+function validateAttachments(attachments: unknown, senderId: string): string | null {
+  if (attachments === undefined) {
+    return null;
+  }
+  if (!Array.isArray(attachments) || attachments.length > MAX_ATTACHMENTS) {
+    return `Attachments must be a list of at most ${MAX_ATTACHMENTS} files`;
+  }
+
+  for (const attachment of attachments as MessageAttachment[]) {
+    if (!attachment || typeof attachment.url !== 'string' || typeof attachment.fileName !== 'string' ||
+        typeof attachment.contentType !== 'string') {
+      return 'Each attachment needs a url, fileName and contentType';
+    }
+    let url: URL;
+    try {
+      url = new URL(attachment.url);
+    } catch {
+      return `Invalid attachment URL: ${attachment.url}`;
+    }
+    // Media uploads are stored under the uploader's user ID
+    if (!['http:', 'https:'].includes(url.protocol) || !url.pathname.split('/').includes(senderId)) {
+      return 'Attachments must be uploaded through the media upload service';
+    }
+  }
+  return null;
+}
+
+/**
+ * Stores a message and tells the other participant about it
+ *
+ * The recipient gets an in-app notification and an email whose reply-to is
+ * the thread's masked relay address. Notification failures are logged and
+ * never fail the send.
+ */
+async function postMessage(
+  thread: MessageThread,
+  role: MessageParticipantRole,
+  outgoing: OutgoingMessage,
+  isNewConversation: boolean
+) {
+  // Replying means the sender has seen everything before it
+  await markThreadRead(thread, role);
+  const message = await addMessage(thread, { ...outgoing, senderRole: role });
+
+  const recipientRole = otherRole(role);
+  const recipientId = recipientRole === 'seller' ? thread.sellerId : thread.buyerId;
+  const threadPath = `/messages/${thread.threadId}`;
+
+  try {
+    // Imported lazily to avoid loading the notification service for reads
+    const { createNotification } = await import('../notification-service');
+    await createNotification(
+      recipientId,
+      isNewConversation ? 'listing_inquiry' : 'message',
+      isNewConversation ? `New inquiry: ${thread.listingTitle}` : `New message from ${outgoing.senderName}`,
+      outgoing.body.slice(0, 140),
+      { threadId: thread.threadId, listingId: thread.listingId, messageId: message.messageId },
+      threadPath
+    );
+  } catch (error) {
+    console.error(`Failed to notify ${recipientId} of message in thread ${thread.threadId}:`, error);
+  }
+
+  try {
+    const recipient = await db.getUser(recipientId);
+    if (recipient?.email) {
+      await emailService.sendMessageRelayEmail(recipient.email, recipient.name || 'there', {
+        senderName: outgoing.senderName,
+        listingTitle: thread.listingTitle,
+        body: outgoing.body,
+        attachmentCount: outgoing.attachments?.length || 0,
+        threadUrl: `${process.env.FRONTEND_URL || 'https://harborlist.com'}${threadPath}`,
+        replyTo: createRelayAddress(thread.threadId, recipientRole),
+        isNewConversation,
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to relay message in thread ${thread.threadId} by email:`, error);
+  }
+
+  return message;
+}
+
+/**
+ * Main Lambda handler for messaging requests
+ *
+ * @param event - API Gateway proxy event
+ * @returns Promise<APIGatewayProxyResult> - Messaging response
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const method = event.httpMethod;
+  const path = event.path.split('?')[0];
+
+  if (method === 'OPTIONS') {
+    return createResponse(200, {});
+  }
+
+  let userId: string;
+  try {
+    userId = getUserId(event);
+  } catch {
+    return createErrorResponse(401, 'UNAUTHORIZED', 'User authentication required', requestId);
+  }
+
+  try {
+    const identity = await getIdentity(userId);
+    if (!identity) {
+      return createErrorResponse(401, 'UNAUTHORIZED', 'User account not found', requestId);
+    }
+
+    // GET /api/messages/unread-count - Unread messages across all threads
+    if (method === 'GET' && path.endsWith('/messages/unread-count')) {
+      const [outbox, ...inboxes] = await Promise.all([
+        listThreads('buyer', userId),
+        ...identity.sellerIds.map(sellerId => listThreads('seller', sellerId)),
+      ]);
+      const unreadCount = outbox.reduce((sum, thread) => sum + (thread.buyerUnreadCount || 0), 0) +
+        inboxes.flat().reduce((sum, thread) => sum + (thread.sellerUnreadCount || 0), 0);
+      return createResponse(200, { unreadCount });
+    }
+
+    // GET /api/messages/threads - Inbox (as seller) and/or outbox (as buyer)
+    if (method === 'GET' && /\/messages\/threads\/?$/.test(path)) {
+      const box = event.queryStringParameters?.box;
+      const summaries: MessageThreadSummary[] = [];
+      if (box !== 'outbox') {
+        const inboxes = await Promise.all(identity.sellerIds.map(sellerId => listThreads('seller', sellerId)));
+        summaries.push(...inboxes.flat().map(thread => toSummary(thread, 'seller')));
+      }
+      if (box !== 'inbox') {
+        const outbox = await listThreads('buyer', userId);
+        summaries.push(...outbox.map(thread => toSummary(thread, 'buyer')));
+      }
+      summaries.sort((a, b) => b.lastMessageAt - a.lastMessageAt);
+      return createResponse(200, { threads: summaries });
+    }
+
+    // POST /api/messages/threads - Message a listing's seller
+    if (method === 'POST' && /\/messages\/threads\/?$/.test(path)) {
+      const body = parseBody<{ listingId: string; body: string; attachments?: MessageAttachment[] }>(event);
+      const text = typeof body.body === 'string' ? body.body.trim() : '';
+      const validation = ValidationFramework.validate({ ...body, body: text }, [
+        CommonRules.required('listingId', 'Listing ID'),
+        CommonRules.required('body', 'Message'),
+        CommonRules.maxLength('body', MAX_MESSAGE_LENGTH, 'Message'),
+      ], requestId);
+      if (!validation.isValid) {
+        return validation.response!;
+      }
+      const attachmentError = validateAttachments(body.attachments, userId);
+      if (attachmentError) {
+        return createErrorResponse(400, 'INVALID_ATTACHMENTS', attachmentError, requestId);
+      }
+
+      const listing = await db.getListing(body.listingId);
+      if (!listing || !isSearchable(listing as any)) {
+        return createErrorResponse(404, 'NOT_FOUND', 'Listing not found', requestId);
+      }
+      if (identity.sellerIds.includes(listing.ownerId)) {
+        return createErrorResponse(400, 'OWN_LISTING', 'You cannot message yourself about your own listing', requestId);
+      }
+
+      const seller = await db.getUser(listing.ownerId);
+      const { thread, created } = await findOrCreateThread({
+        listingId: listing.listingId,
+        listingTitle: listing.title,
+        buyerId: userId,
+        buyerName: identity.name,
+        sellerId: listing.ownerId,
+        sellerName: seller?.name || 'Seller',
+      });
+
+      const message = await postMessage(thread, 'buyer', {
+        senderId: userId,
+        senderName: identity.name,
+        body: text,
+        attachments: body.attachments,
+        source: 'web',
+      }, created);
+
+      const updated = (await getThread(thread.threadId)) || thread;
+      return createResponse(created ? 201 : 200, { thread: toSummary(updated, 'buyer'), message });
+    }
+
+    const threadMatch = path.match(/\/messages\/threads\/([^/]+)(?:\/(messages|read))?\/?$/);
+    if (threadMatch) {
+      const [, threadId, action] = threadMatch;
+      const thread = await getThread(threadId);
+      const role = thread && getRole(thread, identity);
+      if (!thread || !role) {
+        return createErrorResponse(404, 'NOT_FOUND', 'Conversation not found', requestId);
+      }
+
+      // GET /api/messages/threads/:threadId - Thread with a page of messages
+      if (method === 'GET' && !action) {
+        const limit = Math.min(
+          parseInt(event.queryStringParameters?.limit || '', 10) || DEFAULT_MESSAGE_PAGE_SIZE,
+          MAX_MESSAGE_PAGE_SIZE
+        );
+        const page = await listMessages(threadId, { limit, before: event.queryStringParameters?.before });
+        return createResponse(200, { thread: toSummary(thread, role), ...page });
+      }
+
+      // POST /api/messages/threads/:threadId/messages - Reply in a thread
+      if (method === 'POST' && action === 'messages') {
+        const body = parseBody<{ body: string; attachments?: MessageAttachment[] }>(event);
+        const text = typeof body.body === 'string' ? body.body.trim() : '';
+        const validation = ValidationFramework.validate({ ...body, body: text }, [
+          CommonRules.required('body', 'Message'),
+          CommonRules.maxLength('body', MAX_MESSAGE_LENGTH, 'Message'),
+        ], requestId);
+        if (!validation.isValid) {
+          return validation.response!;
+        }
+        const attachmentError = validateAttachments(body.attachments, userId);
+        if (attachmentError) {
+          return createErrorResponse(400, 'INVALID_ATTACHMENTS', attachmentError, requestId);
+        }
+
+        const message = await postMessage(thread, role, {
+          senderId: userId,
+          senderName: identity.name,
+          body: text,
+          attachments: body.attachments,
+          source: 'web',
+        }, false);
+        return createResponse(201, { message });
+      }
+
+      // POST /api/messages/threads/:threadId/read - Mark a thread read
+      if (method === 'POST' && action === 'read') {
+        const marked = await markThreadRead(thread, role);
+        return createResponse(200, { marked });
+      }
+    }
+
+    return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
+  } catch (error) {
+    console.error('Messaging error:', error);
+    if (error instanceof Error && error.message.includes('Invalid JSON')) {
+      return createErrorResponse(400, 'INVALID_REQUEST', error.message, requestId);
+    }
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Messaging request failed', requestId);
+  }
+};
+
+/**
+ * SES inbound email handler for replies to relay addresses
+ *
+ * Triggered by an SES receipt rule after the email has been stored in S3.
+ * Replies are accepted only from the email address of the participant the
+ * relay address was issued to; the quoted conversation is stripped.
+ *
+ * @param event - SES receipt event
+ * @returns Promise<void> - Completes when all replies are posted
+ */
+export const inboundEmailHandler = async (event: SESEvent): Promise<void> => {
+  for (const record of event.Records) {
+    const { mail, receipt } = record.ses;
+
+    try {
+      if (receipt.spamVerdict?.status === 'FAIL' || receipt.virusVerdict?.status === 'FAIL') {
+        console.warn(`Dropping inbound email ${mail.messageId}: failed spam or virus checks`);
+        continue;
+      }
+
+      const relay = receipt.recipients.map(parseRelayAddress).find(Boolean);
+      const thread = relay ? await getThread(relay.threadId) : null;
+      if (!relay || !thread) {
+        console.warn(`Dropping inbound email ${mail.messageId}: no valid relay address`);
+        continue;
+      }
+
+      const participant = await db.getUser(relay.role === 'buyer' ? thread.buyerId : thread.sellerId);
+      const from = extractEmailAddress(mail.commonHeaders.from?.[0] || mail.source);
+      if (!participant?.email || participant.email.toLowerCase() !== from) {
+        console.warn(`Dropping inbound email ${mail.messageId}: sender does not match the thread participant`);
+        continue;
+      }
+
+      const raw = await readInboundEmail(INBOUND_EMAIL_BUCKET, `${INBOUND_EMAIL_PREFIX}${mail.messageId}`);
+      const text = extractReplyText(raw).slice(0, MAX_MESSAGE_LENGTH);
+      if (!text) {
+        console.warn(`Dropping inbound email ${mail.messageId}: empty reply`);
+        continue;
+      }
+
+      await postMessage(thread, relay.role, {
+        senderId: participant.id,
+        senderName: participant.name || (relay.role === 'buyer' ? thread.buyerName : thread.sellerName),
+        body: text,
+        source: 'relay',
+      }, false);
+    } catch (error) {
+      console.error(`Failed to process inbound email ${mail.messageId}:`, error);
+    }
+  }
+};
@@ -0,0 +1,340 @@
+/**
+ * @fileoverview Unit tests for buyer–seller messaging
+ *
+ * Tests the messaging API handler (threads, replies, read receipts, unread
+ * counts and dealer sub-account access), the masked relay addresses and the
+ * inbound email handler for relay replies.
+ */
+
+import { handler, inboundEmailHandler } from './index';
+import { createRelayAddress, parseRelayAddress, extractReplyText, readInboundEmail } from './relay';
+import {
+  findOrCreateThread,
+  getThread,
+  listThreads,
+  addMessage,
+  markThreadRead,
+} from './thread-manager';
+import { createNotification } from '../notification-service';
+import { emailService } from '../shared/email';
+import { db } from '../shared/database';
+import { MessageThread } from '../types/common';
+import { APIGatewayProxyEvent, SESEvent } from 'aws-lambda';
+
+jest.mock('./thread-manager', () => ({
+  ...jest.requireActual('./thread-manager'),
+  findOrCreateThread: jest.fn(),
+  getThread: jest.fn(),
+  listThreads: jest.fn(),
+  listMessages: jest.fn(),
+  addMessage: jest.fn(),
+  markThreadRead: jest.fn(),
+}));
+
+jest.mock('./relay', () => ({
+  ...jest.requireActual('./relay'),
+  readInboundEmail: jest.fn(),
+}));
+
+jest.mock('../notification-service', () => ({
+  createNotification: jest.fn(),
+}));
+
+jest.mock('../shared/email', () => ({
+  emailService: {
+    sendMessageRelayEmail: jest.fn(),
+  },
+}));
+
+jest.mock('../shared/database', () => ({
+  db: {
+    getListing: jest.fn(),
+    getUser: jest.fn(),
+  },
+}));
+
+const mockGetUser = db.getUser as jest.Mock;
+const mockGetListing = db.getListing as jest.Mock;
+const mockGetThread = getThread as jest.MockedFunction<typeof getThread>;
+const mockListThreads = listThreads as jest.MockedFunction<typeof listThreads>;
+const mockAddMessage = addMessage as jest.MockedFunction<typeof addMessage>;
+
+const users: Record<string, any> = {
+  'buyer-1': { id: 'buyer-1', name: 'Bob Buyer', email: 'bob@example.com', status: 'active' },
+  'dealer-1': { id: 'dealer-1', name: 'Acme Marine', email: 'sales@acme.example.com', status: 'active' },
+  'staff-1': {
+    id: 'staff-1',
+    name: 'Sam Staff',
+    email: 'sam@acme.example.com',
+    status: 'active',
+    isDealerSubAccount: true,
+    parentDealerId: 'dealer-1',
+    dealerAccountRole: 'staff',
+    accessScope: { listings: 'all', leads: true, analytics: false, inventory: false, pricing: false, financial: false },
+  },
+  'staff-2': {
+    id: 'staff-2',
+    name: 'No Leads',
+    email: 'noleads@acme.example.com',
+    status: 'active',
+    isDealerSubAccount: true,
+    parentDealerId: 'dealer-1',
+    dealerAccountRole: 'staff',
+    accessScope: { listings: 'all', leads: false, analytics: false, inventory: false, pricing: false, financial: false },
+  },
+};
+
+function createThread(overrides: Partial<MessageThread> = {}): MessageThread {
+  return {
+    threadId: 'abc123',
+    listingId: 'listing-1',
+    listingTitle: '2019 Grady-White 257',
+    buyerId: 'buyer-1',
+    buyerName: 'Bob Buyer',
+    sellerId: 'dealer-1',
+    sellerName: 'Acme Marine',
+    createdAt: 1000,
+    lastMessageAt: 2000,
+    lastMessagePreview: 'Is it still available?',
+    lastMessageSenderId: 'buyer-1',
+    buyerUnreadCount: 1,
+    sellerUnreadCount: 2,
+    ...overrides,
+  };
+}
+
+function createEvent(method: string, path: string, body?: any, userId: string | null = 'buyer-1', query?: Record<string, string>): APIGatewayProxyEvent {
+  return {
+    httpMethod: method,
+    path,
+    body: body ? JSON.stringify(body) : null,
+    queryStringParameters: query || null,
+    requestContext: {
+      requestId: 'test-request',
+      ...(userId && { authorizer: { claims: { sub: userId } } }),
+    } as any,
+  } as APIGatewayProxyEvent;
+}
+
+describe('Messaging', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetUser.mockImplementation(async (userId: string) => users[userId] || null);
+    mockAddMessage.mockImplementation(async (thread, input) => ({
+      ...input,
+      threadId: thread.threadId,
+      messageId: '0000000003000-xyz',
+      createdAt: 3000,
+    }));
+  });
+
+  describe('API handler', () => {
+    test('should require authentication', async () => {
+      const result = await handler(createEvent('GET', '/api/messages/threads', undefined, null));
+      expect(result.statusCode).toBe(401);
+    });
+
+    test('should start a thread, notify the seller and relay the message by email', async () => {
+      mockGetListing.mockResolvedValue({ listingId: 'listing-1', ownerId: 'dealer-1', title: '2019 Grady-White 257', status: 'active' });
+      (findOrCreateThread as jest.Mock).mockResolvedValue({ thread: createThread(), created: true });
+      mockGetThread.mockResolvedValue(createThread());
+
+      const result = await handler(createEvent('POST', '/api/messages/threads', {
+        listingId: 'listing-1',
+        body: '  Is it still available?  ',
+      }));
+
+      expect(result.statusCode).toBe(201);
+      expect(findOrCreateThread).toHaveBeenCalledWith(expect.objectContaining({
+        buyerId: 'buyer-1',
+        sellerId: 'dealer-1',
+        sellerName: 'Acme Marine',
+      }));
+      expect(mockAddMessage).toHaveBeenCalledWith(expect.any(Object), expect.objectContaining({
+        senderRole: 'buyer',
+        body: 'Is it still available?',
+        source: 'web',
+      }));
+      expect(createNotification).toHaveBeenCalledWith(
+        'dealer-1',
+        'listing_inquiry',
+        'New inquiry: 2019 Grady-White 257',
+        'Is it still available?',
+        expect.objectContaining({ threadId: 'abc123' }),
+        '/messages/abc123'
+      );
+
+      const [to, , relay] = (emailService.sendMessageRelayEmail as jest.Mock).mock.calls[0];
+      expect(to).toBe('sales@acme.example.com');
+      expect(relay.replyTo).toMatch(/^reply\+abc123\.s\./);
+      expect(relay.body).not.toContain('bob@example.com');
+      expect(JSON.parse(result.body).thread.role).toBe('buyer');
+    });
+
+    test('should not let users message themselves or message hidden listings', async () => {
+      mockGetListing.mockResolvedValueOnce({ listingId: 'listing-1', ownerId: 'dealer-1', status: 'active' });
+      const own = await handler(createEvent('POST', '/api/messages/threads', { listingId: 'listing-1', body: 'Hi' }, 'staff-1'));
+
+      mockGetListing.mockResolvedValueOnce({ listingId: 'listing-1', ownerId: 'dealer-1', status: 'pending_review' });
+      const hidden = await handler(createEvent('POST', '/api/messages/threads', { listingId: 'listing-1', body: 'Hi' }));
+
+      expect(own.statusCode).toBe(400);
+      expect(hidden.statusCode).toBe(404);
+      expect(findOrCreateThread).not.toHaveBeenCalled();
+    });
+
+    test('should reject attachments that were not uploaded by the sender', async () => {
+      const result = await handler(createEvent('POST', '/api/messages/threads', {
+        listingId: 'listing-1',
+        body: 'Photos attached',
+        attachments: [{ url: 'https://media.example.com/someone-else/photo', fileName: 'photo.jpg', contentType: 'image/jpeg' }],
+      }));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error.code).toBe('INVALID_ATTACHMENTS');
+    });
+
+    test('should let dealer sub-accounts with lead access answer the dealer inbox', async () => {
+      mockGetThread.mockResolvedValue(createThread());
+
+      const reply = await handler(createEvent('POST', '/api/messages/threads/abc123/messages', { body: 'Yes, it is!' }, 'staff-1'));
+      const denied = await handler(createEvent('GET', '/api/messages/threads/abc123', undefined, 'staff-2'));
+
+      expect(reply.statusCode).toBe(201);
+      expect(markThreadRead).toHaveBeenCalledWith(expect.any(Object), 'seller');
+      expect(mockAddMessage).toHaveBeenCalledWith(expect.any(Object), expect.objectContaining({
+        senderId: 'staff-1',
+        senderRole: 'seller',
+      }));
+      expect(createNotification).toHaveBeenCalledWith(
+        'buyer-1', 'message', 'New message from Sam Staff', 'Yes, it is!', expect.any(Object), '/messages/abc123'
+      );
+      expect(denied.statusCode).toBe(404);
+    });
+
+    test('should list the inbox with per-role unread counts', async () => {
+      mockListThreads.mockImplementation(async (role, userId) =>
+        role === 'seller' && userId === 'dealer-1' ? [createThread()] : []
+      );
+
+      const result = await handler(createEvent('GET', '/api/messages/threads', undefined, 'staff-1', { box: 'inbox' }));
+      const { threads } = JSON.parse(result.body);
+
+      expect(mockListThreads).toHaveBeenCalledWith('seller', 'staff-1');
+      expect(mockListThreads).toHaveBeenCalledWith('seller', 'dealer-1');
+      expect(mockListThreads).not.toHaveBeenCalledWith('buyer', expect.anything());
+      expect(threads).toHaveLength(1);
+      expect(threads[0]).toMatchObject({ role: 'seller', unreadCount: 2 });
+    });
+
+    test('should total unread messages across inbox and outbox', async () => {
+      mockListThreads.mockImplementation(async (role) =>
+        role === 'buyer' ? [createThread({ buyerUnreadCount: 3 })] : [createThread({ sellerUnreadCount: 4 })]
+      );
+
+      const result = await handler(createEvent('GET', '/api/messages/unread-count'));
+
+      expect(JSON.parse(result.body).unreadCount).toBe(7);
+    });
+
+    test('should mark a thread read for the caller\'s side', async () => {
+      mockGetThread.mockResolvedValue(createThread());
+      (markThreadRead as jest.Mock).mockResolvedValue(2);
+
+      const result = await handler(createEvent('POST', '/api/messages/threads/abc123/read'));
+
+      expect(markThreadRead).toHaveBeenCalledWith(expect.objectContaining({ threadId: 'abc123' }), 'buyer');
+      expect(JSON.parse(result.body).marked).toBe(2);
+    });
+  });
+
+  describe('relay addresses', () => {
+    test('should round-trip a relay address', () => {
+      const address = createRelayAddress('abc123', 'seller');
+
+      expect(parseRelayAddress(`Acme Marine <${address}>`)).toEqual({ threadId: 'abc123', role: 'seller' });
+    });
+
+    test('should reject forged relay addresses', () => {
+      const address = createRelayAddress('abc123', 'seller');
+
+      expect(parseRelayAddress(address.replace('abc123.s', 'abc123.b'))).toBeNull();
+      expect(parseRelayAddress(address.replace('abc123', 'def456'))).toBeNull();
+      expect(parseRelayAddress('sales@acme.example.com')).toBeNull();
+    });
+
+    test('should strip quoted text from replies', () => {
+      const raw = [
+        'From: Acme Marine <sales@acme.example.com>',
+        'Content-Type: text/plain; charset=UTF-8',
+        '',
+        'Yes, it is still available.',
+        'Come see it Saturday.',
+        '',
+        'On Mon, Oct 19, 2026 at 10:00 AM HarborList <reply+abc@reply.harborlist.com> wrote:',
+        '> Is it still available?',
+      ].join('\r\n');
+
+      expect(extractReplyText(raw)).toBe('Yes, it is still available.\nCome see it Saturday.');
+    });
+
+    test('should read the plain-text part of multipart replies', () => {
+      const raw = [
+        'Content-Type: multipart/alternative; boundary="b1"',
+        '',
+        '--b1',
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from('Sounds good, see you then.').toString('base64'),
+        '--b1',
+        'Content-Type: text/html; charset=UTF-8',
+        '',
+        '<p>Sounds good, see you then.</p>',
+        '--b1--',
+      ].join('\r\n');
+
+      expect(extractReplyText(raw)).toBe('Sounds good, see you then.');
+    });
+  });
+
+  describe('inboundEmailHandler', () => {
+    function createSesEvent(recipient: string, from: string): SESEvent {
+      return {
+        Records: [{
+          ses: {
+            mail: { messageId: 'ses-1', source: from, commonHeaders: { from: [from] } },
+            receipt: { recipients: [recipient], spamVerdict: { status: 'PASS' }, virusVerdict: { status: 'PASS' } },
+          },
+        }],
+      } as any;
+    }
+
+    test('should post relay replies from the thread participant', async () => {
+      mockGetThread.mockResolvedValue(createThread());
+      (readInboundEmail as jest.Mock).mockResolvedValue('Content-Type: text/plain\r\n\r\nSee you Saturday.');
+
+      await inboundEmailHandler(createSesEvent(createRelayAddress('abc123', 'seller'), 'Acme Marine <sales@acme.example.com>'));
+
+      expect(readInboundEmail).toHaveBeenCalledWith('harborlist-inbound-email', 'messages/ses-1');
+      expect(mockAddMessage).toHaveBeenCalledWith(expect.any(Object), expect.objectContaining({
+        senderId: 'dealer-1',
+        senderRole: 'seller',
+        body: 'See you Saturday.',
+        source: 'relay',
+      }));
+      expect(createNotification).toHaveBeenCalledWith(
+        'buyer-1', 'message', expect.any(String), 'See you Saturday.', expect.any(Object), '/messages/abc123'
+      );
+    });
+
+    test('should drop replies from other senders', async () => {
+      mockGetThread.mockResolvedValue(createThread());
+
+      await inboundEmailHandler(createSesEvent(createRelayAddress('abc123', 'seller'), 'someone@else.example.com'));
+
+      expect(readInboundEmail).not.toHaveBeenCalled();
+      expect(mockAddMessage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Masked email relay for buyer–seller conversations.
+ *
+ * Messages are emailed to the other participant with a reply-to address of
+ * the form `reply+<threadId>.<b|s>.<signature>@<relay domain>`:
+ * - Neither participant's real email address is exposed
+ * - The address identifies the thread and the participant it was sent to
+ * - The signature stops anyone from forging an address for another thread
+ *
+ * Replies arrive through SES inbound email (stored in S3) and are turned
+ * back into conversation messages by `inboundEmailHandler` in `index.ts`.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { MessageParticipantRole } from '../types/common';
+
+const RELAY_DOMAIN = process.env.MESSAGE_RELAY_DOMAIN || 'reply.harborlist.com';
+const RELAY_SECRET = process.env.MESSAGE_RELAY_SECRET || 'local-message-relay-secret';
+
+const s3Client = new S3Client({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.S3_ENDPOINT && {
+    endpoint: process.env.S3_ENDPOINT,
+    forcePathStyle: true,
+  }),
+});
+
+/**
+ * Role codes used in relay addresses
+ */
+const ROLE_CODES: Record<MessageParticipantRole, string> = {
+  buyer: 'b',
+  seller: 's',
+};
+
+/**
+ * Length of the hex signature in relay addresses
+ */
+const SIGNATURE_LENGTH = 20;
+
+/**
+ * Signs a thread and role for a relay address
+ */
+function sign(threadId: string, roleCode: string): string {
+  return createHmac('sha256', RELAY_SECRET)
+    .update(`${threadId}.${roleCode}`)
+    .digest('hex')
+    .slice(0, SIGNATURE_LENGTH);
+}
+
+/**
+ * Builds the masked reply-to address given to a participant
+ *
+ * @param threadId - Conversation thread
+ * @param role - Role of the participant who will reply from the address
+ * @returns Relay email address
+ *
+ * @example
+ * ```typescript
+ * createRelayAddress('3f2a...', 'seller');
+ * // 'reply+3f2a....s.9c1d...@reply.harborlist.com'
+ * ```
+ */
+export function createRelayAddress(threadId: string, role: MessageParticipantRole): string {
+  const roleCode = ROLE_CODES[role];
+  return `reply+${threadId}.${roleCode}.${sign(threadId, roleCode)}@${RELAY_DOMAIN}`;
+}
+
+/**
+ * Reads the thread and participant from a relay address
+ *
+ * @param address - Recipient address of an inbound email
+ * @returns The thread and role, or null when the address is not a valid relay address
+ */
+export function parseRelayAddress(address: string): { threadId: string; role: MessageParticipantRole } | null {
+  const match = extractEmailAddress(address).match(/^reply\+([a-f0-9]+)\.([bs])\.([a-f0-9]+)@(.+)$/);
+  if (!match || match[4] !== RELAY_DOMAIN.toLowerCase()) {
+    return null;
+  }
+
+  const [, threadId, roleCode, signature] = match;
+  const expected = sign(threadId, roleCode);
+  if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null;
+  }
+
+  return { threadId, role: roleCode === 'b' ? 'buyer' : 'seller' };
+}
+
+/**
+ * Extracts the bare, lower-cased address from an email header value
+ *
+ * @param value - Header value such as `Jane Doe <jane@example.com>`
+ * @returns The email address
+ */
+export function extractEmailAddress(value: string): string {
+  const bracketed = value.match(/<([^>]+)>/);
+  return (bracketed ? bracketed[1] : value).trim().toLowerCase();
+}
+
+/**
+ * Decodes a MIME part body according to its transfer encoding
+ */
+function decodeBody(body: string, headers: string): string {
+  const encoding = headers.match(/content-transfer-encoding:\s*([^\s;]+)/i)?.[1]?.toLowerCase();
+  if (encoding === 'base64') {
+    return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf-8');
+  }
+  if (encoding === 'quoted-printable') {
+    const bytes = body
+      .replace(/=\r?\n/g, '')
+      .replace(/=([A-Fa-f0-9]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    return Buffer.from(bytes, 'binary').toString('utf-8');
+  }
+  return body;
+}
+
+/**
+ * Finds the plain-text body of a raw (RFC 822) email
+ */
+function findPlainText(raw: string): string {
+  const separator = raw.search(/\r?\n\r?\n/);
+  const headers = separator >= 0 ? raw.slice(0, separator) : raw;
+  const body = separator >= 0 ? raw.slice(separator).replace(/^\r?\n\r?\n/, '') : '';
+
+  const boundary = headers.match(/boundary="?([^";\r\n]+)"?/i)?.[1];
+  if (!boundary) {
+    return /content-type:\s*text\/html/i.test(headers)
+      ? decodeBody(body, headers).replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '')
+      : decodeBody(body, headers);
+  }
+
+  const parts = body.split(`--${boundary}`).slice(1);
+  for (const part of parts) {
+    if (part.startsWith('--')) {
+      break;
+    }
+    const text = findPlainText(part.replace(/^\r?\n/, ''));
+    if (text.trim()) {
+      return text;
+    }
+  }
+  return '';
+}
+
+/**
+ * Extracts the new text of an email reply
+ *
+ * Takes the plain-text body and drops the quoted conversation below it
+ * (`On ... wrote:` lines, `>` quotes and signatures delimited by `-- `).
+ *
+ * @param raw - Raw email as stored by SES
+ * @returns The reply text, trimmed
+ */
+export function extractReplyText(raw: string): string {
+  const lines = findPlainText(raw).replace(/\r\n/g, '\n').split('\n');
+  const reply: string[] = [];
+
+  for (const line of lines) {
+    if (/^On .+wrote:\s*$/.test(line) || /^-{2,}\s*Original Message\s*-{2,}/i.test(line) || line === '-- ') {
+      break;
+    }
+    if (line.startsWith('>')) {
+      continue;
+    }
+    reply.push(line);
+  }
+
+  return reply.join('\n').trim();
+}
+
+/**
+ * Reads a raw inbound email stored in S3 by an SES receipt rule
+ *
+ * @param bucket - Inbound email bucket
+ * @param key - Object key of the email
+ * @returns Promise<string> - The raw email
+ */
+export async function readInboundEmail(bucket: string, key: string): Promise<string> {
+  const result = await s3Client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+  return (await result.Body?.transformToString('utf-8')) || '';
+}
@@ -0,0 +1,324 @@
+/**
+ * @fileoverview Conversation thread and message storage for buyer–seller messaging.
+ *
+ * Stores one thread per listing, buyer and seller, plus the thread's messages:
+ * - Threads are found by seller (owner inbox) and by buyer (outbox)
+ * - Each side has an unread counter and a last-read time; messages from the
+ *   other side are stamped with `readAt` when the thread is read (read receipts)
+ * - Messages are kept in chronological order and paged newest-first
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { createHash } from 'crypto';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { Message, MessageParticipantRole, MessageThread } from '../types/common';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const MESSAGE_THREADS_TABLE = process.env.MESSAGE_THREADS_TABLE || 'harborlist-message-threads';
+const MESSAGES_TABLE = process.env.MESSAGES_TABLE || 'harborlist-messages';
+
+/**
+ * Thread indexes by participant, sorted by latest activity
+ */
+const SELLER_INDEX = 'seller-index';
+const BUYER_INDEX = 'buyer-index';
+
+/**
+ * Length of the message preview stored on a thread
+ */
+const PREVIEW_LENGTH = 140;
+
+/**
+ * Default number of messages returned per page
+ */
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+
+/**
+ * Details needed to start a thread
+ */
+export type NewThread = Pick<
+  MessageThread,
+  'listingId' | 'listingTitle' | 'buyerId' | 'buyerName' | 'sellerId' | 'sellerName'
+>;
+
+/**
+ * Details of a message being sent
+ */
+export type NewMessage = Pick<
+  Message,
+  'senderId' | 'senderName' | 'senderRole' | 'body' | 'attachments' | 'source'
+>;
+
+/**
+ * Returns the other participant's role
+ *
+ * @param role - A participant role
+ * @returns The opposite role
+ */
+export function otherRole(role: MessageParticipantRole): MessageParticipantRole {
+  return role === 'buyer' ? 'seller' : 'buyer';
+}
+
+/**
+ * Builds the deterministic thread ID for a listing, buyer and seller
+ *
+ * A buyer always gets the same thread when contacting a seller about the
+ * same listing, however many times they start a conversation.
+ *
+ * @param listingId - Listing the conversation is about
+ * @param buyerId - Buyer user ID
+ * @param sellerId - Seller (listing owner) user ID
+ * @returns Thread identifier
+ */
+export function getThreadId(listingId: string, buyerId: string, sellerId: string): string {
+  return createHash('sha256').update(`${listingId}|${buyerId}|${sellerId}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * Builds a message ID that sorts chronologically within a thread
+ */
+function createMessageId(createdAt: number): string {
+  return `${createdAt.toString().padStart(13, '0')}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Retrieves a thread
+ *
+ * @param threadId - Thread identifier
+ * @returns Promise<MessageThread | null> - The thread, or null when it does not exist
+ */
+export async function getThread(threadId: string): Promise<MessageThread | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: MESSAGE_THREADS_TABLE,
+    Key: { threadId },
+  }));
+
+  return (result.Item as MessageThread) || null;
+}
+
+/**
+ * Returns the thread for a listing and buyer, creating it when needed
+ *
+ * @param input - Listing and participants of the conversation
+ * @returns Promise<{ thread: MessageThread; created: boolean }> - The thread and whether it is new
+ */
+export async function findOrCreateThread(input: NewThread): Promise<{ thread: MessageThread; created: boolean }> {
+  const threadId = getThreadId(input.listingId, input.buyerId, input.sellerId);
+  const existing = await getThread(threadId);
+  if (existing) {
+    return { thread: existing, created: false };
+  }
+
+  const now = Date.now();
+  const thread: MessageThread = {
+    ...input,
+    threadId,
+    createdAt: now,
+    lastMessageAt: now,
+    lastMessagePreview: '',
+    lastMessageSenderId: input.buyerId,
+    buyerUnreadCount: 0,
+    sellerUnreadCount: 0,
+  };
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: MESSAGE_THREADS_TABLE,
+      Item: thread,
+      ConditionExpression: 'attribute_not_exists(threadId)',
+    }));
+  } catch (error: any) {
+    // Started concurrently from another tab or device
+    if (error?.name === 'ConditionalCheckFailedException') {
+      return { thread: (await getThread(threadId)) || thread, created: false };
+    }
+    throw error;
+  }
+
+  return { thread, created: true };
+}
+
+/**
+ * Lists the threads a user takes part in with one role
+ *
+ * @param role - 'seller' for the owner inbox, 'buyer' for the outbox
+ * @param userId - Seller or buyer user ID
+ * @returns Promise<MessageThread[]> - Threads, most recently active first
+ */
+export async function listThreads(role: MessageParticipantRole, userId: string): Promise<MessageThread[]> {
+  const keyAttribute = role === 'seller' ? 'sellerId' : 'buyerId';
+  const threads: MessageThread[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: MESSAGE_THREADS_TABLE,
+      IndexName: role === 'seller' ? SELLER_INDEX : BUYER_INDEX,
+      KeyConditionExpression: `${keyAttribute} = :userId`,
+      ExpressionAttributeValues: {
+        ':userId': userId,
+      },
+      ScanIndexForward: false,
+      ExclusiveStartKey: lastKey,
+    }));
+    threads.push(...((result.Items || []) as MessageThread[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return threads;
+}
+
+/**
+ * Adds a message to a thread
+ *
+ * Updates the thread's latest-message details and the recipient's unread
+ * counter, and records the seller's first reply. Callers mark the thread
+ * read for the sender first (see `markThreadRead`).
+ *
+ * @param thread - Thread to post to
+ * @param input - Message details
+ * @returns Promise<Message> - The stored message
+ */
+export async function addMessage(thread: MessageThread, input: NewMessage): Promise<Message> {
+  const createdAt = Date.now();
+  const message: Message = {
+    ...input,
+    threadId: thread.threadId,
+    messageId: createMessageId(createdAt),
+    createdAt,
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: MESSAGES_TABLE,
+    Item: message,
+  }));
+
+  const recipientRole = otherRole(input.senderRole);
+  // The seller's first reply is kept for their profile's response time
+  const firstReply = input.senderRole === 'seller' ? ', sellerFirstReplyAt = if_not_exists(sellerFirstReplyAt, :createdAt)' : '';
+  await docClient.send(new UpdateCommand({
+    TableName: MESSAGE_THREADS_TABLE,
+    Key: { threadId: thread.threadId },
+    UpdateExpression: `SET lastMessageAt = :createdAt, lastMessagePreview = :preview, lastMessageSenderId = :senderId${firstReply} ` +
+      `ADD ${recipientRole}UnreadCount :one`,
+    ExpressionAttributeValues: {
+      ':createdAt': createdAt,
+      ':preview': input.body.slice(0, PREVIEW_LENGTH),
+      ':senderId': input.senderId,
+      ':one': 1,
+    },
+  }));
+
+  return message;
+}
+
+/**
+ * Lists a page of a thread's messages
+ *
+ * @param threadId - Thread identifier
+ * @param options - Page size and the message ID to page back from
+ * @returns Promise<{ messages: Message[]; nextCursor?: string }> - Messages in
+ *   chronological order and the cursor for older messages, if any
+ */
+export async function listMessages(
+  threadId: string,
+  options: { limit?: number; before?: string } = {}
+): Promise<{ messages: Message[]; nextCursor?: string }> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: MESSAGES_TABLE,
+    KeyConditionExpression: options.before
+      ? 'threadId = :threadId AND messageId < :before'
+      : 'threadId = :threadId',
+    ExpressionAttributeValues: {
+      ':threadId': threadId,
+      ...(options.before && { ':before': options.before }),
+    },
+    ScanIndexForward: false,
+    Limit: options.limit || DEFAULT_MESSAGE_PAGE_SIZE,
+  }));
+
+  const messages = ((result.Items || []) as Message[]).reverse();
+  return {
+    messages,
+    nextCursor: result.LastEvaluatedKey ? messages[0]?.messageId : undefined,
+  };
+}
+
+/**
+ * Marks a thread read for one participant
+ *
+ * Resets the participant's unread counter and stamps `readAt` on the other
+ * participant's messages received since the participant last read the thread.
+ *
+ * @param thread - Thread being read
+ * @param role - Role of the participant reading it
+ * @returns Promise<number> - Number of messages newly marked read
+ */
+export async function markThreadRead(thread: MessageThread, role: MessageParticipantRole): Promise<number> {
+  const now = Date.now();
+  const lastReadAt = (role === 'buyer' ? thread.buyerLastReadAt : thread.sellerLastReadAt) || 0;
+  const senderRole = otherRole(role);
+
+  const unread: Message[] = [];
+  let lastKey: Record<string, any> | undefined;
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: MESSAGES_TABLE,
+      KeyConditionExpression: 'threadId = :threadId AND messageId > :after',
+      FilterExpression: 'senderRole = :senderRole AND attribute_not_exists(readAt)',
+      ExpressionAttributeValues: {
+        ':threadId': thread.threadId,
+        ':after': lastReadAt.toString().padStart(13, '0'),
+        ':senderRole': senderRole,
+      },
+      ExclusiveStartKey: lastKey,
+    }));
+    unread.push(...((result.Items || []) as Message[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  for (const message of unread) {
+    await docClient.send(new UpdateCommand({
+      TableName: MESSAGES_TABLE,
+      Key: { threadId: message.threadId, messageId: message.messageId },
+      UpdateExpression: 'SET readAt = :now',
+      ExpressionAttributeValues: { ':now': now },
+    }));
+  }
+
+  await docClient.send(new UpdateCommand({
+    TableName: MESSAGE_THREADS_TABLE,
+    Key: { threadId: thread.threadId },
+    UpdateExpression: `SET ${role}UnreadCount = :zero, ${role}LastReadAt = :now`,
+    ExpressionAttributeValues: {
+      ':zero': 0,
+      ':now': now,
+    },
+  }));
+
+  return unread.length;
+}
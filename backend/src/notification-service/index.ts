@@ -8,6 +8,8 @@
  * - Messages from other users
  * - Transaction updates
  * - Activity alerts
+ * - Saved search matches
+ * - Watchlist updates (price drops, sold and removed favorites)
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
@@ -47,10 +49,18 @@ export type NotificationType =
   | 'listing_changes_requested'
   | 'listing_inquiry'
   | 'listing_offer'
+  | 'listing_review'
   | 'system_announcement'
   | 'account_update'
   | 'message'
-  | 'transaction_update';
+  | 'transaction_update'
+  | 'saved_search_match'
+  | 'watchlist_price_drop'
+  | 'watchlist_sold'
+  | 'watchlist_removed'
+  | 'billing_case'
+  | 'listing_report'
+  | 'moderation_escalation';
 
 // Notification status
 export type NotificationStatus = 'unread' | 'read' | 'archived';
@@ -0,0 +1,417 @@
+/**
+ * @fileoverview Listing offers API handler.
+ *
+ * Endpoints (authenticated):
+ * - GET  /api/offers                          - The caller's offers as buyer ("My offers")
+ * - POST /api/offers                          - Make an offer (`{ listingId, amount, expiresInHours?, contingencies?, message? }`)
+ * - GET  /api/offers/listing/:listingId       - Offers on a listing (owner only)
+ * - GET  /api/offers/:offerId                 - One offer with its history
+ * - POST /api/offers/:offerId/:action         - counter | accept | reject | withdraw | terminate | complete
+ *
+ * Transitions follow the state machine in `offer-state.ts`; the other party
+ * is notified of each one. Accepting an offer puts the listing under contract
+ * (unless `markUnderContract: false`), terminating the accepted offer puts it
+ * back on the market and completing it marks the listing sold.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { db } from '../shared/database';
+import { createResponse, createErrorResponse, parseBody, getUserId } from '../shared/utils';
+import { ValidationFramework, CommonRules } from '../shared/validators';
+import { isSearchable } from '../search/filters';
+import { reindexListing } from '../search/indexer';
+import { notifyWatchersOfChange } from '../favorites/watch-notifier';
+import { Offer, OfferAction, OfferActorRole, OfferSummary } from '../types/common';
+import {
+  applyTransition,
+  getAvailableActions,
+  isExpired,
+  isOpen,
+  parseOfferTerms,
+  OfferTermsInput,
+  OfferTransition,
+  MAX_OFFER_MESSAGE_LENGTH,
+} from './offer-state';
+import {
+  createOffer,
+  createOfferId,
+  getOffer,
+  saveOffer,
+  listOffersForListing,
+  listOffersForBuyer,
+  listExpiredOffers,
+} from './offer-manager';
+
+/**
+ * Actions a party can request through the API
+ */
+const CLIENT_ACTIONS = ['counter', 'accept', 'reject', 'withdraw', 'terminate', 'complete'] as const;
+
+type ClientAction = typeof CLIENT_ACTIONS[number];
+
+/**
+ * Notification wording for each transition, addressed to the other party
+ */
+const ACTION_NOTIFICATIONS: Record<Exclude<OfferAction, 'submit' | 'expire'>, { title: string; verb: string }> = {
+  counter: { title: 'Counter-offer received', verb: 'sent a counter-offer of' },
+  accept: { title: 'Offer accepted', verb: 'accepted the offer of' },
+  reject: { title: 'Offer declined', verb: 'declined the offer of' },
+  withdraw: { title: 'Offer withdrawn', verb: 'withdrew the offer of' },
+  terminate: { title: 'Deal cancelled', verb: 'cancelled the accepted offer of' },
+  complete: { title: 'Sale completed', verb: 'marked the sale complete at' },
+};
+
+/**
+ * Formats an amount in dollars for notifications
+ */
+function formatAmount(amount: number): string {
+  return `$${amount.toLocaleString('en-US')}`;
+}
+
+/**
+ * Returns the caller's role on an offer, or null when they are not a party to it
+ */
+function getRole(offer: Offer, userId: string): 'buyer' | 'seller' | null {
+  if (offer.buyerId === userId) {
+    return 'buyer';
+  }
+  if (offer.sellerId === userId) {
+    return 'seller';
+  }
+  return null;
+}
+
+/**
+ * Presents an offer from one party's side
+ */
+function toSummary(offer: Offer, role: 'buyer' | 'seller', now: number = Date.now()): OfferSummary {
+  return { ...offer, role, availableActions: getAvailableActions(offer, role, now) };
+}
+
+/**
+ * Sends an offer notification without failing the request
+ */
+async function notify(userId: string, title: string, message: string, offer: Offer, actionUrl: string): Promise<void> {
+  try {
+    const { createNotification } = await import('../notification-service');
+    await createNotification(userId, 'listing_offer', title, message, {
+      offerId: offer.offerId,
+      listingId: offer.listingId,
+      status: offer.status,
+      amount: offer.amount,
+    }, actionUrl);
+  } catch (error) {
+    console.error(`Failed to send notification for offer ${offer.offerId}:`, error);
+  }
+}
+
+/**
+ * Links each party to where they manage the offer
+ */
+function offerUrl(offer: Offer, role: 'buyer' | 'seller'): string {
+  return role === 'seller' ? `/listing/${offer.listingId}#offers` : '/offers';
+}
+
+/**
+ * Updates the listing after an offer is accepted, terminated or completed
+ *
+ * @returns Promise<void>
+ */
+async function applyListingEffects(offer: Offer, action: OfferAction, markUnderContract: boolean): Promise<void> {
+  const listing = await db.getListing(offer.listingId);
+  if (!listing) {
+    return;
+  }
+
+  let status: 'under_contract' | 'active' | 'sold' | undefined;
+  if (action === 'accept' && markUnderContract && isSearchable(listing as any) && listing.status !== 'under_contract') {
+    status = 'under_contract';
+  } else if (action === 'terminate' && listing.status === 'under_contract') {
+    status = 'active';
+  } else if (action === 'complete' && listing.status !== 'sold') {
+    status = 'sold';
+  }
+  if (!status) {
+    return;
+  }
+
+  const updates = { status, updatedAt: Date.now() };
+  await db.updateListing(offer.listingId, updates);
+  await reindexListing(offer.listingId);
+  await notifyWatchersOfChange(listing as any, { ...listing, ...updates } as any);
+}
+
+/**
+ * Applies a transition, saves it and notifies the other party
+ *
+ * @returns The updated offer, 'invalid' when the transition is not allowed,
+ *          or 'conflict' when the offer changed concurrently
+ */
+async function transitionOffer(
+  offer: Offer,
+  transition: OfferTransition,
+  options: { markUnderContract?: boolean } = {}
+): Promise<Offer | 'invalid' | 'conflict'> {
+  const updated = applyTransition(offer, transition);
+  if (!updated) {
+    return 'invalid';
+  }
+  if (!(await saveOffer(updated))) {
+    return 'conflict';
+  }
+
+  await applyListingEffects(updated, transition.action, options.markUnderContract !== false);
+
+  if (transition.action === 'expire') {
+    const message = `The offer of ${formatAmount(updated.amount)} on ${updated.listingTitle} expired without a response.`;
+    await notify(updated.buyerId, 'Offer expired', message, updated, offerUrl(updated, 'buyer'));
+    await notify(updated.sellerId, 'Offer expired', message, updated, offerUrl(updated, 'seller'));
+  } else {
+    const recipientRole = transition.actorRole === 'buyer' ? 'seller' : 'buyer';
+    const actorName = transition.actorRole === 'buyer' ? updated.buyerName : updated.sellerName;
+    const { title, verb } = ACTION_NOTIFICATIONS[transition.action];
+    await notify(
+      recipientRole === 'buyer' ? updated.buyerId : updated.sellerId,
+      title,
+      `${actorName} ${verb} ${formatAmount(updated.amount)} on ${updated.listingTitle}.`,
+      updated,
+      offerUrl(updated, recipientRole)
+    );
+  }
+
+  return updated;
+}
+
+/**
+ * Expires an offer when its expiry has passed
+ *
+ * @returns The offer as it now stands
+ */
+async function expireIfDue(offer: Offer): Promise<Offer> {
+  if (!isExpired(offer)) {
+    return offer;
+  }
+  const result = await transitionOffer(offer, { action: 'expire', actorId: 'system', actorRole: 'system' });
+  if (typeof result === 'string') {
+    return (await getOffer(offer.offerId)) || offer;
+  }
+  return result;
+}
+
+/**
+ * Main Lambda handler for offer requests
+ *
+ * @param event - API Gateway proxy event
+ * @returns Promise<APIGatewayProxyResult> - Offer response
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const method = event.httpMethod;
+  const path = event.path.split('?')[0];
+
+  if (method === 'OPTIONS') {
+    return createResponse(200, {});
+  }
+
+  let userId: string;
+  try {
+    userId = getUserId(event);
+  } catch {
+    return createErrorResponse(401, 'UNAUTHORIZED', 'User authentication required', requestId);
+  }
+
+  try {
+    // GET /api/offers - The caller's offers as buyer
+    if (method === 'GET' && /\/offers\/?$/.test(path)) {
+      const offers = await Promise.all((await listOffersForBuyer(userId)).map(expireIfDue));
+      return createResponse(200, { offers: offers.map(offer => toSummary(offer, 'buyer')) });
+    }
+
+    // POST /api/offers - Make an offer
+    if (method === 'POST' && /\/offers\/?$/.test(path)) {
+      const body = parseBody<OfferTermsInput & { listingId: string }>(event);
+      const validation = ValidationFramework.validate(body, [
+        CommonRules.required('listingId', 'Listing ID'),
+        CommonRules.required('amount', 'Offer amount'),
+      ], requestId);
+      if (!validation.isValid) {
+        return validation.response!;
+      }
+      const terms = parseOfferTerms(body);
+      if (typeof terms === 'string') {
+        return createErrorResponse(400, 'INVALID_OFFER', terms, requestId);
+      }
+
+      const listing = await db.getListing(body.listingId);
+      if (!listing || !isSearchable(listing as any)) {
+        return createErrorResponse(404, 'NOT_FOUND', 'Listing not found', requestId);
+      }
+      if (listing.ownerId === userId) {
+        return createErrorResponse(400, 'OWN_LISTING', 'You cannot make an offer on your own listing', requestId);
+      }
+      if (listing.status === 'under_contract') {
+        return createErrorResponse(409, 'UNDER_CONTRACT', 'This listing is already under contract', requestId);
+      }
+
+      const existing = await listOffersForBuyer(userId);
+      if (existing.some(offer => offer.listingId === listing.listingId && isOpen(offer) && !isExpired(offer))) {
+        return createErrorResponse(409, 'OFFER_EXISTS', 'You already have an open offer on this listing', requestId);
+      }
+
+      const [buyer, seller] = await Promise.all([db.getUser(userId), db.getUser(listing.ownerId)]);
+      const now = Date.now();
+      const offer: Offer = {
+        ...terms,
+        offerId: createOfferId(),
+        listingId: listing.listingId,
+        listingTitle: listing.title,
+        askingPrice: listing.price,
+        buyerId: userId,
+        buyerName: buyer?.name || 'HarborList user',
+        sellerId: listing.ownerId,
+        sellerName: seller?.name || 'Seller',
+        status: 'pending',
+        awaitingRole: 'seller',
+        history: [{
+          action: 'submit',
+          actorId: userId,
+          actorRole: 'buyer',
+          toStatus: 'pending',
+          terms,
+          createdAt: now,
+        }],
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await createOffer(offer);
+
+      await notify(
+        offer.sellerId,
+        'New offer received',
+        `${offer.buyerName} offered ${formatAmount(offer.amount)} on ${offer.listingTitle}.`,
+        offer,
+        offerUrl(offer, 'seller')
+      );
+
+      return createResponse(201, { offer: toSummary(offer, 'buyer', now) });
+    }
+
+    // GET /api/offers/listing/:listingId - Offers on a listing (owner only)
+    const listingMatch = path.match(/\/offers\/listing\/([^/]+)\/?$/);
+    if (method === 'GET' && listingMatch) {
+      const listing = await db.getListing(listingMatch[1]);
+      if (!listing) {
+        return createErrorResponse(404, 'NOT_FOUND', 'Listing not found', requestId);
+      }
+      if (listing.ownerId !== userId) {
+        return createErrorResponse(403, 'FORBIDDEN', 'Only the listing owner can view its offers', requestId);
+      }
+      const offers = await Promise.all((await listOffersForListing(listing.listingId)).map(expireIfDue));
+      return createResponse(200, { offers: offers.map(offer => toSummary(offer, 'seller')) });
+    }
+
+    const offerMatch = path.match(/\/offers\/([^/]+)(?:\/([a-z]+))?\/?$/);
+    if (offerMatch) {
+      const [, offerId, action] = offerMatch;
+      const stored = await getOffer(offerId);
+      const role = stored && getRole(stored, userId);
+      if (!stored || !role) {
+        return createErrorResponse(404, 'NOT_FOUND', 'Offer not found', requestId);
+      }
+      const offer = await expireIfDue(stored);
+
+      // GET /api/offers/:offerId - One offer with its history
+      if (method === 'GET' && !action) {
+        return createResponse(200, { offer: toSummary(offer, role) });
+      }
+
+      // POST /api/offers/:offerId/:action - Move the offer through its lifecycle
+      if (method === 'POST' && action && (CLIENT_ACTIONS as readonly string[]).includes(action)) {
+        // Accept, reject and the other responses may be sent without a body
+        const body = event.body
+          ? parseBody<Partial<OfferTermsInput> & { note?: string; markUnderContract?: boolean }>(event)
+          : {};
+        const validation = ValidationFramework.validate(body, [
+          CommonRules.maxLength('note', MAX_OFFER_MESSAGE_LENGTH, 'Note'),
+        ], requestId);
+        if (!validation.isValid) {
+          return validation.response!;
+        }
+
+        const transition: OfferTransition = {
+          action: action as ClientAction,
+          actorId: userId,
+          actorRole: role as OfferActorRole,
+          note: typeof body.note === 'string' && body.note.trim() ? body.note.trim() : undefined,
+        };
+
+        if (action === 'counter') {
+          const terms = parseOfferTerms({
+            amount: body.amount as number,
+            expiresInHours: body.expiresInHours,
+            // A counter keeps the current contingencies unless new ones are proposed
+            contingencies: body.contingencies ?? offer.contingencies,
+            message: body.message,
+          });
+          if (typeof terms === 'string') {
+            return createErrorResponse(400, 'INVALID_OFFER', terms, requestId);
+          }
+          transition.terms = terms;
+        }
+
+        if (action === 'accept') {
+          const others = await listOffersForListing(offer.listingId);
+          if (others.some(other => other.offerId !== offer.offerId && other.status === 'accepted')) {
+            return createErrorResponse(409, 'UNDER_CONTRACT', 'Another offer on this listing has already been accepted', requestId);
+          }
+        }
+
+        const result = await transitionOffer(offer, transition, { markUnderContract: body.markUnderContract });
+        if (result === 'invalid') {
+          return createErrorResponse(
+            409,
+            'INVALID_TRANSITION',
+            `Cannot ${action} an offer that is ${offer.status}${isOpen(offer) ? ` and waiting on the ${offer.awaitingRole}` : ''}`,
+            requestId
+          );
+        }
+        if (result === 'conflict') {
+          return createErrorResponse(409, 'CONFLICT', 'The offer was updated by the other party. Refresh and try again.', requestId);
+        }
+        return createResponse(200, { offer: toSummary(result, role) });
+      }
+    }
+
+    return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
+  } catch (error) {
+    console.error('Offer error:', error);
+    if (error instanceof Error && error.message.includes('Invalid JSON')) {
+      return createErrorResponse(400, 'INVALID_REQUEST', error.message, requestId);
+    }
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Offer request failed', requestId);
+  }
+};
+
+/**
+ * Scheduled handler that expires open offers past their expiry
+ *
+ * @returns Promise<{ expired: number }> - Number of offers expired
+ */
+export const scheduledHandler = async (): Promise<{ expired: number }> => {
+  let expired = 0;
+  for (const offer of await listExpiredOffers()) {
+    try {
+      const result = await transitionOffer(offer, { action: 'expire', actorId: 'system', actorRole: 'system' });
+      if (typeof result !== 'string') {
+        expired++;
+      }
+    } catch (error) {
+      console.error(`Failed to expire offer ${offer.offerId}:`, error);
+    }
+  }
+  return { expired };
+};
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Offer storage.
+ *
+ * Offers are stored one item per offer, with the full transition history on
+ * the item. Writes use an optimistic lock on `version` so two parties acting
+ * at the same moment cannot both move an offer from the same state.
+ *
+ * Indexes:
+ * - listing-index: offers on a listing (seller view), newest first
+ * - buyer-index: offers made by a buyer ("My offers"), newest first
+ * - status-index: offers by status and expiry, for the expiry sweep
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  QueryCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+import { Offer } from '../types/common';
+import { OPEN_OFFER_STATUSES } from './offer-state';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const OFFERS_TABLE = process.env.OFFERS_TABLE || 'harborlist-offers';
+
+/**
+ * Offer indexes
+ */
+const LISTING_INDEX = 'listing-index';
+const BUYER_INDEX = 'buyer-index';
+const STATUS_INDEX = 'status-index';
+
+/**
+ * Generates a unique offer ID
+ */
+export function createOfferId(): string {
+  return `offer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Retrieves an offer
+ *
+ * @param offerId - Offer identifier
+ * @returns Promise<Offer | null> - The offer, or null when it does not exist
+ */
+export async function getOffer(offerId: string): Promise<Offer | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: OFFERS_TABLE,
+    Key: { offerId },
+  }));
+
+  return (result.Item as Offer) || null;
+}
+
+/**
+ * Stores a new offer
+ *
+ * @param offer - Offer to create
+ * @returns Promise<void>
+ */
+export async function createOffer(offer: Offer): Promise<void> {
+  await docClient.send(new PutCommand({
+    TableName: OFFERS_TABLE,
+    Item: offer,
+    ConditionExpression: 'attribute_not_exists(offerId)',
+  }));
+}
+
+/**
+ * Saves an offer after a transition
+ *
+ * @param offer - Updated offer (its version already incremented)
+ * @returns Promise<boolean> - False when the offer changed since it was read
+ */
+export async function saveOffer(offer: Offer): Promise<boolean> {
+  try {
+    await docClient.send(new PutCommand({
+      TableName: OFFERS_TABLE,
+      Item: offer,
+      ConditionExpression: 'version = :expectedVersion',
+      ExpressionAttributeValues: {
+        ':expectedVersion': offer.version - 1,
+      },
+    }));
+    return true;
+  } catch (error: any) {
+    if (error?.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Runs a query and collects every page of results
+ */
+async function queryAll(params: Omit<QueryCommandInput, 'TableName'>): Promise<Offer[]> {
+  const offers: Offer[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      ...params,
+      TableName: OFFERS_TABLE,
+      ExclusiveStartKey: lastKey,
+    }));
+    offers.push(...((result.Items || []) as Offer[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return offers;
+}
+
+/**
+ * Lists the offers made on a listing
+ *
+ * @param listingId - Listing identifier
+ * @returns Promise<Offer[]> - Offers, newest first
+ */
+export async function listOffersForListing(listingId: string): Promise<Offer[]> {
+  return queryAll({
+    IndexName: LISTING_INDEX,
+    KeyConditionExpression: 'listingId = :listingId',
+    ExpressionAttributeValues: { ':listingId': listingId },
+    ScanIndexForward: false,
+  });
+}
+
+/**
+ * Lists the offers a buyer has made
+ *
+ * @param buyerId - Buyer user ID
+ * @returns Promise<Offer[]> - Offers, newest first
+ */
+export async function listOffersForBuyer(buyerId: string): Promise<Offer[]> {
+  return queryAll({
+    IndexName: BUYER_INDEX,
+    KeyConditionExpression: 'buyerId = :buyerId',
+    ExpressionAttributeValues: { ':buyerId': buyerId },
+    ScanIndexForward: false,
+  });
+}
+
+/**
+ * Lists open offers whose expiry has passed
+ *
+ * @param now - Current time in milliseconds
+ * @returns Promise<Offer[]> - Expired pending and countered offers
+ */
+export async function listExpiredOffers(now: number = Date.now()): Promise<Offer[]> {
+  const results = await Promise.all(OPEN_OFFER_STATUSES.map(status => queryAll({
+    IndexName: STATUS_INDEX,
+    KeyConditionExpression: '#status = :status AND expiresAt <= :now',
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: { ':status': status, ':now': now },
+  })));
+
+  return results.flat();
+}
@@ -0,0 +1,290 @@
+/**
+ * @fileoverview Offer state machine.
+ *
+ * Every change to an offer is a transition recorded in its `history`:
+ * - submit (buyer) creates a `pending` offer, waiting on the seller
+ * - counter: seller on `pending` → `countered`; buyer on `countered` → `pending`
+ * - accept / reject: the party being waited on → `accepted` / `rejected`
+ * - withdraw (buyer) on an open offer → `withdrawn`
+ * - expire (system) on an open offer past `expiresAt` → `expired`
+ * - terminate (either party) on `accepted` → `terminated` (deal fell through)
+ * - complete (seller) on `accepted` → `completed` (sale closed)
+ *
+ * An open offer past its expiry can only be expired.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import {
+  Offer,
+  OfferAction,
+  OfferActorRole,
+  OfferContingency,
+  OfferContingencyType,
+  OfferStatus,
+  OfferTerms,
+} from '../types/common';
+
+/**
+ * Contingencies a buyer can attach to an offer
+ */
+export const CONTINGENCY_TYPES: OfferContingencyType[] = ['survey', 'sea_trial', 'financing'];
+
+/**
+ * Offer amount limits (matches listing price validation)
+ */
+export const MIN_OFFER_AMOUNT = 1;
+export const MAX_OFFER_AMOUNT = 10000000;
+
+/**
+ * Offer expiry limits in hours
+ */
+export const DEFAULT_EXPIRY_HOURS = 48;
+export const MAX_EXPIRY_HOURS = 14 * 24;
+
+/**
+ * Longest period, in days, a contingency can run after acceptance
+ */
+export const MAX_CONTINGENCY_DAYS = 90;
+
+/**
+ * Maximum length of offer messages and contingency notes
+ */
+export const MAX_OFFER_MESSAGE_LENGTH = 1000;
+
+/**
+ * Statuses in which an offer is waiting for a response
+ */
+export const OPEN_OFFER_STATUSES: OfferStatus[] = ['pending', 'countered'];
+
+/**
+ * Allowed transitions: action → current status → who may perform it and the resulting status
+ */
+const TRANSITIONS: Record<Exclude<OfferAction, 'submit'>, Partial<Record<OfferStatus, { actors: OfferActorRole[]; to: OfferStatus }>>> = {
+  counter: {
+    pending: { actors: ['seller'], to: 'countered' },
+    countered: { actors: ['buyer'], to: 'pending' },
+  },
+  accept: {
+    pending: { actors: ['seller'], to: 'accepted' },
+    countered: { actors: ['buyer'], to: 'accepted' },
+  },
+  reject: {
+    pending: { actors: ['seller'], to: 'rejected' },
+    countered: { actors: ['buyer'], to: 'rejected' },
+  },
+  withdraw: {
+    pending: { actors: ['buyer'], to: 'withdrawn' },
+    countered: { actors: ['buyer'], to: 'withdrawn' },
+  },
+  expire: {
+    pending: { actors: ['system'], to: 'expired' },
+    countered: { actors: ['system'], to: 'expired' },
+  },
+  terminate: {
+    accepted: { actors: ['buyer', 'seller'], to: 'terminated' },
+  },
+  complete: {
+    accepted: { actors: ['seller'], to: 'completed' },
+  },
+};
+
+/**
+ * Proposed terms as supplied by a client
+ */
+export interface OfferTermsInput {
+  amount: number;
+  expiresInHours?: number;
+  contingencies?: OfferContingency[];
+  message?: string;
+}
+
+/**
+ * Details of a transition being applied
+ */
+export interface OfferTransition {
+  action: Exclude<OfferAction, 'submit'>;
+  actorId: string;
+  actorRole: OfferActorRole;
+  /** New terms for a counter-offer */
+  terms?: OfferTerms;
+  note?: string;
+}
+
+/**
+ * Checks whether an offer is still waiting for a response
+ *
+ * @param offer - Offer to check
+ * @returns True for pending and countered offers
+ */
+export function isOpen(offer: Pick<Offer, 'status'>): boolean {
+  return OPEN_OFFER_STATUSES.includes(offer.status);
+}
+
+/**
+ * Checks whether an open offer has passed its expiry
+ *
+ * @param offer - Offer to check
+ * @param now - Current time in milliseconds
+ * @returns True when the offer is open and expired
+ */
+export function isExpired(offer: Pick<Offer, 'status' | 'expiresAt'>, now: number = Date.now()): boolean {
+  return isOpen(offer) && offer.expiresAt <= now;
+}
+
+/**
+ * Returns the status an action would move an offer to
+ *
+ * @param offer - Current offer
+ * @param action - Requested action
+ * @param actorRole - Who is performing the action
+ * @param now - Current time in milliseconds
+ * @returns The next status, or null when the transition is not allowed
+ *
+ * @example
+ * ```typescript
+ * getNextStatus({ status: 'pending', expiresAt: tomorrow }, 'counter', 'seller'); // 'countered'
+ * getNextStatus({ status: 'pending', expiresAt: tomorrow }, 'accept', 'buyer');   // null
+ * ```
+ */
+export function getNextStatus(
+  offer: Pick<Offer, 'status' | 'expiresAt'>,
+  action: Exclude<OfferAction, 'submit'>,
+  actorRole: OfferActorRole,
+  now: number = Date.now()
+): OfferStatus | null {
+  const rule = TRANSITIONS[action]?.[offer.status];
+  if (!rule || !rule.actors.includes(actorRole)) {
+    return null;
+  }
+  // An expired offer can no longer be answered, only expired
+  if (action !== 'expire' && isExpired(offer, now)) {
+    return null;
+  }
+  if (action === 'expire' && !isExpired(offer, now)) {
+    return null;
+  }
+  return rule.to;
+}
+
+/**
+ * Lists the actions a party can take on an offer
+ *
+ * @param offer - Current offer
+ * @param actorRole - The party
+ * @param now - Current time in milliseconds
+ * @returns Allowed actions
+ */
+export function getAvailableActions(
+  offer: Pick<Offer, 'status' | 'expiresAt'>,
+  actorRole: OfferActorRole,
+  now: number = Date.now()
+): OfferAction[] {
+  return (Object.keys(TRANSITIONS) as Array<Exclude<OfferAction, 'submit'>>)
+    .filter(action => getNextStatus(offer, action, actorRole, now) !== null);
+}
+
+/**
+ * Applies a transition to an offer
+ *
+ * Returns a new offer with the status, terms, waiting party and version
+ * updated and an entry appended to its history.
+ *
+ * @param offer - Current offer
+ * @param transition - Transition to apply
+ * @param now - Current time in milliseconds
+ * @returns The updated offer, or null when the transition is not allowed
+ */
+export function applyTransition(offer: Offer, transition: OfferTransition, now: number = Date.now()): Offer | null {
+  const toStatus = getNextStatus(offer, transition.action, transition.actorRole, now);
+  if (!toStatus || (transition.action === 'counter' && !transition.terms)) {
+    return null;
+  }
+
+  const terms = transition.action === 'counter' ? transition.terms : undefined;
+  return {
+    ...offer,
+    ...(terms && {
+      amount: terms.amount,
+      expiresAt: terms.expiresAt,
+      contingencies: terms.contingencies,
+      message: terms.message,
+    }),
+    status: toStatus,
+    awaitingRole: toStatus === 'pending' ? 'seller' : toStatus === 'countered' ? 'buyer' : undefined,
+    history: [
+      ...offer.history,
+      {
+        action: transition.action,
+        actorId: transition.actorId,
+        actorRole: transition.actorRole,
+        fromStatus: offer.status,
+        toStatus,
+        terms,
+        note: transition.note,
+        createdAt: now,
+      },
+    ],
+    version: offer.version + 1,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Validates client-supplied terms and converts them to stored terms
+ *
+ * @param input - Terms from the request body
+ * @param now - Current time in milliseconds
+ * @returns The terms, or an error message when they are invalid
+ */
+export function parseOfferTerms(input: OfferTermsInput, now: number = Date.now()): OfferTerms | string {
+  const amount = Number(input.amount);
+  if (!Number.isFinite(amount) || amount < MIN_OFFER_AMOUNT || amount > MAX_OFFER_AMOUNT) {
+    return `Offer amount must be between $${MIN_OFFER_AMOUNT} and $${MAX_OFFER_AMOUNT.toLocaleString('en-US')}`;
+  }
+
+  const expiresInHours = input.expiresInHours ?? DEFAULT_EXPIRY_HOURS;
+  if (!Number.isInteger(expiresInHours) || expiresInHours < 1 || expiresInHours > MAX_EXPIRY_HOURS) {
+    return `Offer expiry must be between 1 and ${MAX_EXPIRY_HOURS} hours`;
+  }
+
+  const contingencies = input.contingencies ?? [];
+  if (!Array.isArray(contingencies)) {
+    return 'Contingencies must be a list';
+  }
+  const seen = new Set<string>();
+  for (const contingency of contingencies) {
+    if (!contingency || !CONTINGENCY_TYPES.includes(contingency.type)) {
+      return `Contingency type must be one of: ${CONTINGENCY_TYPES.join(', ')}`;
+    }
+    if (seen.has(contingency.type)) {
+      return `Duplicate ${contingency.type} contingency`;
+    }
+    seen.add(contingency.type);
+    if (contingency.days !== undefined &&
+        (!Number.isInteger(contingency.days) || contingency.days < 1 || contingency.days > MAX_CONTINGENCY_DAYS)) {
+      return `Contingency period must be between 1 and ${MAX_CONTINGENCY_DAYS} days`;
+    }
+    if (contingency.notes !== undefined &&
+        (typeof contingency.notes !== 'string' || contingency.notes.length > MAX_OFFER_MESSAGE_LENGTH)) {
+      return `Contingency notes must be at most ${MAX_OFFER_MESSAGE_LENGTH} characters`;
+    }
+  }
+
+  const message = typeof input.message === 'string' ? input.message.trim() : undefined;
+  if (message && message.length > MAX_OFFER_MESSAGE_LENGTH) {
+    return `Message must be at most ${MAX_OFFER_MESSAGE_LENGTH} characters`;
+  }
+
+  return {
+    amount: Math.round(amount * 100) / 100,
+    expiresAt: now + expiresInHours * 60 * 60 * 1000,
+    contingencies: contingencies.map(({ type, days, notes }) => ({
+      type,
+      ...(days !== undefined && { days }),
+      ...(notes?.trim() && { notes: notes.trim() }),
+    })),
+    ...(message && { message }),
+  };
+}
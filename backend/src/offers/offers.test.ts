@@ -0,0 +1,392 @@
+/**
+ * @fileoverview Unit tests for listing offers
+ *
+ * Tests the offer state machine (allowed transitions, expiry, term
+ * validation) and the offers API handler (submitting, countering,
+ * accepting into "under contract", terminating, notifications and the
+ * scheduled expiry sweep).
+ */
+
+import { handler, scheduledHandler } from './index';
+import { applyTransition, getAvailableActions, getNextStatus, parseOfferTerms } from './offer-state';
+import {
+  createOffer,
+  getOffer,
+  saveOffer,
+  listOffersForListing,
+  listOffersForBuyer,
+  listExpiredOffers,
+} from './offer-manager';
+import { createNotification } from '../notification-service';
+import { notifyWatchersOfChange } from '../favorites/watch-notifier';
+import { db } from '../shared/database';
+import { Offer } from '../types/common';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+jest.mock('./offer-manager', () => ({
+  ...jest.requireActual('./offer-manager'),
+  createOffer: jest.fn(),
+  getOffer: jest.fn(),
+  saveOffer: jest.fn(),
+  listOffersForListing: jest.fn(),
+  listOffersForBuyer: jest.fn(),
+  listExpiredOffers: jest.fn(),
+}));
+
+jest.mock('../notification-service', () => ({
+  createNotification: jest.fn(),
+}));
+
+jest.mock('../search/indexer', () => ({
+  reindexListing: jest.fn(),
+}));
+
+jest.mock('../favorites/watch-notifier', () => ({
+  notifyWatchersOfChange: jest.fn(),
+}));
+
+jest.mock('../shared/database', () => ({
+  db: {
+    getListing: jest.fn(),
+    getUser: jest.fn(),
+    updateListing: jest.fn(),
+  },
+}));
+
+const mockGetListing = db.getListing as jest.Mock;
+const mockUpdateListing = db.updateListing as jest.Mock;
+const mockGetOffer = getOffer as jest.MockedFunction<typeof getOffer>;
+const mockSaveOffer = saveOffer as jest.MockedFunction<typeof saveOffer>;
+const mockListOffersForListing = listOffersForListing as jest.MockedFunction<typeof listOffersForListing>;
+const mockListOffersForBuyer = listOffersForBuyer as jest.MockedFunction<typeof listOffersForBuyer>;
+
+const HOUR = 60 * 60 * 1000;
+
+const users: Record<string, any> = {
+  'buyer-1': { id: 'buyer-1', name: 'Bob Buyer' },
+  'seller-1': { id: 'seller-1', name: 'Sally Seller' },
+};
+
+const listing = {
+  listingId: 'listing-1',
+  ownerId: 'seller-1',
+  title: '2019 Grady-White 257',
+  price: 120000,
+  status: 'active',
+};
+
+function createTestOffer(overrides: Partial<Offer> = {}): Offer {
+  return {
+    offerId: 'offer-1',
+    listingId: 'listing-1',
+    listingTitle: '2019 Grady-White 257',
+    askingPrice: 120000,
+    buyerId: 'buyer-1',
+    buyerName: 'Bob Buyer',
+    sellerId: 'seller-1',
+    sellerName: 'Sally Seller',
+    amount: 100000,
+    expiresAt: Date.now() + 24 * HOUR,
+    contingencies: [{ type: 'survey', days: 14 }],
+    status: 'pending',
+    awaitingRole: 'seller',
+    history: [],
+    version: 1,
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  };
+}
+
+function createEvent(method: string, path: string, body?: any, userId: string | null = 'buyer-1'): APIGatewayProxyEvent {
+  return {
+    httpMethod: method,
+    path,
+    body: body ? JSON.stringify(body) : null,
+    queryStringParameters: null,
+    requestContext: {
+      requestId: 'test-request',
+      ...(userId && { authorizer: { claims: { sub: userId } } }),
+    } as any,
+  } as APIGatewayProxyEvent;
+}
+
+describe('Offers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.getUser as jest.Mock).mockImplementation(async (userId: string) => users[userId] || null);
+    mockGetListing.mockResolvedValue({ ...listing });
+    mockSaveOffer.mockResolvedValue(true);
+    mockListOffersForBuyer.mockResolvedValue([]);
+    mockListOffersForListing.mockResolvedValue([]);
+  });
+
+  describe('State machine', () => {
+    test('should only let the party being waited on respond', () => {
+      const pending = createTestOffer();
+      const countered = createTestOffer({ status: 'countered', awaitingRole: 'buyer' });
+
+      expect(getNextStatus(pending, 'accept', 'seller')).toBe('accepted');
+      expect(getNextStatus(pending, 'accept', 'buyer')).toBeNull();
+      expect(getNextStatus(pending, 'counter', 'seller')).toBe('countered');
+      expect(getNextStatus(countered, 'counter', 'buyer')).toBe('pending');
+      expect(getNextStatus(countered, 'reject', 'seller')).toBeNull();
+      expect(getAvailableActions(countered, 'buyer')).toEqual(['counter', 'accept', 'reject', 'withdraw']);
+      expect(getAvailableActions(createTestOffer({ status: 'accepted' }), 'seller')).toEqual(['terminate', 'complete']);
+      expect(getAvailableActions(createTestOffer({ status: 'rejected' }), 'buyer')).toEqual([]);
+    });
+
+    test('should only allow expiry once an open offer is past its expiry', () => {
+      const now = Date.now();
+      const expired = createTestOffer({ expiresAt: now - 1 });
+
+      expect(getNextStatus(expired, 'accept', 'seller', now)).toBeNull();
+      expect(getNextStatus(expired, 'expire', 'system', now)).toBe('expired');
+      expect(getNextStatus(createTestOffer(), 'expire', 'system', now)).toBeNull();
+    });
+
+    test('should record counter-offer terms and an audit entry', () => {
+      const terms = { amount: 110000, expiresAt: 5000, contingencies: [] };
+      const updated = applyTransition(createTestOffer(), {
+        action: 'counter',
+        actorId: 'seller-1',
+        actorRole: 'seller',
+        terms,
+        note: 'Best I can do',
+      }, 2000)!;
+
+      expect(updated).toMatchObject({
+        amount: 110000,
+        contingencies: [],
+        status: 'countered',
+        awaitingRole: 'buyer',
+        version: 2,
+        updatedAt: 2000,
+      });
+      expect(updated.history).toEqual([{
+        action: 'counter',
+        actorId: 'seller-1',
+        actorRole: 'seller',
+        fromStatus: 'pending',
+        toStatus: 'countered',
+        terms,
+        note: 'Best I can do',
+        createdAt: 2000,
+      }]);
+    });
+
+    test('should validate offer terms', () => {
+      expect(parseOfferTerms({ amount: 0 })).toMatch(/amount/);
+      expect(parseOfferTerms({ amount: 1000, expiresInHours: 1000 })).toMatch(/expiry/);
+      expect(parseOfferTerms({ amount: 1000, contingencies: [{ type: 'inspection' as any }] })).toMatch(/Contingency type/);
+      expect(parseOfferTerms({ amount: 1000, contingencies: [{ type: 'survey' }, { type: 'survey' }] })).toMatch(/Duplicate/);
+      expect(parseOfferTerms({ amount: 95000.456, expiresInHours: 24, message: ' Cash buyer ' }, 0)).toEqual({
+        amount: 95000.46,
+        expiresAt: 24 * HOUR,
+        contingencies: [],
+        message: 'Cash buyer',
+      });
+    });
+  });
+
+  describe('API handler', () => {
+    test('should require authentication', async () => {
+      const result = await handler(createEvent('GET', '/api/offers', undefined, null));
+      expect(result.statusCode).toBe(401);
+    });
+
+    test('should submit an offer and notify the seller', async () => {
+      const result = await handler(createEvent('POST', '/api/offers', {
+        listingId: 'listing-1',
+        amount: 100000,
+        expiresInHours: 72,
+        contingencies: [{ type: 'sea_trial' }, { type: 'financing', days: 21 }],
+      }));
+
+      expect(result.statusCode).toBe(201);
+      expect(createOffer).toHaveBeenCalledWith(expect.objectContaining({
+        buyerId: 'buyer-1',
+        sellerId: 'seller-1',
+        askingPrice: 120000,
+        amount: 100000,
+        status: 'pending',
+        awaitingRole: 'seller',
+        history: [expect.objectContaining({ action: 'submit', toStatus: 'pending' })],
+      }));
+      expect(createNotification).toHaveBeenCalledWith(
+        'seller-1',
+        'listing_offer',
+        'New offer received',
+        'Bob Buyer offered $100,000 on 2019 Grady-White 257.',
+        expect.objectContaining({ listingId: 'listing-1' }),
+        '/listing/listing-1#offers'
+      );
+      expect(JSON.parse(result.body).offer.availableActions).toEqual(['withdraw']);
+    });
+
+    test('should refuse offers on own, under-contract or already-offered listings', async () => {
+      const own = await handler(createEvent('POST', '/api/offers', { listingId: 'listing-1', amount: 1000 }, 'seller-1'));
+
+      mockGetListing.mockResolvedValueOnce({ ...listing, status: 'under_contract' });
+      const underContract = await handler(createEvent('POST', '/api/offers', { listingId: 'listing-1', amount: 1000 }));
+
+      mockListOffersForBuyer.mockResolvedValueOnce([createTestOffer()]);
+      const duplicate = await handler(createEvent('POST', '/api/offers', { listingId: 'listing-1', amount: 1000 }));
+
+      expect(own.statusCode).toBe(400);
+      expect(underContract.statusCode).toBe(409);
+      expect(JSON.parse(duplicate.body).error.code).toBe('OFFER_EXISTS');
+      expect(createOffer).not.toHaveBeenCalled();
+    });
+
+    test('should let the seller counter and keep contingencies unless replaced', async () => {
+      mockGetOffer.mockResolvedValue(createTestOffer());
+
+      const result = await handler(createEvent('POST', '/api/offers/offer-1/counter', { amount: 112000 }, 'seller-1'));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockSaveOffer).toHaveBeenCalledWith(expect.objectContaining({
+        amount: 112000,
+        contingencies: [{ type: 'survey', days: 14 }],
+        status: 'countered',
+        version: 2,
+      }));
+      expect(createNotification).toHaveBeenCalledWith(
+        'buyer-1',
+        'listing_offer',
+        'Counter-offer received',
+        'Sally Seller sent a counter-offer of $112,000 on 2019 Grady-White 257.',
+        expect.any(Object),
+        '/offers'
+      );
+    });
+
+    test('should reject transitions the caller is not allowed to make', async () => {
+      mockGetOffer.mockResolvedValue(createTestOffer());
+
+      const result = await handler(createEvent('POST', '/api/offers/offer-1/accept'));
+
+      expect(result.statusCode).toBe(409);
+      expect(JSON.parse(result.body).error.code).toBe('INVALID_TRANSITION');
+      expect(mockSaveOffer).not.toHaveBeenCalled();
+    });
+
+    test('should put the listing under contract when an offer is accepted', async () => {
+      mockGetOffer.mockResolvedValue(createTestOffer({ status: 'countered', awaitingRole: 'buyer' }));
+
+      const result = await handler(createEvent('POST', '/api/offers/offer-1/accept'));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockUpdateListing).toHaveBeenCalledWith('listing-1', expect.objectContaining({ status: 'under_contract' }));
+      expect(createNotification).toHaveBeenCalledWith(
+        'seller-1', 'listing_offer', 'Offer accepted', expect.any(String), expect.any(Object), '/listing/listing-1#offers'
+      );
+    });
+
+    test('should leave the listing on the market when the seller opts out of under contract', async () => {
+      mockGetOffer.mockResolvedValue(createTestOffer());
+
+      const result = await handler(createEvent('POST', '/api/offers/offer-1/accept', { markUnderContract: false }, 'seller-1'));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockUpdateListing).not.toHaveBeenCalled();
+    });
+
+    test('should refuse to accept a second offer on the same listing', async () => {
+      mockGetOffer.mockResolvedValue(createTestOffer());
+      mockListOffersForListing.mockResolvedValue([createTestOffer({ offerId: 'offer-2', status: 'accepted' })]);
+
+      const result = await handler(createEvent('POST', '/api/offers/offer-1/accept', undefined, 'seller-1'));
+
+      expect(result.statusCode).toBe(409);
+      expect(mockSaveOffer).not.toHaveBeenCalled();
+    });
+
+    test('should return the listing to the market when an accepted offer is terminated', async () => {
+      mockGetOffer.mockResolvedValue(createTestOffer({ status: 'accepted', awaitingRole: undefined }));
+      mockGetListing.mockResolvedValue({ ...listing, status: 'under_contract' });
+
+      const result = await handler(createEvent('POST', '/api/offers/offer-1/terminate', { note: 'Survey found hull damage' }));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockUpdateListing).toHaveBeenCalledWith('listing-1', expect.objectContaining({ status: 'active' }));
+      expect(mockSaveOffer.mock.calls[0][0].history[0]).toMatchObject({
+        action: 'terminate',
+        actorRole: 'buyer',
+        note: 'Survey found hull damage',
+      });
+    });
+
+    test('should mark the listing sold and tell watchers when the sale completes', async () => {
+      mockGetOffer.mockResolvedValue(createTestOffer({ status: 'accepted', awaitingRole: undefined }));
+      mockGetListing.mockResolvedValue({ ...listing, status: 'under_contract' });
+
+      const result = await handler(createEvent('POST', '/api/offers/offer-1/complete', undefined, 'seller-1'));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockUpdateListing).toHaveBeenCalledWith('listing-1', expect.objectContaining({ status: 'sold' }));
+      expect(notifyWatchersOfChange).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'under_contract' }),
+        expect.objectContaining({ status: 'sold' })
+      );
+    });
+
+    test('should report a conflict when the offer changed concurrently', async () => {
+      mockGetOffer.mockResolvedValue(createTestOffer());
+      mockSaveOffer.mockResolvedValue(false);
+
+      const result = await handler(createEvent('POST', '/api/offers/offer-1/reject', undefined, 'seller-1'));
+
+      expect(result.statusCode).toBe(409);
+      expect(JSON.parse(result.body).error.code).toBe('CONFLICT');
+    });
+
+    test('should only show listing offers to the owner', async () => {
+      mockListOffersForListing.mockResolvedValue([createTestOffer()]);
+
+      const owner = await handler(createEvent('GET', '/api/offers/listing/listing-1', undefined, 'seller-1'));
+      const other = await handler(createEvent('GET', '/api/offers/listing/listing-1'));
+
+      expect(owner.statusCode).toBe(200);
+      expect(JSON.parse(owner.body).offers[0]).toMatchObject({
+        role: 'seller',
+        availableActions: ['counter', 'accept', 'reject'],
+      });
+      expect(other.statusCode).toBe(403);
+    });
+
+    test('should hide offers from users who are not a party to them', async () => {
+      mockGetOffer.mockResolvedValue(createTestOffer());
+
+      const result = await handler(createEvent('GET', '/api/offers/offer-1', undefined, 'someone-else'));
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('Expiry', () => {
+    test('should expire overdue offers when they are read', async () => {
+      mockListOffersForBuyer.mockResolvedValue([createTestOffer({ expiresAt: Date.now() - HOUR })]);
+
+      const result = await handler(createEvent('GET', '/api/offers'));
+
+      expect(JSON.parse(result.body).offers[0].status).toBe('expired');
+      expect(mockSaveOffer).toHaveBeenCalledWith(expect.objectContaining({ status: 'expired', awaitingRole: undefined }));
+    });
+
+    test('should expire overdue offers on schedule and notify both parties', async () => {
+      (listExpiredOffers as jest.Mock).mockResolvedValue([
+        createTestOffer({ expiresAt: Date.now() - HOUR }),
+        createTestOffer({ offerId: 'offer-2', status: 'countered', awaitingRole: 'buyer', expiresAt: Date.now() - HOUR }),
+      ]);
+
+      const result = await scheduledHandler();
+
+      expect(result).toEqual({ expired: 2 });
+      expect(createNotification).toHaveBeenCalledTimes(4);
+      expect(createNotification).toHaveBeenCalledWith(
+        'buyer-1', 'listing_offer', 'Offer expired', expect.any(String), expect.any(Object), '/offers'
+      );
+    });
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * @fileoverview Listing reviews and ratings API handler.
+ *
+ * Endpoints:
+ * - GET    /api/listings/:id/rating            - Published reviews, average and breakdown (public;
+ *                                                includes the caller's own review when signed in)
+ * - POST   /api/reviews                        - Review a listing (`{ listingId, rating, comment? }`)
+ * - PUT    /api/reviews/:reviewId              - Edit your review (`{ rating?, comment? }`)
+ * - DELETE /api/reviews/:reviewId              - Delete your review (author or moderator)
+ * - PUT    /api/reviews/:reviewId/response     - Respond to a review of your listing (`{ comment }`)
+ * - DELETE /api/reviews/:reviewId/response     - Remove your response
+ * - GET    /api/reviews/moderation             - Reviews by moderation status (`?status=pending`, moderators)
+ * - POST   /api/reviews/:reviewId/moderate     - Approve or reject a review (`{ decision, reason? }`, moderators)
+ *
+ * Each user can review a listing once. A review is `verified` when the
+ * reviewer has contacted the seller about the listing (a message thread) or
+ * made an offer on it. Review text is screened with the content filter:
+ * clean reviews publish immediately, others are held for a moderator.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { db } from '../shared/database';
+import { createResponse, createErrorResponse, parseBody, getUserId } from '../shared/utils';
+import { ValidationFramework, CommonRules } from '../shared/validators';
+import { getContentFilter } from '../shared/content-filter-rules';
+import { getThread, getThreadId } from '../messaging/thread-manager';
+import { listOffersForBuyer } from '../offers/offer-manager';
+import { Review, ReviewModerationStatus, UserRole } from '../types/common';
+import {
+  calculateListingRating,
+  isCleanText,
+  isPublished,
+  parseRating,
+  screenReview,
+  toPublicReview,
+  MAX_RESPONSE_LENGTH,
+  MAX_REVIEW_COMMENT_LENGTH,
+} from './rating';
+import {
+  createReview,
+  deleteReview,
+  getReview,
+  getReviewId,
+  listReviewsByModerationStatus,
+  listReviewsForListing,
+  saveReview,
+} from './review-manager';
+
+/**
+ * Roles allowed to moderate reviews
+ */
+const MODERATOR_ROLES: string[] = [UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.MODERATOR];
+
+const MODERATION_STATUSES: ReviewModerationStatus[] = ['pending', 'approved', 'rejected'];
+
+/**
+ * Returns the caller's user ID, or null for anonymous requests
+ */
+function getOptionalUserId(event: APIGatewayProxyEvent): string | null {
+  try {
+    return getUserId(event);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the caller can moderate reviews
+ */
+function isModerator(event: APIGatewayProxyEvent): boolean {
+  const role = event.requestContext.authorizer?.claims?.role;
+  return typeof role === 'string' && MODERATOR_ROLES.includes(role);
+}
+
+/**
+ * Whether the user has contacted the seller about the listing or made an offer on it
+ *
+ * @returns Promise<boolean>
+ */
+async function hasInquiryHistory(listingId: string, ownerId: string, userId: string): Promise<boolean> {
+  if (await getThread(getThreadId(listingId, userId, ownerId))) {
+    return true;
+  }
+  const offers = await listOffersForBuyer(userId);
+  return offers.some(offer => offer.listingId === listingId);
+}
+
+/**
+ * Sends a review notification without failing the request
+ */
+async function notify(userId: string, title: string, message: string, review: Review): Promise<void> {
+  try {
+    const { createNotification } = await import('../notification-service');
+    await createNotification(userId, 'listing_review', title, message, {
+      reviewId: review.reviewId,
+      listingId: review.listingId,
+      rating: review.rating,
+    }, `/listing/${review.listingId}#reviews`);
+  } catch (error) {
+    console.error(`Failed to send notification for review ${review.reviewId}:`, error);
+  }
+}
+
+/**
+ * Tells the listing owner about a newly published review
+ */
+async function notifyOwnerOfReview(review: Review): Promise<void> {
+  const listing = await db.getListing(review.listingId!);
+  if (!listing) {
+    return;
+  }
+  await notify(
+    listing.ownerId,
+    'New review',
+    `${review.userName} left a ${review.rating}-star review on ${listing.title}.`,
+    review
+  );
+}
+
+/**
+ * Main Lambda handler for review requests
+ *
+ * @param event - API Gateway proxy event
+ * @returns Promise<APIGatewayProxyResult> - Review response
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const method = event.httpMethod;
+  const path = event.path.split('?')[0];
+
+  if (method === 'OPTIONS') {
+    return createResponse(200, {});
+  }
+
+  try {
+    // GET /api/listings/:id/rating - Public rating summary
+    const ratingMatch = path.match(/\/listings\/([^/]+)\/rating\/?$/);
+    if (method === 'GET' && ratingMatch) {
+      const listing = await db.getListing(ratingMatch[1]);
+      if (!listing) {
+        return createErrorResponse(404, 'NOT_FOUND', 'Listing not found', requestId);
+      }
+
+      const reviews = await listReviewsForListing(listing.listingId);
+      const rating = calculateListingRating(reviews);
+      const userId = getOptionalUserId(event);
+      const userReview = userId ? reviews.find(review => review.userId === userId) : undefined;
+
+      return createResponse(200, {
+        ...rating,
+        reviews: rating.reviews.map(toPublicReview),
+        ...(userReview && { userReview }),
+      });
+    }
+
+    let userId: string;
+    try {
+      userId = getUserId(event);
+    } catch {
+      return createErrorResponse(401, 'UNAUTHORIZED', 'User authentication required', requestId);
+    }
+
+    // POST /api/reviews - Review a listing
+    if (method === 'POST' && /\/reviews\/?$/.test(path)) {
+      const body = parseBody<{ listingId: string; rating: number; comment?: string }>(event);
+      const validation = ValidationFramework.validate(body, [
+        CommonRules.required('listingId', 'Listing ID'),
+        CommonRules.required('rating', 'Rating'),
+        CommonRules.maxLength('comment', MAX_REVIEW_COMMENT_LENGTH, 'Comment'),
+      ], requestId);
+      if (!validation.isValid) {
+        return validation.response!;
+      }
+      const rating = parseRating(body.rating);
+      if (typeof rating === 'string') {
+        return createErrorResponse(400, 'INVALID_RATING', rating, requestId);
+      }
+
+      const listing = await db.getListing(body.listingId);
+      if (!listing) {
+        return createErrorResponse(404, 'NOT_FOUND', 'Listing not found', requestId);
+      }
+      if (listing.ownerId === userId) {
+        return createErrorResponse(400, 'OWN_LISTING', 'You cannot review your own listing', requestId);
+      }
+
+      const [user, verified] = await Promise.all([
+        db.getUser(userId),
+        hasInquiryHistory(listing.listingId, listing.ownerId, userId),
+      ]);
+      const comment = body.comment?.trim() || undefined;
+      const now = Date.now();
+      const review: Review = {
+        reviewId: getReviewId(listing.listingId, userId),
+        listingId: listing.listingId,
+        userId,
+        userName: user?.name || 'HarborList user',
+        rating,
+        comment,
+        verified,
+        ...screenReview(comment, await getContentFilter()),
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      if (!(await createReview(review))) {
+        return createErrorResponse(409, 'REVIEW_EXISTS', 'You have already reviewed this listing', requestId);
+      }
+      if (isPublished(review)) {
+        await notifyOwnerOfReview(review);
+      }
+
+      return createResponse(201, { review });
+    }
+
+    // GET /api/reviews/moderation - Moderator queue
+    if (method === 'GET' && /\/reviews\/moderation\/?$/.test(path)) {
+      if (!isModerator(event)) {
+        return createErrorResponse(403, 'FORBIDDEN', 'Moderator access required', requestId);
+      }
+      const status = (event.queryStringParameters?.status || 'pending') as ReviewModerationStatus;
+      if (!MODERATION_STATUSES.includes(status)) {
+        return createErrorResponse(400, 'INVALID_STATUS', `Status must be one of: ${MODERATION_STATUSES.join(', ')}`, requestId);
+      }
+      return createResponse(200, { reviews: await listReviewsByModerationStatus(status) });
+    }
+
+    const reviewMatch = path.match(/\/reviews\/([^/]+)(?:\/(response|moderate))?\/?$/);
+    if (!reviewMatch) {
+      return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
+    }
+    const [, reviewId, action] = reviewMatch;
+    const review = await getReview(reviewId);
+    if (!review) {
+      return createErrorResponse(404, 'NOT_FOUND', 'Review not found', requestId);
+    }
+
+    // PUT /api/reviews/:reviewId - Edit your review
+    if (method === 'PUT' && !action) {
+      if (review.userId !== userId) {
+        return createErrorResponse(403, 'FORBIDDEN', 'You can only edit your own review', requestId);
+      }
+      const body = parseBody<{ rating?: number; comment?: string }>(event);
+      const validation = ValidationFramework.validate(body, [
+        CommonRules.maxLength('comment', MAX_REVIEW_COMMENT_LENGTH, 'Comment'),
+      ], requestId);
+      if (!validation.isValid) {
+        return validation.response!;
+      }
+      const rating = body.rating === undefined ? review.rating : parseRating(body.rating);
+      if (typeof rating === 'string') {
+        return createErrorResponse(400, 'INVALID_RATING', rating, requestId);
+      }
+
+      const comment = body.comment === undefined ? review.comment : body.comment.trim() || undefined;
+      let verified = review.verified;
+      if (!verified) {
+        const listing = await db.getListing(review.listingId!);
+        verified = !!listing && await hasInquiryHistory(listing.listingId, listing.ownerId, userId);
+      }
+
+      // An edit re-runs the content filter; a review a moderator removed
+      // goes back to a moderator rather than republishing itself
+      let screening = screenReview(comment, await getContentFilter());
+      if (review.moderationStatus === 'rejected' && screening.moderationStatus === 'approved') {
+        screening = { moderationStatus: 'pending', moderationReason: 'Edited after removal by a moderator' };
+      }
+
+      const updated: Review = {
+        ...review,
+        rating,
+        comment,
+        verified,
+        moderationReason: undefined,
+        moderatedBy: undefined,
+        moderatedAt: undefined,
+        ...screening,
+        updatedAt: Date.now(),
+      };
+      await saveReview(updated);
+
+      return createResponse(200, { review: updated });
+    }
+
+    // DELETE /api/reviews/:reviewId - Delete a review
+    if (method === 'DELETE' && !action) {
+      if (review.userId !== userId && !isModerator(event)) {
+        return createErrorResponse(403, 'FORBIDDEN', 'You can only delete your own review', requestId);
+      }
+      await deleteReview(review.reviewId);
+      return createResponse(200, { deleted: true });
+    }
+
+    // PUT|DELETE /api/reviews/:reviewId/response - Seller response
+    if (action === 'response' && (method === 'PUT' || method === 'DELETE')) {
+      const listing = await db.getListing(review.listingId!);
+      if (!listing || listing.ownerId !== userId) {
+        return createErrorResponse(403, 'FORBIDDEN', 'Only the listing owner can respond to its reviews', requestId);
+      }
+
+      if (method === 'DELETE') {
+        const updated: Review = { ...review, sellerResponse: undefined, updatedAt: Date.now() };
+        await saveReview(updated);
+        return createResponse(200, { review: updated });
+      }
+
+      if (!isPublished(review)) {
+        return createErrorResponse(409, 'NOT_PUBLISHED', 'Only published reviews can be responded to', requestId);
+      }
+      const body = parseBody<{ comment: string }>(event);
+      const validation = ValidationFramework.validate(body, [
+        CommonRules.required('comment', 'Response'),
+        CommonRules.maxLength('comment', MAX_RESPONSE_LENGTH, 'Response'),
+      ], requestId);
+      if (!validation.isValid) {
+        return validation.response!;
+      }
+      const comment = body.comment.trim();
+      if (!isCleanText(comment, await getContentFilter())) {
+        return createErrorResponse(400, 'CONTENT_REJECTED', 'Your response contains language that is not allowed', requestId);
+      }
+
+      const seller = await db.getUser(userId);
+      const now = Date.now();
+      const updated: Review = {
+        ...review,
+        sellerResponse: {
+          sellerId: userId,
+          sellerName: seller?.name || 'Seller',
+          comment,
+          createdAt: review.sellerResponse?.createdAt || now,
+          updatedAt: now,
+        },
+        updatedAt: now,
+      };
+      await saveReview(updated);
+
+      if (!review.sellerResponse) {
+        await notify(
+          review.userId,
+          'The seller responded to your review',
+          `${updated.sellerResponse!.sellerName} responded to your review of ${listing.title}.`,
+          updated
+        );
+      }
+
+      return createResponse(200, { review: updated });
+    }
+
+    // POST /api/reviews/:reviewId/moderate - Approve or reject a review
+    if (method === 'POST' && action === 'moderate') {
+      if (!isModerator(event)) {
+        return createErrorResponse(403, 'FORBIDDEN', 'Moderator access required', requestId);
+      }
+      const body = parseBody<{ decision: 'approve' | 'reject'; reason?: string }>(event);
+      if (body.decision !== 'approve' && body.decision !== 'reject') {
+        return createErrorResponse(400, 'INVALID_DECISION', 'Decision must be approve or reject', requestId);
+      }
+
+      const wasPublished = isPublished(review);
+      const updated: Review = {
+        ...review,
+        moderationStatus: body.decision === 'approve' ? 'approved' : 'rejected',
+        moderationReason: body.reason?.trim() || review.moderationReason,
+        moderatedBy: userId,
+        moderatedAt: Date.now(),
+      };
+      await saveReview(updated);
+
+      if (body.decision === 'approve' && !wasPublished) {
+        await notifyOwnerOfReview(updated);
+      } else if (body.decision === 'reject') {
+        await notify(
+          review.userId,
+          'Your review was removed',
+          body.reason?.trim() || 'Your review did not meet our community guidelines.',
+          updated
+        );
+      }
+
+      return createResponse(200, { review: updated });
+    }
+
+    return createErrorResponse(405, 'METHOD_NOT_ALLOWED', `Method ${method} not allowed`, requestId);
+  } catch (error) {
+    console.error('Review error:', error);
+    if (error instanceof Error && error.message.includes('Invalid JSON')) {
+      return createErrorResponse(400, 'INVALID_REQUEST', error.message, requestId);
+    }
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Review request failed', requestId);
+  }
+};
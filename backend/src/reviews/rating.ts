@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Review rules and rating aggregation.
+ *
+ * Pure helpers shared by the reviews API:
+ * - Validating star ratings and review text
+ * - Screening review and response text with the content filter
+ * - Aggregating published reviews into a listing's rating and breakdown
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { CompiledContentFilter, DEFAULT_CONTENT_FILTER, filterContent } from '../shared/content-filter';
+import { ListingRating, Review, ReviewModerationStatus } from '../types/common';
+
+/**
+ * Star rating bounds
+ */
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+/**
+ * Maximum length of a review comment
+ */
+export const MAX_REVIEW_COMMENT_LENGTH = 2000;
+
+/**
+ * Maximum length of a seller's response to a review
+ */
+export const MAX_RESPONSE_LENGTH = 1000;
+
+/**
+ * Result of screening review text with the content filter
+ */
+export interface ReviewScreening {
+  moderationStatus: ReviewModerationStatus;
+  moderationReason?: string;
+}
+
+/**
+ * Validates a star rating
+ *
+ * @param value - Rating from the request body
+ * @returns The rating, or an error message
+ */
+export function parseRating(value: unknown): number | string {
+  const rating = Number(value);
+  if (!Number.isInteger(rating) || rating < MIN_RATING || rating > MAX_RATING) {
+    return `Rating must be a whole number from ${MIN_RATING} to ${MAX_RATING}`;
+  }
+  return rating;
+}
+
+/**
+ * Screens review text with the content filter
+ *
+ * Clean text is published straight away; anything the filter matches is
+ * held for a moderator, with the matched categories as the reason.
+ *
+ * @param comment - Review comment (may be empty)
+ * @param filter - Active content filter rules
+ * @returns Moderation status and reason for the review
+ */
+export function screenReview(
+  comment: string | undefined,
+  filter: CompiledContentFilter = DEFAULT_CONTENT_FILTER
+): ReviewScreening {
+  if (!comment) {
+    return { moderationStatus: 'approved' };
+  }
+
+  const result = filterContent('', comment, filter);
+  if (result.isClean) {
+    return { moderationStatus: 'approved' };
+  }
+
+  const categories = [...new Set(result.violations.map(violation => violation.category))];
+  return {
+    moderationStatus: 'pending',
+    moderationReason: `Content filter (${result.severity} severity): ${categories.join(', ')}`,
+  };
+}
+
+/**
+ * Checks whether text passes the content filter
+ *
+ * @param text - Text to check
+ * @param filter - Active content filter rules
+ * @returns True when the filter finds nothing
+ */
+export function isCleanText(text: string, filter: CompiledContentFilter = DEFAULT_CONTENT_FILTER): boolean {
+  return filterContent('', text, filter).isClean;
+}
+
+/**
+ * Whether a review is visible to the public
+ *
+ * Reviews stored before moderation existed have no status and count as published.
+ */
+export function isPublished(review: Review): boolean {
+  return !review.moderationStatus || review.moderationStatus === 'approved';
+}
+
+/**
+ * Removes moderator-only details before a review is shown publicly
+ */
+export function toPublicReview(review: Review): Review {
+  const { moderationReason, moderatedBy, ...rest } = review;
+  return rest;
+}
+
+/**
+ * Aggregates a listing's published reviews
+ *
+ * @param reviews - All reviews of the listing
+ * @returns Average (to one decimal), total, per-star breakdown and the
+ *          published reviews, newest first
+ */
+export function calculateListingRating(reviews: Review[]): ListingRating {
+  const published = reviews
+    .filter(isPublished)
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  const ratingBreakdown: ListingRating['ratingBreakdown'] = { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 };
+  let total = 0;
+  for (const review of published) {
+    ratingBreakdown[review.rating as keyof ListingRating['ratingBreakdown']] += 1;
+    total += review.rating;
+  }
+
+  return {
+    averageRating: published.length > 0 ? Math.round((total / published.length) * 10) / 10 : 0,
+    totalReviews: published.length,
+    ratingBreakdown,
+    reviews: published,
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Listing review storage.
+ *
+ * Reviews are stored one item per review. The review ID is derived from the
+ * listing and the reviewer, so each user can hold at most one review per
+ * listing and a second create is rejected by the table itself.
+ *
+ * Indexes:
+ * - listing-index: reviews of a listing, newest first
+ * - moderation-index: reviews by moderation status, oldest first (moderator queue)
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { createHash } from 'crypto';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  DeleteCommand,
+  QueryCommand,
+  QueryCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+import { Review, ReviewModerationStatus } from '../types/common';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const REVIEWS_TABLE = process.env.REVIEWS_TABLE || 'harborlist-reviews';
+
+/**
+ * Review indexes
+ */
+const LISTING_INDEX = 'listing-index';
+const MODERATION_INDEX = 'moderation-index';
+
+/**
+ * Builds the deterministic review ID for a listing and reviewer
+ *
+ * @param listingId - Reviewed listing
+ * @param userId - Reviewer user ID
+ * @returns Review identifier
+ */
+export function getReviewId(listingId: string, userId: string): string {
+  return createHash('sha256').update(`${listingId}|${userId}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * Retrieves a review
+ *
+ * @param reviewId - Review identifier
+ * @returns Promise<Review | null> - The review, or null when it does not exist
+ */
+export async function getReview(reviewId: string): Promise<Review | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: REVIEWS_TABLE,
+    Key: { reviewId },
+  }));
+
+  return (result.Item as Review) || null;
+}
+
+/**
+ * Stores a new review
+ *
+ * @param review - Review to create
+ * @returns Promise<boolean> - False when the user has already reviewed the listing
+ */
+export async function createReview(review: Review): Promise<boolean> {
+  try {
+    await docClient.send(new PutCommand({
+      TableName: REVIEWS_TABLE,
+      Item: review,
+      ConditionExpression: 'attribute_not_exists(reviewId)',
+    }));
+    return true;
+  } catch (error: any) {
+    if (error?.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Saves changes to an existing review
+ *
+ * @param review - Updated review
+ * @returns Promise<void>
+ */
+export async function saveReview(review: Review): Promise<void> {
+  await docClient.send(new PutCommand({
+    TableName: REVIEWS_TABLE,
+    Item: review,
+  }));
+}
+
+/**
+ * Deletes a review
+ *
+ * @param reviewId - Review identifier
+ * @returns Promise<void>
+ */
+export async function deleteReview(reviewId: string): Promise<void> {
+  await docClient.send(new DeleteCommand({
+    TableName: REVIEWS_TABLE,
+    Key: { reviewId },
+  }));
+}
+
+/**
+ * Runs a query and collects every page of results
+ */
+async function queryAll(params: Omit<QueryCommandInput, 'TableName'>): Promise<Review[]> {
+  const reviews: Review[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      ...params,
+      TableName: REVIEWS_TABLE,
+      ExclusiveStartKey: lastKey,
+    }));
+    reviews.push(...((result.Items || []) as Review[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return reviews;
+}
+
+/**
+ * Lists every review of a listing, whatever its moderation status
+ *
+ * @param listingId - Listing identifier
+ * @returns Promise<Review[]> - Reviews, newest first
+ */
+export async function listReviewsForListing(listingId: string): Promise<Review[]> {
+  return queryAll({
+    IndexName: LISTING_INDEX,
+    KeyConditionExpression: 'listingId = :listingId',
+    ExpressionAttributeValues: { ':listingId': listingId },
+    ScanIndexForward: false,
+  });
+}
+
+/**
+ * Lists reviews with a moderation status
+ *
+ * @param status - Moderation status
+ * @returns Promise<Review[]> - Reviews, oldest first
+ */
+export async function listReviewsByModerationStatus(status: ReviewModerationStatus): Promise<Review[]> {
+  return queryAll({
+    IndexName: MODERATION_INDEX,
+    KeyConditionExpression: 'moderationStatus = :status',
+    ExpressionAttributeValues: { ':status': status },
+  });
+}
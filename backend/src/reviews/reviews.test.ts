@@ -0,0 +1,392 @@
+/**
+ * @fileoverview Unit tests for listing reviews
+ *
+ * Tests rating aggregation and the reviews API handler (one review per user
+ * per listing, verified reviews from inquiry and offer history, content
+ * filter moderation, seller responses and the moderator queue).
+ */
+
+import { handler } from './index';
+import { calculateListingRating, parseRating, screenReview } from './rating';
+import {
+  createReview,
+  deleteReview,
+  getReview,
+  getReviewId,
+  listReviewsByModerationStatus,
+  listReviewsForListing,
+  saveReview,
+} from './review-manager';
+import { getThread } from '../messaging/thread-manager';
+import { listOffersForBuyer } from '../offers/offer-manager';
+import { createNotification } from '../notification-service';
+import { db } from '../shared/database';
+import { Review } from '../types/common';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+jest.mock('./review-manager', () => ({
+  ...jest.requireActual('./review-manager'),
+  createReview: jest.fn(),
+  deleteReview: jest.fn(),
+  getReview: jest.fn(),
+  saveReview: jest.fn(),
+  listReviewsForListing: jest.fn(),
+  listReviewsByModerationStatus: jest.fn(),
+}));
+
+jest.mock('../messaging/thread-manager', () => ({
+  ...jest.requireActual('../messaging/thread-manager'),
+  getThread: jest.fn(),
+}));
+
+jest.mock('../offers/offer-manager', () => ({
+  listOffersForBuyer: jest.fn(),
+}));
+
+jest.mock('../notification-service', () => ({
+  createNotification: jest.fn(),
+}));
+
+jest.mock('../shared/content-filter-rules', () => ({
+  getContentFilter: jest.fn(async () => jest.requireActual('../shared/content-filter').DEFAULT_CONTENT_FILTER),
+}));
+
+jest.mock('../shared/database', () => ({
+  db: {
+    getListing: jest.fn(),
+    getUser: jest.fn(),
+  },
+}));
+
+const mockCreateReview = createReview as jest.MockedFunction<typeof createReview>;
+const mockGetReview = getReview as jest.MockedFunction<typeof getReview>;
+const mockSaveReview = saveReview as jest.MockedFunction<typeof saveReview>;
+const mockListReviewsForListing = listReviewsForListing as jest.MockedFunction<typeof listReviewsForListing>;
+const mockGetThread = getThread as jest.MockedFunction<typeof getThread>;
+const mockListOffersForBuyer = listOffersForBuyer as jest.MockedFunction<typeof listOffersForBuyer>;
+
+const users: Record<string, any> = {
+  'buyer-1': { id: 'buyer-1', name: 'Bob Buyer' },
+  'seller-1': { id: 'seller-1', name: 'Sally Seller' },
+};
+
+const listing = {
+  listingId: 'listing-1',
+  ownerId: 'seller-1',
+  title: '2019 Grady-White 257',
+  status: 'active',
+};
+
+function createTestReview(overrides: Partial<Review> = {}): Review {
+  return {
+    reviewId: getReviewId('listing-1', 'buyer-1'),
+    listingId: 'listing-1',
+    userId: 'buyer-1',
+    userName: 'Bob Buyer',
+    rating: 4,
+    comment: 'Well maintained and exactly as described.',
+    verified: true,
+    moderationStatus: 'approved',
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  };
+}
+
+function createEvent(
+  method: string,
+  path: string,
+  body?: any,
+  userId: string | null = 'buyer-1',
+  role?: string
+): APIGatewayProxyEvent {
+  return {
+    httpMethod: method,
+    path,
+    body: body ? JSON.stringify(body) : null,
+    queryStringParameters: null,
+    requestContext: {
+      requestId: 'test-request',
+      ...(userId && { authorizer: { claims: { sub: userId, role } } }),
+    } as any,
+  } as APIGatewayProxyEvent;
+}
+
+describe('Reviews', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.getUser as jest.Mock).mockImplementation(async (userId: string) => users[userId] || null);
+    (db.getListing as jest.Mock).mockResolvedValue({ ...listing });
+    mockCreateReview.mockResolvedValue(true);
+    mockGetThread.mockResolvedValue(null);
+    mockListOffersForBuyer.mockResolvedValue([]);
+    mockListReviewsForListing.mockResolvedValue([]);
+  });
+
+  describe('Rating rules', () => {
+    test('should aggregate only published reviews into the breakdown', () => {
+      const rating = calculateListingRating([
+        createTestReview({ reviewId: 'a', rating: 5, createdAt: 1 }),
+        createTestReview({ reviewId: 'b', rating: 4, createdAt: 3 }),
+        createTestReview({ reviewId: 'c', rating: 4, createdAt: 2, moderationStatus: undefined }),
+        createTestReview({ reviewId: 'd', rating: 1, moderationStatus: 'pending' }),
+        createTestReview({ reviewId: 'e', rating: 1, moderationStatus: 'rejected' }),
+      ]);
+
+      expect(rating.totalReviews).toBe(3);
+      expect(rating.averageRating).toBe(4.3);
+      expect(rating.ratingBreakdown).toEqual({ 5: 1, 4: 2, 3: 0, 2: 0, 1: 0 });
+      expect(rating.reviews.map(review => review.reviewId)).toEqual(['b', 'c', 'a']);
+      expect(calculateListingRating([]).averageRating).toBe(0);
+    });
+
+    test('should accept whole-star ratings from 1 to 5', () => {
+      expect(parseRating(5)).toBe(5);
+      expect(parseRating('3')).toBe(3);
+      expect(typeof parseRating(0)).toBe('string');
+      expect(typeof parseRating(4.5)).toBe('string');
+      expect(typeof parseRating(6)).toBe('string');
+    });
+
+    test('should hold reviews the content filter matches', () => {
+      expect(screenReview('Great boat, honest seller')).toEqual({ moderationStatus: 'approved' });
+      expect(screenReview(undefined)).toEqual({ moderationStatus: 'approved' });
+
+      const held = screenReview('This seller is a total asshole');
+      expect(held.moderationStatus).toBe('pending');
+      expect(held.moderationReason).toContain('profanity');
+    });
+  });
+
+  describe('GET /listings/:id/rating', () => {
+    test('should return the public rating with the caller\'s own review', async () => {
+      const own = createTestReview({ moderationStatus: 'pending', moderationReason: 'Content filter' });
+      mockListReviewsForListing.mockResolvedValue([
+        createTestReview({ reviewId: 'r2', userId: 'buyer-2', rating: 5, moderatedBy: 'mod-1' }),
+        own,
+      ]);
+
+      const result = await handler(createEvent('GET', '/api/listings/listing-1/rating'));
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(body.totalReviews).toBe(1);
+      expect(body.ratingBreakdown[5]).toBe(1);
+      expect(body.reviews[0].moderatedBy).toBeUndefined();
+      expect(body.userReview.reviewId).toBe(own.reviewId);
+    });
+
+    test('should not require authentication', async () => {
+      const result = await handler(createEvent('GET', '/api/listings/listing-1/rating', undefined, null));
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).userReview).toBeUndefined();
+    });
+
+    test('should return 404 for an unknown listing', async () => {
+      (db.getListing as jest.Mock).mockResolvedValue(null);
+
+      const result = await handler(createEvent('GET', '/api/listings/missing/rating'));
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /reviews', () => {
+    test('should create an unverified review without inquiry history', async () => {
+      const result = await handler(createEvent('POST', '/api/reviews', { listingId: 'listing-1', rating: 5, comment: 'Lovely boat' }));
+      const { review } = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(201);
+      expect(review.reviewId).toBe(getReviewId('listing-1', 'buyer-1'));
+      expect(review.userName).toBe('Bob Buyer');
+      expect(review.verified).toBe(false);
+      expect(review.moderationStatus).toBe('approved');
+      expect(createNotification).toHaveBeenCalledWith(
+        'seller-1',
+        'listing_review',
+        'New review',
+        expect.stringContaining('5-star'),
+        expect.any(Object),
+        '/listing/listing-1#reviews'
+      );
+    });
+
+    test('should verify reviewers who messaged the seller', async () => {
+      mockGetThread.mockResolvedValue({ threadId: 'thread-1' } as any);
+
+      const result = await handler(createEvent('POST', '/api/reviews', { listingId: 'listing-1', rating: 4 }));
+
+      expect(JSON.parse(result.body).review.verified).toBe(true);
+    });
+
+    test('should verify reviewers who made an offer', async () => {
+      mockListOffersForBuyer.mockResolvedValue([{ listingId: 'listing-1' } as any]);
+
+      const result = await handler(createEvent('POST', '/api/reviews', { listingId: 'listing-1', rating: 4 }));
+
+      expect(JSON.parse(result.body).review.verified).toBe(true);
+    });
+
+    test('should hold a flagged review without notifying the seller', async () => {
+      const result = await handler(createEvent('POST', '/api/reviews', {
+        listingId: 'listing-1',
+        rating: 1,
+        comment: 'What a load of bullshit',
+      }));
+
+      expect(result.statusCode).toBe(201);
+      expect(JSON.parse(result.body).review.moderationStatus).toBe('pending');
+      expect(createNotification).not.toHaveBeenCalled();
+    });
+
+    test('should allow only one review per user per listing', async () => {
+      mockCreateReview.mockResolvedValue(false);
+
+      const result = await handler(createEvent('POST', '/api/reviews', { listingId: 'listing-1', rating: 4 }));
+
+      expect(result.statusCode).toBe(409);
+      expect(JSON.parse(result.body).error.code).toBe('REVIEW_EXISTS');
+    });
+
+    test('should reject reviews of your own listing and invalid ratings', async () => {
+      const own = await handler(createEvent('POST', '/api/reviews', { listingId: 'listing-1', rating: 4 }, 'seller-1'));
+      const invalid = await handler(createEvent('POST', '/api/reviews', { listingId: 'listing-1', rating: 7 }));
+
+      expect(JSON.parse(own.body).error.code).toBe('OWN_LISTING');
+      expect(JSON.parse(invalid.body).error.code).toBe('INVALID_RATING');
+      expect(mockCreateReview).not.toHaveBeenCalled();
+    });
+
+    test('should require authentication', async () => {
+      const result = await handler(createEvent('POST', '/api/reviews', { listingId: 'listing-1', rating: 4 }, null));
+
+      expect(result.statusCode).toBe(401);
+    });
+  });
+
+  describe('Editing and deleting', () => {
+    test('should let the author edit their review and re-screen it', async () => {
+      mockGetReview.mockResolvedValue(createTestReview());
+
+      const result = await handler(createEvent('PUT', `/api/reviews/${createTestReview().reviewId}`, { rating: 2, comment: 'Engine was crap' }));
+      const { review } = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(review.rating).toBe(2);
+      expect(review.moderationStatus).toBe('pending');
+      expect(mockSaveReview).toHaveBeenCalled();
+    });
+
+    test('should send an edited review a moderator removed back for moderation', async () => {
+      mockGetReview.mockResolvedValue(createTestReview({ moderationStatus: 'rejected', moderatedBy: 'mod-1' }));
+
+      const result = await handler(createEvent('PUT', '/api/reviews/r1', { comment: 'Nice boat' }));
+      const { review } = JSON.parse(result.body);
+
+      expect(review.moderationStatus).toBe('pending');
+      expect(review.moderatedBy).toBeUndefined();
+    });
+
+    test('should not let other users edit or delete a review', async () => {
+      mockGetReview.mockResolvedValue(createTestReview());
+
+      const edit = await handler(createEvent('PUT', '/api/reviews/r1', { rating: 1 }, 'seller-1'));
+      const remove = await handler(createEvent('DELETE', '/api/reviews/r1', undefined, 'seller-1'));
+
+      expect(edit.statusCode).toBe(403);
+      expect(remove.statusCode).toBe(403);
+      expect(deleteReview).not.toHaveBeenCalled();
+    });
+
+    test('should let moderators delete any review', async () => {
+      mockGetReview.mockResolvedValue(createTestReview());
+
+      const result = await handler(createEvent('DELETE', '/api/reviews/r1', undefined, 'mod-1', 'moderator'));
+
+      expect(result.statusCode).toBe(200);
+      expect(deleteReview).toHaveBeenCalledWith(createTestReview().reviewId);
+    });
+  });
+
+  describe('Seller responses', () => {
+    test('should let the listing owner respond and notify the reviewer', async () => {
+      mockGetReview.mockResolvedValue(createTestReview());
+
+      const result = await handler(createEvent('PUT', '/api/reviews/r1/response', { comment: 'Thanks for visiting!' }, 'seller-1'));
+      const { review } = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(review.sellerResponse).toMatchObject({ sellerId: 'seller-1', sellerName: 'Sally Seller', comment: 'Thanks for visiting!' });
+      expect(createNotification).toHaveBeenCalledWith(
+        'buyer-1',
+        'listing_review',
+        'The seller responded to your review',
+        expect.any(String),
+        expect.any(Object),
+        '/listing/listing-1#reviews'
+      );
+    });
+
+    test('should only let the listing owner respond', async () => {
+      mockGetReview.mockResolvedValue(createTestReview());
+
+      const result = await handler(createEvent('PUT', '/api/reviews/r1/response', { comment: 'Me too' }, 'buyer-2'));
+
+      expect(result.statusCode).toBe(403);
+    });
+
+    test('should reject responses the content filter matches', async () => {
+      mockGetReview.mockResolvedValue(createTestReview());
+
+      const result = await handler(createEvent('PUT', '/api/reviews/r1/response', { comment: 'You are a jackass' }, 'seller-1'));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error.code).toBe('CONTENT_REJECTED');
+      expect(mockSaveReview).not.toHaveBeenCalled();
+    });
+
+    test('should remove a response', async () => {
+      mockGetReview.mockResolvedValue(createTestReview({
+        sellerResponse: { sellerId: 'seller-1', sellerName: 'Sally Seller', comment: 'Thanks', createdAt: 1, updatedAt: 1 },
+      }));
+
+      const result = await handler(createEvent('DELETE', '/api/reviews/r1/response', undefined, 'seller-1'));
+
+      expect(JSON.parse(result.body).review.sellerResponse).toBeUndefined();
+    });
+  });
+
+  describe('Moderation', () => {
+    test('should list held reviews for moderators only', async () => {
+      (listReviewsByModerationStatus as jest.Mock).mockResolvedValue([createTestReview({ moderationStatus: 'pending' })]);
+
+      const allowed = await handler(createEvent('GET', '/api/reviews/moderation', undefined, 'mod-1', 'moderator'));
+      const denied = await handler(createEvent('GET', '/api/reviews/moderation'));
+
+      expect(JSON.parse(allowed.body).reviews).toHaveLength(1);
+      expect(listReviewsByModerationStatus).toHaveBeenCalledWith('pending');
+      expect(denied.statusCode).toBe(403);
+    });
+
+    test('should publish an approved review and notify the seller', async () => {
+      mockGetReview.mockResolvedValue(createTestReview({ moderationStatus: 'pending' }));
+
+      const result = await handler(createEvent('POST', '/api/reviews/r1/moderate', { decision: 'approve' }, 'mod-1', 'admin'));
+      const { review } = JSON.parse(result.body);
+
+      expect(review.moderationStatus).toBe('approved');
+      expect(review.moderatedBy).toBe('mod-1');
+      expect(createNotification).toHaveBeenCalledWith('seller-1', 'listing_review', 'New review', expect.any(String), expect.any(Object), expect.any(String));
+    });
+
+    test('should tell the reviewer when their review is rejected', async () => {
+      mockGetReview.mockResolvedValue(createTestReview({ moderationStatus: 'pending' }));
+
+      const result = await handler(createEvent('POST', '/api/reviews/r1/moderate', { decision: 'reject', reason: 'Personal attack' }, 'mod-1', 'moderator'));
+
+      expect(JSON.parse(result.body).review.moderationStatus).toBe('rejected');
+      expect(createNotification).toHaveBeenCalledWith('buyer-1', 'listing_review', 'Your review was removed', 'Personal attack', expect.any(Object), expect.any(String));
+    });
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * @fileoverview New-match alerts for saved searches.
+ *
+ * Runs on a schedule and checks listings approved since each saved search
+ * was last checked against its filters:
+ * - Matching uses `executeSearchQuery` from the search service, so an alert
+ *   fires for exactly the listings the same search would return
+ * - Each saved search with new matches gets one in-app notification per run
+ * - Searches set to `instant` email are emailed in the same run, bundled per user
+ * - Searches set to `daily` queue their matches and are emailed as one
+ *   digest per user once a day
+ *
+ * Listings approved within `INDEX_SETTLE_MS` of a run are left for the next
+ * run so writes still propagating to the search index are not skipped.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { Listing, SavedSearch, SearchFilters } from '../types/common';
+import { db } from '../shared/database';
+import { emailService, SavedSearchDigestEntry } from '../shared/email';
+import { getSearchIndex } from '../search/indexer';
+import { executeSearchQuery } from '../search/query';
+import { getAllSavedSearches, updateAlertState, SavedSearchAlertState } from './saved-search-manager';
+
+/**
+ * Delay before a newly approved listing is considered for alerts
+ */
+const INDEX_SETTLE_MS = 60 * 1000;
+
+/**
+ * Minimum time between daily digest emails
+ */
+const DAILY_DIGEST_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Maximum listings shown per saved search in a notification or email
+ */
+const MAX_LISTINGS_PER_ALERT = 10;
+
+/**
+ * Summary of one alert run
+ */
+export interface SavedSearchAlertRunResult {
+  searchesChecked: number;
+  searchesMatched: number;
+  notificationsSent: number;
+  emailsSent: number;
+}
+
+/**
+ * Moderation fields stored on enhanced listings
+ */
+type ListingWithModeration = Listing & {
+  slug?: string;
+  moderationWorkflow?: { status?: string; reviewedAt?: number };
+  moderationHistory?: Array<{ action: string; reviewedAt: number }>;
+};
+
+/**
+ * Returns when a listing first became publicly visible
+ *
+ * Uses the first moderator approval so later approved edits do not alert
+ * again; listings that never went through moderation use their creation time.
+ *
+ * @param listing - Listing to inspect
+ * @returns Approval timestamp in milliseconds
+ */
+export function getApprovedAt(listing: Listing): number {
+  const moderated = listing as ListingWithModeration;
+  const firstApproval = (moderated.moderationHistory || [])
+    .filter(entry => entry.action === 'approve')
+    .reduce((earliest, entry) => Math.min(earliest, entry.reviewedAt), Infinity);
+
+  if (Number.isFinite(firstApproval)) {
+    return firstApproval;
+  }
+  if (moderated.moderationWorkflow?.status === 'approved' && moderated.moderationWorkflow.reviewedAt) {
+    return moderated.moderationWorkflow.reviewedAt;
+  }
+  return listing.createdAt;
+}
+
+/**
+ * Builds the frontend search URL path for saved filters
+ *
+ * Uses the same query parameters as the search page.
+ *
+ * @param filters - Saved search filters
+ * @returns Path such as `/search?q=pontoon&state=FL`
+ */
+export function buildSearchPath(filters: SearchFilters): string {
+  const params = new URLSearchParams();
+  if (filters.query) params.set('q', filters.query);
+  if (filters.location?.state) params.set('state', filters.location.state);
+  if (filters.location?.zipCode) {
+    params.set('zip', filters.location.zipCode);
+    if (filters.location.radius) params.set('radius', filters.location.radius.toString());
+  }
+  filters.boatType?.forEach(type => params.append('type', type));
+  filters.manufacturer?.forEach(make => params.append('make', make));
+  filters.engineConfiguration?.forEach(config => params.append('engines', config));
+  filters.fuelType?.forEach(fuel => params.append('fuel', fuel));
+  if (filters.priceRange?.min) params.set('minPrice', filters.priceRange.min.toString());
+  if (filters.priceRange?.max) params.set('maxPrice', filters.priceRange.max.toString());
+  if (filters.yearRange?.min) params.set('minYear', filters.yearRange.min.toString());
+  if (filters.yearRange?.max) params.set('maxYear', filters.yearRange.max.toString());
+  if (filters.lengthRange?.min) params.set('minLength', filters.lengthRange.min.toString());
+  if (filters.lengthRange?.max) params.set('maxLength', filters.lengthRange.max.toString());
+
+  const query = params.toString();
+  return query ? `/search?${query}` : '/search';
+}
+
+/**
+ * Returns the frontend path of a listing
+ */
+function getListingPath(listing: Listing): string {
+  const { slug } = listing as ListingWithModeration;
+  return slug ? `/boat/${slug}` : `/listing/${listing.listingId}`;
+}
+
+/**
+ * Creates the in-app notification for a saved search's new matches
+ */
+async function notifyMatches(savedSearch: SavedSearch, matches: Listing[]): Promise<void> {
+  // Imported lazily to avoid loading the notification service in every caller
+  const { createNotification } = await import('../notification-service');
+
+  const title = matches.length === 1
+    ? `New match for "${savedSearch.name}"`
+    : `${matches.length} new matches for "${savedSearch.name}"`;
+  const message = matches.length === 1
+    ? `${matches[0].title} was just listed.`
+    : `${matches.slice(0, 3).map(listing => listing.title).join(', ')}${matches.length > 3 ? ' and more' : ''} were just listed.`;
+
+  await createNotification(
+    savedSearch.userId,
+    'saved_search_match',
+    title,
+    message,
+    {
+      searchId: savedSearch.searchId,
+      listingIds: matches.slice(0, MAX_LISTINGS_PER_ALERT).map(listing => listing.listingId),
+      matchCount: matches.length,
+    },
+    matches.length === 1 ? getListingPath(matches[0]) : buildSearchPath(savedSearch.filters)
+  );
+}
+
+/**
+ * Builds the email digest entry for a saved search
+ */
+function toDigestEntry(savedSearch: SavedSearch, matches: Listing[]): SavedSearchDigestEntry {
+  const frontendUrl = process.env.FRONTEND_URL || 'https://harborlist.com';
+  return {
+    searchName: savedSearch.name,
+    searchUrl: `${frontendUrl}${buildSearchPath(savedSearch.filters)}`,
+    totalMatches: matches.length,
+    listings: matches.slice(0, MAX_LISTINGS_PER_ALERT).map(listing => ({
+      title: listing.title,
+      price: listing.price,
+      location: `${listing.location.city}, ${listing.location.state}`,
+      url: `${frontendUrl}${getListingPath(listing)}`,
+    })),
+  };
+}
+
+/**
+ * Emails a user their digest entries
+ *
+ * Email failures are logged rather than thrown so the run still records
+ * which matches were already notified in-app.
+ *
+ * @returns True when the email was sent
+ */
+async function emailDigest(
+  userId: string,
+  entries: SavedSearchDigestEntry[],
+  frequency: 'instant' | 'daily'
+): Promise<boolean> {
+  try {
+    const user = await db.getUser(userId);
+    if (!user?.email) {
+      return false;
+    }
+
+    await emailService.sendSavedSearchDigestEmail(user.email, user.name, entries, frequency);
+    return true;
+  } catch (error) {
+    console.error(`Failed to email saved search ${frequency} digest to user ${userId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Checks every saved search for newly approved matching listings and sends alerts
+ *
+ * Failures for one user are logged and do not stop the run; that user's
+ * searches keep their previous checkpoint and are retried next run.
+ *
+ * @param now - Time of the run (defaults to the current time)
+ * @returns Promise<SavedSearchAlertRunResult> - Counts for monitoring
+ *
+ * @example
+ * ```typescript
+ * // Scheduled every 15 minutes
+ * const result = await runSavedSearchAlerts();
+ * console.log(`${result.notificationsSent} saved search alerts sent`);
+ * ```
+ */
+export async function runSavedSearchAlerts(now: number = Date.now()): Promise<SavedSearchAlertRunResult> {
+  const result: SavedSearchAlertRunResult = {
+    searchesChecked: 0,
+    searchesMatched: 0,
+    notificationsSent: 0,
+    emailsSent: 0,
+  };
+
+  const savedSearches = await getAllSavedSearches();
+  if (savedSearches.length === 0) {
+    return result;
+  }
+
+  const searchIndex = await getSearchIndex();
+  const checkpoint = now - INDEX_SETTLE_MS;
+
+  const searchesByUser = new Map<string, SavedSearch[]>();
+  for (const savedSearch of savedSearches) {
+    searchesByUser.set(savedSearch.userId, [...(searchesByUser.get(savedSearch.userId) || []), savedSearch]);
+  }
+
+  for (const [userId, userSearches] of searchesByUser) {
+    try {
+      const instantEntries: SavedSearchDigestEntry[] = [];
+      const dailyEntries: SavedSearchDigestEntry[] = [];
+      const dailySearchIds: string[] = [];
+      const states = new Map<string, SavedSearchAlertState>();
+
+      for (const savedSearch of userSearches) {
+        result.searchesChecked++;
+        const since = savedSearch.lastCheckedAt || savedSearch.createdAt;
+        const state: SavedSearchAlertState = { lastCheckedAt: Math.max(since, checkpoint) };
+        states.set(savedSearch.searchId, state);
+
+        const matches = since >= checkpoint
+          ? []
+          : executeSearchQuery(searchIndex, savedSearch.filters).matches
+            .filter(listing => {
+              const approvedAt = getApprovedAt(listing);
+              return approvedAt > since && approvedAt <= checkpoint;
+            })
+            .sort((a, b) => getApprovedAt(b) - getApprovedAt(a));
+
+        if (matches.length > 0) {
+          result.searchesMatched++;
+          state.lastMatchedAt = now;
+
+          if (savedSearch.notificationsEnabled !== false) {
+            await notifyMatches(savedSearch, matches);
+            result.notificationsSent++;
+          }
+
+          if (savedSearch.emailFrequency === 'instant') {
+            instantEntries.push(toDigestEntry(savedSearch, matches));
+          }
+        }
+
+        if (savedSearch.emailFrequency === 'daily') {
+          state.pendingDigestListingIds = Array.from(new Set([
+            ...matches.map(listing => listing.listingId),
+            ...(savedSearch.pendingDigestListingIds || []),
+          ]));
+
+          const digestDue = now - (savedSearch.lastEmailedAt || savedSearch.createdAt) >= DAILY_DIGEST_INTERVAL_MS;
+          const pendingListings = state.pendingDigestListingIds
+            .map(listingId => searchIndex.getListing(listingId))
+            .filter((listing): listing is Listing => !!listing);
+
+          if (digestDue && pendingListings.length > 0) {
+            dailyEntries.push(toDigestEntry(savedSearch, pendingListings));
+            dailySearchIds.push(savedSearch.searchId);
+          }
+        }
+      }
+
+      if (instantEntries.length > 0 && await emailDigest(userId, instantEntries, 'instant')) {
+        result.emailsSent++;
+        for (const savedSearch of userSearches.filter(search => search.emailFrequency === 'instant')) {
+          states.get(savedSearch.searchId)!.lastEmailedAt = now;
+        }
+      }
+
+      // Undelivered daily matches stay queued for the next run
+      if (dailyEntries.length > 0 && await emailDigest(userId, dailyEntries, 'daily')) {
+        result.emailsSent++;
+        for (const searchId of dailySearchIds) {
+          Object.assign(states.get(searchId)!, { pendingDigestListingIds: [], lastEmailedAt: now });
+        }
+      }
+
+      for (const [searchId, state] of states) {
+        await updateAlertState(userId, searchId, state);
+      }
+    } catch (error) {
+      console.error(`Failed to process saved search alerts for user ${userId}:`, error);
+    }
+  }
+
+  console.log(
+    `Saved search alerts: ${result.searchesMatched}/${result.searchesChecked} searches matched, ` +
+    `${result.notificationsSent} notifications, ${result.emailsSent} emails`
+  );
+  return result;
+}
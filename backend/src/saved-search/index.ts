@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Saved search API and alert schedule handlers.
+ *
+ * Endpoints (authenticated user only sees their own saved searches):
+ * - GET    /api/saved-searches      - List saved searches
+ * - POST   /api/saved-searches      - Save a search
+ * - GET    /api/saved-searches/:id  - Get a saved search
+ * - PUT    /api/saved-searches/:id  - Rename, change filters or alert preferences
+ * - DELETE /api/saved-searches/:id  - Delete a saved search
+ *
+ * `scheduledHandler` runs the new-match alert matcher and is invoked by an
+ * EventBridge schedule (or an interval timer in the local server).
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { createResponse, createErrorResponse, parseBody, getUserId } from '../shared/utils';
+import { ValidationFramework, CommonRules } from '../shared/validators';
+import {
+  listSavedSearches,
+  getSavedSearch,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  EMAIL_FREQUENCIES,
+  MAX_SAVED_SEARCHES_PER_USER,
+  SavedSearchInput,
+} from './saved-search-manager';
+import { runSavedSearchAlerts, SavedSearchAlertRunResult } from './alert-matcher';
+
+/**
+ * Maximum length of a saved search name
+ */
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Validates the body of a create or update request
+ *
+ * @param body - Parsed request body
+ * @param requestId - Request identifier for error responses
+ * @param isUpdate - Whether fields are optional (update) or name/filters are required (create)
+ * @returns Error response, or null when the body is valid
+ */
+function validateSavedSearchInput(
+  body: Partial<SavedSearchInput>,
+  requestId: string,
+  isUpdate: boolean
+): APIGatewayProxyResult | null {
+  const rules = [
+    ...(isUpdate ? [] : [CommonRules.required('name', 'Name'), CommonRules.required('filters', 'Filters')]),
+    CommonRules.optional(CommonRules.maxLength('name', MAX_NAME_LENGTH, 'Name')),
+    CommonRules.optional(CommonRules.oneOf('emailFrequency', EMAIL_FREQUENCIES, 'Email frequency')),
+    CommonRules.optional(CommonRules.boolean('notificationsEnabled', 'Notifications enabled')),
+  ];
+
+  const validation = ValidationFramework.validate(body, rules, requestId);
+  if (!validation.isValid) {
+    return validation.response!;
+  }
+
+  if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+    return createErrorResponse(400, 'VALIDATION_ERROR', 'Name cannot be empty', requestId);
+  }
+  if (body.filters !== undefined && (typeof body.filters !== 'object' || body.filters === null || Array.isArray(body.filters))) {
+    return createErrorResponse(400, 'VALIDATION_ERROR', 'Filters must be an object', requestId);
+  }
+
+  return null;
+}
+
+/**
+ * Main Lambda handler for saved search requests
+ *
+ * @param event - API Gateway proxy event
+ * @returns Promise<APIGatewayProxyResult> - Saved search response
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const method = event.httpMethod;
+  const path = event.path.split('?')[0];
+
+  if (method === 'OPTIONS') {
+    return createResponse(200, {});
+  }
+
+  let userId: string;
+  try {
+    userId = getUserId(event);
+  } catch {
+    return createErrorResponse(401, 'UNAUTHORIZED', 'User authentication required', requestId);
+  }
+
+  try {
+    const searchId = path.match(/\/saved-searches\/([^/]+)\/?$/)?.[1];
+
+    // GET /api/saved-searches - List saved searches
+    if (method === 'GET' && !searchId) {
+      const savedSearches = await listSavedSearches(userId);
+      return createResponse(200, { savedSearches, limit: MAX_SAVED_SEARCHES_PER_USER });
+    }
+
+    // POST /api/saved-searches - Save a search
+    if (method === 'POST' && !searchId) {
+      const body = parseBody<SavedSearchInput>(event);
+      const validationError = validateSavedSearchInput(body, requestId, false);
+      if (validationError) {
+        return validationError;
+      }
+
+      try {
+        const savedSearch = await createSavedSearch(userId, body);
+        return createResponse(201, { savedSearch });
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Saved search limit reached')) {
+          return createErrorResponse(409, 'SAVED_SEARCH_LIMIT', error.message, requestId);
+        }
+        throw error;
+      }
+    }
+
+    if (searchId) {
+      // GET /api/saved-searches/:id - Get a saved search
+      if (method === 'GET') {
+        const savedSearch = await getSavedSearch(userId, searchId);
+        if (!savedSearch) {
+          return createErrorResponse(404, 'NOT_FOUND', 'Saved search not found', requestId);
+        }
+        return createResponse(200, { savedSearch });
+      }
+
+      // PUT /api/saved-searches/:id - Update a saved search
+      if (method === 'PUT') {
+        const body = parseBody<Partial<SavedSearchInput>>(event);
+        const validationError = validateSavedSearchInput(body, requestId, true);
+        if (validationError) {
+          return validationError;
+        }
+
+        const savedSearch = await updateSavedSearch(userId, searchId, body);
+        if (!savedSearch) {
+          return createErrorResponse(404, 'NOT_FOUND', 'Saved search not found', requestId);
+        }
+        return createResponse(200, { savedSearch });
+      }
+
+      // DELETE /api/saved-searches/:id - Delete a saved search
+      if (method === 'DELETE') {
+        const deleted = await deleteSavedSearch(userId, searchId);
+        if (!deleted) {
+          return createErrorResponse(404, 'NOT_FOUND', 'Saved search not found', requestId);
+        }
+        return createResponse(200, { success: true });
+      }
+    }
+
+    return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
+  } catch (error) {
+    console.error('Saved search error:', error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Saved search request failed', requestId);
+  }
+};
+
+/**
+ * Scheduled handler that sends new-match alerts for saved searches
+ *
+ * @returns Promise<SavedSearchAlertRunResult> - Counts for the run
+ */
+export const scheduledHandler = async (): Promise<SavedSearchAlertRunResult> => {
+  return runSavedSearchAlerts();
+};
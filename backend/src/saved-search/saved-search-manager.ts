@@ -0,0 +1,278 @@
+/**
+ * @fileoverview Saved search storage for HarborList buyers.
+ *
+ * Stores named search filter sets per user so buyers can re-run a search and
+ * be alerted when new listings match it:
+ * - One record per saved search, keyed by user and search ID
+ * - Per-user limit on the number of saved searches
+ * - Alert bookkeeping (last checked time, pending digest matches) updated by
+ *   the alert matcher (see `alert-matcher.ts`)
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+  DeleteCommand,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { generateId } from '../shared/utils';
+import { SavedSearch, SavedSearchEmailFrequency } from '../types/common';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const SAVED_SEARCHES_TABLE = process.env.SAVED_SEARCHES_TABLE || 'harborlist-saved-searches';
+
+/**
+ * Maximum number of saved searches a user can keep
+ */
+export const MAX_SAVED_SEARCHES_PER_USER = 25;
+
+/**
+ * Email frequencies a saved search can be configured with
+ */
+export const EMAIL_FREQUENCIES: SavedSearchEmailFrequency[] = ['instant', 'daily', 'none'];
+
+/**
+ * Fields a user can set when creating or editing a saved search
+ */
+export type SavedSearchInput = Pick<SavedSearch, 'name' | 'filters'> &
+  Partial<Pick<SavedSearch, 'emailFrequency' | 'notificationsEnabled'>>;
+
+/**
+ * Alert bookkeeping fields written by the alert matcher
+ */
+export type SavedSearchAlertState = Partial<Pick<
+  SavedSearch,
+  'lastCheckedAt' | 'lastMatchedAt' | 'lastEmailedAt' | 'pendingDigestListingIds'
+>>;
+
+/**
+ * Removes request-only fields (sorting, pagination) from saved filters
+ */
+function toStoredFilters(filters: SavedSearch['filters']): SavedSearch['filters'] {
+  const { sort, limit, cursor, ...stored } = filters as SavedSearch['filters'] & {
+    sort?: unknown;
+    limit?: unknown;
+    cursor?: unknown;
+  };
+  return stored;
+}
+
+/**
+ * Lists a user's saved searches, newest first
+ *
+ * @param userId - Owner of the saved searches
+ * @returns Promise<SavedSearch[]> - The user's saved searches
+ */
+export async function listSavedSearches(userId: string): Promise<SavedSearch[]> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: SAVED_SEARCHES_TABLE,
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: {
+      ':userId': userId,
+    },
+  }));
+
+  return ((result.Items || []) as SavedSearch[]).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Retrieves a single saved search
+ *
+ * @param userId - Owner of the saved search
+ * @param searchId - Saved search identifier
+ * @returns Promise<SavedSearch | null> - The saved search, or null when not found
+ */
+export async function getSavedSearch(userId: string, searchId: string): Promise<SavedSearch | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: SAVED_SEARCHES_TABLE,
+    Key: { userId, searchId },
+  }));
+
+  return (result.Item as SavedSearch) || null;
+}
+
+/**
+ * Saves a new search for a user
+ *
+ * Only listings approved after the search is saved count as new matches.
+ *
+ * @param userId - Owner of the saved search
+ * @param input - Name, filters and alert preferences
+ * @returns Promise<SavedSearch> - The stored saved search
+ *
+ * @throws {Error} When the user already has the maximum number of saved searches
+ *
+ * @example
+ * ```typescript
+ * await createSavedSearch('user-123', {
+ *   name: 'Florida center consoles',
+ *   filters: { boatType: ['Center Console'], location: { state: 'FL' } },
+ *   emailFrequency: 'daily',
+ * });
+ * ```
+ */
+export async function createSavedSearch(userId: string, input: SavedSearchInput): Promise<SavedSearch> {
+  const existing = await listSavedSearches(userId);
+  if (existing.length >= MAX_SAVED_SEARCHES_PER_USER) {
+    throw new Error(`Saved search limit reached (${MAX_SAVED_SEARCHES_PER_USER})`);
+  }
+
+  const now = Date.now();
+  const savedSearch: SavedSearch = {
+    searchId: generateId(),
+    userId,
+    name: input.name.trim(),
+    filters: toStoredFilters(input.filters),
+    emailFrequency: input.emailFrequency || 'none',
+    notificationsEnabled: input.notificationsEnabled ?? true,
+    createdAt: now,
+    updatedAt: now,
+    lastCheckedAt: now,
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: SAVED_SEARCHES_TABLE,
+    Item: savedSearch,
+  }));
+
+  return savedSearch;
+}
+
+/**
+ * Updates the name, filters or alert preferences of a saved search
+ *
+ * @param userId - Owner of the saved search
+ * @param searchId - Saved search identifier
+ * @param updates - Fields to change
+ * @returns Promise<SavedSearch | null> - The updated saved search, or null when not found
+ */
+export async function updateSavedSearch(
+  userId: string,
+  searchId: string,
+  updates: Partial<SavedSearchInput>
+): Promise<SavedSearch | null> {
+  const existing = await getSavedSearch(userId, searchId);
+  if (!existing) {
+    return null;
+  }
+
+  const updated: SavedSearch = {
+    ...existing,
+    ...(updates.name !== undefined && { name: updates.name.trim() }),
+    ...(updates.filters !== undefined && { filters: toStoredFilters(updates.filters) }),
+    ...(updates.emailFrequency !== undefined && { emailFrequency: updates.emailFrequency }),
+    ...(updates.notificationsEnabled !== undefined && { notificationsEnabled: updates.notificationsEnabled }),
+    updatedAt: Date.now(),
+  };
+
+  // Switching away from daily emails drops any undelivered digest matches
+  if (updated.emailFrequency !== 'daily') {
+    delete updated.pendingDigestListingIds;
+  }
+
+  await docClient.send(new PutCommand({
+    TableName: SAVED_SEARCHES_TABLE,
+    Item: updated,
+  }));
+
+  return updated;
+}
+
+/**
+ * Deletes a saved search
+ *
+ * @param userId - Owner of the saved search
+ * @param searchId - Saved search identifier
+ * @returns Promise<boolean> - True when a saved search was deleted
+ */
+export async function deleteSavedSearch(userId: string, searchId: string): Promise<boolean> {
+  const result = await docClient.send(new DeleteCommand({
+    TableName: SAVED_SEARCHES_TABLE,
+    Key: { userId, searchId },
+    ReturnValues: 'ALL_OLD',
+  }));
+
+  return !!result.Attributes;
+}
+
+/**
+ * Returns every saved search across all users
+ *
+ * Used by the alert matcher; pages through the whole table.
+ *
+ * @returns Promise<SavedSearch[]> - All saved searches
+ */
+export async function getAllSavedSearches(): Promise<SavedSearch[]> {
+  const savedSearches: SavedSearch[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: SAVED_SEARCHES_TABLE,
+      ExclusiveStartKey: lastKey,
+    }));
+    savedSearches.push(...((result.Items || []) as SavedSearch[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return savedSearches;
+}
+
+/**
+ * Records alert bookkeeping for a saved search
+ *
+ * Only writes when the saved search still exists, so a search deleted while
+ * the matcher runs is not recreated.
+ *
+ * @param userId - Owner of the saved search
+ * @param searchId - Saved search identifier
+ * @param state - Alert fields to set
+ * @returns Promise<void> - Resolves once the update is stored
+ */
+export async function updateAlertState(
+  userId: string,
+  searchId: string,
+  state: SavedSearchAlertState
+): Promise<void> {
+  const entries = Object.entries(state).filter(([, value]) => value !== undefined);
+  if (entries.length === 0) {
+    return;
+  }
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: SAVED_SEARCHES_TABLE,
+      Key: { userId, searchId },
+      UpdateExpression: `SET ${entries.map(([field]) => `#${field} = :${field}`).join(', ')}`,
+      ConditionExpression: 'attribute_exists(searchId)',
+      ExpressionAttributeNames: Object.fromEntries(entries.map(([field]) => [`#${field}`, field])),
+      ExpressionAttributeValues: Object.fromEntries(entries.map(([field, value]) => [`:${field}`, value])),
+    }));
+  } catch (error: any) {
+    if (error?.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Unit tests for saved searches
+ *
+ * Tests the saved search API handler and the new-match alert matcher:
+ * matching through the shared search query, approval checkpoints,
+ * in-app notifications and instant/daily email digests.
+ */
+
+import { handler } from './index';
+import { runSavedSearchAlerts, buildSearchPath, getApprovedAt } from './alert-matcher';
+import {
+  createSavedSearch,
+  getAllSavedSearches,
+  listSavedSearches,
+  updateAlertState,
+  deleteSavedSearch,
+} from './saved-search-manager';
+import { SearchIndex } from '../search/search-index';
+import { getSearchIndex } from '../search/indexer';
+import { createNotification } from '../notification-service';
+import { emailService } from '../shared/email';
+import { db } from '../shared/database';
+import { Listing, SavedSearch } from '../types/common';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+jest.mock('./saved-search-manager', () => ({
+  EMAIL_FREQUENCIES: ['instant', 'daily', 'none'],
+  MAX_SAVED_SEARCHES_PER_USER: 25,
+  listSavedSearches: jest.fn(),
+  getSavedSearch: jest.fn(),
+  createSavedSearch: jest.fn(),
+  updateSavedSearch: jest.fn(),
+  deleteSavedSearch: jest.fn(),
+  getAllSavedSearches: jest.fn(),
+  updateAlertState: jest.fn(),
+}));
+
+jest.mock('../search/indexer', () => ({
+  getSearchIndex: jest.fn(),
+}));
+
+jest.mock('../notification-service', () => ({
+  createNotification: jest.fn(),
+}));
+
+jest.mock('../shared/email', () => ({
+  emailService: { sendSavedSearchDigestEmail: jest.fn() },
+}));
+
+jest.mock('../shared/database', () => ({
+  db: { getUser: jest.fn() },
+}));
+
+const mockGetAllSavedSearches = getAllSavedSearches as jest.MockedFunction<typeof getAllSavedSearches>;
+const mockUpdateAlertState = updateAlertState as jest.MockedFunction<typeof updateAlertState>;
+const mockGetSearchIndex = getSearchIndex as jest.MockedFunction<typeof getSearchIndex>;
+const mockCreateNotification = createNotification as jest.MockedFunction<typeof createNotification>;
+const mockSendDigest = emailService.sendSavedSearchDigestEmail as jest.Mock;
+const mockGetUser = db.getUser as jest.Mock;
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 100 * 24 * HOUR;
+
+function createListing(overrides: Partial<Listing> & { listingId: string }): Listing {
+  return {
+    ownerId: 'owner-1',
+    title: 'Boat',
+    description: '',
+    price: 50000,
+    location: { city: 'Miami', state: 'FL' },
+    boatDetails: { type: 'Center Console', year: 2020, length: 25, condition: 'Good' },
+    features: [],
+    images: [],
+    thumbnails: [],
+    status: 'active',
+    createdAt: NOW - 2 * HOUR,
+    updatedAt: NOW - 2 * HOUR,
+    ...overrides,
+  } as Listing;
+}
+
+function createSavedSearchRecord(overrides: Partial<SavedSearch> = {}): SavedSearch {
+  return {
+    searchId: 'search-1',
+    userId: 'user-1',
+    name: 'Florida center consoles',
+    filters: { boatType: ['Center Console'], location: { state: 'FL' } },
+    emailFrequency: 'none',
+    notificationsEnabled: true,
+    createdAt: NOW - 10 * 24 * HOUR,
+    updatedAt: NOW - 10 * 24 * HOUR,
+    lastCheckedAt: NOW - 3 * HOUR,
+    ...overrides,
+  };
+}
+
+function createEvent(method: string, path: string, body?: any, userId: string | null = 'user-1'): APIGatewayProxyEvent {
+  return {
+    httpMethod: method,
+    path,
+    body: body ? JSON.stringify(body) : null,
+    requestContext: {
+      requestId: 'test-request',
+      ...(userId && { authorizer: { claims: { sub: userId } } }),
+    } as any,
+  } as APIGatewayProxyEvent;
+}
+
+function indexWith(listings: Listing[]): SearchIndex {
+  const index = new SearchIndex();
+  listings.forEach(listing => index.upsert(listing));
+  return index;
+}
+
+describe('Saved Searches', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetUser.mockResolvedValue({ id: 'user-1', email: 'buyer@example.com', name: 'Buyer' });
+  });
+
+  describe('API handler', () => {
+    test('should require authentication', async () => {
+      const result = await handler(createEvent('GET', '/api/saved-searches', undefined, null));
+      expect(result.statusCode).toBe(401);
+    });
+
+    test('should list the user\'s saved searches', async () => {
+      (listSavedSearches as jest.Mock).mockResolvedValue([createSavedSearchRecord()]);
+
+      const result = await handler(createEvent('GET', '/api/saved-searches'));
+
+      expect(result.statusCode).toBe(200);
+      expect(listSavedSearches).toHaveBeenCalledWith('user-1');
+      expect(JSON.parse(result.body).savedSearches).toHaveLength(1);
+    });
+
+    test('should validate name and email frequency on create', async () => {
+      const missingName = await handler(createEvent('POST', '/api/saved-searches', { filters: {} }));
+      const badFrequency = await handler(createEvent('POST', '/api/saved-searches', {
+        name: 'Pontoons',
+        filters: {},
+        emailFrequency: 'hourly',
+      }));
+
+      expect(missingName.statusCode).toBe(400);
+      expect(badFrequency.statusCode).toBe(400);
+      expect(createSavedSearch).not.toHaveBeenCalled();
+    });
+
+    test('should return 409 when the saved search limit is reached', async () => {
+      (createSavedSearch as jest.Mock).mockRejectedValue(new Error('Saved search limit reached (25)'));
+
+      const result = await handler(createEvent('POST', '/api/saved-searches', { name: 'Pontoons', filters: {} }));
+
+      expect(result.statusCode).toBe(409);
+    });
+
+    test('should return 404 when deleting an unknown saved search', async () => {
+      (deleteSavedSearch as jest.Mock).mockResolvedValue(false);
+
+      const result = await handler(createEvent('DELETE', '/api/saved-searches/missing'));
+
+      expect(result.statusCode).toBe(404);
+      expect(deleteSavedSearch).toHaveBeenCalledWith('user-1', 'missing');
+    });
+  });
+
+  describe('getApprovedAt', () => {
+    test('should use the first approval so approved edits do not re-alert', () => {
+      const listing = createListing({
+        listingId: 'l1',
+        moderationHistory: [
+          { action: 'approve', reviewedAt: 5000 },
+          { action: 'approve', reviewedAt: 2000 },
+        ],
+        moderationWorkflow: { status: 'approved', reviewedAt: 5000 },
+      } as any);
+
+      expect(getApprovedAt(listing)).toBe(2000);
+    });
+
+    test('should fall back to the creation time for unmoderated listings', () => {
+      expect(getApprovedAt(createListing({ listingId: 'l1', createdAt: 1234 }))).toBe(1234);
+    });
+  });
+
+  describe('buildSearchPath', () => {
+    test('should use the search page query parameters', () => {
+      expect(buildSearchPath({
+        query: 'pontoon',
+        location: { zipCode: '33139', radius: 50 },
+        boatType: ['Pontoon', 'Deck Boat'],
+        priceRange: { min: 10000, max: 50000 },
+      })).toBe('/search?q=pontoon&zip=33139&radius=50&type=Pontoon&type=Deck+Boat&minPrice=10000&maxPrice=50000');
+    });
+
+    test('should return the bare search page for empty filters', () => {
+      expect(buildSearchPath({})).toBe('/search');
+    });
+  });
+
+  describe('runSavedSearchAlerts', () => {
+    test('should notify only for newly approved listings matching the filters', async () => {
+      mockGetAllSavedSearches.mockResolvedValue([createSavedSearchRecord()]);
+      mockGetSearchIndex.mockResolvedValue(indexWith([
+        createListing({ listingId: 'new-match', title: 'Grady-White 257' }),
+        createListing({ listingId: 'old-match', createdAt: NOW - 5 * HOUR }),
+        createListing({ listingId: 'wrong-state', location: { city: 'Austin', state: 'TX' } }),
+        createListing({ listingId: 'pending', status: 'pending_review' } as any),
+      ]));
+
+      const result = await runSavedSearchAlerts(NOW);
+
+      expect(result).toEqual({ searchesChecked: 1, searchesMatched: 1, notificationsSent: 1, emailsSent: 0 });
+      expect(mockCreateNotification).toHaveBeenCalledWith(
+        'user-1',
+        'saved_search_match',
+        'New match for "Florida center consoles"',
+        'Grady-White 257 was just listed.',
+        expect.objectContaining({ searchId: 'search-1', listingIds: ['new-match'] }),
+        '/listing/new-match'
+      );
+      expect(mockUpdateAlertState).toHaveBeenCalledWith('user-1', 'search-1', expect.objectContaining({
+        lastCheckedAt: NOW - 60 * 1000,
+        lastMatchedAt: NOW,
+      }));
+    });
+
+    test('should leave listings approved within the settle window for the next run', async () => {
+      mockGetAllSavedSearches.mockResolvedValue([createSavedSearchRecord()]);
+      mockGetSearchIndex.mockResolvedValue(indexWith([
+        createListing({ listingId: 'just-approved', createdAt: NOW - 10 * 1000 }),
+      ]));
+
+      const result = await runSavedSearchAlerts(NOW);
+
+      expect(result.searchesMatched).toBe(0);
+      expect(mockCreateNotification).not.toHaveBeenCalled();
+    });
+
+    test('should bundle instant emails per user', async () => {
+      mockGetAllSavedSearches.mockResolvedValue([
+        createSavedSearchRecord({ searchId: 'search-1', emailFrequency: 'instant' }),
+        createSavedSearchRecord({ searchId: 'search-2', name: 'Any boat', filters: {}, emailFrequency: 'instant' }),
+      ]);
+      mockGetSearchIndex.mockResolvedValue(indexWith([createListing({ listingId: 'new-match' })]));
+
+      const result = await runSavedSearchAlerts(NOW);
+
+      expect(result.emailsSent).toBe(1);
+      expect(mockSendDigest).toHaveBeenCalledWith(
+        'buyer@example.com',
+        'Buyer',
+        [
+          expect.objectContaining({ searchName: 'Florida center consoles', totalMatches: 1 }),
+          expect.objectContaining({ searchName: 'Any boat', totalMatches: 1 }),
+        ],
+        'instant'
+      );
+      expect(mockUpdateAlertState).toHaveBeenCalledWith('user-1', 'search-2', expect.objectContaining({ lastEmailedAt: NOW }));
+    });
+
+    test('should queue daily matches until the digest is due', async () => {
+      mockGetAllSavedSearches.mockResolvedValue([
+        createSavedSearchRecord({ emailFrequency: 'daily', lastEmailedAt: NOW - 2 * HOUR }),
+      ]);
+      mockGetSearchIndex.mockResolvedValue(indexWith([createListing({ listingId: 'new-match' })]));
+
+      await runSavedSearchAlerts(NOW);
+
+      expect(mockSendDigest).not.toHaveBeenCalled();
+      expect(mockUpdateAlertState).toHaveBeenCalledWith('user-1', 'search-1', expect.objectContaining({
+        pendingDigestListingIds: ['new-match'],
+      }));
+    });
+
+    test('should send queued daily matches once due and clear the queue', async () => {
+      mockGetAllSavedSearches.mockResolvedValue([
+        createSavedSearchRecord({
+          emailFrequency: 'daily',
+          lastEmailedAt: NOW - 25 * HOUR,
+          lastCheckedAt: NOW - 60 * 1000,
+          pendingDigestListingIds: ['queued', 'since-removed'],
+        }),
+      ]);
+      mockGetSearchIndex.mockResolvedValue(indexWith([createListing({ listingId: 'queued', title: 'Boston Whaler' })]));
+
+      const result = await runSavedSearchAlerts(NOW);
+
+      expect(result.emailsSent).toBe(1);
+      expect(mockSendDigest).toHaveBeenCalledWith(
+        'buyer@example.com',
+        'Buyer',
+        [expect.objectContaining({ totalMatches: 1, listings: [expect.objectContaining({ title: 'Boston Whaler' })] })],
+        'daily'
+      );
+      expect(mockUpdateAlertState).toHaveBeenCalledWith('user-1', 'search-1', expect.objectContaining({
+        pendingDigestListingIds: [],
+        lastEmailedAt: NOW,
+      }));
+    });
+
+    test('should keep daily matches queued when the email fails', async () => {
+      mockSendDigest.mockRejectedValueOnce(new Error('SES unavailable'));
+      mockGetAllSavedSearches.mockResolvedValue([
+        createSavedSearchRecord({ emailFrequency: 'daily', lastEmailedAt: NOW - 25 * HOUR }),
+      ]);
+      mockGetSearchIndex.mockResolvedValue(indexWith([createListing({ listingId: 'new-match' })]));
+
+      const result = await runSavedSearchAlerts(NOW);
+
+      expect(result.emailsSent).toBe(0);
+      const state = mockUpdateAlertState.mock.calls[0][2];
+      expect(state.pendingDigestListingIds).toEqual(['new-match']);
+      expect(state.lastEmailedAt).toBeUndefined();
+    });
+
+    test('should not create notifications when in-app alerts are disabled', async () => {
+      mockGetAllSavedSearches.mockResolvedValue([createSavedSearchRecord({ notificationsEnabled: false })]);
+      mockGetSearchIndex.mockResolvedValue(indexWith([createListing({ listingId: 'new-match' })]));
+
+      const result = await runSavedSearchAlerts(NOW);
+
+      expect(result.searchesMatched).toBe(1);
+      expect(mockCreateNotification).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Facet counts for listing search results.
+ *
+ * Computes the option counts shown next to each search filter:
+ * - Categorical facets: boat type, manufacturer, state, engine configuration, fuel type
+ * - Bucketed facets: price, year and length ranges
+ *
+ * Each facet is counted over the result set filtered by every *other* active
+ * filter ("exclude own filter" semantics). Selecting "Sailboat" therefore
+ * still shows how many catamarans match, so multi-select facets can be
+ * widened without first clearing the selection.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { Listing, SearchFacets, FacetValue, RangeFacetValue } from '../types/common';
+import { applySearchFilters, getEngineConfiguration, getFuelTypes, SearchFilterCriteria } from './filters';
+
+/**
+ * Numeric bucket definition; bounds are inclusive to match the range filters
+ */
+interface FacetBucket {
+  range: string;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Filter keys that facets can exclude when counting
+ */
+type FacetFilterKey =
+  | 'boatType'
+  | 'manufacturer'
+  | 'location'
+  | 'priceRange'
+  | 'yearRange'
+  | 'lengthRange'
+  | 'engineConfiguration'
+  | 'fuelType';
+
+/**
+ * Price buckets in USD
+ */
+export const PRICE_BUCKETS: FacetBucket[] = [
+  { range: 'Under $25K', max: 24999 },
+  { range: '$25K - $50K', min: 25000, max: 49999 },
+  { range: '$50K - $100K', min: 50000, max: 99999 },
+  { range: '$100K - $250K', min: 100000, max: 249999 },
+  { range: '$250K - $500K', min: 250000, max: 499999 },
+  { range: '$500K - $1M', min: 500000, max: 999999 },
+  { range: '$1M+', min: 1000000 },
+];
+
+/**
+ * Model year buckets
+ */
+export const YEAR_BUCKETS: FacetBucket[] = [
+  { range: '2020 & newer', min: 2020 },
+  { range: '2015 - 2019', min: 2015, max: 2019 },
+  { range: '2010 - 2014', min: 2010, max: 2014 },
+  { range: '2000 - 2009', min: 2000, max: 2009 },
+  { range: '1990 - 1999', min: 1990, max: 1999 },
+  { range: 'Before 1990', max: 1989 },
+];
+
+/**
+ * Length buckets in feet
+ */
+export const LENGTH_BUCKETS: FacetBucket[] = [
+  { range: 'Under 20 ft', max: 19.99 },
+  { range: '20 - 29 ft', min: 20, max: 29.99 },
+  { range: '30 - 39 ft', min: 30, max: 39.99 },
+  { range: '40 - 59 ft', min: 40, max: 59.99 },
+  { range: '60 ft+', min: 60 },
+];
+
+/**
+ * Returns filter criteria with one facet's own filter removed
+ */
+function withoutFilter(filters: SearchFilterCriteria, key: FacetFilterKey): SearchFilterCriteria {
+  if (key === 'location') {
+    return { ...filters, location: filters.location && { ...filters.location, state: undefined } };
+  }
+  return { ...filters, [key]: undefined };
+}
+
+/**
+ * Returns whether a facet's own filter is currently active
+ */
+function isFilterActive(filters: SearchFilterCriteria, key: FacetFilterKey): boolean {
+  if (key === 'location') {
+    return !!filters.location?.state;
+  }
+  const value = filters[key];
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+/**
+ * Counts listings per categorical value
+ *
+ * Results are ordered by count (descending), then alphabetically.
+ *
+ * @param listings - Listings to count
+ * @param getValues - Extracts the facet values of a listing
+ * @param foldCase - Group values case-insensitively, reporting the first spelling seen
+ *   (use only where the matching filter is also case-insensitive)
+ * @returns Non-zero facet counts
+ */
+function countValues(
+  listings: Listing[],
+  getValues: (listing: Listing) => Array<string | undefined>,
+  foldCase = false
+): FacetValue[] {
+  const counts = new Map<string, FacetValue>();
+
+  for (const listing of listings) {
+    const seen = new Set<string>();
+    for (const raw of getValues(listing)) {
+      const value = raw?.trim();
+      if (!value) {
+        continue;
+      }
+      const key = foldCase ? value.toLowerCase() : value;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(key, { value, count: 1 });
+      }
+    }
+  }
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Counts listings per numeric bucket
+ *
+ * Every bucket is returned (including empty ones) so the UI can render a
+ * stable list of ranges.
+ *
+ * @param listings - Listings to count
+ * @param buckets - Bucket definitions
+ * @param getValue - Extracts the numeric value of a listing
+ * @returns Count per bucket in definition order
+ */
+function countBuckets(listings: Listing[], buckets: FacetBucket[], getValue: (listing: Listing) => number): RangeFacetValue[] {
+  return buckets.map(bucket => ({
+    ...bucket,
+    count: listings.filter(listing => {
+      const value = getValue(listing);
+      return value >= (bucket.min ?? -Infinity) && value <= (bucket.max ?? Infinity);
+    }).length,
+  }));
+}
+
+/**
+ * Computes all search facets
+ *
+ * @param candidates - Searchable listings matching the text query, before structured filters
+ * @param filtered - Candidates after every structured filter has been applied
+ * @param filters - Active structured filters
+ * @returns Facet counts for the search response
+ *
+ * @example
+ * ```typescript
+ * const filtered = applySearchFilters(candidates, filters);
+ * const facets = computeFacets(candidates, filtered, filters);
+ * // facets.boatTypes => [{ value: 'Sailboat', count: 12 }, ...]
+ * ```
+ */
+export function computeFacets(
+  candidates: Listing[],
+  filtered: Listing[],
+  filters: SearchFilterCriteria
+): SearchFacets {
+  const baseFor = (key: FacetFilterKey): Listing[] =>
+    isFilterActive(filters, key) ? applySearchFilters(candidates, withoutFilter(filters, key)) : filtered;
+
+  return {
+    boatTypes: countValues(baseFor('boatType'), listing => [listing.boatDetails.type]),
+    manufacturers: countValues(baseFor('manufacturer'), listing => [listing.boatDetails.manufacturer], true),
+    locations: countValues(baseFor('location'), listing => [listing.location?.state])
+      .map(({ value, count }) => ({ state: value, count })),
+    priceRanges: countBuckets(baseFor('priceRange'), PRICE_BUCKETS, listing => listing.price),
+    yearRanges: countBuckets(baseFor('yearRange'), YEAR_BUCKETS, listing => listing.boatDetails.year),
+    lengthRanges: countBuckets(baseFor('lengthRange'), LENGTH_BUCKETS, listing => listing.boatDetails.length),
+    engineConfigurations: countValues(baseFor('engineConfiguration'), listing => [getEngineConfiguration(listing)]),
+    fuelTypes: countValues(baseFor('fuelType'), getFuelTypes),
+  };
+}
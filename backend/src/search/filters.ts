@@ -0,0 +1,363 @@
+/**
+ * @fileoverview Structured search filters for boat listings.
+ *
+ * Predicate filters shared by the search handler and any feature that needs to
+ * decide whether a listing matches a set of search criteria:
+ * - Visibility (only approved/active listings are searchable)
+ * - Location filtering by state and city
+ * - Boat type, manufacturer, engine configuration and fuel type filtering
+ *   with multiple selection support
+ * - Price, year and length range filtering
+ *
+ * Free-text matching is handled by the search index (`search-index.ts`);
+ * these filters narrow the candidates it returns.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { SearchFilters, Listing } from '../types/common';
+
+/**
+ * Listing statuses that are visible in public search results
+ *
+ * Listings under contract stay visible (marked as such) until the sale closes.
+ */
+export const SEARCHABLE_STATUSES: Listing['status'][] = ['approved', 'active', 'under_contract'];
+
+/**
+ * Structured filter criteria accepted by the search API
+ */
+export type SearchFilterCriteria = Omit<SearchFilters, 'query' | 'location'> & {
+  location?: { state?: string; city?: string };
+};
+
+/**
+ * Engine fields stored on enhanced listings (top level or under boatDetails)
+ */
+type ListingWithEngines = Listing & {
+  engines?: Array<{ fuelType?: string; horsepower?: number }>;
+  engineConfiguration?: string;
+  totalHorsepower?: number;
+  boatDetails: Listing['boatDetails'] & {
+    engines?: Array<{ fuelType?: string; horsepower?: number }>;
+    engineConfiguration?: string;
+    totalHorsepower?: number;
+  };
+};
+
+/**
+ * Returns the engine configuration (single/twin/triple/quad) of a listing
+ *
+ * @param listing - Listing to inspect
+ * @returns Engine configuration or undefined for listings without engines
+ */
+export function getEngineConfiguration(listing: Listing): string | undefined {
+  const enhanced = listing as ListingWithEngines;
+  return enhanced.engineConfiguration || enhanced.boatDetails?.engineConfiguration;
+}
+
+/**
+ * Returns the distinct fuel types across all engines of a listing
+ *
+ * @param listing - Listing to inspect
+ * @returns Distinct fuel types (empty for listings without engines)
+ */
+export function getFuelTypes(listing: Listing): string[] {
+  const enhanced = listing as ListingWithEngines;
+  const engines = enhanced.engines || enhanced.boatDetails?.engines || [];
+  return Array.from(new Set(engines.map(engine => engine.fuelType).filter((fuel): fuel is string => !!fuel)));
+}
+
+/**
+ * Returns the combined horsepower of all engines of a listing
+ *
+ * Uses the stored total when present and sums the engines otherwise.
+ *
+ * @param listing - Listing to inspect
+ * @returns Total horsepower or undefined for listings without engine data
+ */
+export function getTotalHorsepower(listing: Listing): number | undefined {
+  const enhanced = listing as ListingWithEngines;
+  const total = enhanced.totalHorsepower || enhanced.boatDetails?.totalHorsepower;
+  if (total) {
+    return total;
+  }
+
+  const engines = enhanced.engines || enhanced.boatDetails?.engines || [];
+  const sum = engines.reduce((hp, engine) => hp + (engine.horsepower || 0), 0);
+  return sum > 0 ? sum : undefined;
+}
+
+/**
+ * Determines whether a listing may appear in public search results
+ *
+ * Listings pending review, rejected or otherwise inactive are hidden.
+ *
+ * @param listing - Listing to check
+ * @returns True when the listing is publicly searchable
+ */
+export function isSearchable(listing: Listing): boolean {
+  return SEARCHABLE_STATUSES.includes(listing.status);
+}
+
+/**
+ * Applies every structured filter in sequence
+ *
+ * @param listings - Array of listings to filter
+ * @param filters - Structured filter criteria
+ * @returns Listings matching all supplied criteria
+ *
+ * @example
+ * ```typescript
+ * const results = applySearchFilters(listings, {
+ *   location: { state: "FL" },
+ *   priceRange: { max: 100000 }
+ * });
+ * ```
+ */
+export function applySearchFilters(listings: Listing[], filters: SearchFilterCriteria): Listing[] {
+  let filtered = listings;
+  filtered = applyLocationFilter(filtered, filters.location);
+  filtered = applyBoatTypeFilter(filtered, filters.boatType);
+  filtered = applyPriceRangeFilter(filtered, filters.priceRange);
+  filtered = applyYearRangeFilter(filtered, filters.yearRange);
+  filtered = applyLengthRangeFilter(filtered, filters.lengthRange);
+  filtered = applyManufacturerFilter(filtered, filters.manufacturer);
+  filtered = applyEngineConfigurationFilter(filtered, filters.engineConfiguration);
+  filtered = applyFuelTypeFilter(filtered, filters.fuelType);
+  return filtered;
+}
+
+/**
+ * Applies location-based filtering for state and city matching
+ * 
+ * Filters listings based on location criteria including state and optional
+ * city matching. Supports exact state matching and case-insensitive city
+ * filtering for precise geographic search results.
+ * 
+ * @param listings - Array of listings to filter
+ * @param location - Location filter criteria (optional)
+ * @returns Filtered array of listings matching location criteria
+ * 
+ * @example
+ * ```typescript
+ * const results = applyLocationFilter(listings, { state: "FL", city: "Miami" });
+ * // Returns listings in Miami, Florida
+ * ```
+ */
+export function applyLocationFilter(listings: Listing[], location?: { state?: string; city?: string }): Listing[] {
+  if (!location) {
+    return listings;
+  }
+
+  return listings.filter((listing: Listing) => {
+    let matches = true;
+    
+    if (location.state) {
+      matches = matches && listing.location.state === location.state;
+    }
+    
+    if (location.city) {
+      matches = matches && listing.location.city.toLowerCase().includes(location.city.toLowerCase());
+    }
+    
+    return matches;
+  });
+}
+
+/**
+ * Applies boat type filtering with multiple selection support
+ * 
+ * Filters listings based on boat type criteria, supporting multiple boat
+ * types in a single search. Enables users to search across different
+ * categories simultaneously for comprehensive results.
+ * 
+ * @param listings - Array of listings to filter
+ * @param boatTypes - Array of boat types to include (optional)
+ * @returns Filtered array of listings matching any of the specified boat types
+ * 
+ * @example
+ * ```typescript
+ * const results = applyBoatTypeFilter(listings, ["Sailboat", "Catamaran", "Yacht"]);
+ * // Returns listings that are sailboats, catamarans, or yachts
+ * ```
+ */
+export function applyBoatTypeFilter(listings: Listing[], boatTypes?: string[]): Listing[] {
+  if (!boatTypes || boatTypes.length === 0) {
+    return listings;
+  }
+
+  return listings.filter((listing: Listing) => 
+    boatTypes.includes(listing.boatDetails.type)
+  );
+}
+
+/**
+ * Applies price range filtering with min/max bounds
+ * 
+ * Filters listings based on price criteria with optional minimum and maximum
+ * bounds. Supports open-ended ranges (only min or only max) for flexible
+ * price-based searching.
+ * 
+ * @param listings - Array of listings to filter
+ * @param priceRange - Price range criteria with optional min/max (optional)
+ * @returns Filtered array of listings within the specified price range
+ * 
+ * @example
+ * ```typescript
+ * const results = applyPriceRangeFilter(listings, { min: 50000, max: 200000 });
+ * // Returns listings priced between $50,000 and $200,000
+ * ```
+ */
+export function applyPriceRangeFilter(listings: Listing[], priceRange?: { min?: number; max?: number }): Listing[] {
+  if (!priceRange) {
+    return listings;
+  }
+
+  return listings.filter((listing: Listing) => {
+    const price = listing.price;
+    const minPrice = priceRange.min || 0;
+    const maxPrice = priceRange.max || Infinity;
+    
+    return price >= minPrice && price <= maxPrice;
+  });
+}
+
+/**
+ * Applies year range filtering for boat age criteria
+ * 
+ * Filters listings based on boat manufacturing year with optional minimum
+ * and maximum bounds. Defaults to current year as maximum if not specified
+ * for realistic year range validation.
+ * 
+ * @param listings - Array of listings to filter
+ * @param yearRange - Year range criteria with optional min/max (optional)
+ * @returns Filtered array of listings within the specified year range
+ * 
+ * @example
+ * ```typescript
+ * const results = applyYearRangeFilter(listings, { min: 2010, max: 2023 });
+ * // Returns listings for boats manufactured between 2010 and 2023
+ * ```
+ */
+export function applyYearRangeFilter(listings: Listing[], yearRange?: { min?: number; max?: number }): Listing[] {
+  if (!yearRange) {
+    return listings;
+  }
+
+  const currentYear = new Date().getFullYear();
+  
+  return listings.filter((listing: Listing) => {
+    const year = listing.boatDetails.year;
+    const minYear = yearRange.min || 0;
+    const maxYear = yearRange.max || currentYear;
+    
+    return year >= minYear && year <= maxYear;
+  });
+}
+
+/**
+ * Applies length range filtering for boat size criteria
+ * 
+ * Filters listings based on boat length with optional minimum and maximum
+ * bounds. Supports open-ended ranges for flexible size-based searching
+ * across different boat categories.
+ * 
+ * @param listings - Array of listings to filter
+ * @param lengthRange - Length range criteria with optional min/max (optional)
+ * @returns Filtered array of listings within the specified length range
+ * 
+ * @example
+ * ```typescript
+ * const results = applyLengthRangeFilter(listings, { min: 25, max: 50 });
+ * // Returns listings for boats between 25 and 50 feet in length
+ * ```
+ */
+export function applyLengthRangeFilter(listings: Listing[], lengthRange?: { min?: number; max?: number }): Listing[] {
+  if (!lengthRange) {
+    return listings;
+  }
+
+  return listings.filter((listing: Listing) => {
+    const length = listing.boatDetails.length;
+    const minLength = lengthRange.min || 0;
+    const maxLength = lengthRange.max || Infinity;
+    
+    return length >= minLength && length <= maxLength;
+  });
+}
+
+/**
+ * Applies manufacturer filtering with multiple selection support
+ * 
+ * Manufacturer names are matched case-insensitively since they are
+ * entered free-form by sellers ("Boston Whaler" vs "boston whaler").
+ * 
+ * @param listings - Array of listings to filter
+ * @param manufacturers - Array of manufacturers to include (optional)
+ * @returns Filtered array of listings built by any of the manufacturers
+ * 
+ * @example
+ * ```typescript
+ * const results = applyManufacturerFilter(listings, ["Grady-White", "Boston Whaler"]);
+ * ```
+ */
+export function applyManufacturerFilter(listings: Listing[], manufacturers?: string[]): Listing[] {
+  if (!manufacturers || manufacturers.length === 0) {
+    return listings;
+  }
+
+  const wanted = new Set(manufacturers.map(manufacturer => manufacturer.trim().toLowerCase()));
+
+  return listings.filter((listing: Listing) =>
+    wanted.has((listing.boatDetails.manufacturer || '').trim().toLowerCase())
+  );
+}
+
+/**
+ * Applies engine configuration filtering with multiple selection support
+ * 
+ * @param listings - Array of listings to filter
+ * @param configurations - Engine configurations to include (optional)
+ * @returns Filtered array of listings with any of the configurations
+ * 
+ * @example
+ * ```typescript
+ * const results = applyEngineConfigurationFilter(listings, ["twin", "triple"]);
+ * ```
+ */
+export function applyEngineConfigurationFilter(listings: Listing[], configurations?: string[]): Listing[] {
+  if (!configurations || configurations.length === 0) {
+    return listings;
+  }
+
+  return listings.filter((listing: Listing) => {
+    const configuration = getEngineConfiguration(listing);
+    return !!configuration && configurations.includes(configuration);
+  });
+}
+
+/**
+ * Applies fuel type filtering with multiple selection support
+ * 
+ * A listing matches when any of its engines uses one of the fuel types.
+ * 
+ * @param listings - Array of listings to filter
+ * @param fuelTypes - Fuel types to include (optional)
+ * @returns Filtered array of listings with a matching engine
+ * 
+ * @example
+ * ```typescript
+ * const results = applyFuelTypeFilter(listings, ["diesel"]);
+ * ```
+ */
+export function applyFuelTypeFilter(listings: Listing[], fuelTypes?: string[]): Listing[] {
+  if (!fuelTypes || fuelTypes.length === 0) {
+    return listings;
+  }
+
+  return listings.filter((listing: Listing) =>
+    getFuelTypes(listing).some(fuel => fuelTypes.includes(fuel))
+  );
+}
@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Geohash encoding and radius lookup for listing search.
+ *
+ * Listings are bucketed by geohash cell at several precisions. A radius
+ * query picks the finest precision whose cells cover the search circle's
+ * bounding box in a small number of cells, collects the listings in those
+ * cells, and then computes exact great-circle distances only for those
+ * candidates instead of every listing.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { Coordinates, distanceMiles, EARTH_RADIUS_MILES } from '../shared/geocoding';
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/**
+ * Finest precision stored in the index (~4.9km x 4.9km cells)
+ */
+export const MAX_GEOHASH_PRECISION = 5;
+
+/**
+ * Upper bound on cells scanned for one radius query
+ */
+const MAX_COVERING_CELLS = 64;
+
+const MILES_PER_DEGREE_LAT = (Math.PI * EARTH_RADIUS_MILES) / 180;
+
+/**
+ * Encodes coordinates as a geohash string
+ *
+ * @param coordinates - Point to encode
+ * @param precision - Number of geohash characters
+ * @returns Geohash string
+ *
+ * @example
+ * ```typescript
+ * encodeGeohash({ lat: 25.78, lon: -80.13 }, 5); // 'dhx4b'
+ * ```
+ */
+export function encodeGeohash(coordinates: Coordinates, precision: number = MAX_GEOHASH_PRECISION): string {
+  let latRange = [-90, 90];
+  let lonRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lonRange : latRange;
+    const value = evenBit ? coordinates.lon : coordinates.lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    bits <<= 1;
+    if (value >= mid) {
+      bits |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+
+    if (evenBit) {
+      lonRange = range;
+    } else {
+      latRange = range;
+    }
+    evenBit = !evenBit;
+
+    if (++bitCount === 5) {
+      hash += BASE32[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Returns the size of a geohash cell in degrees
+ */
+function cellSize(precision: number): { lat: number; lon: number } {
+  const totalBits = precision * 5;
+  const lonBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+  return { lat: 180 / 2 ** latBits, lon: 360 / 2 ** lonBits };
+}
+
+/**
+ * Computes the geohash cells covering a circle
+ *
+ * @param center - Circle center
+ * @param radiusMiles - Circle radius in miles
+ * @returns Precision used and the set of covering cell hashes
+ */
+export function coveringCells(center: Coordinates, radiusMiles: number): { precision: number; cells: Set<string> } {
+  const latDelta = radiusMiles / MILES_PER_DEGREE_LAT;
+  const cosLat = Math.max(Math.cos((Math.min(Math.abs(center.lat) + latDelta, 89.9) * Math.PI) / 180), 0.01);
+  const lonDelta = Math.min(radiusMiles / (MILES_PER_DEGREE_LAT * cosLat), 180);
+
+  const minLat = Math.max(center.lat - latDelta, -90);
+  const maxLat = Math.min(center.lat + latDelta, 90);
+  const minLon = center.lon - lonDelta;
+  const maxLon = center.lon + lonDelta;
+
+  let precision = MAX_GEOHASH_PRECISION;
+  for (; precision > 1; precision--) {
+    const size = cellSize(precision);
+    const cellCount = (Math.ceil((maxLat - minLat) / size.lat) + 1) * (Math.ceil((maxLon - minLon) / size.lon) + 1);
+    if (cellCount <= MAX_COVERING_CELLS) {
+      break;
+    }
+  }
+
+  const size = cellSize(precision);
+  const cells = new Set<string>();
+  for (let lat = minLat; lat < maxLat + size.lat; lat += size.lat) {
+    for (let lon = minLon; lon < maxLon + size.lon; lon += size.lon) {
+      const wrappedLon = ((((Math.min(lon, maxLon) + 180) % 360) + 360) % 360) - 180;
+      cells.add(encodeGeohash({ lat: Math.min(lat, maxLat), lon: wrappedLon }, precision));
+    }
+  }
+
+  return { precision, cells };
+}
+
+/**
+ * Geohash cell index over listing coordinates
+ *
+ * @example
+ * ```typescript
+ * const geo = new GeoIndex();
+ * geo.add('listing-1', { lat: 25.78, lon: -80.13 });
+ *
+ * geo.findWithinRadius({ lat: 25.76, lon: -80.19 }, 50);
+ * // Map { 'listing-1' => 3.6 }
+ * ```
+ */
+export class GeoIndex {
+  private points = new Map<string, Coordinates>();
+  private cellsByPrecision: Array<Map<string, Set<string>>> = Array.from(
+    { length: MAX_GEOHASH_PRECISION + 1 },
+    () => new Map()
+  );
+
+  /**
+   * Returns the indexed coordinates of a listing
+   */
+  getCoordinates(listingId: string): Coordinates | undefined {
+    return this.points.get(listingId);
+  }
+
+  /**
+   * Adds or moves a listing
+   */
+  add(listingId: string, coordinates: Coordinates): void {
+    this.remove(listingId);
+
+    const hash = encodeGeohash(coordinates, MAX_GEOHASH_PRECISION);
+    for (let precision = 1; precision <= MAX_GEOHASH_PRECISION; precision++) {
+      const cell = hash.slice(0, precision);
+      let members = this.cellsByPrecision[precision].get(cell);
+      if (!members) {
+        members = new Set();
+        this.cellsByPrecision[precision].set(cell, members);
+      }
+      members.add(listingId);
+    }
+
+    this.points.set(listingId, coordinates);
+  }
+
+  /**
+   * Removes a listing
+   */
+  remove(listingId: string): void {
+    const coordinates = this.points.get(listingId);
+    if (!coordinates) {
+      return;
+    }
+
+    const hash = encodeGeohash(coordinates, MAX_GEOHASH_PRECISION);
+    for (let precision = 1; precision <= MAX_GEOHASH_PRECISION; precision++) {
+      const cell = hash.slice(0, precision);
+      const members = this.cellsByPrecision[precision].get(cell);
+      if (members) {
+        members.delete(listingId);
+        if (members.size === 0) {
+          this.cellsByPrecision[precision].delete(cell);
+        }
+      }
+    }
+
+    this.points.delete(listingId);
+  }
+
+  /**
+   * Removes every listing
+   */
+  clear(): void {
+    this.points.clear();
+    this.cellsByPrecision.forEach(cells => cells.clear());
+  }
+
+  /**
+   * Finds listings within a radius of a point
+   *
+   * @param center - Search center
+   * @param radiusMiles - Search radius in miles
+   * @returns Map of listing ID to distance in miles
+   */
+  findWithinRadius(center: Coordinates, radiusMiles: number): Map<string, number> {
+    const { precision, cells } = coveringCells(center, radiusMiles);
+    const matches = new Map<string, number>();
+
+    for (const cell of cells) {
+      const members = this.cellsByPrecision[precision].get(cell);
+      if (!members) {
+        continue;
+      }
+
+      for (const listingId of members) {
+        const distance = distanceMiles(center, this.points.get(listingId)!);
+        if (distance <= radiusMiles) {
+          matches.set(listingId, distance);
+        }
+      }
+    }
+
+    return matches;
+  }
+}
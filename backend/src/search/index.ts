@@ -2,43 +2,85 @@
  * @fileoverview Advanced search service for HarborList boat marketplace.
  * 
  * Provides comprehensive search and filtering capabilities for boat listings including:
- * - Full-text search across titles and descriptions
- * - Multi-criteria filtering (location, boat type, price, year, length)
- * - Pagination support for large result sets
- * - Performance-optimized search algorithms
- * - Relevance scoring and result ranking
- * - Search analytics and query tracking
+ * - Full-text search across titles, descriptions, manufacturers and models
+ * - Multi-criteria filtering (location, boat type, manufacturer, price, year, length, engines)
+ * - Facet counts for every filter option
+ * - Cursor-based pagination that stays stable across pages
+ * - BM25 relevance scoring and result ranking
+ * - Sorting by price, year, length, horsepower, date, price drop, views or distance
+ * - Paid promotions: boosted relevance and rotating featured slots
  * 
  * Search Features:
- * - Text-based search with case-insensitive matching
+ * - Tokenized, stemmed text search ("boats" matches "boat", "fishing" matches "fish")
+ * - Per-field boosting so title and manufacturer/model matches rank above description matches
  * - Location-based filtering by state and city
+ * - Radius search around a ZIP code, city or coordinates with distance sorting
  * - Boat type filtering with multiple selection support
  * - Price range filtering with min/max bounds
  * - Year range filtering for boat age
  * - Length range filtering for boat size
  * - Combined filter support for complex queries
+ * - Facets counted with "exclude own filter" semantics (see `facets.ts`)
+ * - Featured listings matching the search returned in `featured` on the first
+ *   page, rotated fairly between sellers (see `billing-service/promotions`)
  * 
  * Performance Optimizations:
- * - In-memory filtering for fast response times
- * - Efficient pagination to handle large datasets
- * - Query result caching for popular searches
- * - Optimized database queries with proper indexing
+ * - Inverted index held in memory per container (see `search-index.ts`)
+ * - Geohash cells narrow radius queries before exact distances are computed
+ * - Matching shared with saved search alerts (see `query.ts`)
+ * - Incremental index updates from listing writes (see `indexer.ts`)
+ * - Owner lookups limited to the returned page
  * 
  * Future Enhancements:
- * - Elasticsearch integration for advanced search
- * - Geospatial search with radius-based filtering
- * - Machine learning-based relevance scoring
  * - Search suggestion and auto-complete
- * - Advanced sorting options (price, date, popularity)
  * 
  * @author HarborList Development Team
- * @version 1.0.0
+ * @version 2.0.0
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { createResponse, createErrorResponse, parseBody } from '../shared/utils';
-import { SearchFilters, Listing } from '../types/common';
+import { SearchFilters } from '../types/common';
+import { PromotionPlacement } from '@harborlist/shared-types';
 import { db } from '../shared/database';
+import { getSearchIndex } from './indexer';
+import { computeFacets } from './facets';
+import { executeSearchQuery } from './query';
+import { resolveSort, getSortKey, ResolvedSort, SortableListing } from './sorting';
+import {
+  applyBoosts,
+  getLivePromotions,
+  LivePromotions,
+  recordBoostedPlacements,
+  selectFeaturedListings,
+} from '../billing-service/promotions/promotion-placement';
+
+/**
+ * Search request body accepted by the handler
+ */
+type SearchRequest = SearchFilters & {
+  limit?: number;
+  cursor?: string;
+  placement?: PromotionPlacement;
+};
+
+/**
+ * Position of a result in the ranked list, encoded into pagination cursors
+ *
+ * `key` holds the sort values compared in ascending order (see `sorting.ts`);
+ * the listing ID breaks any remaining tie so every listing has a unique position.
+ */
+interface RankKey {
+  key: number[];
+  listingId: string;
+}
+
+/**
+ * Search result paired with its rank position
+ */
+interface RankedListing extends RankKey {
+  listing: SortableListing;
+}
 
 /**
  * Main Lambda handler for boat listing search operations
@@ -48,17 +90,25 @@ import { db } from '../shared/database';
  * various boat specification filters for precise listing discovery.
  * 
  * Supported search parameters:
- * - query: Text search across title and description
- * - location: State and city-based filtering
+ * - query: Text search across title, description, manufacturer and model
+ * - location: State and city-based filtering, or a radius in miles around a
+ *   ZIP code, coordinates or city/state (the radius replaces exact matching)
  * - boatType: Array of boat types to include
+ * - manufacturer: Array of manufacturers to include
+ * - engineConfiguration: Array of engine configurations (single/twin/triple/quad)
+ * - fuelType: Array of engine fuel types
  * - priceRange: Min/max price filtering
  * - yearRange: Min/max year filtering
  * - lengthRange: Min/max length filtering
+ * - sort: `{ field, order }` where field is relevance (default), price, year,
+ *   length, horsepower, createdAt, updatedAt, priceDrop, views or distance
  * - limit: Number of results per page (default: 20)
- * - offset: Starting position for pagination (default: 0)
+ * - cursor: Opaque cursor from the previous page's `nextCursor`
+ * - placement: Where results are shown (search or home), which sets the
+ *   number of featured slots (default: search)
  * 
  * @param event - API Gateway proxy event containing search parameters
- * @returns Promise<APIGatewayProxyResult> - Paginated search results
+ * @returns Promise<APIGatewayProxyResult> - Paginated search results with facet counts
  * 
  * @throws {Error} When database operations fail or invalid search parameters
  * 
@@ -72,7 +122,7 @@ import { db } from '../shared/database';
  *   "priceRange": { "min": 50000, "max": 200000 },
  *   "yearRange": { "min": 2010, "max": 2023 },
  *   "limit": 10,
- *   "offset": 0
+ *   "cursor": "eyJzb3J0IjoicmVsZXZhbmNl..."
  * }
  * ```
  */
@@ -86,68 +136,45 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return createErrorResponse(405, 'METHOD_NOT_ALLOWED', `Method ${event.httpMethod} not allowed`, requestId);
     }
 
-    const searchParams = parseBody<SearchFilters & { limit?: number; offset?: number }>(event);
-    
-    // Retrieve listings from database with performance optimization
-    const { listings: rawListings } = await db.getListings(1000); // Get up to 1000 listings
-    
-    // Fetch owner information for each listing
-    const allListings = await Promise.all(
-      rawListings.map(async (listing: any) => {
-        try {
-          const owner = await db.getUser(listing.ownerId);
-          return {
-            ...listing,
-            owner: owner ? {
-              id: owner.id,
-              name: owner.name,
-              email: owner.email
-            } : null
-          };
-        } catch (error) {
-          console.warn(`Failed to fetch owner for listing ${listing.listingId}:`, error);
-          return {
-            ...listing,
-            owner: null
-          };
-        }
-      })
-    );
-    
-    let filteredListings = allListings;
+    const searchParams = parseBody<SearchRequest>(event);
 
-    // Filter to only show approved/active listings (hide pending_review and rejected)
-    filteredListings = filteredListings.filter(listing => 
-      listing.status === 'approved' || listing.status === 'active'
-    );
+    // Text, radius and structured filter matching against the in-memory index
+    const searchIndex = await getSearchIndex();
+    const { candidates, matches, criteria, center } = executeSearchQuery(searchIndex, searchParams);
 
-    // Apply text-based search filter
-    filteredListings = applyTextSearch(filteredListings, searchParams.query);
-    
-    // Apply location-based filters
-    filteredListings = applyLocationFilter(filteredListings, searchParams.location);
-    
-    // Apply boat type filters
-    filteredListings = applyBoatTypeFilter(filteredListings, searchParams.boatType);
-    
-    // Apply price range filters
-    filteredListings = applyPriceRangeFilter(filteredListings, searchParams.priceRange);
-    
-    // Apply year range filters
-    filteredListings = applyYearRangeFilter(filteredListings, searchParams.yearRange);
-    
-    // Apply length range filters
-    filteredListings = applyLengthRangeFilter(filteredListings, searchParams.lengthRange);
+    const sort = resolveSort(searchParams.sort, !!center);
+    const promotions = await loadPromotions();
+
+    // Boosts only reorder relevance ranking
+    const rankedListings = rankListings(sort.field === 'relevance' ? applyBoosts(matches, promotions) : matches, sort);
+
+    // Apply cursor pagination with bounds checking
+    const paginationResult = applyCursorPagination(rankedListings, sort, searchParams.limit, searchParams.cursor);
+
+    // Featured slots are filled on the first page only
+    const featured = searchParams.cursor
+      ? []
+      : selectFeaturedListings(matches, promotions, searchParams.placement === 'home' ? 'home' : 'search');
+
+    // A featured listing is not repeated among the first page's results; the
+    // cursor still follows the ranking, so later pages are unaffected
+    const featuredIds = new Set(featured.map(listing => listing.listingId));
+    const page = paginationResult.results
+      .map(({ listing }) => listing)
+      .filter(listing => !featuredIds.has(listing.listingId));
 
-    // Apply pagination with bounds checking
-    const paginationResult = applyPagination(filteredListings, searchParams.limit, searchParams.offset);
+    if (sort.field === 'relevance') {
+      await recordBoostedPlacements(page, promotions);
+    }
 
     const response = {
-      results: paginationResult.results,
-      total: filteredListings.length,
+      results: await attachOwners(page.map(roundDistance)),
+      featured: await attachOwners(featured.map(roundDistance)),
+      total: rankedListings.length,
       limit: paginationResult.limit,
-      offset: paginationResult.offset,
+      nextCursor: paginationResult.nextCursor,
       hasMore: paginationResult.hasMore,
+      facets: computeFacets(candidates, matches, criteria),
     };
 
     return createResponse(200, response);
@@ -155,7 +182,9 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     console.error('Search error:', error);
     
     if (error instanceof Error) {
-      if (error.message.includes('Invalid JSON')) {
+      if (error.message.includes('Invalid JSON') ||
+          error.message.includes('Invalid cursor') ||
+          error.message.includes('Invalid sort')) {
         return createErrorResponse(400, 'INVALID_REQUEST', error.message, requestId);
       }
     }
@@ -165,229 +194,159 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
 };
 
 /**
- * Applies text-based search filtering across listing titles and descriptions
- * 
- * Performs case-insensitive substring matching against listing titles and
- * descriptions. Supports partial word matching and phrase searching for
- * flexible discovery of relevant listings.
- * 
- * @param listings - Array of listings to filter
- * @param query - Search query string (optional)
- * @returns Filtered array of listings matching the search query
- * 
- * @example
- * ```typescript
- * const results = applyTextSearch(listings, "sailboat ocean");
- * // Returns listings with "sailboat" or "ocean" in title/description
- * ```
+ * Loads the promotions running now
+ *
+ * Promotions never fail a search: when they cannot be loaded, results are
+ * returned unpromoted.
  */
-function applyTextSearch(listings: Listing[], query?: string): Listing[] {
-  if (!query || query.trim() === '') {
-    return listings;
+async function loadPromotions(): Promise<LivePromotions> {
+  try {
+    return await getLivePromotions();
+  } catch (error) {
+    console.warn('Failed to load promotions:', error);
+    return { featured: new Map(), boosted: new Map() };
   }
-
-  const searchTerms = query.toLowerCase().trim().split(/\s+/);
-  
-  return listings.filter((listing: Listing) => {
-    const searchableText = `${listing.title} ${listing.description}`.toLowerCase();
-    
-    // Check if any search term matches
-    return searchTerms.some(term => searchableText.includes(term));
-  });
 }
 
 /**
- * Applies location-based filtering for state and city matching
- * 
- * Filters listings based on location criteria including state and optional
- * city matching. Supports exact state matching and case-insensitive city
- * filtering for precise geographic search results.
- * 
- * @param listings - Array of listings to filter
- * @param location - Location filter criteria (optional)
- * @returns Filtered array of listings matching location criteria
- * 
- * @example
- * ```typescript
- * const results = applyLocationFilter(listings, { state: "FL", city: "Miami" });
- * // Returns listings in Miami, Florida
- * ```
+ * Rounds a result's distance to one decimal mile
  */
-function applyLocationFilter(listings: Listing[], location?: { state?: string; city?: string }): Listing[] {
-  if (!location) {
-    return listings;
-  }
-
-  return listings.filter((listing: Listing) => {
-    let matches = true;
-    
-    if (location.state) {
-      matches = matches && listing.location.state === location.state;
-    }
-    
-    if (location.city) {
-      matches = matches && listing.location.city.toLowerCase().includes(location.city.toLowerCase());
-    }
-    
-    return matches;
-  });
+function roundDistance<T extends SortableListing>(listing: T): T {
+  return {
+    ...listing,
+    distance: listing.distance === undefined ? undefined : Math.round(listing.distance * 10) / 10,
+  };
 }
 
 /**
- * Applies boat type filtering with multiple selection support
- * 
- * Filters listings based on boat type criteria, supporting multiple boat
- * types in a single search. Enables users to search across different
- * categories simultaneously for comprehensive results.
+ * Orders listings by the requested sort with deterministic tiebreakers
  * 
- * @param listings - Array of listings to filter
- * @param boatTypes - Array of boat types to include (optional)
- * @returns Filtered array of listings matching any of the specified boat types
- * 
- * @example
- * ```typescript
- * const results = applyBoatTypeFilter(listings, ["Sailboat", "Catamaran", "Yacht"]);
- * // Returns listings that are sailboats, catamarans, or yachts
- * ```
+ * @param listings - Filtered listings with scores and distances attached
+ * @param sort - Resolved sort field and order
+ * @returns Listings with their rank keys, in rank order
  */
-function applyBoatTypeFilter(listings: Listing[], boatTypes?: string[]): Listing[] {
-  if (!boatTypes || boatTypes.length === 0) {
-    return listings;
-  }
-
-  return listings.filter((listing: Listing) => 
-    boatTypes.includes(listing.boatDetails.type)
-  );
+function rankListings(listings: SortableListing[], sort: ResolvedSort): RankedListing[] {
+  return listings
+    .map(listing => ({ listing, key: getSortKey(listing, sort), listingId: listing.listingId }))
+    .sort(compareRankKeys);
 }
 
 /**
- * Applies price range filtering with min/max bounds
+ * Compares two rank positions
  * 
- * Filters listings based on price criteria with optional minimum and maximum
- * bounds. Supports open-ended ranges (only min or only max) for flexible
- * price-based searching.
- * 
- * @param listings - Array of listings to filter
- * @param priceRange - Price range criteria with optional min/max (optional)
- * @returns Filtered array of listings within the specified price range
- * 
- * @example
- * ```typescript
- * const results = applyPriceRangeFilter(listings, { min: 50000, max: 200000 });
- * // Returns listings priced between $50,000 and $200,000
- * ```
+ * @returns Negative when `a` ranks before `b`, positive when after
  */
-function applyPriceRangeFilter(listings: Listing[], priceRange?: { min?: number; max?: number }): Listing[] {
-  if (!priceRange) {
-    return listings;
+function compareRankKeys(a: RankKey, b: RankKey): number {
+  for (let i = 0; i < Math.min(a.key.length, b.key.length); i++) {
+    if (a.key[i] !== b.key[i]) {
+      return a.key[i] - b.key[i];
+    }
   }
-
-  return listings.filter((listing: Listing) => {
-    const price = listing.price;
-    const minPrice = priceRange.min || 0;
-    const maxPrice = priceRange.max || Infinity;
-    
-    return price >= minPrice && price <= maxPrice;
-  });
+  return a.listingId < b.listingId ? -1 : a.listingId > b.listingId ? 1 : 0;
 }
 
 /**
- * Applies year range filtering for boat age criteria
- * 
- * Filters listings based on boat manufacturing year with optional minimum
- * and maximum bounds. Defaults to current year as maximum if not specified
- * for realistic year range validation.
+ * Encodes the rank position of a listing as an opaque cursor
  * 
- * @param listings - Array of listings to filter
- * @param yearRange - Year range criteria with optional min/max (optional)
- * @returns Filtered array of listings within the specified year range
- * 
- * @example
- * ```typescript
- * const results = applyYearRangeFilter(listings, { min: 2010, max: 2023 });
- * // Returns listings for boats manufactured between 2010 and 2023
- * ```
+ * The sort is recorded so a cursor cannot be replayed against a different order.
  */
-function applyYearRangeFilter(listings: Listing[], yearRange?: { min?: number; max?: number }): Listing[] {
-  if (!yearRange) {
-    return listings;
-  }
-
-  const currentYear = new Date().getFullYear();
-  
-  return listings.filter((listing: Listing) => {
-    const year = listing.boatDetails.year;
-    const minYear = yearRange.min || 0;
-    const maxYear = yearRange.max || currentYear;
-    
-    return year >= minYear && year <= maxYear;
-  });
+function encodeCursor({ key, listingId }: RankKey, sort: ResolvedSort): string {
+  const position = { sort: `${sort.field}:${sort.order}`, key, listingId };
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
 }
 
 /**
- * Applies length range filtering for boat size criteria
- * 
- * Filters listings based on boat length with optional minimum and maximum
- * bounds. Supports open-ended ranges for flexible size-based searching
- * across different boat categories.
- * 
- * @param listings - Array of listings to filter
- * @param lengthRange - Length range criteria with optional min/max (optional)
- * @returns Filtered array of listings within the specified length range
+ * Decodes a pagination cursor
  * 
- * @example
- * ```typescript
- * const results = applyLengthRangeFilter(listings, { min: 25, max: 50 });
- * // Returns listings for boats between 25 and 50 feet in length
- * ```
+ * @throws {Error} When the cursor is malformed or was issued for another sort
  */
-function applyLengthRangeFilter(listings: Listing[], lengthRange?: { min?: number; max?: number }): Listing[] {
-  if (!lengthRange) {
-    return listings;
+function decodeCursor(cursor: string, sort: ResolvedSort): RankKey {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(position.key) ||
+        !position.key.every((value: unknown) => typeof value === 'number') ||
+        typeof position.listingId !== 'string' ||
+        position.sort !== `${sort.field}:${sort.order}`) {
+      throw new Error('missing fields');
+    }
+    return { key: position.key, listingId: position.listingId };
+  } catch {
+    throw new Error('Invalid cursor');
   }
-
-  return listings.filter((listing: Listing) => {
-    const length = listing.boatDetails.length;
-    const minLength = lengthRange.min || 0;
-    const maxLength = lengthRange.max || Infinity;
-    
-    return length >= minLength && length <= maxLength;
-  });
 }
 
 /**
- * Applies pagination to search results with bounds checking
+ * Applies cursor pagination to ranked search results with bounds checking
  * 
- * Implements efficient pagination for large result sets with proper bounds
- * checking and metadata for client-side pagination controls. Includes
- * hasMore flag for infinite scroll implementations.
+ * Resumes after the position encoded in the cursor rather than at a numeric
+ * offset, so listings added or removed on earlier pages do not cause results
+ * to be skipped or repeated.
  * 
- * @param listings - Array of filtered listings to paginate
+ * @param listings - Ranked listings to paginate
+ * @param sort - Sort the listings were ranked by
  * @param limit - Number of results per page (optional, default: 20)
- * @param offset - Starting position for pagination (optional, default: 0)
- * @returns Pagination result with results, metadata, and hasMore flag
+ * @param cursor - Cursor returned with the previous page (optional)
+ * @returns Page of results with the cursor for the next page
  * 
  * @example
  * ```typescript
- * const page = applyPagination(filteredListings, 10, 20);
- * // Returns results 20-29 with pagination metadata
+ * const first = applyCursorPagination(ranked, sort, 10);
+ * const second = applyCursorPagination(ranked, sort, 10, first.nextCursor);
  * ```
  */
-function applyPagination(
-  listings: Listing[], 
-  limit?: number, 
-  offset?: number
-): { results: Listing[]; limit: number; offset: number; hasMore: boolean } {
+function applyCursorPagination(
+  listings: RankedListing[],
+  sort: ResolvedSort,
+  limit?: number,
+  cursor?: string
+): { results: RankedListing[]; limit: number; nextCursor?: string; hasMore: boolean } {
   const pageLimit = Math.max(1, Math.min(limit || 20, 100)); // Limit between 1-100
-  const pageOffset = Math.max(0, offset || 0);
-  
-  const results = listings.slice(pageOffset, pageOffset + pageLimit);
-  const hasMore = pageOffset + pageLimit < listings.length;
-  
+
+  let start = 0;
+  if (cursor) {
+    const after = decodeCursor(cursor, sort);
+    start = listings.findIndex(listing => compareRankKeys(listing, after) > 0);
+    if (start === -1) {
+      start = listings.length;
+    }
+  }
+
+  const results = listings.slice(start, start + pageLimit);
+  const hasMore = start + pageLimit < listings.length;
+
   return {
     results,
     limit: pageLimit,
-    offset: pageOffset,
+    nextCursor: hasMore ? encodeCursor(results[results.length - 1], sort) : undefined,
     hasMore,
   };
 }
+
+/**
+ * Attaches public owner information to a page of results
+ * 
+ * Owners are fetched once per distinct owner on the page only. Their email
+ * addresses are never included in search results.
+ * 
+ * @param listings - Page of listings
+ * @returns Listings with an `owner` field (null when the lookup fails)
+ */
+async function attachOwners<T extends SortableListing>(listings: T[]) {
+  const ownerIds = Array.from(new Set(listings.map(listing => listing.ownerId)));
+  const owners = new Map<string, { id: string; name: string } | null>();
+
+  await Promise.all(ownerIds.map(async ownerId => {
+    try {
+      const owner = await db.getUser(ownerId);
+      owners.set(ownerId, owner ? { id: owner.id, name: owner.name } : null);
+    } catch (error) {
+      console.warn(`Failed to fetch owner ${ownerId}:`, error);
+      owners.set(ownerId, null);
+    }
+  }));
+
+  return listings.map(listing => ({
+    ...listing,
+    owner: owners.get(listing.ownerId) ?? null,
+  }));
+}
@@ -0,0 +1,394 @@
+/**
+ * @fileoverview Persistent listing search index with incremental updates.
+ *
+ * Keeps the in-memory {@link SearchIndex} of each search container in sync
+ * with listing writes without rescanning the listings table:
+ * - Index records are stored in the search index table, one per listing
+ * - Listing writes call `indexListing` / `removeListingFromIndex` / `reindexListing`
+ * - Deletions are written as tombstones so other containers can observe them
+ * - Containers load the full index once, then pull only records changed since
+ *   their last sync via the `IndexedAtIndex` GSI
+ * - An empty index table is bootstrapped from the listings table on first use
+ * - Listings without coordinates are geocoded from their ZIP code or city so
+ *   they can be found by radius searches
+ *
+ * Index maintenance never fails the originating listing write; errors are
+ * logged and the next write or a rebuild repairs the entry.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  BatchWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { db } from '../shared/database';
+import { Listing } from '../types/common';
+import { SearchIndex } from './search-index';
+import { geocodeLocation, isValidCoordinates } from '../shared/geocoding';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const SEARCH_INDEX_TABLE = process.env.SEARCH_INDEX_TABLE || 'harborlist-search-index';
+
+/**
+ * Partition key value shared by all index records in the `IndexedAtIndex` GSI
+ */
+const DOC_TYPE = 'listing';
+
+/**
+ * How long a container serves its in-memory index before pulling changes
+ */
+const SYNC_INTERVAL_MS = parseInt(process.env.SEARCH_INDEX_SYNC_MS || '15000', 10);
+
+/**
+ * Overlap applied to delta queries to tolerate clock skew between writers
+ */
+const SYNC_SKEW_MS = 5000;
+
+/**
+ * Tombstones are kept long enough for every container to observe them
+ */
+const TOMBSTONE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Number of views between index refreshes of a listing's view count
+ */
+const VIEW_SYNC_INTERVAL = parseInt(process.env.SEARCH_INDEX_VIEW_SYNC_INTERVAL || '10', 10);
+
+/**
+ * Maximum items per DynamoDB batch write
+ */
+const BATCH_WRITE_SIZE = 25;
+
+/**
+ * Stored search index record
+ */
+interface SearchIndexRecord {
+  listingId: string;
+  docType: string;
+  indexedAt: number;
+  deleted: boolean;
+  listing?: Listing;
+  ttl?: number;
+}
+
+// Container-level index state, reused across warm invocations
+let searchIndex: SearchIndex | null = null;
+let loadingIndex: Promise<SearchIndex> | null = null;
+let lastIndexedAt = 0;
+let lastSyncCheck = 0;
+
+/**
+ * Fills in coordinates for listings created before geocoding or without a fix
+ */
+function withCoordinates(listing: Listing): Listing {
+  if (!listing.location || isValidCoordinates(listing.location.coordinates)) {
+    return listing;
+  }
+
+  const coordinates = geocodeLocation(listing.location);
+  return coordinates ? { ...listing, location: { ...listing.location, coordinates } } : listing;
+}
+
+/**
+ * Builds the stored record for a listing
+ */
+function toRecord(listing: Listing): SearchIndexRecord {
+  return {
+    listingId: listing.listingId,
+    docType: DOC_TYPE,
+    indexedAt: Date.now(),
+    deleted: false,
+    listing: withCoordinates(listing),
+  };
+}
+
+/**
+ * Builds a tombstone record for a removed listing
+ */
+function toTombstone(listingId: string): SearchIndexRecord {
+  const now = Date.now();
+  return {
+    listingId,
+    docType: DOC_TYPE,
+    indexedAt: now,
+    deleted: true,
+    ttl: Math.floor(now / 1000) + TOMBSTONE_TTL_SECONDS,
+  };
+}
+
+/**
+ * Applies a stored record to an in-memory index
+ */
+function applyRecord(index: SearchIndex, record: SearchIndexRecord): void {
+  if (record.deleted || !record.listing) {
+    index.remove(record.listingId);
+  } else {
+    index.upsert(withCoordinates(record.listing));
+  }
+  lastIndexedAt = Math.max(lastIndexedAt, record.indexedAt || 0);
+}
+
+/**
+ * Writes records to the index table in batches, retrying unprocessed items
+ */
+async function batchWriteRecords(records: SearchIndexRecord[]): Promise<void> {
+  for (let i = 0; i < records.length; i += BATCH_WRITE_SIZE) {
+    let requests: any[] = records
+      .slice(i, i + BATCH_WRITE_SIZE)
+      .map(record => ({ PutRequest: { Item: record } }));
+
+    while (requests.length > 0) {
+      const result = await docClient.send(new BatchWriteCommand({
+        RequestItems: { [SEARCH_INDEX_TABLE]: requests },
+      }));
+      requests = result.UnprocessedItems?.[SEARCH_INDEX_TABLE] || [];
+    }
+  }
+}
+
+/**
+ * Loads every stored record into a fresh in-memory index
+ *
+ * Bootstraps the index table from the listings table when it is empty.
+ */
+async function loadIndex(): Promise<SearchIndex> {
+  const index = new SearchIndex();
+  let lastKey: Record<string, any> | undefined;
+  let recordCount = 0;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: SEARCH_INDEX_TABLE,
+      ExclusiveStartKey: lastKey,
+    }));
+
+    for (const record of (result.Items || []) as SearchIndexRecord[]) {
+      applyRecord(index, record);
+      recordCount++;
+    }
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  if (recordCount === 0) {
+    const listings = await rebuildSearchIndex();
+    listings.forEach(listing => index.upsert(withCoordinates(listing)));
+  }
+
+  lastSyncCheck = Date.now();
+  return index;
+}
+
+/**
+ * Pulls records changed since the last sync into the in-memory index
+ */
+async function syncIndex(index: SearchIndex): Promise<void> {
+  let lastKey: Record<string, any> | undefined;
+  const since = lastIndexedAt - SYNC_SKEW_MS;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: SEARCH_INDEX_TABLE,
+      IndexName: 'IndexedAtIndex',
+      KeyConditionExpression: 'docType = :docType AND indexedAt > :since',
+      ExpressionAttributeValues: {
+        ':docType': DOC_TYPE,
+        ':since': since,
+      },
+      ExclusiveStartKey: lastKey,
+    }));
+
+    for (const record of (result.Items || []) as SearchIndexRecord[]) {
+      applyRecord(index, record);
+    }
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  lastSyncCheck = Date.now();
+}
+
+/**
+ * Returns the container's search index, loading or syncing it as needed
+ *
+ * The first call in a container loads the full index; later calls reuse it
+ * and only query for changes once the sync interval has elapsed.
+ *
+ * @returns Promise<SearchIndex> - Up-to-date search index
+ *
+ * @example
+ * ```typescript
+ * const index = await getSearchIndex();
+ * const matches = index.search('pontoon');
+ * ```
+ */
+export async function getSearchIndex(): Promise<SearchIndex> {
+  if (!searchIndex) {
+    if (!loadingIndex) {
+      loadingIndex = loadIndex();
+    }
+    try {
+      searchIndex = await loadingIndex;
+    } finally {
+      loadingIndex = null;
+    }
+    return searchIndex;
+  }
+
+  if (Date.now() - lastSyncCheck >= SYNC_INTERVAL_MS) {
+    try {
+      await syncIndex(searchIndex);
+    } catch (error) {
+      // Serve the slightly stale index rather than failing the search
+      console.error('Failed to sync search index:', error);
+    }
+  }
+
+  return searchIndex;
+}
+
+/**
+ * Adds or updates a listing in the search index
+ *
+ * @param listing - Current listing state
+ * @returns Promise<void> - Resolves once the index record is stored
+ */
+export async function indexListing(listing: Listing): Promise<void> {
+  try {
+    const record = toRecord(listing);
+    await docClient.send(new PutCommand({
+      TableName: SEARCH_INDEX_TABLE,
+      Item: record,
+    }));
+
+    if (searchIndex) {
+      applyRecord(searchIndex, record);
+    }
+  } catch (error) {
+    console.error(`Failed to index listing ${listing.listingId}:`, error);
+  }
+}
+
+/**
+ * Removes a listing from the search index
+ *
+ * @param listingId - Listing identifier
+ * @returns Promise<void> - Resolves once the tombstone is stored
+ */
+export async function removeListingFromIndex(listingId: string): Promise<void> {
+  try {
+    const record = toTombstone(listingId);
+    await docClient.send(new PutCommand({
+      TableName: SEARCH_INDEX_TABLE,
+      Item: record,
+    }));
+
+    if (searchIndex) {
+      applyRecord(searchIndex, record);
+    }
+  } catch (error) {
+    console.error(`Failed to remove listing ${listingId} from search index:`, error);
+  }
+}
+
+/**
+ * Refreshes the indexed view count of a listing after a view
+ *
+ * Views are far more frequent than edits, so the index entry is only
+ * rewritten every `VIEW_SYNC_INTERVAL` views; "most viewed" ordering is
+ * approximate between refreshes.
+ *
+ * @param listing - Listing as read before its view count was incremented
+ * @returns Promise<void> - Resolves once any refresh is stored
+ */
+export async function recordListingView(listing: Listing): Promise<void> {
+  const views = (listing.views || 0) + 1;
+  if (views % VIEW_SYNC_INTERVAL === 0) {
+    await indexListing({ ...listing, views });
+  }
+}
+
+/**
+ * Re-reads a listing from the database and refreshes its index entry
+ *
+ * Use after updates made through partial writes (moderation decisions,
+ * approved pending updates) where the caller does not hold the full listing.
+ *
+ * @param listingId - Listing identifier
+ * @returns Promise<void> - Resolves once the index entry is refreshed
+ */
+export async function reindexListing(listingId: string): Promise<void> {
+  try {
+    const listing = await db.getListing(listingId);
+    if (listing) {
+      await indexListing(listing as unknown as Listing);
+    } else {
+      await removeListingFromIndex(listingId);
+    }
+  } catch (error) {
+    console.error(`Failed to reindex listing ${listingId}:`, error);
+  }
+}
+
+/**
+ * Rebuilds the search index table from the listings table
+ *
+ * Pages through every listing (no result cap) and writes a fresh index
+ * record for each, then tombstones index records whose listing no longer
+ * exists. Used to bootstrap a new environment and by the
+ * `rebuild-search-index` maintenance script.
+ *
+ * @returns Promise<Listing[]> - All listings written to the index
+ */
+export async function rebuildSearchIndex(): Promise<Listing[]> {
+  const listings: Listing[] = [];
+  let lastKey: any;
+
+  do {
+    const page = await db.getListings(100, lastKey);
+    listings.push(...(page.listings as unknown as Listing[]));
+    lastKey = page.lastKey;
+  } while (lastKey);
+
+  const listingIds = new Set(listings.map(listing => listing.listingId));
+  const orphanedIds: string[] = [];
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: SEARCH_INDEX_TABLE,
+      ProjectionExpression: 'listingId, deleted',
+      ExclusiveStartKey: lastKey,
+    }));
+
+    for (const record of (result.Items || []) as SearchIndexRecord[]) {
+      if (!record.deleted && !listingIds.has(record.listingId)) {
+        orphanedIds.push(record.listingId);
+      }
+    }
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  await batchWriteRecords([...listings.map(toRecord), ...orphanedIds.map(toTombstone)]);
+  console.log(`Rebuilt search index with ${listings.length} listings`);
+
+  return listings;
+}
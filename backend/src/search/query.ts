@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Search query evaluation against the listing index.
+ *
+ * Decides which listings match a set of search filters, independent of
+ * ordering and pagination. Shared by the search handler and by features
+ * that must agree with it on what a search matches (saved search alerts):
+ * - Free-text candidate selection and relevance scoring from the index
+ * - Radius filtering around a ZIP code, coordinates or city/state
+ * - Visibility and structured filters from `filters.ts`
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { Listing, SearchFilters } from '../types/common';
+import { Coordinates, geocodeLocation, distanceMiles } from '../shared/geocoding';
+import { SearchIndex } from './search-index';
+import { applySearchFilters, isSearchable, SearchFilterCriteria } from './filters';
+import { SortableListing } from './sorting';
+
+/**
+ * Outcome of evaluating search filters against the index
+ */
+export interface SearchQueryResult {
+  /** Searchable listings matching the text query and radius, before structured filters */
+  candidates: Listing[];
+  /** Candidates that also pass every structured filter */
+  matches: SortableListing[];
+  /** Criteria the structured filters were applied with (used for facet counts) */
+  criteria: SearchFilterCriteria;
+  /** Resolved search center, when the location could be geocoded */
+  center: Coordinates | null;
+}
+
+/**
+ * Evaluates search filters against the index
+ *
+ * When a radius is given, listings outside it are excluded and exact
+ * state/city matching is skipped. Matches carry their relevance score and,
+ * when a search center is known, their distance from it in miles.
+ *
+ * @param searchIndex - Index to evaluate against
+ * @param filters - Search filters (query, location and structured filters)
+ * @returns Candidates, matches and the criteria that were applied
+ *
+ * @example
+ * ```typescript
+ * const { matches } = executeSearchQuery(await getSearchIndex(), {
+ *   query: 'center console',
+ *   location: { zipCode: '33139', radius: 50 },
+ * });
+ * ```
+ */
+export function executeSearchQuery(searchIndex: SearchIndex, filters: SearchFilters): SearchQueryResult {
+  // Candidate selection and relevance scoring from the inverted index
+  const scoredListings = searchIndex.search(filters.query);
+  const scores = new Map(scoredListings.map(({ listing, score }) => [listing.listingId, score]));
+
+  // Resolve the search center; a radius limits candidates to the geohash cells around it
+  const center = geocodeLocation(filters.location);
+  const radius = filters.location?.radius;
+  const withinRadius = center && radius && radius > 0
+    ? searchIndex.findWithinRadius(center, radius)
+    : undefined;
+
+  // A radius search replaces exact state/city matching
+  const criteria: SearchFilterCriteria = withinRadius ? { ...filters, location: undefined } : filters;
+
+  // Filter to only show approved/active listings (hide pending_review and rejected)
+  const candidates = scoredListings
+    .map(({ listing }) => listing)
+    .filter(listing => isSearchable(listing) && (!withinRadius || withinRadius.has(listing.listingId)));
+
+  // Apply structured filters (location, boat type, manufacturer, price, year, length, engines)
+  const matches = applySearchFilters(candidates, criteria).map(listing => {
+    let distance = withinRadius?.get(listing.listingId);
+    if (distance === undefined && center) {
+      const coordinates = searchIndex.getCoordinates(listing.listingId);
+      distance = coordinates ? distanceMiles(center, coordinates) : undefined;
+    }
+    return { ...listing, score: scores.get(listing.listingId) || 0, distance };
+  });
+
+  return { candidates, matches, criteria, center };
+}
@@ -0,0 +1,301 @@
+/**
+ * @fileoverview In-memory inverted index with BM25F relevance scoring.
+ *
+ * Holds one analyzed document per listing and answers free-text queries
+ * without touching the database:
+ * - Per-field term frequencies for title, description, manufacturer, model and boat type
+ * - Postings map from term to listing IDs for candidate selection
+ * - BM25 scoring with per-field boosts (title matches outrank description matches)
+ * - Incremental upsert/remove so a single listing change never rebuilds the index
+ * - Geohash cells over listing coordinates for radius queries (see `geohash.ts`)
+ *
+ * Persistence and cross-process synchronization live in `indexer.ts`; this
+ * module is pure and deterministic so it can be unit tested in isolation.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { Listing } from '../types/common';
+import { tokenize } from './tokenizer';
+import { GeoIndex } from './geohash';
+import { Coordinates, isValidCoordinates } from '../shared/geocoding';
+
+/**
+ * Listing fields that are analyzed into the index
+ */
+export type SearchField = 'title' | 'description' | 'manufacturer' | 'model' | 'boatType';
+
+/**
+ * Relative weight of a term match in each field
+ */
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3.0,
+  manufacturer: 2.0,
+  model: 2.0,
+  boatType: 1.5,
+  description: 1.0,
+};
+
+const SEARCH_FIELDS = Object.keys(FIELD_BOOSTS) as SearchField[];
+
+/**
+ * BM25 term frequency saturation parameter
+ */
+const BM25_K1 = 1.2;
+
+/**
+ * BM25 document length normalization parameter
+ */
+const BM25_B = 0.75;
+
+/**
+ * Analyzed representation of a single listing
+ */
+interface IndexedDocument {
+  listing: Listing;
+  lengths: Record<SearchField, number>;
+  termFrequencies: Record<SearchField, Map<string, number>>;
+}
+
+/**
+ * Listing paired with its relevance score for a query
+ */
+export interface ScoredListing {
+  listing: Listing;
+  score: number;
+}
+
+/**
+ * Extracts the raw text for each searchable field of a listing
+ *
+ * @param listing - Listing to extract text from
+ * @returns Map of field name to field text
+ */
+function extractFieldText(listing: Listing): Record<SearchField, string> {
+  return {
+    title: listing.title || '',
+    description: listing.description || '',
+    manufacturer: listing.boatDetails?.manufacturer || '',
+    model: listing.boatDetails?.model || '',
+    boatType: listing.boatDetails?.type || '',
+  };
+}
+
+/**
+ * Creates a zeroed per-field record
+ */
+function emptyFieldRecord<T>(factory: () => T): Record<SearchField, T> {
+  return SEARCH_FIELDS.reduce((record, field) => {
+    record[field] = factory();
+    return record;
+  }, {} as Record<SearchField, T>);
+}
+
+/**
+ * Inverted index over boat listings
+ *
+ * @example
+ * ```typescript
+ * const index = new SearchIndex();
+ * index.upsert(listing);
+ *
+ * const results = index.search('center console yamaha');
+ * // [{ listing, score: 7.42 }, ...] ordered by score descending
+ * ```
+ */
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Set<string>>();
+  private totalLengths: Record<SearchField, number> = emptyFieldRecord(() => 0);
+  private geo = new GeoIndex();
+
+  /**
+   * Number of listings currently indexed
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Returns whether a listing is present in the index
+   *
+   * @param listingId - Listing identifier
+   */
+  has(listingId: string): boolean {
+    return this.documents.has(listingId);
+  }
+
+  /**
+   * Returns the indexed snapshot of a listing
+   *
+   * @param listingId - Listing identifier
+   * @returns Listing snapshot or undefined when not indexed
+   */
+  getListing(listingId: string): Listing | undefined {
+    return this.documents.get(listingId)?.listing;
+  }
+
+  /**
+   * Returns all indexed listings in insertion order
+   */
+  getAllListings(): Listing[] {
+    return Array.from(this.documents.values(), document => document.listing);
+  }
+
+  /**
+   * Adds a listing to the index, replacing any previous version
+   *
+   * @param listing - Listing to index
+   */
+  upsert(listing: Listing): void {
+    this.remove(listing.listingId);
+
+    const fieldText = extractFieldText(listing);
+    const lengths = emptyFieldRecord(() => 0);
+    const termFrequencies = emptyFieldRecord(() => new Map<string, number>());
+
+    for (const field of SEARCH_FIELDS) {
+      const terms = tokenize(fieldText[field]);
+      lengths[field] = terms.length;
+      this.totalLengths[field] += terms.length;
+
+      for (const term of terms) {
+        termFrequencies[field].set(term, (termFrequencies[field].get(term) || 0) + 1);
+
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Set();
+          this.postings.set(term, posting);
+        }
+        posting.add(listing.listingId);
+      }
+    }
+
+    this.documents.set(listing.listingId, { listing, lengths, termFrequencies });
+
+    if (isValidCoordinates(listing.location?.coordinates)) {
+      this.geo.add(listing.listingId, listing.location.coordinates);
+    }
+  }
+
+  /**
+   * Removes a listing from the index
+   *
+   * @param listingId - Listing identifier
+   * @returns True when a document was removed
+   */
+  remove(listingId: string): boolean {
+    const document = this.documents.get(listingId);
+    if (!document) {
+      return false;
+    }
+
+    for (const field of SEARCH_FIELDS) {
+      this.totalLengths[field] -= document.lengths[field];
+
+      for (const term of document.termFrequencies[field].keys()) {
+        const posting = this.postings.get(term);
+        if (posting) {
+          posting.delete(listingId);
+          if (posting.size === 0) {
+            this.postings.delete(term);
+          }
+        }
+      }
+    }
+
+    this.documents.delete(listingId);
+    this.geo.remove(listingId);
+    return true;
+  }
+
+  /**
+   * Removes every document from the index
+   */
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLengths = emptyFieldRecord(() => 0);
+    this.geo.clear();
+  }
+
+  /**
+   * Returns the indexed coordinates of a listing
+   *
+   * @param listingId - Listing identifier
+   * @returns Coordinates or undefined when the listing has no location fix
+   */
+  getCoordinates(listingId: string): Coordinates | undefined {
+    return this.geo.getCoordinates(listingId);
+  }
+
+  /**
+   * Finds listings within a radius of a point
+   *
+   * @param center - Search center
+   * @param radiusMiles - Search radius in miles
+   * @returns Map of listing ID to distance in miles
+   */
+  findWithinRadius(center: Coordinates, radiusMiles: number): Map<string, number> {
+    return this.geo.findWithinRadius(center, radiusMiles);
+  }
+
+  /**
+   * Finds listings matching a free-text query
+   *
+   * A listing matches when it contains at least one query term in any field;
+   * listings matching more (and rarer) terms in higher-boosted fields score
+   * higher. An empty query matches every indexed listing with a score of 0.
+   *
+   * @param query - Free-text query (optional)
+   * @returns Matching listings with relevance scores, unordered
+   */
+  search(query?: string): ScoredListing[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+
+    if (queryTerms.length === 0) {
+      return this.getAllListings().map(listing => ({ listing, score: 0 }));
+    }
+
+    const documentCount = this.documents.size;
+    const averageLengths = emptyFieldRecord(() => 0);
+    for (const field of SEARCH_FIELDS) {
+      averageLengths[field] = documentCount > 0 ? this.totalLengths[field] / documentCount : 0;
+    }
+
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const listingId of posting) {
+        const document = this.documents.get(listingId)!;
+        let termScore = 0;
+
+        for (const field of SEARCH_FIELDS) {
+          const tf = document.termFrequencies[field].get(term);
+          if (!tf) {
+            continue;
+          }
+
+          const lengthRatio = averageLengths[field] > 0 ? document.lengths[field] / averageLengths[field] : 1;
+          const normalizedTf = (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+          termScore += FIELD_BOOSTS[field] * normalizedTf;
+        }
+
+        scores.set(listingId, (scores.get(listingId) || 0) + idf * termScore);
+      }
+    }
+
+    return Array.from(scores, ([listingId, score]) => ({
+      listing: this.documents.get(listingId)!.listing,
+      score,
+    }));
+  }
+}
@@ -0,0 +1,568 @@
+/**
+ * @fileoverview Unit tests for the listing search service
+ *
+ * Tests text analysis, BM25 ranking with per-field boosts, incremental
+ * index updates, structured filters, facet counts, geospatial radius
+ * search, sorting, cursor pagination and paid promotion placement.
+ */
+
+import { handler } from './index';
+import { SearchIndex } from './search-index';
+import { stem, tokenize } from './tokenizer';
+import { getSearchIndex } from './indexer';
+import { computeFacets } from './facets';
+import { applySearchFilters } from './filters';
+import { encodeGeohash, GeoIndex } from './geohash';
+import { geocodeLocation, geocodeZip, distanceMiles } from '../shared/geocoding';
+import { getPriceDrop, getSortKey, resolveSort } from './sorting';
+import { db } from '../shared/database';
+import { clearPromotionCache } from '../billing-service/promotions/promotion-placement';
+import { listUnexpiredPromotions } from '../billing-service/promotions/promotion-store';
+import { recordUsage } from '../billing-service/metering/usage-meter';
+import { Listing } from '../types/common';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+// Mock the database service
+jest.mock('../shared/database');
+const mockDb = db as jest.Mocked<typeof db>;
+
+// Mock the persistent index so the handler searches an in-memory index
+jest.mock('./indexer', () => ({
+  getSearchIndex: jest.fn(),
+}));
+const mockGetSearchIndex = getSearchIndex as jest.MockedFunction<typeof getSearchIndex>;
+
+// Mock promotions and metering so no search touches DynamoDB
+jest.mock('../billing-service/promotions/promotion-store', () => ({
+  listUnexpiredPromotions: jest.fn(),
+}));
+const mockListUnexpiredPromotions = listUnexpiredPromotions as jest.MockedFunction<typeof listUnexpiredPromotions>;
+
+jest.mock('../billing-service/metering/usage-meter', () => ({
+  recordUsage: jest.fn(),
+}));
+const mockRecordUsage = recordUsage as jest.MockedFunction<typeof recordUsage>;
+
+function createListing(overrides: Partial<Listing> & { listingId: string }): Listing {
+  return {
+    ownerId: 'owner-1',
+    title: 'Boat',
+    description: '',
+    price: 50000,
+    location: { city: 'Miami', state: 'FL' },
+    boatDetails: { type: 'Center Console', year: 2020, length: 25, condition: 'Good' },
+    features: [],
+    images: [],
+    thumbnails: [],
+    status: 'active',
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  } as Listing;
+}
+
+function createPromotion(listingId: string, type: 'featured' | 'boost', impressions = 0): any {
+  return {
+    promotionId: `promo-${listingId}`,
+    listingId,
+    sellerId: 'owner-1',
+    type,
+    status: 'active',
+    startsAt: Date.now() - 1000,
+    endsAt: Date.now() + 60 * 60 * 1000,
+    impressions,
+    clicks: 0,
+  };
+}
+
+function createEvent(body: any): APIGatewayProxyEvent {
+  return {
+    httpMethod: 'POST',
+    body: JSON.stringify(body),
+    requestContext: { requestId: 'test-request' } as any,
+  } as APIGatewayProxyEvent;
+}
+
+describe('Search Service', () => {
+  describe('Tokenizer', () => {
+    test('should stem plurals and verb forms', () => {
+      expect(stem('boats')).toBe('boat');
+      expect(stem('fishing')).toBe('fish');
+      expect(stem('batteries')).toBe('battery');
+      expect(stem('rigged')).toBe('rig');
+    });
+
+    test('should leave short words, numbers and -eed words intact', () => {
+      expect(stem('bass')).toBe('bass');
+      expect(stem('speed')).toBe('speed');
+      expect(stem('250hp')).toBe('250hp');
+    });
+
+    test('should lowercase, fold accents and drop stop words', () => {
+      expect(tokenize('The Fishing Boats of Florida')).toEqual(['fish', 'boat', 'florida']);
+      expect(tokenize('Bénéteau Océanis')).toEqual(['beneteau', 'oceanis']);
+    });
+  });
+
+  describe('SearchIndex', () => {
+    test('should match stemmed query terms', () => {
+      const index = new SearchIndex();
+      index.upsert(createListing({ listingId: 'a', title: 'Great fishing boat' }));
+      index.upsert(createListing({ listingId: 'b', title: 'Luxury yacht' }));
+
+      const results = index.search('boats for fishermen fish');
+      expect(results.map(r => r.listing.listingId)).toEqual(['a']);
+    });
+
+    test('should rank title matches above description matches', () => {
+      const index = new SearchIndex();
+      index.upsert(createListing({ listingId: 'desc', title: 'Family cruiser', description: 'Ideal pontoon alternative' }));
+      index.upsert(createListing({ listingId: 'title', title: 'Pontoon boat', description: 'Ideal family cruiser' }));
+
+      const [first, second] = index.search('pontoon').sort((a, b) => b.score - a.score);
+      expect(first.listing.listingId).toBe('title');
+      expect(first.score).toBeGreaterThan(second.score);
+    });
+
+    test('should search manufacturer and model fields', () => {
+      const index = new SearchIndex();
+      index.upsert(createListing({
+        listingId: 'a',
+        boatDetails: { type: 'Sailboat', manufacturer: 'Catalina', model: '320', year: 2005, length: 32, condition: 'Good' },
+      }));
+
+      expect(index.search('catalina')).toHaveLength(1);
+      expect(index.search('320')).toHaveLength(1);
+    });
+
+    test('should rank rarer terms higher', () => {
+      const index = new SearchIndex();
+      index.upsert(createListing({ listingId: 'common', title: 'Boat for sale' }));
+      index.upsert(createListing({ listingId: 'other', title: 'Boat in great shape' }));
+      index.upsert(createListing({ listingId: 'rare', title: 'Trawler' }));
+
+      const scores = new Map(index.search('boat trawler').map(r => [r.listing.listingId, r.score]));
+      expect(scores.get('rare')!).toBeGreaterThan(scores.get('common')!);
+    });
+
+    test('should replace documents on upsert and drop them on remove', () => {
+      const index = new SearchIndex();
+      index.upsert(createListing({ listingId: 'a', title: 'Sailboat' }));
+      index.upsert(createListing({ listingId: 'a', title: 'Catamaran' }));
+
+      expect(index.size).toBe(1);
+      expect(index.search('sailboat')).toHaveLength(0);
+      expect(index.search('catamaran')).toHaveLength(1);
+
+      expect(index.remove('a')).toBe(true);
+      expect(index.size).toBe(0);
+      expect(index.search('catamaran')).toHaveLength(0);
+    });
+
+    test('should return every document for an empty query', () => {
+      const index = new SearchIndex();
+      index.upsert(createListing({ listingId: 'a' }));
+      index.upsert(createListing({ listingId: 'b' }));
+
+      expect(index.search('')).toHaveLength(2);
+    });
+  });
+
+  describe('Geospatial', () => {
+    const miamiBeach = { lat: 25.79, lon: -80.13 };
+    const fortLauderdale = { lat: 26.12, lon: -80.14 };
+    const tampa = { lat: 27.95, lon: -82.46 };
+
+    test('should geocode ZIP codes and fall back to city centroids', () => {
+      const zip = geocodeZip('33139-1234')!;
+      expect(distanceMiles(zip, miamiBeach)).toBeLessThan(5);
+
+      const city = geocodeLocation({ city: 'Tampa', state: 'FL' })!;
+      expect(distanceMiles(city, tampa)).toBeLessThan(15);
+
+      expect(geocodeLocation({ zipCode: 'abcde' })).toBeNull();
+      expect(geocodeLocation({ coordinates: tampa, zipCode: '33139' })).toEqual(tampa);
+    });
+
+    test('should compute great-circle distances in miles', () => {
+      expect(distanceMiles(miamiBeach, fortLauderdale)).toBeCloseTo(22.8, 0);
+      expect(distanceMiles(miamiBeach, miamiBeach)).toBe(0);
+    });
+
+    test('should encode geohashes', () => {
+      expect(encodeGeohash({ lat: 57.64911, lon: 10.40744 }, 5)).toBe('u4pru');
+    });
+
+    test('should find points within a radius only', () => {
+      const geo = new GeoIndex();
+      geo.add('fort-lauderdale', fortLauderdale);
+      geo.add('tampa', tampa);
+
+      const nearby = geo.findWithinRadius(miamiBeach, 50);
+      expect(Array.from(nearby.keys())).toEqual(['fort-lauderdale']);
+
+      const wide = geo.findWithinRadius(miamiBeach, 250);
+      expect(wide.size).toBe(2);
+
+      geo.remove('fort-lauderdale');
+      expect(geo.findWithinRadius(miamiBeach, 50).size).toBe(0);
+    });
+  });
+
+  describe('Sorting', () => {
+    test('should default to relevance and apply per-field default orders', () => {
+      expect(resolveSort(undefined, false)).toEqual({ field: 'relevance', order: 'desc' });
+      expect(resolveSort({ field: 'price', order: '' }, false)).toEqual({ field: 'price', order: 'asc' });
+      expect(resolveSort({ field: 'views', order: '' }, false)).toEqual({ field: 'views', order: 'desc' });
+    });
+
+    test('should fall back to relevance for distance without a search center', () => {
+      expect(resolveSort({ field: 'distance', order: 'asc' }, false)).toEqual({ field: 'relevance', order: 'desc' });
+      expect(resolveSort({ field: 'distance', order: 'asc' }, true)).toEqual({ field: 'distance', order: 'asc' });
+    });
+
+    test('should reject unknown fields and orders', () => {
+      expect(() => resolveSort({ field: 'color', order: 'asc' }, false)).toThrow('Invalid sort field');
+      expect(() => resolveSort({ field: 'price', order: 'up' }, false)).toThrow('Invalid sort order');
+    });
+
+    test('should measure price drops against the highest recorded price', () => {
+      const reduced = { ...createListing({ listingId: 'a', price: 45000 }), priceHistory: [{ price: 50000, changedAt: 1 }, { price: 45000, changedAt: 2 }] } as Listing;
+      const pending = { ...createListing({ listingId: 'b', price: 50000 }), priceHistory: [{ price: 50000, changedAt: 1 }, { price: 40000, changedAt: 2 }] } as Listing;
+
+      expect(getPriceDrop(reduced)).toBeCloseTo(0.1);
+      expect(getPriceDrop(pending)).toBeUndefined();
+    });
+
+    test('should sort listings missing the value last in either order', () => {
+      const withHp = { ...createListing({ listingId: 'a' }), score: 0, engines: [{ horsepower: 150 }, { horsepower: 150 }] } as any;
+      const withoutHp = { ...createListing({ listingId: 'b' }), score: 0 };
+
+      for (const order of ['asc', 'desc'] as const) {
+        const sort = { field: 'horsepower' as const, order };
+        expect(getSortKey(withHp, sort)[0]).toBeLessThan(getSortKey(withoutHp, sort)[0]);
+      }
+      expect(getSortKey(withHp, { field: 'horsepower', order: 'desc' })[1]).toBe(-300);
+    });
+  });
+
+  describe('Facets', () => {
+    const listings = [
+      createListing({ listingId: 'a', price: 20000, boatDetails: { type: 'Sailboat', manufacturer: 'Catalina', year: 2018, length: 30, condition: 'Good' } }),
+      createListing({ listingId: 'b', price: 60000, boatDetails: { type: 'Sailboat', manufacturer: 'catalina', year: 2021, length: 35, condition: 'Good' } }),
+      createListing({ listingId: 'c', price: 60000, location: { city: 'Austin', state: 'TX' }, boatDetails: { type: 'Pontoon', manufacturer: 'Bennington', year: 2021, length: 24, condition: 'Good' } }),
+      {
+        ...createListing({ listingId: 'd', price: 300000, boatDetails: { type: 'Center Console', manufacturer: 'Yellowfin', year: 2022, length: 42, condition: 'Excellent' } }),
+        engineConfiguration: 'twin',
+        engines: [{ fuelType: 'gasoline' }, { fuelType: 'gasoline' }],
+      } as Listing,
+    ];
+
+    test('should count categorical values over the filtered set', () => {
+      const facets = computeFacets(listings, listings, {});
+
+      expect(facets.boatTypes[0]).toEqual({ value: 'Sailboat', count: 2 });
+      expect(facets.manufacturers).toContainEqual({ value: 'Catalina', count: 2 });
+      expect(facets.locations).toEqual([{ state: 'FL', count: 3 }, { state: 'TX', count: 1 }]);
+      expect(facets.engineConfigurations).toEqual([{ value: 'twin', count: 1 }]);
+      expect(facets.fuelTypes).toEqual([{ value: 'gasoline', count: 1 }]);
+    });
+
+    test('should return every bucket including empty ones', () => {
+      const facets = computeFacets(listings, listings, {});
+
+      expect(facets.priceRanges.find(bucket => bucket.range === 'Under $25K')!.count).toBe(1);
+      expect(facets.priceRanges.find(bucket => bucket.range === '$1M+')!.count).toBe(0);
+      expect(facets.yearRanges!.find(bucket => bucket.range === '2020 & newer')!.count).toBe(3);
+      expect(facets.lengthRanges!.find(bucket => bucket.range === '40 - 59 ft')).toMatchObject({ min: 40, count: 1 });
+    });
+
+    test('should exclude a facet\'s own filter but apply the others', () => {
+      const filters = { boatType: ['Sailboat'], location: { state: 'FL' } };
+      const facets = computeFacets(listings, applySearchFilters(listings, filters), filters);
+
+      // Boat types ignore the boat type filter but respect the state filter
+      expect(facets.boatTypes).toEqual([
+        { value: 'Sailboat', count: 2 },
+        { value: 'Center Console', count: 1 },
+      ]);
+      // States ignore the state filter but respect the boat type filter
+      expect(facets.locations).toEqual([{ state: 'FL', count: 2 }]);
+      // Other facets count only the fully filtered set
+      expect(facets.manufacturers).toEqual([{ value: 'Catalina', count: 2 }]);
+    });
+  });
+
+  describe('Handler', () => {
+    let index: SearchIndex;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      index = new SearchIndex();
+      mockGetSearchIndex.mockResolvedValue(index);
+      mockDb.getUser.mockResolvedValue({ id: 'owner-1', name: 'Owner', email: 'owner@example.com' } as any);
+      mockListUnexpiredPromotions.mockResolvedValue([]);
+      mockRecordUsage.mockResolvedValue(undefined);
+      clearPromotionCache();
+    });
+
+    test('should hide listings that are not approved or active', async () => {
+      index.upsert(createListing({ listingId: 'active', title: 'Pontoon' }));
+      index.upsert(createListing({ listingId: 'pending', title: 'Pontoon', status: 'pending_review' }));
+
+      const result = await handler(createEvent({ query: 'pontoon' }));
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(body.total).toBe(1);
+      expect(body.results[0].listingId).toBe('active');
+      expect(body.results[0].owner).toEqual({ id: 'owner-1', name: 'Owner' });
+    });
+
+    test('should not expose owner email addresses in results or featured listings', async () => {
+      index.upsert(createListing({ listingId: 'a', title: 'Pontoon' }));
+      index.upsert(createListing({ listingId: 'b', title: 'Pontoon' }));
+      mockListUnexpiredPromotions.mockResolvedValue([createPromotion('a', 'featured')]);
+
+      const result = await handler(createEvent({ query: 'pontoon' }));
+
+      expect(JSON.parse(result.body).featured).toHaveLength(1);
+      expect(result.body).not.toContain('owner@example.com');
+    });
+
+    test('should apply structured filters to text matches', async () => {
+      index.upsert(createListing({ listingId: 'fl', title: 'Pontoon', price: 30000 }));
+      index.upsert(createListing({ listingId: 'tx', title: 'Pontoon', price: 30000, location: { city: 'Austin', state: 'TX' } }));
+      index.upsert(createListing({ listingId: 'expensive', title: 'Pontoon', price: 90000 }));
+
+      const result = await handler(createEvent({
+        query: 'pontoon',
+        location: { state: 'FL' },
+        priceRange: { max: 50000 },
+      }));
+      const body = JSON.parse(result.body);
+
+      expect(body.results.map((r: Listing) => r.listingId)).toEqual(['fl']);
+    });
+
+    test('should page through results with cursors without gaps or repeats', async () => {
+      for (let i = 0; i < 5; i++) {
+        index.upsert(createListing({ listingId: `listing-${i}`, createdAt: 1000 + (i % 2) }));
+      }
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const result = await handler(createEvent({ limit: 2, cursor }));
+        const body = JSON.parse(result.body);
+        seen.push(...body.results.map((r: Listing) => r.listingId));
+        cursor = body.nextCursor;
+        expect(body.hasMore).toBe(Boolean(cursor));
+      } while (cursor);
+
+      expect(seen).toHaveLength(5);
+      expect(new Set(seen).size).toBe(5);
+    });
+
+    test('should not shift later pages when an earlier listing is removed', async () => {
+      for (let i = 0; i < 4; i++) {
+        index.upsert(createListing({ listingId: `listing-${i}`, createdAt: 1000 - i }));
+      }
+
+      const first = JSON.parse((await handler(createEvent({ limit: 2 }))).body);
+      expect(first.results.map((r: Listing) => r.listingId)).toEqual(['listing-0', 'listing-1']);
+
+      index.remove('listing-0');
+
+      const second = JSON.parse((await handler(createEvent({ limit: 2, cursor: first.nextCursor }))).body);
+      expect(second.results.map((r: Listing) => r.listingId)).toEqual(['listing-2', 'listing-3']);
+      expect(second.hasMore).toBe(false);
+    });
+
+    test('should limit results to a radius around a ZIP code and sort by distance', async () => {
+      index.upsert(createListing({ listingId: 'tampa', location: { city: 'Tampa', state: 'FL', coordinates: { lat: 27.95, lon: -82.46 } } }));
+      index.upsert(createListing({ listingId: 'lauderdale', location: { city: 'Fort Lauderdale', state: 'FL', coordinates: { lat: 26.12, lon: -80.14 } } }));
+      index.upsert(createListing({ listingId: 'beach', location: { city: 'Miami Beach', state: 'FL', coordinates: { lat: 25.79, lon: -80.13 } } }));
+
+      const result = await handler(createEvent({
+        location: { zipCode: '33139', radius: 50 },
+        sort: { field: 'distance', order: 'asc' },
+      }));
+      const body = JSON.parse(result.body);
+
+      expect(body.results.map((r: Listing) => r.listingId)).toEqual(['beach', 'lauderdale']);
+      expect(body.results[0].distance).toBeLessThan(body.results[1].distance);
+      expect(body.facets.locations).toEqual([{ state: 'FL', count: 2 }]);
+    });
+
+    test('should page through distance-sorted results', async () => {
+      for (let i = 0; i < 5; i++) {
+        index.upsert(createListing({ listingId: `listing-${i}`, location: { city: 'Miami', state: 'FL', coordinates: { lat: 25.8 + i * 0.1, lon: -80.2 } } }));
+      }
+
+      const request = { location: { coordinates: { lat: 25.8, lon: -80.2 }, radius: 100 }, sort: { field: 'distance', order: 'asc' }, limit: 2 };
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const body = JSON.parse((await handler(createEvent({ ...request, cursor }))).body);
+        seen.push(...body.results.map((r: Listing) => r.listingId));
+        cursor = body.nextCursor;
+      } while (cursor);
+
+      expect(seen).toEqual(['listing-0', 'listing-1', 'listing-2', 'listing-3', 'listing-4']);
+    });
+
+    test('should sort by the requested field with relevance as tiebreaker', async () => {
+      index.upsert(createListing({ listingId: 'cheap', title: 'Pontoon', price: 20000 }));
+      index.upsert(createListing({ listingId: 'pricey', title: 'Pontoon', price: 90000 }));
+      index.upsert(createListing({ listingId: 'mid-title', title: 'Pontoon pontoon', price: 50000 }));
+      index.upsert(createListing({ listingId: 'mid-desc', title: 'Boat', description: 'pontoon', price: 50000 }));
+
+      const ascending = JSON.parse((await handler(createEvent({ query: 'pontoon', sort: { field: 'price', order: 'asc' } }))).body);
+      expect(ascending.results.map((r: Listing) => r.listingId)).toEqual(['cheap', 'mid-title', 'mid-desc', 'pricey']);
+
+      const descending = JSON.parse((await handler(createEvent({ query: 'pontoon', sort: { field: 'price', order: 'desc' } }))).body);
+      expect(descending.results.map((r: Listing) => r.listingId)).toEqual(['pricey', 'mid-title', 'mid-desc', 'cheap']);
+    });
+
+    test('should page through a sort with many ties without gaps or repeats', async () => {
+      for (let i = 0; i < 7; i++) {
+        index.upsert(createListing({ listingId: `listing-${i}`, price: 10000 * (i % 2), views: i % 3 }));
+      }
+
+      for (const field of ['price', 'views', 'year']) {
+        const seen: string[] = [];
+        let cursor: string | undefined;
+        do {
+          const body = JSON.parse((await handler(createEvent({ limit: 3, cursor, sort: { field, order: 'desc' } }))).body);
+          seen.push(...body.results.map((r: Listing) => r.listingId));
+          cursor = body.nextCursor;
+        } while (cursor);
+
+        expect(new Set(seen).size).toBe(7);
+        expect(seen).toHaveLength(7);
+      }
+    });
+
+    test('should reject cursors issued for a different sort', async () => {
+      index.upsert(createListing({ listingId: 'a' }));
+      index.upsert(createListing({ listingId: 'b' }));
+
+      const first = JSON.parse((await handler(createEvent({ limit: 1, sort: { field: 'price', order: 'asc' } }))).body);
+      const result = await handler(createEvent({ limit: 1, cursor: first.nextCursor, sort: { field: 'year', order: 'desc' } }));
+
+      expect(result.statusCode).toBe(400);
+    });
+
+    test('should reject unsupported sort fields', async () => {
+      const result = await handler(createEvent({ sort: { field: 'color', order: 'asc' } }));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error.code).toBe('INVALID_REQUEST');
+    });
+
+    test('should reject malformed cursors', async () => {
+      const result = await handler(createEvent({ cursor: 'not-a-cursor' }));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error.code).toBe('INVALID_REQUEST');
+    });
+
+    test('should rank boosted listings higher and meter their placements', async () => {
+      index.upsert(createListing({ listingId: 'strong', title: 'Pontoon pontoon' }));
+      index.upsert(createListing({ listingId: 'boosted', title: 'Pontoon', description: 'pontoon', ownerId: 'seller-2' }));
+      mockListUnexpiredPromotions.mockResolvedValue([{ ...createPromotion('boosted', 'boost'), sellerId: 'seller-2' }]);
+
+      const body = JSON.parse((await handler(createEvent({ query: 'pontoon' }))).body);
+
+      expect(body.results[0].listingId).toBe('boosted');
+      expect(mockRecordUsage).toHaveBeenCalledWith('seller-2', 'boosted_searches', 1, 1);
+    });
+
+    test('should not reorder explicit sorts for boosted listings', async () => {
+      index.upsert(createListing({ listingId: 'cheap', price: 20000 }));
+      index.upsert(createListing({ listingId: 'boosted', price: 90000 }));
+      mockListUnexpiredPromotions.mockResolvedValue([createPromotion('boosted', 'boost')]);
+
+      const body = JSON.parse((await handler(createEvent({ sort: { field: 'price', order: 'asc' } }))).body);
+
+      expect(body.results.map((r: Listing) => r.listingId)).toEqual(['cheap', 'boosted']);
+      expect(mockRecordUsage).not.toHaveBeenCalled();
+    });
+
+    test('should return matching featured listings on the first page only', async () => {
+      index.upsert(createListing({ listingId: 'a', title: 'Pontoon' }));
+      index.upsert(createListing({ listingId: 'b', title: 'Pontoon' }));
+      index.upsert(createListing({ listingId: 'other', title: 'Sailboat' }));
+      mockListUnexpiredPromotions.mockResolvedValue([
+        createPromotion('a', 'featured'),
+        createPromotion('other', 'featured'),
+      ]);
+
+      const first = JSON.parse((await handler(createEvent({ query: 'pontoon', limit: 1 }))).body);
+      expect(first.featured.map((r: any) => r.listingId)).toEqual(['a']);
+      expect(first.featured[0].promotionId).toBe('promo-a');
+
+      const second = JSON.parse((await handler(createEvent({ query: 'pontoon', limit: 1, cursor: first.nextCursor }))).body);
+      expect(second.featured).toEqual([]);
+    });
+
+    test('should not repeat featured listings among the first page of results', async () => {
+      index.upsert(createListing({ listingId: 'a', price: 10000 }));
+      index.upsert(createListing({ listingId: 'b', price: 20000 }));
+      index.upsert(createListing({ listingId: 'c', price: 30000 }));
+      mockListUnexpiredPromotions.mockResolvedValue([createPromotion('a', 'featured')]);
+
+      const sort = { field: 'price', order: 'asc' };
+      const first = JSON.parse((await handler(createEvent({ limit: 2, sort }))).body);
+      expect(first.featured.map((r: any) => r.listingId)).toEqual(['a']);
+      expect(first.results.map((r: Listing) => r.listingId)).toEqual(['b']);
+
+      const second = JSON.parse((await handler(createEvent({ limit: 2, sort, cursor: first.nextCursor }))).body);
+      expect(second.results.map((r: Listing) => r.listingId)).toEqual(['c']);
+    });
+
+    test('should rotate featured slots to the least shown promotions', async () => {
+      for (const id of ['a', 'b', 'c']) {
+        index.upsert(createListing({ listingId: id }));
+      }
+      mockListUnexpiredPromotions.mockResolvedValue([
+        createPromotion('a', 'featured', 10),
+        createPromotion('b', 'featured', 0),
+        createPromotion('c', 'featured', 0),
+      ]);
+
+      const first = JSON.parse((await handler(createEvent({}))).body);
+      expect(first.featured.map((r: any) => r.listingId).sort()).toEqual(['b', 'c']);
+
+      // Served placements count towards rotation until the cache refreshes,
+      // so 'a' gets a slot once the others have caught up with its impressions
+      const later: string[] = [];
+      for (let i = 0; i < 11; i++) {
+        const body = JSON.parse((await handler(createEvent({}))).body);
+        later.push(...body.featured.map((r: any) => r.listingId));
+      }
+      expect(later.slice(0, 16)).not.toContain('a');
+      expect(later).toContain('a');
+    });
+
+    test('should still search when promotions cannot be loaded', async () => {
+      index.upsert(createListing({ listingId: 'a' }));
+      mockListUnexpiredPromotions.mockRejectedValue(new Error('DynamoDB unavailable'));
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const result = await handler(createEvent({}));
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(body.results).toHaveLength(1);
+      expect(body.featured).toEqual([]);
+    });
+
+    test('should reject non-POST requests', async () => {
+      const result = await handler({ ...createEvent({}), httpMethod: 'GET' });
+
+      expect(result.statusCode).toBe(405);
+    });
+  });
+});
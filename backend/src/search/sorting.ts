@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Result ordering for listing search.
+ *
+ * Turns the requested sort into a numeric rank key per listing. Keys are
+ * compared element by element in ascending order and the listing ID breaks
+ * any remaining tie, so every listing has a unique, stable position that
+ * pagination cursors can resume from:
+ * - Listings missing the sorted value (no horsepower, no coordinates, no
+ *   price drop) always sort after listings that have it, in either order
+ * - Ties on the sorted value fall back to relevance, then newest first
+ *
+ * Supported sort fields: relevance, price, year, length, horsepower,
+ * createdAt (newest), updatedAt (recently updated), priceDrop, views
+ * (most viewed) and distance (requires a search center).
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { Listing, SearchFilters } from '../types/common';
+import { getTotalHorsepower } from './filters';
+
+/**
+ * Sort fields accepted by the search API
+ */
+export const SORT_FIELDS = [
+  'relevance',
+  'price',
+  'year',
+  'length',
+  'horsepower',
+  'createdAt',
+  'updatedAt',
+  'priceDrop',
+  'views',
+  'distance',
+] as const;
+
+export type SortField = typeof SORT_FIELDS[number];
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Validated sort specification
+ */
+export interface ResolvedSort {
+  field: SortField;
+  order: SortOrder;
+}
+
+/**
+ * Order used when a request names a field without an order
+ */
+const DEFAULT_ORDERS: Record<SortField, SortOrder> = {
+  relevance: 'desc',
+  price: 'asc',
+  year: 'desc',
+  length: 'desc',
+  horsepower: 'desc',
+  createdAt: 'desc',
+  updatedAt: 'desc',
+  priceDrop: 'desc',
+  views: 'desc',
+  distance: 'asc',
+};
+
+/**
+ * Listing with the values computed at query time that can be sorted on
+ */
+export type SortableListing = Listing & { score: number; distance?: number };
+
+/**
+ * Price history recorded on enhanced listings
+ */
+type ListingWithPriceHistory = Listing & {
+  priceHistory?: Array<{ price: number; changedAt: number }>;
+};
+
+/**
+ * Validates and normalizes the requested sort
+ *
+ * Distance sorting falls back to relevance when the request has no search
+ * center, so a stale sort selection never fails a search.
+ *
+ * @param sort - Sort from the search request (optional)
+ * @param hasCenter - Whether the request resolved to a search center
+ * @returns Resolved sort field and order
+ *
+ * @throws {Error} When the field or order is not supported
+ */
+export function resolveSort(sort: SearchFilters['sort'], hasCenter: boolean): ResolvedSort {
+  if (!sort?.field) {
+    return { field: 'relevance', order: 'desc' };
+  }
+
+  if (!(SORT_FIELDS as readonly string[]).includes(sort.field)) {
+    throw new Error(`Invalid sort field: ${sort.field}`);
+  }
+  if (sort.order && sort.order !== 'asc' && sort.order !== 'desc') {
+    throw new Error(`Invalid sort order: ${sort.order}`);
+  }
+
+  const field = sort.field as SortField;
+  if (field === 'distance' && !hasCenter) {
+    return { field: 'relevance', order: 'desc' };
+  }
+
+  return { field, order: (sort.order as SortOrder) || DEFAULT_ORDERS[field] };
+}
+
+/**
+ * Returns the fractional drop from a listing's highest recorded price
+ *
+ * Only prices that went live are recorded in the history; changes awaiting
+ * moderation stay in the pending update.
+ *
+ * @param listing - Listing to inspect
+ * @returns Drop as a fraction of the previous price (0.1 = 10% off), or
+ *   undefined when the price has never been reduced
+ */
+export function getPriceDrop(listing: Listing): number | undefined {
+  const history = (listing as ListingWithPriceHistory).priceHistory || [];
+  const highest = history.reduce((max, entry) => Math.max(max, entry.price || 0), 0);
+  return highest > listing.price ? (highest - listing.price) / highest : undefined;
+}
+
+/**
+ * Returns the value a listing is sorted on
+ */
+function getSortValue(listing: SortableListing, field: SortField): number | undefined {
+  switch (field) {
+    case 'relevance':
+      return listing.score;
+    case 'price':
+      return listing.price;
+    case 'year':
+      return listing.boatDetails?.year;
+    case 'length':
+      return listing.boatDetails?.length;
+    case 'horsepower':
+      return getTotalHorsepower(listing);
+    case 'createdAt':
+      return listing.createdAt;
+    case 'updatedAt':
+      return listing.updatedAt || listing.createdAt;
+    case 'priceDrop':
+      return getPriceDrop(listing);
+    case 'views':
+      return listing.views || 0;
+    case 'distance':
+      return listing.distance;
+  }
+}
+
+/**
+ * Builds the rank key of a listing for a sort
+ *
+ * @param listing - Listing with its score and distance attached
+ * @param sort - Resolved sort
+ * @returns Sort values compared in ascending order
+ *
+ * @example
+ * ```typescript
+ * getSortKey(listing, { field: 'price', order: 'desc' });
+ * // [0, -45000, -2.1, -1700000000000]
+ * ```
+ */
+export function getSortKey(listing: SortableListing, sort: ResolvedSort): number[] {
+  const relevanceKey = [-listing.score, -(listing.createdAt || 0)];
+  if (sort.field === 'relevance') {
+    return sort.order === 'asc' ? [listing.score, -(listing.createdAt || 0)] : relevanceKey;
+  }
+
+  const value = getSortValue(listing, sort.field);
+  const missing = value === undefined || Number.isNaN(value);
+  const directed = missing ? 0 : sort.order === 'asc' ? value : -value;
+
+  return [missing ? 1 : 0, directed, ...relevanceKey];
+}
@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Text analysis pipeline for the listing search index.
+ *
+ * Converts free text (titles, descriptions, manufacturer/model names and
+ * search queries) into normalized index terms:
+ * - Lowercasing and accent folding
+ * - Splitting on non-alphanumeric boundaries (keeps "239cc", "f-150" → "f", "150")
+ * - Stop word removal for common English filler words
+ * - Light suffix stemming so "boats"/"boating"/"boated" share a term
+ *
+ * The same pipeline is applied at index time and at query time, which is what
+ * keeps query terms and indexed terms comparable.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+/**
+ * English stop words that carry no ranking signal for listing search
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from',
+  'has', 'have', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'our',
+  'so', 'than', 'that', 'the', 'their', 'then', 'there', 'these', 'this',
+  'to', 'was', 'were', 'will', 'with', 'very', 'can', 'just', 'all',
+]);
+
+/**
+ * Minimum stem length - suffixes are only stripped when at least this
+ * many characters remain, so short words like "bass" or "ring" survive intact
+ */
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Reduces a lowercase word to its stem using a light suffix stripper
+ *
+ * Implements the plural and verb-form steps of the Porter algorithm, which
+ * covers the variation seen in listing copy without the over-stemming of a
+ * full Porter implementation (e.g. "center" stays "center").
+ *
+ * @param word - Lowercase word to stem
+ * @returns Stemmed word
+ *
+ * @example
+ * ```typescript
+ * stem('boats');    // 'boat'
+ * stem('fishing');  // 'fish'
+ * stem('batteries'); // 'battery'
+ * ```
+ */
+export function stem(word: string): string {
+  if (word.length <= MIN_STEM_LENGTH || /\d/.test(word)) {
+    return word;
+  }
+
+  let result = word;
+
+  // Plurals
+  if (result.endsWith('sses')) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('ies') && result.length - 3 >= MIN_STEM_LENGTH - 1) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (result.endsWith('s') && !result.endsWith('ss') && !result.endsWith('us') && !result.endsWith('is')) {
+    result = result.slice(0, -1);
+  }
+
+  // Verb forms
+  for (const suffix of ['ing', 'ed']) {
+    // "-eed" words ("speed", "freed") keep their ending, as in Porter step 1b
+    if (suffix === 'ed' && result.endsWith('eed')) {
+      break;
+    }
+    if (result.endsWith(suffix) && result.length - suffix.length >= MIN_STEM_LENGTH) {
+      const base = result.slice(0, -suffix.length);
+      // Only strip when the remaining stem still contains a vowel ("string" stays)
+      if (/[aeiouy]/.test(base)) {
+        result = base;
+        // Undouble trailing consonants: "rigged" -> "rigg" -> "rig"
+        if (/([^aeiouslz])\1$/.test(result)) {
+          result = result.slice(0, -1);
+        }
+      }
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Splits text into raw lowercase word tokens without stemming
+ *
+ * @param text - Text to split
+ * @returns Array of lowercase tokens
+ */
+export function splitWords(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0);
+}
+
+/**
+ * Runs the full analysis pipeline and returns index terms
+ *
+ * Stop words are dropped and remaining tokens are stemmed. Duplicate terms
+ * are preserved because term frequency is part of relevance scoring.
+ *
+ * @param text - Text to analyze
+ * @returns Array of index terms in document order
+ *
+ * @example
+ * ```typescript
+ * tokenize('The Fishing Boats of Florida');
+ * // ['fish', 'boat', 'florida']
+ * ```
+ */
+export function tokenize(text: string | undefined | null): string[] {
+  if (!text) {
+    return [];
+  }
+
+  return splitWords(text)
+    .filter(token => !STOP_WORDS.has(token))
+    .map(stem);
+}
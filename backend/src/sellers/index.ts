@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Public seller profile API handler.
+ *
+ * Endpoints (public):
+ * - GET /api/sellers/:sellerId - Reputation profile of a seller or dealer
+ *
+ * Dealer profiles cover the dealer and all of its sub-accounts; requesting a
+ * sub-account's profile returns its dealer's profile (check `sellerId`).
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { db } from '../shared/database';
+import { createResponse, createErrorResponse } from '../shared/utils';
+import { listSubAccounts } from '../dealer-service';
+import { listThreads } from '../messaging/thread-manager';
+import { listReviewsForListing } from '../reviews/review-manager';
+import { SellerProfile, UserStatus } from '../types/common';
+import { buildSellerProfile, SellerAccount } from './profile';
+
+/**
+ * Loads everything a seller's profile is built from
+ *
+ * @param account - Seller or dealer account
+ * @returns Promise<SellerProfile>
+ */
+async function loadSellerProfile(account: SellerAccount): Promise<SellerProfile> {
+  const subAccounts = await listSubAccounts(account.id);
+  const memberIds = [account.id, ...(subAccounts.subAccounts || []).map(subAccount => subAccount.id)];
+
+  const [listings, threads] = await Promise.all([
+    Promise.all(memberIds.map(memberId => db.getListingsByOwner(memberId))).then(pages => pages.flat()),
+    Promise.all(memberIds.map(memberId => listThreads('seller', memberId))).then(pages => pages.flat()),
+  ]);
+  const reviews = (await Promise.all(listings.map(listing => listReviewsForListing(listing.listingId)))).flat();
+
+  return buildSellerProfile({
+    account,
+    subAccountCount: memberIds.length - 1,
+    listings: listings as any,
+    reviews,
+    threads,
+  });
+}
+
+/**
+ * Main Lambda handler for seller profile requests
+ *
+ * @param event - API Gateway proxy event
+ * @returns Promise<APIGatewayProxyResult> - Seller profile response
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const method = event.httpMethod;
+  const path = event.path.split('?')[0];
+
+  if (method === 'OPTIONS') {
+    return createResponse(200, {});
+  }
+
+  try {
+    // GET /api/sellers/:sellerId - Public seller profile
+    const sellerMatch = path.match(/\/sellers\/([^/]+)\/?$/);
+    if (method === 'GET' && sellerMatch) {
+      let account = await db.getUser(sellerMatch[1]);
+
+      // Sub-accounts list on behalf of their dealer
+      if (account?.isDealerSubAccount && account.parentDealerId) {
+        account = await db.getUser(account.parentDealerId);
+      }
+      if (!account || account.userType === 'staff' || account.status === UserStatus.BANNED) {
+        return createErrorResponse(404, 'NOT_FOUND', 'Seller not found', requestId);
+      }
+
+      return createResponse(200, { profile: await loadSellerProfile(account) });
+    }
+
+    return createErrorResponse(404, 'NOT_FOUND', 'Endpoint not found', requestId);
+  } catch (error) {
+    console.error('Seller profile error:', error);
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'Seller profile request failed', requestId);
+  }
+};
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Seller reputation profile aggregation.
+ *
+ * Pure helpers that turn a seller's (or dealer's) account, listings, reviews
+ * and inquiry threads into the public profile:
+ * - Active and sold listings across the dealer and all of its sub-accounts
+ * - Review score across every listing
+ * - Inquiry response rate and average time to the first reply
+ * - Member-since, verification badges and premium tier
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { isSearchable } from '../search/filters';
+import { calculateListingRating, toPublicReview } from '../reviews/rating';
+import { Listing, MessageThread, Review, SellerProfile, SellerProfileStats } from '../types/common';
+
+/**
+ * Number of recent reviews shown on a profile
+ */
+export const RECENT_REVIEW_COUNT = 5;
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Account fields the profile is built from
+ */
+export interface SellerAccount {
+  id: string;
+  name: string;
+  location?: string;
+  createdAt: string;
+  emailVerified?: boolean;
+  phoneVerified?: boolean;
+  premiumActive?: boolean;
+  premiumExpiresAt?: number;
+  premiumTier?: string;
+  customerTier?: string;
+}
+
+/**
+ * Everything gathered for one seller or dealer
+ */
+export interface SellerProfileSources {
+  account: SellerAccount;
+  /** Number of dealer sub-accounts whose listings are included */
+  subAccountCount: number;
+  listings: Listing[];
+  reviews: Review[];
+  threads: MessageThread[];
+}
+
+/**
+ * Whether the account's premium membership is currently active
+ *
+ * @param account - Seller account
+ * @param now - Current time in milliseconds
+ */
+export function hasActivePremium(account: SellerAccount, now: number = Date.now()): boolean {
+  return !!account.premiumActive && (!account.premiumExpiresAt || account.premiumExpiresAt > now);
+}
+
+/**
+ * Calculates how reliably and quickly a seller answers inquiries
+ *
+ * A thread counts as answered once the seller has replied. Threads from
+ * before first replies were recorded count as answered when the seller sent
+ * the latest message, but have no response time.
+ *
+ * @param threads - Inquiry threads where the account (or a sub-account) is the seller
+ * @returns Inquiry count, response rate (0-1) and average hours to first reply
+ */
+export function calculateResponseStats(
+  threads: MessageThread[]
+): Pick<SellerProfileStats, 'inquiries' | 'responseRate' | 'averageResponseHours'> {
+  if (threads.length === 0) {
+    return { inquiries: 0 };
+  }
+
+  const answered = threads.filter(thread =>
+    thread.sellerFirstReplyAt !== undefined || thread.lastMessageSenderId === thread.sellerId
+  );
+  const timed = threads.filter(thread => thread.sellerFirstReplyAt !== undefined);
+  const totalHours = timed.reduce((sum, thread) => sum + (thread.sellerFirstReplyAt! - thread.createdAt) / HOUR, 0);
+
+  return {
+    inquiries: threads.length,
+    responseRate: Math.round((answered.length / threads.length) * 100) / 100,
+    ...(timed.length > 0 && { averageResponseHours: Math.round((totalHours / timed.length) * 10) / 10 }),
+  };
+}
+
+/**
+ * Builds a public seller profile
+ *
+ * @param sources - Account, listings, reviews and inquiry threads
+ * @param now - Current time in milliseconds
+ * @returns The public profile
+ */
+export function buildSellerProfile(sources: SellerProfileSources, now: number = Date.now()): SellerProfile {
+  const { account, subAccountCount, listings, reviews, threads } = sources;
+
+  const activeListings = listings
+    .filter(isSearchable)
+    .sort((a, b) => b.createdAt - a.createdAt);
+  const soldListings = listings
+    .filter(listing => listing.status === 'sold')
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const rating = calculateListingRating(reviews);
+  const isDealer = subAccountCount > 0 || !!account.customerTier?.includes('dealer');
+
+  return {
+    sellerId: account.id,
+    name: account.name,
+    isDealer,
+    ...(isDealer && { teamSize: subAccountCount }),
+    location: account.location,
+    memberSince: account.createdAt,
+    verification: {
+      email: !!account.emailVerified,
+      phone: !!account.phoneVerified,
+    },
+    ...(hasActivePremium(account, now) && account.premiumTier && { premiumTier: account.premiumTier }),
+    stats: {
+      activeListings: activeListings.length,
+      soldListings: soldListings.length,
+      averageRating: rating.averageRating,
+      totalReviews: rating.totalReviews,
+      ratingBreakdown: rating.ratingBreakdown,
+      ...calculateResponseStats(threads),
+    },
+    activeListings: activeListings as any,
+    soldListings: soldListings as any,
+    recentReviews: rating.reviews.slice(0, RECENT_REVIEW_COUNT).map(toPublicReview),
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Unit tests for seller reputation profiles
+ *
+ * Tests profile aggregation (listings, review score, response stats, badges
+ * and premium tier) and the profile API handler, including dealer
+ * sub-accounts resolving to their dealer.
+ */
+
+import { handler } from './index';
+import { buildSellerProfile, calculateResponseStats, SellerAccount } from './profile';
+import { listSubAccounts } from '../dealer-service';
+import { listThreads } from '../messaging/thread-manager';
+import { listReviewsForListing } from '../reviews/review-manager';
+import { db } from '../shared/database';
+import { MessageThread, Review } from '../types/common';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+jest.mock('../dealer-service', () => ({
+  listSubAccounts: jest.fn(),
+}));
+
+jest.mock('../messaging/thread-manager', () => ({
+  listThreads: jest.fn(),
+}));
+
+jest.mock('../reviews/review-manager', () => ({
+  listReviewsForListing: jest.fn(),
+}));
+
+jest.mock('../shared/database', () => ({
+  db: {
+    getUser: jest.fn(),
+    getListingsByOwner: jest.fn(),
+  },
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+const mockListSubAccounts = listSubAccounts as jest.MockedFunction<typeof listSubAccounts>;
+const mockListThreads = listThreads as jest.MockedFunction<typeof listThreads>;
+const mockListReviewsForListing = listReviewsForListing as jest.MockedFunction<typeof listReviewsForListing>;
+
+const account: SellerAccount = {
+  id: 'dealer-1',
+  name: 'Bayside Marine',
+  createdAt: '2021-03-01T00:00:00.000Z',
+  emailVerified: true,
+  phoneVerified: false,
+  premiumActive: true,
+  premiumTier: 'premium_dealer',
+  customerTier: 'premium_dealer',
+};
+
+function createListing(listingId: string, status: string, ownerId = 'dealer-1', time = 1000): any {
+  return { listingId, ownerId, title: listingId, status, createdAt: time, updatedAt: time };
+}
+
+function createThread(overrides: Partial<MessageThread> = {}): MessageThread {
+  return {
+    threadId: 'thread-1',
+    listingId: 'listing-1',
+    listingTitle: 'Boat',
+    buyerId: 'buyer-1',
+    buyerName: 'Bob Buyer',
+    sellerId: 'dealer-1',
+    sellerName: 'Bayside Marine',
+    createdAt: 0,
+    lastMessageAt: 0,
+    lastMessagePreview: '',
+    lastMessageSenderId: 'buyer-1',
+    buyerUnreadCount: 0,
+    sellerUnreadCount: 1,
+    ...overrides,
+  };
+}
+
+function createReview(reviewId: string, rating: number, overrides: Partial<Review> = {}): Review {
+  return {
+    reviewId,
+    listingId: 'listing-1',
+    userId: `user-${reviewId}`,
+    userName: 'Reviewer',
+    rating,
+    createdAt: Number(reviewId.replace(/\D/g, '')) || 1,
+    moderationStatus: 'approved',
+    ...overrides,
+  };
+}
+
+function createEvent(path: string): APIGatewayProxyEvent {
+  return {
+    httpMethod: 'GET',
+    path,
+    body: null,
+    queryStringParameters: null,
+    requestContext: { requestId: 'test-request' } as any,
+  } as APIGatewayProxyEvent;
+}
+
+describe('Seller profiles', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockListSubAccounts.mockResolvedValue({ success: true, subAccounts: [], count: 0 });
+    mockListThreads.mockResolvedValue([]);
+    mockListReviewsForListing.mockResolvedValue([]);
+    (db.getListingsByOwner as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('Response stats', () => {
+    test('should report response rate and average time to first reply', () => {
+      const stats = calculateResponseStats([
+        createThread({ threadId: 'a', sellerFirstReplyAt: 2 * HOUR }),
+        createThread({ threadId: 'b', createdAt: HOUR, sellerFirstReplyAt: 5 * HOUR }),
+        createThread({ threadId: 'c' }),
+        createThread({ threadId: 'd', lastMessageSenderId: 'dealer-1' }),
+      ]);
+
+      expect(stats).toEqual({ inquiries: 4, responseRate: 0.75, averageResponseHours: 3 });
+    });
+
+    test('should leave out rates without inquiries', () => {
+      expect(calculateResponseStats([])).toEqual({ inquiries: 0 });
+    });
+  });
+
+  describe('Profile aggregation', () => {
+    test('should aggregate listings, reviews, badges and premium tier', () => {
+      const profile = buildSellerProfile({
+        account,
+        subAccountCount: 2,
+        listings: [
+          createListing('active-old', 'active', 'dealer-1', 1),
+          createListing('active-new', 'approved', 'staff-1', 5),
+          createListing('contract', 'under_contract', 'staff-2', 3),
+          createListing('sold', 'sold'),
+          createListing('pending', 'pending_review'),
+        ],
+        reviews: [
+          createReview('r1', 5),
+          createReview('r2', 4),
+          createReview('r3', 1, { moderationStatus: 'pending' }),
+          createReview('r4', 3, { moderatedBy: 'mod-1' }),
+        ],
+        threads: [],
+      });
+
+      expect(profile.sellerId).toBe('dealer-1');
+      expect(profile.isDealer).toBe(true);
+      expect(profile.teamSize).toBe(2);
+      expect(profile.memberSince).toBe(account.createdAt);
+      expect(profile.verification).toEqual({ email: true, phone: false });
+      expect(profile.premiumTier).toBe('premium_dealer');
+      expect(profile.activeListings.map(listing => listing.listingId)).toEqual(['active-new', 'contract', 'active-old']);
+      expect(profile.soldListings.map(listing => listing.listingId)).toEqual(['sold']);
+      expect(profile.stats).toMatchObject({ activeListings: 3, soldListings: 1, totalReviews: 3, averageRating: 4, inquiries: 0 });
+      expect(profile.recentReviews.map(review => review.reviewId)).toEqual(['r4', 'r2', 'r1']);
+      expect(profile.recentReviews[0].moderatedBy).toBeUndefined();
+    });
+
+    test('should hide an expired premium tier and treat private sellers as non-dealers', () => {
+      const profile = buildSellerProfile({
+        account: { ...account, customerTier: 'individual', premiumExpiresAt: 1000 },
+        subAccountCount: 0,
+        listings: [],
+        reviews: [],
+        threads: [],
+      }, 2000);
+
+      expect(profile.premiumTier).toBeUndefined();
+      expect(profile.isDealer).toBe(false);
+      expect(profile.teamSize).toBeUndefined();
+    });
+  });
+
+  describe('GET /sellers/:sellerId', () => {
+    test('should include listings and inquiries across dealer sub-accounts', async () => {
+      (db.getUser as jest.Mock).mockResolvedValue(account);
+      mockListSubAccounts.mockResolvedValue({ success: true, subAccounts: [{ id: 'staff-1' } as any], count: 1 });
+      (db.getListingsByOwner as jest.Mock).mockImplementation(async (ownerId: string) =>
+        [createListing(`listing-${ownerId}`, 'active', ownerId)]
+      );
+      mockListThreads.mockImplementation(async (_role, sellerId) =>
+        [createThread({ threadId: sellerId, sellerId, sellerFirstReplyAt: HOUR })]
+      );
+      mockListReviewsForListing.mockImplementation(async (listingId) => [createReview(`r-${listingId}`, 4, { listingId })]);
+
+      const result = await handler(createEvent('/api/sellers/dealer-1'));
+      const { profile } = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(db.getListingsByOwner).toHaveBeenCalledWith('staff-1');
+      expect(mockListThreads).toHaveBeenCalledWith('seller', 'staff-1');
+      expect(profile.stats).toMatchObject({ activeListings: 2, totalReviews: 2, inquiries: 2, responseRate: 1, averageResponseHours: 1 });
+      expect(profile.teamSize).toBe(1);
+    });
+
+    test('should show a sub-account\'s dealer profile', async () => {
+      (db.getUser as jest.Mock).mockImplementation(async (userId: string) =>
+        userId === 'staff-1'
+          ? { id: 'staff-1', name: 'Sam Staff', isDealerSubAccount: true, parentDealerId: 'dealer-1' }
+          : account
+      );
+
+      const result = await handler(createEvent('/api/sellers/staff-1'));
+
+      expect(JSON.parse(result.body).profile.sellerId).toBe('dealer-1');
+      expect(mockListSubAccounts).toHaveBeenCalledWith('dealer-1');
+    });
+
+    test('should return 404 for unknown, staff and banned users', async () => {
+      (db.getUser as jest.Mock).mockResolvedValueOnce(null);
+      const unknown = await handler(createEvent('/api/sellers/nobody'));
+
+      (db.getUser as jest.Mock).mockResolvedValueOnce({ ...account, userType: 'staff' });
+      const staff = await handler(createEvent('/api/sellers/staff'));
+
+      (db.getUser as jest.Mock).mockResolvedValueOnce({ ...account, status: 'banned' });
+      const banned = await handler(createEvent('/api/sellers/banned'));
+
+      expect([unknown.statusCode, staff.statusCode, banned.statusCode]).toEqual([404, 404, 404]);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * @fileoverview Unit tests for the content filter and its versioned rules
+ *
+ * Tests word, phrase and regex matching, the marine vocabulary allowlist,
+ * rule validation, dry runs, and publishing and loading rule sets.
+ */
+
+import { DynamoDBDocumentClient, GetCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { ContentFilterRule } from '@harborlist/shared-types';
+import {
+  DEFAULT_RULE_SET,
+  compileContentFilter,
+  dryRunContentFilter,
+  filterContent,
+  validateContentFilterRules,
+} from '../content-filter';
+import { clearContentFilterCache, getContentFilter, publishRuleSet } from '../content-filter-rules';
+
+const ddbMock = mockClient(DynamoDBDocumentClient);
+
+const rule = (overrides: Partial<ContentFilterRule> = {}): ContentFilterRule => ({
+  id: 'rule-1',
+  category: 'scam',
+  severity: 'high',
+  matchType: 'word',
+  pattern: 'ass',
+  enabled: true,
+  ...overrides,
+});
+
+const filterWith = (rules: ContentFilterRule[], allowlist: string[] = []) =>
+  compileContentFilter({ version: 1, rules, allowlist });
+
+describe('Content filter', () => {
+  describe('filterContent', () => {
+    it('matches words on word boundaries only', () => {
+      const filter = filterWith([rule({ category: 'profanity', pattern: 'ass' })]);
+
+      expect(filterContent('Bass boat', 'First class ride, fast as...', filter).isClean).toBe(true);
+      expect(filterContent('Bass boat', 'Kiss my ass', filter).violations).toEqual([
+        expect.objectContaining({ category: 'profanity', matchedTerm: 'ass', location: 'description', ruleId: 'rule-1' }),
+      ]);
+    });
+
+    it('matches phrases regardless of case, punctuation and spacing', () => {
+      const filter = filterWith([rule({ matchType: 'phrase', pattern: 'wire transfer' })]);
+
+      expect(filterContent('', 'Payment by WIRE-transfer only', filter).isClean).toBe(false);
+      expect(filterContent('', 'Payment by wire\n  transfer only', filter).isClean).toBe(false);
+      expect(filterContent('', 'New wiring, transfer case rebuilt', filter).isClean).toBe(true);
+    });
+
+    it('matches regexes against the original text', () => {
+      const filter = filterWith([rule({ matchType: 'regex', pattern: '\\+?\\d{3}[-.]\\d{3}[-.]\\d{4}', category: 'spam' })]);
+
+      const result = filterContent('', 'Text me at 555-123-4567 for price', filter);
+
+      expect(result.violations[0]).toMatchObject({ category: 'spam', ruleId: 'rule-1' });
+      expect(result.violations[0].context).toContain('555-123-4567');
+    });
+
+    it('never matches allowlisted phrases', () => {
+      const filter = filterWith([rule({ pattern: 'kill' }), rule({ id: 'rule-2', pattern: 'hot' })], ['kill switch', 'hot water']);
+
+      expect(filterContent('', 'Engine kill switch, hot water heater', filter).isClean).toBe(true);
+      expect(filterContent('', 'Hot deal, kill switch included', filter).violations).toHaveLength(1);
+    });
+
+    it('ignores disabled rules', () => {
+      expect(filterContent('', 'Kiss my ass', filterWith([rule({ enabled: false })])).isClean).toBe(true);
+    });
+
+    it('keeps the built-in defaults without being configured', () => {
+      const result = filterContent('Great boat', 'Western Union payments only');
+
+      expect(result.severity).toBe('high');
+      expect(result.violations[0]).toMatchObject({ category: 'scam', matchedTerm: 'western union' });
+      expect(filterContent('Galway hooker', 'Classic bass boat with a hot water heater').isClean).toBe(true);
+    });
+  });
+
+  describe('validateContentFilterRules', () => {
+    it('accepts the built-in defaults', () => {
+      expect(validateContentFilterRules(DEFAULT_RULE_SET.rules, DEFAULT_RULE_SET.allowlist)).toEqual([]);
+    });
+
+    it('reports invalid rules', () => {
+      const errors = validateContentFilterRules([
+        rule({ category: 'gossip' as any }),
+        rule({ matchType: 'regex', pattern: '(unclosed' }),
+        rule({ matchType: 'word', pattern: 'two words' }),
+        rule({ pattern: '  ' }),
+      ], ['']);
+
+      expect(errors).toEqual([
+        'Rule 1: unknown category "gossip"',
+        'Rule 2: "(unclosed" is not a valid regular expression',
+        'Rule 3: "two words" is more than one word, use a phrase rule',
+        'Rule 4: pattern is required',
+        'Allowlist entry 1 is empty',
+      ]);
+    });
+  });
+
+  describe('dryRunContentFilter', () => {
+    it('reports listings whose outcome changes and hits per rule', () => {
+      const listings = [
+        { listingId: 'l1', title: 'Bass boat', description: 'Cash only, no inspection' },
+        { listingId: 'l2', title: 'Pontoon', description: 'Zelle deposit required' },
+        { listingId: 'l3', title: 'Sailboat', description: 'Well kept' },
+      ];
+      const current = filterWith([rule({ matchType: 'phrase', pattern: 'cash only' })]);
+      const proposed = filterWith([rule({ id: 'rule-2', pattern: 'zelle' })]);
+
+      const result = dryRunContentFilter(listings, current, proposed);
+
+      expect(result).toMatchObject({
+        listingsScanned: 3,
+        currentFlagged: 1,
+        proposedFlagged: 1,
+        newlyFlagged: [{ listingId: 'l2', categories: ['scam'], matchedTerms: ['zelle'] }],
+        noLongerFlagged: [{ listingId: 'l1', matchedTerms: ['cash only'] }],
+        ruleHits: [{ ruleId: 'rule-2', pattern: 'zelle', listings: 1 }],
+      });
+    });
+  });
+
+  describe('rule sets', () => {
+    beforeEach(() => {
+      ddbMock.reset();
+      clearContentFilterCache();
+    });
+
+    it('publishes the next version', async () => {
+      ddbMock.on(TransactWriteCommand).resolves({});
+
+      const published = await publishRuleSet({
+        rules: [rule({ id: '', pattern: ' zelle ' })],
+        allowlist: ['Hot Water', 'hot water'],
+        expectedVersion: 3,
+      }, 'admin@harborlist.com');
+
+      expect(published).toMatchObject({ version: 4, allowlist: ['hot water'], publishedBy: 'admin@harborlist.com' });
+      expect(published.rules[0].id).toBeTruthy();
+      expect(published.rules[0].pattern).toBe('zelle');
+
+      const items = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+      expect(items[0].Put!.Item!.settingKey).toBe('content-filter-rules#4');
+      expect(items[1].Put!.ExpressionAttributeValues).toEqual({ ':expectedVersion': 3 });
+    });
+
+    it('rejects a publish when another version was published first', async () => {
+      ddbMock.on(TransactWriteCommand).rejects(Object.assign(new Error('cancelled'), { name: 'TransactionCanceledException' }));
+
+      await expect(publishRuleSet({ rules: [rule()], allowlist: [], expectedVersion: 3 }, 'admin'))
+        .rejects.toThrow('Content filter rules have changed');
+    });
+
+    it('rejects invalid rules without writing', async () => {
+      await expect(publishRuleSet({ rules: [rule({ pattern: '' })], allowlist: [], expectedVersion: 0 }, 'admin'))
+        .rejects.toThrow('Invalid content filter rules: Rule 1: pattern is required');
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('loads the published rules and falls back to the defaults', async () => {
+      ddbMock.on(GetCommand).resolvesOnce({ Item: { settingKey: 'content-filter-rules', version: 5, rules: [rule({ pattern: 'zelle' })], allowlist: [] } });
+
+      const filter = await getContentFilter();
+      expect(filter.version).toBe(5);
+      expect(filterContent('', 'Pay by zelle', filter).isClean).toBe(false);
+
+      clearContentFilterCache();
+      ddbMock.on(GetCommand).rejects(new Error('unavailable'));
+      jest.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+
+      expect((await getContentFilter()).version).toBe(0);
+    });
+  });
+});
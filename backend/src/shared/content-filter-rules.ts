@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Versioned content filter rule sets.
+ *
+ * Trust & safety edit the content filter's rules in the admin console. Each
+ * publish stores an immutable version in the platform settings table
+ * (`content-filter-rules#<version>`) and moves the current pointer
+ * (`content-filter-rules`) to it, so old versions can be reviewed and
+ * restored. Until a rule set is published the built-in defaults apply.
+ *
+ * Business Rules:
+ * - Versions are numbered 1, 2, 3, ... and never changed once published
+ * - A publish names the version its edits started from; if another admin
+ *   published in the meantime it is rejected instead of overwriting them
+ * - Listing and review screening never fails because rules cannot be
+ *   loaded: the last loaded (or built-in) rules are used instead
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, ScanCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  ContentFilterPublishRequest,
+  ContentFilterRule,
+  ContentFilterRuleSet,
+  ContentFilterVersionSummary,
+} from '@harborlist/shared-types';
+import {
+  CompiledContentFilter,
+  DEFAULT_CONTENT_FILTER,
+  DEFAULT_RULE_SET,
+  compileContentFilter,
+  validateContentFilterRules,
+} from './content-filter';
+import { generateId } from './utils';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+const PLATFORM_SETTINGS_TABLE = process.env.PLATFORM_SETTINGS_TABLE || 'harborlist-platform-settings';
+
+/**
+ * Setting keys of the current rule set and of each version
+ */
+const CURRENT_KEY = 'content-filter-rules';
+const versionKey = (version: number) => `${CURRENT_KEY}#${version}`;
+
+/**
+ * How long the active rules are cached per container
+ */
+const CONTENT_FILTER_CACHE_TTL_MS = 60 * 1000;
+
+let cache: { filter: CompiledContentFilter; loadedAt: number } | null = null;
+
+/**
+ * Rule set stored in a settings item
+ */
+function toRuleSet(item: Record<string, any>): ContentFilterRuleSet {
+  return {
+    version: item.version,
+    rules: item.rules || [],
+    allowlist: item.allowlist || [],
+    publishedBy: item.publishedBy,
+    publishedAt: item.publishedAt,
+    changeNote: item.changeNote,
+  };
+}
+
+/**
+ * Retrieves the rule set in use
+ *
+ * @returns Promise<ContentFilterRuleSet> - Latest published rule set, or the built-in defaults (version 0)
+ */
+export async function getActiveRuleSet(): Promise<ContentFilterRuleSet> {
+  const result = await docClient.send(new GetCommand({
+    TableName: PLATFORM_SETTINGS_TABLE,
+    Key: { settingKey: CURRENT_KEY },
+  }));
+  return result.Item ? toRuleSet(result.Item) : DEFAULT_RULE_SET;
+}
+
+/**
+ * Retrieves a published version
+ *
+ * @param version - Version number
+ * @returns Promise<ContentFilterRuleSet | null> - The version, or null if it was never published
+ */
+export async function getRuleSetVersion(version: number): Promise<ContentFilterRuleSet | null> {
+  if (version === 0) {
+    return DEFAULT_RULE_SET;
+  }
+
+  const result = await docClient.send(new GetCommand({
+    TableName: PLATFORM_SETTINGS_TABLE,
+    Key: { settingKey: versionKey(version) },
+  }));
+  return result.Item ? toRuleSet(result.Item) : null;
+}
+
+/**
+ * Lists published versions
+ *
+ * @returns Promise<ContentFilterVersionSummary[]> - Versions, newest first
+ */
+export async function listRuleSetVersions(): Promise<ContentFilterVersionSummary[]> {
+  const items: Record<string, any>[] = [];
+  let lastKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: PLATFORM_SETTINGS_TABLE,
+      FilterExpression: 'begins_with(settingKey, :prefix)',
+      ExpressionAttributeValues: { ':prefix': `${CURRENT_KEY}#` },
+      ExclusiveStartKey: lastKey,
+    }));
+    items.push(...(result.Items || []));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return items
+    .map(item => ({
+      version: item.version,
+      publishedBy: item.publishedBy,
+      publishedAt: item.publishedAt,
+      changeNote: item.changeNote,
+      ruleCount: (item.rules || []).length,
+      allowlistCount: (item.allowlist || []).length,
+    }))
+    .sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Publishes a new version of the rules
+ *
+ * @param request - Rules, allowlist and the version the edits started from
+ * @param publishedBy - Admin publishing the rules
+ * @returns Promise<ContentFilterRuleSet> - The published version
+ * @throws Error when the rules are invalid or another version was published since `expectedVersion`
+ */
+export async function publishRuleSet(request: ContentFilterPublishRequest, publishedBy: string): Promise<ContentFilterRuleSet> {
+  const errors = validateContentFilterRules(request.rules, request.allowlist);
+  if (errors.length > 0) {
+    throw new Error(`Invalid content filter rules: ${errors.join('; ')}`);
+  }
+
+  const expectedVersion = Number(request.expectedVersion) || 0;
+  const ruleSet: ContentFilterRuleSet = {
+    version: expectedVersion + 1,
+    rules: request.rules.map((rule): ContentFilterRule => ({
+      id: rule.id || generateId(),
+      category: rule.category,
+      severity: rule.severity,
+      matchType: rule.matchType,
+      pattern: rule.pattern.trim(),
+      enabled: rule.enabled !== false,
+      note: rule.note?.trim() || undefined,
+    })),
+    allowlist: [...new Set(request.allowlist.map(entry => entry.trim().toLowerCase()))],
+    publishedBy,
+    publishedAt: new Date().toISOString(),
+    changeNote: request.changeNote?.trim() || undefined,
+  };
+
+  try {
+    await docClient.send(new TransactWriteCommand({
+      TransactItems: [
+        {
+          Put: {
+            TableName: PLATFORM_SETTINGS_TABLE,
+            Item: { settingKey: versionKey(ruleSet.version), ...ruleSet },
+            ConditionExpression: 'attribute_not_exists(settingKey)',
+          },
+        },
+        {
+          Put: {
+            TableName: PLATFORM_SETTINGS_TABLE,
+            Item: { settingKey: CURRENT_KEY, ...ruleSet },
+            ...(expectedVersion === 0
+              ? { ConditionExpression: 'attribute_not_exists(settingKey)' }
+              : {
+                  ConditionExpression: '#version = :expectedVersion',
+                  ExpressionAttributeNames: { '#version': 'version' },
+                  ExpressionAttributeValues: { ':expectedVersion': expectedVersion },
+                }),
+          },
+        },
+      ],
+    }));
+  } catch (error: any) {
+    if (error?.name === 'TransactionCanceledException') {
+      throw new Error('Content filter rules have changed since they were loaded; reload and reapply your edits');
+    }
+    throw error;
+  }
+
+  clearContentFilterCache();
+  return ruleSet;
+}
+
+/**
+ * Loads the active rules, compiled for filterContent
+ *
+ * Cached per container. If the rules cannot be loaded, the last loaded rules
+ * (or the built-in defaults) are used so screening never fails.
+ *
+ * @returns Promise<CompiledContentFilter> - Filter to screen content with
+ */
+export async function getContentFilter(): Promise<CompiledContentFilter> {
+  const now = Date.now();
+  if (cache && now - cache.loadedAt <= CONTENT_FILTER_CACHE_TTL_MS) {
+    return cache.filter;
+  }
+
+  try {
+    cache = { filter: compileContentFilter(await getActiveRuleSet()), loadedAt: now };
+    return cache.filter;
+  } catch (error) {
+    console.error('Failed to load content filter rules, using the last loaded rules:', error);
+    return cache?.filter || DEFAULT_CONTENT_FILTER;
+  }
+}
+
+/**
+ * Clears the cached rules (after a publish, and between tests)
+ */
+export function clearContentFilterCache(): void {
+  cache = null;
+}
@@ -1,9 +1,9 @@
 /**
  * Content Moderation Filter
- * 
+ *
  * Automated content filtering system that scans listing content for inappropriate,
  * offensive, or policy-violating terms. Supports multiple categories and severity levels.
- * 
+ *
  * Categories:
  * - Profanity: Offensive language
  * - Discriminatory: Hate speech, discriminatory language
@@ -11,27 +11,70 @@
  * - Violence: Violent or threatening language
  * - Scam: Common scam indicators
  * - Spam: Spam patterns (excessive caps, repetition)
+ * - Drugs: Drug references
+ * - Fraud: Fraud indicators
+ *
+ * Rules are edited by trust & safety in the admin console and stored as
+ * versioned rule sets (see `content-filter-rules.ts`). The terms below are
+ * the built-in defaults, used until a rule set is published. Each rule
+ * matches as a word (on word boundaries, so "ass" does not flag "class"), a
+ * phrase or a regular expression. Allowlisted phrases such as "hot water
+ * heater" or "kill switch" are never matched, whatever the rules say.
  */
 
+import {
+  ContentFilterCategory,
+  ContentFilterDryRunListing,
+  ContentFilterDryRunResult,
+  ContentFilterMatchType,
+  ContentFilterRule,
+  ContentFilterRuleSet,
+  ContentFilterSeverity,
+} from '@harborlist/shared-types';
+
 export interface ContentFilterResult {
   isClean: boolean;
   violations: ContentViolation[];
-  severity: 'low' | 'medium' | 'high';
+  severity: ContentFilterSeverity;
   autoFlag: boolean;
 }
 
 export interface ContentViolation {
-  category: 'profanity' | 'discriminatory' | 'sexual' | 'violence' | 'scam' | 'spam';
+  category: ContentFilterCategory;
   matchedTerm: string;
   location: 'title' | 'description' | 'both';
-  severity: 'low' | 'medium' | 'high';
+  severity: ContentFilterSeverity;
   context?: string;
+  ruleId?: string; // Unset for the built-in spam checks
+}
+
+/**
+ * A rule set ready for matching
+ */
+export interface CompiledContentFilter {
+  version: number;
+  rules: Array<{ rule: ContentFilterRule; regex: RegExp }>;
+  allowlist: RegExp[];
 }
 
+export const CONTENT_FILTER_CATEGORIES: ContentFilterCategory[] = [
+  'profanity', 'discriminatory', 'sexual', 'violence', 'scam', 'spam', 'drugs', 'fraud'
+];
+
+const SEVERITIES: ContentFilterSeverity[] = ['low', 'medium', 'high'];
+const MATCH_TYPES: ContentFilterMatchType[] = ['word', 'phrase', 'regex'];
+
 /**
- * Inappropriate terms database organized by category and severity
+ * Limits on what a rule set may contain
  */
-const FILTER_LISTS = {
+export const MAX_FILTER_RULES = 2000;
+export const MAX_ALLOWLIST_ENTRIES = 500;
+export const MAX_PATTERN_LENGTH = 200;
+
+/**
+ * Default terms organized by category and severity
+ */
+const DEFAULT_FILTER_TERMS: Record<ContentFilterCategory, Record<ContentFilterSeverity, string[]>> = {
   profanity: {
     high: [
       'fuck', 'shit', 'bitch', 'asshole', 'bastard', 'damn', 'crap',
@@ -117,7 +160,7 @@ const FILTER_LISTS = {
       'lsd', 'ketamine', 'crack', 'opioid'
     ],
     medium: ['joint', 'bong', 'blunt', 'stoned', 'high'],
-    low: ['smoke', 'weed-friendly']
+    low: ['smoke', 'weed friendly']
   },
 
   fraud: {
@@ -130,6 +173,37 @@ const FILTER_LISTS = {
   }
 };
 
+/**
+ * Default allowlist: boating vocabulary that contains filtered words
+ */
+const DEFAULT_ALLOWLIST = [
+  'hot water', 'hot water heater', 'kill switch', 'galway hooker', 'poop deck',
+  'twin screw', 'screw drive', 'stress crack', 'stress cracks', 'gelcoat crack',
+  'spider crack', 'high output', 'high performance', 'high speed', 'high tide',
+  'rough water', 'rough seas', 'smoke detector', 'universal joint', 'u joint',
+  'butt connector', 'fight chair', 'hit the water'
+];
+
+/**
+ * Built-in rule set, used until trust & safety publish one
+ */
+export const DEFAULT_RULE_SET: ContentFilterRuleSet = {
+  version: 0,
+  rules: CONTENT_FILTER_CATEGORIES.flatMap(category =>
+    SEVERITIES.flatMap(severity =>
+      DEFAULT_FILTER_TERMS[category][severity].map((term): ContentFilterRule => ({
+        id: `default-${category}-${term.replace(/\s+/g, '-')}`,
+        category,
+        severity,
+        matchType: term.includes(' ') ? 'phrase' : 'word',
+        pattern: term,
+        enabled: true,
+      }))
+    )
+  ),
+  allowlist: DEFAULT_ALLOWLIST,
+};
+
 
 /**
  * Check if text contains excessive capitalization (spam indicator)
@@ -147,122 +221,242 @@ function hasExcessiveCaps(text: string): boolean {
 function hasExcessiveRepetition(text: string): boolean {
   const words = text.toLowerCase().split(/\s+/);
   const wordCounts: { [key: string]: number } = {};
-  
+
   words.forEach(word => {
     if (word.length > 3) { // Only check words longer than 3 chars
       wordCounts[word] = (wordCounts[word] || 0) + 1;
     }
   });
-  
+
   // If any word appears more than 5 times, it's spam
   return Object.values(wordCounts).some(count => count > 5);
 }
 
 /**
- * Normalize text for filtering (lowercase, remove special chars)
+ * Normalize text for filtering (lowercase, special chars to spaces)
+ *
+ * Keeps the text's length so match positions point into the original text.
  */
 function normalizeText(text: string): string {
   return text
-    .toLowerCase()
-    .replace(/[^\w\s]/g, ' ') // Replace special chars with space
-    .replace(/\s+/g, ' ') // Normalize whitespace
-    .trim();
+    .replace(/\W/g, ' ') // Replace special chars with space
+    .toLowerCase();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Words of a word or phrase pattern, as they appear in normalized text
+ */
+function patternWords(pattern: string): string[] {
+  return normalizeText(pattern).split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Regex matching words in sequence, on word boundaries, in normalized text
+ */
+function phraseRegex(words: string[]): RegExp {
+  return new RegExp(`\\b${words.map(escapeRegExp).join('\\s+')}\\b`);
+}
+
+/**
+ * Compiles a rule's pattern
+ *
+ * @returns The regex, or null when the pattern cannot match anything
+ */
+function compileRule(rule: ContentFilterRule): RegExp | null {
+  if (rule.matchType === 'regex') {
+    try {
+      return new RegExp(rule.pattern, 'i');
+    } catch {
+      return null;
+    }
+  }
+
+  const words = patternWords(rule.pattern);
+  return words.length > 0 ? phraseRegex(words) : null;
+}
+
+/**
+ * Compiles a rule set for matching; disabled rules are left out
+ *
+ * @param ruleSet - Rule set to compile
+ * @returns CompiledContentFilter - Filter to pass to filterContent
+ */
+export function compileContentFilter(ruleSet: Pick<ContentFilterRuleSet, 'version' | 'rules' | 'allowlist'>): CompiledContentFilter {
+  return {
+    version: ruleSet.version,
+    rules: ruleSet.rules
+      .filter(rule => rule.enabled)
+      .flatMap(rule => {
+        const regex = compileRule(rule);
+        return regex ? [{ rule, regex }] : [];
+      }),
+    allowlist: ruleSet.allowlist
+      .map(patternWords)
+      .filter(words => words.length > 0)
+      .map(phraseRegex),
+  };
+}
+
+export const DEFAULT_CONTENT_FILTER = compileContentFilter(DEFAULT_RULE_SET);
+
+/**
+ * Validates a rule set before it is published or dry-run
+ *
+ * @param rules - Rules to validate
+ * @param allowlist - Allowlist to validate
+ * @returns Problems found, empty when the rule set is valid
+ */
+export function validateContentFilterRules(rules: unknown, allowlist: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(rules)) {
+    return ['Rules must be a list'];
+  }
+  if (!Array.isArray(allowlist)) {
+    return ['Allowlist must be a list'];
+  }
+  if (rules.length > MAX_FILTER_RULES) {
+    errors.push(`At most ${MAX_FILTER_RULES} rules are allowed`);
+  }
+  if (allowlist.length > MAX_ALLOWLIST_ENTRIES) {
+    errors.push(`At most ${MAX_ALLOWLIST_ENTRIES} allowlist entries are allowed`);
+  }
+
+  rules.forEach((rule: Partial<ContentFilterRule>, index) => {
+    const label = `Rule ${index + 1}`;
+    const pattern = typeof rule?.pattern === 'string' ? rule.pattern.trim() : '';
+
+    if (!CONTENT_FILTER_CATEGORIES.includes(rule?.category as ContentFilterCategory)) {
+      errors.push(`${label}: unknown category "${rule?.category}"`);
+    }
+    if (!SEVERITIES.includes(rule?.severity as ContentFilterSeverity)) {
+      errors.push(`${label}: unknown severity "${rule?.severity}"`);
+    }
+    if (!MATCH_TYPES.includes(rule?.matchType as ContentFilterMatchType)) {
+      errors.push(`${label}: unknown match type "${rule?.matchType}"`);
+      return;
+    }
+    if (!pattern) {
+      errors.push(`${label}: pattern is required`);
+      return;
+    }
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      errors.push(`${label}: pattern must be at most ${MAX_PATTERN_LENGTH} characters`);
+      return;
+    }
+
+    if (rule.matchType === 'regex') {
+      try {
+        new RegExp(pattern, 'i');
+      } catch {
+        errors.push(`${label}: "${pattern}" is not a valid regular expression`);
+      }
+    } else {
+      const words = patternWords(pattern);
+      if (words.length === 0) {
+        errors.push(`${label}: "${pattern}" has no letters or digits to match`);
+      } else if (rule.matchType === 'word' && words.length > 1) {
+        errors.push(`${label}: "${pattern}" is more than one word, use a phrase rule`);
+      }
+    }
+  });
+
+  allowlist.forEach((entry, index) => {
+    if (typeof entry !== 'string' || patternWords(entry).length === 0) {
+      errors.push(`Allowlist entry ${index + 1} is empty`);
+    } else if (entry.length > MAX_PATTERN_LENGTH) {
+      errors.push(`Allowlist entry ${index + 1} must be at most ${MAX_PATTERN_LENGTH} characters`);
+    }
+  });
+
+  return errors;
 }
 
 /**
- * Check text against a list of terms
+ * Blanks out allowlisted phrases, keeping positions intact
+ *
+ * @returns The raw and normalized text with allowlisted phrases replaced by spaces
  */
-function checkAgainstList(
+function maskAllowlisted(text: string, allowlist: RegExp[]): { raw: string; normalized: string } {
+  let raw = text;
+  let normalized = normalizeText(text);
+
+  for (const pattern of allowlist) {
+    const global = new RegExp(pattern.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = global.exec(normalized)) !== null) {
+      const blank = ' '.repeat(match[0].length);
+      const end = match.index + match[0].length;
+      raw = raw.slice(0, match.index) + blank + raw.slice(end);
+      normalized = normalized.slice(0, match.index) + blank + normalized.slice(end);
+    }
+  }
+
+  return { raw, normalized };
+}
+
+/**
+ * Check text against the filter's rules
+ */
+function checkAgainstRules(
   text: string,
-  terms: string[],
-  category: ContentViolation['category'],
-  severity: ContentViolation['severity'],
+  filter: CompiledContentFilter,
   location: ContentViolation['location']
 ): ContentViolation[] {
+  if (!text) return [];
+
   const violations: ContentViolation[] = [];
-  const normalized = normalizeText(text);
-  
-  for (const term of terms) {
-    const normalizedTerm = normalizeText(term);
-    
-    // Word boundary check for single words
-    if (!term.includes(' ')) {
-      const regex = new RegExp(`\\b${normalizedTerm}\\b`, 'i');
-      if (regex.test(normalized)) {
-        violations.push({
-          category,
-          matchedTerm: term,
-          location,
-          severity,
-          context: extractContext(text, term)
-        });
-      }
-    } else {
-      // Phrase check for multi-word terms
-      if (normalized.includes(normalizedTerm)) {
-        violations.push({
-          category,
-          matchedTerm: term,
-          location,
-          severity,
-          context: extractContext(text, term)
-        });
-      }
+  const { raw, normalized } = maskAllowlisted(text, filter.allowlist);
+
+  for (const { rule, regex } of filter.rules) {
+    // Regexes see the original text; words and phrases the normalized text
+    const match = regex.exec(rule.matchType === 'regex' ? raw : normalized);
+    if (match) {
+      violations.push({
+        category: rule.category,
+        matchedTerm: rule.pattern,
+        location,
+        severity: rule.severity,
+        context: extractContext(text, match.index, match[0].length),
+        ruleId: rule.id
+      });
     }
   }
-  
+
   return violations;
 }
 
 /**
  * Extract context around matched term
  */
-function extractContext(text: string, term: string, contextLength: number = 50): string {
-  const normalized = normalizeText(text);
-  const normalizedTerm = normalizeText(term);
-  const index = normalized.indexOf(normalizedTerm);
-  
-  if (index === -1) return '';
-  
+function extractContext(text: string, index: number, length: number, contextLength: number = 50): string {
   const start = Math.max(0, index - contextLength);
-  const end = Math.min(text.length, index + term.length + contextLength);
-  
+  const end = Math.min(text.length, index + length + contextLength);
+
   return '...' + text.substring(start, end) + '...';
 }
 
 /**
  * Main content filtering function
+ *
+ * @param title - Listing title
+ * @param description - Listing description
+ * @param filter - Compiled rule set; the built-in defaults when omitted
  */
-export function filterContent(title: string, description: string): ContentFilterResult {
-  const violations: ContentViolation[] = [];
-  
-  // Check title and description against all filter lists
-  Object.entries(FILTER_LISTS).forEach(([category, severityLists]) => {
-    Object.entries(severityLists).forEach(([severity, terms]) => {
-      if (terms.length === 0) return;
-      
-      // Check title
-      const titleViolations = checkAgainstList(
-        title,
-        terms,
-        category as ContentViolation['category'],
-        severity as ContentViolation['severity'],
-        'title'
-      );
-      violations.push(...titleViolations);
-      
-      // Check description
-      const descViolations = checkAgainstList(
-        description,
-        terms,
-        category as ContentViolation['category'],
-        severity as ContentViolation['severity'],
-        'description'
-      );
-      violations.push(...descViolations);
-    });
-  });
-  
+export function filterContent(
+  title: string,
+  description: string,
+  filter: CompiledContentFilter = DEFAULT_CONTENT_FILTER
+): ContentFilterResult {
+  const violations: ContentViolation[] = [
+    ...checkAgainstRules(title, filter, 'title'),
+    ...checkAgainstRules(description, filter, 'description'),
+  ];
+
   // Check for spam patterns
   if (hasExcessiveCaps(title) || hasExcessiveCaps(description)) {
     violations.push({
@@ -272,7 +466,7 @@ export function filterContent(title: string, description: string): ContentFilter
       severity: 'medium'
     });
   }
-  
+
   if (hasExcessiveRepetition(description)) {
     violations.push({
       category: 'spam',
@@ -281,18 +475,18 @@ export function filterContent(title: string, description: string): ContentFilter
       severity: 'medium'
     });
   }
-  
+
   // Determine overall severity
-  let overallSeverity: 'low' | 'medium' | 'high' = 'low';
+  let overallSeverity: ContentFilterSeverity = 'low';
   if (violations.some(v => v.severity === 'high')) {
     overallSeverity = 'high';
   } else if (violations.some(v => v.severity === 'medium')) {
     overallSeverity = 'medium';
   }
-  
+
   // Auto-flag if high severity or multiple violations
   const autoFlag = overallSeverity === 'high' || violations.length >= 3;
-  
+
   return {
     isClean: violations.length === 0,
     violations,
@@ -301,19 +495,76 @@ export function filterContent(title: string, description: string): ContentFilter
   };
 }
 
+/**
+ * Compares what two rule sets flag across a sample of listings
+ *
+ * @param listings - Listings to scan
+ * @param current - Rule set in use
+ * @param proposed - Edited rule set
+ * @returns ContentFilterDryRunResult - Listings whose outcome changes and hits per proposed rule
+ */
+export function dryRunContentFilter(
+  listings: Array<{ listingId: string; title: string; description: string }>,
+  current: CompiledContentFilter,
+  proposed: CompiledContentFilter
+): ContentFilterDryRunResult {
+  const summarize = (listing: { listingId: string; title: string }, violations: ContentViolation[]): ContentFilterDryRunListing => ({
+    listingId: listing.listingId,
+    title: listing.title,
+    categories: [...new Set(violations.map(v => v.category))],
+    matchedTerms: [...new Set(violations.map(v => v.matchedTerm))],
+  });
+
+  const result: ContentFilterDryRunResult = {
+    listingsScanned: listings.length,
+    currentVersion: current.version,
+    currentFlagged: 0,
+    proposedFlagged: 0,
+    newlyFlagged: [],
+    noLongerFlagged: [],
+    ruleHits: [],
+  };
+  const hits = new Map<string, number>();
+
+  for (const listing of listings) {
+    const before = filterContent(listing.title || '', listing.description || '', current);
+    const after = filterContent(listing.title || '', listing.description || '', proposed);
+
+    if (!before.isClean) result.currentFlagged++;
+    if (!after.isClean) result.proposedFlagged++;
+
+    if (before.isClean && !after.isClean) {
+      result.newlyFlagged.push(summarize(listing, after.violations));
+    } else if (!before.isClean && after.isClean) {
+      result.noLongerFlagged.push(summarize(listing, before.violations));
+    }
+
+    new Set(after.violations.flatMap(v => v.ruleId ? [v.ruleId] : [])).forEach(ruleId => {
+      hits.set(ruleId, (hits.get(ruleId) || 0) + 1);
+    });
+  }
+
+  result.ruleHits = proposed.rules
+    .filter(({ rule }) => hits.has(rule.id))
+    .map(({ rule }) => ({ ruleId: rule.id, pattern: rule.pattern, listings: hits.get(rule.id)! }))
+    .sort((a, b) => b.listings - a.listings);
+
+  return result;
+}
+
 /**
  * Generate flag reason from violations
  */
 export function generateFlagReason(violations: ContentViolation[]): string {
   if (violations.length === 0) return '';
-  
+
   const categories = [...new Set(violations.map(v => v.category))];
   const highSeverity = violations.filter(v => v.severity === 'high');
-  
+
   if (highSeverity.length > 0) {
     return `Listing contains ${highSeverity.length} high-severity content violation(s) in categories: ${categories.join(', ')}`;
   }
-  
+
   return `Listing flagged for potential ${categories.join(', ')} content violations`;
 }
 
@@ -324,7 +575,7 @@ export function getViolationSummary(violations: ContentViolation[]): string {
   const summary: string[] = [
     `Content Filter Report - ${violations.length} violation(s) detected:\n`
   ];
-  
+
   violations.forEach((v, i) => {
     summary.push(`${i + 1}. ${v.category.toUpperCase()} (${v.severity} severity)`);
     summary.push(`   Term: "${v.matchedTerm}"`);
@@ -334,6 +585,6 @@ export function getViolationSummary(violations: ContentViolation[]): string {
     }
     summary.push('');
   });
-  
+
   return summary.join('\n');
 }
@@ -62,7 +62,7 @@
 
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand, DeleteCommand, QueryCommand, ScanCommand, BatchWriteCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
-import { Listing, Engine, EnhancedListing, EnhancedUser, BillingAccount, Transaction, FinanceCalculation, ModerationWorkflow, UserCapability, UserTier, ModerationNotes, ContentFlag } from '@harborlist/shared-types';
+import { Listing, Engine, EnhancedListing, EnhancedUser, BillingAccount, Transaction, FinanceCalculation, ModerationWorkflow, UserCapability, UserTier, ModerationNotes, ContentFlag, DisputeCase, DisputeMessage } from '@harborlist/shared-types';
 
 /**
  * DynamoDB client configuration with regional settings
@@ -324,6 +324,46 @@ export class DatabaseService {
     }));
   }
 
+  /**
+   * Appends a content flag to a listing and bumps its flag count
+   *
+   * The append is a single atomic update, so concurrent reports never
+   * overwrite each other.
+   *
+   * @param listingId - Listing being flagged
+   * @param flag - Flag to append
+   * @param updates - Other fields to set with the flag
+   * @returns Promise<void> - Resolves when the flag is stored
+   *
+   * @throws {Error} When the listing does not exist
+   */
+  async addListingFlag(listingId: string, flag: ContentFlag, updates: Partial<Listing> = {}): Promise<void> {
+    const entries = Object.entries(updates).filter(([key, value]) =>
+      key !== 'listingId' && key !== 'flags' && key !== 'flagCount' && value !== undefined
+    );
+
+    await docClient.send(new UpdateCommand({
+      TableName: LISTINGS_TABLE,
+      Key: { listingId },
+      UpdateExpression: [
+        'SET flags = list_append(if_not_exists(flags, :empty), :flag)',
+        'flagCount = if_not_exists(flagCount, :zero) + :one',
+        ...entries.map(([key]) => `#${key} = :${key}`),
+      ].join(', '),
+      ExpressionAttributeNames: entries.length
+        ? Object.fromEntries(entries.map(([key]) => [`#${key}`, key]))
+        : undefined,
+      ExpressionAttributeValues: {
+        ':empty': [],
+        ':flag': [flag],
+        ':zero': 0,
+        ':one': 1,
+        ...Object.fromEntries(entries.map(([key, value]) => [`:${key}`, value])),
+      },
+      ConditionExpression: 'attribute_exists(listingId)',
+    }));
+  }
+
   /**
    * Permanently deletes a boat listing from the database
    * 
@@ -1550,6 +1590,50 @@ export class DatabaseService {
     };
   }
 
+  /**
+   * Retrieves completed transactions created within a date range
+   * 
+   * Scans the transactions table page by page, so it returns every
+   * matching transaction. Intended for periodic reports such as the
+   * sales tax liability report.
+   * 
+   * @param start - Range start (ISO timestamp, inclusive)
+   * @param end - Range end (ISO timestamp, inclusive)
+   * @returns Promise<Transaction[]> - Completed transactions in the range
+   * 
+   * @example
+   * ```typescript
+   * const transactions = await db.getCompletedTransactionsInRange(
+   *   '2024-01-01T00:00:00.000Z',
+   *   '2024-03-31T23:59:59.999Z'
+   * );
+   * ```
+   */
+  async getCompletedTransactionsInRange(start: string, end: string): Promise<Transaction[]> {
+    const transactions: Transaction[] = [];
+    let lastKey: Record<string, any> | undefined;
+
+    do {
+      const result = await docClient.send(new ScanCommand({
+        TableName: TRANSACTIONS_TABLE,
+        FilterExpression: 'createdAt BETWEEN :startDate AND :endDate AND #status = :status',
+        ExpressionAttributeNames: {
+          '#status': 'status'
+        },
+        ExpressionAttributeValues: {
+          ':startDate': start,
+          ':endDate': end,
+          ':status': 'completed'
+        },
+        ExclusiveStartKey: lastKey,
+      }));
+      transactions.push(...(result.Items as Transaction[] || []));
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return transactions;
+  }
+
   /**
    * Aggregates financial reporting data
    * 
@@ -1866,28 +1950,56 @@ export class DatabaseService {
    * 
    * @param queueId - Unique identifier for the queue item
    * @param moderatorId - ID of the moderator to assign
+   * @param options - expectedAssignee only assigns an open item still held by that moderator
+   *   (null: still unassigned); startReview: false routes the item without starting its review
    * @returns Promise<void> - Resolves when assignment is complete
    * 
    * @throws {Error} When assignment fails or moderator is unavailable
+   *   (ConditionalCheckFailedException when expectedAssignee no longer matches)
    * 
    * @example
    * ```typescript
    * await db.assignModerator('queue-123', 'moderator-456');
    * ```
    */
-  async assignModerator(queueId: string, moderatorId: string): Promise<void> {
+  async assignModerator(
+    queueId: string,
+    moderatorId: string,
+    options: { expectedAssignee?: string | null; startReview?: boolean } = {}
+  ): Promise<void> {
+    const updateExpression = ['assignedTo = :moderatorId', 'updatedAt = :updatedAt'];
+    const expressionAttributeNames: Record<string, string> = {};
+    const expressionAttributeValues: Record<string, any> = {
+      ':moderatorId': moderatorId,
+      ':updatedAt': Date.now()
+    };
+
+    if (options.startReview !== false) {
+      updateExpression.push('#status = :status');
+      expressionAttributeNames['#status'] = 'status';
+      expressionAttributeValues[':status'] = 'in_review';
+    }
+
+    let conditionExpression: string | undefined;
+    if (options.expectedAssignee !== undefined) {
+      expressionAttributeNames['#status'] = 'status';
+      expressionAttributeValues[':pending'] = 'pending';
+      expressionAttributeValues[':inReview'] = 'in_review';
+      if (options.expectedAssignee === null) {
+        conditionExpression = 'attribute_not_exists(assignedTo) AND #status IN (:pending, :inReview)';
+      } else {
+        conditionExpression = 'assignedTo = :expectedAssignee AND #status IN (:pending, :inReview)';
+        expressionAttributeValues[':expectedAssignee'] = options.expectedAssignee;
+      }
+    }
+
     await docClient.send(new UpdateCommand({
       TableName: MODERATION_QUEUE_TABLE,
       Key: { id: queueId },
-      UpdateExpression: 'SET assignedTo = :moderatorId, #status = :status, updatedAt = :updatedAt',
-      ExpressionAttributeNames: {
-        '#status': 'status'
-      },
-      ExpressionAttributeValues: {
-        ':moderatorId': moderatorId,
-        ':status': 'in_review',
-        ':updatedAt': Date.now()
-      },
+      UpdateExpression: `SET ${updateExpression.join(', ')}`,
+      ...(Object.keys(expressionAttributeNames).length > 0 && { ExpressionAttributeNames: expressionAttributeNames }),
+      ExpressionAttributeValues: expressionAttributeValues,
+      ...(conditionExpression && { ConditionExpression: conditionExpression }),
     }));
   }
 
@@ -2065,6 +2177,59 @@ export class DatabaseService {
     };
   }
 
+  /**
+   * Retrieves a moderation queue item
+   *
+   * @param queueId - Unique identifier for the queue item
+   * @returns Promise<ModerationWorkflow | null> - The item, or null if it does not exist
+   */
+  async getModerationItem(queueId: string): Promise<ModerationWorkflow | null> {
+    const result = await docClient.send(new GetCommand({
+      TableName: MODERATION_QUEUE_TABLE,
+      Key: { id: queueId },
+    }));
+
+    return (result.Item as ModerationWorkflow) || null;
+  }
+
+  /**
+   * Retrieves every moderation queue item in a status
+   *
+   * Reads all pages of the status index, optionally only items submitted
+   * since a point in time.
+   *
+   * @param status - Queue item status
+   * @param submittedSince - Only items submitted at or after this time (milliseconds)
+   * @returns Promise<ModerationWorkflow[]> - Matching items, oldest first
+   */
+  async getModerationItemsByStatus(
+    status: ModerationWorkflow['status'],
+    submittedSince?: number
+  ): Promise<ModerationWorkflow[]> {
+    const items: ModerationWorkflow[] = [];
+    let lastKey: Record<string, any> | undefined;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: MODERATION_QUEUE_TABLE,
+        IndexName: 'StatusIndex',
+        KeyConditionExpression: submittedSince !== undefined
+          ? '#status = :status AND submittedAt >= :since'
+          : '#status = :status',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':status': status,
+          ...(submittedSince !== undefined && { ':since': submittedSince }),
+        },
+        ExclusiveStartKey: lastKey,
+      }));
+      items.push(...((result.Items as ModerationWorkflow[]) || []));
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return items;
+  }
+
   /**
    * Retrieves moderation history for a listing
    * 
@@ -2257,6 +2422,35 @@ export class DatabaseService {
     }));
   }
 
+  /**
+   * Adds a flag to an open moderation queue item and sets its priority
+   *
+   * @param queueId - Unique identifier for the queue item
+   * @param flag - Flag to append
+   * @param priority - Priority after the flag
+   * @param dueDate - Due date after the flag, when the higher priority brings it forward
+   * @returns Promise<void> - Resolves when the item is updated
+   */
+  async addModerationFlag(
+    queueId: string,
+    flag: ContentFlag,
+    priority: 'low' | 'medium' | 'high' | 'urgent',
+    dueDate?: number
+  ): Promise<void> {
+    await docClient.send(new UpdateCommand({
+      TableName: MODERATION_QUEUE_TABLE,
+      Key: { id: queueId },
+      UpdateExpression: `SET flags = list_append(if_not_exists(flags, :empty), :flag), priority = :priority, updatedAt = :updatedAt${dueDate !== undefined ? ', dueDate = :dueDate' : ''}`,
+      ExpressionAttributeValues: {
+        ':empty': [],
+        ':flag': [flag],
+        ':priority': priority,
+        ':updatedAt': Date.now(),
+        ...(dueDate !== undefined && { ':dueDate': dueDate }),
+      },
+    }));
+  }
+
   // ========================================
   // Finance Calculation Database Operations
   // ========================================
@@ -2782,6 +2976,374 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Creates a payment failure record
+   * 
+   * @param paymentFailure - Payment failure to create
+   * @returns Promise<void> - Resolves when the record is created
+   */
+  async createPaymentFailure(paymentFailure: any): Promise<void> {
+    await docClient.send(new PutCommand({
+      TableName: this.getTableName('PAYMENT_FAILURES'),
+      Item: paymentFailure,
+      ConditionExpression: 'attribute_not_exists(failureId)',
+    }));
+  }
+
+  /**
+   * Gets a payment failure by ID
+   * 
+   * @param failureId - Payment failure ID
+   * @returns Promise<any | null> - Payment failure or null if not found
+   */
+  async getPaymentFailure(failureId: string): Promise<any | null> {
+    const result = await docClient.send(new GetCommand({
+      TableName: this.getTableName('PAYMENT_FAILURES'),
+      Key: { failureId },
+    }));
+
+    return result.Item || null;
+  }
+
+  /**
+   * Updates a payment failure record
+   * 
+   * @param failureId - Payment failure ID
+   * @param updates - Fields to update
+   * @returns Promise<void> - Resolves when the record is updated
+   */
+  async updatePaymentFailure(failureId: string, updates: Record<string, any>): Promise<void> {
+    const entries = Object.entries(updates).filter(([key]) => key !== 'failureId');
+    if (entries.length === 0) return;
+
+    await docClient.send(new UpdateCommand({
+      TableName: this.getTableName('PAYMENT_FAILURES'),
+      Key: { failureId },
+      UpdateExpression: `SET ${entries.map(([key]) => `#${key} = :${key}`).join(', ')}`,
+      ExpressionAttributeNames: Object.fromEntries(entries.map(([key]) => [`#${key}`, key])),
+      ExpressionAttributeValues: Object.fromEntries(entries.map(([key, value]) => [`:${key}`, value])),
+      ConditionExpression: 'attribute_exists(failureId)',
+    }));
+  }
+
+  /**
+   * Gets unresolved payment failures whose next retry is due
+   * 
+   * @param now - Current time in milliseconds
+   * @returns Promise<any[]> - Payment failures due for retry
+   */
+  async getPaymentFailuresDueForRetry(now: number): Promise<any[]> {
+    const failures: any[] = [];
+    let lastKey: Record<string, any> | undefined;
+
+    do {
+      const result = await docClient.send(new ScanCommand({
+        TableName: this.getTableName('PAYMENT_FAILURES'),
+        FilterExpression: 'resolved = :resolved AND nextRetryAt <= :now',
+        ExpressionAttributeValues: {
+          ':resolved': false,
+          ':now': now,
+        },
+        ExclusiveStartKey: lastKey,
+      }));
+      failures.push(...(result.Items || []));
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return failures;
+  }
+
+  /**
+   * Creates a dispute case record
+   * 
+   * @param disputeCase - Dispute case to create
+   * @returns Promise<void> - Resolves when the record is created
+   */
+  async createDisputeCase(disputeCase: any): Promise<void> {
+    await docClient.send(new PutCommand({
+      TableName: this.getTableName('DISPUTES'),
+      Item: disputeCase,
+      ConditionExpression: 'attribute_not_exists(disputeId)',
+    }));
+  }
+
+  /**
+   * Stores the resolution workflow on its dispute case
+   * 
+   * @param workflow - Dispute workflow (references the dispute by disputeId)
+   * @returns Promise<void> - Resolves when the workflow is stored
+   */
+  async createDisputeWorkflow(workflow: any): Promise<void> {
+    await docClient.send(new UpdateCommand({
+      TableName: this.getTableName('DISPUTES'),
+      Key: { disputeId: workflow.disputeId },
+      UpdateExpression: 'SET workflow = :workflow',
+      ExpressionAttributeValues: { ':workflow': workflow },
+      ConditionExpression: 'attribute_exists(disputeId)',
+    }));
+  }
+
+  /**
+   * Appends evidence to a dispute case
+   * 
+   * @param disputeId - Dispute case ID
+   * @param evidence - Evidence record to append
+   * @returns Promise<void> - Resolves when the evidence is stored
+   */
+  async addDisputeEvidence(disputeId: string, evidence: any): Promise<void> {
+    await docClient.send(new UpdateCommand({
+      TableName: this.getTableName('DISPUTES'),
+      Key: { disputeId },
+      UpdateExpression: 'SET evidenceSubmitted = list_append(if_not_exists(evidenceSubmitted, :empty), :evidence)',
+      ExpressionAttributeValues: { ':empty': [], ':evidence': [evidence] },
+      ConditionExpression: 'attribute_exists(disputeId)',
+    }));
+  }
+
+  /**
+   * Gets a dispute case
+   *
+   * @param disputeId - Dispute case ID
+   * @returns Promise<DisputeCase | null> - Dispute case or null if not found
+   */
+  async getDisputeCase(disputeId: string): Promise<DisputeCase | null> {
+    const result = await docClient.send(new GetCommand({
+      TableName: this.getTableName('DISPUTES'),
+      Key: { disputeId },
+    }));
+
+    return (result.Item as DisputeCase) || null;
+  }
+
+  /**
+   * Updates a dispute case with partial data
+   *
+   * @param disputeId - Dispute case ID
+   * @param updates - Fields to update
+   * @returns Promise<void> - Resolves when the dispute case is updated
+   */
+  async updateDisputeCase(disputeId: string, updates: Partial<DisputeCase>): Promise<void> {
+    const entries = Object.entries(updates).filter(([key, value]) => key !== 'disputeId' && value !== undefined);
+    if (entries.length === 0) return;
+
+    await docClient.send(new UpdateCommand({
+      TableName: this.getTableName('DISPUTES'),
+      Key: { disputeId },
+      UpdateExpression: `SET ${entries.map(([key]) => `#${key} = :${key}`).join(', ')}`,
+      ExpressionAttributeNames: Object.fromEntries(entries.map(([key]) => [`#${key}`, key])),
+      ExpressionAttributeValues: Object.fromEntries(entries.map(([key, value]) => [`:${key}`, value])),
+      ConditionExpression: 'attribute_exists(disputeId)',
+    }));
+  }
+
+  /**
+   * Appends a message to a dispute case conversation
+   *
+   * @param disputeId - Dispute case ID
+   * @param message - Message to append
+   * @param updates - Other fields to set with the message (status, SLA)
+   * @returns Promise<void> - Resolves when the message is stored
+   */
+  async addDisputeMessage(disputeId: string, message: DisputeMessage, updates: Partial<DisputeCase> = {}): Promise<void> {
+    const entries = Object.entries(updates).filter(([key, value]) => key !== 'disputeId' && key !== 'messages' && value !== undefined);
+
+    await docClient.send(new UpdateCommand({
+      TableName: this.getTableName('DISPUTES'),
+      Key: { disputeId },
+      UpdateExpression: [
+        'SET messages = list_append(if_not_exists(messages, :empty), :message)',
+        ...entries.map(([key]) => `#${key} = :${key}`),
+      ].join(', '),
+      ExpressionAttributeNames: entries.length
+        ? Object.fromEntries(entries.map(([key]) => [`#${key}`, key]))
+        : undefined,
+      ExpressionAttributeValues: {
+        ':empty': [],
+        ':message': [message],
+        ...Object.fromEntries(entries.map(([key, value]) => [`:${key}`, value])),
+      },
+      ConditionExpression: 'attribute_exists(disputeId)',
+    }));
+  }
+
+  /**
+   * Gets a customer's dispute cases, newest first
+   *
+   * @param userId - Customer user ID
+   * @returns Promise<DisputeCase[]> - The customer's dispute cases
+   */
+  async getDisputeCasesByUser(userId: string): Promise<DisputeCase[]> {
+    const cases: DisputeCase[] = [];
+    let lastKey: Record<string, any> | undefined;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: this.getTableName('DISPUTES'),
+        IndexName: 'user-index',
+        KeyConditionExpression: 'userId = :userId',
+        ExpressionAttributeValues: { ':userId': userId },
+        ScanIndexForward: false,
+        ExclusiveStartKey: lastKey,
+      }));
+      cases.push(...((result.Items || []) as DisputeCase[]));
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return cases;
+  }
+
+  /**
+   * Gets all dispute cases, optionally with one dispute status
+   *
+   * @param disputeStatus - Dispute status to filter by
+   * @returns Promise<DisputeCase[]> - Matching dispute cases
+   */
+  async getDisputeCases(disputeStatus?: DisputeCase['disputeStatus']): Promise<DisputeCase[]> {
+    const cases: DisputeCase[] = [];
+    let lastKey: Record<string, any> | undefined;
+
+    do {
+      const result = await docClient.send(new ScanCommand({
+        TableName: this.getTableName('DISPUTES'),
+        ...(disputeStatus && {
+          FilterExpression: 'disputeStatus = :disputeStatus',
+          ExpressionAttributeValues: { ':disputeStatus': disputeStatus },
+        }),
+        ExclusiveStartKey: lastKey,
+      }));
+      cases.push(...((result.Items || []) as DisputeCase[]));
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return cases;
+  }
+
+  /**
+   * Finds a transaction by the payment processor's ID for it
+   * 
+   * Webhooks identify payments by the processor's ID (a Stripe payment
+   * intent, a PayPal capture), so this is how webhook events are matched
+   * to our transaction records.
+   * 
+   * @param processorTransactionId - Processor payment ID
+   * @returns Promise<Transaction | null> - Transaction or null if not found
+   */
+  async getTransactionByProcessorId(processorTransactionId: string): Promise<Transaction | null> {
+    let lastKey: Record<string, any> | undefined;
+
+    do {
+      const result = await docClient.send(new ScanCommand({
+        TableName: this.getTableName('TRANSACTIONS'),
+        FilterExpression: 'processorTransactionId = :processorTransactionId',
+        ExpressionAttributeValues: { ':processorTransactionId': processorTransactionId },
+        ExclusiveStartKey: lastKey,
+      }));
+      if (result.Items && result.Items.length > 0) {
+        return result.Items[0] as Transaction;
+      }
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return null;
+  }
+
+  /**
+   * Updates a transaction with partial data
+   * 
+   * @param id - Transaction record ID
+   * @param updates - Fields to update
+   * @returns Promise<void> - Resolves when the transaction is updated
+   */
+  async updateTransaction(id: string, updates: Partial<Transaction>): Promise<void> {
+    const entries = Object.entries(updates).filter(([key]) => key !== 'id');
+    if (entries.length === 0) return;
+
+    await docClient.send(new UpdateCommand({
+      TableName: this.getTableName('TRANSACTIONS'),
+      Key: { id },
+      UpdateExpression: `SET ${entries.map(([key]) => `#${key} = :${key}`).join(', ')}`,
+      ExpressionAttributeNames: Object.fromEntries(entries.map(([key]) => [`#${key}`, key])),
+      ExpressionAttributeValues: Object.fromEntries(entries.map(([key, value]) => [`:${key}`, value])),
+    }));
+  }
+
+  /**
+   * Finds the billing account for a payment processor customer
+   * 
+   * @param customerId - Processor customer ID
+   * @returns Promise<BillingAccount | null> - Billing account or null if not found
+   */
+  async getBillingAccountByCustomerId(customerId: string): Promise<BillingAccount | null> {
+    return this.findBillingAccount('customerId', customerId);
+  }
+
+  /**
+   * Finds the billing account for a payment processor subscription
+   * 
+   * @param subscriptionId - Processor subscription ID
+   * @returns Promise<BillingAccount | null> - Billing account or null if not found
+   */
+  async getBillingAccountBySubscription(subscriptionId: string): Promise<BillingAccount | null> {
+    return this.findBillingAccount('subscriptionId', subscriptionId);
+  }
+
+  /**
+   * Gets the record of a processed webhook event
+   * 
+   * @param eventId - Processor event ID
+   * @param processorType - Processor that sent the event
+   * @returns Promise<any | null> - Processed event or null if it has not been seen
+   */
+  async getProcessedWebhookEvent(eventId: string, processorType: string): Promise<any | null> {
+    const result = await docClient.send(new GetCommand({
+      TableName: this.getTableName('WEBHOOK_EVENTS'),
+      Key: { eventId, processorType },
+    }));
+
+    return result.Item || null;
+  }
+
+  /**
+   * Records a processed webhook event so redeliveries are skipped
+   * 
+   * Records expire after 30 days; processors stop redelivering well before then.
+   * 
+   * @param processedEvent - Processed event record
+   * @returns Promise<void> - Resolves when the record is stored
+   */
+  async createProcessedWebhookEvent(processedEvent: any): Promise<void> {
+    await docClient.send(new PutCommand({
+      TableName: this.getTableName('WEBHOOK_EVENTS'),
+      Item: {
+        ...processedEvent,
+        expiresAt: Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60,
+      },
+    }));
+  }
+
+  /**
+   * Scans billing accounts for the first one with an attribute value
+   */
+  private async findBillingAccount(attribute: 'customerId' | 'subscriptionId', value: string): Promise<BillingAccount | null> {
+    let lastKey: Record<string, any> | undefined;
+
+    do {
+      const result = await docClient.send(new ScanCommand({
+        TableName: this.getTableName('BILLING_ACCOUNTS'),
+        FilterExpression: '#attribute = :value',
+        ExpressionAttributeNames: { '#attribute': attribute },
+        ExpressionAttributeValues: { ':value': value },
+        ExclusiveStartKey: lastKey,
+      }));
+      if (result.Items && result.Items.length > 0) {
+        return result.Items[0] as BillingAccount;
+      }
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return null;
+  }
+
   /**
    * Gets table name with environment prefix
    * 
@@ -2793,6 +3355,9 @@ export class DatabaseService {
       'PAYMENT_METHODS': process.env.PAYMENT_METHODS_TABLE || 'harborlist-payment-methods',
       'BILLING_ACCOUNTS': process.env.BILLING_ACCOUNTS_TABLE || 'harborlist-billing-accounts',
       'TRANSACTIONS': process.env.TRANSACTIONS_TABLE || 'harborlist-transactions',
+      'PAYMENT_FAILURES': process.env.PAYMENT_FAILURES_TABLE || 'harborlist-payment-failures',
+      'DISPUTES': process.env.DISPUTES_TABLE || 'harborlist-disputes',
+      'WEBHOOK_EVENTS': process.env.WEBHOOK_EVENTS_TABLE || 'harborlist-webhook-events',
     };
 
     return tableNames[tableType] || tableType;
@@ -2844,6 +3409,7 @@ export const db = new DatabaseService();
  * - createListing(listing): Create new boat listing
  * - getListing(listingId): Retrieve listing by ID
  * - updateListing(listingId, updates): Update existing listing
+ * - addListingFlag(listingId, flag, updates): Append a content flag and bump flagCount
  * - deleteListing(listingId): Delete listing
  * - getListingsByOwner(ownerId): Get all listings for owner
  * - getListings(limit, lastKey): Get paginated active listings
@@ -2883,16 +3449,22 @@ export const db = new DatabaseService();
  * - getFinancialReportingData(dateRange, groupBy): Generate financial reports
  * - updateBillingAccountStatus(billingId, status, reason): Update account status
  * - getBillingAccountsByStatus(status, limit, lastKey): Get accounts by status
+ * - getDisputeCase(disputeId) / updateDisputeCase(disputeId, updates): Read and update a dispute case
+ * - addDisputeMessage(disputeId, message, updates): Append to a case conversation
+ * - getDisputeCasesByUser(userId) / getDisputeCases(status): Customer and staff case lists
  * 
  * MODERATION WORKFLOW OPERATIONS:
  * - createModerationQueue(moderationWorkflow): Add item to moderation queue
- * - assignModerator(queueId, moderatorId): Assign moderator to queue item
+ * - assignModerator(queueId, moderatorId, options): Assign moderator to queue item, optionally only if unchanged
  * - updateModerationStatus(queueId, status, moderationNotes): Update moderation decision
  * - getModerationQueue(filters, limit, lastKey): Get moderation queue with filters
+ * - getModerationItem(queueId): Get a queue item
+ * - getModerationItemsByStatus(status, submittedSince): Get all queue items in a status
  * - getModerationHistory(listingId): Get moderation history for listing
  * - createModerationAuditTrail(queueId, action, reviewerId, details): Create audit record
  * - getModerationStatistics(dateRange): Get moderation metrics
  * - escalateModerationItem(queueId, escalatedBy, reason, newPriority): Escalate item
+ * - addModerationFlag(queueId, flag, priority, dueDate): Add a flag to an open item and re-prioritize it
  * 
  * FINANCE CALCULATION OPERATIONS:
  * - createFinanceCalculation(calculation): Create new finance calculation
@@ -21,9 +21,52 @@ interface EmailOptions {
   html: string;
   text: string;
   from?: string;
+  replyTo?: string;
   tags?: { Name: string; Value: string }[];
 }
 
+/**
+ * One saved search section of a new-match digest email
+ */
+export interface SavedSearchDigestEntry {
+  searchName: string;
+  searchUrl: string;
+  totalMatches: number;
+  listings: Array<{
+    title: string;
+    price: number;
+    location: string;
+    url: string;
+  }>;
+}
+
+/**
+ * Message relayed by email to the other participant of a conversation
+ */
+export interface MessageRelayEmail {
+  senderName: string;
+  listingTitle: string;
+  body: string;
+  attachmentCount: number;
+  threadUrl: string;
+  /** Masked relay address that posts replies back into the conversation */
+  replyTo: string;
+  /** True for the first message of a conversation */
+  isNewConversation: boolean;
+}
+
+/**
+ * Escapes user-provided text for inclusion in HTML email bodies
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 /**
  * Email service class that handles both SMTP and SES
  */
@@ -102,6 +145,7 @@ export class EmailService {
     const mailOptions = {
       from: options.from || this.fromEmail,
       to: options.to,
+      replyTo: options.replyTo,
       subject: options.subject,
       text: options.text,
       html: options.html,
@@ -129,6 +173,7 @@ export class EmailService {
       Destination: {
         ToAddresses: [options.to],
       },
+      ...(options.replyTo && { ReplyToAddresses: [options.replyTo] }),
       Message: {
         Subject: {
           Data: options.subject,
@@ -366,6 +411,198 @@ This email was sent to ${email}
       ],
     });
   }
+
+  /**
+   * Send new listing matches for a user's saved searches
+   *
+   * @param email - Recipient email address
+   * @param name - Recipient display name
+   * @param entries - One section per saved search with new matches
+   * @param frequency - Whether this is an instant alert or the daily digest
+   */
+  async sendSavedSearchDigestEmail(
+    email: string,
+    name: string,
+    entries: SavedSearchDigestEntry[],
+    frequency: 'instant' | 'daily'
+  ): Promise<void> {
+    const frontendUrl = process.env.FRONTEND_URL || 'https://harborlist.com';
+    const totalMatches = entries.reduce((sum, entry) => sum + entry.totalMatches, 0);
+    const formatPrice = (price: number) => `$${price.toLocaleString('en-US')}`;
+
+    const subject = frequency === 'daily'
+      ? `Your daily HarborList digest: ${totalMatches} new ${totalMatches === 1 ? 'boat' : 'boats'}`
+      : entries.length === 1
+        ? `New ${entries[0].totalMatches === 1 ? 'boat matches' : 'boats match'} "${entries[0].searchName}"`
+        : `${totalMatches} new boats match your saved searches`;
+
+    const htmlSections = entries.map(entry => `
+            <div style="margin-bottom: 30px;">
+              <h3 style="color: #1e40af; margin-bottom: 10px;">
+                ${escapeHtml(entry.searchName)}
+                <span style="font-size: 14px; color: #64748b; font-weight: normal;">(${entry.totalMatches} new)</span>
+              </h3>
+              ${entry.listings.map(listing => `
+              <div style="border: 1px solid #e2e8f0; border-radius: 8px; padding: 15px; margin-bottom: 10px;">
+                <a href="${listing.url}" style="color: #1e293b; font-weight: bold; font-size: 16px; text-decoration: none;">${escapeHtml(listing.title)}</a>
+                <p style="margin: 5px 0 0 0; font-size: 14px; color: #475569;">
+                  ${formatPrice(listing.price)} &middot; ${escapeHtml(listing.location)}
+                </p>
+              </div>`).join('')}
+              ${entry.totalMatches > entry.listings.length ? `
+              <p style="font-size: 14px; margin: 10px 0 0 0;">
+                <a href="${entry.searchUrl}" style="color: #2563eb;">See all ${entry.totalMatches} matches</a>
+              </p>` : ''}
+            </div>`).join('');
+
+    const htmlBody = `
+      <html>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto;">
+          <div style="background: #1e40af; padding: 40px 20px; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 28px;">New Boats For You</h1>
+            <p style="color: #bfdbfe; margin: 10px 0 0 0; font-size: 16px;">Matches for your saved searches</p>
+          </div>
+          
+          <div style="padding: 40px 20px;">
+            <h2 style="color: #333; margin-bottom: 20px;">Hi ${escapeHtml(name)},</h2>
+            
+            <p style="font-size: 16px; margin-bottom: 25px;">
+              ${frequency === 'daily' ? 'Here are the boats listed in the last day' : 'These boats were just listed'} that match your saved searches.
+            </p>
+            ${htmlSections}
+          </div>
+          
+          <div style="background-color: #f1f5f9; padding: 20px; text-align: center; border-top: 1px solid #e2e8f0;">
+            <p style="font-size: 12px; color: #64748b; margin: 0;">
+              You can change how often you receive these emails on your
+              <a href="${frontendUrl}/saved-searches" style="color: #64748b;">saved searches</a> page.<br>
+              © ${new Date().getFullYear()} HarborList. All rights reserved.<br>
+              This email was sent to ${email}
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const textSections = entries.map(entry => [
+      `${entry.searchName} (${entry.totalMatches} new)`,
+      ...entry.listings.map(listing => `- ${listing.title} - ${formatPrice(listing.price)} - ${listing.location}\n  ${listing.url}`),
+      ...(entry.totalMatches > entry.listings.length ? [`See all ${entry.totalMatches} matches: ${entry.searchUrl}`] : []),
+    ].join('\n')).join('\n\n');
+
+    const textBody = `
+New Boats For You - HarborList
+
+Hi ${name},
+
+${frequency === 'daily' ? 'Here are the boats listed in the last day' : 'These boats were just listed'} that match your saved searches.
+
+${textSections}
+
+Manage your saved searches: ${frontendUrl}/saved-searches
+
+© ${new Date().getFullYear()} HarborList. All rights reserved.
+This email was sent to ${email}
+    `;
+
+    await this.sendEmail({
+      to: email,
+      subject,
+      html: htmlBody,
+      text: textBody,
+      tags: [
+        {
+          Name: 'MessageType',
+          Value: frequency === 'daily' ? 'SavedSearchDailyDigest' : 'SavedSearchInstantAlert',
+        },
+      ],
+    });
+  }
+
+  /**
+   * Send a conversation message to the other participant by email
+   *
+   * The reply-to address is a masked relay address, so neither participant's
+   * real email address is exposed and replies land back in the conversation.
+   *
+   * @param email - Recipient email address
+   * @param name - Recipient display name
+   * @param relay - Message to relay
+   */
+  async sendMessageRelayEmail(email: string, name: string, relay: MessageRelayEmail): Promise<void> {
+    const subject = relay.isNewConversation
+      ? `New inquiry about ${relay.listingTitle}`
+      : `Re: ${relay.listingTitle}`;
+    const attachmentNote = relay.attachmentCount > 0
+      ? `${relay.attachmentCount} ${relay.attachmentCount === 1 ? 'attachment' : 'attachments'} - view ${relay.attachmentCount === 1 ? 'it' : 'them'} in the conversation.`
+      : '';
+
+    const htmlBody = `
+      <html>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto;">
+          <div style="padding: 40px 20px;">
+            <h2 style="color: #333; margin-bottom: 20px;">Hi ${escapeHtml(name)},</h2>
+
+            <p style="font-size: 16px; margin-bottom: 20px;">
+              ${escapeHtml(relay.senderName)} sent you a message about <strong>${escapeHtml(relay.listingTitle)}</strong>:
+            </p>
+
+            <div style="background-color: #f8fafc; border-left: 4px solid #2563eb; padding: 15px; margin: 20px 0;">
+              <p style="margin: 0;">${escapeHtml(relay.body).replace(/\n/g, '<br>')}</p>
+              ${attachmentNote ? `<p style="margin: 10px 0 0 0; font-size: 14px; color: #64748b;">📎 ${attachmentNote}</p>` : ''}
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${relay.threadUrl}"
+                 style="background-color: #2563eb; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">
+                View Conversation
+              </a>
+            </div>
+
+            <p style="font-size: 14px; color: #64748b;">
+              You can reply to this email directly. Your email address stays private.
+            </p>
+          </div>
+
+          <div style="background-color: #f1f5f9; padding: 20px; text-align: center; border-top: 1px solid #e2e8f0;">
+            <p style="font-size: 12px; color: #64748b; margin: 0;">
+              © ${new Date().getFullYear()} HarborList. All rights reserved.<br>
+              This email was sent to ${email}
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const textBody = `
+Hi ${name},
+
+${relay.senderName} sent you a message about ${relay.listingTitle}:
+
+${relay.body}
+${attachmentNote ? `\n${attachmentNote}\n` : ''}
+View the conversation: ${relay.threadUrl}
+
+You can reply to this email directly. Your email address stays private.
+
+© ${new Date().getFullYear()} HarborList. All rights reserved.
+This email was sent to ${email}
+    `;
+
+    await this.sendEmail({
+      to: email,
+      replyTo: relay.replyTo,
+      subject,
+      html: htmlBody,
+      text: textBody,
+      tags: [
+        {
+          Name: 'MessageType',
+          Value: relay.isNewConversation ? 'ListingInquiry' : 'ConversationMessage',
+        },
+      ],
+    });
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Storage for image hashes and listing fingerprints.
+ *
+ * Three tables back duplicate detection:
+ * - Image hashes: perceptual hash of each uploaded photo, keyed by its S3
+ *   key and written by the media service once the upload is processed
+ * - Listing fingerprints: one item per listing with its hashes, MinHash
+ *   signature, HIN and manufacturer/model/year key
+ * - Fingerprint buckets: locality-sensitive hash buckets (partition key)
+ *   and the listings in each (sort key), for finding candidate duplicates
+ *   without scanning every listing
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { ListingFingerprint } from './fingerprints';
+
+// Initialize DynamoDB client
+const dynamoDbClient = new DynamoDBClient({
+  region: process.env.AWS_REGION || 'us-east-1',
+  ...(process.env.DYNAMODB_ENDPOINT && {
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  }),
+});
+
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+    convertEmptyValues: false,
+  },
+});
+
+// Table names
+const IMAGE_HASHES_TABLE = process.env.IMAGE_HASHES_TABLE || 'harborlist-image-hashes';
+const LISTING_FINGERPRINTS_TABLE = process.env.LISTING_FINGERPRINTS_TABLE || 'harborlist-listing-fingerprints';
+const FINGERPRINT_BUCKETS_TABLE = process.env.FINGERPRINT_BUCKETS_TABLE || 'harborlist-fingerprint-buckets';
+
+const BATCH_GET_SIZE = 100;
+const BATCH_WRITE_SIZE = 25;
+
+/**
+ * Listings read per bucket; a bucket this crowded says little about any one listing
+ */
+const MAX_BUCKET_LISTINGS = 50;
+
+/**
+ * A listing found in a fingerprint bucket
+ */
+export interface BucketEntry {
+  bucket: string;
+  listingId: string;
+  ownerId: string;
+}
+
+/**
+ * Stores the perceptual hash of an uploaded photo
+ *
+ * @param imageKey - S3 key of the original upload (`<userId>/<fileId>`)
+ * @param hash - Perceptual hash
+ * @param ownerId - Uploader
+ */
+export async function saveImageHash(imageKey: string, hash: string, ownerId: string): Promise<void> {
+  await docClient.send(new PutCommand({
+    TableName: IMAGE_HASHES_TABLE,
+    Item: { imageKey, hash, ownerId, createdAt: Date.now() },
+  }));
+}
+
+/**
+ * Retrieves the perceptual hashes of photos
+ *
+ * Photos still being processed have no hash yet and are left out.
+ *
+ * @param imageKeys - S3 keys of the photos
+ * @returns Promise<Map<string, string>> - Hash by S3 key
+ */
+export async function getImageHashes(imageKeys: string[]): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+  const keys = [...new Set(imageKeys)];
+
+  for (let i = 0; i < keys.length; i += BATCH_GET_SIZE) {
+    const batch = keys.slice(i, i + BATCH_GET_SIZE);
+    const result = await docClient.send(new BatchGetCommand({
+      RequestItems: {
+        [IMAGE_HASHES_TABLE]: {
+          Keys: batch.map(imageKey => ({ imageKey })),
+          ProjectionExpression: 'imageKey, #hash',
+          ExpressionAttributeNames: { '#hash': 'hash' },
+        },
+      },
+    }));
+    for (const item of result.Responses?.[IMAGE_HASHES_TABLE] || []) {
+      hashes.set(item.imageKey, item.hash);
+    }
+  }
+
+  return hashes;
+}
+
+/**
+ * Retrieves a listing's fingerprint
+ *
+ * @param listingId - Listing ID
+ * @returns Promise<ListingFingerprint | null> - Fingerprint, or null if the listing has none
+ */
+export async function getListingFingerprint(listingId: string): Promise<ListingFingerprint | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: LISTING_FINGERPRINTS_TABLE,
+    Key: { listingId },
+  }));
+  return (result.Item as ListingFingerprint) || null;
+}
+
+/**
+ * Retrieves several listings' fingerprints
+ *
+ * @param listingIds - Listing IDs
+ * @returns Promise<ListingFingerprint[]> - Fingerprints of the listings that have one
+ */
+export async function getListingFingerprints(listingIds: string[]): Promise<ListingFingerprint[]> {
+  const fingerprints: ListingFingerprint[] = [];
+  const ids = [...new Set(listingIds)];
+
+  for (let i = 0; i < ids.length; i += BATCH_GET_SIZE) {
+    const batch = ids.slice(i, i + BATCH_GET_SIZE);
+    const result = await docClient.send(new BatchGetCommand({
+      RequestItems: {
+        [LISTING_FINGERPRINTS_TABLE]: { Keys: batch.map(listingId => ({ listingId })) },
+      },
+    }));
+    fingerprints.push(...((result.Responses?.[LISTING_FINGERPRINTS_TABLE] || []) as ListingFingerprint[]));
+  }
+
+  return fingerprints;
+}
+
+/**
+ * Stores a listing's fingerprint and moves it into its new buckets
+ *
+ * @param fingerprint - Fingerprint to store
+ */
+export async function saveListingFingerprint(fingerprint: ListingFingerprint): Promise<void> {
+  const previous = await getListingFingerprint(fingerprint.listingId);
+  const staleBuckets = (previous?.buckets || []).filter(bucket => !fingerprint.buckets.includes(bucket));
+
+  await docClient.send(new PutCommand({
+    TableName: LISTING_FINGERPRINTS_TABLE,
+    Item: fingerprint,
+  }));
+
+  await writeBuckets([
+    ...fingerprint.buckets.map(bucket => ({
+      PutRequest: { Item: { bucket, listingId: fingerprint.listingId, ownerId: fingerprint.ownerId } },
+    })),
+    ...staleBuckets.map(bucket => ({
+      DeleteRequest: { Key: { bucket, listingId: fingerprint.listingId } },
+    })),
+  ]);
+}
+
+/**
+ * Removes a deleted listing's fingerprint and bucket entries
+ *
+ * @param listingId - Listing ID
+ */
+export async function deleteListingFingerprint(listingId: string): Promise<void> {
+  const previous = await getListingFingerprint(listingId);
+  if (!previous) return;
+
+  await writeBuckets(previous.buckets.map(bucket => ({
+    DeleteRequest: { Key: { bucket, listingId } },
+  })));
+  await docClient.send(new DeleteCommand({
+    TableName: LISTING_FINGERPRINTS_TABLE,
+    Key: { listingId },
+  }));
+}
+
+/**
+ * Finds the listings sharing any of the given buckets
+ *
+ * @param buckets - Buckets to look in
+ * @returns Promise<BucketEntry[]> - One entry per listing and shared bucket
+ */
+export async function findBucketEntries(buckets: string[]): Promise<BucketEntry[]> {
+  const entries: BucketEntry[] = [];
+
+  for (const bucket of buckets) {
+    const result = await docClient.send(new QueryCommand({
+      TableName: FINGERPRINT_BUCKETS_TABLE,
+      KeyConditionExpression: 'bucket = :bucket',
+      ExpressionAttributeValues: { ':bucket': bucket },
+      Limit: MAX_BUCKET_LISTINGS,
+    }));
+    entries.push(...((result.Items || []) as BucketEntry[]));
+  }
+
+  return entries;
+}
+
+/**
+ * Applies bucket writes in batches
+ */
+async function writeBuckets(requests: Array<Record<string, any>>): Promise<void> {
+  for (let i = 0; i < requests.length; i += BATCH_WRITE_SIZE) {
+    await docClient.send(new BatchWriteCommand({
+      RequestItems: {
+        [FINGERPRINT_BUCKETS_TABLE]: requests.slice(i, i + BATCH_WRITE_SIZE),
+      },
+    }));
+  }
+}
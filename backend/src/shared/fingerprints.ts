@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Listing fingerprints for duplicate and scam detection.
+ *
+ * Scammers repost stolen photos and copy descriptions from real listings,
+ * which keyword filtering cannot catch. These pure functions reduce a
+ * listing to fingerprints that survive small edits:
+ *
+ * - Perceptual hashes (pHash) of photos: a 64-bit DCT hash that stays within
+ *   a few bits across re-compression, resizing and light edits
+ * - MinHash signatures of description word shingles, estimating Jaccard
+ *   similarity between descriptions
+ * - Normalized Hull Identification Numbers (HIN) and manufacturer/model/year
+ *
+ * Near-duplicates are found with locality-sensitive hashing: each fingerprint
+ * is split into bands, and listings sharing a band value become candidates
+ * that are then compared in full.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+/**
+ * Side of the greyscale image a perceptual hash is computed from
+ */
+export const PHASH_IMAGE_SIZE = 32;
+
+/**
+ * Low-frequency DCT coefficients kept per side (8x8 = 64 bits)
+ */
+const PHASH_DCT_SIZE = 8;
+
+/**
+ * Images whose hashes differ in at most this many bits are the same photo
+ */
+export const IMAGE_MATCH_DISTANCE = 6;
+
+/**
+ * Hash functions in a MinHash signature, and how they are banded
+ */
+export const MINHASH_SIZE = 64;
+const MINHASH_BANDS = 16;
+const MINHASH_ROWS = MINHASH_SIZE / MINHASH_BANDS;
+
+/**
+ * Estimated Jaccard similarity at which descriptions count as copied
+ */
+export const DESCRIPTION_MATCH_SIMILARITY = 0.8;
+
+/**
+ * Words per shingle, and shingles a description needs before it is compared
+ * (short descriptions like "Great boat, must see" match too easily)
+ */
+const SHINGLE_WORDS = 3;
+export const MIN_DESCRIPTION_SHINGLES = 12;
+
+/**
+ * Perceptual hash bands; photos within 3 bits always share one
+ */
+const PHASH_BANDS = 4;
+
+/**
+ * A listing reduced to its fingerprints
+ */
+export interface ListingFingerprint {
+  listingId: string;
+  ownerId: string;
+  hin?: string;
+  modelYearKey?: string;
+  imageHashes: Array<{ image: string; hash: string }>;
+  minhash?: number[]; // Undefined when the description is too short to compare
+  buckets: string[];
+  updatedAt: number;
+}
+
+/**
+ * Computes the perceptual hash of an image
+ *
+ * @param pixels - Greyscale pixels of the image resized to PHASH_IMAGE_SIZE square, row by row
+ * @returns 64-bit hash as 16 hex characters
+ */
+export function perceptualHash(pixels: ArrayLike<number>): string {
+  const n = PHASH_IMAGE_SIZE;
+  if (pixels.length !== n * n) {
+    throw new Error(`Perceptual hash needs ${n * n} pixels, got ${pixels.length}`);
+  }
+
+  // 2D DCT-II, keeping only the low-frequency corner
+  const cosines: number[][] = [];
+  for (let u = 0; u < PHASH_DCT_SIZE; u++) {
+    cosines.push(Array.from({ length: n }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * n))));
+  }
+
+  const coefficients: number[] = [];
+  for (let u = 0; u < PHASH_DCT_SIZE; u++) {
+    for (let v = 0; v < PHASH_DCT_SIZE; v++) {
+      let sum = 0;
+      for (let y = 0; y < n; y++) {
+        for (let x = 0; x < n; x++) {
+          sum += pixels[y * n + x] * cosines[u][y] * cosines[v][x];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term is overall brightness and would skew the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+
+  let hex = '';
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    }
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Number of differing bits between two perceptual hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance + Math.abs(a.length - b.length) * 4;
+}
+
+/**
+ * Splits description text into overlapping word shingles
+ */
+export function shingle(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const shingles = new Set<string>();
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_WORDS).join(' '));
+  }
+  return [...shingles];
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Scrambles a 32-bit value (MurmurHash3 finalizer) to derive independent hash functions
+ */
+function mix32(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mix32(Math.imul(i + 1, 0x9e3779b1)));
+
+/**
+ * Computes the MinHash signature of a description
+ *
+ * @param text - Description text
+ * @returns Signature, or undefined when the text has too few shingles to compare
+ */
+export function minhashSignature(text: string): number[] | undefined {
+  const shingles = shingle(text);
+  if (shingles.length < MIN_DESCRIPTION_SHINGLES) {
+    return undefined;
+  }
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (const value of shingles) {
+    const base = fnv1a(value);
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const hash = mix32(base ^ MINHASH_SEEDS[i]);
+      if (hash < signature[i]) {
+        signature[i] = hash;
+      }
+    }
+  }
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of two MinHash signatures (0-1)
+ */
+export function estimateSimilarity(a?: number[], b?: number[]): number {
+  if (!a || !b || a.length !== b.length) return 0;
+  const equal = a.filter((value, i) => value === b[i]).length;
+  return equal / a.length;
+}
+
+/**
+ * Normalizes a Hull Identification Number
+ *
+ * HINs are 12 characters (14 with a leading "US" country code). Separators
+ * and case are ignored so "abc-12345-D4-05" matches "ABC12345D405".
+ *
+ * @returns Normalized HIN, or undefined when the value cannot be a HIN
+ */
+export function normalizeHin(hin?: string): string | undefined {
+  if (!hin) return undefined;
+  let normalized = hin.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (normalized.length === 14 && normalized.startsWith('US')) {
+    normalized = normalized.slice(2);
+  }
+  return /^[A-Z]{3}[A-Z0-9]{9}$/.test(normalized) ? normalized : undefined;
+}
+
+/**
+ * Key identifying a boat by manufacturer, model and year
+ *
+ * @returns Key, or undefined when manufacturer or model is missing
+ */
+export function modelYearKey(details: { manufacturer?: string; model?: string; year?: number }): string | undefined {
+  const normalize = (value?: string) => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  const manufacturer = normalize(details.manufacturer);
+  const model = normalize(details.model);
+  if (!manufacturer || !model || !details.year) return undefined;
+  return `${manufacturer}#${model}#${details.year}`;
+}
+
+/**
+ * Locality-sensitive hash buckets for a fingerprint
+ *
+ * Listings sharing any bucket are candidate duplicates. Manufacturer/model/year
+ * is deliberately not a bucket: many legitimate listings share it.
+ */
+export function fingerprintBuckets(fingerprint: Pick<ListingFingerprint, 'hin' | 'imageHashes' | 'minhash'>): string[] {
+  const buckets = new Set<string>();
+
+  if (fingerprint.hin) {
+    buckets.add(`hin#${fingerprint.hin}`);
+  }
+
+  const bandLength = 16 / PHASH_BANDS;
+  for (const { hash } of fingerprint.imageHashes) {
+    for (let band = 0; band < PHASH_BANDS; band++) {
+      buckets.add(`image#${band}#${hash.slice(band * bandLength, (band + 1) * bandLength)}`);
+    }
+  }
+
+  if (fingerprint.minhash) {
+    for (let band = 0; band < MINHASH_BANDS; band++) {
+      const rows = fingerprint.minhash.slice(band * MINHASH_ROWS, (band + 1) * MINHASH_ROWS);
+      buckets.add(`text#${band}#${fnv1a(rows.join('.')).toString(16)}`);
+    }
+  }
+
+  return [...buckets];
+}
@@ -0,0 +1,122 @@
+/**
+ * Offline Geocoding
+ *
+ * Resolves listing locations to latitude/longitude using the bundled US ZIP
+ * code gazetteer (the `zipcodes` package), so no external geocoding service
+ * is called at request time.
+ *
+ * Resolution order:
+ * - Explicit coordinates supplied by the client (when valid)
+ * - 5-digit ZIP code centroid
+ * - City/state centroid (average of the city's ZIP code centroids)
+ */
+
+import * as zipcodes from 'zipcodes';
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+/**
+ * Mean Earth radius in statute miles
+ */
+export const EARTH_RADIUS_MILES = 3958.8;
+
+// City centroids are averaged over many ZIP codes, so cache them per container
+const cityCache = new Map<string, Coordinates | null>();
+
+/**
+ * Checks that a value is a usable latitude/longitude pair
+ */
+export function isValidCoordinates(coordinates: any): coordinates is Coordinates {
+  return !!coordinates &&
+    typeof coordinates.lat === 'number' &&
+    typeof coordinates.lon === 'number' &&
+    Math.abs(coordinates.lat) <= 90 &&
+    Math.abs(coordinates.lon) <= 180;
+}
+
+/**
+ * Geocodes a US ZIP code (ZIP+4 is accepted and truncated)
+ *
+ * @param zipCode - ZIP code such as "33139" or "33139-1234"
+ * @returns ZIP centroid, or null when the ZIP is unknown
+ */
+export function geocodeZip(zipCode?: string): Coordinates | null {
+  const zip = zipCode?.trim().slice(0, 5);
+  if (!zip || !/^\d{5}$/.test(zip)) {
+    return null;
+  }
+
+  const entry = zipcodes.lookup(zip);
+  return entry ? { lat: entry.latitude, lon: entry.longitude } : null;
+}
+
+/**
+ * Geocodes a city within a state
+ *
+ * @param city - City name (case-insensitive)
+ * @param state - State abbreviation or full name
+ * @returns City centroid, or null when the city is unknown
+ */
+export function geocodeCity(city?: string, state?: string): Coordinates | null {
+  if (!city?.trim() || !state?.trim()) {
+    return null;
+  }
+
+  const key = `${city.trim().toUpperCase()}|${state.trim().toUpperCase()}`;
+  if (cityCache.has(key)) {
+    return cityCache.get(key)!;
+  }
+
+  const entries = zipcodes.lookupByName(city.trim(), state.trim());
+  const coordinates = entries.length > 0
+    ? {
+        lat: entries.reduce((sum, entry) => sum + entry.latitude, 0) / entries.length,
+        lon: entries.reduce((sum, entry) => sum + entry.longitude, 0) / entries.length,
+      }
+    : null;
+
+  cityCache.set(key, coordinates);
+  return coordinates;
+}
+
+/**
+ * Resolves coordinates for a listing or search location
+ *
+ * @param location - Location with optional coordinates, ZIP code, city and state
+ * @returns Resolved coordinates, or null when the location cannot be geocoded
+ */
+export function geocodeLocation(location?: {
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  coordinates?: Coordinates;
+}): Coordinates | null {
+  if (!location) {
+    return null;
+  }
+
+  if (isValidCoordinates(location.coordinates)) {
+    return location.coordinates;
+  }
+
+  return geocodeZip(location.zipCode) || geocodeCity(location.city, location.state);
+}
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ *
+ * @returns Distance in statute miles
+ */
+export function distanceMiles(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
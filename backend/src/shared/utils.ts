@@ -335,3 +335,30 @@ export function validateYear(year: number): boolean {
   const currentYear = new Date().getFullYear();
   return year >= 1900 && year <= currentYear + 1;
 }
+
+/**
+ * Checks whether a DynamoDB error is a failed conditional write
+ * 
+ * Stores use conditional puts and updates to guard against duplicates and
+ * concurrent changes, and report a failed condition as a normal outcome
+ * rather than an error.
+ * 
+ * @param error - Error thrown by a DynamoDB command
+ * @returns True if the write was rejected by its condition expression
+ * 
+ * @example
+ * ```typescript
+ * try {
+ *   await docClient.send(new PutCommand({ ..., ConditionExpression: 'attribute_not_exists(id)' }));
+ *   return true;
+ * } catch (error) {
+ *   if (isConditionalCheckFailure(error)) {
+ *     return false;
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export function isConditionalCheckFailure(error: any): boolean {
+  return error?.name === 'ConditionalCheckFailedException';
+}
@@ -19,9 +19,10 @@ interface Listing {
 }
 
 interface Review {
-  id: string;
+  reviewId: string;
   listingId: string;
   rating?: number;
+  moderationStatus?: 'approved' | 'pending' | 'rejected';
 }
 
 const dynamoClient = new DynamoDBClient({ 
@@ -118,11 +119,13 @@ async function getPlatformStats(): Promise<PlatformStats> {
         TableName: REVIEWS_TABLE,
       }));
 
-      const reviews = reviewsResult.Items || [];
+      // Reviews held or removed by moderation don't count
+      const reviews = ((reviewsResult.Items || []) as Review[])
+        .filter(review => !review.moderationStatus || review.moderationStatus === 'approved');
       totalReviews = reviews.length;
 
       if (totalReviews > 0) {
-        const totalRating = (reviews as Review[]).reduce((sum: number, review: Review) => sum + (review.rating || 0), 0);
+        const totalRating = reviews.reduce((sum: number, review: Review) => sum + (review.rating || 0), 0);
         averageRating = totalRating / totalReviews;
         userSatisfactionScore = averageRating;
       }
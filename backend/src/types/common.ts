@@ -33,7 +33,7 @@ export interface Listing {
   images: string[];
   videos?: string[];
   thumbnails: string[];
-  status: 'pending_review' | 'approved' | 'rejected' | 'active' | 'inactive' | 'sold';
+  status: 'pending_review' | 'approved' | 'rejected' | 'active' | 'inactive' | 'sold' | 'under_contract';
   moderationStatus?: {
     reviewedBy?: string;
     reviewedAt?: number;
@@ -53,6 +53,9 @@ export interface SearchFilters {
   };
   location?: {
     state?: string;
+    city?: string;
+    zipCode?: string;
+    /** Radius in miles around the ZIP code, coordinates or city */
     radius?: number;
     coordinates?: {
       lat: number;
@@ -69,6 +72,13 @@ export interface SearchFilters {
     max?: number;
   };
   features?: string[];
+  manufacturer?: string[];
+  engineConfiguration?: string[];
+  fuelType?: string[];
+  sort?: {
+    field: string;
+    order: string;
+  };
 }
 
 // User and Authentication Types
@@ -227,3 +237,45 @@ export interface ErrorResponse {
 
 // Export Phase 3 types from shared-types
 export type { StaffUserRecord, TeamAssignment } from '@harborlist/shared-types';
+
+// Search facet types from shared-types
+export type { SearchFacets, FacetValue, RangeFacetValue } from '@harborlist/shared-types';
+
+// Saved search types from shared-types
+export type { SavedSearch, SavedSearchEmailFrequency } from '@harborlist/shared-types';
+
+// Favorites (watchlist) types from shared-types
+export type { Favorite, FavoriteListing } from '@harborlist/shared-types';
+
+// Buyer–seller messaging types from shared-types
+export type {
+  MessageParticipantRole,
+  MessageAttachment,
+  Message,
+  MessageThread,
+  MessageThreadSummary,
+} from '@harborlist/shared-types';
+
+// Listing offer types from shared-types
+export type {
+  OfferStatus,
+  OfferAction,
+  OfferActorRole,
+  OfferContingencyType,
+  OfferContingency,
+  OfferTerms,
+  OfferEvent,
+  Offer,
+  OfferSummary,
+} from '@harborlist/shared-types';
+
+// Listing review types from shared-types
+export type {
+  Review,
+  ReviewModerationStatus,
+  ReviewResponse,
+  ListingRating,
+} from '@harborlist/shared-types';
+
+// Seller profile types from shared-types
+export type { SellerProfile, SellerProfileStats } from '@harborlist/shared-types';
@@ -11,7 +11,7 @@
  * Features:
  * - Multi-tier user system with granular capabilities
  * - Premium membership lifecycle management
- * - Sales representative assignment and tracking
+ * - Sales representative assignment and tracking, with commission and payout history
  * - Automatic tier downgrade for expired memberships
  * - Comprehensive audit logging for user changes
  * 
@@ -36,6 +36,7 @@ import {
   UserLimits,
   AuditLog
 } from '@harborlist/shared-types';
+import { getPayeeCommissionHistory } from '../billing-service/commissions/commission-manager';
 
 /**
  * DynamoDB client configuration for user service
@@ -81,7 +82,8 @@ const DEFAULT_USER_TIERS: UserTier[] = [
       analyticsAccess: false,
       bulkOperations: false,
       advancedSearch: false,
-      premiumSupport: false
+      premiumSupport: false,
+      boostedSearches: 0
     },
     pricing: { currency: 'USD' },
     active: true,
@@ -106,7 +108,8 @@ const DEFAULT_USER_TIERS: UserTier[] = [
       analyticsAccess: true,
       bulkOperations: false,
       advancedSearch: true,
-      premiumSupport: true
+      premiumSupport: true,
+      boostedSearches: 20
     },
     pricing: { monthly: 29.99, yearly: 299.99, currency: 'USD' },
     active: true,
@@ -130,7 +133,8 @@ const DEFAULT_USER_TIERS: UserTier[] = [
       analyticsAccess: true,
       bulkOperations: true,
       advancedSearch: true,
-      premiumSupport: false
+      premiumSupport: false,
+      boostedSearches: 10
     },
     pricing: { monthly: 99.99, yearly: 999.99, currency: 'USD' },
     active: true,
@@ -155,7 +159,8 @@ const DEFAULT_USER_TIERS: UserTier[] = [
       analyticsAccess: true,
       bulkOperations: true,
       advancedSearch: true,
-      premiumSupport: true
+      premiumSupport: true,
+      boostedSearches: 100
     },
     pricing: { monthly: 199.99, yearly: 1999.99, currency: 'USD' },
     active: true,
@@ -855,7 +860,10 @@ const handleGetSalesPerformance = async (
       }
     }
 
-    return createResponse(200, performance);
+    // Commission statements and payouts, newest month first
+    const commissions = await getPayeeCommissionHistory(salesRepId, 12);
+
+    return createResponse(200, { ...performance, commissions });
   } catch (error) {
     console.error('Get sales performance error:', error);
     return createErrorResponse(500, 'INTERNAL_ERROR', 'Failed to get sales performance', requestId);
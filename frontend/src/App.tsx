@@ -27,6 +27,12 @@ import Footer from './components/layout/Footer';
 import Home from './pages/Home';
 import ListingDetail from './pages/ListingDetail';
 import Search from './pages/Search';
+import SavedSearches from './pages/SavedSearches';
+import Favorites from './pages/Favorites';
+import Messages from './pages/Messages';
+import MessageThread from './pages/MessageThread';
+import Offers from './pages/Offers';
+import SellerProfile from './pages/SellerProfile';
 import CreateListing from './pages/CreateListing';
 import EditListing from './pages/EditListing';
 import Profile from './pages/Profile';
@@ -39,6 +45,7 @@ import Sell from './pages/Sell';
 import Finance from './pages/Finance';
 import FinanceCalculator from './pages/FinanceCalculator';
 import BillingDashboard from './pages/BillingDashboard';
+import SalesPerformance from './pages/SalesPerformance';
 import SharedCalculation from './pages/SharedCalculation';
 import About from './pages/About';
 import Valuation from './pages/Valuation';
@@ -231,6 +238,7 @@ function App() {
                           <Route path="/" element={<Home />} />
                           <Route path="/search" element={<Search />} />
                           <Route path="/listing/:identifier" element={<ListingDetail />} />
+                          <Route path="/sellers/:sellerId" element={<SellerProfile />} />
                           <Route path="/boat/:slug" element={<ListingDetail />} />
                           <Route path="/login" element={<Login />} />
                           <Route path="/register" element={<Register />} />
@@ -251,6 +259,14 @@ function App() {
                               </ProtectedRoute>
                             }
                           />
+                          <Route
+                            path="/sales/performance"
+                            element={
+                              <ProtectedRoute>
+                                <SalesPerformance />
+                              </ProtectedRoute>
+                            }
+                          />
                           <Route path="/about" element={<About />} />
                           <Route path="/valuation" element={<Valuation />} />
                           <Route path="/services" element={<Services />} />
@@ -274,6 +290,54 @@ function App() {
                               </ProtectedRoute>
                             }
                           />
+                          <Route
+                            path="/saved-searches"
+                            element={
+                              <ProtectedRoute>
+                                <SavedSearches />
+                              </ProtectedRoute>
+                            }
+                          />
+                          <Route
+                            path="/favorites"
+                            element={
+                              <ProtectedRoute>
+                                <Favorites />
+                              </ProtectedRoute>
+                            }
+                          />
+                          <Route
+                            path="/messages"
+                            element={
+                              <ProtectedRoute>
+                                <Messages box="inbox" />
+                              </ProtectedRoute>
+                            }
+                          />
+                          <Route
+                            path="/messages/sent"
+                            element={
+                              <ProtectedRoute>
+                                <Messages box="outbox" />
+                              </ProtectedRoute>
+                            }
+                          />
+                          <Route
+                            path="/messages/:threadId"
+                            element={
+                              <ProtectedRoute>
+                                <MessageThread />
+                              </ProtectedRoute>
+                            }
+                          />
+                          <Route
+                            path="/offers"
+                            element={
+                              <ProtectedRoute>
+                                <Offers />
+                              </ProtectedRoute>
+                            }
+                          />
                           <Route
                             path="/profile"
                             element={
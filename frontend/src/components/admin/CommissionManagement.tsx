@@ -0,0 +1,678 @@
+import React, { useState, useEffect } from 'react';
+import { useToast } from '../../contexts/ToastContext';
+import { CommissionRule, CommissionStatement, PayoutBatch } from '@harborlist/shared-types';
+import { adminApi } from '../../services/adminApi';
+
+interface TierForm {
+  upTo: string;
+  rate: string;
+}
+
+interface RuleForm {
+  name: string;
+  payeeId: string;
+  payeeType: '' | 'sales_rep' | 'dealer';
+  planIds: string[];
+  rateType: 'flat' | 'tiered';
+  rate: string;
+  tiers: TierForm[];
+  priority: string;
+}
+
+const PLAN_OPTIONS = [
+  { id: 'premium_individual', label: 'Premium Individual' },
+  { id: 'premium_dealer', label: 'Premium Dealer' },
+];
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  payeeId: '',
+  payeeType: '',
+  planIds: [],
+  rateType: 'flat',
+  rate: '',
+  tiers: [{ upTo: '', rate: '' }, { upTo: '', rate: '' }],
+  priority: '0',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  in_batch: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  pending_approval: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  on_hold: 'bg-red-100 text-red-800',
+  released: 'bg-green-100 text-green-800',
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatRate = (rate: number) => `${Math.round(rate * 10000) / 100}%`;
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ');
+
+// Statements can only be generated for months that have ended
+const previousPeriod = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 7);
+};
+
+const describeRate = (rule: CommissionRule) => {
+  if (!rule.tiers?.length) return formatRate(rule.rate || 0);
+  return rule.tiers
+    .map(tier => tier.upTo !== undefined
+      ? `${formatRate(tier.rate)} up to ${formatCurrency(tier.upTo)}`
+      : `${formatRate(tier.rate)} above`)
+    .join(', ');
+};
+
+const describeScope = (rule: CommissionRule) => {
+  const scope = [
+    ...(rule.payeeId ? [`Payee ${rule.payeeId}`] : []),
+    ...(rule.payeeType ? [rule.payeeType === 'sales_rep' ? 'Sales reps' : 'Dealers'] : []),
+    ...(rule.planIds || []).map(planId => PLAN_OPTIONS.find(plan => plan.id === planId)?.label || planId),
+  ];
+  return scope.length ? scope.join(', ') : 'All payees';
+};
+
+export const CommissionManagement: React.FC = () => {
+  const { showSuccess, showError } = useToast();
+
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [loadingRules, setLoadingRules] = useState(true);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const [period, setPeriod] = useState(previousPeriod());
+  const [statements, setStatements] = useState<CommissionStatement[]>([]);
+  const [loadingStatements, setLoadingStatements] = useState(false);
+  const [generating, setGenerating] = useState(false);
+
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [loadingBatches, setLoadingBatches] = useState(true);
+  const [holdBatch, setHoldBatch] = useState<PayoutBatch | null>(null);
+  const [holdReason, setHoldReason] = useState('');
+
+  useEffect(() => {
+    loadRules();
+    loadBatches();
+  }, []);
+
+  useEffect(() => {
+    loadStatements();
+  }, [period]);
+
+  const loadRules = async () => {
+    try {
+      setLoadingRules(true);
+      const response = await adminApi.getCommissionRules();
+      setRules(response.rules || []);
+    } catch (error) {
+      showError('Error', 'Failed to load commission rules');
+    } finally {
+      setLoadingRules(false);
+    }
+  };
+
+  const loadStatements = async () => {
+    if (!period) return;
+    try {
+      setLoadingStatements(true);
+      const response = await adminApi.getCommissionStatements(period);
+      setStatements(response.statements || []);
+    } catch (error) {
+      showError('Error', 'Failed to load commission statements');
+    } finally {
+      setLoadingStatements(false);
+    }
+  };
+
+  const loadBatches = async () => {
+    try {
+      setLoadingBatches(true);
+      const response = await adminApi.getPayoutBatches({ limit: '50' });
+      setBatches(response.batches || []);
+    } catch (error) {
+      showError('Error', 'Failed to load payout batches');
+    } finally {
+      setLoadingBatches(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await adminApi.createCommissionRule({
+        name: form.name.trim(),
+        payeeId: form.payeeId.trim() || undefined,
+        payeeType: form.payeeType || undefined,
+        planIds: form.planIds,
+        rate: form.rateType === 'flat' ? Number(form.rate) / 100 : undefined,
+        tiers: form.rateType === 'tiered'
+          ? form.tiers.map((tier, index) => ({
+              rate: Number(tier.rate) / 100,
+              upTo: index === form.tiers.length - 1 ? undefined : Number(tier.upTo),
+            }))
+          : undefined,
+        priority: Number(form.priority) || 0,
+      });
+      showSuccess('Rule Created', `${form.name.trim()} applies from the next statement run`);
+      setShowCreateModal(false);
+      setForm(EMPTY_FORM);
+      loadRules();
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to create commission rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: CommissionRule) => {
+    try {
+      if (rule.active) {
+        await adminApi.deactivateCommissionRule(rule.ruleId);
+        showSuccess('Rule Deactivated', `${rule.name} no longer applies`);
+      } else {
+        await adminApi.updateCommissionRule(rule.ruleId, { active: true });
+        showSuccess('Rule Activated', `${rule.name} applies again`);
+      }
+      loadRules();
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to update commission rule');
+    }
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const response = await adminApi.generateCommissionStatements(period);
+      const skipped: string[] = response.skipped || [];
+      showSuccess(
+        'Statements Generated',
+        `${response.statements?.length || 0} draft statements for ${period}` +
+          (skipped.length ? `; ${skipped.length} already in a payout batch` : '')
+      );
+      loadStatements();
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to generate statements');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleCreateBatch = async () => {
+    try {
+      const response = await adminApi.createPayoutBatch(period);
+      showSuccess('Payout Batch Created', `${formatCurrency(response.batch.totalAmount)} awaiting approval`);
+      loadStatements();
+      loadBatches();
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to create payout batch');
+    }
+  };
+
+  const handleBatchAction = async (batch: PayoutBatch, action: 'approve' | 'release') => {
+    try {
+      if (action === 'approve') {
+        await adminApi.approvePayoutBatch(batch.batchId);
+        showSuccess('Batch Approved', `${formatCurrency(batch.totalAmount)} accrued for ${batch.period}`);
+      } else {
+        await adminApi.releasePayoutBatch(batch.batchId);
+        showSuccess('Batch Released', `${batch.payouts.length} payouts sent for ${batch.period}`);
+      }
+      loadBatches();
+      if (batch.period === period) loadStatements();
+    } catch (error: any) {
+      showError('Error', error.message || `Failed to ${action} payout batch`);
+    }
+  };
+
+  const handleHold = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!holdBatch) return;
+    try {
+      await adminApi.holdPayoutBatch(holdBatch.batchId, holdReason);
+      showSuccess('Batch On Hold', `Payouts for ${holdBatch.period} are paused`);
+      setHoldBatch(null);
+      setHoldReason('');
+      loadBatches();
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to hold payout batch');
+    }
+  };
+
+  const togglePlanId = (planId: string) => {
+    setForm(prev => ({
+      ...prev,
+      planIds: prev.planIds.includes(planId)
+        ? prev.planIds.filter(id => id !== planId)
+        : [...prev.planIds, planId],
+    }));
+  };
+
+  const updateTier = (index: number, field: keyof TierForm, value: string) => {
+    setForm(prev => ({
+      ...prev,
+      tiers: prev.tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)),
+    }));
+  };
+
+  const statementTotal = statements.reduce((sum, statement) => sum + statement.totalCommission, 0);
+  const hasDraftCommission = statements.some(statement => statement.status === 'draft' && statement.totalCommission > 0);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+  const headerClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+  return (
+    <div className="space-y-6">
+      {/* Rules */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Commission Rules</h3>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+          >
+            Create Rule
+          </button>
+        </div>
+        {loadingRules ? (
+          <div className="px-6 py-8 text-center text-gray-500">Loading rules...</div>
+        ) : rules.length === 0 ? (
+          <div className="px-6 py-8 text-center text-gray-500">No commission rules yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>Rule</th>
+                  <th className={headerClass}>Applies To</th>
+                  <th className={headerClass}>Rate</th>
+                  <th className={headerClass}>Priority</th>
+                  <th className={headerClass}>Status</th>
+                  <th className={headerClass}>Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rules.map((rule) => (
+                  <tr key={rule.ruleId}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{rule.name}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{describeScope(rule)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{describeRate(rule)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{rule.priority}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        rule.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {rule.active ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={() => handleToggleActive(rule)}
+                        className={rule.active ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'}
+                      >
+                        {rule.active ? 'Deactivate' : 'Activate'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Statements */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-lg font-medium text-gray-900">Monthly Statements</h3>
+          <div className="flex items-center space-x-3">
+            <input
+              type="month"
+              value={period}
+              max={previousPeriod()}
+              onChange={(e) => setPeriod(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <button
+              onClick={handleGenerate}
+              disabled={generating || !period}
+              className="px-4 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 disabled:opacity-50"
+            >
+              {generating ? 'Generating...' : 'Generate Statements'}
+            </button>
+            <button
+              onClick={handleCreateBatch}
+              disabled={!hasDraftCommission}
+              className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Create Payout Batch
+            </button>
+          </div>
+        </div>
+        {loadingStatements ? (
+          <div className="px-6 py-8 text-center text-gray-500">Loading statements...</div>
+        ) : statements.length === 0 ? (
+          <div className="px-6 py-8 text-center text-gray-500">No statements for {period}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>Payee</th>
+                  <th className={headerClass}>Type</th>
+                  <th className={headerClass}>Transactions</th>
+                  <th className={headerClass}>Revenue</th>
+                  <th className={headerClass}>Commission</th>
+                  <th className={headerClass}>Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {statements.map((statement) => (
+                  <tr key={statement.statementId}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{statement.payeeName}</div>
+                      <div className="text-sm text-gray-500">{statement.payeeId}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {statement.payeeType === 'sales_rep' ? 'Sales rep' : 'Dealer'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{statement.lines.length}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(statement.totalRevenue)}</td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
+                      statement.totalCommission < 0 ? 'text-red-600' : 'text-gray-900'
+                    }`}>
+                      {formatCurrency(statement.totalCommission)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[statement.status]}`}>
+                        {formatStatus(statement.status)}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td colSpan={4} className="px-6 py-3 text-sm font-medium text-gray-700">Total</td>
+                  <td colSpan={2} className="px-6 py-3 text-sm font-medium text-gray-900">{formatCurrency(statementTotal)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Payout Batches */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Payout Batches</h3>
+        </div>
+        {loadingBatches ? (
+          <div className="px-6 py-8 text-center text-gray-500">Loading payout batches...</div>
+        ) : batches.length === 0 ? (
+          <div className="px-6 py-8 text-center text-gray-500">No payout batches yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>Period</th>
+                  <th className={headerClass}>Payees</th>
+                  <th className={headerClass}>Amount</th>
+                  <th className={headerClass}>Created</th>
+                  <th className={headerClass}>Status</th>
+                  <th className={headerClass}>Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {batches.map((batch) => (
+                  <tr key={batch.batchId}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{batch.period}</div>
+                      <div className="text-sm text-gray-500 font-mono">{batch.batchId}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{batch.payouts.length}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(batch.totalAmount)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(batch.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[batch.status]}`}>
+                        {formatStatus(batch.status)}
+                      </span>
+                      {batch.status === 'on_hold' && batch.holdReason && (
+                        <div className="text-sm text-gray-500 mt-1">{batch.holdReason}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                      {(batch.status === 'pending_approval' || batch.status === 'on_hold') && (
+                        <button onClick={() => handleBatchAction(batch, 'approve')} className="text-blue-600 hover:text-blue-900">
+                          Approve
+                        </button>
+                      )}
+                      {batch.status === 'approved' && (
+                        <button onClick={() => handleBatchAction(batch, 'release')} className="text-green-600 hover:text-green-900">
+                          Release
+                        </button>
+                      )}
+                      {(batch.status === 'pending_approval' || batch.status === 'approved') && (
+                        <button onClick={() => setHoldBatch(batch)} className="text-red-600 hover:text-red-900">
+                          Hold
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Hold Batch Modal */}
+      {holdBatch && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-md shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Hold Payouts for {holdBatch.period}</h3>
+            <form onSubmit={handleHold} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <textarea
+                  value={holdReason}
+                  onChange={(e) => setHoldReason(e.target.value)}
+                  rows={3}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => { setHoldBatch(null); setHoldReason(''); }}
+                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700">
+                  Hold Batch
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Create Rule Modal */}
+      {showCreateModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Create Commission Rule</h3>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Dealer standard"
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Payee Type</label>
+                  <select
+                    value={form.payeeType}
+                    onChange={(e) => setForm(prev => ({ ...prev, payeeType: e.target.value as RuleForm['payeeType'] }))}
+                    className={inputClass}
+                  >
+                    <option value="">Any payee</option>
+                    <option value="sales_rep">Sales reps</option>
+                    <option value="dealer">Dealers</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Payee User ID</label>
+                  <input
+                    type="text"
+                    value={form.payeeId}
+                    onChange={(e) => setForm(prev => ({ ...prev, payeeId: e.target.value }))}
+                    placeholder="Optional"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">Plans (none selected = any plan)</span>
+                <div className="flex flex-wrap gap-4">
+                  {PLAN_OPTIONS.map(plan => (
+                    <label key={plan.id} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={form.planIds.includes(plan.id)}
+                        onChange={() => togglePlanId(plan.id)}
+                        className="mr-2"
+                      />
+                      {plan.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Rate</label>
+                  <select
+                    value={form.rateType}
+                    onChange={(e) => setForm(prev => ({ ...prev, rateType: e.target.value as RuleForm['rateType'] }))}
+                    className={inputClass}
+                  >
+                    <option value="flat">Flat rate</option>
+                    <option value="tiered">Tiered by monthly revenue</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+                  <input
+                    type="number"
+                    value={form.priority}
+                    onChange={(e) => setForm(prev => ({ ...prev, priority: e.target.value }))}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              {form.rateType === 'flat' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Commission (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={form.rate}
+                    onChange={(e) => setForm(prev => ({ ...prev, rate: e.target.value }))}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {form.tiers.map((tier, index) => {
+                    const isLast = index === form.tiers.length - 1;
+                    return (
+                      <div key={index} className="grid grid-cols-2 gap-4">
+                        <input
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          value={isLast ? '' : tier.upTo}
+                          onChange={(e) => updateTier(index, 'upTo', e.target.value)}
+                          placeholder={isLast ? 'Above the last bound' : 'Revenue up to ($)'}
+                          disabled={isLast}
+                          className={inputClass}
+                          required={!isLast}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.01"
+                          value={tier.rate}
+                          onChange={(e) => updateTier(index, 'rate', e.target.value)}
+                          placeholder="Commission (%)"
+                          className={inputClass}
+                          required
+                        />
+                      </div>
+                    );
+                  })}
+                  <div className="flex space-x-3 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => setForm(prev => ({ ...prev, tiers: [...prev.tiers, { upTo: '', rate: '' }] }))}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      Add tier
+                    </button>
+                    {form.tiers.length > 2 && (
+                      <button
+                        type="button"
+                        onClick={() => setForm(prev => ({ ...prev, tiers: prev.tiers.slice(0, -1) }))}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Remove tier
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => { setShowCreateModal(false); setForm(EMPTY_FORM); }}
+                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Creating...' : 'Create Rule'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommissionManagement;
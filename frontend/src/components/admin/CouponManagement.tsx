@@ -0,0 +1,503 @@
+import React, { useState, useEffect } from 'react';
+import { useToast } from '../../contexts/ToastContext';
+import { Coupon, CouponRedemption } from '@harborlist/shared-types';
+import { adminApi } from '../../services/adminApi';
+
+interface CouponForm {
+  code: string;
+  description: string;
+  discountType: 'percentage' | 'fixed' | 'free_months';
+  percentOff: string;
+  amountOff: string;
+  freeMonths: string;
+  duration: 'once' | 'repeating' | 'forever';
+  durationCycles: string;
+  planIds: string[];
+  planTypes: Array<'individual' | 'dealer'>;
+  firstTimeOnly: boolean;
+  maxRedemptions: string;
+  expiresAt: string;
+}
+
+const PLAN_OPTIONS = [
+  { id: 'premium_individual', label: 'Premium Individual' },
+  { id: 'premium_dealer', label: 'Premium Dealer' },
+];
+
+const EMPTY_FORM: CouponForm = {
+  code: '',
+  description: '',
+  discountType: 'percentage',
+  percentOff: '',
+  amountOff: '',
+  freeMonths: '',
+  duration: 'once',
+  durationCycles: '',
+  planIds: [],
+  planTypes: [],
+  firstTimeOnly: false,
+  maxRedemptions: '',
+  expiresAt: '',
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const describeDiscount = (coupon: Coupon) => {
+  switch (coupon.discountType) {
+    case 'percentage':
+      return `${coupon.percentOff}% off`;
+    case 'fixed':
+      return `${formatCurrency(coupon.amountOff || 0)} off`;
+    case 'free_months':
+      return coupon.freeMonths === 1 ? '1 month free' : `${coupon.freeMonths} months free`;
+  }
+};
+
+const describeDuration = (coupon: Coupon) => {
+  if (coupon.discountType === 'free_months') return 'Before first charge';
+  if (coupon.duration === 'forever') return 'Forever';
+  if (coupon.duration === 'repeating') return `${coupon.durationCycles} billing periods`;
+  return 'First billing period';
+};
+
+const describeRestrictions = (coupon: Coupon) => {
+  const restrictions = [
+    ...(coupon.planIds || []).map(planId => PLAN_OPTIONS.find(plan => plan.id === planId)?.label || planId),
+    ...(coupon.planTypes || []).map(type => `${type} plans`),
+    ...(coupon.firstTimeOnly ? ['First-time subscribers'] : []),
+  ];
+  return restrictions.length ? restrictions.join(', ') : 'Any plan';
+};
+
+const isExpired = (coupon: Coupon) => !!coupon.expiresAt && coupon.expiresAt <= Date.now();
+
+export const CouponManagement: React.FC = () => {
+  const { showSuccess, showError } = useToast();
+
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [form, setForm] = useState<CouponForm>(EMPTY_FORM);
+  const [selectedCoupon, setSelectedCoupon] = useState<Coupon | null>(null);
+  const [redemptions, setRedemptions] = useState<CouponRedemption[]>([]);
+  const [loadingRedemptions, setLoadingRedemptions] = useState(false);
+
+  useEffect(() => {
+    loadCoupons();
+  }, []);
+
+  const loadCoupons = async () => {
+    try {
+      setLoading(true);
+      const response = await adminApi.getCoupons();
+      setCoupons(response.coupons || []);
+    } catch (error) {
+      showError('Error', 'Failed to load coupons');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRedemptions = async (coupon: Coupon) => {
+    setSelectedCoupon(coupon);
+    setRedemptions([]);
+    try {
+      setLoadingRedemptions(true);
+      const response = await adminApi.getCouponRedemptions(coupon.code, { limit: 100 });
+      setRedemptions(response.redemptions || []);
+    } catch (error) {
+      showError('Error', 'Failed to load redemptions');
+    } finally {
+      setLoadingRedemptions(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await adminApi.createCoupon({
+        code: form.code.trim().toUpperCase(),
+        description: form.description || undefined,
+        discountType: form.discountType,
+        percentOff: form.discountType === 'percentage' ? Number(form.percentOff) : undefined,
+        amountOff: form.discountType === 'fixed' ? Number(form.amountOff) : undefined,
+        freeMonths: form.discountType === 'free_months' ? Number(form.freeMonths) : undefined,
+        duration: form.discountType === 'free_months' ? 'once' : form.duration,
+        durationCycles: form.duration === 'repeating' ? Number(form.durationCycles) : undefined,
+        planIds: form.planIds,
+        planTypes: form.planTypes,
+        firstTimeOnly: form.firstTimeOnly,
+        maxRedemptions: form.maxRedemptions ? Number(form.maxRedemptions) : undefined,
+        expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`).getTime() : undefined,
+      });
+      showSuccess('Coupon Created', `${form.code.toUpperCase()} is ready to use`);
+      setShowCreateModal(false);
+      setForm(EMPTY_FORM);
+      loadCoupons();
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to create coupon');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      if (coupon.active) {
+        await adminApi.deactivateCoupon(coupon.code);
+        showSuccess('Coupon Deactivated', `${coupon.code} can no longer be redeemed`);
+      } else {
+        await adminApi.updateCoupon(coupon.code, { active: true });
+        showSuccess('Coupon Activated', `${coupon.code} can be redeemed again`);
+      }
+      loadCoupons();
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to update coupon');
+    }
+  };
+
+  const togglePlanId = (planId: string) => {
+    setForm(prev => ({
+      ...prev,
+      planIds: prev.planIds.includes(planId)
+        ? prev.planIds.filter(id => id !== planId)
+        : [...prev.planIds, planId],
+    }));
+  };
+
+  const togglePlanType = (type: 'individual' | 'dealer') => {
+    setForm(prev => ({
+      ...prev,
+      planTypes: prev.planTypes.includes(type)
+        ? prev.planTypes.filter(t => t !== type)
+        : [...prev.planTypes, type],
+    }));
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Coupons</h3>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+          >
+            Create Coupon
+          </button>
+        </div>
+        {loading ? (
+          <div className="px-6 py-8 text-center text-gray-500">Loading coupons...</div>
+        ) : coupons.length === 0 ? (
+          <div className="px-6 py-8 text-center text-gray-500">No coupons yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Restrictions</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Redemptions</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {coupons.map((coupon) => (
+                  <tr key={coupon.code}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-mono font-medium text-gray-900">{coupon.code}</div>
+                      {coupon.description && <div className="text-sm text-gray-500">{coupon.description}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{describeDiscount(coupon)}</div>
+                      <div className="text-sm text-gray-500">{describeDuration(coupon)}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{describeRestrictions(coupon)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {coupon.redemptionCount}{coupon.maxRedemptions ? ` / ${coupon.maxRedemptions}` : ''}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {coupon.expiresAt ? new Date(coupon.expiresAt).toLocaleDateString() : 'Never'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        !coupon.active ? 'bg-gray-100 text-gray-800' :
+                        isExpired(coupon) ? 'bg-yellow-100 text-yellow-800' :
+                        'bg-green-100 text-green-800'
+                      }`}>
+                        {!coupon.active ? 'Inactive' : isExpired(coupon) ? 'Expired' : 'Active'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                      <button onClick={() => loadRedemptions(coupon)} className="text-blue-600 hover:text-blue-900">
+                        Redemptions
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(coupon)}
+                        className={coupon.active ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'}
+                      >
+                        {coupon.active ? 'Deactivate' : 'Activate'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Redemptions */}
+      {selectedCoupon && (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900">
+              Redemptions of <span className="font-mono">{selectedCoupon.code}</span>
+            </h3>
+            <button onClick={() => setSelectedCoupon(null)} className="text-sm text-gray-500 hover:text-gray-700">
+              Close
+            </button>
+          </div>
+          {loadingRedemptions ? (
+            <div className="px-6 py-8 text-center text-gray-500">Loading redemptions...</div>
+          ) : redemptions.length === 0 ? (
+            <div className="px-6 py-8 text-center text-gray-500">No redemptions yet</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Redeemed</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Plan</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount Given</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {redemptions.map((redemption) => (
+                    <tr key={redemption.redemptionId}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(redemption.redeemedAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{redemption.userId}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {redemption.planId} ({redemption.billingCycle})
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {redemption.freeMonths
+                          ? `${redemption.freeMonths} free month${redemption.freeMonths === 1 ? '' : 's'}`
+                          : formatCurrency(redemption.totalDiscount)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Create Coupon Modal */}
+      {showCreateModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Create Coupon</h3>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                <input
+                  type="text"
+                  value={form.code}
+                  onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                  placeholder="SPRING25"
+                  className={`${inputClass} font-mono`}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Discount Type</label>
+                  <select
+                    value={form.discountType}
+                    onChange={(e) => setForm(prev => ({ ...prev, discountType: e.target.value as CouponForm['discountType'] }))}
+                    className={inputClass}
+                  >
+                    <option value="percentage">Percentage off</option>
+                    <option value="fixed">Amount off</option>
+                    <option value="free_months">Free months</option>
+                  </select>
+                </div>
+                <div>
+                  {form.discountType === 'percentage' && (
+                    <>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Percent Off</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="100"
+                        value={form.percentOff}
+                        onChange={(e) => setForm(prev => ({ ...prev, percentOff: e.target.value }))}
+                        className={inputClass}
+                        required
+                      />
+                    </>
+                  )}
+                  {form.discountType === 'fixed' && (
+                    <>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Amount Off ($)</label>
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        value={form.amountOff}
+                        onChange={(e) => setForm(prev => ({ ...prev, amountOff: e.target.value }))}
+                        className={inputClass}
+                        required
+                      />
+                    </>
+                  )}
+                  {form.discountType === 'free_months' && (
+                    <>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Free Months</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="24"
+                        value={form.freeMonths}
+                        onChange={(e) => setForm(prev => ({ ...prev, freeMonths: e.target.value }))}
+                        className={inputClass}
+                        required
+                      />
+                    </>
+                  )}
+                </div>
+              </div>
+              {form.discountType !== 'free_months' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Duration</label>
+                    <select
+                      value={form.duration}
+                      onChange={(e) => setForm(prev => ({ ...prev, duration: e.target.value as CouponForm['duration'] }))}
+                      className={inputClass}
+                    >
+                      <option value="once">First billing period</option>
+                      <option value="repeating">Several billing periods</option>
+                      <option value="forever">Forever</option>
+                    </select>
+                  </div>
+                  {form.duration === 'repeating' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Billing Periods</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={form.durationCycles}
+                        onChange={(e) => setForm(prev => ({ ...prev, durationCycles: e.target.value }))}
+                        className={inputClass}
+                        required
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">Plans (none selected = any plan)</span>
+                <div className="flex flex-wrap gap-4">
+                  {PLAN_OPTIONS.map(plan => (
+                    <label key={plan.id} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={form.planIds.includes(plan.id)}
+                        onChange={() => togglePlanId(plan.id)}
+                        className="mr-2"
+                      />
+                      {plan.label}
+                    </label>
+                  ))}
+                  {(['individual', 'dealer'] as const).map(type => (
+                    <label key={type} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={form.planTypes.includes(type)}
+                        onChange={() => togglePlanType(type)}
+                        className="mr-2"
+                      />
+                      All {type} plans
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.firstTimeOnly}
+                  onChange={(e) => setForm(prev => ({ ...prev, firstTimeOnly: e.target.checked }))}
+                  className="mr-2"
+                />
+                First-time subscribers only
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Redemption Limit</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={form.maxRedemptions}
+                    onChange={(e) => setForm(prev => ({ ...prev, maxRedemptions: e.target.value }))}
+                    placeholder="Unlimited"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Expires On</label>
+                  <input
+                    type="date"
+                    value={form.expiresAt}
+                    onChange={(e) => setForm(prev => ({ ...prev, expiresAt: e.target.value }))}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => { setShowCreateModal(false); setForm(EMPTY_FORM); }}
+                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Creating...' : 'Create Coupon'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CouponManagement;
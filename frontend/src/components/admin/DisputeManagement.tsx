@@ -0,0 +1,466 @@
+import React, { useState, useEffect } from 'react';
+import { useToast } from '../../contexts/ToastContext';
+import { DisputeCase } from '@harborlist/shared-types';
+import { adminApi } from '../../services/adminApi';
+
+interface QueueSummary {
+  open: number;
+  escalated: number;
+  unassigned: number;
+  overdue: number;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  under_review: 'bg-blue-100 text-blue-800',
+  escalated: 'bg-red-100 text-red-800',
+  resolved: 'bg-green-100 text-green-800',
+};
+
+const PRIORITY_STYLES: Record<string, string> = {
+  low: 'text-gray-500',
+  medium: 'text-blue-600',
+  high: 'text-orange-600',
+  urgent: 'text-red-600 font-semibold',
+};
+
+const formatCurrency = (amount: number, currency: string = 'USD') =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(amount);
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ');
+
+const getDeadline = (disputeCase: DisputeCase) => {
+  if (disputeCase.sla && !disputeCase.sla.firstRespondedAt) {
+    return { label: 'First reply', dueAt: disputeCase.sla.firstResponseDueAt };
+  }
+  return { label: 'Resolve', dueAt: disputeCase.sla?.resolutionDueAt || disputeCase.respondByDate };
+};
+
+const formatTimeLeft = (dueAt: string) => {
+  const hours = Math.round((new Date(dueAt).getTime() - Date.now()) / (60 * 60 * 1000));
+  if (hours < 0) return `${Math.abs(hours)}h overdue`;
+  return hours < 48 ? `${hours}h left` : `${Math.round(hours / 24)}d left`;
+};
+
+export const DisputeManagement: React.FC = () => {
+  const { showSuccess, showError } = useToast();
+
+  const [cases, setCases] = useState<DisputeCase[]>([]);
+  const [summary, setSummary] = useState<QueueSummary | null>(null);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [selectedCase, setSelectedCase] = useState<DisputeCase | null>(null);
+  const [reply, setReply] = useState('');
+  const [showResolveModal, setShowResolveModal] = useState(false);
+  const [resolution, setResolution] = useState({ decision: 'refund' as 'refund' | 'decline', refundAmount: '', notes: '' });
+  const [showEscalateModal, setShowEscalateModal] = useState(false);
+  const [escalationReason, setEscalationReason] = useState('');
+
+  useEffect(() => {
+    loadCases();
+  }, [statusFilter]);
+
+  const loadCases = async () => {
+    setLoading(true);
+    try {
+      const response = await adminApi.getDisputedTransactions(statusFilter ? { status: statusFilter } : undefined);
+      setCases(response.disputes || []);
+      setSummary(response.summary || null);
+    } catch (error) {
+      showError('Error', 'Failed to load the dispute queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCase = async (disputeId: string) => {
+    try {
+      const response = await adminApi.getDispute(disputeId);
+      setSelectedCase(response.case);
+    } catch (error) {
+      showError('Error', 'Failed to load case');
+    }
+  };
+
+  const afterCaseChange = async (disputeId: string) => {
+    await Promise.all([openCase(disputeId), loadCases()]);
+  };
+
+  const handleReply = async () => {
+    if (!selectedCase || !reply.trim()) return;
+    try {
+      await adminApi.postDisputeMessage(selectedCase.disputeId, reply);
+      setReply('');
+      await afterCaseChange(selectedCase.disputeId);
+    } catch (error) {
+      showError('Error', error instanceof Error ? error.message : 'Failed to send reply');
+    }
+  };
+
+  const handleAssign = async () => {
+    if (!selectedCase) return;
+    try {
+      await adminApi.updateDisputeStatus(selectedCase.disputeId, 'under_review');
+      showSuccess('Success', `${selectedCase.caseNumber} assigned to you`);
+      await afterCaseChange(selectedCase.disputeId);
+    } catch (error) {
+      showError('Error', error instanceof Error ? error.message : 'Failed to assign case');
+    }
+  };
+
+  const handleEscalate = async () => {
+    if (!selectedCase || !escalationReason.trim()) return;
+    try {
+      await adminApi.updateDisputeStatus(selectedCase.disputeId, 'escalated', escalationReason);
+      showSuccess('Success', `${selectedCase.caseNumber} escalated to the finance managers`);
+      setShowEscalateModal(false);
+      setEscalationReason('');
+      await afterCaseChange(selectedCase.disputeId);
+    } catch (error) {
+      showError('Error', error instanceof Error ? error.message : 'Failed to escalate case');
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!selectedCase || !resolution.notes.trim()) return;
+    try {
+      await adminApi.resolveDispute(selectedCase.disputeId, {
+        decision: resolution.decision,
+        refundAmount: resolution.decision === 'refund' && resolution.refundAmount ? Number(resolution.refundAmount) : undefined,
+        notes: resolution.notes,
+      });
+      showSuccess('Success', resolution.decision === 'refund' ? 'Refund issued and case resolved' : 'Case declined and closed');
+      setShowResolveModal(false);
+      await afterCaseChange(selectedCase.disputeId);
+    } catch (error) {
+      showError('Error', error instanceof Error ? error.message : 'Failed to resolve case');
+    }
+  };
+
+  const isCustomerCase = selectedCase?.source === 'customer';
+  const isOpen = selectedCase && selectedCase.disputeStatus !== 'resolved';
+
+  return (
+    <div className="space-y-6">
+      {/* Queue summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Open', value: summary?.open },
+          { label: 'Escalated', value: summary?.escalated },
+          { label: 'Unassigned', value: summary?.unassigned },
+          { label: 'Past SLA', value: summary?.overdue },
+        ].map((stat) => (
+          <div key={stat.label} className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm font-medium text-gray-500">{stat.label}</p>
+            <p className="text-2xl font-semibold text-gray-900">{stat.value ?? '--'}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Queue */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Refund Requests & Disputes</h3>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">All statuses</option>
+            <option value="open">Open</option>
+            <option value="under_review">Under review</option>
+            <option value="escalated">Escalated</option>
+            <option value="resolved">Resolved</option>
+          </select>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Case</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Priority</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SLA</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {cases.map((disputeCase) => {
+                const deadline = getDeadline(disputeCase);
+                const overdue = disputeCase.disputeStatus !== 'resolved' && new Date(deadline.dueAt).getTime() < Date.now();
+                return (
+                  <tr
+                    key={disputeCase.disputeId}
+                    onClick={() => openCase(disputeCase.disputeId)}
+                    className={`cursor-pointer hover:bg-gray-50 ${selectedCase?.disputeId === disputeCase.disputeId ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{disputeCase.caseNumber}</div>
+                      <div className="text-sm text-gray-500">
+                        {disputeCase.source === 'customer'
+                          ? (disputeCase.caseType === 'refund_request' ? 'Refund request' : 'Customer dispute')
+                          : `Processor ${disputeCase.disputeType}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{disputeCase.userName}</div>
+                      <div className="text-sm text-gray-500">{disputeCase.userEmail}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(disputeCase.disputeAmount, disputeCase.currency)}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm capitalize ${PRIORITY_STYLES[disputeCase.priority]}`}>
+                      {disputeCase.priority}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[disputeCase.disputeStatus]}`}>
+                        {formatStatus(disputeCase.disputeStatus)}
+                      </span>
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${overdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                      {disputeCase.disputeStatus === 'resolved' ? '—' : `${deadline.label}: ${formatTimeLeft(deadline.dueAt)}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {!loading && cases.length === 0 && (
+            <div className="text-center py-8 text-gray-500">No cases in the queue</div>
+          )}
+        </div>
+      </div>
+
+      {/* Case detail */}
+      {selectedCase && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">{selectedCase.caseNumber}</h3>
+              <p className="text-sm text-gray-500">
+                {selectedCase.disputeReason} · Transaction {selectedCase.transactionId}
+                {selectedCase.assignedTo ? ` · Assigned to ${selectedCase.assignedTo}` : ' · Unassigned'}
+              </p>
+              {selectedCase.escalationReason && selectedCase.disputeStatus === 'escalated' && (
+                <p className="text-sm text-red-600 mt-1">Escalated: {selectedCase.escalationReason}</p>
+              )}
+              {selectedCase.resolution && (
+                <p className="text-sm text-green-700 mt-1 capitalize">
+                  {selectedCase.resolution.outcome}
+                  {selectedCase.resolution.refundAmount ? ` ${formatCurrency(selectedCase.resolution.refundAmount, selectedCase.currency)}` : ''}
+                  {' '}on {new Date(selectedCase.resolution.resolvedAt).toLocaleDateString()}
+                </p>
+              )}
+            </div>
+            {isOpen && (
+              <div className="flex space-x-2">
+                <button onClick={handleAssign} className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50">
+                  Assign to Me
+                </button>
+                <button onClick={() => setShowEscalateModal(true)} className="px-3 py-2 border border-red-300 rounded-md text-sm text-red-700 hover:bg-red-50">
+                  Escalate
+                </button>
+                {isCustomerCase && (
+                  <button
+                    onClick={() => {
+                      setResolution({ decision: 'refund', refundAmount: String(selectedCase.disputeAmount), notes: '' });
+                      setShowResolveModal(true);
+                    }}
+                    className="px-3 py-2 bg-green-600 text-white rounded-md text-sm hover:bg-green-700"
+                  >
+                    Resolve
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 p-6">
+            <div className="lg:col-span-2 space-y-3">
+              <h4 className="text-sm font-medium text-gray-900">Conversation</h4>
+              {(selectedCase.messages || []).length === 0 && (
+                <p className="text-sm text-gray-500">No messages on this case</p>
+              )}
+              {(selectedCase.messages || []).map((message) => (
+                <div
+                  key={message.messageId}
+                  className={`rounded-lg px-4 py-3 text-sm ${
+                    message.authorRole === 'staff'
+                      ? 'bg-blue-50 ml-12'
+                      : message.authorRole === 'system'
+                        ? 'bg-gray-50 text-gray-500 italic'
+                        : 'bg-gray-100 mr-12'
+                  }`}
+                >
+                  <div className="flex justify-between text-xs text-gray-500 mb-1">
+                    <span>{message.authorName} ({message.authorRole})</span>
+                    <span>{new Date(message.createdAt).toLocaleString()}</span>
+                  </div>
+                  <p className="text-gray-900 whitespace-pre-wrap">{message.body}</p>
+                </div>
+              ))}
+              {isOpen && isCustomerCase && (
+                <div>
+                  <textarea
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    rows={3}
+                    placeholder="Reply to the customer"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                  <div className="flex justify-end mt-2">
+                    <button
+                      onClick={handleReply}
+                      disabled={!reply.trim()}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Send Reply
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">SLA</h4>
+                {selectedCase.sla ? (
+                  <dl className="text-sm space-y-1">
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">First reply due</dt>
+                      <dd className="text-gray-900">{new Date(selectedCase.sla.firstResponseDueAt).toLocaleString()}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">First replied</dt>
+                      <dd className="text-gray-900">
+                        {selectedCase.sla.firstRespondedAt ? new Date(selectedCase.sla.firstRespondedAt).toLocaleString() : '—'}
+                      </dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">Resolution due</dt>
+                      <dd className="text-gray-900">{new Date(selectedCase.sla.resolutionDueAt).toLocaleString()}</dd>
+                    </div>
+                    {selectedCase.sla.breached?.length ? (
+                      <div className="text-red-600">Missed: {selectedCase.sla.breached.map(formatStatus).join(', ')}</div>
+                    ) : null}
+                  </dl>
+                ) : (
+                  <p className="text-sm text-gray-500">Respond by {new Date(selectedCase.respondByDate).toLocaleString()}</p>
+                )}
+              </div>
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Evidence</h4>
+                {selectedCase.evidenceSubmitted.length === 0 ? (
+                  <p className="text-sm text-gray-500">No evidence submitted</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {selectedCase.evidenceSubmitted.map((evidence) => (
+                      <li key={evidence.evidenceId} className="text-gray-700">
+                        <span className="capitalize">{evidence.type}</span>: {evidence.description}
+                        {evidence.fileUrl && (
+                          <a href={evidence.fileUrl} target="_blank" rel="noopener noreferrer" className="ml-2 text-blue-600 hover:underline">
+                            View
+                          </a>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Resolve modal */}
+      {showResolveModal && selectedCase && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Resolve {selectedCase.caseNumber}</h3>
+            <div className="space-y-4">
+              <div className="flex gap-4">
+                {(['refund', 'decline'] as const).map((decision) => (
+                  <label key={decision} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={resolution.decision === decision}
+                      onChange={() => setResolution({ ...resolution, decision })}
+                      className="mr-2"
+                    />
+                    {decision === 'refund' ? 'Refund' : 'Decline'}
+                  </label>
+                ))}
+              </div>
+              {resolution.decision === 'refund' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Refund amount</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={resolution.refundAmount}
+                    onChange={(e) => setResolution({ ...resolution, refundAmount: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Charged {formatCurrency(selectedCase.amount, selectedCase.currency)}; the refund is sent through the payment processor.
+                  </p>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Note to the customer</label>
+                <textarea
+                  value={resolution.notes}
+                  onChange={(e) => setResolution({ ...resolution, notes: e.target.value })}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-3 mt-6">
+              <button onClick={() => setShowResolveModal(false)} className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50">
+                Cancel
+              </button>
+              <button
+                onClick={handleResolve}
+                disabled={!resolution.notes.trim()}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {resolution.decision === 'refund' ? 'Issue Refund' : 'Decline'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Escalate modal */}
+      {showEscalateModal && selectedCase && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Escalate {selectedCase.caseNumber}</h3>
+            <textarea
+              value={escalationReason}
+              onChange={(e) => setEscalationReason(e.target.value)}
+              rows={3}
+              placeholder="Why does this case need a finance manager?"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <div className="flex justify-end space-x-3 mt-6">
+              <button onClick={() => setShowEscalateModal(false)} className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50">
+                Cancel
+              </button>
+              <button
+                onClick={handleEscalate}
+                disabled={!escalationReason.trim()}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                Escalate
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
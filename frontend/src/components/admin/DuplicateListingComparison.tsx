@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { DuplicateComparison, DuplicateSignal, FlaggedListing } from '@harborlist/shared-types';
+
+interface DuplicateListingComparisonProps {
+  listing: FlaggedListing;
+  matches: DuplicateComparison[];
+}
+
+const SIGNAL_LABELS: Record<DuplicateSignal, string> = {
+  hin: 'Same HIN',
+  image: 'Matching photos',
+  description: 'Copied description',
+  model_year: 'Same make/model/year'
+};
+
+interface ComparedListing {
+  title: string;
+  description?: string;
+  price: number;
+  location: { city: string; state: string };
+  boatDetails?: FlaggedListing['boatDetails'];
+  status: string;
+  createdAt?: number;
+}
+
+/**
+ * Shows a listing next to the listings duplicate detection matched it with,
+ * including the matching photo pairs, so moderators can tell a scam repost
+ * from a legitimate relisting
+ */
+const DuplicateListingComparison: React.FC<DuplicateListingComparisonProps> = ({ listing, matches }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const match = matches[Math.min(selectedIndex, matches.length - 1)];
+
+  if (!match) {
+    return null;
+  }
+
+  const formatPrice = (price: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(price);
+
+  const renderColumn = (heading: string, compared: ComparedListing, ownerId: string, href?: string) => (
+    <div className="border rounded-lg p-4 space-y-3 min-w-0">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">{heading}</span>
+        {href && (
+          <a href={href} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 hover:text-blue-800">
+            Open review ↗
+          </a>
+        )}
+      </div>
+      <h4 className="font-medium text-gray-900 break-words">{compared.title}</h4>
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm">
+        <dt className="text-gray-500">Price</dt>
+        <dd className="text-gray-900">{formatPrice(compared.price)}</dd>
+        <dt className="text-gray-500">Location</dt>
+        <dd className="text-gray-900">{compared.location?.city}, {compared.location?.state}</dd>
+        <dt className="text-gray-500">Boat</dt>
+        <dd className="text-gray-900">
+          {[compared.boatDetails?.year, compared.boatDetails?.manufacturer, compared.boatDetails?.model].filter(Boolean).join(' ') || '—'}
+        </dd>
+        <dt className="text-gray-500">HIN</dt>
+        <dd className="text-gray-900 font-mono text-xs">{compared.boatDetails?.hin || '—'}</dd>
+        <dt className="text-gray-500">Seller</dt>
+        <dd className="text-gray-900 font-mono text-xs truncate">{ownerId}</dd>
+        <dt className="text-gray-500">Status</dt>
+        <dd className="text-gray-900">{compared.status.replace(/_/g, ' ')}</dd>
+        {compared.createdAt && (
+          <>
+            <dt className="text-gray-500">Listed</dt>
+            <dd className="text-gray-900">{new Date(compared.createdAt).toLocaleDateString()}</dd>
+          </>
+        )}
+      </dl>
+      <p className="text-sm text-gray-700 whitespace-pre-wrap max-h-48 overflow-y-auto border-t pt-3">
+        {compared.description}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">
+          Possible Duplicates ({matches.length})
+        </h3>
+        {matches.length > 1 && (
+          <select
+            value={selectedIndex}
+            onChange={(e) => setSelectedIndex(Number(e.target.value))}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+          >
+            {matches.map((m, index) => (
+              <option key={m.listingId} value={index}>
+                {m.listing?.title || `Deleted listing ${m.listingId}`}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Evidence */}
+      <div className="flex flex-wrap items-center gap-2">
+        {match.signals.map(signal => (
+          <span
+            key={signal}
+            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+              signal === 'model_year' ? 'bg-gray-100 text-gray-700' : 'bg-red-100 text-red-800'
+            }`}
+          >
+            {SIGNAL_LABELS[signal]}
+          </span>
+        ))}
+        {match.descriptionSimilarity > 0 && (
+          <span className="text-xs text-gray-600">
+            Description {Math.round(match.descriptionSimilarity * 100)}% similar
+          </span>
+        )}
+      </div>
+
+      {/* Side by side */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {renderColumn('This listing', listing as ComparedListing, listing.ownerId)}
+        {match.listing ? (
+          renderColumn('Matched listing', match.listing, match.ownerId, `/admin/moderation/review/${match.listingId}`)
+        ) : (
+          <div className="border rounded-lg p-4 flex items-center justify-center text-sm text-gray-500">
+            The matched listing has since been deleted
+          </div>
+        )}
+      </div>
+
+      {/* Matching photos */}
+      {match.imageMatches.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-3">
+            Matching Photos ({match.imageMatches.length})
+          </h4>
+          <div className="space-y-3">
+            {match.imageMatches.map(imageMatch => (
+              <div key={imageMatch.image} className="grid grid-cols-2 gap-4 items-center">
+                <img src={imageMatch.image} alt="Photo on this listing" className="w-full h-40 object-cover rounded-lg" />
+                <div className="relative">
+                  <img src={imageMatch.matchedImage} alt="Photo on matched listing" className="w-full h-40 object-cover rounded-lg" />
+                  <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-black bg-opacity-60 text-white text-xs">
+                    {imageMatch.distance === 0 ? 'Identical' : `${imageMatch.distance} bits apart`}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateListingComparison;
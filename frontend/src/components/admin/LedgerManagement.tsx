@@ -0,0 +1,493 @@
+import React, { useState, useEffect } from 'react';
+import { useToast } from '../../contexts/ToastContext';
+import { LedgerAccount, LedgerPeriod } from '@harborlist/shared-types';
+import { adminApi } from '../../services/adminApi';
+
+interface TrialBalanceRow {
+  accountCode: string;
+  accountName: string;
+  accountType: LedgerAccount['type'];
+  debit: number;
+  credit: number;
+}
+
+interface TrialBalance {
+  asOf: string;
+  rows: TrialBalanceRow[];
+  totalDebits: number;
+  totalCredits: number;
+  balanced: boolean;
+}
+
+interface AccountStatement {
+  accountCode: string;
+  accountName: string;
+  normalBalance: 'debit' | 'credit';
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  lines: Array<{
+    entryId: string;
+    postedAt: string;
+    description: string;
+    sourceType: string;
+    debit: number;
+    credit: number;
+    balance: number;
+    memo?: string;
+  }>;
+}
+
+interface AdjustmentLine {
+  accountCode: string;
+  debit: string;
+  credit: string;
+}
+
+const EMPTY_LINES: AdjustmentLine[] = [
+  { accountCode: '', debit: '', credit: '' },
+  { accountCode: '', debit: '', credit: '' },
+];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const currentPeriod = () => new Date().toISOString().slice(0, 7);
+
+export const LedgerManagement: React.FC = () => {
+  const { showSuccess, showError } = useToast();
+
+  const [accounts, setAccounts] = useState<LedgerAccount[]>([]);
+  const [asOf, setAsOf] = useState(toDateInput(new Date()));
+  const [trialBalance, setTrialBalance] = useState<TrialBalance | null>(null);
+  const [loadingTrialBalance, setLoadingTrialBalance] = useState(true);
+
+  const [selectedAccount, setSelectedAccount] = useState<string | null>(null);
+  const [statementStart, setStatementStart] = useState(toDateInput(new Date(Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), 1))));
+  const [statementEnd, setStatementEnd] = useState(toDateInput(new Date()));
+  const [statement, setStatement] = useState<AccountStatement | null>(null);
+  const [loadingStatement, setLoadingStatement] = useState(false);
+
+  const [periods, setPeriods] = useState<LedgerPeriod[]>([]);
+  const [closingPeriod, setClosingPeriod] = useState<string | null>(null);
+  const [reconciling, setReconciling] = useState(false);
+
+  const [showAdjustmentModal, setShowAdjustmentModal] = useState(false);
+  const [adjustmentDescription, setAdjustmentDescription] = useState('');
+  const [adjustmentLines, setAdjustmentLines] = useState<AdjustmentLine[]>(EMPTY_LINES);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadAccounts();
+    loadPeriods();
+  }, []);
+
+  useEffect(() => {
+    loadTrialBalance();
+  }, [asOf]);
+
+  useEffect(() => {
+    if (selectedAccount) {
+      loadStatement(selectedAccount);
+    }
+  }, [selectedAccount, statementStart, statementEnd]);
+
+  const loadAccounts = async () => {
+    try {
+      const response = await adminApi.getLedgerAccounts();
+      setAccounts(response.accounts || []);
+    } catch (error) {
+      showError('Error', 'Failed to load ledger accounts');
+    }
+  };
+
+  const loadTrialBalance = async () => {
+    try {
+      setLoadingTrialBalance(true);
+      const response = await adminApi.getTrialBalance({ asOf: new Date(`${asOf}T23:59:59.999Z`).toISOString() });
+      setTrialBalance(response.trialBalance);
+    } catch (error) {
+      showError('Error', 'Failed to load trial balance');
+    } finally {
+      setLoadingTrialBalance(false);
+    }
+  };
+
+  const loadStatement = async (accountCode: string) => {
+    try {
+      setLoadingStatement(true);
+      const response = await adminApi.getAccountStatement(accountCode, {
+        startDate: new Date(`${statementStart}T00:00:00Z`).toISOString(),
+        endDate: new Date(`${statementEnd}T23:59:59.999Z`).toISOString(),
+      });
+      setStatement(response.statement);
+    } catch (error) {
+      showError('Error', 'Failed to load account statement');
+    } finally {
+      setLoadingStatement(false);
+    }
+  };
+
+  const loadPeriods = async () => {
+    try {
+      const response = await adminApi.getLedgerPeriods();
+      setPeriods(response.periods || []);
+    } catch (error) {
+      showError('Error', 'Failed to load ledger periods');
+    }
+  };
+
+  const handleClosePeriod = async (period: string) => {
+    if (!window.confirm(`Close ${period}? No further entries can be posted to it.`)) {
+      return;
+    }
+    setClosingPeriod(period);
+    try {
+      await adminApi.closeLedgerPeriod(period);
+      showSuccess('Period Closed', `${period} is now locked`);
+      loadPeriods();
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to close period');
+    } finally {
+      setClosingPeriod(null);
+    }
+  };
+
+  const handleReconcile = async () => {
+    setReconciling(true);
+    try {
+      const result = await adminApi.reconcileLedger({
+        startDate: new Date(`${statementStart}T00:00:00Z`).toISOString(),
+        endDate: new Date(`${statementEnd}T23:59:59.999Z`).toISOString(),
+      });
+      showSuccess('Ledger Reconciled', `${result.posted} of ${result.checked} transactions were missing and have been posted`);
+      loadTrialBalance();
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to reconcile ledger');
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<AdjustmentLine>) => {
+    setAdjustmentLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const adjustmentDebits = adjustmentLines.reduce((sum, line) => sum + (Number(line.debit) || 0), 0);
+  const adjustmentCredits = adjustmentLines.reduce((sum, line) => sum + (Number(line.credit) || 0), 0);
+  const adjustmentBalanced = adjustmentDebits > 0 && Math.abs(adjustmentDebits - adjustmentCredits) < 0.005;
+
+  const handlePostAdjustment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await adminApi.postLedgerAdjustment({
+        description: adjustmentDescription,
+        lines: adjustmentLines
+          .filter(line => line.accountCode)
+          .map(line => ({
+            accountCode: line.accountCode,
+            debit: Number(line.debit) || 0,
+            credit: Number(line.credit) || 0,
+          })),
+      });
+      showSuccess('Adjustment Posted', adjustmentDescription);
+      setShowAdjustmentModal(false);
+      setAdjustmentDescription('');
+      setAdjustmentLines(EMPTY_LINES);
+      loadTrialBalance();
+      if (selectedAccount) loadStatement(selectedAccount);
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to post adjustment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+  const headerClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+  return (
+    <div className="space-y-6">
+      {/* Trial Balance */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <h3 className="text-lg font-medium text-gray-900">Trial Balance</h3>
+            {trialBalance && (
+              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                trialBalance.balanced ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+              }`}>
+                {trialBalance.balanced ? 'Balanced' : 'Out of balance'}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="text-sm text-gray-500">As of</label>
+            <input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className={inputClass} />
+            <button
+              onClick={() => setShowAdjustmentModal(true)}
+              className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+            >
+              Post Adjustment
+            </button>
+          </div>
+        </div>
+        {loadingTrialBalance ? (
+          <div className="px-6 py-8 text-center text-gray-500">Loading trial balance...</div>
+        ) : trialBalance && (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>Account</th>
+                  <th className={headerClass}>Type</th>
+                  <th className={`${headerClass} text-right`}>Debit</th>
+                  <th className={`${headerClass} text-right`}>Credit</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {trialBalance.rows.map((row) => (
+                  <tr
+                    key={row.accountCode}
+                    onClick={() => setSelectedAccount(row.accountCode)}
+                    className={`cursor-pointer hover:bg-gray-50 ${selectedAccount === row.accountCode ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                      <span className="font-mono text-gray-500 mr-2">{row.accountCode}</span>
+                      {row.accountName}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 capitalize">{row.accountType}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {row.debit ? formatCurrency(row.debit) : ''}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {row.credit ? formatCurrency(row.credit) : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900" colSpan={2}>Total</td>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900 text-right">{formatCurrency(trialBalance.totalDebits)}</td>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900 text-right">{formatCurrency(trialBalance.totalCredits)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Account Statement */}
+      {selectedAccount && (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+            <h3 className="text-lg font-medium text-gray-900">
+              Statement: {statement?.accountCode === selectedAccount ? statement.accountName : selectedAccount}
+            </h3>
+            <div className="flex items-center gap-3">
+              <input type="date" value={statementStart} onChange={(e) => setStatementStart(e.target.value)} className={inputClass} />
+              <span className="text-gray-500">to</span>
+              <input type="date" value={statementEnd} onChange={(e) => setStatementEnd(e.target.value)} className={inputClass} />
+              <button onClick={() => setSelectedAccount(null)} className="text-sm text-gray-500 hover:text-gray-700">
+                Close
+              </button>
+            </div>
+          </div>
+          {loadingStatement || !statement ? (
+            <div className="px-6 py-8 text-center text-gray-500">Loading statement...</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={headerClass}>Posted</th>
+                    <th className={headerClass}>Description</th>
+                    <th className={`${headerClass} text-right`}>Debit</th>
+                    <th className={`${headerClass} text-right`}>Credit</th>
+                    <th className={`${headerClass} text-right`}>Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  <tr className="bg-gray-50">
+                    <td className="px-6 py-3 text-sm text-gray-500" colSpan={4}>Opening balance</td>
+                    <td className="px-6 py-3 text-sm font-medium text-gray-900 text-right">{formatCurrency(statement.openingBalance)}</td>
+                  </tr>
+                  {statement.lines.map((line, index) => (
+                    <tr key={`${line.entryId}-${index}`}>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(line.postedAt).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-900">
+                        {line.description}
+                        {line.memo && <span className="text-gray-500"> · {line.memo}</span>}
+                        <div className="text-xs text-gray-500">{line.sourceType.replace('_', ' ')}</div>
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                        {line.debit ? formatCurrency(line.debit) : ''}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                        {line.credit ? formatCurrency(line.credit) : ''}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">{formatCurrency(line.balance)}</td>
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-50">
+                    <td className="px-6 py-3 text-sm font-medium text-gray-900" colSpan={2}>Closing balance</td>
+                    <td className="px-6 py-3 text-sm text-gray-900 text-right">{formatCurrency(statement.totalDebits)}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900 text-right">{formatCurrency(statement.totalCredits)}</td>
+                    <td className="px-6 py-3 text-sm font-medium text-gray-900 text-right">{formatCurrency(statement.closingBalance)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Periods */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Periods</h3>
+          <button
+            onClick={handleReconcile}
+            disabled={reconciling}
+            className="px-4 py-2 border border-gray-300 text-sm rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {reconciling ? 'Reconciling...' : 'Reconcile Transactions'}
+          </button>
+        </div>
+        {periods.length === 0 ? (
+          <div className="px-6 py-8 text-center text-gray-500">Nothing has been posted yet</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerClass}>Period</th>
+                <th className={headerClass}>Status</th>
+                <th className={headerClass}>Entries</th>
+                <th className={headerClass}>Closed</th>
+                <th className={headerClass}>Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {periods.map((period) => (
+                <tr key={period.period}>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm font-mono text-gray-900">{period.period}</td>
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      period.status === 'closed' ? 'bg-gray-100 text-gray-800' : 'bg-green-100 text-green-800'
+                    }`}>
+                      {period.status === 'closed' ? 'Closed' : 'Open'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{period.entryCount ?? '—'}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {period.closedAt ? `${new Date(period.closedAt).toLocaleDateString()} by ${period.closedBy}` : '—'}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm font-medium">
+                    {period.status === 'open' && period.period < currentPeriod() && (
+                      <button
+                        onClick={() => handleClosePeriod(period.period)}
+                        disabled={closingPeriod === period.period}
+                        className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                      >
+                        {closingPeriod === period.period ? 'Closing...' : 'Close Period'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Adjustment Modal */}
+      {showAdjustmentModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Post Adjustment</h3>
+            <form onSubmit={handlePostAdjustment} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <input
+                  type="text"
+                  value={adjustmentDescription}
+                  onChange={(e) => setAdjustmentDescription(e.target.value)}
+                  placeholder="e.g. Correct processor fee for March settlement"
+                  className={`w-full ${inputClass}`}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                {adjustmentLines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-6 gap-2">
+                    <select
+                      value={line.accountCode}
+                      onChange={(e) => updateLine(index, { accountCode: e.target.value })}
+                      className={`col-span-4 ${inputClass}`}
+                    >
+                      <option value="">Select account</option>
+                      {accounts.map((account) => (
+                        <option key={account.code} value={account.code}>{account.code} {account.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Debit"
+                      value={line.debit}
+                      onChange={(e) => updateLine(index, { debit: e.target.value, credit: '' })}
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Credit"
+                      value={line.credit}
+                      onChange={(e) => updateLine(index, { credit: e.target.value, debit: '' })}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setAdjustmentLines(prev => [...prev, { accountCode: '', debit: '', credit: '' }])}
+                  className="text-sm text-blue-600 hover:text-blue-900"
+                >
+                  Add line
+                </button>
+              </div>
+              <div className={`text-sm ${adjustmentBalanced ? 'text-green-700' : 'text-red-600'}`}>
+                Debits {formatCurrency(adjustmentDebits)} · Credits {formatCurrency(adjustmentCredits)}
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => { setShowAdjustmentModal(false); setAdjustmentLines(EMPTY_LINES); }}
+                  className="px-4 py-2 border border-gray-300 text-sm rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving || !adjustmentBalanced}
+                  className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Posting...' : 'Post'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -263,11 +263,12 @@ const ListingModerationQueue: React.FC<ListingModerationQueueProps> = ({
           bValue = b.flags.length;
           break;
         case 'priority':
-          const priorityOrder: Record<string, number> = { critical: 4, high: 3, medium: 2, low: 1 };
+          const priorityOrder: Record<string, number> = { critical: 4, urgent: 4, high: 3, medium: 2, low: 1 };
           const aPriorityFlag = getHighestSeverity(a.flags);
           const bPriorityFlag = getHighestSeverity(b.flags);
-          const aPriority = aPriorityFlag?.severity || 'low';
-          const bPriority = bPriorityFlag?.severity || 'low';
+          // User reports raise queue priority above what flag severity alone suggests
+          const aPriority = a.priority || aPriorityFlag?.severity || 'low';
+          const bPriority = b.priority || bPriorityFlag?.severity || 'low';
           aValue = priorityOrder[aPriority] || 0;
           bValue = priorityOrder[bPriority] || 0;
           break;
@@ -819,14 +820,21 @@ const ListingModerationQueue: React.FC<ListingModerationQueueProps> = ({
                           {highestSeverityFlag.severity} priority
                         </span>
                       )}
+
+                      {listing.openReports ? (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-50 text-red-700 border border-red-200">
+                          🚩 {listing.openReports} {listing.openReports === 1 ? 'report' : 'reports'}
+                        </span>
+                      ) : null}
                       
                       {/* SLA Status Indicator */}
                       {(() => {
-                        const hoursInQueue = (Date.now() - new Date(listing.flaggedAt).getTime()) / (1000 * 60 * 60);
-                        const slaHours = 24; // Default SLA
-                        const slaProgress = (hoursInQueue / slaHours) * 100;
+                        // Queue items carry their SLA due date; fall back to the default 24 hour SLA
+                        const queuedAt = new Date(listing.flaggedAt).getTime();
+                        const dueAt = listing.dueDate || queuedAt + 24 * 60 * 60 * 1000;
+                        const slaProgress = ((Date.now() - queuedAt) / Math.max(dueAt - queuedAt, 1)) * 100;
                         
-                        if (slaProgress > 100) {
+                        if (listing.escalated || slaProgress > 100) {
                           return (
                             <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-red-100 text-red-800 border border-red-200">
                               <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { AdminUser, ModerationWorkflow } from '@harborlist/shared-types';
+import { AdminUser, ModerationWorkloadSummary, ModeratorWorkload } from '@harborlist/shared-types';
 import { adminApi } from '../../services/adminApi';
 
 interface ModerationWorkloadBalancerProps {
@@ -8,24 +8,13 @@ interface ModerationWorkloadBalancerProps {
   className?: string;
 }
 
-interface WorkloadData {
-  moderatorId: string;
-  moderatorName: string;
-  currentLoad: number;
-  capacity: number;
-  utilizationRate: number;
-  averageReviewTime: number;
-  pendingItems: number;
-  completedToday: number;
-  status: 'available' | 'busy' | 'overloaded' | 'offline';
-}
-
 const ModerationWorkloadBalancer: React.FC<ModerationWorkloadBalancerProps> = ({
   moderators,
   onRebalance,
   className = ''
 }) => {
-  const [workloadData, setWorkloadData] = useState<WorkloadData[]>([]);
+  const [workloadData, setWorkloadData] = useState<ModeratorWorkload[]>([]);
+  const [summary, setSummary] = useState<ModerationWorkloadSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [rebalancing, setRebalancing] = useState(false);
   const [autoBalance, setAutoBalance] = useState(false);
@@ -39,6 +28,10 @@ const ModerationWorkloadBalancer: React.FC<ModerationWorkloadBalancerProps> = ({
       setLoading(true);
       const response = await adminApi.getModerationWorkload();
       setWorkloadData(response.workload || []);
+      if (typeof response.slaCompliance === 'number') {
+        setSummary(response);
+        setAutoBalance(Boolean(response.autoAssignment));
+      }
     } catch (err) {
       console.error('Failed to load workload data:', err);
     } finally {
@@ -126,6 +119,29 @@ const ModerationWorkloadBalancer: React.FC<ModerationWorkloadBalancerProps> = ({
       </div>
 
       <div className="p-6">
+        {summary && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="rounded-lg bg-gray-50 p-4">
+              <div className="text-sm text-gray-500">SLA Compliance</div>
+              <div className={`text-lg font-semibold ${summary.slaCompliance >= 90 ? 'text-green-600' : 'text-red-600'}`}>
+                {summary.slaCompliance}% within {summary.slaHours}h SLA
+              </div>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-4">
+              <div className="text-sm text-gray-500">Overdue Items</div>
+              <div className={`text-lg font-semibold ${summary.overdue > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {summary.overdue} overdue
+              </div>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-4">
+              <div className="text-sm text-gray-500">Unassigned Items</div>
+              <div className="text-lg font-semibold text-gray-900">
+                {summary.unassigned} waiting for a moderator
+              </div>
+            </div>
+          </div>
+        )}
+
         <div className="space-y-4">
           {workloadData.map((moderator) => (
             <div key={moderator.moderatorId} className="border rounded-lg p-4">
@@ -138,6 +154,9 @@ const ModerationWorkloadBalancer: React.FC<ModerationWorkloadBalancerProps> = ({
                 </div>
                 <div className="text-sm text-gray-500">
                   {moderator.completedToday} completed today
+                  {moderator.overdueItems > 0 && (
+                    <span className="ml-2 text-red-600">{moderator.overdueItems} overdue</span>
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,238 @@
+import React from 'react';
+import { PendingUpdateFieldChange } from '@harborlist/shared-types';
+import { diffImages, diffSpecs, diffWords } from '../../utils/listingDiff';
+
+export interface FieldDecisionDraft {
+  decision: 'approve' | 'reject';
+  reason: string;
+}
+
+interface PendingUpdateDiffProps {
+  changes: PendingUpdateFieldChange[];
+  decisions: Record<string, FieldDecisionDraft>;
+  onDecisionChange: (field: string, decision: FieldDecisionDraft | null) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  price: 'Price',
+  images: 'Photos',
+  features: 'Features',
+  specifications: 'Additional Specifications',
+  boatDetails: 'Boat Details',
+  engines: 'Engines',
+  location: 'Location',
+  condition: 'Condition'
+};
+
+const TEXT_FIELDS = ['title', 'description'];
+const TABLE_FIELDS = ['specifications', 'boatDetails', 'location'];
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(price);
+
+const formatValue = (value: unknown) =>
+  value === undefined || value === null || value === '' ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/**
+ * Shows each field of a pending listing update next to its live value -
+ * a word diff for text, photos added and removed, and a table diff for
+ * specifications - with approve and reject controls per field
+ */
+const PendingUpdateDiff: React.FC<PendingUpdateDiffProps> = ({ changes, decisions, onDecisionChange }) => {
+  const renderTextDiff = (change: PendingUpdateFieldChange) => (
+    <p className="text-sm text-gray-700 whitespace-pre-wrap">
+      {diffWords(change.oldValue || '', change.newValue || '').map((part, index) => (
+        <span
+          key={index}
+          className={
+            part.type === 'added' ? 'bg-green-100 text-green-900' :
+            part.type === 'removed' ? 'bg-red-100 text-red-900 line-through' : ''
+          }
+        >
+          {part.text}
+        </span>
+      ))}
+    </p>
+  );
+
+  const renderImageDiff = (change: PendingUpdateFieldChange) => {
+    const { kept, added, removed } = diffImages(change.oldValue, change.newValue);
+    const groups = [
+      { label: 'Added', images: added, className: 'border-green-500' },
+      { label: 'Removed', images: removed, className: 'border-red-500 opacity-60' },
+      { label: 'Unchanged', images: kept, className: 'border-gray-200' }
+    ];
+
+    return (
+      <div className="space-y-3">
+        {groups.filter(group => group.images.length > 0).map(group => (
+          <div key={group.label}>
+            <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+              {group.label} ({group.images.length})
+            </h5>
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {group.images.map(image => (
+                <a key={image} href={image} target="_blank" rel="noopener noreferrer">
+                  <img
+                    src={image}
+                    alt={`${group.label} photo`}
+                    className={`w-full h-24 object-cover rounded border-2 ${group.className}`}
+                  />
+                </a>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderTableDiff = (oldValue: Record<string, any> | undefined, newValue: Record<string, any> | undefined) => (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+          <th className="py-1 pr-3">Specification</th>
+          <th className="py-1 pr-3">Live</th>
+          <th className="py-1">Proposed</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {diffSpecs(oldValue, newValue).map(row => (
+          <tr
+            key={row.key}
+            className={
+              row.change === 'added' ? 'bg-green-50' :
+              row.change === 'removed' ? 'bg-red-50' :
+              row.change === 'changed' ? 'bg-yellow-50' : ''
+            }
+          >
+            <td className="py-1 pr-3 text-gray-500">{row.key}</td>
+            <td className={`py-1 pr-3 ${row.change === 'removed' || row.change === 'changed' ? 'line-through text-red-700' : 'text-gray-900'}`}>
+              {row.oldValue ?? '—'}
+            </td>
+            <td className={`py-1 ${row.change === 'added' || row.change === 'changed' ? 'font-medium text-green-700' : 'text-gray-900'}`}>
+              {row.newValue ?? '—'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const renderListDiff = (oldValue: string[] = [], newValue: string[] = []) => (
+    <div className="flex flex-wrap gap-2">
+      {oldValue.filter(item => !newValue.includes(item)).map(item => (
+        <span key={`removed-${item}`} className="px-2 py-1 rounded-full text-xs bg-red-100 text-red-800 line-through">{item}</span>
+      ))}
+      {newValue.map(item => (
+        <span
+          key={item}
+          className={`px-2 py-1 rounded-full text-xs ${oldValue.includes(item) ? 'bg-gray-100 text-gray-700' : 'bg-green-100 text-green-800'}`}
+        >
+          {item}
+        </span>
+      ))}
+    </div>
+  );
+
+  const renderChange = (change: PendingUpdateFieldChange) => {
+    if (TEXT_FIELDS.includes(change.field)) {
+      return renderTextDiff(change);
+    }
+    if (change.field === 'images') {
+      return renderImageDiff(change);
+    }
+    if (TABLE_FIELDS.includes(change.field)) {
+      return renderTableDiff(change.oldValue, change.newValue);
+    }
+    if (change.field === 'engines') {
+      const byEngine = (engines: any[] = []) =>
+        Object.fromEntries(engines.map((engine, index) => [`Engine ${index + 1}`, engine]));
+      return renderTableDiff(byEngine(change.oldValue), byEngine(change.newValue));
+    }
+    if (change.field === 'features') {
+      return renderListDiff(change.oldValue, change.newValue);
+    }
+    if (change.field === 'price') {
+      const percent = change.oldValue ? ((change.newValue - change.oldValue) / change.oldValue) * 100 : 0;
+      return (
+        <p className="text-sm">
+          <span className="line-through text-red-700">{formatPrice(change.oldValue)}</span>
+          <span className="mx-2 text-gray-400">→</span>
+          <span className="font-medium text-green-700">{formatPrice(change.newValue)}</span>
+          <span className="ml-2 text-gray-500">({percent > 0 ? '+' : ''}{percent.toFixed(1)}%)</span>
+        </p>
+      );
+    }
+    return (
+      <p className="text-sm break-words">
+        <span className="line-through text-red-700">{formatValue(change.oldValue)}</span>
+        <span className="mx-2 text-gray-400">→</span>
+        <span className="font-medium text-green-700">{formatValue(change.newValue)}</span>
+      </p>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">Pending Update ({changes.length} changed fields)</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Approve or reject each change. Approved fields go live, rejected fields are discarded and the owner is told why.
+        Fields left undecided stay pending.
+      </p>
+      <div className="space-y-4">
+        {changes.map(change => {
+          const decision = decisions[change.field];
+          return (
+            <div
+              key={change.field}
+              className={`border-2 rounded-lg p-4 ${
+                decision?.decision === 'approve' ? 'border-green-300' :
+                decision?.decision === 'reject' ? 'border-red-300' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-medium text-gray-900">{FIELD_LABELS[change.field] || change.field}</h4>
+                <div className="flex space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => onDecisionChange(change.field, decision?.decision === 'approve' ? null : { decision: 'approve', reason: '' })}
+                    className={`px-3 py-1 text-sm rounded-md border ${
+                      decision?.decision === 'approve' ? 'bg-green-600 border-green-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    Approve
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDecisionChange(change.field, decision?.decision === 'reject' ? null : { decision: 'reject', reason: '' })}
+                    className={`px-3 py-1 text-sm rounded-md border ${
+                      decision?.decision === 'reject' ? 'bg-red-600 border-red-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+              {renderChange(change)}
+              {decision?.decision === 'reject' && (
+                <input
+                  type="text"
+                  value={decision.reason}
+                  onChange={(e) => onDecisionChange(change.field, { decision: 'reject', reason: e.target.value })}
+                  maxLength={500}
+                  className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+                  placeholder="Reason shown to the owner (required)"
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PendingUpdateDiff;
@@ -0,0 +1,342 @@
+import React, { useState, useEffect } from 'react';
+import { useToast } from '../../contexts/ToastContext';
+import { TaxExemptionCertificate, TaxExemptionStatus } from '@harborlist/shared-types';
+import { adminApi } from '../../services/adminApi';
+
+interface TaxLiabilityRow {
+  jurisdiction: string;
+  jurisdictionType?: string;
+  period?: string;
+  taxableAmount: number;
+  taxCollected: number;
+  taxRefunded: number;
+  netLiability: number;
+  transactionCount: number;
+}
+
+interface TaxLiabilityReport {
+  startDate: string;
+  endDate: string;
+  groupBy: 'month' | 'quarter' | 'year';
+  rulesVersion: string;
+  totals: Omit<TaxLiabilityRow, 'jurisdiction' | 'jurisdictionType' | 'period'>;
+  byJurisdiction: TaxLiabilityRow[];
+  byPeriod: TaxLiabilityRow[];
+}
+
+type ExemptionRow = TaxExemptionCertificate & {
+  billingId: string;
+  userId: string;
+  billingState?: string;
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const startOfYear = () => new Date(Date.UTC(new Date().getUTCFullYear(), 0, 1));
+
+const STATUS_STYLES: Record<TaxExemptionStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  verified: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+export const TaxManagement: React.FC = () => {
+  const { showSuccess, showError } = useToast();
+
+  const [startDate, setStartDate] = useState(toDateInput(startOfYear()));
+  const [endDate, setEndDate] = useState(toDateInput(new Date()));
+  const [groupBy, setGroupBy] = useState<TaxLiabilityReport['groupBy']>('month');
+  const [report, setReport] = useState<TaxLiabilityReport | null>(null);
+  const [loadingReport, setLoadingReport] = useState(true);
+
+  const [statusFilter, setStatusFilter] = useState<TaxExemptionStatus | ''>('pending');
+  const [certificates, setCertificates] = useState<ExemptionRow[]>([]);
+  const [loadingCertificates, setLoadingCertificates] = useState(true);
+  const [rejecting, setRejecting] = useState<ExemptionRow | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadReport();
+  }, [startDate, endDate, groupBy]);
+
+  useEffect(() => {
+    loadCertificates();
+  }, [statusFilter]);
+
+  const loadReport = async () => {
+    try {
+      setLoadingReport(true);
+      const response = await adminApi.getTaxReport({
+        startDate: new Date(`${startDate}T00:00:00Z`).toISOString(),
+        endDate: new Date(`${endDate}T23:59:59.999Z`).toISOString(),
+        groupBy,
+      });
+      setReport(response.report);
+    } catch (error) {
+      showError('Error', 'Failed to load tax report');
+    } finally {
+      setLoadingReport(false);
+    }
+  };
+
+  const loadCertificates = async () => {
+    try {
+      setLoadingCertificates(true);
+      const response = await adminApi.getTaxExemptions(statusFilter ? { status: statusFilter } : undefined);
+      setCertificates(response.certificates || []);
+    } catch (error) {
+      showError('Error', 'Failed to load exemption certificates');
+    } finally {
+      setLoadingCertificates(false);
+    }
+  };
+
+  const handleVerify = async (certificate: ExemptionRow) => {
+    try {
+      await adminApi.reviewTaxExemption(certificate.billingId, certificate.certificateId, 'verified');
+      showSuccess('Certificate Verified', `${certificate.certificateNumber} now exempts future charges`);
+      loadCertificates();
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to verify certificate');
+    }
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rejecting) return;
+    setSaving(true);
+    try {
+      await adminApi.reviewTaxExemption(rejecting.billingId, rejecting.certificateId, 'rejected', rejectionReason);
+      showSuccess('Certificate Rejected', `${rejecting.certificateNumber} was rejected`);
+      setRejecting(null);
+      setRejectionReason('');
+      loadCertificates();
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to reject certificate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+  const headerClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+  const renderRows = (rows: TaxLiabilityRow[], showPeriod: boolean) => (
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead className="bg-gray-50">
+        <tr>
+          {showPeriod && <th className={headerClass}>Period</th>}
+          <th className={headerClass}>Jurisdiction</th>
+          <th className={headerClass}>Taxable Sales</th>
+          <th className={headerClass}>Collected</th>
+          <th className={headerClass}>Refunded</th>
+          <th className={headerClass}>Net Liability</th>
+        </tr>
+      </thead>
+      <tbody className="bg-white divide-y divide-gray-200">
+        {rows.map((row) => (
+          <tr key={`${row.period || ''}|${row.jurisdiction}`}>
+            {showPeriod && <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.period}</td>}
+            <td className="px-6 py-4 whitespace-nowrap">
+              <div className="text-sm font-medium text-gray-900">{row.jurisdiction}</div>
+              {row.jurisdictionType && <div className="text-sm text-gray-500 capitalize">{row.jurisdictionType}</div>}
+            </td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(row.taxableAmount)}</td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(row.taxCollected)}</td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-red-600">{formatCurrency(row.taxRefunded)}</td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{formatCurrency(row.netLiability)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Liability Report */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+          <h3 className="text-lg font-medium text-gray-900">Sales Tax Liability</h3>
+          <div className="flex flex-wrap items-center gap-3">
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+            <span className="text-gray-500">to</span>
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as TaxLiabilityReport['groupBy'])}
+              className={inputClass}
+            >
+              <option value="month">Monthly</option>
+              <option value="quarter">Quarterly</option>
+              <option value="year">Yearly</option>
+            </select>
+          </div>
+        </div>
+        {loadingReport ? (
+          <div className="px-6 py-8 text-center text-gray-500">Loading tax report...</div>
+        ) : !report || report.byJurisdiction.length === 0 ? (
+          <div className="px-6 py-8 text-center text-gray-500">No tax collected in this period</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 px-6 py-4">
+              <div>
+                <p className="text-sm text-gray-500">Taxable Sales</p>
+                <p className="text-xl font-semibold text-gray-900">{formatCurrency(report.totals.taxableAmount)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Tax Collected</p>
+                <p className="text-xl font-semibold text-gray-900">{formatCurrency(report.totals.taxCollected)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Tax Refunded</p>
+                <p className="text-xl font-semibold text-red-600">{formatCurrency(report.totals.taxRefunded)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Net Liability</p>
+                <p className="text-xl font-semibold text-gray-900">{formatCurrency(report.totals.netLiability)}</p>
+              </div>
+            </div>
+            <div className="overflow-x-auto">{renderRows(report.byJurisdiction, false)}</div>
+            <div className="px-6 py-4 border-t border-gray-200">
+              <h4 className="text-sm font-medium text-gray-900">By Filing Period</h4>
+            </div>
+            <div className="overflow-x-auto">{renderRows(report.byPeriod, true)}</div>
+            <div className="px-6 py-3 text-xs text-gray-500 border-t border-gray-200">
+              {report.totals.transactionCount} taxed transactions · Tax rules {report.rulesVersion}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Exemption Certificates */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Exemption Certificates</h3>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as TaxExemptionStatus | '')}
+            className={inputClass}
+          >
+            <option value="pending">Pending review</option>
+            <option value="verified">Verified</option>
+            <option value="rejected">Rejected</option>
+            <option value="">All</option>
+          </select>
+        </div>
+        {loadingCertificates ? (
+          <div className="px-6 py-8 text-center text-gray-500">Loading certificates...</div>
+        ) : certificates.length === 0 ? (
+          <div className="px-6 py-8 text-center text-gray-500">No certificates</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>Certificate</th>
+                  <th className={headerClass}>Account</th>
+                  <th className={headerClass}>States</th>
+                  <th className={headerClass}>Submitted</th>
+                  <th className={headerClass}>Expires</th>
+                  <th className={headerClass}>Status</th>
+                  <th className={headerClass}>Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {certificates.map((certificate) => (
+                  <tr key={certificate.certificateId}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-mono font-medium text-gray-900">{certificate.certificateNumber}</div>
+                      <div className="text-sm text-gray-500 capitalize">{certificate.exemptionType}</div>
+                      {certificate.documentUrl && (
+                        <a href={certificate.documentUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:text-blue-900">
+                          View document
+                        </a>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{certificate.userId}</div>
+                      {certificate.billingState && <div className="text-sm text-gray-500">Billed in {certificate.billingState}</div>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {certificate.states.length ? certificate.states.join(', ') : 'All states'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(certificate.submittedAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {certificate.expiresAt ? new Date(certificate.expiresAt).toLocaleDateString() : 'Never'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[certificate.status]}`}>
+                        {certificate.status}
+                      </span>
+                      {certificate.rejectionReason && (
+                        <div className="text-sm text-gray-500 mt-1">{certificate.rejectionReason}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                      {certificate.status === 'pending' && (
+                        <>
+                          <button onClick={() => handleVerify(certificate)} className="text-green-600 hover:text-green-900">
+                            Verify
+                          </button>
+                          <button onClick={() => setRejecting(certificate)} className="text-red-600 hover:text-red-900">
+                            Reject
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Reject Certificate Modal */}
+      {rejecting && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-md shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              Reject Certificate <span className="font-mono">{rejecting.certificateNumber}</span>
+            </h3>
+            <form onSubmit={handleReject} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <textarea
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  rows={3}
+                  placeholder="e.g. Certificate number does not match the state registry"
+                  className={`w-full ${inputClass}`}
+                  required
+                />
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => { setRejecting(null); setRejectionReason(''); }}
+                  className="px-4 py-2 border border-gray-300 text-sm rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-red-600 text-white text-sm rounded-md hover:bg-red-700 disabled:opacity-50"
+                >
+                  {saving ? 'Rejecting...' : 'Reject'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PendingUpdateAutoApprovalRules } from '@harborlist/shared-types';
+import { adminApi } from '../../../services/adminApi';
+
+interface AutoApprovalRulesPanelProps {
+  onChange: () => void;
+  onSave: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  condition: 'Condition',
+  features: 'Features',
+  specifications: 'Additional specifications',
+  boatDetails: 'Boat details',
+  engines: 'Engines'
+};
+
+/**
+ * Edits which owner edits to live listings go live without moderator review:
+ * price cuts within a threshold and fields marked as low-risk
+ */
+const AutoApprovalRulesPanel: React.FC<AutoApprovalRulesPanelProps> = ({ onChange, onSave }) => {
+  const [savedRules, setSavedRules] = useState<PendingUpdateAutoApprovalRules | null>(null);
+  const [rules, setRules] = useState<PendingUpdateAutoApprovalRules | null>(null);
+  const [autoApprovableFields, setAutoApprovableFields] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await adminApi.getAutoApprovalRules();
+      setSavedRules(response.rules);
+      setRules(response.rules);
+      setAutoApprovableFields(response.autoApprovableFields);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load auto-approval rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const hasChanges = !!rules && JSON.stringify(rules) !== JSON.stringify(savedRules);
+
+  const updateRules = (changes: Partial<PendingUpdateAutoApprovalRules>) => {
+    setRules(prev => (prev ? { ...prev, ...changes } : prev));
+    setMessage(null);
+    onChange();
+  };
+
+  const toggleField = (field: string, checked: boolean) => {
+    if (!rules) return;
+    updateRules({
+      lowRiskFields: checked
+        ? [...rules.lowRiskFields, field]
+        : rules.lowRiskFields.filter(f => f !== field)
+    });
+  };
+
+  const handleDiscard = () => {
+    setRules(savedRules);
+    onSave();
+  };
+
+  const handleSave = async () => {
+    if (!rules) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await adminApi.updateAutoApprovalRules(rules);
+      setSavedRules(response.rules);
+      setRules(response.rules);
+      setMessage(response.message);
+      onSave();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save auto-approval rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-6 bg-gray-200 rounded w-1/3"></div>
+        <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+        <div className="h-32 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  if (!rules) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-700">{error || 'No auto-approval rules available.'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Update Auto-Approval</h3>
+        <p className="text-sm text-gray-600 mb-6">
+          Edits to live listings normally wait for a moderator. Low-risk edits matching these rules go live
+          straight away; everything else in the same edit is still reviewed. Changes take effect within a minute.
+        </p>
+        {savedRules?.updatedAt && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+            <p className="text-sm text-blue-700">
+              <strong>Last Updated:</strong> {new Date(savedRules.updatedAt).toLocaleString()} by {savedRules.updatedBy}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={rules.enabled}
+          onChange={(e) => updateRules({ enabled: e.target.checked })}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+        />
+        <span className="ml-2 text-sm font-medium text-gray-900">Auto-approve low-risk updates</span>
+      </label>
+
+      <div className={rules.enabled ? 'space-y-6' : 'space-y-6 opacity-50'}>
+        {/* Price decreases */}
+        <div>
+          <h4 className="text-md font-medium text-gray-900 mb-3">Price Decreases</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="maxPriceDecreasePercent" className="block text-sm font-medium text-gray-700">
+                Largest cut (% of current price)
+              </label>
+              <input
+                id="maxPriceDecreasePercent"
+                type="number"
+                min={0}
+                max={100}
+                value={rules.maxPriceDecreasePercent}
+                disabled={!rules.enabled}
+                onChange={(e) => updateRules({ maxPriceDecreasePercent: Number(e.target.value) })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="maxPriceDecreaseAmount" className="block text-sm font-medium text-gray-700">
+                Largest cut ($, optional)
+              </label>
+              <input
+                id="maxPriceDecreaseAmount"
+                type="number"
+                min={1}
+                value={rules.maxPriceDecreaseAmount ?? ''}
+                disabled={!rules.enabled}
+                onChange={(e) => updateRules({ maxPriceDecreaseAmount: e.target.value ? Number(e.target.value) : undefined })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+          </div>
+          <p className="mt-2 text-sm text-gray-500">
+            Price increases are always reviewed. Set the percentage to 0 to review every price change.
+          </p>
+        </div>
+
+        {/* Low-risk fields */}
+        <div>
+          <h4 className="text-md font-medium text-gray-900 mb-3">Low-Risk Fields</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {autoApprovableFields.map(field => (
+              <label key={field} className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={rules.lowRiskFields.includes(field)}
+                  disabled={!rules.enabled}
+                  onChange={(e) => toggleField(field, e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-700">{FIELD_LABELS[field] || field}</span>
+              </label>
+            ))}
+          </div>
+          <p className="mt-2 text-sm text-gray-500">
+            Edits to these fields are approved whatever they change. Titles, descriptions and photos are always reviewed.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
+        <button
+          type="button"
+          onClick={handleDiscard}
+          disabled={!hasChanges}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!hasChanges || saving}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save Rules'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AutoApprovalRulesPanel;
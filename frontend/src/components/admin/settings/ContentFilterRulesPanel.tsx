@@ -0,0 +1,582 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  ContentFilterCategory,
+  ContentFilterDryRunListing,
+  ContentFilterDryRunResult,
+  ContentFilterMatchType,
+  ContentFilterRule,
+  ContentFilterRuleSet,
+  ContentFilterSeverity,
+  ContentFilterVersionSummary
+} from '@harborlist/shared-types';
+import { adminApi } from '../../../services/adminApi';
+import ConfirmationDialog from '../ConfirmationDialog';
+
+interface ContentFilterRulesPanelProps {
+  onChange: () => void;
+  onSave: () => void;
+}
+
+const CATEGORIES: ContentFilterCategory[] = [
+  'profanity', 'discriminatory', 'sexual', 'violence', 'scam', 'spam', 'drugs', 'fraud'
+];
+
+const SEVERITIES: ContentFilterSeverity[] = ['high', 'medium', 'low'];
+
+const MATCH_TYPES: Array<{ value: ContentFilterMatchType; label: string }> = [
+  { value: 'word', label: 'Word' },
+  { value: 'phrase', label: 'Phrase' },
+  { value: 'regex', label: 'Regex' }
+];
+
+const DEFAULT_DRY_RUN_LISTINGS = 200;
+
+const toAllowlistText = (allowlist: string[]) => allowlist.join('\n');
+
+const fromAllowlistText = (text: string) =>
+  text.split('\n').map(entry => entry.trim()).filter(Boolean);
+
+/**
+ * Edits the content filter's rules and allowlist. Edits are checked with a
+ * dry run against recent listings and published as a new version; earlier
+ * versions can be loaded back into the editor to restore them.
+ */
+const ContentFilterRulesPanel: React.FC<ContentFilterRulesPanelProps> = ({ onChange, onSave }) => {
+  const [ruleSet, setRuleSet] = useState<ContentFilterRuleSet | null>(null);
+  const [rules, setRules] = useState<ContentFilterRule[]>([]);
+  const [allowlistText, setAllowlistText] = useState('');
+  const [versions, setVersions] = useState<ContentFilterVersionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<ContentFilterCategory | 'all'>('all');
+  const [dryRunLimit, setDryRunLimit] = useState(DEFAULT_DRY_RUN_LISTINGS);
+  const [dryRunResult, setDryRunResult] = useState<ContentFilterDryRunResult | null>(null);
+  const [runningDryRun, setRunningDryRun] = useState(false);
+  const [showPublishDialog, setShowPublishDialog] = useState(false);
+  const [changeNote, setChangeNote] = useState('');
+  const [publishing, setPublishing] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [{ ruleSet: current }, { versions: history }] = await Promise.all([
+        adminApi.getContentFilterRules(),
+        adminApi.getContentFilterVersions()
+      ]);
+      setRuleSet(current);
+      setRules(current.rules);
+      setAllowlistText(toAllowlistText(current.allowlist));
+      setVersions(history);
+      setDryRunResult(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load content filter rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const hasChanges = !!ruleSet && (
+    JSON.stringify(rules) !== JSON.stringify(ruleSet.rules) ||
+    JSON.stringify(fromAllowlistText(allowlistText)) !== JSON.stringify(ruleSet.allowlist)
+  );
+
+  const markChanged = () => {
+    setDryRunResult(null);
+    setMessage(null);
+    onChange();
+  };
+
+  const updateRule = (index: number, changes: Partial<ContentFilterRule>) => {
+    setRules(prev => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+    markChanged();
+  };
+
+  const removeRule = (index: number) => {
+    setRules(prev => prev.filter((_, i) => i !== index));
+    markChanged();
+  };
+
+  const addRule = () => {
+    setRules(prev => [
+      { id: '', category: 'scam', severity: 'medium', matchType: 'phrase', pattern: '', enabled: true },
+      ...prev
+    ]);
+    setSearch('');
+    setCategoryFilter('all');
+    markChanged();
+  };
+
+  const handleDiscard = () => {
+    if (!ruleSet) return;
+    setRules(ruleSet.rules);
+    setAllowlistText(toAllowlistText(ruleSet.allowlist));
+    setDryRunResult(null);
+    onSave();
+  };
+
+  const handleLoadVersion = async (version: number) => {
+    if (hasChanges && !window.confirm('Discard your edits and load this version into the editor?')) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const { ruleSet: loaded } = await adminApi.getContentFilterVersion(version);
+      setRules(loaded.rules);
+      setAllowlistText(toAllowlistText(loaded.allowlist));
+      setMessage(`Loaded version ${version}. Publish to restore it.`);
+      setDryRunResult(null);
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to load version ${version}`);
+    }
+  };
+
+  const handleDryRun = async () => {
+    try {
+      setRunningDryRun(true);
+      setError(null);
+      const result = await adminApi.dryRunContentFilter({
+        rules,
+        allowlist: fromAllowlistText(allowlistText),
+        limit: dryRunLimit
+      });
+      setDryRunResult(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Dry run failed');
+    } finally {
+      setRunningDryRun(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!ruleSet) return;
+
+    try {
+      setPublishing(true);
+      setError(null);
+      const { ruleSet: published, message: publishedMessage } = await adminApi.publishContentFilterRules({
+        rules,
+        allowlist: fromAllowlistText(allowlistText),
+        expectedVersion: ruleSet.version,
+        changeNote: changeNote.trim() || undefined
+      });
+      setShowPublishDialog(false);
+      setChangeNote('');
+      setRuleSet(published);
+      setRules(published.rules);
+      setAllowlistText(toAllowlistText(published.allowlist));
+      setDryRunResult(null);
+      setMessage(publishedMessage);
+      const { versions: history } = await adminApi.getContentFilterVersions();
+      setVersions(history);
+      onSave();
+    } catch (err) {
+      setShowPublishDialog(false);
+      setError(err instanceof Error ? err.message : 'Failed to publish content filter rules');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const visibleRules = rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) =>
+      (categoryFilter === 'all' || rule.category === categoryFilter) &&
+      (!search || rule.pattern.toLowerCase().includes(search.toLowerCase()) || !rule.pattern)
+    );
+
+  const renderDryRunListings = (title: string, listings: ContentFilterDryRunListing[], tone: 'red' | 'green') => (
+    <div>
+      <h5 className={`text-sm font-medium mb-2 ${tone === 'red' ? 'text-red-700' : 'text-green-700'}`}>
+        {title} ({listings.length})
+      </h5>
+      {listings.length === 0 ? (
+        <p className="text-sm text-gray-500">None</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border rounded-md max-h-64 overflow-y-auto">
+          {listings.map(listing => (
+            <li key={listing.listingId} className="px-3 py-2 text-sm">
+              <a
+                href={`/admin/moderation/review/${listing.listingId}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium text-blue-600 hover:text-blue-800"
+              >
+                {listing.title || listing.listingId}
+              </a>
+              <div className="text-xs text-gray-500">
+                {listing.categories.join(', ')} · {listing.matchedTerms.join(', ')}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-6 bg-gray-200 rounded w-1/3"></div>
+        <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+        <div className="h-64 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  if (!ruleSet) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-700">{error || 'No content filter rules available.'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Content Filter</h3>
+        <p className="text-sm text-gray-600 mb-6">
+          Rules the automated content filter uses to flag listings and reviews for moderation. Publishing
+          creates a new version, which takes effect within a minute.
+        </p>
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <p className="text-sm text-blue-700">
+            {ruleSet.version === 0 ? (
+              <><strong>Built-in defaults</strong> (no rules published yet)</>
+            ) : (
+              <>
+                <strong>Current Version:</strong> {ruleSet.version} |
+                <strong> Published:</strong> {ruleSet.publishedAt && new Date(ruleSet.publishedAt).toLocaleString()} by {ruleSet.publishedBy}
+              </>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      {/* Rules */}
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <h4 className="text-md font-medium text-gray-900">Rules ({rules.length})</h4>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search patterns..."
+              className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <select
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value as ContentFilterCategory | 'all')}
+              className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value="all">All categories</option>
+              {CATEGORIES.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={addRule}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              + Add Rule
+            </button>
+          </div>
+        </div>
+
+        <div className="border rounded-lg overflow-hidden">
+          <div className="max-h-96 overflow-y-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">On</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Pattern</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Match</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Severity</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Note</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-100">
+                {visibleRules.map(({ rule, index }) => (
+                  <tr key={rule.id || `new-${index}`} className={rule.enabled ? '' : 'opacity-50'}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                        aria-label={`Enable rule ${rule.pattern}`}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={rule.pattern}
+                        onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                        placeholder={rule.matchType === 'regex' ? 'e.g. \\d{3}-\\d{4}' : 'e.g. wire transfer'}
+                        className={`w-full rounded-md border-gray-300 shadow-sm sm:text-sm ${rule.matchType === 'regex' ? 'font-mono' : ''}`}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={rule.matchType}
+                        onChange={(e) => updateRule(index, { matchType: e.target.value as ContentFilterMatchType })}
+                        className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+                      >
+                        {MATCH_TYPES.map(type => (
+                          <option key={type.value} value={type.value}>{type.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={rule.category}
+                        onChange={(e) => updateRule(index, { category: e.target.value as ContentFilterCategory })}
+                        className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+                      >
+                        {CATEGORIES.map(category => (
+                          <option key={category} value={category}>{category}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={rule.severity}
+                        onChange={(e) => updateRule(index, { severity: e.target.value as ContentFilterSeverity })}
+                        className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+                      >
+                        {SEVERITIES.map(severity => (
+                          <option key={severity} value={severity}>{severity}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={rule.note || ''}
+                        onChange={(e) => updateRule(index, { note: e.target.value })}
+                        className="w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => removeRule(index)}
+                        className="text-sm text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {visibleRules.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-6 text-center text-sm text-gray-500">
+                      No rules match your search
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <p className="mt-2 text-sm text-gray-500">
+          Words match whole words only, so "ass" does not flag "class". Phrases ignore case, punctuation and
+          spacing. Regexes are case-insensitive and run on the original text.
+        </p>
+      </div>
+
+      {/* Allowlist */}
+      <div>
+        <label htmlFor="contentFilterAllowlist" className="block text-md font-medium text-gray-900 mb-2">
+          Allowlist
+        </label>
+        <textarea
+          id="contentFilterAllowlist"
+          rows={6}
+          value={allowlistText}
+          onChange={(e) => {
+            setAllowlistText(e.target.value);
+            markChanged();
+          }}
+          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono"
+          placeholder="One phrase per line, e.g. hot water heater"
+        />
+        <p className="mt-2 text-sm text-gray-500">
+          Phrases that are never flagged, whatever the rules say, such as boating terms like "kill switch" or
+          "galway hooker". One per line.
+        </p>
+      </div>
+
+      {/* Dry run */}
+      <div className="border rounded-lg p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h4 className="text-md font-medium text-gray-900">Dry Run</h4>
+            <p className="text-sm text-gray-500">See what these rules would flag compared with the rules in use.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="dryRunLimit" className="text-sm text-gray-700">Last</label>
+            <input
+              id="dryRunLimit"
+              type="number"
+              min={1}
+              max={1000}
+              value={dryRunLimit}
+              onChange={(e) => setDryRunLimit(Number(e.target.value) || DEFAULT_DRY_RUN_LISTINGS)}
+              className="w-24 rounded-md border-gray-300 shadow-sm sm:text-sm"
+            />
+            <span className="text-sm text-gray-700">listings</span>
+            <button
+              type="button"
+              onClick={handleDryRun}
+              disabled={runningDryRun}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {runningDryRun ? 'Running...' : 'Run Dry Run'}
+            </button>
+          </div>
+        </div>
+
+        {dryRunResult && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="bg-gray-50 rounded-md p-3">
+                <div className="text-2xl font-semibold text-gray-900">{dryRunResult.listingsScanned}</div>
+                <div className="text-xs text-gray-500">Listings scanned</div>
+              </div>
+              <div className="bg-gray-50 rounded-md p-3">
+                <div className="text-2xl font-semibold text-gray-900">{dryRunResult.currentFlagged}</div>
+                <div className="text-xs text-gray-500">Flagged by version {dryRunResult.currentVersion}</div>
+              </div>
+              <div className="bg-gray-50 rounded-md p-3">
+                <div className="text-2xl font-semibold text-gray-900">{dryRunResult.proposedFlagged}</div>
+                <div className="text-xs text-gray-500">Flagged by these rules</div>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {renderDryRunListings('Newly flagged', dryRunResult.newlyFlagged, 'red')}
+              {renderDryRunListings('No longer flagged', dryRunResult.noLongerFlagged, 'green')}
+            </div>
+            {dryRunResult.ruleHits.length > 0 && (
+              <div>
+                <h5 className="text-sm font-medium text-gray-900 mb-2">Most frequent matches</h5>
+                <div className="flex flex-wrap gap-2">
+                  {dryRunResult.ruleHits.slice(0, 20).map(hit => (
+                    <span key={hit.ruleId} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                      {hit.pattern} · {hit.listings}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Version history */}
+      {versions.length > 0 && (
+        <div>
+          <h4 className="text-md font-medium text-gray-900 mb-2">Version History</h4>
+          <ul className="divide-y divide-gray-100 border rounded-md max-h-64 overflow-y-auto">
+            {versions.map(version => (
+              <li key={version.version} className="px-3 py-2 flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">Version {version.version}</span>
+                  {version.version === ruleSet.version && (
+                    <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">Current</span>
+                  )}
+                  <div className="text-xs text-gray-500">
+                    {version.publishedAt && new Date(version.publishedAt).toLocaleString()} by {version.publishedBy} ·{' '}
+                    {version.ruleCount} rules, {version.allowlistCount} allowlisted
+                    {version.changeNote && <> · {version.changeNote}</>}
+                  </div>
+                </div>
+                {version.version !== ruleSet.version && (
+                  <button
+                    type="button"
+                    onClick={() => handleLoadVersion(version.version)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Load
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
+        <button
+          type="button"
+          onClick={handleDiscard}
+          disabled={!hasChanges}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowPublishDialog(true)}
+          disabled={!hasChanges || publishing}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {publishing ? 'Publishing...' : 'Publish Rules'}
+        </button>
+      </div>
+
+      {/* Publish Confirmation Dialog */}
+      <ConfirmationDialog
+        isOpen={showPublishDialog}
+        onClose={() => setShowPublishDialog(false)}
+        onConfirm={handlePublish}
+        title="Publish Content Filter Rules"
+        message={`Publish these rules as version ${ruleSet.version + 1}? New listings and reviews will be screened with them within a minute.`}
+        confirmText="Publish"
+        cancelText="Cancel"
+        type="primary"
+      >
+        <div className="mt-4">
+          <label htmlFor="changeNote" className="block text-sm font-medium text-gray-700">
+            Change note
+          </label>
+          <textarea
+            id="changeNote"
+            rows={3}
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            maxLength={500}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            placeholder="What changed and why..."
+          />
+        </div>
+      </ConfirmationDialog>
+    </div>
+  );
+};
+
+export default ContentFilterRulesPanel;
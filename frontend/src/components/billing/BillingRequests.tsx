@@ -0,0 +1,473 @@
+/**
+ * @fileoverview Customer refund requests and billing disputes
+ *
+ * Features:
+ * - List of the customer's cases with status and response deadline
+ * - Conversation with the billing team
+ * - Evidence uploads (screenshots, receipts) through the media service
+ * - New request form for a completed charge
+ *
+ * @author HarborList Development Team
+ */
+
+import React, { useState, useEffect } from 'react';
+import { BillingCaseType, DisputeCase, DisputeEvidence, Transaction } from '@harborlist/shared-types';
+import { useToast } from '../../contexts/ToastContext';
+import { billingApi } from '../../services/billingApi';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+
+interface BillingRequestsProps {
+  /** The customer's recent transactions, used to pick the charge for a new request */
+  transactions: Transaction[];
+  /** Charge to open a new request for, when started from the transaction history */
+  newRequestTransaction?: Transaction | null;
+  onNewRequestClosed?: () => void;
+}
+
+const DISPUTABLE_TYPES: Transaction['type'][] = ['payment', 'membership', 'subscription', 'commission'];
+
+const EVIDENCE_TYPES: { value: DisputeEvidence['type']; label: string }[] = [
+  { value: 'receipt', label: 'Receipt' },
+  { value: 'communication', label: 'Communication' },
+  { value: 'refund', label: 'Refund' },
+  { value: 'other', label: 'Other' },
+];
+
+/**
+ * Whether a transaction can have a refund request or dispute opened against it
+ */
+export const canOpenBillingCase = (transaction: Transaction) =>
+  transaction.status === 'completed' && DISPUTABLE_TYPES.includes(transaction.type);
+
+export const BillingRequests: React.FC<BillingRequestsProps> = ({
+  transactions,
+  newRequestTransaction,
+  onNewRequestClosed,
+}) => {
+  const { showSuccess, showError } = useToast();
+
+  const [cases, setCases] = useState<DisputeCase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedCase, setSelectedCase] = useState<DisputeCase | null>(null);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+  const [evidenceType, setEvidenceType] = useState<DisputeEvidence['type']>('receipt');
+  const [evidenceDescription, setEvidenceDescription] = useState('');
+  const [uploading, setUploading] = useState(false);
+
+  const [showNewRequest, setShowNewRequest] = useState(false);
+  const [newRequest, setNewRequest] = useState({
+    transactionId: '',
+    caseType: 'refund_request' as BillingCaseType,
+    reason: '',
+    description: '',
+    amount: '',
+  });
+
+  const disputableTransactions = transactions.filter(canOpenBillingCase);
+
+  useEffect(() => {
+    loadCases();
+  }, []);
+
+  useEffect(() => {
+    if (newRequestTransaction) {
+      openNewRequest(newRequestTransaction);
+    }
+  }, [newRequestTransaction]);
+
+  const loadCases = async () => {
+    setLoading(true);
+    try {
+      const response = await billingApi.getBillingCases();
+      setCases(response.cases || []);
+    } catch (error) {
+      console.error('Error loading billing cases:', error);
+      showError('Error', 'Failed to load your refund requests and disputes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshCase = async (disputeId: string) => {
+    const response = await billingApi.getBillingCase(disputeId);
+    setSelectedCase(response.case);
+    setCases(prev => prev.map(c => (c.disputeId === disputeId ? response.case : c)));
+  };
+
+  const openNewRequest = (transaction?: Transaction) => {
+    setNewRequest({
+      transactionId: transaction?.transactionId || '',
+      caseType: 'refund_request',
+      reason: '',
+      description: '',
+      amount: transaction ? String(transaction.amount) : '',
+    });
+    setShowNewRequest(true);
+  };
+
+  const closeNewRequest = () => {
+    setShowNewRequest(false);
+    onNewRequestClosed?.();
+  };
+
+  const handleSubmitRequest = async () => {
+    try {
+      const response = await billingApi.openBillingCase({
+        transactionId: newRequest.transactionId,
+        caseType: newRequest.caseType,
+        reason: newRequest.reason,
+        description: newRequest.description,
+        amount: newRequest.amount ? Number(newRequest.amount) : undefined,
+      });
+      showSuccess('Request Sent', response.message);
+      closeNewRequest();
+      setCases(prev => [response.case, ...prev]);
+      setSelectedCase(response.case);
+    } catch (error: any) {
+      showError('Request Failed', error.message || 'Failed to open your request');
+    }
+  };
+
+  const handleSendReply = async () => {
+    if (!selectedCase || !reply.trim()) return;
+
+    setSending(true);
+    try {
+      await billingApi.postBillingCaseMessage(selectedCase.disputeId, reply);
+      setReply('');
+      await refreshCase(selectedCase.disputeId);
+    } catch (error: any) {
+      showError('Message Not Sent', error.message || 'Failed to send your message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleEvidenceUpload = async (files: FileList | null) => {
+    if (!selectedCase || !files || files.length === 0) return;
+    if (!evidenceDescription.trim()) {
+      showError('Description Required', 'Describe the evidence before uploading it');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const { uploadMedia, validateMediaFile } = await import('../../services/media');
+      const file = files[0];
+      const validation = validateMediaFile(file);
+      if (!validation.valid) {
+        showError('Evidence not added', `${file.name}: ${validation.error}`);
+        return;
+      }
+      const result = await uploadMedia(file, undefined, 'attachment');
+      await billingApi.addBillingCaseEvidence(selectedCase.disputeId, {
+        type: evidenceType,
+        description: evidenceDescription,
+        fileUrl: result.url,
+      });
+      setEvidenceDescription('');
+      showSuccess('Evidence Added', 'The billing team can now see your file');
+      await refreshCase(selectedCase.disputeId);
+    } catch (error: any) {
+      showError('Upload Failed', error.message || 'Failed to add evidence');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const formatAmount = (amount: number, currency: string = 'USD') => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency.toUpperCase(),
+    }).format(amount);
+  };
+
+  const getStatusLabel = (disputeCase: DisputeCase) => {
+    if (disputeCase.resolution?.outcome === 'refunded') return 'Refunded';
+    if (disputeCase.resolution?.outcome === 'declined') return 'Closed';
+    switch (disputeCase.disputeStatus) {
+      case 'open': return 'Waiting for reply';
+      case 'under_review': return 'In review';
+      case 'escalated': return 'With a manager';
+      default: return 'Resolved';
+    }
+  };
+
+  const getStatusBadgeColor = (disputeCase: DisputeCase) => {
+    if (disputeCase.resolution?.outcome === 'refunded') return 'bg-green-100 text-green-800';
+    switch (disputeCase.disputeStatus) {
+      case 'open': return 'bg-yellow-100 text-yellow-800';
+      case 'under_review': return 'bg-blue-100 text-blue-800';
+      case 'escalated': return 'bg-orange-100 text-orange-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getExpectedBy = (disputeCase: DisputeCase) => {
+    if (disputeCase.disputeStatus === 'resolved') {
+      return disputeCase.resolution ? `Resolved ${new Date(disputeCase.resolution.resolvedAt).toLocaleDateString()}` : 'Resolved';
+    }
+    const firstReplyDue = disputeCase.sla && !disputeCase.sla.firstRespondedAt;
+    const dueAt = firstReplyDue ? disputeCase.sla!.firstResponseDueAt : disputeCase.sla?.resolutionDueAt || disputeCase.respondByDate;
+    return `${firstReplyDue ? 'Reply' : 'Decision'} expected by ${new Date(dueAt).toLocaleString()}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Refunds & Disputes</h2>
+            <p className="text-sm text-gray-500">Ask for a refund or dispute a charge and follow the billing team's answer</p>
+          </div>
+          <button
+            onClick={() => openNewRequest()}
+            disabled={disputableTransactions.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            New Request
+          </button>
+        </div>
+
+        {cases.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="text-4xl mb-4">🧾</div>
+            <p className="text-gray-500">You have no refund requests or disputes</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {cases.map((disputeCase) => (
+              <li
+                key={disputeCase.disputeId}
+                onClick={() => setSelectedCase(disputeCase)}
+                className={`px-6 py-4 cursor-pointer hover:bg-gray-50 ${selectedCase?.disputeId === disputeCase.disputeId ? 'bg-blue-50' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {disputeCase.caseNumber} · {disputeCase.caseType === 'refund_request' ? 'Refund request' : 'Dispute'}
+                    </p>
+                    <p className="text-sm text-gray-500">{disputeCase.disputeReason}</p>
+                    <p className="text-xs text-gray-400 mt-1">{getExpectedBy(disputeCase)}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-medium text-gray-900">{formatAmount(disputeCase.disputeAmount, disputeCase.currency)}</p>
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadgeColor(disputeCase)}`}>
+                      {getStatusLabel(disputeCase)}
+                    </span>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {selectedCase && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">{selectedCase.caseNumber}</h3>
+              <p className="text-sm text-gray-500">{selectedCase.description}</p>
+            </div>
+            <button onClick={() => setSelectedCase(null)} className="text-gray-400 hover:text-gray-600">✕</button>
+          </div>
+
+          <div className="px-6 py-4 space-y-3 max-h-96 overflow-y-auto">
+            {(selectedCase.messages || []).map((message) => (
+              <div
+                key={message.messageId}
+                className={`rounded-lg px-4 py-3 text-sm ${
+                  message.authorRole === 'customer'
+                    ? 'bg-blue-50 ml-12'
+                    : message.authorRole === 'system'
+                      ? 'bg-gray-50 text-gray-500 italic'
+                      : 'bg-gray-100 mr-12'
+                }`}
+              >
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                  <span>{message.authorRole === 'customer' ? 'You' : message.authorName}</span>
+                  <span>{new Date(message.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="text-gray-900 whitespace-pre-wrap">{message.body}</p>
+              </div>
+            ))}
+          </div>
+
+          {selectedCase.evidenceSubmitted.length > 0 && (
+            <div className="px-6 py-4 border-t border-gray-200">
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Evidence</h4>
+              <ul className="space-y-1 text-sm">
+                {selectedCase.evidenceSubmitted.map((evidence) => (
+                  <li key={evidence.evidenceId} className="text-gray-700">
+                    <span className="capitalize">{evidence.type}</span>: {evidence.description}
+                    {evidence.fileUrl && (
+                      <a href={evidence.fileUrl} target="_blank" rel="noopener noreferrer" className="ml-2 text-blue-600 hover:underline">
+                        View
+                      </a>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {selectedCase.disputeStatus !== 'resolved' ? (
+            <div className="px-6 py-4 border-t border-gray-200 space-y-4">
+              <div>
+                <textarea
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  rows={3}
+                  placeholder="Write a reply to the billing team"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <div className="flex justify-end mt-2">
+                  <button
+                    onClick={handleSendReply}
+                    disabled={sending || !reply.trim()}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+                  >
+                    {sending ? 'Sending...' : 'Send'}
+                  </button>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={evidenceType}
+                  onChange={(e) => setEvidenceType(e.target.value as DisputeEvidence['type'])}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  {EVIDENCE_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={evidenceDescription}
+                  onChange={(e) => setEvidenceDescription(e.target.value)}
+                  placeholder="What does this file show?"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <label className={`px-4 py-2 border border-gray-300 rounded-md text-sm cursor-pointer hover:bg-gray-50 ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+                  {uploading ? 'Uploading...' : 'Upload Evidence'}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      handleEvidenceUpload(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </div>
+            </div>
+          ) : selectedCase.resolution && (
+            <div className="px-6 py-4 border-t border-gray-200 text-sm text-gray-700">
+              {selectedCase.resolution.outcome === 'refunded'
+                ? `We refunded ${formatAmount(selectedCase.resolution.refundAmount || 0, selectedCase.currency)} to your original payment method.`
+                : 'This case is closed.'}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showNewRequest && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">New Refund Request or Dispute</h3>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Charge</label>
+                <select
+                  value={newRequest.transactionId}
+                  onChange={(e) => {
+                    const transaction = disputableTransactions.find(t => t.transactionId === e.target.value);
+                    setNewRequest({ ...newRequest, transactionId: e.target.value, amount: transaction ? String(transaction.amount) : '' });
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Select a charge</option>
+                  {disputableTransactions.map((transaction) => (
+                    <option key={transaction.transactionId} value={transaction.transactionId}>
+                      {new Date(transaction.createdAt).toLocaleDateString()} · {transaction.description} · {formatAmount(transaction.amount, transaction.currency)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-4">
+                {(['refund_request', 'dispute'] as BillingCaseType[]).map((caseType) => (
+                  <label key={caseType} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={newRequest.caseType === caseType}
+                      onChange={() => setNewRequest({ ...newRequest, caseType })}
+                      className="mr-2"
+                    />
+                    {caseType === 'refund_request' ? 'Request a refund' : 'Dispute this charge'}
+                  </label>
+                ))}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <input
+                  type="text"
+                  value={newRequest.reason}
+                  onChange={(e) => setNewRequest({ ...newRequest, reason: e.target.value })}
+                  placeholder="e.g. Charged twice, cancelled before renewal"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={newRequest.amount}
+                  onChange={(e) => setNewRequest({ ...newRequest, amount: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Details</label>
+                <textarea
+                  value={newRequest.description}
+                  onChange={(e) => setNewRequest({ ...newRequest, description: e.target.value })}
+                  rows={4}
+                  placeholder="Tell us what happened"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-3 mt-6">
+              <button
+                onClick={closeNewRequest}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmitRequest}
+                disabled={!newRequest.transactionId || !newRequest.reason.trim() || !newRequest.description.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Send Request
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Seller's listing promotions and their performance
+ *
+ * Features:
+ * - List of featured and boost promotions with their run dates and cost
+ * - Impressions, clicks, click-through rate and cost per click per promotion
+ * - Daily impressions and clicks for the selected promotion
+ *
+ * @author HarborList Development Team
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ListingPromotion, PromotionReport } from '@harborlist/shared-types';
+import { useToast } from '../../contexts/ToastContext';
+import { billingApi } from '../../services/billingApi';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+
+// Promotion amounts are in whole currency units, not cents
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const getPromotionState = (promotion: ListingPromotion) => {
+  const now = Date.now();
+  if (promotion.status === 'canceled') return { label: 'Canceled', className: 'bg-gray-100 text-gray-700' };
+  if (promotion.startsAt > now) return { label: 'Scheduled', className: 'bg-yellow-100 text-yellow-800' };
+  if (promotion.endsAt > now) return { label: 'Running', className: 'bg-green-100 text-green-800' };
+  return { label: 'Ended', className: 'bg-gray-100 text-gray-700' };
+};
+
+export const ListingPromotions: React.FC = () => {
+  const { showError } = useToast();
+
+  const [promotions, setPromotions] = useState<ListingPromotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [report, setReport] = useState<PromotionReport | null>(null);
+  const [loadingReport, setLoadingReport] = useState(false);
+
+  useEffect(() => {
+    loadPromotions();
+  }, []);
+
+  const loadPromotions = async () => {
+    setLoading(true);
+    try {
+      const { promotions } = await billingApi.getPromotions();
+      setPromotions(promotions);
+    } catch (error) {
+      showError('Error', error instanceof Error ? error.message : 'Failed to load promotions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openReport = async (promotion: ListingPromotion) => {
+    setLoadingReport(true);
+    try {
+      const { report } = await billingApi.getPromotionReport(promotion.promotionId);
+      setReport(report);
+    } catch (error) {
+      showError('Error', error instanceof Error ? error.message : 'Failed to load promotion report');
+    } finally {
+      setLoadingReport(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (promotions.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow p-12 text-center">
+        <div className="text-4xl mb-4">📣</div>
+        <p className="text-gray-500">
+          No promotions yet. Promote a listing from its page to feature it in search results and on the homepage.
+        </p>
+      </div>
+    );
+  }
+
+  const maxDailyImpressions = Math.max(1, ...(report?.daily.map(day => day.impressions) || []));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Listing</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Runs</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Impressions</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Clicks</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {promotions.map(promotion => {
+              const state = getPromotionState(promotion);
+              return (
+                <tr key={promotion.promotionId}>
+                  <td className="px-6 py-4 text-sm">
+                    <Link to={`/listing/${promotion.listingId}`} className="text-blue-600 hover:underline">
+                      {promotion.listingTitle}
+                    </Link>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {promotion.type === 'featured' ? 'Featured' : 'Boost'}
+                    <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${state.className}`}>{state.label}</span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {formatDate(promotion.startsAt)} – {formatDate(promotion.endsAt)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-right text-gray-900">{promotion.impressions || 0}</td>
+                  <td className="px-6 py-4 text-sm text-right text-gray-900">{promotion.clicks || 0}</td>
+                  <td className="px-6 py-4 text-sm text-right text-gray-900">
+                    {formatAmount(promotion.amount, promotion.currency)}
+                    {promotion.includedDays > 0 && (
+                      <span className="block text-xs text-green-700">{promotion.includedDays} days included in plan</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-right">
+                    <button onClick={() => openReport(promotion)} className="text-blue-600 hover:text-blue-800">
+                      Report
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {loadingReport && (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner size="md" />
+        </div>
+      )}
+
+      {report && !loadingReport && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex justify-between items-baseline mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">{report.promotion.listingTitle}</h2>
+            <button onClick={() => setReport(null)} className="text-sm text-gray-500 hover:text-gray-700">Close</button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div>
+              <div className="text-sm text-gray-500">Impressions</div>
+              <div className="text-2xl font-semibold text-gray-900">{report.impressions}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Clicks</div>
+              <div className="text-2xl font-semibold text-gray-900">{report.clicks}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Click-through rate</div>
+              <div className="text-2xl font-semibold text-gray-900">{formatPercent(report.clickThroughRate)}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Cost per click</div>
+              <div className="text-2xl font-semibold text-gray-900">
+                {report.costPerClick === undefined ? '—' : formatAmount(report.costPerClick, report.promotion.currency)}
+              </div>
+            </div>
+          </div>
+
+          {report.daily.length === 0 ? (
+            <p className="text-sm text-gray-500">No impressions recorded yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {report.daily.map(day => (
+                <div key={day.day} className="flex items-center text-sm">
+                  <span className="w-24 text-gray-600">{day.day}</span>
+                  <div className="flex-1 bg-gray-100 rounded h-3 mx-3">
+                    <div
+                      className="bg-blue-600 h-3 rounded"
+                      style={{ width: `${(day.impressions / maxDailyImpressions) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-40 text-right text-gray-700">
+                    {day.impressions} impressions · {day.clicks} clicks
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
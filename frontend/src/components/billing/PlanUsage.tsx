@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Usage against plan quotas for the current billing period
+ *
+ * Features:
+ * - Usage bar per meter (active listings, photos, featured days, boosted searches)
+ * - Overage per meter and the estimated overage charge for the next renewal
+ * - Prepaid usage (purchased promotions), which is never billed as overage
+ * - Upgrade prompt when a free plan reaches its limits
+ *
+ * @author HarborList Development Team
+ */
+
+import React from 'react';
+import { UsageMeterSummary, UsageSummary } from '@harborlist/shared-types';
+
+interface PlanUsageProps {
+  usage: UsageSummary;
+}
+
+// Usage amounts are in whole currency units, not cents
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Prepaid usage does not draw on the plan's quota
+const getIncludedUsage = (meter: UsageMeterSummary) => meter.used - meter.prepaid;
+
+const getBarColor = (meter: UsageMeterSummary) => {
+  if (meter.overage > 0) return 'bg-red-500';
+  if (meter.quota > 0 && getIncludedUsage(meter) / meter.quota >= 0.8) return 'bg-yellow-500';
+  return 'bg-blue-600';
+};
+
+export const PlanUsage: React.FC<PlanUsageProps> = ({ usage }) => {
+  const atLimit = usage.meters.some(meter => meter.quota > 0 && getIncludedUsage(meter) >= meter.quota);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-baseline mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Plan Usage</h2>
+        <span className="text-sm text-gray-500">
+          {formatDate(usage.periodStart)} – {formatDate(usage.periodEnd)}
+        </span>
+      </div>
+
+      <div className="space-y-4">
+        {usage.meters.map(meter => {
+          const unlimited = meter.quota === -1;
+          const percent = unlimited ? 0
+            : meter.quota === 0 ? (getIncludedUsage(meter) > 0 ? 100 : 0)
+            : Math.min(100, (getIncludedUsage(meter) / meter.quota) * 100);
+
+          return (
+            <div key={meter.meter}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium text-gray-700">{meter.label}</span>
+                <span className="text-gray-600">
+                  {meter.used} / {unlimited ? 'Unlimited' : meter.quota}
+                  {meter.prepaid > 0 && ` (${meter.prepaid} prepaid)`}
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${getBarColor(meter)}`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              {meter.overage > 0 && (
+                <p className="text-xs text-red-600 mt-1">
+                  {meter.overage} over your plan
+                  {usage.overageAllowed && ` · ${formatAmount(meter.overageAmount, usage.currency)} at ${formatAmount(meter.overageUnitPrice, usage.currency)} each`}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {usage.overageAllowed && usage.overageTotal > 0 && (
+        <div className="mt-4 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm">
+          Overage of {formatAmount(usage.overageTotal, usage.currency)} will be added to your invoice on {formatDate(usage.periodEnd)}.
+        </div>
+      )}
+      {!usage.overageAllowed && atLimit && (
+        <div className="mt-4 bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg text-sm">
+          You have reached a limit of your plan. Upgrade to keep adding listings and photos.
+        </div>
+      )}
+    </div>
+  );
+};
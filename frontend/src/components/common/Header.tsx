@@ -11,8 +11,10 @@
 
 import { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '../auth/AuthProvider';
 import NotificationBell from '../notifications/NotificationBell';
+import { getUnreadMessageCount } from '../../services/listings';
 
 /**
  * Main navigation header component for the HarborList platform
@@ -66,6 +68,14 @@ export default function Header() {
   const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
+  const { data: messageCount } = useQuery({
+    queryKey: ['message-unread-count'],
+    queryFn: getUnreadMessageCount,
+    enabled: isAuthenticated,
+    refetchInterval: 30000,
+  });
+  const unreadMessages = messageCount?.unreadCount || 0;
+
   /**
    * Determines if the current route matches the provided path
    * 
@@ -182,12 +192,24 @@ export default function Header() {
                 {/* Notifications */}
                 <NotificationBell />
 
+                {/* Messages */}
+                <Link to="/messages" aria-label="Messages" className="relative p-2 text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors duration-150">
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                  </svg>
+                  {unreadMessages > 0 && (
+                    <span className="absolute top-0 right-0 inline-flex items-center justify-center min-w-[1.1rem] h-[1.1rem] px-1 text-[10px] font-bold text-white bg-red-600 rounded-full">
+                      {unreadMessages > 99 ? '99+' : unreadMessages}
+                    </span>
+                  )}
+                </Link>
+
                 {/* Favorites */}
-                <button className="p-2 text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors duration-150">
+                <Link to="/favorites" aria-label="Favorites" className="p-2 text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors duration-150">
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
                   </svg>
-                </button>
+                </Link>
 
                 {/* List Your Boat CTA */}
                 <Link to="/create" className="btn-primary hidden sm:flex">
@@ -216,9 +238,18 @@ export default function Header() {
                     <Link to="/profile" className="block px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 transition-colors duration-150">
                       My Listings
                     </Link>
-                    <Link to="/profile" className="block px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 transition-colors duration-150">
+                    <Link to="/messages" className="block px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 transition-colors duration-150">
+                      Messages
+                    </Link>
+                    <Link to="/offers" className="block px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 transition-colors duration-150">
+                      My Offers
+                    </Link>
+                    <Link to="/favorites" className="block px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 transition-colors duration-150">
                       Favorites
                     </Link>
+                    <Link to="/saved-searches" className="block px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 transition-colors duration-150">
+                      Saved Searches
+                    </Link>
                     <div className="border-t border-slate-100 my-1"></div>
                     <Link to="/billing" className="block px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 transition-colors duration-150">
                       💳 Billing & Subscriptions
@@ -1,6 +1,8 @@
 import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useMutation } from '@tanstack/react-query';
-import { contactOwner } from '../../services/listings';
+import { contactOwner, startMessageThread } from '../../services/listings';
+import { useAuth } from '../auth/AuthProvider';
 import { Listing } from '@harborlist/shared-types';
 
 interface ContactFormProps {
@@ -9,6 +11,8 @@ interface ContactFormProps {
 }
 
 export default function ContactForm({ listing, onClose }: ContactFormProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
   const [formData, setFormData] = useState({
     senderName: '',
     senderEmail: '',
@@ -28,8 +32,24 @@ export default function ContactForm({ listing, onClose }: ContactFormProps) {
     }
   });
 
+  // Signed-in buyers get a conversation thread they can follow up in
+  const threadMutation = useMutation({
+    mutationFn: startMessageThread,
+    onSuccess: ({ thread }) => {
+      onClose();
+      navigate(`/messages/${thread.threadId}`);
+    },
+    onError: (error: Error) => {
+      alert(error.message || 'Failed to send message. Please try again.');
+    }
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (user) {
+      threadMutation.mutate({ listingId: listing.listingId, body: formData.message });
+      return;
+    }
     contactMutation.mutate({
       listingId: listing.listingId,
       ...formData
@@ -64,50 +84,55 @@ export default function ContactForm({ listing, onClose }: ContactFormProps) {
 
         {/* Form */}
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Your Name *
-              </label>
-              <input
-                type="text"
-                name="senderName"
-                value={formData.senderName}
-                onChange={handleChange}
-                required
-                className="form-input"
-                placeholder="Enter your full name"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Email Address *
-              </label>
-              <input
-                type="email"
-                name="senderEmail"
-                value={formData.senderEmail}
-                onChange={handleChange}
-                required
-                className="form-input"
-                placeholder="your@email.com"
-              />
-            </div>
-          </div>
+          {/* Contact details are only needed from signed-out visitors */}
+          {!user && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Your Name *
+                  </label>
+                  <input
+                    type="text"
+                    name="senderName"
+                    value={formData.senderName}
+                    onChange={handleChange}
+                    required
+                    className="form-input"
+                    placeholder="Enter your full name"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Email Address *
+                  </label>
+                  <input
+                    type="email"
+                    name="senderEmail"
+                    value={formData.senderEmail}
+                    onChange={handleChange}
+                    required
+                    className="form-input"
+                    placeholder="your@email.com"
+                  />
+                </div>
+              </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Phone Number (Optional)
-            </label>
-            <input
-              type="tel"
-              name="senderPhone"
-              value={formData.senderPhone}
-              onChange={handleChange}
-              className="form-input"
-              placeholder="(555) 123-4567"
-            />
-          </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Phone Number (Optional)
+                </label>
+                <input
+                  type="tel"
+                  name="senderPhone"
+                  value={formData.senderPhone}
+                  onChange={handleChange}
+                  className="form-input"
+                  placeholder="(555) 123-4567"
+                />
+              </div>
+            </>
+          )}
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -143,7 +168,11 @@ export default function ContactForm({ listing, onClose }: ContactFormProps) {
               </svg>
               <div className="text-sm text-blue-700">
                 <p className="font-medium mb-1">Privacy Protection</p>
-                <p>Your contact information will be shared with the boat owner. We protect both parties by not displaying personal information publicly.</p>
+                {user ? (
+                  <p>Your message starts a conversation in your HarborList messages. Email replies are relayed, so your email address stays private.</p>
+                ) : (
+                  <p>Your contact information will be shared with the boat owner. We protect both parties by not displaying personal information publicly.</p>
+                )}
               </div>
             </div>
           </div>
@@ -159,10 +188,10 @@ export default function ContactForm({ listing, onClose }: ContactFormProps) {
             </button>
             <button
               type="submit"
-              disabled={contactMutation.isPending}
+              disabled={contactMutation.isPending || threadMutation.isLoading}
               className="btn-primary"
             >
-              {contactMutation.isPending ? 'Sending...' : 'Send Message'}
+              {contactMutation.isPending || threadMutation.isLoading ? 'Sending...' : 'Send Message'}
             </button>
           </div>
         </form>
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Button for adding a listing to the buyer's watchlist.
+ *
+ * Shows whether the signed-in user has favorited the listing and toggles it.
+ * Favorited listings notify the buyer of price drops, sales and removals.
+ * Signed-out visitors are sent to the login page.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { useNavigate, useLocation } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../auth/AuthProvider';
+import { useToast } from '../../contexts/ToastContext';
+import { useTracking } from '../../hooks/useTracking';
+import { addFavorite, removeFavorite, getFavoriteStatus } from '../../services/listings';
+
+interface FavoriteButtonProps {
+  /** Listing to favorite */
+  listingId: string;
+  className?: string;
+}
+
+export default function FavoriteButton({ listingId, className = '' }: FavoriteButtonProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const { trackFavorite } = useTracking();
+
+  const { data } = useQuery({
+    queryKey: ['favorite', listingId],
+    queryFn: () => getFavoriteStatus(listingId),
+    enabled: !!user,
+  });
+  const favorited = data?.favorited || false;
+
+  const toggleMutation = useMutation({
+    mutationFn: async () => {
+      if (favorited) {
+        await removeFavorite(listingId);
+      } else {
+        await addFavorite(listingId);
+      }
+    },
+    onSuccess: () => {
+      trackFavorite(listingId, favorited ? 'remove' : 'add');
+      queryClient.invalidateQueries({ queryKey: ['favorite', listingId] });
+      queryClient.invalidateQueries({ queryKey: ['favorites'] });
+      if (!favorited) {
+        showSuccess('Added to favorites', 'We\'ll let you know if the price drops or it sells.');
+      }
+    },
+    onError: (error: Error) => {
+      showError('Could not update favorites', error.message);
+    },
+  });
+
+  const handleClick = () => {
+    if (!user) {
+      navigate('/login', { state: { from: location } });
+      return;
+    }
+    toggleMutation.mutate();
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={toggleMutation.isLoading}
+      aria-pressed={favorited}
+      className={`btn-outline ${className}`}
+    >
+      <span className="flex items-center justify-center space-x-2">
+        <span>{favorited ? '❤️' : '🤍'}</span>
+        <span>{favorited ? 'Saved to Favorites' : 'Add to Favorites'}</span>
+      </span>
+    </button>
+  );
+}
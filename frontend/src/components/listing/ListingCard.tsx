@@ -10,7 +10,7 @@
  */
 
 import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Listing, EnhancedListing } from '@harborlist/shared-types';
 
 /**
@@ -20,11 +20,15 @@ import { Listing, EnhancedListing } from '@harborlist/shared-types';
  * @property {Listing | EnhancedListing} listing - Complete listing data to display
  * @property {boolean} [featured=false] - Whether to display as a featured listing with special styling
  * @property {boolean} [compact=false] - Whether to use compact layout for smaller spaces
+ * @property {number} [distance] - Distance in miles from the search location, shown next to the location
+ * @property {Function} [onClick] - Called when the card is clicked, before navigating to the listing
  */
 interface ListingCardProps {
   listing: Listing | EnhancedListing;
   featured?: boolean;
   compact?: boolean;
+  distance?: number;
+  onClick?: () => void;
 }
 
 /**
@@ -94,11 +98,15 @@ interface ListingCardProps {
  * - Adaptive typography and spacing
  * - Touch-friendly interactive elements
  */
-export default function ListingCard({ listing, featured = false, compact = false }: ListingCardProps) {
+export default function ListingCard({ listing, featured = false, compact = false, distance, onClick }: ListingCardProps) {
+  const navigate = useNavigate();
   const [imageError, setImageError] = useState(false);
   const [isImageLoading, setIsImageLoading] = useState(true);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
 
+  // Owner details are attached to search results
+  const owner = (listing as any).owner as { id: string; name: string } | null | undefined;
+
   // Reset image state when listing changes
   useEffect(() => {
     setImageError(false);
@@ -250,7 +258,7 @@ export default function ListingCard({ listing, featured = false, compact = false
   };
 
   return (
-    <Link to={getListingUrl()} className="group block">
+    <Link to={getListingUrl()} className="group block" onClick={onClick}>
       <article className={`card-hover relative overflow-hidden ${featured ? 'ring-2 ring-blue-200' : ''}`}>
         {/* Badges */}
         <div className="absolute top-4 left-4 z-10 flex flex-col gap-2">
@@ -365,6 +373,9 @@ export default function ListingCard({ listing, featured = false, compact = false
               <path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
             </svg>
             <span>{listing.location.city}, {listing.location.state}</span>
+            {distance !== undefined && (
+              <span className="ml-2 text-neutral-500">· {distance} mi away</span>
+            )}
           </div>
 
           {/* Boat Details */}
@@ -428,9 +439,22 @@ export default function ListingCard({ listing, featured = false, compact = false
           <div className="flex justify-between items-center pt-4 border-t border-neutral-100">
             <div className="flex items-center space-x-2">
               <div className="w-6 h-6 bg-neutral-200 rounded-full"></div>
-              <span className="text-small text-neutral-600">
-                {(listing as any).owner?.name || 'Private Seller'}
-              </span>
+              {owner ? (
+                <button
+                  type="button"
+                  className="text-small text-neutral-600 hover:text-primary-600 hover:underline"
+                  onClick={(e) => {
+                    // The whole card links to the listing
+                    e.preventDefault();
+                    e.stopPropagation();
+                    navigate(`/sellers/${owner.id}`);
+                  }}
+                >
+                  {owner.name}
+                </button>
+              ) : (
+                <span className="text-small text-neutral-600">Private Seller</span>
+              )}
             </div>
             <button className="btn-ghost btn-sm">
               View details
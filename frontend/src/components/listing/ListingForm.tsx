@@ -121,6 +121,7 @@ export default function ListingForm({ onSubmit, isLoading, initialData }: Listin
       type: '',
       manufacturer: '',
       model: '',
+      hin: '',
       year: new Date().getFullYear(),
       length: 0,
       beam: 0,
@@ -546,6 +547,24 @@ export default function ListingForm({ onSubmit, isLoading, initialData }: Listin
           </div>
         </div>
 
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Hull Identification Number (HIN)
+          </label>
+          <input
+            type="text"
+            name="boatDetails.hin"
+            value={formData.boatDetails.hin || ''}
+            onChange={handleInputChange}
+            maxLength={17}
+            className="form-input"
+            placeholder="ABC12345D404"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Found on the transom. Not shown to buyers; it helps us protect your listing from copycat scams.
+          </p>
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
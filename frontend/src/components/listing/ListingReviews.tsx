@@ -0,0 +1,314 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ListingRating, Review } from '@harborlist/shared-types';
+import {
+  createReview,
+  deleteReview,
+  deleteReviewResponse,
+  getListingRating,
+  respondToReview,
+  updateReview,
+} from '../../services/ratings';
+import { useAuth } from '../auth/AuthProvider';
+import { useToast } from '../../contexts/ToastContext';
+
+interface ListingReviewsProps {
+  listingId: string;
+  isOwner: boolean;
+}
+
+const STARS = [5, 4, 3, 2, 1] as const;
+
+function Stars({ rating, className = '' }: { rating: number; className?: string }) {
+  return (
+    <span className={`text-yellow-500 ${className}`} aria-label={`${rating} out of 5 stars`}>
+      {'★'.repeat(Math.round(rating))}
+      <span className="text-gray-300">{'★'.repeat(5 - Math.round(rating))}</span>
+    </span>
+  );
+}
+
+/**
+ * Form for writing or editing the signed-in user's review
+ */
+function ReviewForm({ listingId, review, onDone }: { listingId: string; review?: Review; onDone: () => void }) {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [rating, setRating] = useState(review?.rating || 0);
+  const [comment, setComment] = useState(review?.comment || '');
+
+  const saveMutation = useMutation({
+    mutationFn: () => review
+      ? updateReview(review.reviewId, { rating, comment })
+      : createReview({ listingId, rating, comment: comment.trim() || undefined }),
+    onSuccess: (saved) => {
+      showSuccess(
+        review ? 'Review updated' : 'Review posted',
+        saved.moderationStatus === 'pending'
+          ? 'Your review will appear once a moderator has checked it.'
+          : 'Thanks for sharing your experience.'
+      );
+      queryClient.invalidateQueries({ queryKey: ['listing-rating', listingId] });
+      onDone();
+    },
+    onError: (error: Error) => {
+      showError('Could not save review', error.message);
+    },
+  });
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); saveMutation.mutate(); }}
+      className="space-y-3 bg-slate-50 rounded-lg p-4 mb-6"
+    >
+      <div className="flex items-center gap-1" role="radiogroup" aria-label="Rating">
+        {[1, 2, 3, 4, 5].map(star => (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={rating === star}
+            aria-label={`${star} star${star === 1 ? '' : 's'}`}
+            className={`text-2xl ${star <= rating ? 'text-yellow-500' : 'text-gray-300'} hover:text-yellow-400`}
+            onClick={() => setRating(star)}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        rows={3}
+        maxLength={2000}
+        className="form-textarea"
+        placeholder="What was your experience with this boat and seller? (optional)"
+        aria-label="Review"
+      />
+      <div className="flex justify-end gap-2">
+        <button type="button" className="btn-secondary text-sm py-1.5" onClick={onDone}>
+          Cancel
+        </button>
+        <button type="submit" className="btn-primary text-sm py-1.5" disabled={rating === 0 || saveMutation.isLoading}>
+          {saveMutation.isLoading ? 'Saving...' : review ? 'Update Review' : 'Post Review'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * One published review, with the seller's response and the owner's reply controls
+ */
+function ReviewItem({ review, listingId, isOwner }: { review: Review; listingId: string; isOwner: boolean }) {
+  const queryClient = useQueryClient();
+  const { showError } = useToast();
+  const [responding, setResponding] = useState(false);
+  const [response, setResponse] = useState(review.sellerResponse?.comment || '');
+
+  const responseMutation = useMutation({
+    mutationFn: (remove: boolean) => remove
+      ? deleteReviewResponse(review.reviewId)
+      : respondToReview(review.reviewId, response.trim()),
+    onSuccess: () => {
+      setResponding(false);
+      queryClient.invalidateQueries({ queryKey: ['listing-rating', listingId] });
+    },
+    onError: (error: Error) => {
+      showError('Could not save response', error.message);
+    },
+  });
+
+  return (
+    <li className="border-b border-ocean-100 pb-4 last:border-0">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-navy-900">{review.userName}</span>
+          {review.verified && (
+            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-700">
+              Verified inquiry
+            </span>
+          )}
+        </div>
+        <span className="text-xs text-navy-500">{new Date(review.createdAt).toLocaleDateString()}</span>
+      </div>
+      <Stars rating={review.rating} className="text-sm" />
+      {review.comment && <p className="mt-1 text-sm text-navy-700 whitespace-pre-wrap">{review.comment}</p>}
+
+      {review.sellerResponse && !responding && (
+        <div className="mt-3 ml-4 pl-3 border-l-2 border-ocean-200">
+          <p className="text-xs font-medium text-navy-600">Response from {review.sellerResponse.sellerName}</p>
+          <p className="text-sm text-navy-700 whitespace-pre-wrap">{review.sellerResponse.comment}</p>
+        </div>
+      )}
+
+      {isOwner && !responding && (
+        <div className="mt-2 flex gap-3 text-sm">
+          <button type="button" className="text-blue-600 hover:text-blue-800" onClick={() => setResponding(true)}>
+            {review.sellerResponse ? 'Edit response' : 'Respond'}
+          </button>
+          {review.sellerResponse && (
+            <button
+              type="button"
+              className="text-red-600 hover:text-red-800"
+              disabled={responseMutation.isLoading}
+              onClick={() => confirm('Remove your response?') && responseMutation.mutate(true)}
+            >
+              Remove response
+            </button>
+          )}
+        </div>
+      )}
+
+      {responding && (
+        <form
+          onSubmit={(e) => { e.preventDefault(); responseMutation.mutate(false); }}
+          className="mt-3 space-y-2"
+        >
+          <textarea
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            rows={2}
+            maxLength={1000}
+            required
+            className="form-textarea"
+            placeholder="Reply publicly to this review"
+            aria-label="Response to review"
+          />
+          <div className="flex justify-end gap-2">
+            <button type="button" className="btn-secondary text-sm py-1.5" onClick={() => setResponding(false)}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary text-sm py-1.5" disabled={responseMutation.isLoading}>
+              {responseMutation.isLoading ? 'Saving...' : 'Post Response'}
+            </button>
+          </div>
+        </form>
+      )}
+    </li>
+  );
+}
+
+export default function ListingReviews({ listingId, isOwner }: ListingReviewsProps) {
+  const { user } = useAuth();
+  const location = useLocation();
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [showForm, setShowForm] = useState(false);
+
+  const { data: rating } = useQuery<ListingRating | null>({
+    queryKey: ['listing-rating', listingId, user?.id],
+    queryFn: () => getListingRating(listingId),
+  });
+
+  // Review notifications link to #reviews; scroll there once the reviews have loaded
+  useEffect(() => {
+    if (location.hash === '#reviews' && rating) {
+      document.getElementById('reviews')?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [location.hash, rating]);
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteReview,
+    onSuccess: () => {
+      showSuccess('Review deleted', 'Your review has been removed.');
+      queryClient.invalidateQueries({ queryKey: ['listing-rating', listingId] });
+    },
+    onError: (error: Error) => {
+      showError('Could not delete review', error.message);
+    },
+  });
+
+  const userReview = rating?.userReview;
+  const total = rating?.totalReviews || 0;
+
+  return (
+    <div id="reviews" className="card p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-navy-900">
+          <span className="mr-2">⭐</span>Reviews
+          {total > 0 && <span className="ml-2 text-sm font-normal text-navy-500">({total})</span>}
+        </h2>
+        {!isOwner && !userReview && !showForm && (
+          user ? (
+            <button type="button" className="btn-secondary text-sm py-1.5" onClick={() => setShowForm(true)}>
+              Write a Review
+            </button>
+          ) : (
+            <Link to="/login" state={{ from: location }} className="text-sm text-blue-600 hover:text-blue-800">
+              Sign in to write a review
+            </Link>
+          )
+        )}
+      </div>
+
+      {total > 0 && rating && (
+        <div className="flex flex-col sm:flex-row gap-6 mb-6">
+          <div className="text-center">
+            <div className="text-4xl font-bold text-navy-900">{rating.averageRating.toFixed(1)}</div>
+            <Stars rating={rating.averageRating} />
+            <div className="text-xs text-navy-500">{total} review{total === 1 ? '' : 's'}</div>
+          </div>
+          <div className="flex-1 space-y-1">
+            {STARS.map(star => (
+              <div key={star} className="flex items-center gap-2 text-sm">
+                <span className="w-8 text-navy-600">{star} ★</span>
+                <div className="flex-1 h-2 bg-gray-200 rounded">
+                  <div
+                    className="h-2 bg-yellow-400 rounded"
+                    style={{ width: `${(rating.ratingBreakdown[star] / total) * 100}%` }}
+                  />
+                </div>
+                <span className="w-8 text-right text-navy-500">{rating.ratingBreakdown[star]}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <ReviewForm listingId={listingId} review={userReview} onDone={() => setShowForm(false)} />
+      )}
+
+      {userReview && !showForm && (
+        <div className="bg-slate-50 rounded-lg p-4 mb-6">
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm font-medium text-navy-900">Your review</span>
+            {userReview.moderationStatus === 'pending' && (
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-700">Awaiting moderation</span>
+            )}
+            {userReview.moderationStatus === 'rejected' && (
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-700">Removed by a moderator</span>
+            )}
+          </div>
+          <Stars rating={userReview.rating} className="text-sm" />
+          {userReview.comment && <p className="mt-1 text-sm text-navy-700 whitespace-pre-wrap">{userReview.comment}</p>}
+          <div className="mt-2 flex gap-3 text-sm">
+            <button type="button" className="text-blue-600 hover:text-blue-800" onClick={() => setShowForm(true)}>
+              Edit
+            </button>
+            <button
+              type="button"
+              className="text-red-600 hover:text-red-800"
+              disabled={deleteMutation.isLoading}
+              onClick={() => confirm('Delete your review?') && deleteMutation.mutate(userReview.reviewId)}
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      {total === 0 ? (
+        <p className="text-sm text-navy-600">No reviews yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {rating!.reviews.map(review => (
+            <ReviewItem key={review.reviewId} review={review} listingId={listingId} isOwner={isOwner} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation } from '@tanstack/react-query';
+import { Listing, OfferContingency, OfferContingencyType } from '@harborlist/shared-types';
+import { makeOffer } from '../../services/listings';
+import { useToast } from '../../contexts/ToastContext';
+
+interface MakeOfferFormProps {
+  listing: Listing;
+  onClose: () => void;
+}
+
+/**
+ * Contingencies a buyer can attach, with their default periods in days
+ */
+export const CONTINGENCY_OPTIONS: Array<{ type: OfferContingencyType; label: string; description: string; defaultDays: number }> = [
+  { type: 'survey', label: 'Marine survey', description: 'Subject to a satisfactory survey by a marine surveyor', defaultDays: 14 },
+  { type: 'sea_trial', label: 'Sea trial', description: 'Subject to a satisfactory sea trial', defaultDays: 14 },
+  { type: 'financing', label: 'Financing', description: 'Subject to loan approval', defaultDays: 21 },
+];
+
+/**
+ * How long the seller has to respond
+ */
+export const EXPIRY_OPTIONS = [
+  { hours: 24, label: '24 hours' },
+  { hours: 48, label: '48 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+];
+
+export default function MakeOfferForm({ listing, onClose }: MakeOfferFormProps) {
+  const navigate = useNavigate();
+  const { showSuccess } = useToast();
+  const [amount, setAmount] = useState(String(Math.round(listing.price * 0.9)));
+  const [expiresInHours, setExpiresInHours] = useState(48);
+  const [message, setMessage] = useState('');
+  const [contingencies, setContingencies] = useState<Record<OfferContingencyType, number | null>>({
+    survey: 14,
+    sea_trial: 14,
+    financing: null,
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const offerMutation = useMutation({
+    mutationFn: makeOffer,
+    onSuccess: () => {
+      showSuccess('Offer sent', 'The seller has been notified of your offer.');
+      onClose();
+      navigate('/offers');
+    },
+    onError: (error: Error) => {
+      setError(error.message || 'Failed to send your offer. Please try again.');
+    }
+  });
+
+  const toggleContingency = (type: OfferContingencyType, defaultDays: number) => {
+    setContingencies(prev => ({ ...prev, [type]: prev[type] === null ? defaultDays : null }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const offerAmount = Number(amount);
+    if (!Number.isFinite(offerAmount) || offerAmount <= 0) {
+      setError('Enter a valid offer amount');
+      return;
+    }
+
+    const selected: OfferContingency[] = CONTINGENCY_OPTIONS
+      .filter(option => contingencies[option.type] !== null)
+      .map(option => ({ type: option.type, days: contingencies[option.type]! }));
+
+    offerMutation.mutate({
+      listingId: listing.listingId,
+      amount: offerAmount,
+      expiresInHours,
+      contingencies: selected,
+      message: message.trim() || undefined,
+    });
+  };
+
+  const formatPrice = (price: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0 }).format(price);
+
+  const difference = Number(amount) ? ((Number(amount) - listing.price) / listing.price) * 100 : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Make an Offer</h2>
+            <p className="text-gray-600 mt-1">{listing.title} · Asking {formatPrice(listing.price)}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="offer-amount" className="block text-sm font-medium text-gray-700 mb-1">
+                Offer Amount (USD) *
+              </label>
+              <input
+                id="offer-amount"
+                type="number"
+                min={1}
+                step={100}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+                className="form-input"
+              />
+              {difference !== 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {Math.abs(difference).toFixed(1)}% {difference < 0 ? 'below' : 'above'} asking
+                </p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="offer-expiry" className="block text-sm font-medium text-gray-700 mb-1">
+                Offer Expires In
+              </label>
+              <select
+                id="offer-expiry"
+                value={expiresInHours}
+                onChange={(e) => setExpiresInHours(Number(e.target.value))}
+                className="form-select"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.hours} value={option.hours}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-2">Contingencies</legend>
+            <div className="space-y-3">
+              {CONTINGENCY_OPTIONS.map(option => {
+                const days = contingencies[option.type];
+                return (
+                  <div key={option.type} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                    <label className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={days !== null}
+                        onChange={() => toggleContingency(option.type, option.defaultDays)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="block font-medium text-gray-900">{option.label}</span>
+                        <span className="block text-sm text-gray-600">{option.description}</span>
+                      </span>
+                    </label>
+                    {days !== null && (
+                      <label className="flex items-center gap-2 text-sm text-gray-600 whitespace-nowrap">
+                        <input
+                          type="number"
+                          min={1}
+                          max={90}
+                          value={days}
+                          onChange={(e) => setContingencies(prev => ({ ...prev, [option.type]: Number(e.target.value) || 1 }))}
+                          className="form-input w-20"
+                          aria-label={`${option.label} period in days`}
+                        />
+                        days
+                      </label>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </fieldset>
+
+          <div>
+            <label htmlFor="offer-message" className="block text-sm font-medium text-gray-700 mb-1">
+              Message to the Seller (Optional)
+            </label>
+            <textarea
+              id="offer-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              className="form-textarea"
+              placeholder="Tell the seller about your offer, timing or financing..."
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>
+          )}
+
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-700">
+            Offers are not binding until accepted. The seller can accept, decline or counter, and you can
+            withdraw your offer any time before they respond.
+          </div>
+
+          {/* Buttons */}
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" disabled={offerMutation.isLoading} className="btn-primary">
+              {offerMutation.isLoading ? 'Sending...' : 'Send Offer'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
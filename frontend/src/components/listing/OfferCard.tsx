@@ -0,0 +1,302 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { OfferAction, OfferStatus, OfferSummary } from '@harborlist/shared-types';
+import { respondToOffer } from '../../services/listings';
+import { useToast } from '../../contexts/ToastContext';
+import { CONTINGENCY_OPTIONS, EXPIRY_OPTIONS } from './MakeOfferForm';
+
+interface OfferCardProps {
+  offer: OfferSummary;
+  /** Show a link to the listing (used in the buyer's offer list) */
+  showListing?: boolean;
+}
+
+const STATUS_STYLES: Record<OfferStatus, { label: string; className: string }> = {
+  pending: { label: 'Awaiting seller', className: 'bg-yellow-100 text-yellow-700' },
+  countered: { label: 'Countered', className: 'bg-purple-100 text-purple-700' },
+  accepted: { label: 'Under contract', className: 'bg-green-100 text-green-700' },
+  rejected: { label: 'Declined', className: 'bg-red-100 text-red-700' },
+  withdrawn: { label: 'Withdrawn', className: 'bg-gray-100 text-gray-700' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-700' },
+  terminated: { label: 'Cancelled', className: 'bg-gray-100 text-gray-700' },
+  completed: { label: 'Sold', className: 'bg-blue-100 text-blue-700' },
+};
+
+const ACTION_LABELS: Record<OfferAction, string> = {
+  submit: 'Offer made',
+  counter: 'Countered',
+  accept: 'Accepted',
+  reject: 'Declined',
+  withdraw: 'Withdrawn',
+  expire: 'Expired',
+  terminate: 'Deal cancelled',
+  complete: 'Sale completed',
+};
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0 }).format(price);
+
+/**
+ * Describes how long is left before an open offer expires
+ */
+function formatTimeLeft(expiresAt: number): string {
+  const hours = Math.max(0, Math.round((expiresAt - Date.now()) / (60 * 60 * 1000)));
+  if (hours < 1) return 'less than an hour';
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'}`;
+  return `${Math.round(hours / 24)} days`;
+}
+
+export default function OfferCard({ offer, showListing = false }: OfferCardProps) {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [showCounter, setShowCounter] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [counterAmount, setCounterAmount] = useState(String(offer.amount));
+  const [counterExpiry, setCounterExpiry] = useState(48);
+  const [counterMessage, setCounterMessage] = useState('');
+  const [markUnderContract, setMarkUnderContract] = useState(true);
+
+  const otherName = offer.role === 'seller' ? offer.buyerName : offer.sellerName;
+  const status = STATUS_STYLES[offer.status];
+  const isOpen = offer.status === 'pending' || offer.status === 'countered';
+  const can = (action: OfferAction) => offer.availableActions.includes(action);
+
+  const actionMutation = useMutation({
+    mutationFn: ({ action, params }: { action: Parameters<typeof respondToOffer>[1]; params?: Parameters<typeof respondToOffer>[2] }) =>
+      respondToOffer(offer.offerId, action, params),
+    onSuccess: ({ offer: updated }) => {
+      showSuccess('Offer updated', `The offer is now ${STATUS_STYLES[updated.status].label.toLowerCase()}.`);
+      setShowCounter(false);
+      queryClient.invalidateQueries({ queryKey: ['offers'] });
+      queryClient.invalidateQueries({ queryKey: ['listing'] });
+    },
+    onError: (error: Error) => {
+      showError('Could not update offer', error.message);
+    },
+  });
+
+  const runAction = (action: Parameters<typeof respondToOffer>[1], confirmation?: string, params?: Parameters<typeof respondToOffer>[2]) => {
+    if (confirmation && !confirm(confirmation)) return;
+    actionMutation.mutate({ action, params });
+  };
+
+  const handleTerminate = () => {
+    const note = prompt('Why is the deal being cancelled? (optional)');
+    if (note === null) return;
+    actionMutation.mutate({ action: 'terminate', params: { note: note.trim() || undefined } });
+  };
+
+  const handleCounter = (e: React.FormEvent) => {
+    e.preventDefault();
+    actionMutation.mutate({
+      action: 'counter',
+      params: {
+        amount: Number(counterAmount),
+        expiresInHours: counterExpiry,
+        message: counterMessage.trim() || undefined,
+      },
+    });
+  };
+
+  return (
+    <div className="border border-ocean-100 rounded-lg p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="text-xl font-bold text-navy-900">{formatPrice(offer.amount)}</span>
+            <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${status.className}`}>{status.label}</span>
+          </div>
+          <p className="text-sm text-navy-600">
+            {offer.role === 'seller' ? `From ${otherName}` : `To ${otherName}`} · Asking {formatPrice(offer.askingPrice)}
+          </p>
+          {showListing && (
+            <Link to={`/listing/${offer.listingId}`} className="text-sm text-blue-600 hover:text-blue-800">
+              {offer.listingTitle}
+            </Link>
+          )}
+        </div>
+        {isOpen && (
+          <span className="text-xs text-navy-500 whitespace-nowrap">
+            Expires in {formatTimeLeft(offer.expiresAt)}
+          </span>
+        )}
+      </div>
+
+      {offer.contingencies.length > 0 && (
+        <ul className="flex flex-wrap gap-2 mt-3">
+          {offer.contingencies.map(contingency => (
+            <li key={contingency.type} className="px-2 py-1 text-xs rounded bg-slate-100 text-navy-700">
+              {CONTINGENCY_OPTIONS.find(option => option.type === contingency.type)?.label || contingency.type}
+              {contingency.days ? ` · ${contingency.days} days` : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {offer.message && (
+        <p className="mt-3 text-sm text-navy-700 whitespace-pre-wrap">“{offer.message}”</p>
+      )}
+
+      {isOpen && offer.awaitingRole && offer.awaitingRole !== offer.role && (
+        <p className="mt-3 text-sm text-navy-500">Waiting for {otherName} to respond.</p>
+      )}
+
+      {/* Actions */}
+      {offer.availableActions.length > 0 && !showCounter && (
+        <div className="mt-4 space-y-3">
+          {can('accept') && offer.role === 'seller' && (
+            <label className="flex items-center gap-2 text-sm text-navy-700">
+              <input
+                type="checkbox"
+                checked={markUnderContract}
+                onChange={(e) => setMarkUnderContract(e.target.checked)}
+              />
+              Mark the listing "Under contract" when accepting
+            </label>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {can('accept') && (
+              <button
+                type="button"
+                className="btn-primary text-sm py-1.5"
+                disabled={actionMutation.isLoading}
+                onClick={() => runAction('accept', `Accept ${formatPrice(offer.amount)}?`, { markUnderContract })}
+              >
+                Accept
+              </button>
+            )}
+            {can('counter') && (
+              <button type="button" className="btn-secondary text-sm py-1.5" onClick={() => setShowCounter(true)}>
+                Counter
+              </button>
+            )}
+            {can('reject') && (
+              <button
+                type="button"
+                className="btn-secondary text-sm py-1.5"
+                disabled={actionMutation.isLoading}
+                onClick={() => runAction('reject', 'Decline this offer?')}
+              >
+                Decline
+              </button>
+            )}
+            {can('withdraw') && (
+              <button
+                type="button"
+                className="btn-secondary text-sm py-1.5"
+                disabled={actionMutation.isLoading}
+                onClick={() => runAction('withdraw', 'Withdraw your offer?')}
+              >
+                Withdraw
+              </button>
+            )}
+            {can('complete') && (
+              <button
+                type="button"
+                className="btn-primary text-sm py-1.5"
+                disabled={actionMutation.isLoading}
+                onClick={() => runAction('complete', 'Mark the sale complete? The listing will be marked sold.')}
+              >
+                Complete Sale
+              </button>
+            )}
+            {can('terminate') && (
+              <button
+                type="button"
+                className="bg-red-50 text-red-600 hover:bg-red-100 font-medium py-1.5 px-4 rounded-lg transition-colors text-sm"
+                disabled={actionMutation.isLoading}
+                onClick={handleTerminate}
+              >
+                Cancel Deal
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Counter-offer */}
+      {showCounter && (
+        <form onSubmit={handleCounter} className="mt-4 space-y-3 bg-slate-50 rounded-lg p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor={`counter-amount-${offer.offerId}`} className="block text-sm font-medium text-gray-700 mb-1">
+                Counter Amount (USD)
+              </label>
+              <input
+                id={`counter-amount-${offer.offerId}`}
+                type="number"
+                min={1}
+                step={100}
+                value={counterAmount}
+                onChange={(e) => setCounterAmount(e.target.value)}
+                required
+                className="form-input"
+              />
+            </div>
+            <div>
+              <label htmlFor={`counter-expiry-${offer.offerId}`} className="block text-sm font-medium text-gray-700 mb-1">
+                Expires In
+              </label>
+              <select
+                id={`counter-expiry-${offer.offerId}`}
+                value={counterExpiry}
+                onChange={(e) => setCounterExpiry(Number(e.target.value))}
+                className="form-select"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.hours} value={option.hours}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <textarea
+            value={counterMessage}
+            onChange={(e) => setCounterMessage(e.target.value)}
+            rows={2}
+            maxLength={1000}
+            className="form-textarea"
+            placeholder="Add a note (optional)"
+            aria-label="Counter-offer note"
+          />
+          <div className="flex justify-end gap-2">
+            <button type="button" className="btn-secondary text-sm py-1.5" onClick={() => setShowCounter(false)}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary text-sm py-1.5" disabled={actionMutation.isLoading}>
+              {actionMutation.isLoading ? 'Sending...' : 'Send Counter-offer'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* History */}
+      {offer.history.length > 0 && (
+        <div className="mt-4 border-t border-ocean-100 pt-3">
+          <button
+            type="button"
+            className="text-sm text-navy-600 hover:text-navy-900"
+            onClick={() => setShowHistory(!showHistory)}
+          >
+            {showHistory ? 'Hide history' : `Show history (${offer.history.length})`}
+          </button>
+          {showHistory && (
+            <ol className="mt-2 space-y-2 text-sm">
+              {offer.history.map((event, index) => (
+                <li key={index} className="flex justify-between gap-4 text-navy-700">
+                  <span>
+                    <span className="font-medium">{ACTION_LABELS[event.action]}</span>
+                    {event.actorRole !== 'system' && ` by ${event.actorRole === 'buyer' ? offer.buyerName : offer.sellerName}`}
+                    {event.terms && ` · ${formatPrice(event.terms.amount)}`}
+                    {event.note && ` · “${event.note}”`}
+                  </span>
+                  <span className="text-navy-500 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,9 +7,11 @@ import { useToast } from '../../contexts/ToastContext';
 
 interface OwnerListingCardProps {
   listing: Listing;
+  /** Number of buyers who favorited the listing */
+  favoriteCount?: number;
 }
 
-export default function OwnerListingCard({ listing }: OwnerListingCardProps) {
+export default function OwnerListingCard({ listing, favoriteCount }: OwnerListingCardProps) {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const { showSuccess, showError, showWarning } = useToast();
@@ -99,6 +101,13 @@ export default function OwnerListingCard({ listing }: OwnerListingCardProps) {
         icon: '✓',
       };
     }
+    if (status === 'under_contract') {
+      return {
+        label: 'Under Contract',
+        color: 'bg-purple-100 text-purple-800 border-purple-200',
+        icon: '🤝',
+      };
+    }
     if (status === 'sold') {
       return {
         label: 'Sold',
@@ -142,13 +151,23 @@ export default function OwnerListingCard({ listing }: OwnerListingCardProps) {
             </span>
           </div>
 
-          {/* Views Counter */}
-          <div className="absolute top-3 right-3 bg-black bg-opacity-60 text-white px-2 py-1 rounded text-xs flex items-center">
-            <svg className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-            </svg>
-            {listing.views || 0} views
+          {/* Views and Favorites Counters */}
+          <div className="absolute top-3 right-3 flex flex-col items-end space-y-1">
+            <div className="bg-black bg-opacity-60 text-white px-2 py-1 rounded text-xs flex items-center">
+              <svg className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+              </svg>
+              {listing.views || 0} views
+            </div>
+            {favoriteCount !== undefined && (
+              <div className="bg-black bg-opacity-60 text-white px-2 py-1 rounded text-xs flex items-center">
+                <svg className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+                </svg>
+                {favoriteCount} {favoriteCount === 1 ? 'favorite' : 'favorites'}
+              </div>
+            )}
           </div>
         </div>
 
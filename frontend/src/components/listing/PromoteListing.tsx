@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Promotion purchase panel for a seller's own listing
+ *
+ * Features:
+ * - Choice of featured placement (top slots in search and on the homepage)
+ *   or a search boost (higher relevance ranking)
+ * - Live quote: days covered by the plan's featured allowance, days charged and total
+ * - Purchase charged to the payment method on file
+ *
+ * @author HarborList Development Team
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { PromotionQuote, PromotionType } from '@harborlist/shared-types';
+import { useToast } from '../../contexts/ToastContext';
+import { billingApi } from '../../services/billingApi';
+
+interface PromoteListingProps {
+  listingId: string;
+}
+
+const PROMOTION_OPTIONS: { value: PromotionType; label: string; description: string }[] = [
+  { value: 'featured', label: 'Featured', description: 'Top slots in search results and on the homepage' },
+  { value: 'boost', label: 'Boost', description: 'Ranks higher in search results' },
+];
+
+const DAY_OPTIONS = [3, 7, 14, 30];
+
+// Promotion amounts are in whole currency units, not cents
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export const PromoteListing: React.FC<PromoteListingProps> = ({ listingId }) => {
+  const { showSuccess, showError } = useToast();
+
+  const [type, setType] = useState<PromotionType>('featured');
+  const [days, setDays] = useState(7);
+  const [quote, setQuote] = useState<PromotionQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [purchasing, setPurchasing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setQuote(null);
+    setQuoteError(null);
+
+    billingApi.quotePromotion({ listingId, type, days })
+      .then(({ quote }) => {
+        if (!cancelled) setQuote(quote);
+      })
+      .catch(error => {
+        if (!cancelled) setQuoteError(error instanceof Error ? error.message : 'Failed to price promotion');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [listingId, type, days]);
+
+  const handlePurchase = async () => {
+    if (!quote) return;
+    const confirmation = quote.amount > 0
+      ? `Promote this listing for ${days} days for ${formatAmount(quote.amount, quote.currency)} plus any tax?`
+      : `Promote this listing for ${days} days using your plan's featured allowance?`;
+    if (!confirm(confirmation)) return;
+
+    try {
+      setPurchasing(true);
+      const { message } = await billingApi.purchasePromotion({ listingId, type, days });
+      showSuccess('Listing Promoted', message);
+      // Re-quote so the next purchase shows it extending this one
+      const { quote: next } = await billingApi.quotePromotion({ listingId, type, days });
+      setQuote(next);
+    } catch (error) {
+      showError('Promotion Failed', error instanceof Error ? error.message : 'Failed to promote listing');
+    } finally {
+      setPurchasing(false);
+    }
+  };
+
+  return (
+    <div className="card p-6 mb-6">
+      <h3 className="font-semibold text-navy-900 mb-4">
+        <span className="mr-2">📣</span>Promote Listing
+      </h3>
+
+      <div className="space-y-2 mb-4">
+        {PROMOTION_OPTIONS.map(option => (
+          <label
+            key={option.value}
+            className={`flex items-start p-3 border rounded-lg cursor-pointer ${
+              type === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+            }`}
+          >
+            <input
+              type="radio"
+              name="promotion-type"
+              value={option.value}
+              checked={type === option.value}
+              onChange={() => setType(option.value)}
+              className="mt-1 mr-3"
+            />
+            <span>
+              <span className="block text-sm font-medium text-navy-900">{option.label}</span>
+              <span className="block text-xs text-navy-600">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <label className="block text-sm font-medium text-navy-700 mb-1" htmlFor="promotion-days">Duration</label>
+      <select
+        id="promotion-days"
+        value={days}
+        onChange={(e) => setDays(Number(e.target.value))}
+        className="form-select w-full mb-4"
+      >
+        {DAY_OPTIONS.map(option => (
+          <option key={option} value={option}>{option} days</option>
+        ))}
+      </select>
+
+      {quoteError ? (
+        <p className="text-sm text-red-600 mb-4">{quoteError}</p>
+      ) : quote ? (
+        <div className="text-sm text-navy-700 space-y-1 mb-4">
+          <div className="flex justify-between">
+            <span>Runs</span>
+            <span>{formatDate(quote.startsAt)} – {formatDate(quote.endsAt)}</span>
+          </div>
+          {quote.includedDays > 0 && (
+            <div className="flex justify-between text-green-700">
+              <span>Included in your plan</span>
+              <span>{quote.includedDays} days</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>{quote.chargedDays} days × {formatAmount(quote.dayPrice, quote.currency)}</span>
+            <span className="font-semibold">{formatAmount(quote.amount, quote.currency)}</span>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-navy-500 mb-4">Calculating price...</p>
+      )}
+
+      <button
+        onClick={handlePurchase}
+        disabled={!quote || purchasing}
+        className="w-full btn-primary text-sm py-2 disabled:opacity-50"
+      >
+        {purchasing ? 'Processing...' : 'Promote'}
+      </button>
+      <Link to="/billing?tab=promotions" className="block text-center text-xs text-blue-600 hover:underline mt-3">
+        View promotion performance
+      </Link>
+    </div>
+  );
+};
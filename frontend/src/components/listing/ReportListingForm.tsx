@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Listing, ListingReportType } from '@harborlist/shared-types';
+import { reportListing } from '../../services/listings';
+import { useToast } from '../../contexts/ToastContext';
+
+interface ReportListingFormProps {
+  listing: Listing;
+  onClose: () => void;
+}
+
+/**
+ * Reasons a shopper can report a listing for
+ */
+export const REPORT_OPTIONS: Array<{ type: ListingReportType; label: string; description: string }> = [
+  { type: 'fraud', label: 'Scam or fraud', description: 'Asks for payment up front, fake seller or a boat that does not exist' },
+  { type: 'misleading', label: 'Misleading details', description: 'Price, specifications or condition do not match the boat' },
+  { type: 'duplicate', label: 'Duplicate listing', description: 'The same boat is listed more than once' },
+  { type: 'copyright', label: 'Stolen photos or text', description: 'Uses photos or a description copied from someone else' },
+  { type: 'inappropriate', label: 'Inappropriate content', description: 'Offensive language or images' },
+  { type: 'spam', label: 'Spam', description: 'Advertising or content unrelated to a boat for sale' },
+  { type: 'other', label: 'Something else', description: 'Tell us what is wrong below' },
+];
+
+export default function ReportListingForm({ listing, onClose }: ReportListingFormProps) {
+  const { showSuccess } = useToast();
+  const [type, setType] = useState<ListingReportType | null>(null);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const reportMutation = useMutation({
+    mutationFn: () => reportListing(listing.listingId, { type: type!, reason: reason.trim() }),
+    onSuccess: ({ message }) => {
+      showSuccess('Report sent', message);
+      onClose();
+    },
+    onError: (error: Error) => {
+      setError(error.message || 'Failed to send your report. Please try again.');
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!type) {
+      setError('Choose what is wrong with this listing');
+      return;
+    }
+    if (!reason.trim()) {
+      setError('Describe the problem so our moderators can look into it');
+      return;
+    }
+
+    reportMutation.mutate();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Report Listing</h2>
+            <p className="text-gray-600 mt-1">{listing.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-2">What is wrong with this listing? *</legend>
+            <div className="space-y-2">
+              {REPORT_OPTIONS.map(option => (
+                <label
+                  key={option.type}
+                  className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer ${
+                    type === option.type ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="report-type"
+                    value={option.type}
+                    checked={type === option.type}
+                    onChange={() => setType(option.type)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block font-medium text-gray-900">{option.label}</span>
+                    <span className="block text-sm text-gray-600">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div>
+            <label htmlFor="report-reason" className="block text-sm font-medium text-gray-700 mb-1">
+              Details *
+            </label>
+            <textarea
+              id="report-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={4}
+              maxLength={1000}
+              className="form-textarea"
+              placeholder="What did you notice? Links to the original listing or photos help."
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>
+          )}
+
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-700">
+            Reports are confidential; the seller is not told who reported their listing. We will let you
+            know once a moderator has reviewed your report.
+          </div>
+
+          {/* Buttons */}
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" disabled={reportMutation.isLoading} className="btn-primary">
+              {reportMutation.isLoading ? 'Sending...' : 'Send Report'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -118,8 +118,28 @@ export default function NotificationBell() {
         return '📝';
       case 'listing_inquiry':
         return '💬';
+      case 'message':
+        return '✉️';
+      case 'listing_offer':
+        return '🤝';
+      case 'listing_review':
+        return '⭐';
       case 'system_announcement':
         return '📢';
+      case 'saved_search_match':
+        return '🔎';
+      case 'watchlist_price_drop':
+        return '💰';
+      case 'watchlist_sold':
+        return '🎉';
+      case 'watchlist_removed':
+        return '🚫';
+      case 'billing_case':
+        return '🧾';
+      case 'listing_report':
+        return '🚩';
+      case 'moderation_escalation':
+        return '⏰';
       default:
         return '🔔';
     }
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Button and dialog for saving the current search.
+ *
+ * Lets a signed-in buyer name the current filters and choose how to be
+ * alerted about new matches (in-app notifications and optional email).
+ * Signed-out visitors are sent to the login page.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { useState } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { SavedSearchEmailFrequency, SearchFilters } from '@harborlist/shared-types';
+import { useAuth } from '../auth/AuthProvider';
+import { useToast } from '../../contexts/ToastContext';
+import { createSavedSearch } from '../../services/listings';
+import { describeSearchFilters } from '../../utils/searchParams';
+
+interface SaveSearchButtonProps {
+  /** Filters of the current search */
+  filters: SearchFilters;
+}
+
+/** Email alert choices shown when saving a search */
+export const EMAIL_FREQUENCY_OPTIONS: Array<{ value: SavedSearchEmailFrequency; label: string }> = [
+  { value: 'instant', label: 'Email me right away' },
+  { value: 'daily', label: 'Daily digest' },
+  { value: 'none', label: 'No emails' },
+];
+
+export default function SaveSearchButton({ filters }: SaveSearchButtonProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [emailFrequency, setEmailFrequency] = useState<SavedSearchEmailFrequency>('daily');
+
+  const saveMutation = useMutation({
+    mutationFn: () => createSavedSearch({ name: name.trim(), filters, emailFrequency }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+      showSuccess('Search saved', 'We\'ll let you know when new boats match.');
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      showError('Could not save search', error.message);
+    },
+  });
+
+  const handleOpen = () => {
+    if (!user) {
+      navigate('/login', { state: { from: location } });
+      return;
+    }
+    setName(describeSearchFilters(filters).slice(0, 100));
+    setIsOpen(true);
+  };
+
+  return (
+    <>
+      <button type="button" className="btn-outline" onClick={handleOpen}>
+        🔔 Save Search
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <form
+            role="dialog"
+            aria-labelledby="save-search-title"
+            className="bg-white rounded-lg shadow-xl max-w-md w-full p-6"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <h2 id="save-search-title" className="text-lg font-semibold text-navy-900 mb-4">
+              Save this search
+            </h2>
+
+            <label htmlFor="saved-search-name" className="block text-sm font-medium text-navy-700 mb-1">
+              Name
+            </label>
+            <input
+              id="saved-search-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              required
+              className="form-input w-full mb-4"
+            />
+
+            <label htmlFor="saved-search-email" className="block text-sm font-medium text-navy-700 mb-1">
+              Email alerts
+            </label>
+            <select
+              id="saved-search-email"
+              value={emailFrequency}
+              onChange={(e) => setEmailFrequency(e.target.value as SavedSearchEmailFrequency)}
+              className="form-select w-full mb-2"
+            >
+              {EMAIL_FREQUENCY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-navy-500 mb-6">
+              You'll also get a notification on HarborList when new boats match.
+            </p>
+
+            <div className="flex justify-end gap-3">
+              <button type="button" className="btn-outline" onClick={() => setIsOpen(false)}>
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary" disabled={!name.trim() || saveMutation.isLoading}>
+                {saveMutation.isLoading ? 'Saving...' : 'Save Search'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+}
@@ -4,13 +4,20 @@
  * Provides comprehensive search filtering capabilities with expandable
  * advanced options, real-time filter updates, and responsive design.
  * Supports price ranges, location filtering, boat specifications, and more.
+ * When the search response includes facets, each option is rendered as a
+ * checkbox with a live result count.
  * 
  * @author HarborList Development Team
  * @version 1.0.0
  */
 
 import { useState } from 'react';
-import { SearchFilters as SearchFiltersType } from '@harborlist/shared-types';
+import {
+  SearchFilters as SearchFiltersType,
+  SearchFacets,
+  FacetValue,
+  RangeFacetValue,
+} from '@harborlist/shared-types';
 
 /**
  * Props interface for the SearchFilters component
@@ -19,11 +26,31 @@ import { SearchFilters as SearchFiltersType } from '@harborlist/shared-types';
  * @property {SearchFiltersType} filters - Current filter state
  * @property {(filters: SearchFiltersType) => void} onFiltersChange - Filter update handler
  * @property {() => void} onSearch - Search execution handler
+ * @property {SearchFacets} [facets] - Facet counts from the latest search response
  */
 interface SearchFiltersProps {
   filters: SearchFiltersType;
   onFiltersChange: (filters: SearchFiltersType) => void;
   onSearch: () => void;
+  facets?: SearchFacets;
+}
+
+/**
+ * Single checkbox option rendered inside a facet group
+ *
+ * @interface FacetOption
+ * @property {string} key - Stable React key
+ * @property {string} label - Display label
+ * @property {number} count - Number of results the option matches
+ * @property {boolean} checked - Whether the option is currently selected
+ * @property {() => void} onToggle - Selection toggle handler
+ */
+interface FacetOption {
+  key: string;
+  label: string;
+  count: number;
+  checked: boolean;
+  onToggle: () => void;
 }
 
 /** Available boat types for filtering */
@@ -41,6 +68,134 @@ const US_STATES = [
   'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY'
 ];
 
+/** Search radius choices in miles for ZIP code searches */
+const RADIUS_OPTIONS = [10, 25, 50, 100, 250];
+
+/**
+ * Capitalizes a facet value for display ("twin" -> "Twin")
+ *
+ * @param {string} value - Raw facet value
+ * @returns {string} Display label
+ */
+const formatFacetLabel = (value: string): string =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Toggles a value within a multi-select filter array
+ *
+ * @param {string[] | undefined} current - Currently selected values
+ * @param {string} value - Value to add or remove
+ * @returns {string[] | undefined} Updated selection, or undefined when empty
+ */
+const toggleValue = <T extends string>(current: T[] | undefined, value: T): T[] | undefined => {
+  const selected = current || [];
+  const next = selected.includes(value)
+    ? selected.filter(item => item !== value)
+    : [...selected, value];
+  return next.length > 0 ? next : undefined;
+};
+
+/**
+ * Builds checkbox options for a multi-select categorical facet
+ *
+ * Selected values are always listed (with a zero count if the current
+ * filters exclude them) so they can be unchecked.
+ *
+ * @param {FacetValue[] | undefined} values - Facet counts from the server
+ * @param {string[] | undefined} selected - Currently selected values
+ * @param {(value: string) => void} onToggle - Toggle handler for a value
+ * @param {(value: string) => string} [format] - Optional label formatter
+ * @returns {FacetOption[]} Checkbox options
+ */
+const buildValueOptions = (
+  values: FacetValue[] | undefined,
+  selected: string[] | undefined,
+  onToggle: (value: string) => void,
+  format: (value: string) => string = value => value
+): FacetOption[] => {
+  const entries = [...(values || [])];
+  (selected || []).forEach(value => {
+    if (!entries.some(entry => entry.value === value)) {
+      entries.push({ value, count: 0 });
+    }
+  });
+
+  return entries.map(entry => ({
+    key: entry.value,
+    label: format(entry.value),
+    count: entry.count,
+    checked: selected?.includes(entry.value) || false,
+    onToggle: () => onToggle(entry.value),
+  }));
+};
+
+/**
+ * Builds checkbox options for a bucketed range facet
+ *
+ * A bucket is selected when the range filter matches its bounds exactly;
+ * checking a bucket replaces the range, unchecking clears it.
+ *
+ * @param {RangeFacetValue[] | undefined} buckets - Bucket counts from the server
+ * @param {{ min?: number; max?: number } | undefined} range - Current range filter
+ * @param {(range: { min?: number; max?: number } | undefined) => void} onChange - Range update handler
+ * @returns {FacetOption[]} Checkbox options
+ */
+const buildRangeOptions = (
+  buckets: RangeFacetValue[] | undefined,
+  range: { min?: number; max?: number } | undefined,
+  onChange: (range: { min?: number; max?: number } | undefined) => void
+): FacetOption[] =>
+  (buckets || []).map(bucket => {
+    const checked = !!range && range.min === bucket.min && range.max === bucket.max;
+    return {
+      key: bucket.range,
+      label: bucket.range,
+      count: bucket.count,
+      checked,
+      onToggle: () => onChange(checked ? undefined : { min: bucket.min, max: bucket.max }),
+    };
+  });
+
+/**
+ * Facet group rendered as a list of live-count checkboxes
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.title - Group heading
+ * @param {FacetOption[]} props.options - Checkbox options
+ * @returns {JSX.Element | null} Facet group, or null when there are no options
+ */
+function FacetGroup({ title, options }: { title: string; options: FacetOption[] }) {
+  if (options.length === 0) {
+    return null;
+  }
+
+  return (
+    <fieldset>
+      <legend className="block text-sm font-medium text-gray-700 mb-2">{title}</legend>
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {options.map(option => (
+          <label
+            key={option.key}
+            className={`flex items-center text-sm p-1 rounded hover:bg-gray-50 ${
+              option.count === 0 && !option.checked ? 'text-gray-400' : 'text-gray-700'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={option.checked}
+              onChange={option.onToggle}
+              disabled={option.count === 0 && !option.checked}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="flex-1">{option.label}</span>
+            <span className="text-gray-500">({option.count})</span>
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
+
 /**
  * Advanced search filters component for boat listings
  * 
@@ -52,9 +207,12 @@ const US_STATES = [
  * - Text Search: Free-text query across listing titles and descriptions
  * - Price Range: Minimum and maximum price filtering
  * - Location: State-based location filtering
+ * - Distance: Radius search around a ZIP code
  * - Boat Type: Category-based boat type filtering
  * - Year Range: Manufacturing year filtering
  * - Length Range: Boat length filtering in feet
+ * - Facets: Live-count checkboxes for boat type, manufacturer, state,
+ *   price/year/length buckets, engine configuration and fuel type
  * - Clear All: Reset all filters to default state
  * 
  * Features:
@@ -76,6 +234,7 @@ const US_STATES = [
  * @param {SearchFiltersType} props.filters - Current filter state
  * @param {Function} props.onFiltersChange - Filter update callback
  * @param {Function} props.onSearch - Search execution callback
+ * @param {SearchFacets} [props.facets] - Facet counts from the latest search response
  * @returns {JSX.Element} Comprehensive search filters with expandable advanced options
  * 
  * @example
@@ -95,6 +254,14 @@ const US_STATES = [
  *   onFiltersChange={updateFilters}
  *   onSearch={executeSearch}
  * />
+ * 
+ * // With facet counts from the search response
+ * <SearchFilters
+ *   filters={filters}
+ *   onFiltersChange={setFilters}
+ *   onSearch={handleSearch}
+ *   facets={searchResults?.facets}
+ * />
  * ```
  * 
  * @accessibility
@@ -116,7 +283,7 @@ const US_STATES = [
  * - Touch-friendly input controls
  * - Collapsible advanced filters on mobile
  */
-export default function SearchFilters({ filters, onFiltersChange, onSearch }: SearchFiltersProps) {
+export default function SearchFilters({ filters, onFiltersChange, onSearch, facets }: SearchFiltersProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
   /**
@@ -227,6 +394,46 @@ export default function SearchFilters({ filters, onFiltersChange, onSearch }: Se
             </select>
           </div>
 
+          {/* Distance */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Near ZIP Code
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                inputMode="numeric"
+                maxLength={5}
+                placeholder="ZIP"
+                value={filters.location?.zipCode || ''}
+                onChange={(e) => updateFilters({
+                  location: {
+                    ...filters.location,
+                    zipCode: e.target.value || undefined,
+                    radius: e.target.value ? filters.location?.radius || 50 : undefined
+                  }
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              <select
+                aria-label="Search radius"
+                value={filters.location?.radius || 50}
+                disabled={!filters.location?.zipCode}
+                onChange={(e) => updateFilters({
+                  location: {
+                    ...filters.location,
+                    radius: Number(e.target.value)
+                  }
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {RADIUS_OPTIONS.map(radius => (
+                  <option key={radius} value={radius}>Within {radius} mi</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
           {/* Boat Type */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -323,6 +530,83 @@ export default function SearchFilters({ filters, onFiltersChange, onSearch }: Se
           </div>
         </div>
       )}
+
+      {/* Facets */}
+      {facets && (
+        <div className="mt-4 pt-4 border-t grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <FacetGroup
+            title="Boat Type"
+            options={buildValueOptions(facets.boatTypes, filters.boatType, value =>
+              updateFilters({ boatType: toggleValue(filters.boatType, value) })
+            )}
+          />
+          <FacetGroup
+            title="Manufacturer"
+            options={buildValueOptions(facets.manufacturers, filters.manufacturer, value =>
+              updateFilters({ manufacturer: toggleValue(filters.manufacturer, value) })
+            )}
+          />
+          <FacetGroup
+            title="State"
+            options={buildValueOptions(
+              facets.locations?.map(({ state, count }) => ({ value: state, count })),
+              filters.location?.state ? [filters.location.state] : undefined,
+              value => updateFilters({
+                location: {
+                  ...filters.location,
+                  state: filters.location?.state === value ? undefined : value
+                }
+              })
+            )}
+          />
+          <FacetGroup
+            title="Price"
+            options={buildRangeOptions(facets.priceRanges, filters.priceRange, priceRange =>
+              updateFilters({ priceRange })
+            )}
+          />
+          <FacetGroup
+            title="Year"
+            options={buildRangeOptions(facets.yearRanges, filters.yearRange, yearRange =>
+              updateFilters({ yearRange })
+            )}
+          />
+          <FacetGroup
+            title="Length"
+            options={buildRangeOptions(facets.lengthRanges, filters.lengthRange, lengthRange =>
+              updateFilters({ lengthRange })
+            )}
+          />
+          <FacetGroup
+            title="Engines"
+            options={buildValueOptions(
+              facets.engineConfigurations,
+              filters.engineConfiguration,
+              value => updateFilters({
+                engineConfiguration: toggleValue(
+                  filters.engineConfiguration,
+                  value as NonNullable<SearchFiltersType['engineConfiguration']>[number]
+                )
+              }),
+              formatFacetLabel
+            )}
+          />
+          <FacetGroup
+            title="Fuel Type"
+            options={buildValueOptions(
+              facets.fuelTypes,
+              filters.fuelType,
+              value => updateFilters({
+                fuelType: toggleValue(
+                  filters.fuelType,
+                  value as NonNullable<SearchFiltersType['fuelType']>[number]
+                )
+              }),
+              formatFacetLabel
+            )}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Tests for SearchFilters facet rendering and distance search
+ * 
+ * Tests live-count facet checkboxes and how toggling them updates filters,
+ * and the ZIP code radius inputs.
+ * 
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { SearchFacets } from '@harborlist/shared-types';
+import SearchFilters from '../SearchFilters';
+
+const mockFacets: SearchFacets = {
+  boatTypes: [
+    { value: 'Sailboat', count: 12 },
+    { value: 'Catamaran', count: 4 },
+  ],
+  manufacturers: [{ value: 'Catalina', count: 7 }],
+  locations: [
+    { state: 'FL', count: 10 },
+    { state: 'TX', count: 6 },
+  ],
+  priceRanges: [
+    { range: 'Under $25K', max: 24999, count: 3 },
+    { range: '$1M+', min: 1000000, count: 0 },
+  ],
+  yearRanges: [{ range: '2020 & newer', min: 2020, count: 5 }],
+  lengthRanges: [{ range: '30 - 39 ft', min: 30, max: 39.99, count: 8 }],
+  engineConfigurations: [{ value: 'twin', count: 2 }],
+  fuelTypes: [{ value: 'diesel', count: 3 }],
+};
+
+describe('SearchFilters facets', () => {
+  it('does not render facet groups without facets', () => {
+    render(<SearchFilters filters={{}} onFiltersChange={vi.fn()} onSearch={vi.fn()} />);
+
+    expect(screen.queryByText('Manufacturer')).not.toBeInTheDocument();
+  });
+
+  it('renders each facet option with its count', () => {
+    render(<SearchFilters filters={{}} onFiltersChange={vi.fn()} onSearch={vi.fn()} facets={mockFacets} />);
+
+    expect(screen.getByLabelText(/Sailboat/)).toBeInTheDocument();
+    expect(screen.getByText('(12)')).toBeInTheDocument();
+    expect(screen.getByLabelText(/Twin/)).toBeInTheDocument();
+    expect(screen.getByLabelText(/Diesel/)).toBeInTheDocument();
+  });
+
+  it('adds a value to a multi-select facet', () => {
+    const onFiltersChange = vi.fn();
+    render(
+      <SearchFilters
+        filters={{ boatType: ['Sailboat'] }}
+        onFiltersChange={onFiltersChange}
+        onSearch={vi.fn()}
+        facets={mockFacets}
+      />
+    );
+
+    expect(screen.getByLabelText(/Sailboat/)).toBeChecked();
+    fireEvent.click(screen.getByLabelText(/Catamaran/));
+
+    expect(onFiltersChange).toHaveBeenCalledWith({ boatType: ['Sailboat', 'Catamaran'] });
+  });
+
+  it('clears the filter when the last selected value is unchecked', () => {
+    const onFiltersChange = vi.fn();
+    render(
+      <SearchFilters
+        filters={{ manufacturer: ['Catalina'] }}
+        onFiltersChange={onFiltersChange}
+        onSearch={vi.fn()}
+        facets={mockFacets}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText(/Catalina/));
+
+    expect(onFiltersChange).toHaveBeenCalledWith({ manufacturer: undefined });
+  });
+
+  it('keeps selected values visible when they have no matches', () => {
+    render(
+      <SearchFilters
+        filters={{ boatType: ['Trawler'] }}
+        onFiltersChange={vi.fn()}
+        onSearch={vi.fn()}
+        facets={mockFacets}
+      />
+    );
+
+    expect(screen.getByLabelText(/Trawler/)).toBeChecked();
+  });
+
+  it('maps range buckets onto range filters', () => {
+    const onFiltersChange = vi.fn();
+    render(<SearchFilters filters={{}} onFiltersChange={onFiltersChange} onSearch={vi.fn()} facets={mockFacets} />);
+
+    fireEvent.click(screen.getByLabelText(/30 - 39 ft/));
+
+    expect(onFiltersChange).toHaveBeenCalledWith({ lengthRange: { min: 30, max: 39.99 } });
+  });
+
+  it('disables empty unselected buckets', () => {
+    render(<SearchFilters filters={{}} onFiltersChange={vi.fn()} onSearch={vi.fn()} facets={mockFacets} />);
+
+    expect(screen.getByLabelText(/\$1M\+/)).toBeDisabled();
+  });
+});
+
+describe('SearchFilters distance search', () => {
+  it('applies a default radius when a ZIP code is entered', () => {
+    const onFiltersChange = vi.fn();
+    render(<SearchFilters filters={{}} onFiltersChange={onFiltersChange} onSearch={vi.fn()} />);
+
+    fireEvent.click(screen.getByText('Show Advanced Filters'));
+    fireEvent.change(screen.getByPlaceholderText('ZIP'), { target: { value: '33139' } });
+
+    expect(onFiltersChange).toHaveBeenCalledWith({ location: { zipCode: '33139', radius: 50 } });
+  });
+
+  it('changes the radius for an existing ZIP code', () => {
+    const onFiltersChange = vi.fn();
+    render(
+      <SearchFilters
+        filters={{ location: { zipCode: '33139', radius: 50 } }}
+        onFiltersChange={onFiltersChange}
+        onSearch={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Show Advanced Filters'));
+    fireEvent.change(screen.getByLabelText('Search radius'), { target: { value: '100' } });
+
+    expect(onFiltersChange).toHaveBeenCalledWith({ location: { zipCode: '33139', radius: 100 } });
+  });
+});
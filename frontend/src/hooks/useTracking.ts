@@ -4,6 +4,7 @@
  * Tracks all user interactions and behaviors across the platform:
  * - Listing views, clicks, and engagement (authenticated & anonymous)
  * - Search queries and filter usage
+ * - Impressions and clicks of featured (paid) listings
  * - Contact seller actions
  * - Share and favorite actions
  * - Page views and scroll depth
@@ -53,6 +54,10 @@ export enum TrackingEventType {
   SEARCH_FILTER_APPLY = 'SEARCH_FILTER_APPLY',
   SEARCH_RESULT_CLICK = 'SEARCH_RESULT_CLICK',
   CATEGORY_BROWSE = 'CATEGORY_BROWSE',
+
+  // Paid promotions
+  PROMOTION_IMPRESSION = 'PROMOTION_IMPRESSION',
+  PROMOTION_CLICK = 'PROMOTION_CLICK',
   
   // Page views
   PAGE_VIEW = 'PAGE_VIEW',
@@ -337,6 +342,36 @@ export function useTracking() {
     });
   }, [user]);
 
+  /**
+   * Track a featured listing being shown
+   */
+  const trackPromotionImpression = useCallback((listingId: string, promotionId: string, placement: string) => {
+    trackEvent(TrackingEventType.PROMOTION_IMPRESSION, {
+      listingId,
+      metadata: {
+        promotionId,
+        placement,
+        userId: user?.id,
+        authenticated: !!user,
+      },
+    });
+  }, [user]);
+
+  /**
+   * Track a featured listing being clicked
+   */
+  const trackPromotionClick = useCallback((listingId: string, promotionId: string, placement: string) => {
+    trackEvent(TrackingEventType.PROMOTION_CLICK, {
+      listingId,
+      metadata: {
+        promotionId,
+        placement,
+        userId: user?.id,
+        authenticated: !!user,
+      },
+    });
+  }, [user]);
+
   /**
    * Track generic click event
    */
@@ -423,6 +458,10 @@ export function useTracking() {
     trackFilterApply,
     trackSearchResultClick,
     trackCategoryBrowse,
+
+    // Promotion tracking
+    trackPromotionImpression,
+    trackPromotionClick,
     
     // Interaction tracking
     trackContactSeller,
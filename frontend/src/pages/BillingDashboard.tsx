@@ -3,8 +3,12 @@
  * 
  * Features:
  * - Current subscription overview
+ * - Usage against plan quotas and upcoming overage
  * - Payment method management
  * - Transaction history
+ * - Invoices with HTML view and PDF download
+ * - Refund requests and billing disputes
+ * - Listing promotion performance
  * - Plan change options
  * - Billing address management
  * 
@@ -12,10 +16,14 @@
  */
 
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../components/auth/AuthProvider';
 import { useToast } from '../contexts/ToastContext';
 import { billingApi } from '../services/billingApi';
-import { BillingAccount, Transaction } from '@harborlist/shared-types';
+import { BillingRequests, canOpenBillingCase } from '../components/billing/BillingRequests';
+import { PlanUsage } from '../components/billing/PlanUsage';
+import { ListingPromotions } from '../components/billing/ListingPromotions';
+import { BillingAccount, Transaction, Invoice, UsageSummary } from '@harborlist/shared-types';
 
 interface PaymentMethod {
   id: string;
@@ -30,6 +38,8 @@ interface BillingDashboardState {
   billingAccount: BillingAccount | null;
   paymentMethods: PaymentMethod[];
   transactions: Transaction[];
+  invoices: Invoice[];
+  usage: UsageSummary | null;
   loading: boolean;
   error: string | null;
 }
@@ -42,11 +52,19 @@ const BillingDashboard: React.FC = () => {
     billingAccount: null,
     paymentMethods: [],
     transactions: [],
+    invoices: [],
+    usage: null,
     loading: true,
     error: null,
   });
 
-  const [activeTab, setActiveTab] = useState<'overview' | 'payment-methods' | 'transactions' | 'settings'>('overview');
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState<'overview' | 'payment-methods' | 'transactions' | 'invoices' | 'requests' | 'promotions' | 'settings'>(
+    searchParams.get('tab') === 'requests' ? 'requests'
+      : searchParams.get('tab') === 'promotions' ? 'promotions'
+      : 'overview'
+  );
+  const [requestTransaction, setRequestTransaction] = useState<Transaction | null>(null);
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [showPlanChangeModal, setShowPlanChangeModal] = useState(false);
 
@@ -62,10 +80,12 @@ const BillingDashboard: React.FC = () => {
     setState(prev => ({ ...prev, loading: true, error: null }));
 
     try {
-      const [billingResponse, paymentMethodsResponse, transactionsResponse] = await Promise.all([
+      const [billingResponse, paymentMethodsResponse, transactionsResponse, invoicesResponse, usageResponse] = await Promise.all([
         billingApi.getBillingAccount(user.userId).catch(() => ({ billingAccount: null })),
         billingApi.getPaymentMethods().catch(() => ({ paymentMethods: [] })),
         billingApi.getTransactionHistory({ limit: 10 }).catch(() => ({ transactions: [], total: 0 })),
+        billingApi.getInvoices({ limit: 24 }).catch(() => ({ invoices: [] as Invoice[] })),
+        billingApi.getUsage().catch(() => ({ usage: null })),
       ]);
 
       setState(prev => ({
@@ -73,6 +93,8 @@ const BillingDashboard: React.FC = () => {
         billingAccount: billingResponse.billingAccount,
         paymentMethods: paymentMethodsResponse.paymentMethods || [],
         transactions: transactionsResponse.transactions || [],
+        invoices: invoicesResponse.invoices || [],
+        usage: usageResponse.usage,
         loading: false,
       }));
     } catch (error: any) {
@@ -104,6 +126,39 @@ const BillingDashboard: React.FC = () => {
     }).format(amount / 100);
   };
 
+  const handleViewInvoice = async (invoice: Invoice) => {
+    try {
+      const document = await billingApi.getInvoiceDocument(invoice.invoiceId, 'html');
+      const url = URL.createObjectURL(document);
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error: any) {
+      showError('Invoice Unavailable', error.message || 'Failed to open invoice');
+    }
+  };
+
+  const handleDownloadInvoice = async (invoice: Invoice) => {
+    try {
+      const document = await billingApi.getInvoiceDocument(invoice.invoiceId, 'pdf');
+      const url = URL.createObjectURL(document);
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = `invoice-${invoice.invoiceNumber || invoice.invoiceId}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      showError('Download Failed', error.message || 'Failed to download invoice');
+    }
+  };
+
+  // Invoice amounts are stored in whole currency units, not cents
+  const formatInvoiceAmount = (amount: number, currency: string = 'USD') => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(amount);
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -118,6 +173,9 @@ const BillingDashboard: React.FC = () => {
       case 'past_due': return 'bg-yellow-100 text-yellow-800';
       case 'canceled': return 'bg-red-100 text-red-800';
       case 'suspended': return 'bg-orange-100 text-orange-800';
+      case 'paid': return 'bg-green-100 text-green-800';
+      case 'open': return 'bg-yellow-100 text-yellow-800';
+      case 'void': return 'bg-gray-100 text-gray-500';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -163,6 +221,9 @@ const BillingDashboard: React.FC = () => {
               { id: 'overview', label: 'Overview', icon: '📊' },
               { id: 'payment-methods', label: 'Payment Methods', icon: '💳' },
               { id: 'transactions', label: 'Transaction History', icon: '📋' },
+              { id: 'invoices', label: 'Invoices', icon: '🧾' },
+              { id: 'requests', label: 'Refunds & Disputes', icon: '💬' },
+              { id: 'promotions', label: 'Promotions', icon: '📣' },
               { id: 'settings', label: 'Settings', icon: '⚙️' },
             ].map((tab) => (
               <button
@@ -250,6 +311,8 @@ const BillingDashboard: React.FC = () => {
               )}
             </div>
 
+            {state.usage && <PlanUsage usage={state.usage} />}
+
             {/* Quick Stats */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div className="bg-white rounded-lg shadow p-6">
@@ -381,6 +444,9 @@ const BillingDashboard: React.FC = () => {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Status
                       </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -403,6 +469,19 @@ const BillingDashboard: React.FC = () => {
                             {transaction.status}
                           </span>
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                          {canOpenBillingCase(transaction) && (
+                            <button
+                              onClick={() => {
+                                setRequestTransaction(transaction);
+                                setActiveTab('requests');
+                              }}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              Request refund / Dispute
+                            </button>
+                          )}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -417,6 +496,89 @@ const BillingDashboard: React.FC = () => {
           </div>
         )}
 
+        {activeTab === 'invoices' && (
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900">Invoices</h2>
+            </div>
+
+            {state.invoices.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Invoice
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Date
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Total
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {state.invoices.map((invoice) => (
+                      <tr key={invoice.invoiceId} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {invoice.invoiceNumber}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatDate(invoice.issuedAt || invoice.createdAt)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatInvoiceAmount(invoice.total, invoice.currency)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadgeColor(invoice.status)}`}>
+                            {invoice.status}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-4">
+                          <button
+                            onClick={() => handleViewInvoice(invoice)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            View
+                          </button>
+                          <button
+                            onClick={() => handleDownloadInvoice(invoice)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            Download PDF
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <div className="text-4xl mb-4">🧾</div>
+                <p className="text-gray-500">No invoices yet</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'requests' && (
+          <BillingRequests
+            transactions={state.transactions}
+            newRequestTransaction={requestTransaction}
+            onNewRequestClosed={() => setRequestTransaction(null)}
+          />
+        )}
+
+        {activeTab === 'promotions' && <ListingPromotions />}
+
         {activeTab === 'settings' && (
           <div className="bg-white rounded-lg shadow p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-6">Billing Settings</h2>
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Favorites page listing the boats a buyer is watching
+ *
+ * Features:
+ * - Grid of favorited listings with their current details
+ * - Price change since the listing was saved
+ * - Sold and no-longer-available listings called out
+ * - Remove a listing from favorites
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FavoriteListing } from '@harborlist/shared-types';
+import Layout from '../components/layout/Layout';
+import PageHeader from '../components/layout/PageHeader';
+import ListingCard from '../components/listing/ListingCard';
+import { useToast } from '../contexts/ToastContext';
+import { useTracking } from '../hooks/useTracking';
+import { getFavorites, removeFavorite } from '../services/listings';
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0 }).format(price);
+
+export default function Favorites() {
+  const queryClient = useQueryClient();
+  const { showError } = useToast();
+  const { trackFavorite } = useTracking();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['favorites'],
+    queryFn: getFavorites,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: removeFavorite,
+    onSuccess: (_, listingId) => {
+      trackFavorite(listingId, 'remove');
+      queryClient.invalidateQueries({ queryKey: ['favorites'] });
+      queryClient.invalidateQueries({ queryKey: ['favorite', listingId] });
+    },
+    onError: (error: Error) => {
+      showError('Could not remove favorite', error.message);
+    },
+  });
+
+  const favorites = data?.favorites || [];
+
+  const renderPriceChange = (favorite: FavoriteListing) => {
+    const listing = favorite.listing;
+    if (!listing || listing.price === favorite.priceAtSave) {
+      return null;
+    }
+    const dropped = listing.price < favorite.priceAtSave;
+    return (
+      <p className={`text-sm font-medium ${dropped ? 'text-green-700' : 'text-navy-600'}`}>
+        {dropped ? '↓' : '↑'} {formatPrice(Math.abs(listing.price - favorite.priceAtSave))} since you saved it
+      </p>
+    );
+  };
+
+  return (
+    <>
+      <PageHeader
+        title="Favorites"
+        subtitle={data ? `${favorites.length} saved ${favorites.length === 1 ? 'boat' : 'boats'}` : 'Boats you are watching'}
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Favorites' }
+        ]}
+      />
+
+      <Layout>
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="card h-80 loading-wave" />
+            ))}
+          </div>
+        ) : favorites.length === 0 ? (
+          <div className="text-center py-16">
+            <div className="text-6xl mb-4">❤️</div>
+            <h3 className="text-xl font-semibold text-navy-900 mb-2">No favorites yet</h3>
+            <p className="text-navy-600 mb-6">
+              Favorite a boat to keep track of it and hear about price drops.
+            </p>
+            <Link to="/search" className="btn-primary">
+              Browse Boats
+            </Link>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {favorites.map(favorite => (
+              <div key={favorite.listingId} className="flex flex-col">
+                {favorite.listing ? (
+                  <div className="relative">
+                    <ListingCard listing={favorite.listing} />
+                    {favorite.listing.status !== 'active' && (
+                      <span className="absolute top-3 right-3 px-3 py-1 text-xs font-medium rounded-full bg-gray-800 text-white">
+                        {favorite.listing.status === 'sold' ? 'Sold' :
+                         favorite.listing.status === 'under_contract' ? 'Under contract' : 'No longer available'}
+                      </span>
+                    )}
+                  </div>
+                ) : (
+                  <div className="card p-6 text-center text-navy-600">
+                    This listing has been removed.
+                  </div>
+                )}
+                <div className="flex items-center justify-between mt-2 px-1">
+                  <div>
+                    {renderPriceChange(favorite)}
+                    <p className="text-xs text-navy-500">
+                      Saved {new Date(favorite.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    className="text-sm text-red-600 hover:text-red-800"
+                    onClick={() => removeMutation.mutate(favorite.listingId)}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Layout>
+    </>
+  );
+}
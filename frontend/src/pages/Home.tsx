@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import ListingCard from '../components/listing/ListingCard';
@@ -6,15 +6,33 @@ import SearchFilters from '../components/search/SearchFilters';
 import { SearchFilters as SearchFiltersType, Listing } from '@harborlist/shared-types';
 import { searchListings, getListings } from '../services/listings';
 import { getPlatformStats, calculateListingQualityScore } from '../services/ratings';
+import { useTracking } from '../hooks/useTracking';
 
 export default function Home() {
   const [filters, setFilters] = useState<SearchFiltersType>({});
+  const { trackPromotionImpression, trackPromotionClick } = useTracking();
 
   const { data: searchResults, isLoading } = useQuery({
     queryKey: ['listings', 'featured'],
-    queryFn: () => searchListings({ ...filters, limit: 8 }),
+    queryFn: () => searchListings({ ...filters, limit: 8, placement: 'home' }),
   });
 
+  // Paid featured listings take the first slots; the rest are filled from the search results
+  const featuredListings = useMemo(() => searchResults?.featured || [], [searchResults]);
+  const featuredIds = new Set(featuredListings.map(listing => listing.listingId));
+  const otherListings = (searchResults?.results || [])
+    .filter(listing => !featuredIds.has(listing.listingId))
+    .slice(0, 8 - featuredListings.length);
+  const featuredKey = featuredListings.map(listing => listing.promotionId).join(',');
+  const trackedFeaturedKey = useRef('');
+
+  // One impression per featured listing each time the featured set changes
+  useEffect(() => {
+    if (featuredKey === trackedFeaturedKey.current) return;
+    trackedFeaturedKey.current = featuredKey;
+    featuredListings.forEach(listing => trackPromotionImpression(listing.listingId, listing.promotionId, 'home'));
+  }, [featuredKey, featuredListings, trackPromotionImpression]);
+
   const { data: allListingsData, isLoading: isLoadingStats } = useQuery({
     queryKey: ['listings', 'all'],
     queryFn: () => getListings(),
@@ -322,14 +340,15 @@ export default function Home() {
           ) : (
             <>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
-                {searchResults?.results.slice(0, 4).map((listing, index) => (
-                  <ListingCard 
-                    key={listing.listingId} 
-                    listing={listing} 
-                    featured={index < 2}
+                {featuredListings.map((listing) => (
+                  <ListingCard
+                    key={listing.promotionId}
+                    listing={listing}
+                    featured
+                    onClick={() => trackPromotionClick(listing.listingId, listing.promotionId, 'home')}
                   />
                 ))}
-                {searchResults?.results.slice(4, 8).map((listing) => (
+                {otherListings.map((listing) => (
                   <ListingCard key={listing.listingId} listing={listing} />
                 ))}
               </div>
@@ -1,15 +1,21 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link, useLocation, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { getListing, updateListingStatus } from '../services/listings';
+import { getListing, getListingOffers, updateListingStatus } from '../services/listings';
 import { useAuth } from '../components/auth/AuthProvider';
 import Layout from '../components/layout/Layout';
 import PageHeader from '../components/layout/PageHeader';
 import ImageGallery from '../components/listing/ImageGallery';
 import ContactForm from '../components/listing/ContactForm';
+import FavoriteButton from '../components/listing/FavoriteButton';
+import MakeOfferForm from '../components/listing/MakeOfferForm';
+import ReportListingForm from '../components/listing/ReportListingForm';
+import OfferCard from '../components/listing/OfferCard';
+import ListingReviews from '../components/listing/ListingReviews';
 import BoatSpecs from '../components/listing/BoatSpecs';
 import FinanceCalculator from '../components/listing/FinanceCalculator';
 import ComparableBoats from '../components/listing/ComparableBoats';
+import { PromoteListing } from '../components/listing/PromoteListing';
 import { useToast } from '../contexts/ToastContext';
 import { 
   updateListingMetaTags, 
@@ -24,6 +30,8 @@ export default function ListingDetail() {
   const location = useLocation();
   const navigate = useNavigate();
   const [showContactForm, setShowContactForm] = useState(false);
+  const [showOfferForm, setShowOfferForm] = useState(false);
+  const [showReportForm, setShowReportForm] = useState(false);
   const { user } = useAuth();
   const { showSuccess, showError } = useToast();
 
@@ -52,7 +60,7 @@ export default function ListingDetail() {
       
       // If we have an enhanced listing with a slug and we're on an ID-based URL, redirect to slug URL
       if ('slug' in listing && listing.slug && !isSlugRoute) {
-        navigate(`/boat/${listing.slug}`, { replace: true });
+        navigate(`/boat/${listing.slug}${location.hash}`, { replace: true });
         return;
       }
       
@@ -66,13 +74,30 @@ export default function ListingDetail() {
     return () => {
       cleanupListingSEO();
     };
-  }, [data?.listing, isSlugRoute, navigate]);
+  }, [data?.listing, isSlugRoute, navigate, location.hash]);
 
   const listing = data?.listing;
 
   // Check if current user is the owner
   const isOwner = user && listing && user.id === listing.ownerId;
   
+  const isUnderContract = listing?.status === 'under_contract';
+
+  // Offers on the listing - owner only
+  const { data: offersData } = useQuery({
+    queryKey: ['offers', 'listing', listing?.listingId],
+    queryFn: () => getListingOffers(listing!.listingId),
+    enabled: !!isOwner,
+  });
+  const offers = offersData?.offers || [];
+
+  // Offer notifications link to #offers; scroll there once the offers have loaded
+  useEffect(() => {
+    if (location.hash === '#offers' && offersData) {
+      document.getElementById('offers')?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [location.hash, offersData]);
+
   // Check if user has premium access
   const isPremium = user?.premiumActive || false;
 
@@ -288,6 +313,32 @@ export default function ListingDetail() {
               </div>
             )}
 
+            {/* Reviews */}
+            <ListingReviews listingId={listing.listingId} isOwner={!!isOwner} />
+
+            {/* Offers - Only for owner */}
+            {isOwner && (
+              <div id="offers" className="card p-6 mb-6">
+                <h2 className="text-xl font-semibold text-navy-900 mb-4">
+                  <span className="mr-2">🤝</span>Offers
+                  {offers.length > 0 && (
+                    <span className="ml-2 text-sm font-normal text-navy-500">({offers.length})</span>
+                  )}
+                </h2>
+                {offers.length === 0 ? (
+                  <p className="text-sm text-navy-600">
+                    No offers yet. Offers from buyers will appear here for you to accept, decline or counter.
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {offers.map(offer => (
+                      <OfferCard key={offer.offerId} offer={offer} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Comparable Listings - Only for premium owners */}
             {isOwner && (
               <div className="card p-6 mb-6">
@@ -428,19 +479,31 @@ export default function ListingDetail() {
                     listing.status === 'active' ? 'bg-green-100 text-green-700' :
                     listing.status === 'pending_moderation' ? 'bg-yellow-100 text-yellow-700' :
                     listing.status === 'sold' ? 'bg-blue-100 text-blue-700' :
+                    listing.status === 'under_contract' ? 'bg-purple-100 text-purple-700' :
                     'bg-gray-100 text-gray-700'
                   }`}>
                     {listing.status === 'pending_moderation' ? 'Pending Review' : 
+                     listing.status === 'under_contract' ? 'Under Contract' :
                      listing.status.charAt(0).toUpperCase() + listing.status.slice(1)}
                   </span>
                 </div>
               </div>
             )}
 
+            {/* Paid promotion - owners of live listings only */}
+            {isOwner && (listing.status === 'active' || listing.status === 'approved') && (
+              <PromoteListing listingId={listing.listingId} />
+            )}
+
             <div className="card p-6 sticky top-24">
               {/* Price */}
               <div className="text-center mb-6">
                 <div className="price-large mb-2">{formatPrice(listing.price)}</div>
+                {isUnderContract && (
+                  <span className="inline-block mb-2 px-3 py-1 rounded-full text-sm font-medium bg-purple-100 text-purple-700">
+                    Under Contract
+                  </span>
+                )}
                 <div className="text-navy-600">
                   {listing.boatDetails.year} {listing.boatDetails.type}
                 </div>
@@ -449,7 +512,7 @@ export default function ListingDetail() {
               {/* Contact Button */}
               <button
                 onClick={() => setShowContactForm(true)}
-                className="w-full btn-primary mb-6"
+                className={`w-full btn-primary ${isOwner ? 'mb-6' : 'mb-3'}`}
               >
                 <span className="flex items-center justify-center space-x-2">
                   <span>📧</span>
@@ -457,6 +520,34 @@ export default function ListingDetail() {
                 </span>
               </button>
 
+              {/* Make an Offer - Hidden for owners and while under contract */}
+              {!isOwner && !isUnderContract && (
+                <button
+                  onClick={() => user ? setShowOfferForm(true) : navigate('/login', { state: { from: location } })}
+                  className="w-full btn-secondary mb-3"
+                >
+                  <span className="flex items-center justify-center space-x-2">
+                    <span>🤝</span>
+                    <span>Make an Offer</span>
+                  </span>
+                </button>
+              )}
+
+              {/* Favorite Button - Hidden for owners */}
+              {!isOwner && (
+                <FavoriteButton listingId={listing.listingId} className="w-full mb-6" />
+              )}
+
+              {/* Seller Profile Link - Hidden for owners */}
+              {!isOwner && (
+                <Link
+                  to={`/sellers/${listing.ownerId}`}
+                  className="block text-center text-sm text-blue-600 hover:text-blue-800 mb-6"
+                >
+                  View seller profile →
+                </Link>
+              )}
+
               {/* Quick Stats */}
               <div className="border-t border-ocean-100 pt-4">
                 <h3 className="font-semibold text-navy-900 mb-3">
@@ -511,6 +602,16 @@ export default function ListingDetail() {
                   ) : null}
                 </div>
               </div>
+
+              {/* Report Listing - Hidden for owners */}
+              {!isOwner && (
+                <button
+                  onClick={() => user ? setShowReportForm(true) : navigate('/login', { state: { from: location } })}
+                  className="w-full text-center text-xs text-navy-500 hover:text-red-600 mt-4"
+                >
+                  🚩 Report this listing
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -522,6 +623,22 @@ export default function ListingDetail() {
             onClose={() => setShowContactForm(false)}
           />
         )}
+
+        {/* Make Offer Modal */}
+        {showOfferForm && (
+          <MakeOfferForm
+            listing={listing}
+            onClose={() => setShowOfferForm(false)}
+          />
+        )}
+
+        {/* Report Listing Modal */}
+        {showReportForm && (
+          <ReportListingForm
+            listing={listing}
+            onClose={() => setShowReportForm(false)}
+          />
+        )}
       </Layout>
     </>
   );
@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Conversation page for one buyer–seller message thread
+ *
+ * Features:
+ * - Message history with older messages loaded on demand
+ * - Read receipts on the user's own messages
+ * - Image and video attachments uploaded through the media service
+ * - Reply composer; the thread is marked read when opened
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Message, MessageAttachment } from '@harborlist/shared-types';
+import Layout from '../components/layout/Layout';
+import PageHeader from '../components/layout/PageHeader';
+import { useToast } from '../contexts/ToastContext';
+import { getMessageThread, markMessageThreadRead, sendMessage } from '../services/listings';
+
+/**
+ * Maximum attachments per message (matches the messaging service)
+ */
+const MAX_ATTACHMENTS = 5;
+
+export default function MessageThread() {
+  const { threadId } = useParams<{ threadId: string }>();
+  const queryClient = useQueryClient();
+  const { showError } = useToast();
+  const [body, setBody] = useState('');
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [olderMessages, setOlderMessages] = useState<Message[]>([]);
+  const [olderCursor, setOlderCursor] = useState<string | undefined>();
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['message-thread', threadId],
+    queryFn: () => getMessageThread(threadId!),
+    enabled: !!threadId,
+    refetchInterval: 30000,
+  });
+
+  const { mutate: markRead } = useMutation({
+    mutationFn: () => markMessageThreadRead(threadId!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['message-threads'] });
+      queryClient.invalidateQueries({ queryKey: ['message-unread-count'] });
+    },
+  });
+
+  // Mark the thread read whenever unread messages are shown
+  const unreadCount = data?.thread.unreadCount || 0;
+  useEffect(() => {
+    if (unreadCount > 0) {
+      markRead();
+    }
+  }, [threadId, unreadCount, markRead]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [data?.messages.length]);
+
+  const sendMutation = useMutation({
+    mutationFn: () => sendMessage(threadId!, {
+      body: body.trim(),
+      attachments: attachments.length > 0 ? attachments : undefined,
+    }),
+    onSuccess: () => {
+      setBody('');
+      setAttachments([]);
+      queryClient.invalidateQueries({ queryKey: ['message-thread', threadId] });
+      queryClient.invalidateQueries({ queryKey: ['message-threads'] });
+    },
+    onError: (error: Error) => {
+      showError('Message not sent', error.message);
+    },
+  });
+
+  const loadOlder = async () => {
+    const cursor = olderCursor ?? data?.nextCursor;
+    if (!cursor) return;
+    try {
+      const page = await getMessageThread(threadId!, cursor);
+      setOlderMessages(prev => [...page.messages, ...prev]);
+      setOlderCursor(page.nextCursor || '');
+    } catch (error) {
+      showError('Could not load earlier messages', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const selected = Array.from(files).slice(0, MAX_ATTACHMENTS - attachments.length);
+
+    setIsUploading(true);
+    try {
+      const { uploadMedia, validateMediaFile } = await import('../services/media');
+      const uploaded: MessageAttachment[] = [];
+      for (const file of selected) {
+        const validation = validateMediaFile(file);
+        if (!validation.valid) {
+          showError('Attachment not added', `${file.name}: ${validation.error}`);
+          continue;
+        }
+        const result = await uploadMedia(file, undefined, 'attachment');
+        uploaded.push({ url: result.url, fileName: file.name, contentType: file.type, size: file.size });
+      }
+      setAttachments(prev => [...prev, ...uploaded]);
+    } catch (error) {
+      showError('Upload failed', error instanceof Error ? error.message : undefined);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <Layout>
+        <div className="text-center py-16">
+          <h3 className="text-xl font-semibold text-navy-900 mb-2">Conversation not found</h3>
+          <Link to="/messages" className="btn-primary">Back to Messages</Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  const thread = data?.thread;
+  const messages = [...olderMessages, ...(data?.messages || [])];
+  const hasOlder = olderCursor === undefined ? !!data?.nextCursor : !!olderCursor;
+  const otherName = thread ? (thread.role === 'seller' ? thread.buyerName : thread.sellerName) : '';
+  const lastOwnMessage = [...messages].reverse().find(message => message.senderRole === thread?.role);
+
+  const renderAttachment = (attachment: MessageAttachment) => (
+    <a
+      key={attachment.url}
+      href={attachment.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="block mt-2"
+    >
+      {attachment.contentType.startsWith('image/') ? (
+        <img src={attachment.url} alt={attachment.fileName} className="max-h-48 rounded-lg" />
+      ) : (
+        <span className="underline">📎 {attachment.fileName}</span>
+      )}
+    </a>
+  );
+
+  return (
+    <>
+      <PageHeader
+        title={otherName || 'Conversation'}
+        subtitle={thread?.listingTitle}
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Messages', href: thread?.role === 'buyer' ? '/messages/sent' : '/messages' },
+          { label: otherName || 'Conversation' },
+        ]}
+      />
+
+      <Layout>
+        {isLoading || !thread ? (
+          <div className="card h-96 loading-wave" />
+        ) : (
+          <div className="card flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b border-ocean-100">
+              <Link to={`/listing/${thread.listingId}`} className="text-sm text-blue-600 hover:text-blue-800">
+                View listing: {thread.listingTitle}
+              </Link>
+            </div>
+
+            <div className="p-4 space-y-4 max-h-[60vh] overflow-y-auto">
+              {hasOlder && (
+                <div className="text-center">
+                  <button type="button" className="text-sm text-navy-600 hover:text-navy-900" onClick={loadOlder}>
+                    Load earlier messages
+                  </button>
+                </div>
+              )}
+              {messages.map(message => {
+                const own = message.senderRole === thread.role;
+                return (
+                  <div key={message.messageId} className={`flex ${own ? 'justify-end' : 'justify-start'}`}>
+                    <div className="max-w-[75%]">
+                      <div className={`rounded-lg px-4 py-2 ${own ? 'bg-blue-600 text-white' : 'bg-slate-100 text-navy-900'}`}>
+                        {!own && <p className="text-xs font-medium mb-1">{message.senderName}</p>}
+                        <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                        {message.attachments?.map(renderAttachment)}
+                      </div>
+                      <p className={`text-xs text-navy-500 mt-1 ${own ? 'text-right' : ''}`}>
+                        {new Date(message.createdAt).toLocaleString()}
+                        {message.source === 'relay' && ' · via email'}
+                        {own && message.messageId === lastOwnMessage?.messageId && (
+                          message.readAt ? ` · Read ${new Date(message.readAt).toLocaleString()}` : ' · Delivered'
+                        )}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+              <div ref={bottomRef} />
+            </div>
+
+            <form
+              className="p-4 border-t border-ocean-100 space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                sendMutation.mutate();
+              }}
+            >
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={3}
+                maxLength={5000}
+                className="form-textarea w-full"
+                placeholder={`Reply to ${otherName}...`}
+                aria-label="Message"
+              />
+              {attachments.length > 0 && (
+                <ul className="flex flex-wrap gap-2">
+                  {attachments.map(attachment => (
+                    <li key={attachment.url} className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-100">
+                      📎 {attachment.fileName}
+                      <button
+                        type="button"
+                        aria-label={`Remove ${attachment.fileName}`}
+                        className="text-red-600 hover:text-red-800"
+                        onClick={() => setAttachments(prev => prev.filter(a => a.url !== attachment.url))}
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex items-center justify-between">
+                <label className={`text-sm text-navy-600 ${attachments.length >= MAX_ATTACHMENTS ? 'opacity-50' : 'cursor-pointer hover:text-navy-900'}`}>
+                  <input
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp,video/mp4,video/webm"
+                    multiple
+                    className="hidden"
+                    disabled={isUploading || attachments.length >= MAX_ATTACHMENTS}
+                    onChange={(e) => {
+                      handleFiles(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                  {isUploading ? 'Uploading...' : '📎 Attach photos or video'}
+                </label>
+                <button
+                  type="submit"
+                  className="btn-primary"
+                  disabled={!body.trim() || isUploading || sendMutation.isLoading}
+                >
+                  {sendMutation.isLoading ? 'Sending...' : 'Send'}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+      </Layout>
+    </>
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Messages page with the seller inbox and buyer outbox
+ *
+ * Features:
+ * - Inbox: conversations with buyers about the user's listings (including a
+ *   parent dealer's listings for sub-accounts with lead access)
+ * - Sent: conversations the user started with sellers
+ * - Latest message preview and unread count per conversation
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { MessageThreadSummary } from '@harborlist/shared-types';
+import Layout from '../components/layout/Layout';
+import PageHeader from '../components/layout/PageHeader';
+import { getMessageThreads } from '../services/listings';
+
+interface MessagesProps {
+  /** 'inbox' for conversations as seller, 'outbox' for conversations as buyer */
+  box: 'inbox' | 'outbox';
+}
+
+/**
+ * Formats a conversation's last activity time
+ */
+function formatMessageTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+    : date.toLocaleDateString();
+}
+
+export default function Messages({ box }: MessagesProps) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['message-threads', box],
+    queryFn: () => getMessageThreads(box),
+  });
+
+  const threads = data?.threads || [];
+  const title = box === 'inbox' ? 'Inbox' : 'Sent Messages';
+
+  const renderThread = (thread: MessageThreadSummary) => {
+    const otherName = thread.role === 'seller' ? thread.buyerName : thread.sellerName;
+    const unread = thread.unreadCount > 0;
+
+    return (
+      <li key={thread.threadId}>
+        <Link
+          to={`/messages/${thread.threadId}`}
+          className={`card p-5 flex items-start justify-between gap-4 hover:shadow-md transition-shadow ${unread ? 'border-l-4 border-blue-500' : ''}`}
+        >
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <h3 className={`text-navy-900 truncate ${unread ? 'font-bold' : 'font-semibold'}`}>{otherName}</h3>
+              {unread && (
+                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-600 text-white">
+                  {thread.unreadCount} new
+                </span>
+              )}
+            </div>
+            <p className="text-sm text-navy-600 truncate">{thread.listingTitle}</p>
+            <p className={`text-sm mt-1 truncate ${unread ? 'text-navy-900' : 'text-navy-500'}`}>
+              {thread.lastMessagePreview}
+            </p>
+          </div>
+          <span className="text-xs text-navy-500 whitespace-nowrap">{formatMessageTime(thread.lastMessageAt)}</span>
+        </Link>
+      </li>
+    );
+  };
+
+  return (
+    <>
+      <PageHeader
+        title={title}
+        subtitle={box === 'inbox' ? 'Conversations with buyers about your listings' : 'Conversations you started with sellers'}
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Messages', href: '/messages' },
+          ...(box === 'outbox' ? [{ label: 'Sent' }] : []),
+        ]}
+      />
+
+      <Layout>
+        <div className="flex gap-2 mb-6">
+          <Link to="/messages" className={box === 'inbox' ? 'btn-primary' : 'btn-outline'}>
+            Inbox
+          </Link>
+          <Link to="/messages/sent" className={box === 'outbox' ? 'btn-primary' : 'btn-outline'}>
+            Sent
+          </Link>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="card h-24 loading-wave" />
+            ))}
+          </div>
+        ) : threads.length === 0 ? (
+          <div className="text-center py-16">
+            <div className="text-6xl mb-4">💬</div>
+            <h3 className="text-xl font-semibold text-navy-900 mb-2">No conversations yet</h3>
+            <p className="text-navy-600 mb-6">
+              {box === 'inbox'
+                ? 'Messages from potential buyers will appear here.'
+                : 'Contact a seller from any listing to start a conversation.'}
+            </p>
+            {box === 'outbox' && (
+              <Link to="/search" className="btn-primary">
+                Browse Boats
+              </Link>
+            )}
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {threads.map(renderThread)}
+          </ul>
+        )}
+      </Layout>
+    </>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview "My offers" page listing the offers a buyer has made
+ *
+ * Features:
+ * - Open offers (waiting on the buyer first) followed by past offers
+ * - Responding to counter-offers, withdrawing and cancelling accepted deals
+ * - Full history of each offer's negotiation
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { OfferSummary } from '@harborlist/shared-types';
+import Layout from '../components/layout/Layout';
+import PageHeader from '../components/layout/PageHeader';
+import OfferCard from '../components/listing/OfferCard';
+import { getMyOffers } from '../services/listings';
+
+/**
+ * Sort order: offers needing the buyer's response, then other open and
+ * accepted offers, then closed offers
+ */
+function offerPriority(offer: OfferSummary): number {
+  if (offer.availableActions.some(action => action === 'accept' || action === 'counter')) return 0;
+  if (offer.status === 'pending' || offer.status === 'accepted') return 1;
+  return 2;
+}
+
+export default function Offers() {
+  const { data, isLoading } = useQuery({
+    queryKey: ['offers', 'mine'],
+    queryFn: getMyOffers,
+  });
+
+  const offers = [...(data?.offers || [])].sort((a, b) => offerPriority(a) - offerPriority(b) || b.updatedAt - a.updatedAt);
+
+  return (
+    <>
+      <PageHeader
+        title="My Offers"
+        subtitle="Offers you have made on boats"
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'My Offers' },
+        ]}
+      />
+
+      <Layout>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="card h-32 loading-wave" />
+            ))}
+          </div>
+        ) : offers.length === 0 ? (
+          <div className="text-center py-16">
+            <div className="text-6xl mb-4">🤝</div>
+            <h3 className="text-xl font-semibold text-navy-900 mb-2">No offers yet</h3>
+            <p className="text-navy-600 mb-6">
+              Found the right boat? Use "Make an Offer" on any listing to start negotiating.
+            </p>
+            <Link to="/search" className="btn-primary">
+              Browse Boats
+            </Link>
+          </div>
+        ) : (
+          <div className="card p-6 space-y-4">
+            {offers.map(offer => (
+              <OfferCard key={offer.offerId} offer={offer} showListing />
+            ))}
+          </div>
+        )}
+      </Layout>
+    </>
+  );
+}
@@ -3,6 +3,7 @@
  * 
  * Provides comprehensive upgrade experience with:
  * - Plan comparison and selection
+ * - Promo codes with a discount preview
  * - Payment processing integration
  * - Feature highlights and benefits
  * - Upgrade confirmation and onboarding
@@ -16,6 +17,7 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../components/auth/AuthProvider';
 import { useToast } from '../contexts/ToastContext';
 import { api } from '../services/api';
+import { billingApi, CouponPreview } from '../services/billingApi';
 
 interface PremiumPlan {
   id: string;
@@ -112,6 +114,10 @@ export const PremiumUpgrade: React.FC = () => {
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [couponCode, setCouponCode] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<CouponPreview | null>(null);
+  const [couponError, setCouponError] = useState('');
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
 
   const { user } = useAuth();
   const { showSuccess, showError } = useToast();
@@ -122,9 +128,44 @@ export const PremiumUpgrade: React.FC = () => {
    */
   const handlePlanSelect = (plan: PremiumPlan) => {
     setSelectedPlan(plan);
+    setAppliedCoupon(null);
+    setCouponError('');
     setShowPayment(true);
   };
 
+  /**
+   * Checks the entered promo code against the selected plan
+   */
+  const handleApplyCoupon = async () => {
+    if (!selectedPlan || !couponCode.trim()) return;
+
+    setCouponError('');
+    setApplyingCoupon(true);
+
+    try {
+      const preview = await billingApi.validateCoupon({
+        code: couponCode.trim(),
+        planId: selectedPlan.id,
+        billingCycle
+      });
+      setAppliedCoupon(preview);
+    } catch (error: any) {
+      setAppliedCoupon(null);
+      setCouponError(error.message || 'This promo code cannot be applied.');
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
+
+  /**
+   * Removes the applied promo code
+   */
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponCode('');
+    setCouponError('');
+  };
+
   /**
    * Handles form input changes
    */
@@ -165,7 +206,9 @@ export const PremiumUpgrade: React.FC = () => {
       // Create subscription
       await api.createSubscription({
         plan: selectedPlan.id,
-        billingCycle
+        planId: selectedPlan.id,
+        billingCycle,
+        couponCode: appliedCoupon?.code
       });
 
       showSuccess('Upgrade Successful!', 'Your premium membership is now active. Enjoy your new features!');
@@ -185,6 +228,13 @@ export const PremiumUpgrade: React.FC = () => {
     return billingCycle === 'yearly' ? plan.price.yearly : plan.price.monthly;
   };
 
+  /**
+   * Amount of the first charge after the applied promo code
+   */
+  const getFirstChargeAmount = (plan: PremiumPlan) => {
+    return appliedCoupon ? appliedCoupon.amountAfterDiscount : getPlanPrice(plan);
+  };
+
   /**
    * Calculates savings for yearly billing
    */
@@ -405,6 +455,12 @@ export const PremiumUpgrade: React.FC = () => {
                         Save ${getYearlySavings(selectedPlan)} per year
                       </div>
                     )}
+                    {appliedCoupon && (
+                      <div className="text-sm text-green-600">
+                        {appliedCoupon.code}: {appliedCoupon.discountDescription}
+                        {appliedCoupon.discount > 0 && ` (first charge $${appliedCoupon.amountAfterDiscount.toFixed(2)})`}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -579,6 +635,49 @@ export const PremiumUpgrade: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Promo Code */}
+                <div className="space-y-2">
+                  <label htmlFor="couponCode" className="block text-sm font-medium text-gray-700">
+                    Promo Code
+                  </label>
+                  {appliedCoupon ? (
+                    <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-md">
+                      <span className="text-sm text-green-800">
+                        <span className="font-semibold">{appliedCoupon.code}</span> applied: {appliedCoupon.discountDescription}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={handleRemoveCoupon}
+                        className="text-sm text-gray-600 hover:text-gray-800"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex space-x-2">
+                      <input
+                        type="text"
+                        id="couponCode"
+                        value={couponCode}
+                        onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                        placeholder="Enter promo code"
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      />
+                      <button
+                        type="button"
+                        onClick={handleApplyCoupon}
+                        disabled={applyingCoupon || !couponCode.trim()}
+                        className="bg-gray-200 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-300 disabled:opacity-50 font-medium"
+                      >
+                        {applyingCoupon ? 'Checking...' : 'Apply'}
+                      </button>
+                    </div>
+                  )}
+                  {couponError && (
+                    <p className="text-sm text-red-600">{couponError}</p>
+                  )}
+                </div>
+
                 <div className="flex space-x-4">
                   <button
                     type="button"
@@ -592,7 +691,7 @@ export const PremiumUpgrade: React.FC = () => {
                     disabled={loading}
                     className="flex-1 bg-blue-600 text-white py-3 px-6 rounded-md hover:bg-blue-700 disabled:opacity-50 font-medium"
                   >
-                    {loading ? 'Processing...' : `Upgrade Now - $${selectedPlan ? getPlanPrice(selectedPlan) : 0}`}
+                    {loading ? 'Processing...' : `Upgrade Now - $${selectedPlan ? getFirstChargeAmount(selectedPlan) : 0}`}
                   </button>
                 </div>
               </form>
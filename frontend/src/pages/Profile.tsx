@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../components/auth/AuthProvider';
-import { getListings } from '../services/listings';
+import { getListings, getFavoriteCounts } from '../services/listings';
 import OwnerListingCard from '../components/listing/OwnerListingCard';
 
 export default function Profile() {
@@ -15,6 +15,12 @@ export default function Profile() {
     enabled: !!user?.userId,
   });
 
+  const { data: favoriteCounts } = useQuery({
+    queryKey: ['favorite-counts', user?.userId],
+    queryFn: getFavoriteCounts,
+    enabled: !!user?.userId,
+  });
+
   if (!user) {
     return (
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
@@ -122,7 +128,11 @@ export default function Profile() {
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {userListings?.listings.map((listing) => (
-                <OwnerListingCard key={listing.listingId} listing={listing} />
+                <OwnerListingCard
+                  key={listing.listingId}
+                  listing={listing}
+                  favoriteCount={favoriteCounts ? favoriteCounts.counts[listing.listingId] || 0 : undefined}
+                />
               ))}
             </div>
           )}
@@ -216,10 +226,10 @@ export default function Profile() {
               <svg className="mx-auto h-12 w-12 text-gray-400 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
               </svg>
-              <p>No messages yet</p>
-              <p className="text-sm mt-1">
-                Messages from potential buyers will appear here
-              </p>
+              <p>Conversations with buyers and sellers live in your inbox</p>
+              <Link to="/messages" className="inline-block mt-4 btn-primary">
+                Open Messages
+              </Link>
             </div>
           </div>
         </div>
@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Commission and payout history for sales reps and dealers
+ *
+ * Features:
+ * - Commission pending payout and paid to date
+ * - Monthly commission statements with their transactions
+ * - Payout status for each statement
+ *
+ * @author HarborList Development Team
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../components/auth/AuthProvider';
+import { useToast } from '../contexts/ToastContext';
+import { billingApi, CommissionHistory } from '../services/billingApi';
+import { CommissionStatement } from '@harborlist/shared-types';
+import { LoadingSpinner } from '../components/common/LoadingSpinner';
+
+const SalesPerformance: React.FC = () => {
+  const { user } = useAuth();
+  const { showError } = useToast();
+
+  const [history, setHistory] = useState<CommissionHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [months, setMonths] = useState(12);
+  const [expandedStatement, setExpandedStatement] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadHistory();
+    }
+  }, [user, months]);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    try {
+      setHistory(await billingApi.getCommissionHistory(months));
+    } catch (error) {
+      console.error('Error loading commission history:', error);
+      showError('Error', 'Failed to load your commission history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number, currency: string = 'USD') => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency.toUpperCase(),
+    }).format(amount);
+  };
+
+  const formatPeriod = (period: string) => {
+    const [year, month] = period.split('-').map(Number);
+    return new Date(year, month - 1, 1).toLocaleDateString('en-US', { year: 'numeric', month: 'long' });
+  };
+
+  const getStatusLabel = (statement: CommissionStatement) => {
+    switch (statement.status) {
+      case 'paid': return `Paid ${statement.paidAt ? new Date(statement.paidAt).toLocaleDateString() : ''}`.trim();
+      case 'in_batch': return 'Payout scheduled';
+      default: return statement.totalCommission > 0 ? 'Awaiting payout' : 'Nothing owed';
+    }
+  };
+
+  const getStatusBadgeColor = (status: CommissionStatement['status']) => {
+    switch (status) {
+      case 'paid': return 'bg-green-100 text-green-800';
+      case 'in_batch': return 'bg-blue-100 text-blue-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Please Sign In</h2>
+          <p className="text-gray-600">You need to be signed in to view your commissions.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading && !history) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const statements = history?.statements || [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Commissions & Payouts</h1>
+            <p className="text-gray-600 mt-2">Commission earned on your customers' payments and when it was paid</p>
+          </div>
+          <select
+            value={months}
+            onChange={(e) => setMonths(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value={6}>Last 6 months</option>
+            <option value={12}>Last 12 months</option>
+            <option value={24}>Last 24 months</option>
+          </select>
+        </div>
+
+        {/* Totals */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm font-medium text-gray-500">Pending Payout</p>
+            <p className="text-2xl font-semibold text-gray-900">{formatCurrency(history?.pendingCommission || 0)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm font-medium text-gray-500">Paid</p>
+            <p className="text-2xl font-semibold text-gray-900">{formatCurrency(history?.paidToDate || 0)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm font-medium text-gray-500">Customer Revenue</p>
+            <p className="text-2xl font-semibold text-gray-900">
+              {formatCurrency(statements.reduce((sum, statement) => sum + statement.totalRevenue, 0))}
+            </p>
+          </div>
+        </div>
+
+        {/* Statements */}
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-900">Monthly Statements</h2>
+          </div>
+          {statements.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-4xl mb-4">📈</div>
+              <p className="text-gray-500">No commission statements yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Month</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transactions</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Commission</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payout</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {statements.map((statement) => (
+                    <React.Fragment key={statement.statementId}>
+                      <tr
+                        onClick={() => setExpandedStatement(expandedStatement === statement.statementId ? null : statement.statementId)}
+                        className="cursor-pointer hover:bg-gray-50"
+                      >
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {formatPeriod(statement.period)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{statement.lines.length}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatCurrency(statement.totalRevenue, statement.currency)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {formatCurrency(statement.totalCommission, statement.currency)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadgeColor(statement.status)}`}>
+                            {getStatusLabel(statement)}
+                          </span>
+                        </td>
+                      </tr>
+                      {expandedStatement === statement.statementId && (
+                        <tr>
+                          <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                            <table className="min-w-full text-sm">
+                              <thead>
+                                <tr className="text-left text-gray-500">
+                                  <th className="py-1 pr-4 font-medium">Customer</th>
+                                  <th className="py-1 pr-4 font-medium">Type</th>
+                                  <th className="py-1 pr-4 font-medium">Revenue</th>
+                                  <th className="py-1 font-medium">Commission</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {statement.lines.map((line) => (
+                                  <tr key={line.transactionId} className="text-gray-700">
+                                    <td className="py-1 pr-4">{line.customerId}</td>
+                                    <td className="py-1 pr-4 capitalize">{line.transactionType}</td>
+                                    <td className="py-1 pr-4">{formatCurrency(line.revenue, statement.currency)}</td>
+                                    <td className={`py-1 ${line.commission < 0 ? 'text-red-600' : ''}`}>
+                                      {formatCurrency(line.commission, statement.currency)}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SalesPerformance;
@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Saved searches page for managing new-match alerts
+ *
+ * Features:
+ * - List of the user's saved searches with a filter summary
+ * - Re-run a saved search on the search page
+ * - Rename a saved search
+ * - Change email alert frequency and toggle in-app notifications
+ * - Delete a saved search
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { SavedSearch } from '@harborlist/shared-types';
+import Layout from '../components/layout/Layout';
+import PageHeader from '../components/layout/PageHeader';
+import { EMAIL_FREQUENCY_OPTIONS } from '../components/search/SaveSearchButton';
+import { useToast } from '../contexts/ToastContext';
+import {
+  getSavedSearches,
+  updateSavedSearch,
+  deleteSavedSearch,
+  SavedSearchInput,
+} from '../services/listings';
+import { describeSearchFilters, searchFiltersToParams } from '../utils/searchParams';
+
+export default function SavedSearches() {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['saved-searches'],
+    queryFn: getSavedSearches,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ searchId, updates }: { searchId: string; updates: Partial<SavedSearchInput> }) =>
+      updateSavedSearch(searchId, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+      setEditingId(null);
+    },
+    onError: (error: Error) => {
+      showError('Could not update saved search', error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteSavedSearch,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+      showSuccess('Saved search deleted');
+    },
+    onError: (error: Error) => {
+      showError('Could not delete saved search', error.message);
+    },
+  });
+
+  const startEditing = (savedSearch: SavedSearch) => {
+    setEditingId(savedSearch.searchId);
+    setEditName(savedSearch.name);
+  };
+
+  const handleDelete = (savedSearch: SavedSearch) => {
+    if (window.confirm(`Delete the saved search "${savedSearch.name}"?`)) {
+      deleteMutation.mutate(savedSearch.searchId);
+    }
+  };
+
+  const savedSearches = data?.savedSearches || [];
+
+  return (
+    <>
+      <PageHeader
+        title="Saved Searches"
+        subtitle={data ? `${savedSearches.length} of ${data.limit} saved` : 'Get alerted when new boats match'}
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Saved Searches' }
+        ]}
+      />
+
+      <Layout>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="card h-24 loading-wave" />
+            ))}
+          </div>
+        ) : savedSearches.length === 0 ? (
+          <div className="text-center py-16">
+            <div className="text-6xl mb-4">🔎</div>
+            <h3 className="text-xl font-semibold text-navy-900 mb-2">No saved searches yet</h3>
+            <p className="text-navy-600 mb-6">
+              Save a search to be notified when new boats matching it are listed.
+            </p>
+            <Link to="/search" className="btn-primary">
+              Start Searching
+            </Link>
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {savedSearches.map(savedSearch => (
+              <li key={savedSearch.searchId} className="card p-5">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    {editingId === savedSearch.searchId ? (
+                      <form
+                        className="flex gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          updateMutation.mutate({ searchId: savedSearch.searchId, updates: { name: editName.trim() } });
+                        }}
+                      >
+                        <input
+                          type="text"
+                          value={editName}
+                          onChange={(e) => setEditName(e.target.value)}
+                          maxLength={100}
+                          aria-label="Saved search name"
+                          className="form-input flex-1"
+                        />
+                        <button type="submit" className="btn-primary" disabled={!editName.trim()}>Save</button>
+                        <button type="button" className="btn-outline" onClick={() => setEditingId(null)}>Cancel</button>
+                      </form>
+                    ) : (
+                      <h3 className="text-lg font-semibold text-navy-900 truncate">{savedSearch.name}</h3>
+                    )}
+                    <p className="text-sm text-navy-600 mt-1">{describeSearchFilters(savedSearch.filters)}</p>
+                    {savedSearch.lastMatchedAt && (
+                      <p className="text-xs text-navy-500 mt-1">
+                        Last new match {new Date(savedSearch.lastMatchedAt).toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-3">
+                    <select
+                      value={savedSearch.emailFrequency}
+                      onChange={(e) => updateMutation.mutate({
+                        searchId: savedSearch.searchId,
+                        updates: { emailFrequency: e.target.value as SavedSearch['emailFrequency'] },
+                      })}
+                      className="form-select text-sm"
+                      aria-label={`Email alerts for ${savedSearch.name}`}
+                    >
+                      {EMAIL_FREQUENCY_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-2 text-sm text-navy-700">
+                      <input
+                        type="checkbox"
+                        checked={savedSearch.notificationsEnabled}
+                        onChange={(e) => updateMutation.mutate({
+                          searchId: savedSearch.searchId,
+                          updates: { notificationsEnabled: e.target.checked },
+                        })}
+                      />
+                      Notifications
+                    </label>
+                    <Link
+                      to={`/search?${searchFiltersToParams(savedSearch.filters)}`}
+                      className="btn-outline text-sm"
+                    >
+                      View Results
+                    </Link>
+                    <button type="button" className="text-sm text-navy-600 hover:text-navy-900" onClick={() => startEditing(savedSearch)}>
+                      Rename
+                    </button>
+                    <button type="button" className="text-sm text-red-600 hover:text-red-800" onClick={() => handleDelete(savedSearch)}>
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Layout>
+    </>
+  );
+}
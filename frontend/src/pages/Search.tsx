@@ -1,70 +1,103 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useInfiniteQuery } from '@tanstack/react-query';
 import Layout from '../components/layout/Layout';
 import PageHeader from '../components/layout/PageHeader';
 import ListingCard from '../components/listing/ListingCard';
 import SearchFilters from '../components/search/SearchFilters';
+import SaveSearchButton from '../components/search/SaveSearchButton';
 import { SearchFilters as SearchFiltersType } from '@harborlist/shared-types';
 import { searchListings } from '../services/listings';
+import { useTracking } from '../hooks/useTracking';
+import { searchParamsToFilters, searchFiltersToParams } from '../utils/searchParams';
+
+/** Sort choices offered on the results page, mapped to the search API sort */
+const SORT_OPTIONS: Array<{ value: string; label: string; sort: NonNullable<SearchFiltersType['sort']> }> = [
+  { value: 'relevance', label: 'Relevance', sort: { field: 'relevance', order: 'desc' } },
+  { value: 'newest', label: 'Newest First', sort: { field: 'createdAt', order: 'desc' } },
+  { value: 'updated', label: 'Recently Updated', sort: { field: 'updatedAt', order: 'desc' } },
+  { value: 'price-low', label: 'Price: Low to High', sort: { field: 'price', order: 'asc' } },
+  { value: 'price-high', label: 'Price: High to Low', sort: { field: 'price', order: 'desc' } },
+  { value: 'price-drop', label: 'Biggest Price Drop', sort: { field: 'priceDrop', order: 'desc' } },
+  { value: 'year-new', label: 'Year: Newest', sort: { field: 'year', order: 'desc' } },
+  { value: 'year-old', label: 'Year: Oldest', sort: { field: 'year', order: 'asc' } },
+  { value: 'length-long', label: 'Length: Longest', sort: { field: 'length', order: 'desc' } },
+  { value: 'length-short', label: 'Length: Shortest', sort: { field: 'length', order: 'asc' } },
+  { value: 'horsepower', label: 'Horsepower: Highest', sort: { field: 'horsepower', order: 'desc' } },
+  { value: 'most-viewed', label: 'Most Viewed', sort: { field: 'views', order: 'desc' } },
+  { value: 'distance', label: 'Distance: Nearest First', sort: { field: 'distance', order: 'asc' } },
+];
 
 export default function Search() {
   const [searchParams, setSearchParams] = useSearchParams();
   const [filters, setFilters] = useState<SearchFiltersType>({});
-  const [sortBy, setSortBy] = useState('relevance');
+  const [sortBy, setSortBy] = useState(searchParams.get('sort') || 'relevance');
+  const { trackPromotionImpression, trackPromotionClick } = useTracking();
 
   // Initialize filters from URL params
   useEffect(() => {
-    const initialFilters: SearchFiltersType = {};
-    
-    if (searchParams.get('q')) {
-      initialFilters.query = searchParams.get('q') || '';
-    }
-    if (searchParams.get('state')) {
-      initialFilters.location = { state: searchParams.get('state') || '' };
-    }
-    if (searchParams.get('type')) {
-      initialFilters.boatType = [searchParams.get('type') || ''];
-    }
-    if (searchParams.get('minPrice')) {
-      initialFilters.priceRange = { 
-        ...initialFilters.priceRange,
-        min: Number(searchParams.get('minPrice'))
-      };
-    }
-    if (searchParams.get('maxPrice')) {
-      initialFilters.priceRange = { 
-        ...initialFilters.priceRange,
-        max: Number(searchParams.get('maxPrice'))
-      };
-    }
-
-    setFilters(initialFilters);
+    setFilters(searchParamsToFilters(searchParams));
+    setSortBy(searchParams.get('sort') || 'relevance');
   }, [searchParams]);
 
-  const { data: searchResults, isLoading, refetch } = useQuery({
+  const {
+    data,
+    isLoading,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: ['search', filters, sortBy],
-    queryFn: () => searchListings({
+    queryFn: ({ pageParam }) => searchListings({
       ...filters,
-      sort: { field: sortBy === 'price-low' ? 'price' : 'createdAt', order: sortBy === 'price-low' ? 'asc' : 'desc' }
+      sort: (SORT_OPTIONS.find(option => option.value === sortBy) || SORT_OPTIONS[0]).sort,
+      cursor: pageParam
     }),
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: Object.keys(filters).length > 0
   });
 
+  // Facets and totals come from the first page; results accumulate across pages
+  const searchResults = data && {
+    ...data.pages[0],
+    results: data.pages.flatMap(page => page.results),
+  };
+
+  // Featured slots come with the first page only, which leaves them out of its results
+  const featuredListings = useMemo(() => data?.pages[0]?.featured || [], [data]);
+  const featuredKey = featuredListings.map(listing => listing.promotionId).join(',');
+  const trackedFeaturedKey = useRef('');
+
+  // One impression per featured listing each time the featured set changes
+  useEffect(() => {
+    if (featuredKey === trackedFeaturedKey.current) return;
+    trackedFeaturedKey.current = featuredKey;
+    featuredListings.forEach(listing => trackPromotionImpression(listing.listingId, listing.promotionId, 'search'));
+  }, [featuredKey, featuredListings, trackPromotionImpression]);
+
   const handleFiltersChange = (newFilters: SearchFiltersType) => {
     setFilters(newFilters);
     
     // Update URL params
-    const params = new URLSearchParams();
-    if (newFilters.query) params.set('q', newFilters.query);
-    if (newFilters.location?.state) params.set('state', newFilters.location.state);
-    if (newFilters.boatType?.[0]) params.set('type', newFilters.boatType[0]);
-    if (newFilters.priceRange?.min) params.set('minPrice', newFilters.priceRange.min.toString());
-    if (newFilters.priceRange?.max) params.set('maxPrice', newFilters.priceRange.max.toString());
+    const params = searchFiltersToParams(newFilters);
+    if (sortBy !== 'relevance') params.set('sort', sortBy);
     
     setSearchParams(params);
   };
 
+  const handleSortChange = (value: string) => {
+    setSortBy(value);
+
+    const params = new URLSearchParams(searchParams);
+    if (value === 'relevance') {
+      params.delete('sort');
+    } else {
+      params.set('sort', value);
+    }
+    setSearchParams(params);
+  };
+
   const handleSearch = () => {
     refetch();
   };
@@ -72,22 +105,31 @@ export default function Search() {
   const sortOptions = (
     <select
       value={sortBy}
-      onChange={(e) => setSortBy(e.target.value)}
+      onChange={(e) => handleSortChange(e.target.value)}
       className="form-select"
+      aria-label="Sort results"
     >
-      <option value="relevance">Relevance</option>
-      <option value="newest">Newest First</option>
-      <option value="price-low">Price: Low to High</option>
-      <option value="price-high">Price: High to Low</option>
+      {SORT_OPTIONS
+        .filter(option => option.value !== 'distance' || filters.location?.zipCode)
+        .map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
     </select>
   );
 
+  const headerActions = (
+    <div className="flex items-center gap-3">
+      <SaveSearchButton filters={filters} />
+      {sortOptions}
+    </div>
+  );
+
   return (
     <>
       <PageHeader
         title={searchResults ? `${searchResults.total} Boats Found` : 'Search Boats'}
         subtitle={filters.query ? `Results for "${filters.query}"` : 'Find your perfect boat'}
-        actions={sortOptions}
+        actions={headerActions}
         breadcrumbs={[
           { label: 'Home', href: '/' },
           { label: 'Search' }
@@ -101,110 +143,70 @@ export default function Search() {
             filters={filters}
             onFiltersChange={handleFiltersChange}
             onSearch={handleSearch}
+            facets={searchResults?.facets}
           />
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
-          {/* Sidebar Facets */}
-          {searchResults?.facets && (
-            <div className="lg:col-span-1">
-              <div className="card p-6 sticky top-24">
-                <h3 className="font-semibold text-navy-900 mb-4">🔍 Refine Results</h3>
-                
-                {/* Boat Types */}
-                {searchResults.facets.boatTypes && (
-                  <div className="mb-6">
-                    <h4 className="font-medium text-navy-700 mb-3">Boat Type</h4>
-                    <div className="space-y-2">
-                      {searchResults.facets.boatTypes.slice(0, 8).map((type) => (
-                        <label key={type.value} className="flex items-center hover:bg-ocean-50 p-1 rounded">
-                          <input
-                            type="checkbox"
-                            checked={filters.boatType?.includes(type.value) || false}
-                            onChange={(e) => {
-                              const currentTypes = filters.boatType || [];
-                              const newTypes = e.target.checked
-                                ? [...currentTypes, type.value]
-                                : currentTypes.filter(t => t !== type.value);
-                              handleFiltersChange({
-                                ...filters,
-                                boatType: newTypes.length > 0 ? newTypes : undefined
-                              });
-                            }}
-                            className="mr-3 text-ocean-600 focus:ring-ocean-500"
-                          />
-                          <span className="text-sm text-navy-600">
-                            {type.value} <span className="text-ocean-500">({type.count})</span>
-                          </span>
-                        </label>
-                      ))}
-                    </div>
-                  </div>
-                )}
-
-                {/* Locations */}
-                {searchResults.facets.locations && (
-                  <div className="mb-6">
-                    <h4 className="font-medium text-navy-700 mb-3">Location</h4>
-                    <div className="space-y-2">
-                      {searchResults.facets.locations.slice(0, 8).map((location) => (
-                        <button
-                          key={location.state}
-                          onClick={() => handleFiltersChange({
-                            ...filters,
-                            location: { state: location.state }
-                          })}
-                          className="block text-sm text-ocean-600 hover:text-ocean-700 hover:bg-ocean-50 p-1 rounded w-full text-left"
-                        >
-                          📍 {location.state} <span className="text-navy-400">({location.count})</span>
-                        </button>
-                      ))}
-                    </div>
-                  </div>
-                )}
-              </div>
+        {/* Results Grid */}
+        <div>
+          {isLoading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {[...Array(9)].map((_, i) => (
+                <div key={i} className="card h-80 loading-wave" />
+              ))}
             </div>
-          )}
-
-          {/* Results Grid */}
-          <div className={searchResults?.facets ? 'lg:col-span-3' : 'lg:col-span-4'}>
-            {isLoading ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-                {[...Array(9)].map((_, i) => (
-                  <div key={i} className="card h-80 loading-wave" />
-                ))}
-              </div>
-            ) : searchResults?.results.length === 0 ? (
-              <div className="text-center py-16">
-                <div className="text-6xl mb-4">🔍</div>
-                <h3 className="text-xl font-semibold text-navy-900 mb-2">No boats found</h3>
-                <p className="text-navy-600 mb-6">
-                  Try adjusting your search criteria or browse all listings.
-                </p>
-                <button 
-                  onClick={() => handleFiltersChange({})}
-                  className="btn-primary"
-                >
-                  Clear Filters
-                </button>
-              </div>
-            ) : (
+          ) : searchResults?.results.length === 0 && featuredListings.length === 0 ? (
+            <div className="text-center py-16">
+              <div className="text-6xl mb-4">🔍</div>
+              <h3 className="text-xl font-semibold text-navy-900 mb-2">No boats found</h3>
+              <p className="text-navy-600 mb-6">
+                Try adjusting your search criteria or browse all listings.
+              </p>
+              <button 
+                onClick={() => handleFiltersChange({})}
+                className="btn-primary"
+              >
+                Clear Filters
+              </button>
+            </div>
+          ) : (
+            <>
+              {featuredListings.length > 0 && (
+                <div className="mb-8">
+                  <h2 className="text-sm font-semibold text-navy-600 uppercase tracking-wide mb-3">Featured</h2>
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                    {featuredListings.map((listing) => (
+                      <ListingCard
+                        key={listing.promotionId}
+                        listing={listing}
+                        featured
+                        distance={listing.distance}
+                        onClick={() => trackPromotionClick(listing.listingId, listing.promotionId, 'search')}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
                 {searchResults?.results.map((listing) => (
-                  <ListingCard key={listing.listingId} listing={listing} />
+                  <ListingCard key={listing.listingId} listing={listing} distance={listing.distance} />
                 ))}
               </div>
-            )}
-
-            {/* Load More */}
-            {searchResults && searchResults.results.length > 0 && (
-              <div className="mt-12 text-center">
-                <button className="btn-outline">
-                  Load More Results
-                </button>
-              </div>
-            )}
-          </div>
+            </>
+          )}
+
+          {/* Load More */}
+          {searchResults && (searchResults.results.length > 0 || featuredListings.length > 0) && hasNextPage && (
+            <div className="mt-12 text-center">
+              <button
+                className="btn-outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? 'Loading...' : 'Load More Results'}
+              </button>
+            </div>
+          )}
         </div>
       </Layout>
     </>
@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Public seller profile page
+ *
+ * Features:
+ * - Seller or dealer identity with member-since, verification and premium badges
+ * - Review score across all of the seller's listings, with recent reviews
+ * - Inquiry response rate and typical response time
+ * - Active and sold listings (dealer profiles include every sub-account)
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { SellerProfileStats } from '@harborlist/shared-types';
+import Layout from '../components/layout/Layout';
+import PageHeader from '../components/layout/PageHeader';
+import ListingCard from '../components/listing/ListingCard';
+import { getSellerProfile } from '../services/listings';
+
+/**
+ * Describes how quickly a seller usually replies
+ */
+function formatResponseTime(hours: number): string {
+  if (hours < 1) return 'within an hour';
+  if (hours < 24) return `within ${Math.ceil(hours)} hours`;
+  const days = Math.ceil(hours / 24);
+  return `within ${days} day${days === 1 ? '' : 's'}`;
+}
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="card p-4 text-center">
+      <div className="text-2xl font-bold text-navy-900">{value}</div>
+      <div className="text-sm text-navy-600">{label}</div>
+    </div>
+  );
+}
+
+function ResponseStats({ stats }: { stats: SellerProfileStats }) {
+  if (stats.responseRate === undefined) {
+    return <StatTile label="Response rate" value="—" />;
+  }
+  return (
+    <div className="card p-4 text-center">
+      <div className="text-2xl font-bold text-navy-900">{Math.round(stats.responseRate * 100)}%</div>
+      <div className="text-sm text-navy-600">Response rate</div>
+      {stats.averageResponseHours !== undefined && (
+        <div className="text-xs text-navy-500 mt-1">Usually replies {formatResponseTime(stats.averageResponseHours)}</div>
+      )}
+    </div>
+  );
+}
+
+export default function SellerProfile() {
+  const { sellerId } = useParams<{ sellerId: string }>();
+  const navigate = useNavigate();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['seller-profile', sellerId],
+    queryFn: () => getSellerProfile(sellerId!),
+    enabled: !!sellerId,
+  });
+
+  const profile = data?.profile;
+
+  // Sub-account links show the dealer's profile; keep the URL canonical
+  useEffect(() => {
+    if (profile && profile.sellerId !== sellerId) {
+      navigate(`/sellers/${profile.sellerId}`, { replace: true });
+    }
+  }, [profile, sellerId, navigate]);
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="space-y-4">
+          <div className="card h-40 loading-wave" />
+          <div className="card h-64 loading-wave" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <Layout>
+        <div className="text-center py-16">
+          <div className="text-6xl mb-4">🧭</div>
+          <h3 className="text-xl font-semibold text-navy-900 mb-2">Seller not found</h3>
+          <p className="text-navy-600 mb-6">This seller profile is not available.</p>
+          <Link to="/search" className="btn-primary">
+            Browse Boats
+          </Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  const { stats } = profile;
+
+  return (
+    <>
+      <PageHeader
+        title={profile.name}
+        subtitle={`${profile.isDealer ? 'Dealer' : 'Private seller'} · Member since ${new Date(profile.memberSince).getFullYear()}`}
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Sellers' },
+          { label: profile.name },
+        ]}
+      />
+
+      <Layout>
+        {/* Badges */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {profile.isDealer && (
+            <span className="px-3 py-1 text-sm font-medium rounded-full bg-blue-100 text-blue-700">
+              🏢 Dealer{profile.teamSize ? ` · ${profile.teamSize + 1} sales staff` : ''}
+            </span>
+          )}
+          {profile.premiumTier && (
+            <span className="px-3 py-1 text-sm font-medium rounded-full bg-yellow-100 text-yellow-800">
+              ⭐ Premium member
+            </span>
+          )}
+          {profile.verification.email && (
+            <span className="px-3 py-1 text-sm font-medium rounded-full bg-green-100 text-green-700">✓ Email verified</span>
+          )}
+          {profile.verification.phone && (
+            <span className="px-3 py-1 text-sm font-medium rounded-full bg-green-100 text-green-700">✓ Phone verified</span>
+          )}
+          {profile.location && (
+            <span className="px-3 py-1 text-sm rounded-full bg-slate-100 text-navy-700">📍 {profile.location}</span>
+          )}
+        </div>
+
+        {/* Reputation */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+          <StatTile
+            label={`${stats.totalReviews} review${stats.totalReviews === 1 ? '' : 's'}`}
+            value={stats.totalReviews > 0 ? `${stats.averageRating.toFixed(1)} ★` : '—'}
+          />
+          <ResponseStats stats={stats} />
+          <StatTile label="For sale" value={String(stats.activeListings)} />
+          <StatTile label="Sold" value={String(stats.soldListings)} />
+        </div>
+
+        {/* Active listings */}
+        <section className="mb-10">
+          <h2 className="text-xl font-semibold text-navy-900 mb-4">Boats for Sale</h2>
+          {profile.activeListings.length === 0 ? (
+            <p className="text-navy-600">No boats for sale right now.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {profile.activeListings.map(listing => (
+                <ListingCard key={listing.listingId} listing={listing} />
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Recent reviews */}
+        {profile.recentReviews.length > 0 && (
+          <section className="mb-10">
+            <h2 className="text-xl font-semibold text-navy-900 mb-4">Recent Reviews</h2>
+            <ul className="card p-6 space-y-4">
+              {profile.recentReviews.map(review => {
+                const reviewed = [...profile.activeListings, ...profile.soldListings]
+                  .find(listing => listing.listingId === review.listingId);
+                return (
+                  <li key={review.reviewId} className="border-b border-ocean-100 pb-4 last:border-0">
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="font-medium text-navy-900">
+                        {review.userName}
+                        <span className="ml-2 text-yellow-500">{'★'.repeat(review.rating)}</span>
+                      </span>
+                      <span className="text-xs text-navy-500">{new Date(review.createdAt).toLocaleDateString()}</span>
+                    </div>
+                    {reviewed && (
+                      <Link to={`/listing/${reviewed.listingId}`} className="text-sm text-blue-600 hover:text-blue-800">
+                        {reviewed.title}
+                      </Link>
+                    )}
+                    {review.comment && <p className="mt-1 text-sm text-navy-700 whitespace-pre-wrap">{review.comment}</p>}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        )}
+
+        {/* Sold listings */}
+        {profile.soldListings.length > 0 && (
+          <section>
+            <h2 className="text-xl font-semibold text-navy-900 mb-4">Recently Sold</h2>
+            <ul className="card p-6 divide-y divide-ocean-100">
+              {profile.soldListings.map(listing => (
+                <li key={listing.listingId} className="py-2 flex justify-between gap-4 text-sm">
+                  <span className="text-navy-900">{listing.title}</span>
+                  <span className="text-navy-500">Sold {new Date(listing.updatedAt).toLocaleDateString()}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </Layout>
+    </>
+  );
+}
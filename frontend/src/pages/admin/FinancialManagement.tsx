@@ -5,12 +5,17 @@ import { LoadingOverlay } from '../../components/common/LoadingOverlay';
 import { 
   Transaction, 
   FinancialSummary, 
-  DisputedTransaction, 
   BillingAccount,
   FinancialReport,
+  Invoice,
   DateRange 
 } from '@harborlist/shared-types';
 import { adminApi } from '../../services/adminApi';
+import { CouponManagement } from '../../components/admin/CouponManagement';
+import { TaxManagement } from '../../components/admin/TaxManagement';
+import { LedgerManagement } from '../../components/admin/LedgerManagement';
+import { CommissionManagement } from '../../components/admin/CommissionManagement';
+import { DisputeManagement } from '../../components/admin/DisputeManagement';
 
 interface BillingFilters {
   search: string;
@@ -26,38 +31,16 @@ interface RefundRequest {
   reason: string;
 }
 
-// Mock data for development
-const mockDisputes = [
-  {
-    id: 'disp_001',
-    userName: 'John Smith',
-    userEmail: 'john@example.com',
-    amount: 29999,
-    disputeReason: 'Unauthorized charge',
-    disputeStatus: 'pending',
-    disputeDate: '2024-01-15T10:30:00Z',
-  },
-  {
-    id: 'disp_002',
-    userName: 'Sarah Johnson',
-    userEmail: 'sarah@example.com',
-    amount: 9999,
-    disputeReason: 'Service not received',
-    disputeStatus: 'investigating',
-    disputeDate: '2024-01-14T14:20:00Z',
-  },
-];
-
 const FinancialManagement: React.FC = () => {
   const { showSuccess, showError, showWarning } = useToast();
-  const [activeTab, setActiveTab] = useState<'overview' | 'transactions' | 'billing' | 'disputes' | 'reports'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'transactions' | 'billing' | 'invoices' | 'coupons' | 'tax' | 'ledger' | 'commissions' | 'disputes' | 'reports'>('overview');
   const [isLoading, setIsLoading] = useState(false);
   
   // Data state
   const [financialSummary, setFinancialSummary] = useState<FinancialSummary | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [billingAccounts, setBillingAccounts] = useState<BillingAccount[]>([]);
-  const [disputes, setDisputes] = useState<DisputedTransaction[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [reports, setReports] = useState<FinancialReport[]>([]);
   
   // Filter state
@@ -94,8 +77,8 @@ const FinancialManagement: React.FC = () => {
       loadTransactions();
     } else if (activeTab === 'billing') {
       loadBillingAccounts();
-    } else if (activeTab === 'disputes') {
-      loadDisputes();
+    } else if (activeTab === 'invoices') {
+      loadInvoices();
     } else if (activeTab === 'reports') {
       loadReports();
     }
@@ -145,22 +128,41 @@ const FinancialManagement: React.FC = () => {
     }
   };
 
-  const loadDisputes = async () => {
+  const loadInvoices = async () => {
     setIsLoading(true);
     try {
-      const response = await adminApi.getDisputedTransactions({
-        ...filters,
-        page: currentPage,
+      const response = await adminApi.getInvoices({
+        search: filters.search,
+        ...(filters.status !== 'all' && { status: filters.status }),
         limit: itemsPerPage
       });
-      setDisputes(response.disputes || []);
+      setInvoices(response.invoices || []);
     } catch (error) {
-      showError('Error', 'Failed to load disputes');
+      showError('Error', 'Failed to load invoices');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const openInvoiceDocument = async (invoice: Invoice, format: 'html' | 'pdf') => {
+    try {
+      const document = await adminApi.getInvoiceDocument(invoice.invoiceId, format);
+      const url = URL.createObjectURL(document);
+      if (format === 'html') {
+        window.open(url, '_blank');
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+      } else {
+        const link = window.document.createElement('a');
+        link.href = url;
+        link.download = `invoice-${invoice.invoiceNumber || invoice.invoiceId}.pdf`;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+    } catch (error) {
+      showError('Error', 'Failed to load invoice document');
+    }
+  };
+
   const loadReports = async () => {
     setIsLoading(true);
     try {
@@ -196,19 +198,6 @@ const FinancialManagement: React.FC = () => {
     }
   };
 
-  const handleDisputeUpdate = async (disputeId: string, status: string, notes?: string) => {
-    setIsLoading(true);
-    try {
-      await adminApi.updateDisputeStatus(disputeId, status, notes);
-      showSuccess('Success', 'Dispute status updated');
-      loadDisputes();
-    } catch (error) {
-      showError('Error', 'Failed to update dispute status');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const generateReport = async (reportType: string) => {
     setIsLoading(true);
     try {
@@ -234,6 +223,14 @@ const FinancialManagement: React.FC = () => {
     }).format(amount / 100);
   };
 
+  // Invoice amounts are stored in whole currency units, not cents
+  const formatInvoiceAmount = (amount: number, currency: string = 'USD') => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency
+    }).format(amount);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -250,6 +247,8 @@ const FinancialManagement: React.FC = () => {
       case 'pending': return 'bg-yellow-100 text-yellow-800';
       case 'failed': return 'bg-red-100 text-red-800';
       case 'disputed': return 'bg-orange-100 text-orange-800';
+      case 'paid': return 'bg-green-100 text-green-800';
+      case 'open': return 'bg-yellow-100 text-yellow-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -719,33 +718,55 @@ const FinancialManagement: React.FC = () => {
     </div>
   );
 
-  const renderDisputes = () => (
+  const renderInvoices = () => (
     <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input
+            type="text"
+            placeholder="Search by invoice number, customer or email..."
+            value={filters.search}
+            onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <select
+            value={filters.status}
+            onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="all">All Statuses</option>
+            <option value="open">Open</option>
+            <option value="paid">Paid</option>
+            <option value="void">Void</option>
+          </select>
+        </div>
+      </div>
+
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200">
-          <h3 className="text-lg font-medium text-gray-900">Disputed Transactions</h3>
+          <h3 className="text-lg font-medium text-gray-900">Invoices</h3>
         </div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Transaction ID
+                  Invoice
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  User
+                  Customer
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Amount
+                  Total
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Dispute Reason
+                  Tax
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Dispute Date
+                  Issued
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Actions
@@ -753,43 +774,52 @@ const FinancialManagement: React.FC = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {mockDisputes.map((dispute) => (
-                <tr key={dispute.id} className="hover:bg-gray-50">
+              {invoices.map((invoice) => (
+                <tr key={invoice.invoiceId} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                    {dispute.id}
+                    {invoice.invoiceNumber || 'Draft'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div>
-                      <div className="text-sm font-medium text-gray-900">{dispute.userName}</div>
-                      <div className="text-sm text-gray-500">{dispute.userEmail}</div>
+                      <div className="text-sm font-medium text-gray-900">{invoice.customer.name}</div>
+                      <div className="text-sm text-gray-500">{invoice.customer.email}</div>
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {formatCurrency(dispute.amount)}
+                    {formatInvoiceAmount(invoice.total, invoice.currency)}
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {dispute.disputeReason}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatInvoiceAmount(invoice.taxTotal, invoice.currency)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadgeColor(dispute.disputeStatus)}`}>
-                      {dispute.disputeStatus.replace('_', ' ')}
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadgeColor(invoice.status)}`}>
+                      {invoice.status}
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {formatDate(dispute.disputeDate)}
+                    {invoice.issuedAt ? formatDate(new Date(invoice.issuedAt).toISOString()) : '-'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <button className="text-indigo-600 hover:text-indigo-900 mr-3">
-                      Investigate
+                    <button
+                      onClick={() => openInvoiceDocument(invoice, 'html')}
+                      className="text-indigo-600 hover:text-indigo-900 mr-3"
+                    >
+                      View
                     </button>
-                    <button className="text-green-600 hover:text-green-900">
-                      Resolve
+                    <button
+                      onClick={() => openInvoiceDocument(invoice, 'pdf')}
+                      className="text-indigo-600 hover:text-indigo-900"
+                    >
+                      PDF
                     </button>
                   </td>
                 </tr>
               ))}
             </tbody>
           </table>
+          {invoices.length === 0 && (
+            <div className="text-center py-12 text-gray-500">No invoices found</div>
+          )}
         </div>
       </div>
     </div>
@@ -940,11 +970,52 @@ const FinancialManagement: React.FC = () => {
         backdrop="blur"
       />
 
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Financial Management</h1>
+        <p className="text-gray-600 mt-1">Revenue, transactions, billing accounts, invoices, coupons, sales tax, the ledger, commissions and disputes</p>
+      </div>
+
+      {/* Tab Navigation */}
+      <div className="border-b border-gray-200">
+        <nav className="flex space-x-8">
+          {[
+            { id: 'overview', label: 'Overview' },
+            { id: 'transactions', label: 'Transactions' },
+            { id: 'billing', label: 'Billing Accounts' },
+            { id: 'invoices', label: 'Invoices' },
+            { id: 'coupons', label: 'Coupons' },
+            { id: 'tax', label: 'Sales Tax' },
+            { id: 'ledger', label: 'Ledger' },
+            { id: 'commissions', label: 'Commissions & Payouts' },
+            { id: 'disputes', label: 'Refunds & Disputes' },
+            { id: 'reports', label: 'Reports' },
+          ].map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id as typeof activeTab)}
+              className={`pb-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === tab.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
       {/* Tab Content */}
       {activeTab === 'overview' && renderOverview()}
       {activeTab === 'transactions' && renderTransactions()}
       {activeTab === 'billing' && renderBillingAccounts()}
-      {activeTab === 'disputes' && renderDisputes()}
+      {activeTab === 'invoices' && renderInvoices()}
+      {activeTab === 'coupons' && <CouponManagement />}
+      {activeTab === 'tax' && <TaxManagement />}
+      {activeTab === 'ledger' && <LedgerManagement />}
+      {activeTab === 'commissions' && <CommissionManagement />}
+      {activeTab === 'disputes' && <DisputeManagement />}
       {activeTab === 'reports' && renderReports()}
 
       {/* Refund Modal */}
@@ -4,6 +4,8 @@ import { FlaggedListing, ModerationDecision } from '@harborlist/shared-types';
 import { useModerationQueue } from '../../hooks/useModerationQueue';
 import { useNotifications } from '../../hooks/useNotifications';
 import { adminApi } from '../../services/adminApi';
+import DuplicateListingComparison from '../../components/admin/DuplicateListingComparison';
+import PendingUpdateDiff, { FieldDecisionDraft } from '../../components/admin/PendingUpdateDiff';
 
 interface ChangeRequest {
   category: 'title' | 'description' | 'price' | 'images' | 'specifications' | 'other';
@@ -34,7 +36,14 @@ const ListingModerationReview: React.FC = () => {
   });
   const [showChangeRequestForm, setShowChangeRequestForm] = useState(false);
   const [reviewConfidence, setReviewConfidence] = useState<'low' | 'medium' | 'high'>('medium');
-  const [activeTab, setActiveTab] = useState<'details' | 'history' | 'flags'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'history' | 'flags' | 'duplicates'>('details');
+  const [reportResolutions, setReportResolutions] = useState<Record<string, string>>({});
+  const [reviewingReportId, setReviewingReportId] = useState<string | null>(null);
+  const [fieldDecisions, setFieldDecisions] = useState<Record<string, FieldDecisionDraft>>({});
+
+  // Owner edits to a live listing are reviewed field by field
+  const pendingUpdateFields = listing?.pendingUpdateFields || [];
+  const hasPendingUpdate = listing?.pendingUpdate?.status === 'pending_review' && pendingUpdateFields.length > 0;
 
   useEffect(() => {
     const loadListing = async () => {
@@ -65,8 +74,112 @@ const ListingModerationReview: React.FC = () => {
     loadListing();
   }, [listingId, getListingDetails, navigate, addNotification]);
 
+  const handleReviewReport = async (reportId: string, outcome: 'resolve' | 'dismiss') => {
+    if (!listing) return;
+
+    try {
+      setReviewingReportId(reportId);
+      const { report } = await adminApi.reviewListingReport(
+        listing.listingId,
+        reportId,
+        outcome,
+        reportResolutions[reportId]?.trim() || undefined
+      );
+      setListing({
+        ...listing,
+        flags: listing.flags.map(flag => flag.id === reportId ? report : flag),
+        openReports: Math.max(0, (listing.openReports || 1) - 1)
+      });
+      addNotification({
+        type: 'success',
+        title: outcome === 'resolve' ? 'Report Resolved' : 'Report Dismissed',
+        message: 'The reporter has been notified'
+      });
+    } catch (err) {
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: err instanceof Error ? err.message : 'Failed to review report'
+      });
+    } finally {
+      setReviewingReportId(null);
+    }
+  };
+
+  const handleFieldDecisionChange = (field: string, decision: FieldDecisionDraft | null) => {
+    setFieldDecisions(prev => {
+      const { [field]: _, ...rest } = prev;
+      return decision ? { ...rest, [field]: decision } : rest;
+    });
+  };
+
+  const decideAllFields = (decision: FieldDecisionDraft['decision']) => {
+    setFieldDecisions(Object.fromEntries(pendingUpdateFields.map(change => [
+      change.field,
+      { decision, reason: fieldDecisions[change.field]?.reason || '' }
+    ])));
+  };
+
+  const handleReviewPendingUpdate = async () => {
+    if (!listing) return;
+
+    const decisions = Object.entries(fieldDecisions).map(([field, draft]) => ({
+      field,
+      decision: draft.decision,
+      reason: draft.reason.trim() || undefined
+    }));
+
+    if (decisions.length === 0) {
+      addNotification({
+        type: 'error',
+        title: 'Validation Error',
+        message: 'Approve or reject at least one changed field.'
+      });
+      return;
+    }
+
+    if (decisions.some(decision => decision.decision === 'reject' && !decision.reason)) {
+      addNotification({
+        type: 'error',
+        title: 'Validation Error',
+        message: 'Please give the owner a reason for each rejected field.'
+      });
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const result = await adminApi.reviewPendingUpdate(listing.listingId, {
+        decisions,
+        moderatorNotes: notes.trim() || undefined
+      });
+
+      addNotification({
+        type: 'success',
+        title: 'Update Reviewed',
+        message: `${result.approvedFields.length} field(s) approved, ${result.rejectedFields.length} rejected` +
+          (result.remainingFields.length > 0 ? `, ${result.remainingFields.length} still pending` : '')
+      });
+
+      navigate('/admin/moderation');
+    } catch (err) {
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: err instanceof Error ? err.message : 'Failed to review pending update'
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (hasPendingUpdate) {
+      await handleReviewPendingUpdate();
+      return;
+    }
     
     if (!reason.trim()) {
       addNotification({
@@ -91,53 +204,6 @@ const ListingModerationReview: React.FC = () => {
     try {
       setSubmitting(true);
       
-      // Check if this is a pending update for an active listing
-      const hasPendingUpdate = (listing as any).pendingUpdate && (listing as any).pendingUpdate.status === 'pending_review';
-      
-      console.log('[Moderation Review] Submit decision:', {
-        listingId: listing.listingId,
-        selectedAction,
-        hasPendingUpdate,
-        pendingUpdate: (listing as any).pendingUpdate,
-        listingStatus: listing.status
-      });
-      
-      if (hasPendingUpdate && selectedAction === 'approve') {
-        console.log('[Pending Update] Approving update for listing:', listing.listingId);
-        
-        // Approve the pending update using adminApi service
-        await adminApi.approvePendingUpdate(listing.listingId, notes.trim() || 'Update approved');
-
-        addNotification({
-          type: 'success',
-          title: 'Success',
-          message: 'Listing update approved successfully'
-        });
-        
-        navigate('/admin/moderation');
-        return;
-      }
-      
-      if (hasPendingUpdate && selectedAction === 'reject') {
-        console.log('[Pending Update] Rejecting update for listing:', listing.listingId);
-        
-        // Reject the pending update using adminApi service
-        await adminApi.rejectPendingUpdate(
-          listing.listingId, 
-          notes.trim() || reason.trim() || 'Update does not meet requirements'
-        );
-
-        addNotification({
-          type: 'success',
-          title: 'Success',
-          message: 'Listing update rejected successfully'
-        });
-        
-        navigate('/admin/moderation');
-        return;
-      }
-
-      // Regular listing moderation (not a pending update)
       const decision: ModerationDecision = {
         action: selectedAction,
         reason: reason.trim(),
@@ -323,6 +389,18 @@ const ListingModerationReview: React.FC = () => {
             >
               Reported Issues ({listing.flags.length})
             </button>
+            {listing.duplicateMatches && listing.duplicateMatches.length > 0 && (
+              <button
+                onClick={() => setActiveTab('duplicates')}
+                className={`pb-2 border-b-2 font-medium text-sm ${
+                  activeTab === 'duplicates' 
+                    ? 'border-blue-500 text-blue-600' 
+                    : 'border-transparent text-red-600 hover:text-red-700'
+                }`}
+              >
+                Possible Duplicates ({listing.duplicateMatches.length})
+              </button>
+            )}
             <button
               onClick={() => setActiveTab('history')}
               className={`pb-2 border-b-2 font-medium text-sm ${
@@ -344,6 +422,15 @@ const ListingModerationReview: React.FC = () => {
           <div className="lg:col-span-2 space-y-6">
             {activeTab === 'details' && (
               <>
+                {/* Pending Update */}
+                {hasPendingUpdate && (
+                  <PendingUpdateDiff
+                    changes={pendingUpdateFields}
+                    decisions={fieldDecisions}
+                    onDecisionChange={handleFieldDecisionChange}
+                  />
+                )}
+
                 {/* Title */}
                 <div className="bg-white rounded-lg shadow p-6">
                   <h2 className="text-2xl font-bold text-gray-900">{listing.title}</h2>
@@ -483,6 +570,12 @@ const ListingModerationReview: React.FC = () => {
                           <dd className="mt-1 text-sm text-gray-900">{(listing as any).boatDetails.year}</dd>
                         </div>
                       )}
+                      {listing.boatDetails?.hin && (
+                        <div>
+                          <dt className="text-sm font-medium text-gray-500">HIN</dt>
+                          <dd className="mt-1 text-sm text-gray-900 font-mono">{listing.boatDetails.hin}</dd>
+                        </div>
+                      )}
                       {(listing as any).boatDetails.length && (
                         <div>
                           <dt className="text-sm font-medium text-gray-500">Length</dt>
@@ -654,6 +747,37 @@ const ListingModerationReview: React.FC = () => {
                             {flag.status}
                           </span>
                         </div>
+                        {flag.resolution && (
+                          <p className="text-xs text-gray-600 mt-2">Resolution: {flag.resolution}</p>
+                        )}
+                        {flag.status === 'pending' && flag.metadata?.source === 'user_report' && (
+                          <div className="mt-3 pt-3 border-t border-gray-200 space-y-2">
+                            <textarea
+                              value={reportResolutions[flag.id] || ''}
+                              onChange={(e) => setReportResolutions({ ...reportResolutions, [flag.id]: e.target.value })}
+                              rows={2}
+                              maxLength={500}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              placeholder="Note for the reporter (optional)"
+                            />
+                            <div className="flex justify-end space-x-2">
+                              <button
+                                onClick={() => handleReviewReport(flag.id, 'dismiss')}
+                                disabled={reviewingReportId === flag.id}
+                                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                              >
+                                Dismiss
+                              </button>
+                              <button
+                                onClick={() => handleReviewReport(flag.id, 'resolve')}
+                                disabled={reviewingReportId === flag.id}
+                                className="px-3 py-1.5 text-sm rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                              >
+                                Resolve
+                              </button>
+                            </div>
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -661,6 +785,10 @@ const ListingModerationReview: React.FC = () => {
               </div>
             )}
 
+            {activeTab === 'duplicates' && listing.duplicateMatches && (
+              <DuplicateListingComparison listing={listing} matches={listing.duplicateMatches} />
+            )}
+
             {activeTab === 'history' && (
               <div className="bg-white rounded-lg shadow p-6">
                 <h3 className="text-lg font-medium text-gray-900 mb-4">Moderation History</h3>
@@ -754,64 +882,92 @@ const ListingModerationReview: React.FC = () => {
           <div className="lg:col-span-1">
             <div className="sticky top-24">
               <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-6">
-                <div>
-                  <h3 className="text-lg font-medium text-gray-900 mb-4">Moderation Decision</h3>
-                  <div className="space-y-3">
-                    <label className="flex items-start p-3 border-2 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
-                      <input
-                        type="radio"
-                        name="action"
-                        value="approve"
-                        checked={selectedAction === 'approve'}
-                        onChange={(e) => setSelectedAction(e.target.value as any)}
-                        className="mt-1 mr-3"
-                      />
-                      <div>
-                        <div className="font-medium text-green-700">Approve Listing</div>
-                        <div className="text-xs text-gray-500 mt-1">
-                          The listing meets platform standards and can be published
+                {hasPendingUpdate ? (
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">Update Review</h3>
+                    <p className="text-sm text-gray-500 mb-4">
+                      {Object.values(fieldDecisions).filter(d => d.decision === 'approve').length} approved,{' '}
+                      {Object.values(fieldDecisions).filter(d => d.decision === 'reject').length} rejected,{' '}
+                      {pendingUpdateFields.length - Object.keys(fieldDecisions).length} undecided of{' '}
+                      {pendingUpdateFields.length} changed fields. Undecided fields stay pending.
+                    </p>
+                    <div className="flex space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => decideAllFields('approve')}
+                        className="flex-1 px-3 py-2 text-sm border border-green-300 rounded-md text-green-700 hover:bg-green-50"
+                      >
+                        Approve All
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => decideAllFields('reject')}
+                        className="flex-1 px-3 py-2 text-sm border border-red-300 rounded-md text-red-700 hover:bg-red-50"
+                      >
+                        Reject All
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-4">Moderation Decision</h3>
+                    <div className="space-y-3">
+                      <label className="flex items-start p-3 border-2 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
+                        <input
+                          type="radio"
+                          name="action"
+                          value="approve"
+                          checked={selectedAction === 'approve'}
+                          onChange={(e) => setSelectedAction(e.target.value as any)}
+                          className="mt-1 mr-3"
+                        />
+                        <div>
+                          <div className="font-medium text-green-700">Approve Listing</div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            The listing meets platform standards and can be published
+                          </div>
                         </div>
-                      </div>
-                    </label>
+                      </label>
 
-                    <label className="flex items-start p-3 border-2 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
-                      <input
-                        type="radio"
-                        name="action"
-                        value="request_changes"
-                        checked={selectedAction === 'request_changes'}
-                        onChange={(e) => {
-                          setSelectedAction(e.target.value as any);
-                          setShowChangeRequestForm(false);
-                        }}
-                        className="mt-1 mr-3"
-                      />
-                      <div>
-                        <div className="font-medium text-yellow-700">Request Changes</div>
-                        <div className="text-xs text-gray-500 mt-1">
-                          Ask the owner to modify specific aspects of the listing
+                      <label className="flex items-start p-3 border-2 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
+                        <input
+                          type="radio"
+                          name="action"
+                          value="request_changes"
+                          checked={selectedAction === 'request_changes'}
+                          onChange={(e) => {
+                            setSelectedAction(e.target.value as any);
+                            setShowChangeRequestForm(false);
+                          }}
+                          className="mt-1 mr-3"
+                        />
+                        <div>
+                          <div className="font-medium text-yellow-700">Request Changes</div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            Ask the owner to modify specific aspects of the listing
+                          </div>
                         </div>
-                      </div>
-                    </label>
+                      </label>
 
-                    <label className="flex items-start p-3 border-2 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
-                      <input
-                        type="radio"
-                        name="action"
-                        value="reject"
-                        checked={selectedAction === 'reject'}
-                        onChange={(e) => setSelectedAction(e.target.value as any)}
-                        className="mt-1 mr-3"
-                      />
-                      <div>
-                        <div className="font-medium text-red-700">Reject Listing</div>
-                        <div className="text-xs text-gray-500 mt-1">
-                          Remove the listing permanently from the platform
+                      <label className="flex items-start p-3 border-2 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
+                        <input
+                          type="radio"
+                          name="action"
+                          value="reject"
+                          checked={selectedAction === 'reject'}
+                          onChange={(e) => setSelectedAction(e.target.value as any)}
+                          className="mt-1 mr-3"
+                        />
+                        <div>
+                          <div className="font-medium text-red-700">Reject Listing</div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            Remove the listing permanently from the platform
+                          </div>
                         </div>
-                      </div>
-                    </label>
+                      </label>
+                    </div>
                   </div>
-                </div>
+                )}
 
                 {/* Change Requests Section */}
                 {selectedAction === 'request_changes' && (
@@ -928,32 +1084,36 @@ const ListingModerationReview: React.FC = () => {
                   </div>
                 )}
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Reason <span className="text-red-500">*</span>
-                  </label>
-                  <textarea
-                    value={reason}
-                    onChange={(e) => setReason(e.target.value)}
-                    rows={3}
-                    className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="Explain your decision..."
-                    required
-                  />
-                </div>
+                {!hasPendingUpdate && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Reason <span className="text-red-500">*</span>
+                      </label>
+                      <textarea
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        rows={3}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Explain your decision..."
+                        required
+                      />
+                    </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Public Notes (Visible to Owner)
-                  </label>
-                  <textarea
-                    value={publicNotes}
-                    onChange={(e) => setPublicNotes(e.target.value)}
-                    rows={2}
-                    className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="Additional information for the listing owner..."
-                  />
-                </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Public Notes (Visible to Owner)
+                      </label>
+                      <textarea
+                        value={publicNotes}
+                        onChange={(e) => setPublicNotes(e.target.value)}
+                        rows={2}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Additional information for the listing owner..."
+                      />
+                    </div>
+                  </>
+                )}
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
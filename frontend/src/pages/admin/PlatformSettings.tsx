@@ -6,9 +6,11 @@ import FeatureFlagsPanel from '../../components/admin/settings/FeatureFlagsPanel
 import ContentPoliciesPanel from '../../components/admin/settings/ContentPoliciesPanel';
 import ListingConfigurationPanel from '../../components/admin/settings/ListingConfigurationPanel';
 import NotificationSettingsPanel from '../../components/admin/settings/NotificationSettingsPanel';
+import ContentFilterRulesPanel from '../../components/admin/settings/ContentFilterRulesPanel';
+import AutoApprovalRulesPanel from '../../components/admin/settings/AutoApprovalRulesPanel';
 import SettingsAuditLog from '../../components/admin/settings/SettingsAuditLog';
 
-type SettingsTab = 'general' | 'features' | 'content' | 'listings' | 'notifications' | 'audit';
+type SettingsTab = 'general' | 'features' | 'content' | 'contentFilter' | 'autoApproval' | 'listings' | 'notifications' | 'audit';
 
 const PlatformSettings: React.FC = () => {
   const { settings, loading, error, updateSettings, validateSettings, resetSettings, getAuditLog } = usePlatformSettings();
@@ -25,6 +27,8 @@ const PlatformSettings: React.FC = () => {
     { id: 'general' as const, name: 'General', icon: '⚙️' },
     { id: 'features' as const, name: 'Features', icon: '🚀' },
     { id: 'content' as const, name: 'Content Policies', icon: '📋' },
+    { id: 'contentFilter' as const, name: 'Content Filter', icon: '🛡️' },
+    { id: 'autoApproval' as const, name: 'Update Auto-Approval', icon: '✅' },
     { id: 'listings' as const, name: 'Listings', icon: '🏷️' },
     { id: 'notifications' as const, name: 'Notifications', icon: '🔔' },
     { id: 'audit' as const, name: 'Audit Log', icon: '📊' }
@@ -166,6 +170,18 @@ const PlatformSettings: React.FC = () => {
               onSave={handleSettingsSave}
             />
           )}
+          {activeTab === 'contentFilter' && (
+            <ContentFilterRulesPanel
+              onChange={handleSettingsChange}
+              onSave={handleSettingsSave}
+            />
+          )}
+          {activeTab === 'autoApproval' && (
+            <AutoApprovalRulesPanel
+              onChange={handleSettingsChange}
+              onSave={handleSettingsSave}
+            />
+          )}
           {activeTab === 'listings' && (
             <ListingConfigurationPanel
               settings={settings.listings}
@@ -1,5 +1,17 @@
 import { config } from '../config/env';
-import { AdminUser, AdminPermission, UserRole } from '@harborlist/shared-types';
+import {
+  AdminUser,
+  AdminPermission,
+  UserRole,
+  ContentFilterDryRunRequest,
+  ContentFilterDryRunResult,
+  ContentFilterPublishRequest,
+  ContentFilterRuleSet,
+  ContentFilterVersionSummary,
+  PendingUpdateAutoApprovalRules,
+  PendingUpdateReviewRequest,
+  PendingUpdateReviewResult
+} from '@harborlist/shared-types';
 import { apiClient, ApiRequestOptions } from './apiClient';
 
 interface AdminLoginRequest {
@@ -145,6 +157,18 @@ class AdminApiService {
     }, { component: 'ListingModeration', action: 'ModerateListing' });
   }
 
+  async reviewListingReport(
+    listingId: string,
+    reportId: string,
+    outcome: 'resolve' | 'dismiss',
+    resolution?: string
+  ): Promise<any> {
+    return this.request(`/admin/listings/${listingId}/reports/${reportId}/${outcome}`, {
+      method: 'POST',
+      body: JSON.stringify({ resolution })
+    }, { component: 'ListingModeration', action: 'ReviewListingReport' });
+  }
+
   async approvePendingUpdate(listingId: string, moderatorNotes?: string): Promise<any> {
     return this.request(`/admin/listings/${listingId}/pending-update/approve`, {
       method: 'POST',
@@ -159,6 +183,16 @@ class AdminApiService {
     }, { component: 'ListingModeration', action: 'RejectPendingUpdate' });
   }
 
+  async reviewPendingUpdate(
+    listingId: string,
+    request: PendingUpdateReviewRequest
+  ): Promise<PendingUpdateReviewResult & { message: string }> {
+    return this.request(`/admin/listings/${listingId}/pending-update/review`, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    }, { component: 'ListingModeration', action: 'ReviewPendingUpdate' });
+  }
+
   async getModerationStats(): Promise<any> {
     return this.request('/admin/moderation/stats', {}, 
       { component: 'ListingModeration', action: 'GetModerationStats' });
@@ -336,6 +370,47 @@ class AdminApiService {
     });
   }
 
+  // Content filter rules endpoints
+  async getContentFilterRules(): Promise<{ ruleSet: ContentFilterRuleSet }> {
+    return this.request(`/admin/settings/content-filter`, {}, { component: 'ContentFilterRules', action: 'GetRules' });
+  }
+
+  async publishContentFilterRules(request: ContentFilterPublishRequest): Promise<{ ruleSet: ContentFilterRuleSet; message: string }> {
+    return this.request(`/admin/settings/content-filter`, {
+      method: 'PUT',
+      body: JSON.stringify(request)
+    }, { component: 'ContentFilterRules', action: 'PublishRules' });
+  }
+
+  async getContentFilterVersions(): Promise<{ versions: ContentFilterVersionSummary[] }> {
+    return this.request(`/admin/settings/content-filter/versions`, {}, { component: 'ContentFilterRules', action: 'GetVersions' });
+  }
+
+  async getContentFilterVersion(version: number): Promise<{ ruleSet: ContentFilterRuleSet }> {
+    return this.request(`/admin/settings/content-filter/versions/${version}`, {}, { component: 'ContentFilterRules', action: 'GetVersion' });
+  }
+
+  async dryRunContentFilter(request: ContentFilterDryRunRequest): Promise<ContentFilterDryRunResult> {
+    return this.request(`/admin/settings/content-filter/dry-run`, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    }, { component: 'ContentFilterRules', action: 'DryRun' });
+  }
+
+  // Pending update auto-approval endpoints
+  async getAutoApprovalRules(): Promise<{ rules: PendingUpdateAutoApprovalRules; autoApprovableFields: string[] }> {
+    return this.request(`/admin/settings/pending-update-auto-approval`, {}, { component: 'AutoApprovalRules', action: 'GetRules' });
+  }
+
+  async updateAutoApprovalRules(
+    rules: PendingUpdateAutoApprovalRules
+  ): Promise<{ rules: PendingUpdateAutoApprovalRules; autoApprovableFields: string[]; message: string }> {
+    return this.request(`/admin/settings/pending-update-auto-approval`, {
+      method: 'PUT',
+      body: JSON.stringify(rules)
+    }, { component: 'AutoApprovalRules', action: 'UpdateRules' });
+  }
+
   // Support and Communication endpoints
   async getSupportTickets(params?: any): Promise<any> {
     const query = params ? `?${new URLSearchParams(params).toString()}` : '';
@@ -579,6 +654,187 @@ class AdminApiService {
       { component: 'BillingManagement', action: 'GetFinancialSummary' });
   }
 
+  async getInvoices(params?: any): Promise<any> {
+    const query = params ? `?${new URLSearchParams(params).toString()}` : '';
+    return this.request(`/admin/billing/invoices${query}`, {}, 
+      { component: 'BillingManagement', action: 'GetInvoices' });
+  }
+
+  async getInvoiceDocument(invoiceId: string, format: 'html' | 'pdf'): Promise<Blob> {
+    // Documents are not JSON, so they bypass apiClient
+    const token = localStorage.getItem('adminAuthToken');
+    const response = await fetch(`${config.apiUrl}/admin/billing/invoices/${invoiceId}/${format}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to load invoice document: HTTP ${response.status}`);
+    }
+    return response.blob();
+  }
+
+  async getCoupons(params?: any): Promise<any> {
+    const query = params ? `?${new URLSearchParams(params).toString()}` : '';
+    return this.request(`/admin/billing/coupons${query}`, {}, 
+      { component: 'CouponManagement', action: 'GetCoupons' });
+  }
+
+  async createCoupon(couponData: any): Promise<any> {
+    return this.request('/admin/billing/coupons', {
+      method: 'POST',
+      body: JSON.stringify(couponData)
+    }, { component: 'CouponManagement', action: 'CreateCoupon' });
+  }
+
+  async updateCoupon(code: string, updates: any): Promise<any> {
+    return this.request(`/admin/billing/coupons/${encodeURIComponent(code)}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates)
+    }, { component: 'CouponManagement', action: 'UpdateCoupon' });
+  }
+
+  async deactivateCoupon(code: string): Promise<any> {
+    return this.request(`/admin/billing/coupons/${encodeURIComponent(code)}`, {
+      method: 'DELETE'
+    }, { component: 'CouponManagement', action: 'DeactivateCoupon' });
+  }
+
+  async getCouponRedemptions(code: string, params?: any): Promise<any> {
+    const query = params ? `?${new URLSearchParams(params).toString()}` : '';
+    return this.request(`/admin/billing/coupons/${encodeURIComponent(code)}/redemptions${query}`, {}, 
+      { component: 'CouponManagement', action: 'GetCouponRedemptions' });
+  }
+
+  async getTaxReport(params?: any): Promise<any> {
+    const query = params ? `?${new URLSearchParams(params).toString()}` : '';
+    return this.request(`/admin/billing/reports/tax${query}`, {}, 
+      { component: 'TaxManagement', action: 'GetTaxReport' });
+  }
+
+  async getTaxExemptions(params?: any): Promise<any> {
+    const query = params ? `?${new URLSearchParams(params).toString()}` : '';
+    return this.request(`/admin/billing/tax/exemptions${query}`, {}, 
+      { component: 'TaxManagement', action: 'GetTaxExemptions' });
+  }
+
+  async reviewTaxExemption(billingId: string, certificateId: string, decision: 'verified' | 'rejected', reason?: string): Promise<any> {
+    return this.request(`/admin/billing/tax/exemptions/${encodeURIComponent(billingId)}/${encodeURIComponent(certificateId)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ decision, reason })
+    }, { component: 'TaxManagement', action: 'ReviewTaxExemption' });
+  }
+
+  async getLedgerAccounts(): Promise<any> {
+    return this.request('/admin/billing/ledger/accounts', {}, 
+      { component: 'LedgerManagement', action: 'GetLedgerAccounts' });
+  }
+
+  async getTrialBalance(params?: any): Promise<any> {
+    const query = params ? `?${new URLSearchParams(params).toString()}` : '';
+    return this.request(`/admin/billing/ledger/trial-balance${query}`, {}, 
+      { component: 'LedgerManagement', action: 'GetTrialBalance' });
+  }
+
+  async getAccountStatement(accountCode: string, params?: any): Promise<any> {
+    const query = params ? `?${new URLSearchParams(params).toString()}` : '';
+    return this.request(`/admin/billing/ledger/accounts/${encodeURIComponent(accountCode)}/statement${query}`, {}, 
+      { component: 'LedgerManagement', action: 'GetAccountStatement' });
+  }
+
+  async postLedgerAdjustment(adjustment: any): Promise<any> {
+    return this.request('/admin/billing/ledger/entries', {
+      method: 'POST',
+      body: JSON.stringify(adjustment)
+    }, { component: 'LedgerManagement', action: 'PostLedgerAdjustment' });
+  }
+
+  async getLedgerPeriods(): Promise<any> {
+    return this.request('/admin/billing/ledger/periods', {}, 
+      { component: 'LedgerManagement', action: 'GetLedgerPeriods' });
+  }
+
+  async closeLedgerPeriod(period: string): Promise<any> {
+    return this.request(`/admin/billing/ledger/periods/${encodeURIComponent(period)}/close`, {
+      method: 'POST'
+    }, { component: 'LedgerManagement', action: 'CloseLedgerPeriod' });
+  }
+
+  async reconcileLedger(range: { startDate: string; endDate: string }): Promise<any> {
+    return this.request('/admin/billing/ledger/reconcile', {
+      method: 'POST',
+      body: JSON.stringify(range)
+    }, { component: 'LedgerManagement', action: 'ReconcileLedger' });
+  }
+
+  async getCommissionRules(): Promise<any> {
+    return this.request('/admin/billing/commissions/rules', {},
+      { component: 'CommissionManagement', action: 'GetCommissionRules' });
+  }
+
+  async createCommissionRule(rule: any): Promise<any> {
+    return this.request('/admin/billing/commissions/rules', {
+      method: 'POST',
+      body: JSON.stringify(rule)
+    }, { component: 'CommissionManagement', action: 'CreateCommissionRule' });
+  }
+
+  async updateCommissionRule(ruleId: string, changes: any): Promise<any> {
+    return this.request(`/admin/billing/commissions/rules/${encodeURIComponent(ruleId)}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes)
+    }, { component: 'CommissionManagement', action: 'UpdateCommissionRule' });
+  }
+
+  async deactivateCommissionRule(ruleId: string): Promise<any> {
+    return this.request(`/admin/billing/commissions/rules/${encodeURIComponent(ruleId)}`, {
+      method: 'DELETE'
+    }, { component: 'CommissionManagement', action: 'DeactivateCommissionRule' });
+  }
+
+  async getCommissionStatements(period: string): Promise<any> {
+    return this.request(`/admin/billing/commissions/statements?${new URLSearchParams({ period }).toString()}`, {},
+      { component: 'CommissionManagement', action: 'GetCommissionStatements' });
+  }
+
+  async generateCommissionStatements(period: string): Promise<any> {
+    return this.request('/admin/billing/commissions/statements/generate', {
+      method: 'POST',
+      body: JSON.stringify({ period })
+    }, { component: 'CommissionManagement', action: 'GenerateCommissionStatements' });
+  }
+
+  async getPayoutBatches(params?: any): Promise<any> {
+    const query = params ? `?${new URLSearchParams(params).toString()}` : '';
+    return this.request(`/admin/billing/payouts/batches${query}`, {},
+      { component: 'CommissionManagement', action: 'GetPayoutBatches' });
+  }
+
+  async createPayoutBatch(period: string): Promise<any> {
+    return this.request('/admin/billing/payouts/batches', {
+      method: 'POST',
+      body: JSON.stringify({ period })
+    }, { component: 'CommissionManagement', action: 'CreatePayoutBatch' });
+  }
+
+  async approvePayoutBatch(batchId: string): Promise<any> {
+    return this.request(`/admin/billing/payouts/batches/${encodeURIComponent(batchId)}/approve`, {
+      method: 'POST'
+    }, { component: 'CommissionManagement', action: 'ApprovePayoutBatch' });
+  }
+
+  async holdPayoutBatch(batchId: string, reason: string): Promise<any> {
+    return this.request(`/admin/billing/payouts/batches/${encodeURIComponent(batchId)}/hold`, {
+      method: 'POST',
+      body: JSON.stringify({ reason })
+    }, { component: 'CommissionManagement', action: 'HoldPayoutBatch' });
+  }
+
+  async releasePayoutBatch(batchId: string): Promise<any> {
+    return this.request(`/admin/billing/payouts/batches/${encodeURIComponent(batchId)}/release`, {
+      method: 'POST'
+    }, { component: 'CommissionManagement', action: 'ReleasePayoutBatch' });
+  }
+
   async getDisputedTransactions(params?: any): Promise<any> {
     const query = params ? `?${new URLSearchParams(params).toString()}` : '';
     return this.request(`/admin/billing/disputes${query}`, {}, 
@@ -592,6 +848,25 @@ class AdminApiService {
     }, { component: 'BillingManagement', action: 'UpdateDisputeStatus' });
   }
 
+  async getDispute(disputeId: string): Promise<any> {
+    return this.request(`/admin/billing/disputes/${encodeURIComponent(disputeId)}`, {},
+      { component: 'DisputeManagement', action: 'GetDispute' });
+  }
+
+  async postDisputeMessage(disputeId: string, body: string): Promise<any> {
+    return this.request(`/admin/billing/disputes/${encodeURIComponent(disputeId)}/messages`, {
+      method: 'POST',
+      body: JSON.stringify({ body })
+    }, { component: 'DisputeManagement', action: 'PostDisputeMessage' });
+  }
+
+  async resolveDispute(disputeId: string, resolution: { decision: 'refund' | 'decline'; refundAmount?: number; notes: string }): Promise<any> {
+    return this.request(`/admin/billing/disputes/${encodeURIComponent(disputeId)}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify(resolution)
+    }, { component: 'DisputeManagement', action: 'ResolveDispute' });
+  }
+
   // Sales Role Management endpoints
   async getSalesUsers(): Promise<any> {
     return this.request('/admin/sales/users', {}, 
@@ -6,11 +6,61 @@
  * - Subscription operations
  * - Payment method management
  * - Transaction history
+ * - Invoices and invoice documents
+ * - Coupon code checks before checkout
+ * - Commission statements for sales reps and dealers
+ * - Refund requests and billing disputes
+ * - Usage against plan quotas
+ * - Featured and boosted listing promotions with performance reports
  * 
  * @author HarborList Development Team
  */
 
-import { BillingAccount, Transaction, PaymentMethod } from '@harborlist/shared-types';
+import {
+  BillingAccount,
+  BillingCaseType,
+  CommissionStatement,
+  DisputeCase,
+  DisputeEvidence,
+  DisputeMessage,
+  Invoice,
+  ListingPromotion,
+  PaymentMethod,
+  PromotionQuote,
+  PromotionReport,
+  PromotionType,
+  TaxExemptionCertificate,
+  TaxExemptionType,
+  Transaction,
+  UsageSummary,
+} from '@harborlist/shared-types';
+
+/**
+ * What a coupon code gives on a plan, as previewed before checkout
+ */
+export interface CouponPreview {
+  valid: boolean;
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'fixed' | 'free_months';
+  discountDescription: string;
+  duration: 'once' | 'repeating' | 'forever';
+  durationCycles?: number;
+  freeMonths?: number;
+  amount: number;
+  discount: number;
+  amountAfterDiscount: number;
+}
+
+/**
+ * A sales rep's or dealer's commission statements and payouts
+ */
+export interface CommissionHistory {
+  payeeId: string;
+  statements: CommissionStatement[];
+  pendingCommission: number;
+  paidToDate: number;
+}
 
 class BillingApiService {
   private baseUrl = '/api/billing';
@@ -72,6 +122,7 @@ class BillingApiService {
   async createSubscription(subscriptionData: {
     plan: string;
     billingCycle: 'monthly' | 'yearly';
+    couponCode?: string;
   }): Promise<{ subscriptionId: string; message: string }> {
     return this.request('/subscriptions', {
       method: 'POST',
@@ -95,6 +146,17 @@ class BillingApiService {
     });
   }
 
+  async validateCoupon(couponData: {
+    code: string;
+    planId: string;
+    billingCycle: 'monthly' | 'yearly';
+  }): Promise<CouponPreview> {
+    return this.request('/coupons/validate', {
+      method: 'POST',
+      body: JSON.stringify(couponData),
+    });
+  }
+
   // Payment Method Operations
   async getPaymentMethods(): Promise<{ paymentMethods: PaymentMethod[] }> {
     return this.request('/payment-methods');
@@ -158,6 +220,131 @@ class BillingApiService {
     });
   }
 
+  // Invoice Operations
+  async getInvoices(params?: {
+    limit?: number;
+    nextToken?: string;
+  }): Promise<{ invoices: Invoice[]; nextToken?: string }> {
+    const query = params ? `?${new URLSearchParams(params as any).toString()}` : '';
+    return this.request(`/invoices${query}`);
+  }
+
+  async getInvoice(invoiceId: string): Promise<{ invoice: Invoice }> {
+    return this.request(`/invoices/${invoiceId}`);
+  }
+
+  /**
+   * Downloads an invoice rendered as HTML or PDF
+   */
+  async getInvoiceDocument(invoiceId: string, format: 'html' | 'pdf'): Promise<Blob> {
+    const token = localStorage.getItem('authToken');
+
+    const response = await fetch(`${this.baseUrl}/invoices/${invoiceId}/${format}`, {
+      headers: {
+        'Authorization': token ? `Bearer ${token}` : '',
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Request failed' }));
+      throw new Error(error.message || `HTTP ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
+  // Usage Operations
+  async getUsage(): Promise<{ usage: UsageSummary }> {
+    return this.request('/usage');
+  }
+
+  // Promotion Operations
+  async getPromotions(): Promise<{ promotions: ListingPromotion[] }> {
+    return this.request('/promotions');
+  }
+
+  async getPromotionReport(promotionId: string): Promise<{ report: PromotionReport }> {
+    return this.request(`/promotions/${promotionId}/report`);
+  }
+
+  async quotePromotion(request: { listingId: string; type: PromotionType; days: number }): Promise<{ quote: PromotionQuote }> {
+    return this.request('/promotions/quote', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async purchasePromotion(request: { listingId: string; type: PromotionType; days: number }): Promise<{ promotion: ListingPromotion; message: string }> {
+    return this.request('/promotions', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  // Tax Exemption Operations
+  async getTaxExemptions(): Promise<{ taxExempt: boolean; certificates: TaxExemptionCertificate[] }> {
+    return this.request('/tax/exemptions');
+  }
+
+  async submitTaxExemption(certificate: {
+    certificateNumber: string;
+    exemptionType: TaxExemptionType;
+    states?: string[];
+    expiresAt?: number;
+    documentUrl?: string;
+  }): Promise<{ certificate: TaxExemptionCertificate; message: string }> {
+    return this.request('/tax/exemptions', {
+      method: 'POST',
+      body: JSON.stringify(certificate),
+    });
+  }
+
+  // Commission Operations
+  async getCommissionHistory(months?: number): Promise<CommissionHistory> {
+    const query = months ? `?months=${months}` : '';
+    return this.request(`/commissions/history${query}`);
+  }
+
+  // Refund Request and Dispute Operations
+  async getBillingCases(): Promise<{ cases: DisputeCase[] }> {
+    return this.request('/disputes');
+  }
+
+  async getBillingCase(disputeId: string): Promise<{ case: DisputeCase }> {
+    return this.request(`/disputes/${disputeId}`);
+  }
+
+  async openBillingCase(request: {
+    transactionId: string;
+    caseType: BillingCaseType;
+    reason: string;
+    description: string;
+    amount?: number;
+  }): Promise<{ case: DisputeCase; message: string }> {
+    return this.request('/disputes', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async postBillingCaseMessage(disputeId: string, body: string): Promise<{ message: DisputeMessage }> {
+    return this.request(`/disputes/${disputeId}/messages`, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    });
+  }
+
+  async addBillingCaseEvidence(disputeId: string, evidence: {
+    type: DisputeEvidence['type'];
+    description: string;
+    fileUrl?: string;
+  }): Promise<{ evidence: DisputeEvidence }> {
+    return this.request(`/disputes/${disputeId}/evidence`, {
+      method: 'POST',
+      body: JSON.stringify(evidence),
+    });
+  }
+
   // Health Check
   async getHealthStatus(): Promise<{
     healthStatus: Record<string, any>;
@@ -1,4 +1,19 @@
-import { Listing, SearchFilters, SearchResult } from '@harborlist/shared-types';
+import {
+  Favorite,
+  FavoriteListing,
+  Listing,
+  ListingReportRequest,
+  Message,
+  MessageAttachment,
+  MessageThreadSummary,
+  OfferContingency,
+  OfferSummary,
+  PromotionPlacement,
+  SavedSearch,
+  SearchFilters,
+  SearchResult,
+  SellerProfile,
+} from '@harborlist/shared-types';
 import { config } from '../config/env';
 
 const API_BASE_URL = config.apiUrl;
@@ -97,9 +112,20 @@ export async function deleteListing(id: string): Promise<void> {
   });
 }
 
+export async function reportListing(
+  listingId: string,
+  report: ListingReportRequest
+): Promise<{ report: { id: string; status: string; reportedAt: string }; message: string }> {
+  return apiRequest(`/listings/${listingId}/report`, {
+    method: 'POST',
+    body: JSON.stringify(report),
+  });
+}
+
 export async function searchListings(params: SearchFilters & {
   limit?: number;
-  offset?: number;
+  cursor?: string;
+  placement?: PromotionPlacement;
 }): Promise<SearchResult> {
   return apiRequest('/search', {
     method: 'POST',
@@ -107,6 +133,142 @@ export async function searchListings(params: SearchFilters & {
   });
 }
 
+export type SavedSearchInput = Pick<SavedSearch, 'name' | 'filters'> &
+  Partial<Pick<SavedSearch, 'emailFrequency' | 'notificationsEnabled'>>;
+
+export async function getSavedSearches(): Promise<{ savedSearches: SavedSearch[]; limit: number }> {
+  return apiRequest('/saved-searches');
+}
+
+export async function createSavedSearch(input: SavedSearchInput): Promise<{ savedSearch: SavedSearch }> {
+  return apiRequest('/saved-searches', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+export async function updateSavedSearch(
+  searchId: string,
+  updates: Partial<SavedSearchInput>
+): Promise<{ savedSearch: SavedSearch }> {
+  return apiRequest(`/saved-searches/${searchId}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  });
+}
+
+export async function deleteSavedSearch(searchId: string): Promise<void> {
+  return apiRequest(`/saved-searches/${searchId}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function getFavorites(): Promise<{ favorites: FavoriteListing[] }> {
+  return apiRequest('/favorites');
+}
+
+export async function getFavoriteStatus(listingId: string): Promise<{ favorited: boolean; favorite?: Favorite }> {
+  return apiRequest(`/favorites/${listingId}`);
+}
+
+export async function addFavorite(listingId: string): Promise<{ favorite: Favorite }> {
+  return apiRequest('/favorites', {
+    method: 'POST',
+    body: JSON.stringify({ listingId }),
+  });
+}
+
+export async function removeFavorite(listingId: string): Promise<void> {
+  return apiRequest(`/favorites/${listingId}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function getFavoriteCounts(): Promise<{ counts: Record<string, number> }> {
+  return apiRequest('/favorites/counts');
+}
+
+export async function getMessageThreads(box?: 'inbox' | 'outbox'): Promise<{ threads: MessageThreadSummary[] }> {
+  return apiRequest(`/messages/threads${box ? `?box=${box}` : ''}`);
+}
+
+export async function getMessageThread(
+  threadId: string,
+  before?: string
+): Promise<{ thread: MessageThreadSummary; messages: Message[]; nextCursor?: string }> {
+  return apiRequest(`/messages/threads/${threadId}${before ? `?before=${encodeURIComponent(before)}` : ''}`);
+}
+
+export async function startMessageThread(params: {
+  listingId: string;
+  body: string;
+  attachments?: MessageAttachment[];
+}): Promise<{ thread: MessageThreadSummary; message: Message }> {
+  return apiRequest('/messages/threads', {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+}
+
+export async function sendMessage(
+  threadId: string,
+  params: { body: string; attachments?: MessageAttachment[] }
+): Promise<{ message: Message }> {
+  return apiRequest(`/messages/threads/${threadId}/messages`, {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+}
+
+export async function markMessageThreadRead(threadId: string): Promise<{ marked: number }> {
+  return apiRequest(`/messages/threads/${threadId}/read`, {
+    method: 'POST',
+  });
+}
+
+export async function getUnreadMessageCount(): Promise<{ unreadCount: number }> {
+  return apiRequest('/messages/unread-count');
+}
+
+export async function getMyOffers(): Promise<{ offers: OfferSummary[] }> {
+  return apiRequest('/offers');
+}
+
+export async function getListingOffers(listingId: string): Promise<{ offers: OfferSummary[] }> {
+  return apiRequest(`/offers/listing/${listingId}`);
+}
+
+export async function makeOffer(params: {
+  listingId: string;
+  amount: number;
+  expiresInHours?: number;
+  contingencies?: OfferContingency[];
+  message?: string;
+}): Promise<{ offer: OfferSummary }> {
+  return apiRequest('/offers', {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+}
+
+export async function respondToOffer(
+  offerId: string,
+  action: 'counter' | 'accept' | 'reject' | 'withdraw' | 'terminate' | 'complete',
+  params: {
+    amount?: number;
+    expiresInHours?: number;
+    contingencies?: OfferContingency[];
+    message?: string;
+    note?: string;
+    markUnderContract?: boolean;
+  } = {}
+): Promise<{ offer: OfferSummary }> {
+  return apiRequest(`/offers/${offerId}/${action}`, {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+}
+
 export async function contactOwner(params: {
   listingId: string;
   senderName: string;
@@ -120,6 +282,10 @@ export async function contactOwner(params: {
   });
 }
 
+export async function getSellerProfile(sellerId: string): Promise<{ profile: SellerProfile }> {
+  return apiRequest(`/sellers/${sellerId}`);
+}
+
 export async function uploadMedia(file: File, listingId: string): Promise<{
   uploadId: string;
   url: string;
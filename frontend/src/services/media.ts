@@ -23,6 +23,11 @@ export interface MediaUploadResponse {
   };
 }
 
+/**
+ * What an upload is for; listing photos count against the plan's photo quota, attachments do not
+ */
+export type MediaUploadPurpose = 'listing' | 'attachment';
+
 export interface UploadProgress {
   uploadId: string;
   progress: number;
@@ -36,7 +41,8 @@ export interface UploadProgress {
 export async function getPresignedUploadUrl(
   fileName: string,
   contentType: string,
-  fileSize: number
+  fileSize: number,
+  purpose: MediaUploadPurpose = 'listing'
 ): Promise<MediaUploadResponse> {
   const token = localStorage.getItem('authToken');
   
@@ -47,7 +53,7 @@ export async function getPresignedUploadUrl(
   formData.append('contentType', contentType);
   formData.append('fileSize', fileSize.toString());
 
-  const response = await fetch(`${config.apiUrl}/media`, {
+  const response = await fetch(`${config.apiUrl}/media?purpose=${purpose}`, {
     method: 'POST',
     headers: {
       ...(token && { Authorization: `Bearer ${token}` }),
@@ -120,7 +126,8 @@ export async function uploadFileToS3(
  */
 export async function uploadMedia(
   file: File,
-  onProgress?: (progress: UploadProgress) => void
+  onProgress?: (progress: UploadProgress) => void,
+  purpose: MediaUploadPurpose = 'listing'
 ): Promise<MediaUploadResponse> {
   try {
     // Step 1: Get presigned upload URL
@@ -133,7 +140,8 @@ export async function uploadMedia(
     const uploadData = await getPresignedUploadUrl(
       file.name,
       file.type,
-      file.size
+      file.size,
+      purpose
     );
 
     // Step 2: Upload file to S3
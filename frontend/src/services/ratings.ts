@@ -31,10 +31,13 @@ export interface PlatformStats {
   conversionRate?: string;
 }
 
-// Get ratings for a specific listing
+// Get ratings for a specific listing (includes the caller's own review when signed in)
 export const getListingRating = async (listingId: string): Promise<ListingRating | null> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/listings/${listingId}/rating`);
+    const token = localStorage.getItem('authToken');
+    const response = await fetch(`${API_BASE_URL}/listings/${listingId}/rating`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    });
     if (!response.ok) {
       if (response.status === 404) return null;
       throw new Error('Failed to fetch rating');
@@ -46,25 +49,49 @@ export const getListingRating = async (listingId: string): Promise<ListingRating
   }
 };
 
-// Create a new review
-export const createReview = async (reviewData: CreateReviewData): Promise<Review> => {
+// Sends an authenticated review request and returns the updated review
+const reviewRequest = async (path: string, method: string, body?: unknown): Promise<Review> => {
   const token = localStorage.getItem('authToken');
-  const response = await fetch(`${API_BASE_URL}/reviews`, {
-    method: 'POST',
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method,
     headers: {
       'Content-Type': 'application/json',
       ...(token && { Authorization: `Bearer ${token}` }),
     },
-    body: JSON.stringify(reviewData),
+    ...(body !== undefined && { body: JSON.stringify(body) }),
   });
 
+  const data = await response.json().catch(() => ({}));
   if (!response.ok) {
-    throw new Error('Failed to create review');
+    throw new Error(data.error?.message || 'Review request failed');
   }
 
-  return await response.json();
+  return data.review;
 };
 
+// Create a new review
+export const createReview = async (reviewData: CreateReviewData): Promise<Review> =>
+  reviewRequest('/reviews', 'POST', reviewData);
+
+// Edit your review
+export const updateReview = async (
+  reviewId: string,
+  updates: Partial<Pick<CreateReviewData, 'rating' | 'comment'>>
+): Promise<Review> => reviewRequest(`/reviews/${reviewId}`, 'PUT', updates);
+
+// Delete your review
+export const deleteReview = async (reviewId: string): Promise<void> => {
+  await reviewRequest(`/reviews/${reviewId}`, 'DELETE');
+};
+
+// Respond to a review of your listing (or edit your response)
+export const respondToReview = async (reviewId: string, comment: string): Promise<Review> =>
+  reviewRequest(`/reviews/${reviewId}/response`, 'PUT', { comment });
+
+// Remove your response to a review
+export const deleteReviewResponse = async (reviewId: string): Promise<Review> =>
+  reviewRequest(`/reviews/${reviewId}/response`, 'DELETE');
+
 // Get platform-wide statistics including real satisfaction scores
 export const getPlatformStats = async (): Promise<PlatformStats> => {
   try {
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Tests for pending listing update diffs
+ *
+ * Tests the word diff of descriptions, photos added and removed, and the
+ * specification table diff.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { diffImages, diffSpecs, diffWords } from '../listingDiff';
+
+describe('listingDiff utilities', () => {
+  it('diffs text word by word', () => {
+    expect(diffWords('Twin engines, low hours, new canvas', 'Twin engines, 300 hours, new canvas and trailer')).toEqual([
+      { type: 'same', text: 'Twin engines, ' },
+      { type: 'removed', text: 'low' },
+      { type: 'added', text: '300' },
+      { type: 'same', text: ' hours, new canvas' },
+      { type: 'added', text: ' and trailer' },
+    ]);
+  });
+
+  it('returns unchanged text as a single run', () => {
+    expect(diffWords('Well kept', 'Well kept')).toEqual([{ type: 'same', text: 'Well kept' }]);
+    expect(diffWords(undefined, 'New')).toEqual([{ type: 'added', text: 'New' }]);
+  });
+
+  it('groups photos into kept, added and removed', () => {
+    expect(diffImages(['a.jpg', 'b.jpg'], ['b.jpg', 'c.jpg'])).toEqual({
+      kept: ['b.jpg'],
+      added: ['c.jpg'],
+      removed: ['a.jpg'],
+    });
+  });
+
+  it('diffs nested specifications row by row', () => {
+    const rows = diffSpecs(
+      { year: 2018, dimensions: { length: 24, beam: 8.5 }, hullMaterial: 'Fiberglass' },
+      { year: 2018, dimensions: { length: 24, beam: 8.6 }, fuelCapacity: 50 }
+    );
+
+    expect(rows).toEqual([
+      { key: 'year', oldValue: '2018', newValue: '2018', change: 'same' },
+      { key: 'dimensions.length', oldValue: '24', newValue: '24', change: 'same' },
+      { key: 'dimensions.beam', oldValue: '8.5', newValue: '8.6', change: 'changed' },
+      { key: 'hullMaterial', oldValue: 'Fiberglass', newValue: undefined, change: 'removed' },
+      { key: 'fuelCapacity', oldValue: undefined, newValue: '50', change: 'added' },
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Tests for search URL parameter utilities
+ *
+ * Tests round-tripping search filters through search page URL parameters
+ * and the filter summary shown for saved searches.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { SearchFilters } from '@harborlist/shared-types';
+import {
+  searchParamsToFilters,
+  searchFiltersToParams,
+  describeSearchFilters,
+} from '../searchParams';
+
+describe('searchParams utilities', () => {
+  it('round-trips filters through URL parameters', () => {
+    const filters: SearchFilters = {
+      query: 'center console',
+      location: { zipCode: '33139', radius: 100 },
+      boatType: ['Center Console', 'Bay Boat'],
+      manufacturer: ['Grady-White'],
+      fuelType: ['gasoline'],
+      priceRange: { min: 20000, max: 80000 },
+      yearRange: { min: 2015, max: undefined },
+      lengthRange: { min: undefined, max: 30 },
+    };
+
+    expect(searchParamsToFilters(searchFiltersToParams(filters))).toEqual(filters);
+  });
+
+  it('defaults the radius for a ZIP code without one', () => {
+    const filters = searchParamsToFilters(new URLSearchParams('zip=33139'));
+
+    expect(filters.location).toEqual({ zipCode: '33139', radius: 50 });
+  });
+
+  it('builds the parameters used by the search page', () => {
+    const params = searchFiltersToParams({ query: 'pontoon', location: { state: 'FL' }, boatType: ['Pontoon'] });
+
+    expect(params.toString()).toBe('q=pontoon&state=FL&type=Pontoon');
+  });
+
+  it('summarizes filters for display', () => {
+    expect(describeSearchFilters({
+      query: 'pontoon',
+      location: { zipCode: '33139', radius: 25 },
+      priceRange: { max: 50000 },
+    })).toBe('"pontoon" · within 25 mi of 33139 · any – $50,000');
+    expect(describeSearchFilters({})).toBe('All boats');
+  });
+});
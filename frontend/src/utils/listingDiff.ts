@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Diffs between a live listing and a pending update to it.
+ *
+ * Used by moderation review to show what an owner's edit changes: a word
+ * diff for text, photos added and removed, and a row-by-row diff of
+ * specification tables.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+export interface TextDiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ImageDiff {
+  kept: string[];
+  added: string[];
+  removed: string[];
+}
+
+export interface SpecDiffRow {
+  key: string;
+  oldValue?: string;
+  newValue?: string;
+  change: 'same' | 'added' | 'removed' | 'changed';
+}
+
+/**
+ * Largest word grid diffed word by word; longer texts are shown as replaced
+ */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Word diff of two texts
+ *
+ * @param oldText - Text before the edit
+ * @param newText - Text after the edit
+ * @returns Runs of unchanged, removed and added text, in reading order
+ */
+export function diffWords(oldText: string = '', newText: string = ''): TextDiffPart[] {
+  const oldWords = oldText.split(/(\s+)/).filter(Boolean);
+  const newWords = newText.split(/(\s+)/).filter(Boolean);
+
+  let prefix = 0;
+  while (prefix < oldWords.length && prefix < newWords.length && oldWords[prefix] === newWords[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldWords.length - prefix && suffix < newWords.length - prefix &&
+    oldWords[oldWords.length - 1 - suffix] === newWords[newWords.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldWords.slice(prefix, oldWords.length - suffix);
+  const b = newWords.slice(prefix, newWords.length - suffix);
+  const parts: TextDiffPart[] = [];
+  const push = (type: TextDiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else if (text) {
+      parts.push({ type, text });
+    }
+  };
+
+  push('same', oldWords.slice(0, prefix).join(''));
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    push('removed', a.join(''));
+    push('added', b.join(''));
+  } else {
+    // Longest common subsequence of the changed middle, filled from the end
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        push('same', a[i++]);
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        push('removed', a[i++]);
+      } else {
+        push('added', b[j++]);
+      }
+    }
+  }
+
+  push('same', oldWords.slice(oldWords.length - suffix).join(''));
+  return parts;
+}
+
+/**
+ * Photos kept, added and removed by an edit
+ *
+ * @param oldImages - Photo URLs before the edit
+ * @param newImages - Photo URLs after the edit
+ * @returns Photos in each group, in listing order
+ */
+export function diffImages(oldImages: string[] = [], newImages: string[] = []): ImageDiff {
+  return {
+    kept: newImages.filter(image => oldImages.includes(image)),
+    added: newImages.filter(image => !oldImages.includes(image)),
+    removed: oldImages.filter(image => !newImages.includes(image)),
+  };
+}
+
+function formatSpecValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(formatSpecValue).join(', ');
+  }
+  if (value && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Flattens nested specifications into "dimensions.length" style rows
+ */
+function flattenSpecs(specs: Record<string, any> | undefined, path: string = ''): Record<string, string> {
+  const rows: Record<string, string> = {};
+  Object.entries(specs || {}).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') {
+      return;
+    }
+    const rowKey = path ? `${path}.${key}` : key;
+    if (typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(rows, flattenSpecs(value, rowKey));
+    } else {
+      rows[rowKey] = formatSpecValue(value);
+    }
+  });
+  return rows;
+}
+
+/**
+ * Row-by-row diff of two specification tables
+ *
+ * @param oldSpecs - Specifications before the edit
+ * @param newSpecs - Specifications after the edit
+ * @returns One row per specification, old rows first
+ */
+export function diffSpecs(oldSpecs?: Record<string, any>, newSpecs?: Record<string, any>): SpecDiffRow[] {
+  const oldRows = flattenSpecs(oldSpecs);
+  const newRows = flattenSpecs(newSpecs);
+  const keys = [...new Set([...Object.keys(oldRows), ...Object.keys(newRows)])];
+
+  return keys.map(key => {
+    const oldValue = oldRows[key];
+    const newValue = newRows[key];
+    const change: SpecDiffRow['change'] = oldValue === undefined ? 'added'
+      : newValue === undefined ? 'removed'
+      : oldValue === newValue ? 'same' : 'changed';
+    return { key, oldValue, newValue, change };
+  });
+}
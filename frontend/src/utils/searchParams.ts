@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Conversion between search filters and search page URL parameters.
+ *
+ * Shared by the search page and saved searches so a saved search opens the
+ * same URL the search page would build for it. The backend mirrors this
+ * format when linking to searches from alert emails.
+ *
+ * @author HarborList Development Team
+ * @version 1.0.0
+ */
+
+import { SearchFilters } from '@harborlist/shared-types';
+
+/**
+ * Reads search filters from search page URL parameters
+ *
+ * @param searchParams - Search page URL parameters
+ * @returns Filters described by the parameters (sort is handled separately)
+ */
+export function searchParamsToFilters(searchParams: URLSearchParams): SearchFilters {
+  const filters: SearchFilters = {};
+
+  if (searchParams.get('q')) {
+    filters.query = searchParams.get('q') || '';
+  }
+  if (searchParams.get('state')) {
+    filters.location = { state: searchParams.get('state') || '' };
+  }
+  if (searchParams.get('zip')) {
+    filters.location = {
+      ...filters.location,
+      zipCode: searchParams.get('zip') || '',
+      radius: Number(searchParams.get('radius')) || 50
+    };
+  }
+  if (searchParams.getAll('type').length > 0) {
+    filters.boatType = searchParams.getAll('type');
+  }
+  if (searchParams.getAll('make').length > 0) {
+    filters.manufacturer = searchParams.getAll('make');
+  }
+  if (searchParams.getAll('engines').length > 0) {
+    filters.engineConfiguration = searchParams.getAll('engines') as SearchFilters['engineConfiguration'];
+  }
+  if (searchParams.getAll('fuel').length > 0) {
+    filters.fuelType = searchParams.getAll('fuel') as SearchFilters['fuelType'];
+  }
+  if (searchParams.get('minPrice')) {
+    filters.priceRange = {
+      ...filters.priceRange,
+      min: Number(searchParams.get('minPrice'))
+    };
+  }
+  if (searchParams.get('maxPrice')) {
+    filters.priceRange = {
+      ...filters.priceRange,
+      max: Number(searchParams.get('maxPrice'))
+    };
+  }
+  if (searchParams.get('minYear') || searchParams.get('maxYear')) {
+    filters.yearRange = {
+      min: searchParams.get('minYear') ? Number(searchParams.get('minYear')) : undefined,
+      max: searchParams.get('maxYear') ? Number(searchParams.get('maxYear')) : undefined
+    };
+  }
+  if (searchParams.get('minLength') || searchParams.get('maxLength')) {
+    filters.lengthRange = {
+      min: searchParams.get('minLength') ? Number(searchParams.get('minLength')) : undefined,
+      max: searchParams.get('maxLength') ? Number(searchParams.get('maxLength')) : undefined
+    };
+  }
+
+  return filters;
+}
+
+/**
+ * Builds search page URL parameters for search filters
+ *
+ * @param filters - Search filters
+ * @returns URL parameters for the search page (without sort)
+ *
+ * @example
+ * ```typescript
+ * navigate(`/search?${searchFiltersToParams({ query: 'pontoon' })}`);
+ * ```
+ */
+export function searchFiltersToParams(filters: SearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.query) params.set('q', filters.query);
+  if (filters.location?.state) params.set('state', filters.location.state);
+  if (filters.location?.zipCode) {
+    params.set('zip', filters.location.zipCode);
+    if (filters.location.radius) params.set('radius', filters.location.radius.toString());
+  }
+  filters.boatType?.forEach(type => params.append('type', type));
+  filters.manufacturer?.forEach(make => params.append('make', make));
+  filters.engineConfiguration?.forEach(config => params.append('engines', config));
+  filters.fuelType?.forEach(fuel => params.append('fuel', fuel));
+  if (filters.priceRange?.min) params.set('minPrice', filters.priceRange.min.toString());
+  if (filters.priceRange?.max) params.set('maxPrice', filters.priceRange.max.toString());
+  if (filters.yearRange?.min) params.set('minYear', filters.yearRange.min.toString());
+  if (filters.yearRange?.max) params.set('maxYear', filters.yearRange.max.toString());
+  if (filters.lengthRange?.min) params.set('minLength', filters.lengthRange.min.toString());
+  if (filters.lengthRange?.max) params.set('maxLength', filters.lengthRange.max.toString());
+
+  return params;
+}
+
+/**
+ * Summarizes search filters for display, e.g. in a saved search list
+ *
+ * @param filters - Search filters
+ * @returns Short human-readable description
+ */
+export function describeSearchFilters(filters: SearchFilters): string {
+  const parts: string[] = [];
+
+  if (filters.query) parts.push(`"${filters.query}"`);
+  if (filters.boatType?.length) parts.push(filters.boatType.join(', '));
+  if (filters.manufacturer?.length) parts.push(filters.manufacturer.join(', '));
+  if (filters.location?.zipCode) {
+    parts.push(`within ${filters.location.radius || 50} mi of ${filters.location.zipCode}`);
+  } else if (filters.location?.state) {
+    parts.push(filters.location.city ? `${filters.location.city}, ${filters.location.state}` : filters.location.state);
+  }
+  if (filters.priceRange?.min || filters.priceRange?.max) {
+    const min = filters.priceRange.min ? `$${filters.priceRange.min.toLocaleString()}` : 'any';
+    const max = filters.priceRange.max ? `$${filters.priceRange.max.toLocaleString()}` : 'any';
+    parts.push(`${min} – ${max}`);
+  }
+  if (filters.yearRange?.min || filters.yearRange?.max) {
+    parts.push(`${filters.yearRange.min || 'any'} – ${filters.yearRange.max || 'any'}`);
+  }
+  if (filters.lengthRange?.min || filters.lengthRange?.max) {
+    parts.push(`${filters.lengthRange.min || 'any'} – ${filters.lengthRange.max || 'any'} ft`);
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : 'All boats';
+}
@@ -51,6 +51,10 @@ import * as cloudwatchActions from 'aws-cdk-lib/aws-cloudwatch-actions';
 import * as sns from 'aws-cdk-lib/aws-sns';
 import * as subscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as ses from 'aws-cdk-lib/aws-ses';
+import * as sesActions from 'aws-cdk-lib/aws-ses-actions';
 import { Construct } from 'constructs';
 // Cloudflare security construct removed - using standard security instead
 import { StandardSecurityConstruct } from './standard-security-construct';
@@ -326,6 +330,38 @@ export class HarborListStack extends cdk.Stack {
       sortKey: { name: 'submittedAt', type: dynamodb.AttributeType.STRING },
     });
 
+    // Listing Report Limits Table - per-reporter and per-IP report counters
+    const reportLimitsTable = new dynamodb.Table(this, 'ReportLimitsTable', {
+      tableName: 'harborlist-report-limits',
+      partitionKey: { name: 'limitKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'expiresAt',
+    });
+
+    // Duplicate Detection Tables - photo hashes, listing fingerprints and their LSH buckets
+    const imageHashesTable = new dynamodb.Table(this, 'ImageHashesTable', {
+      tableName: 'harborlist-image-hashes',
+      partitionKey: { name: 'imageKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    const listingFingerprintsTable = new dynamodb.Table(this, 'ListingFingerprintsTable', {
+      tableName: 'harborlist-listing-fingerprints',
+      partitionKey: { name: 'listingId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    const fingerprintBucketsTable = new dynamodb.Table(this, 'FingerprintBucketsTable', {
+      tableName: 'harborlist-fingerprint-buckets',
+      partitionKey: { name: 'bucket', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'listingId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
     // User Groups Table for enhanced user management
     const userGroupsTable = new dynamodb.Table(this, 'UserGroupsTable', {
       tableName: 'harborlist-user-groups',
@@ -433,6 +469,336 @@ export class HarborListStack extends cdk.Stack {
       sortKey: { name: 'status', type: dynamodb.AttributeType.STRING },
     });
 
+    // Search Index Table - analyzed listing snapshots for the search service
+    const searchIndexTable = new dynamodb.Table(this, 'SearchIndexTable', {
+      tableName: 'harborlist-search-index',
+      partitionKey: { name: 'listingId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'ttl', // Expire deletion tombstones
+    });
+
+    // GSI for pulling index changes since a container's last sync
+    searchIndexTable.addGlobalSecondaryIndex({
+      indexName: 'IndexedAtIndex',
+      partitionKey: { name: 'docType', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'indexedAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // Favorites Table - listings on each user's watchlist
+    const favoritesTable = new dynamodb.Table(this, 'FavoritesTable', {
+      tableName: 'harborlist-favorites',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'listingId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // GSI for finding everyone watching a listing
+    favoritesTable.addGlobalSecondaryIndex({
+      indexName: 'listing-index',
+      partitionKey: { name: 'listingId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // Message Threads Table - one buyer–seller conversation per listing and buyer
+    const messageThreadsTable = new dynamodb.Table(this, 'MessageThreadsTable', {
+      tableName: 'harborlist-message-threads',
+      partitionKey: { name: 'threadId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // GSIs for the seller inbox and buyer outbox, most recently active first
+    messageThreadsTable.addGlobalSecondaryIndex({
+      indexName: 'seller-index',
+      partitionKey: { name: 'sellerId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'lastMessageAt', type: dynamodb.AttributeType.NUMBER },
+    });
+    messageThreadsTable.addGlobalSecondaryIndex({
+      indexName: 'buyer-index',
+      partitionKey: { name: 'buyerId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'lastMessageAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // Messages Table - messages of each thread in chronological order
+    const messagesTable = new dynamodb.Table(this, 'MessagesTable', {
+      tableName: 'harborlist-messages',
+      partitionKey: { name: 'threadId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'messageId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Offers Table - buyer offers on listings with their transition history
+    const offersTable = new dynamodb.Table(this, 'OffersTable', {
+      tableName: 'harborlist-offers',
+      partitionKey: { name: 'offerId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // GSIs for offers on a listing (seller) and by buyer, newest first
+    offersTable.addGlobalSecondaryIndex({
+      indexName: 'listing-index',
+      partitionKey: { name: 'listingId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.NUMBER },
+    });
+    offersTable.addGlobalSecondaryIndex({
+      indexName: 'buyer-index',
+      partitionKey: { name: 'buyerId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // GSI for the expiry sweep over open offers
+    offersTable.addGlobalSecondaryIndex({
+      indexName: 'status-index',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'expiresAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // Reviews Table - one review per user per listing, with seller responses
+    const reviewsTable = new dynamodb.Table(this, 'ReviewsTable', {
+      tableName: 'harborlist-reviews',
+      partitionKey: { name: 'reviewId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // GSI for a listing's reviews, newest first
+    reviewsTable.addGlobalSecondaryIndex({
+      indexName: 'listing-index',
+      partitionKey: { name: 'listingId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // GSI for the review moderation queue
+    reviewsTable.addGlobalSecondaryIndex({
+      indexName: 'moderation-index',
+      partitionKey: { name: 'moderationStatus', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // Jobs Table - persisted scheduled jobs (dunning, retries, grace periods, renewals)
+    const jobsTable = new dynamodb.Table(this, 'JobsTable', {
+      tableName: 'harborlist-jobs',
+      partitionKey: { name: 'jobId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'expiresAt', // Completed jobs are cleaned up after 30 days
+    });
+
+    // GSI for the scheduler tick (due jobs, expired leases) and dead-letter inspection
+    jobsTable.addGlobalSecondaryIndex({
+      indexName: 'status-index',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'runAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // Payment Failures Table - dunning and retry state per failed payment
+    const paymentFailuresTable = new dynamodb.Table(this, 'PaymentFailuresTable', {
+      tableName: 'harborlist-payment-failures',
+      partitionKey: { name: 'failureId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: true,
+    });
+
+    // Disputes Table - dispute cases with their workflow and evidence
+    const disputesTable = new dynamodb.Table(this, 'DisputesTable', {
+      tableName: 'harborlist-disputes',
+      partitionKey: { name: 'disputeId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: true,
+    });
+
+    // GSI for a customer's refund requests and disputes
+    disputesTable.addGlobalSecondaryIndex({
+      indexName: 'user-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'disputeDate', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Invoices Table - issued invoices plus the invoice number counter
+    const invoicesTable = new dynamodb.Table(this, 'InvoicesTable', {
+      tableName: 'harborlist-invoices',
+      partitionKey: { name: 'invoiceId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: true,
+    });
+
+    // GSI for a user's invoice history
+    invoicesTable.addGlobalSecondaryIndex({
+      indexName: 'user-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // GSI for admin listing by status
+    invoicesTable.addGlobalSecondaryIndex({
+      indexName: 'status-index',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // Coupons Table - subscription coupons keyed by code, with their redemption counts
+    const couponsTable = new dynamodb.Table(this, 'CouponsTable', {
+      tableName: 'harborlist-coupons',
+      partitionKey: { name: 'code', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: true,
+    });
+
+    // Coupon Redemptions Table - who redeemed which coupon and the discount given
+    const couponRedemptionsTable = new dynamodb.Table(this, 'CouponRedemptionsTable', {
+      tableName: 'harborlist-coupon-redemptions',
+      partitionKey: { name: 'redemptionId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: true,
+    });
+
+    // GSI for a coupon's redemptions
+    couponRedemptionsTable.addGlobalSecondaryIndex({
+      indexName: 'code-index',
+      partitionKey: { name: 'code', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'redeemedAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // GSI for a customer's redemptions
+    couponRedemptionsTable.addGlobalSecondaryIndex({
+      indexName: 'user-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'redeemedAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // Ledger Entries Table - balanced journal entries, keyed by their source
+    const ledgerEntriesTable = new dynamodb.Table(this, 'LedgerEntriesTable', {
+      tableName: 'harborlist-ledger-entries',
+      partitionKey: { name: 'entryId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: true,
+    });
+
+    // GSI for the entries posted in a month
+    ledgerEntriesTable.addGlobalSecondaryIndex({
+      indexName: 'period-index',
+      partitionKey: { name: 'period', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'postedAt', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Ledger Periods Table - one item per month, with closing balances once closed
+    const ledgerPeriodsTable = new dynamodb.Table(this, 'LedgerPeriodsTable', {
+      tableName: 'harborlist-ledger-periods',
+      partitionKey: { name: 'period', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: true,
+    });
+
+    // Webhook Events Table - processed processor webhooks, for skipping redeliveries
+    const webhookEventsTable = new dynamodb.Table(this, 'WebhookEventsTable', {
+      tableName: 'harborlist-webhook-events',
+      partitionKey: { name: 'eventId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'processorType', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'expiresAt', // Records expire after 30 days
+    });
+
+    // Commission Rules Table - flat and tiered commission rules for sales reps and dealers
+    const commissionRulesTable = new dynamodb.Table(this, 'CommissionRulesTable', {
+      tableName: 'harborlist-commission-rules',
+      partitionKey: { name: 'ruleId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: true,
+    });
+
+    // Commission Statements Table - one statement per payee per month
+    const commissionStatementsTable = new dynamodb.Table(this, 'CommissionStatementsTable', {
+      tableName: 'harborlist-commission-statements',
+      partitionKey: { name: 'statementId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: true,
+    });
+
+    // GSI for the statements of a month
+    commissionStatementsTable.addGlobalSecondaryIndex({
+      indexName: 'period-index',
+      partitionKey: { name: 'period', type: dynamodb.AttributeType.STRING },
+    });
+
+    // GSI for a payee's statements, newest month first
+    commissionStatementsTable.addGlobalSecondaryIndex({
+      indexName: 'payee-index',
+      partitionKey: { name: 'payeeId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'period', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Payout Batches Table - commission payouts awaiting approval, held or released
+    const payoutBatchesTable = new dynamodb.Table(this, 'PayoutBatchesTable', {
+      tableName: 'harborlist-payout-batches',
+      partitionKey: { name: 'batchId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: true,
+    });
+
+    // Usage Table - metered usage per user and billing period (listings, photos, featured days, boosts)
+    const usageTable = new dynamodb.Table(this, 'UsageTable', {
+      tableName: 'harborlist-usage',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'periodStart', type: dynamodb.AttributeType.NUMBER },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: true,
+    });
+
+    // Promotions Table - paid featured and boosted listing placements
+    const promotionsTable = new dynamodb.Table(this, 'PromotionsTable', {
+      tableName: 'harborlist-promotions',
+      partitionKey: { name: 'promotionId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: true,
+    });
+
+    promotionsTable.addGlobalSecondaryIndex({
+      indexName: 'seller-index',
+      partitionKey: { name: 'sellerId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    promotionsTable.addGlobalSecondaryIndex({
+      indexName: 'status-index',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'endsAt', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // Promotion Stats Table - daily impressions and clicks per promotion
+    const promotionStatsTable = new dynamodb.Table(this, 'PromotionStatsTable', {
+      tableName: 'harborlist-promotion-stats',
+      partitionKey: { name: 'promotionId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'day', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Saved Searches Table - named search filters per user with alert bookkeeping
+    const savedSearchesTable = new dynamodb.Table(this, 'SavedSearchesTable', {
+      tableName: 'harborlist-saved-searches',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'searchId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
     // S3 Buckets
     const mediaBucket = new s3.Bucket(this, 'MediaBucket', {
       bucketName: `harborlist-media-${this.account}`,
@@ -444,6 +810,13 @@ export class HarborListStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.DESTROY,
     });
 
+    // Inbound replies to masked message relay addresses, stored by SES
+    const inboundEmailBucket = new s3.Bucket(this, 'InboundEmailBucket', {
+      bucketName: `harborlist-inbound-email-${this.account}`,
+      lifecycleRules: [{ expiration: cdk.Duration.days(30) }],
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
     // Frontend S3 Bucket configured for website hosting with custom domain
     // Using S3 website endpoint + Cloudflare Flexible SSL for user-facing HTTPS
     const frontendBucketName = domainName || `harborlist-frontend-${this.account}`;
@@ -533,7 +906,17 @@ export class HarborListStack extends cdk.Stack {
         USERS_TABLE: usersTable.tableName,
         ENGINES_TABLE: enginesTable.tableName,
         MODERATION_QUEUE_TABLE: moderationQueueTable.tableName,
+        JOBS_TABLE: jobsTable.tableName,
         NOTIFICATIONS_TABLE: notificationsTable.tableName,
+        SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+        FAVORITES_TABLE: favoritesTable.tableName,
+        BILLING_ACCOUNTS_TABLE: billingAccountsTable.tableName,
+        USAGE_TABLE: usageTable.tableName,
+        REPORT_LIMITS_TABLE: reportLimitsTable.tableName,
+        IMAGE_HASHES_TABLE: imageHashesTable.tableName,
+        LISTING_FINGERPRINTS_TABLE: listingFingerprintsTable.tableName,
+        FINGERPRINT_BUCKETS_TABLE: fingerprintBucketsTable.tableName,
+        PLATFORM_SETTINGS_TABLE: platformSettingsTable.tableName,
         JWT_SECRET: jwtConfig.JWT_SECRET,
         JWT_SECRET_ARN: jwtConfig.JWT_SECRET_ARN,
         ENVIRONMENT: environment,
@@ -548,12 +931,127 @@ export class HarborListStack extends cdk.Stack {
       environment: {
         LISTINGS_TABLE: listingsTable.tableName,
         USERS_TABLE: usersTable.tableName,
+        SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+        PROMOTIONS_TABLE: promotionsTable.tableName,
+        BILLING_ACCOUNTS_TABLE: billingAccountsTable.tableName,
+        USAGE_TABLE: usageTable.tableName,
         ENVIRONMENT: environment,
         DEPLOYMENT_TARGET: 'aws',
         // OPENSEARCH_ENDPOINT: searchCollection.attrCollectionEndpoint, // Commented out
       },
     });
 
+    const favoritesFunction = new lambda.Function(this, 'FavoritesFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'favorites/index.handler',
+      code: lambda.Code.fromAsset('../backend/dist/packages/favorites.zip'),
+      environment: {
+        FAVORITES_TABLE: favoritesTable.tableName,
+        LISTINGS_TABLE: listingsTable.tableName,
+        ENVIRONMENT: environment,
+        DEPLOYMENT_TARGET: 'aws',
+      },
+    });
+
+    // Saved search API and the scheduled new-match alert run share one package
+    const savedSearchFunction = new lambda.Function(this, 'SavedSearchFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'saved-search/index.handler',
+      code: lambda.Code.fromAsset('../backend/dist/packages/saved-search.zip'),
+      environment: {
+        SAVED_SEARCHES_TABLE: savedSearchesTable.tableName,
+        ENVIRONMENT: environment,
+        DEPLOYMENT_TARGET: 'aws',
+      },
+    });
+
+    const savedSearchAlertsFunction = new lambda.Function(this, 'SavedSearchAlertsFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'saved-search/index.scheduledHandler',
+      code: lambda.Code.fromAsset('../backend/dist/packages/saved-search.zip'),
+      timeout: cdk.Duration.minutes(5),
+      memorySize: 512,
+      environment: {
+        SAVED_SEARCHES_TABLE: savedSearchesTable.tableName,
+        LISTINGS_TABLE: listingsTable.tableName,
+        USERS_TABLE: usersTable.tableName,
+        SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+        NOTIFICATIONS_TABLE: notificationsTable.tableName,
+        ENVIRONMENT: environment,
+        DEPLOYMENT_TARGET: 'aws',
+      },
+    });
+
+    // Check saved searches for newly approved listings every 15 minutes
+    new events.Rule(this, 'SavedSearchAlertsSchedule', {
+      schedule: events.Schedule.rate(cdk.Duration.minutes(15)),
+      targets: [new targets.LambdaFunction(savedSearchAlertsFunction)],
+    });
+
+    const offersEnvironment = {
+      OFFERS_TABLE: offersTable.tableName,
+      LISTINGS_TABLE: listingsTable.tableName,
+      USERS_TABLE: usersTable.tableName,
+      SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+      FAVORITES_TABLE: favoritesTable.tableName,
+      NOTIFICATIONS_TABLE: notificationsTable.tableName,
+      ENVIRONMENT: environment,
+      DEPLOYMENT_TARGET: 'aws',
+    };
+
+    // Offers API and the scheduled expiry sweep share one package
+    const offersFunction = new lambda.Function(this, 'OffersFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'offers/index.handler',
+      code: lambda.Code.fromAsset('../backend/dist/packages/offers.zip'),
+      environment: offersEnvironment,
+    });
+
+    const offerExpiryFunction = new lambda.Function(this, 'OfferExpiryFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'offers/index.scheduledHandler',
+      code: lambda.Code.fromAsset('../backend/dist/packages/offers.zip'),
+      timeout: cdk.Duration.minutes(5),
+      environment: offersEnvironment,
+    });
+
+    // Expire unanswered offers every 15 minutes (offers are also expired when read)
+    new events.Rule(this, 'OfferExpirySchedule', {
+      schedule: events.Schedule.rate(cdk.Duration.minutes(15)),
+      targets: [new targets.LambdaFunction(offerExpiryFunction)],
+    });
+
+    const reviewsFunction = new lambda.Function(this, 'ReviewsFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'reviews/index.handler',
+      code: lambda.Code.fromAsset('../backend/dist/packages/reviews.zip'),
+      environment: {
+        REVIEWS_TABLE: reviewsTable.tableName,
+        LISTINGS_TABLE: listingsTable.tableName,
+        USERS_TABLE: usersTable.tableName,
+        MESSAGE_THREADS_TABLE: messageThreadsTable.tableName,
+        OFFERS_TABLE: offersTable.tableName,
+        NOTIFICATIONS_TABLE: notificationsTable.tableName,
+        PLATFORM_SETTINGS_TABLE: platformSettingsTable.tableName,
+        ENVIRONMENT: environment,
+        DEPLOYMENT_TARGET: 'aws',
+      },
+    });
+
+    const sellersFunction = new lambda.Function(this, 'SellersFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'sellers/index.handler',
+      code: lambda.Code.fromAsset('../backend/dist/packages/sellers.zip'),
+      environment: {
+        USERS_TABLE: usersTable.tableName,
+        LISTINGS_TABLE: listingsTable.tableName,
+        REVIEWS_TABLE: reviewsTable.tableName,
+        MESSAGE_THREADS_TABLE: messageThreadsTable.tableName,
+        ENVIRONMENT: environment,
+        DEPLOYMENT_TARGET: 'aws',
+      },
+    });
+
     const mediaFunction = new lambda.Function(this, 'MediaFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
       handler: 'media/index.handler',
@@ -561,11 +1059,71 @@ export class HarborListStack extends cdk.Stack {
       environment: {
         MEDIA_BUCKET: mediaBucket.bucketName,
         THUMBNAILS_BUCKET: mediaBucket.bucketName, // Using same bucket for thumbnails
+        USERS_TABLE: usersTable.tableName,
+        BILLING_ACCOUNTS_TABLE: billingAccountsTable.tableName,
+        USAGE_TABLE: usageTable.tableName,
+        IMAGE_HASHES_TABLE: imageHashesTable.tableName,
         ENVIRONMENT: environment,
         DEPLOYMENT_TARGET: 'aws',
       },
     });
 
+    // Signs masked reply-to addresses so they cannot be forged for other threads
+    const messageRelaySecret = new secretsmanager.Secret(this, 'MessageRelaySecret', {
+      secretName: `harborlist-message-relay-${environment}`,
+      description: 'Signing key for masked message relay email addresses',
+      generateSecretString: {
+        passwordLength: 32,
+        excludePunctuation: true,
+      },
+    });
+    const messageRelayDomain = domainName ? `reply.${domainName}` : 'reply.harborlist.com';
+
+    const messagingEnvironment = {
+      MESSAGE_THREADS_TABLE: messageThreadsTable.tableName,
+      MESSAGES_TABLE: messagesTable.tableName,
+      LISTINGS_TABLE: listingsTable.tableName,
+      USERS_TABLE: usersTable.tableName,
+      NOTIFICATIONS_TABLE: notificationsTable.tableName,
+      MESSAGE_RELAY_DOMAIN: messageRelayDomain,
+      MESSAGE_RELAY_SECRET: messageRelaySecret.secretValue.unsafeUnwrap(),
+      INBOUND_EMAIL_BUCKET: inboundEmailBucket.bucketName,
+      INBOUND_EMAIL_PREFIX: 'messages/',
+      FRONTEND_URL: domainName ? `https://${domainName}` : 'https://harborlist.com',
+      ENVIRONMENT: environment,
+      DEPLOYMENT_TARGET: 'aws',
+    };
+
+    // Messaging API and the inbound relay email handler share one package
+    const messagingFunction = new lambda.Function(this, 'MessagingFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'messaging/index.handler',
+      code: lambda.Code.fromAsset('../backend/dist/packages/messaging.zip'),
+      environment: messagingEnvironment,
+    });
+
+    const messagingInboundEmailFunction = new lambda.Function(this, 'MessagingInboundEmailFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'messaging/index.inboundEmailHandler',
+      code: lambda.Code.fromAsset('../backend/dist/packages/messaging.zip'),
+      timeout: cdk.Duration.seconds(30),
+      environment: messagingEnvironment,
+    });
+
+    // Store replies to relay addresses, then post them into their threads
+    if (domainName) {
+      new ses.ReceiptRuleSet(this, 'MessageRelayRuleSet', {
+        rules: [{
+          recipients: [messageRelayDomain],
+          scanEnabled: true,
+          actions: [
+            new sesActions.S3({ bucket: inboundEmailBucket, objectKeyPrefix: 'messages/' }),
+            new sesActions.Lambda({ function: messagingInboundEmailFunction }),
+          ],
+        }],
+      });
+    }
+
     const emailFunction = new lambda.Function(this, 'EmailFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
       handler: 'email/index.handler',
@@ -583,7 +1141,7 @@ export class HarborListStack extends cdk.Stack {
       environment: {
         LISTINGS_TABLE: listingsTable.tableName,
         USERS_TABLE: usersTable.tableName,
-        REVIEWS_TABLE: 'harborlist-reviews', // This table will be created later when we add reviews
+        REVIEWS_TABLE: reviewsTable.tableName,
         ENVIRONMENT: environment,
         DEPLOYMENT_TARGET: 'aws',
       },
@@ -612,6 +1170,11 @@ export class HarborListStack extends cdk.Stack {
         SUPPORT_TICKETS_TABLE: supportTicketsTable.tableName,
         ANNOUNCEMENTS_TABLE: announcementsTable.tableName,
         NOTIFICATIONS_TABLE: notificationsTable.tableName,
+        SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+        FAVORITES_TABLE: favoritesTable.tableName,
+        IMAGE_HASHES_TABLE: imageHashesTable.tableName,
+        LISTING_FINGERPRINTS_TABLE: listingFingerprintsTable.tableName,
+        FINGERPRINT_BUCKETS_TABLE: fingerprintBucketsTable.tableName,
         JWT_SECRET: jwtConfig.JWT_SECRET,
         JWT_SECRET_ARN: jwtConfig.JWT_SECRET_ARN,
         ENVIRONMENT: environment,
@@ -635,6 +1198,23 @@ export class HarborListStack extends cdk.Stack {
         USERS_TABLE: usersTable.tableName,
         BILLING_ACCOUNTS_TABLE: billingAccountsTable.tableName,
         TRANSACTIONS_TABLE: transactionsTable.tableName,
+        PAYMENT_FAILURES_TABLE: paymentFailuresTable.tableName,
+        DISPUTES_TABLE: disputesTable.tableName,
+        JOBS_TABLE: jobsTable.tableName,
+        INVOICES_TABLE: invoicesTable.tableName,
+        COUPONS_TABLE: couponsTable.tableName,
+        COUPON_REDEMPTIONS_TABLE: couponRedemptionsTable.tableName,
+        LEDGER_ENTRIES_TABLE: ledgerEntriesTable.tableName,
+        LEDGER_PERIODS_TABLE: ledgerPeriodsTable.tableName,
+        WEBHOOK_EVENTS_TABLE: webhookEventsTable.tableName,
+        COMMISSION_RULES_TABLE: commissionRulesTable.tableName,
+        COMMISSION_STATEMENTS_TABLE: commissionStatementsTable.tableName,
+        PAYOUT_BATCHES_TABLE: payoutBatchesTable.tableName,
+        NOTIFICATIONS_TABLE: notificationsTable.tableName,
+        USAGE_TABLE: usageTable.tableName,
+        LISTINGS_TABLE: listingsTable.tableName,
+        PROMOTIONS_TABLE: promotionsTable.tableName,
+        PROMOTION_STATS_TABLE: promotionStatsTable.tableName,
         JWT_SECRET: jwtConfig.JWT_SECRET,
         JWT_SECRET_ARN: jwtConfig.JWT_SECRET_ARN,
         ENVIRONMENT: environment,
@@ -650,6 +1230,44 @@ export class HarborListStack extends cdk.Stack {
       },
     });
 
+    // Scheduler tick: runs persisted jobs (dunning, payment retries, grace periods, renewals)
+    const jobsFunction = new lambda.Function(this, 'JobsFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'jobs/index.scheduledHandler',
+      code: lambda.Code.fromAsset('../backend/dist/packages/jobs.zip'),
+      timeout: cdk.Duration.minutes(5),
+      memorySize: 512,
+      environment: {
+        JOBS_TABLE: jobsTable.tableName,
+        USERS_TABLE: usersTable.tableName,
+        BILLING_ACCOUNTS_TABLE: billingAccountsTable.tableName,
+        TRANSACTIONS_TABLE: transactionsTable.tableName,
+        PAYMENT_FAILURES_TABLE: paymentFailuresTable.tableName,
+        INVOICES_TABLE: invoicesTable.tableName,
+        COUPONS_TABLE: couponsTable.tableName,
+        COUPON_REDEMPTIONS_TABLE: couponRedemptionsTable.tableName,
+        LEDGER_ENTRIES_TABLE: ledgerEntriesTable.tableName,
+        LEDGER_PERIODS_TABLE: ledgerPeriodsTable.tableName,
+        DISPUTES_TABLE: disputesTable.tableName,
+        NOTIFICATIONS_TABLE: notificationsTable.tableName,
+        USAGE_TABLE: usageTable.tableName,
+        MODERATION_QUEUE_TABLE: moderationQueueTable.tableName,
+        PLATFORM_SETTINGS_TABLE: platformSettingsTable.tableName,
+        ENVIRONMENT: environment,
+        DEPLOYMENT_TARGET: 'aws',
+        STRIPE_SECRET_KEY: '', // Will be set via environment variables or secrets
+        PAYPAL_CLIENT_ID: '', // Will be set via environment variables or secrets
+        PAYPAL_CLIENT_SECRET: '', // Will be set via environment variables or secrets
+        PAYMENT_PROCESSOR: 'stripe', // Default processor
+      },
+    });
+
+    // Run due jobs every minute
+    new events.Rule(this, 'JobsSchedule', {
+      schedule: events.Schedule.rate(cdk.Duration.minutes(1)),
+      targets: [new targets.LambdaFunction(jobsFunction)],
+    });
+
     // Finance Service Lambda Function
     const financeFunction = new lambda.Function(this, 'FinanceFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
@@ -675,6 +1293,12 @@ export class HarborListStack extends cdk.Stack {
     listingsTable.grantReadWriteData(listingFunction);
     usersTable.grantReadWriteData(listingFunction);
     listingsTable.grantReadData(searchFunction); // Grant read access for search
+    searchIndexTable.grantReadWriteData(searchFunction); // Bootstraps the index on first use
+    searchIndexTable.grantReadWriteData(listingFunction); // Incremental index updates
+    promotionsTable.grantReadData(searchFunction); // Featured slots and boosts
+    billingAccountsTable.grantReadData(searchFunction); // Billing period for boosted search usage
+    usersTable.grantReadData(searchFunction); // Owner details and tier limits
+    usageTable.grantReadWriteData(searchFunction); // Boosted search usage
 
     // Grant additional scan permission for search function
     searchFunction.addToRolePolicy(new iam.PolicyStatement({
@@ -682,7 +1306,72 @@ export class HarborListStack extends cdk.Stack {
       resources: [listingsTable.tableArn],
     }));
 
+    favoritesTable.grantReadWriteData(favoritesFunction);
+    favoritesTable.grantReadWriteData(listingFunction); // Watcher notifications on listing changes
+    billingAccountsTable.grantReadData(listingFunction); // Billing period for usage metering
+    usageTable.grantReadWriteData(listingFunction); // Active listing usage
+    reportLimitsTable.grantReadWriteData(listingFunction); // Listing report rate limits
+    imageHashesTable.grantWriteData(mediaFunction); // Photo hashes for duplicate detection
+    for (const fn of [listingFunction, adminFunction]) {
+      imageHashesTable.grantReadData(fn);
+      listingFingerprintsTable.grantReadWriteData(fn);
+      fingerprintBucketsTable.grantReadWriteData(fn);
+    }
+    favoritesTable.grantReadWriteData(adminFunction); // Watcher notifications on approved updates
+    listingsTable.grantReadData(favoritesFunction);
+
+    for (const fn of [messagingFunction, messagingInboundEmailFunction]) {
+      messageThreadsTable.grantReadWriteData(fn);
+      messagesTable.grantReadWriteData(fn);
+      usersTable.grantReadData(fn);
+      notificationsTable.grantReadWriteData(fn);
+      fn.addToRolePolicy(new iam.PolicyStatement({
+        actions: ['ses:SendEmail', 'ses:SendRawEmail'],
+        resources: ['*'],
+      }));
+    }
+    listingsTable.grantReadData(messagingFunction);
+    inboundEmailBucket.grantRead(messagingInboundEmailFunction);
+
+    for (const fn of [offersFunction, offerExpiryFunction]) {
+      offersTable.grantReadWriteData(fn);
+      listingsTable.grantReadWriteData(fn); // Under contract / sold status changes
+      searchIndexTable.grantReadWriteData(fn);
+      favoritesTable.grantReadWriteData(fn); // Watcher notifications when a sale completes
+      usersTable.grantReadData(fn);
+      notificationsTable.grantReadWriteData(fn);
+    }
+
+    reviewsTable.grantReadWriteData(reviewsFunction);
+    listingsTable.grantReadData(reviewsFunction);
+    usersTable.grantReadData(reviewsFunction);
+    messageThreadsTable.grantReadData(reviewsFunction); // Verified reviews: inquiry history
+    offersTable.grantReadData(reviewsFunction); // Verified reviews: offer history
+    notificationsTable.grantReadWriteData(reviewsFunction);
+    for (const fn of [listingFunction, reviewsFunction]) {
+      platformSettingsTable.grantReadData(fn); // Content filter rules
+    }
+
+    usersTable.grantReadData(sellersFunction); // Includes the ParentDealerIndex for dealer sub-accounts
+    listingsTable.grantReadData(sellersFunction);
+    reviewsTable.grantReadData(sellersFunction);
+    messageThreadsTable.grantReadData(sellersFunction); // Response rate and time
+
+    savedSearchesTable.grantReadWriteData(savedSearchFunction);
+    savedSearchesTable.grantReadWriteData(savedSearchAlertsFunction);
+    searchIndexTable.grantReadWriteData(savedSearchAlertsFunction); // Bootstraps the index on first use
+    listingsTable.grantReadData(savedSearchAlertsFunction);
+    usersTable.grantReadData(savedSearchAlertsFunction);
+    notificationsTable.grantReadWriteData(savedSearchAlertsFunction);
+    savedSearchAlertsFunction.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ses:SendEmail', 'ses:SendRawEmail'],
+      resources: ['*'],
+    }));
+
     mediaBucket.grantReadWrite(mediaFunction);
+    usersTable.grantReadData(mediaFunction); // Tier photo limits
+    billingAccountsTable.grantReadData(mediaFunction);
+    usageTable.grantReadWriteData(mediaFunction); // Photo usage
 
     // Grant permissions for OpenSearch (commented out)
     // searchFunction.addToRolePolicy(new iam.PolicyStatement({
@@ -698,15 +1387,17 @@ export class HarborListStack extends cdk.Stack {
     // Grant stats function read access to all tables
     listingsTable.grantReadData(statsFunction);
     usersTable.grantReadData(statsFunction);
+    reviewsTable.grantReadData(statsFunction);
 
     // Grant scan permissions for stats aggregation
     statsFunction.addToRolePolicy(new iam.PolicyStatement({
       actions: ['dynamodb:Scan'],
-      resources: [listingsTable.tableArn, usersTable.tableArn],
+      resources: [listingsTable.tableArn, usersTable.tableArn, reviewsTable.tableArn],
     }));
 
     // Grant admin function full access to all tables
     listingsTable.grantReadWriteData(adminFunction);
+    searchIndexTable.grantReadWriteData(adminFunction);
     usersTable.grantReadWriteData(adminFunction);
     auditLogsTable.grantReadWriteData(adminFunction);
     adminSessionsTable.grantReadWriteData(adminFunction);
@@ -757,6 +1448,40 @@ export class HarborListStack extends cdk.Stack {
     billingAccountsTable.grantReadWriteData(billingFunction);
     transactionsTable.grantReadWriteData(billingFunction);
     auditLogsTable.grantReadWriteData(billingFunction);
+    paymentFailuresTable.grantReadWriteData(billingFunction);
+    disputesTable.grantReadWriteData(billingFunction);
+    jobsTable.grantReadWriteData(billingFunction);
+    invoicesTable.grantReadWriteData(billingFunction);
+    couponsTable.grantReadWriteData(billingFunction);
+    couponRedemptionsTable.grantReadWriteData(billingFunction);
+    ledgerEntriesTable.grantReadWriteData(billingFunction);
+    ledgerPeriodsTable.grantReadWriteData(billingFunction);
+    commissionRulesTable.grantReadWriteData(billingFunction);
+    commissionStatementsTable.grantReadWriteData(billingFunction);
+    payoutBatchesTable.grantReadWriteData(billingFunction);
+    webhookEventsTable.grantReadWriteData(billingFunction);
+    notificationsTable.grantReadWriteData(billingFunction); // Billing case replies and escalations
+    usageTable.grantReadWriteData(billingFunction);
+    listingsTable.grantReadData(billingFunction); // Active listing counts for usage
+    promotionsTable.grantReadWriteData(billingFunction);
+    promotionStatsTable.grantReadData(billingFunction); // Promotion reports
+
+    // Grant the scheduler tick access to jobs and the billing tables its jobs touch
+    jobsTable.grantReadWriteData(jobsFunction);
+    usersTable.grantReadWriteData(jobsFunction);
+    billingAccountsTable.grantReadWriteData(jobsFunction);
+    transactionsTable.grantReadWriteData(jobsFunction);
+    paymentFailuresTable.grantReadWriteData(jobsFunction);
+    invoicesTable.grantReadWriteData(jobsFunction);
+    couponsTable.grantReadWriteData(jobsFunction);
+    couponRedemptionsTable.grantReadWriteData(jobsFunction);
+    ledgerEntriesTable.grantReadWriteData(jobsFunction);
+    ledgerPeriodsTable.grantReadWriteData(jobsFunction);
+    disputesTable.grantReadWriteData(jobsFunction); // Billing case SLA checks
+    notificationsTable.grantReadWriteData(jobsFunction);
+    usageTable.grantReadWriteData(jobsFunction); // Overage billed at renewal
+    moderationQueueTable.grantReadWriteData(jobsFunction); // Moderation SLA checks
+    platformSettingsTable.grantReadData(jobsFunction); // Moderation queue settings
 
     // Grant billing function scan permissions
     billingFunction.addToRolePolicy(new iam.PolicyStatement({
@@ -765,7 +1490,8 @@ export class HarborListStack extends cdk.Stack {
         billingAccountsTable.tableArn,
         `${billingAccountsTable.tableArn}/index/*`,
         transactionsTable.tableArn,
-        `${transactionsTable.tableArn}/index/*`
+        `${transactionsTable.tableArn}/index/*`,
+        paymentFailuresTable.tableArn
       ],
     }));
 
@@ -786,6 +1512,7 @@ export class HarborListStack extends cdk.Stack {
     // Grant listing function access to new tables for enhanced features
     enginesTable.grantReadWriteData(listingFunction);
     moderationQueueTable.grantReadWriteData(listingFunction);
+    jobsTable.grantReadWriteData(listingFunction); // Moderation SLA checks
 
     listingFunction.addToRolePolicy(new iam.PolicyStatement({
       actions: ['dynamodb:Scan'],
@@ -857,6 +1584,7 @@ export class HarborListStack extends cdk.Stack {
     listing.addMethod('GET', new apigateway.LambdaIntegration(listingFunction));
     listing.addMethod('PUT', new apigateway.LambdaIntegration(listingFunction));
     listing.addMethod('DELETE', new apigateway.LambdaIntegration(listingFunction));
+    listing.addResource('report').addMethod('POST', new apigateway.LambdaIntegration(listingFunction));
 
     const search = api.root.addResource('search', {
       defaultCorsPreflightOptions: {
@@ -867,6 +1595,97 @@ export class HarborListStack extends cdk.Stack {
     });
     search.addMethod('POST', new apigateway.LambdaIntegration(searchFunction));
 
+    const favorites = api.root.addResource('favorites', {
+      defaultCorsPreflightOptions: {
+        allowOrigins: apigateway.Cors.ALL_ORIGINS,
+        allowMethods: apigateway.Cors.ALL_METHODS,
+        allowHeaders: apigateway.Cors.DEFAULT_HEADERS.concat(['Authorization']),
+      }
+    });
+    favorites.addMethod('GET', new apigateway.LambdaIntegration(favoritesFunction));
+    favorites.addMethod('POST', new apigateway.LambdaIntegration(favoritesFunction));
+
+    const favorite = favorites.addResource('{listingId}');
+    favorite.addMethod('GET', new apigateway.LambdaIntegration(favoritesFunction));
+    favorite.addMethod('DELETE', new apigateway.LambdaIntegration(favoritesFunction));
+
+    const messages = api.root.addResource('messages', {
+      defaultCorsPreflightOptions: {
+        allowOrigins: apigateway.Cors.ALL_ORIGINS,
+        allowMethods: apigateway.Cors.ALL_METHODS,
+        allowHeaders: apigateway.Cors.DEFAULT_HEADERS.concat(['Authorization']),
+      }
+    });
+    messages.addResource('unread-count').addMethod('GET', new apigateway.LambdaIntegration(messagingFunction));
+
+    const messageThreads = messages.addResource('threads');
+    messageThreads.addMethod('GET', new apigateway.LambdaIntegration(messagingFunction));
+    messageThreads.addMethod('POST', new apigateway.LambdaIntegration(messagingFunction));
+
+    const messageThread = messageThreads.addResource('{threadId}');
+    messageThread.addMethod('GET', new apigateway.LambdaIntegration(messagingFunction));
+    messageThread.addResource('messages').addMethod('POST', new apigateway.LambdaIntegration(messagingFunction));
+    messageThread.addResource('read').addMethod('POST', new apigateway.LambdaIntegration(messagingFunction));
+
+    const offers = api.root.addResource('offers', {
+      defaultCorsPreflightOptions: {
+        allowOrigins: apigateway.Cors.ALL_ORIGINS,
+        allowMethods: apigateway.Cors.ALL_METHODS,
+        allowHeaders: apigateway.Cors.DEFAULT_HEADERS.concat(['Authorization']),
+      }
+    });
+    offers.addMethod('GET', new apigateway.LambdaIntegration(offersFunction));
+    offers.addMethod('POST', new apigateway.LambdaIntegration(offersFunction));
+    offers.addResource('listing').addResource('{listingId}').addMethod('GET', new apigateway.LambdaIntegration(offersFunction));
+
+    const offer = offers.addResource('{offerId}');
+    offer.addMethod('GET', new apigateway.LambdaIntegration(offersFunction));
+    offer.addResource('{action}').addMethod('POST', new apigateway.LambdaIntegration(offersFunction));
+
+    listing.addResource('rating').addMethod('GET', new apigateway.LambdaIntegration(reviewsFunction));
+
+    const reviews = api.root.addResource('reviews', {
+      defaultCorsPreflightOptions: {
+        allowOrigins: apigateway.Cors.ALL_ORIGINS,
+        allowMethods: apigateway.Cors.ALL_METHODS,
+        allowHeaders: apigateway.Cors.DEFAULT_HEADERS.concat(['Authorization']),
+      }
+    });
+    reviews.addMethod('POST', new apigateway.LambdaIntegration(reviewsFunction));
+    reviews.addResource('moderation').addMethod('GET', new apigateway.LambdaIntegration(reviewsFunction));
+
+    const review = reviews.addResource('{reviewId}');
+    review.addMethod('PUT', new apigateway.LambdaIntegration(reviewsFunction));
+    review.addMethod('DELETE', new apigateway.LambdaIntegration(reviewsFunction));
+    const reviewResponse = review.addResource('response');
+    reviewResponse.addMethod('PUT', new apigateway.LambdaIntegration(reviewsFunction));
+    reviewResponse.addMethod('DELETE', new apigateway.LambdaIntegration(reviewsFunction));
+    review.addResource('moderate').addMethod('POST', new apigateway.LambdaIntegration(reviewsFunction));
+
+    const sellers = api.root.addResource('sellers', {
+      defaultCorsPreflightOptions: {
+        allowOrigins: apigateway.Cors.ALL_ORIGINS,
+        allowMethods: apigateway.Cors.ALL_METHODS,
+        allowHeaders: apigateway.Cors.DEFAULT_HEADERS.concat(['Authorization']),
+      }
+    });
+    sellers.addResource('{sellerId}').addMethod('GET', new apigateway.LambdaIntegration(sellersFunction));
+
+    const savedSearches = api.root.addResource('saved-searches', {
+      defaultCorsPreflightOptions: {
+        allowOrigins: apigateway.Cors.ALL_ORIGINS,
+        allowMethods: apigateway.Cors.ALL_METHODS,
+        allowHeaders: apigateway.Cors.DEFAULT_HEADERS.concat(['Authorization']),
+      }
+    });
+    savedSearches.addMethod('GET', new apigateway.LambdaIntegration(savedSearchFunction));
+    savedSearches.addMethod('POST', new apigateway.LambdaIntegration(savedSearchFunction));
+
+    const savedSearch = savedSearches.addResource('{id}');
+    savedSearch.addMethod('GET', new apigateway.LambdaIntegration(savedSearchFunction));
+    savedSearch.addMethod('PUT', new apigateway.LambdaIntegration(savedSearchFunction));
+    savedSearch.addMethod('DELETE', new apigateway.LambdaIntegration(savedSearchFunction));
+
     const media = api.root.addResource('media');
     media.addMethod('POST', new apigateway.LambdaIntegration(mediaFunction));
 
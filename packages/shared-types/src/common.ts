@@ -1,5 +1,5 @@
 // Import team types for Phase 3
-import type { TeamAssignment } from './teams';
+import type { TeamAssignment, TeamId } from './teams';
 
 export interface Location {
   city: string;
@@ -37,6 +37,7 @@ export interface BoatDetails {
   engine?: string; // Legacy field - kept for backward compatibility
   hours?: number; // Legacy field - kept for backward compatibility
   condition: 'Excellent' | 'Good' | 'Fair' | 'Needs Work';
+  hin?: string; // Hull Identification Number - used for duplicate detection, not shown publicly
   // New multi-engine support
   engines?: Engine[];
   totalHorsepower?: number;
@@ -55,7 +56,7 @@ export interface Listing {
   images: string[];
   videos?: string[];
   thumbnails: string[];
-  status: 'active' | 'inactive' | 'sold' | 'pending_review' | 'under_review' | 'approved' | 'rejected';
+  status: 'active' | 'inactive' | 'sold' | 'under_contract' | 'pending_review' | 'under_review' | 'approved' | 'rejected';
   views?: number;
   rating?: ListingRating;
   createdAt: number;
@@ -82,7 +83,7 @@ export interface EnhancedListing extends Listing {
     previousReviewCount?: number; // How many times this listing has been reviewed
   };
   moderationHistory?: Array<{
-    action: 'approve' | 'reject' | 'request_changes' | 'resubmit' | 'approve_update';
+    action: 'approve' | 'reject' | 'request_changes' | 'resubmit' | 'approve_update' | 'review_update';
     reviewedBy: string;
     reviewedAt: number;
     status: 'approved' | 'rejected' | 'changes_requested' | 'resubmitted';
@@ -90,6 +91,8 @@ export interface EnhancedListing extends Listing {
     publicNotes?: string;
     internalNotes?: string;
     requiredChanges?: string[];
+    approvedFields?: string[]; // Fields of a pending update that went live
+    rejectedFields?: string[]; // Fields of a pending update that were discarded
   }>;
   pendingUpdate?: {
     status: 'pending_review' | 'changes_requested';
@@ -120,14 +123,35 @@ export interface EnhancedListing extends Listing {
   }>;
 }
 
+export type ReviewModerationStatus =
+  | 'approved'  // Published
+  | 'pending'   // Held by the content filter for a moderator
+  | 'rejected'; // Removed by a moderator
+
+// Listing owner's public reply to a review
+export interface ReviewResponse {
+  sellerId: string;
+  sellerName: string;
+  comment: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface Review {
   reviewId: string;
+  listingId?: string;
   userId: string;
   userName: string;
   rating: number; // 1-5 stars
   comment?: string;
   createdAt: number;
+  updatedAt?: number;
   verified?: boolean; // if the user actually contacted/viewed the boat
+  moderationStatus?: ReviewModerationStatus;
+  moderationReason?: string;
+  moderatedBy?: string;
+  moderatedAt?: number;
+  sellerResponse?: ReviewResponse;
 }
 
 export interface ListingRating {
@@ -141,6 +165,7 @@ export interface ListingRating {
     1: number;
   };
   reviews: Review[];
+  userReview?: Review; // the caller's own review, including one held for moderation
 }
 
 export interface SearchFilters {
@@ -151,6 +176,9 @@ export interface SearchFilters {
   };
   location?: {
     state?: string;
+    city?: string;
+    zipCode?: string;
+    /** Radius in miles around the ZIP code, coordinates or city */
     radius?: number;
     coordinates?: {
       lat: number;
@@ -167,20 +195,257 @@ export interface SearchFilters {
     max?: number;
   };
   features?: string[];
+  manufacturer?: string[];
+  engineConfiguration?: Array<'single' | 'twin' | 'triple' | 'quad'>;
+  fuelType?: Array<Engine['fuelType']>;
   sort?: {
-    field: string;
-    order: string;
+    field: SearchSortField;
+    order: 'asc' | 'desc';
   };
 }
 
+// Fields the search API can order results by ('distance' requires a ZIP code, city or coordinates)
+export type SearchSortField =
+  | 'relevance'
+  | 'price'
+  | 'year'
+  | 'length'
+  | 'horsepower'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'priceDrop'
+  | 'views'
+  | 'distance';
+
+// Facet count for a categorical value (boat type, manufacturer, fuel type...)
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+// Facet count for a numeric bucket; min/max map directly onto the matching range filter
+export interface RangeFacetValue {
+  range: string;
+  min?: number;
+  max?: number;
+  count: number;
+}
+
+// Facet counts over the filtered result set. Each facet ignores its own filter,
+// so counts show how many results selecting that option would add or keep.
+export interface SearchFacets {
+  boatTypes: FacetValue[];
+  priceRanges: RangeFacetValue[];
+  locations: Array<{ state: string; count: number }>;
+  manufacturers?: FacetValue[];
+  yearRanges?: RangeFacetValue[];
+  lengthRanges?: RangeFacetValue[];
+  engineConfigurations?: FacetValue[];
+  fuelTypes?: FacetValue[];
+}
+
+// Search result listing with its distance from the search center, when known
+export type SearchResultListing = Listing & { distance?: number };
+
+export type FeaturedSearchResultListing = SearchResultListing & { promotionId: string };
+
 export interface SearchResult {
-  results: Listing[];
+  results: SearchResultListing[];
+  /** Paid featured listings rotated into the top slots (first page only) */
+  featured?: FeaturedSearchResultListing[];
   total: number;
-  facets?: {
-    boatTypes: Array<{ value: string; count: number }>;
-    priceRanges: Array<{ range: string; count: number }>;
-    locations: Array<{ state: string; count: number }>;
+  limit?: number;
+  /** Opaque cursor for the next page; absent on the last page */
+  nextCursor?: string;
+  hasMore?: boolean;
+  facets?: SearchFacets;
+}
+
+// How often a saved search emails its new matches ('none' = in-app notifications only)
+export type SavedSearchEmailFrequency = 'instant' | 'daily' | 'none';
+
+export interface SavedSearch {
+  searchId: string;
+  userId: string;
+  name: string;
+  filters: Omit<SearchFilters, 'sort'>;
+  emailFrequency: SavedSearchEmailFrequency;
+  notificationsEnabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+  /** Listings approved after this time are new matches for the next alert run */
+  lastCheckedAt: number;
+  lastMatchedAt?: number;
+  lastEmailedAt?: number;
+  /** Matches waiting for the next daily digest email */
+  pendingDigestListingIds?: string[];
+}
+
+// A listing on a user's watchlist
+export interface Favorite {
+  userId: string;
+  listingId: string;
+  createdAt: number;
+  /** Listing price when it was favorited */
+  priceAtSave: number;
+}
+
+// Watchlist entry with the current listing (absent once the listing is deleted)
+export interface FavoriteListing extends Favorite {
+  listing?: Listing;
+}
+
+// Buyer–seller messaging
+export type MessageParticipantRole = 'buyer' | 'seller';
+
+// File uploaded through the media presigned-upload flow and attached to a message
+export interface MessageAttachment {
+  url: string;
+  fileName: string;
+  contentType: string;
+  size?: number;
+}
+
+export interface Message {
+  threadId: string;
+  messageId: string;
+  /** User who wrote the message (a dealer sub-account when answering for its dealer) */
+  senderId: string;
+  senderName: string;
+  senderRole: MessageParticipantRole;
+  body: string;
+  attachments?: MessageAttachment[];
+  /** 'relay' when the message arrived as a reply to a relay email */
+  source: 'web' | 'relay';
+  createdAt: number;
+  /** When the other participant read the message */
+  readAt?: number;
+}
+
+// Conversation about one listing between a buyer and the listing's seller
+export interface MessageThread {
+  threadId: string;
+  listingId: string;
+  listingTitle: string;
+  buyerId: string;
+  buyerName: string;
+  sellerId: string;
+  sellerName: string;
+  createdAt: number;
+  lastMessageAt: number;
+  lastMessagePreview: string;
+  lastMessageSenderId: string;
+  buyerUnreadCount: number;
+  sellerUnreadCount: number;
+  buyerLastReadAt?: number;
+  sellerLastReadAt?: number;
+  sellerFirstReplyAt?: number; // when the seller first replied, for response-time stats
+}
+
+// Thread as seen by one participant
+export interface MessageThreadSummary extends MessageThread {
+  role: MessageParticipantRole;
+  unreadCount: number;
+}
+
+// Listing offers
+export type OfferStatus =
+  | 'pending'     // Waiting for the seller to respond
+  | 'countered'   // Seller countered; waiting for the buyer to respond
+  | 'accepted'    // Under contract
+  | 'rejected'
+  | 'withdrawn'
+  | 'expired'
+  | 'terminated'  // Accepted offer that fell through
+  | 'completed';  // Sale closed
+
+export type OfferAction = 'submit' | 'counter' | 'accept' | 'reject' | 'withdraw' | 'expire' | 'terminate' | 'complete';
+
+export type OfferActorRole = 'buyer' | 'seller' | 'system';
+
+export type OfferContingencyType = 'survey' | 'sea_trial' | 'financing';
+
+export interface OfferContingency {
+  type: OfferContingencyType;
+  /** Days after acceptance to satisfy the contingency */
+  days?: number;
+  notes?: string;
+}
+
+// Price and conditions proposed by an offer or counter-offer
+export interface OfferTerms {
+  amount: number;
+  expiresAt: number;
+  contingencies: OfferContingency[];
+  message?: string;
+}
+
+// Audit entry for one state transition
+export interface OfferEvent {
+  action: OfferAction;
+  actorId: string;
+  actorRole: OfferActorRole;
+  fromStatus?: OfferStatus;
+  toStatus: OfferStatus;
+  /** Terms proposed by a submit or counter */
+  terms?: OfferTerms;
+  note?: string;
+  createdAt: number;
+}
+
+export interface Offer extends OfferTerms {
+  offerId: string;
+  listingId: string;
+  listingTitle: string;
+  askingPrice: number;
+  buyerId: string;
+  buyerName: string;
+  sellerId: string;
+  sellerName: string;
+  status: OfferStatus;
+  /** Party who must respond next while the offer is open */
+  awaitingRole?: 'buyer' | 'seller';
+  history: OfferEvent[];
+  /** Incremented on every transition for optimistic locking */
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Offer as seen by one party
+export interface OfferSummary extends Offer {
+  role: 'buyer' | 'seller';
+  availableActions: OfferAction[];
+}
+
+// Public seller (or dealer) reputation profile
+export interface SellerProfileStats {
+  activeListings: number;
+  soldListings: number;
+  averageRating: number;
+  totalReviews: number;
+  ratingBreakdown: ListingRating['ratingBreakdown'];
+  inquiries: number;
+  responseRate?: number; // share of inquiries answered (0-1); absent without inquiries
+  averageResponseHours?: number; // mean time to the first reply, when known
+}
+
+export interface SellerProfile {
+  sellerId: string; // the dealer for dealer sub-accounts
+  name: string;
+  isDealer: boolean;
+  teamSize?: number; // dealer sub-accounts listing on the dealer's behalf
+  location?: string;
+  memberSince: string;
+  verification: {
+    email: boolean;
+    phone: boolean;
   };
+  premiumTier?: string; // only while premium membership is active
+  stats: SellerProfileStats;
+  activeListings: Listing[];
+  soldListings: Listing[];
+  recentReviews: Review[];
 }
 
 // User and Authentication Types
@@ -316,6 +581,7 @@ export interface UserLimits {
   bulkOperations: boolean;
   advancedSearch: boolean;
   premiumSupport: boolean;
+  boostedSearches?: number; // boosted search placements included per billing period
 }
 
 export interface UserCapability {
@@ -523,6 +789,47 @@ export interface ContentFlag {
   metadata?: Record<string, any>;
 }
 
+// Reports filed by users against a listing, stored on it as ContentFlags
+export type ListingReportType = ContentFlag['type'];
+export type ListingReportOutcome = 'resolved' | 'dismissed';
+
+export interface ListingReportRequest {
+  type: ListingReportType;
+  reason: string;
+}
+
+// Evidence linking a listing to a near-duplicate listed by another seller
+export type DuplicateSignal = 'hin' | 'image' | 'description' | 'model_year';
+
+export interface DuplicateImageMatch {
+  image: string;
+  matchedImage: string;
+  distance: number; // Hamming distance between perceptual hashes (0-64)
+}
+
+// Stored in ContentFlag.metadata.matches for duplicate/fraud flags raised by detection
+export interface DuplicateMatch {
+  listingId: string;
+  ownerId: string;
+  signals: DuplicateSignal[];
+  imageMatches: DuplicateImageMatch[];
+  descriptionSimilarity: number; // Estimated Jaccard similarity of descriptions (0-1)
+}
+
+// A match with the matched listing's details, for side-by-side review
+export interface DuplicateComparison extends DuplicateMatch {
+  listing?: {
+    title: string;
+    description: string;
+    price: number;
+    location: { city: string; state: string };
+    images: string[];
+    boatDetails?: BoatDetails;
+    status: string;
+    createdAt?: number;
+  }; // Undefined once the matched listing has been deleted
+}
+
 // Content moderation workflow types
 export interface ModerationWorkflow {
   queueId: string;
@@ -535,7 +842,7 @@ export interface ModerationWorkflow {
   moderationNotes?: ModerationNotes;
   submittedAt: number;
   reviewedAt?: number;
-  dueDate?: number;
+  dueDate?: number; // Set from the queue's SLA and the item's priority
   escalated: boolean;
   escalatedAt?: number;
   escalatedBy?: string;
@@ -594,6 +901,35 @@ export interface ModerationStats {
   slaCompliance: number; // Percentage of items reviewed within SLA
 }
 
+export interface ModeratorWorkload {
+  moderatorId: string;
+  moderatorName: string;
+  currentLoad: number; // Open items assigned to the moderator
+  capacity: number; // The queue's maxItemsPerModerator
+  utilizationRate: number; // currentLoad as a percentage of capacity
+  averageReviewTime: number; // Minutes from submission to decision
+  pendingItems: number; // Assigned items the moderator has not started
+  overdueItems: number; // Assigned items past their due date
+  completedToday: number;
+  status: 'available' | 'busy' | 'overloaded' | 'offline';
+}
+
+export interface ModerationWorkloadSummary {
+  workload: ModeratorWorkload[];
+  unassigned: number; // Open items waiting for a moderator
+  overdue: number; // Open items past their due date
+  slaCompliance: number; // Percentage of items reviewed (or still open) within SLA
+  autoAssignment: boolean;
+  maxItemsPerModerator: number;
+  slaHours: number;
+}
+
+export interface ModerationRebalanceResult {
+  assigned: number; // Unassigned items routed to a moderator
+  moved: number; // Items moved off overloaded moderators
+  unassigned: number; // Items left unassigned because no moderator has capacity
+}
+
 export interface FlaggedListing {
   listingId: string;
   title: string;
@@ -611,11 +947,17 @@ export interface FlaggedListing {
   flags: ContentFlag[];
   flaggedAt: string;
   flagReason?: string;
+  priority?: ModerationWorkflow['priority']; // Raised by user reports
+  assignedTo?: string; // Moderator the open queue item is routed to
+  dueDate?: number; // SLA due date of the open queue item
+  escalated?: boolean; // Open queue item missed its SLA
+  openReports?: number; // User reports awaiting review
+  duplicateMatches?: DuplicateComparison[]; // Near-duplicates found by duplicate detection
   reviewedAt?: string;
   reviewedBy?: string;
   moderationNotes?: string;
   moderationHistory?: Array<{
-    action: 'approve' | 'reject' | 'request_changes' | 'resubmit';
+    action: 'approve' | 'reject' | 'request_changes' | 'resubmit' | 'approve_update' | 'review_update';
     reviewedBy: string;
     reviewedAt: string;
     status: string;
@@ -623,7 +965,11 @@ export interface FlaggedListing {
     publicNotes?: string;
     internalNotes?: string;
     requiredChanges?: string[];
+    approvedFields?: string[];
+    rejectedFields?: string[];
   }>;
+  pendingUpdate?: EnhancedListing['pendingUpdate']; // Owner edits to a live listing awaiting review
+  pendingUpdateFields?: PendingUpdateFieldChange[]; // Fields of the pending update that differ from the live listing
   submissionType?: 'initial' | 'resubmission' | 'update'; // Track listing lifecycle
   previousReviewCount?: number; // How many times reviewed
   // Additional listing details for moderation review
@@ -860,6 +1206,121 @@ export interface NotificationTemplate {
   active: boolean;
 }
 
+// Content filter rule types
+export type ContentFilterCategory =
+  | 'profanity'
+  | 'discriminatory'
+  | 'sexual'
+  | 'violence'
+  | 'scam'
+  | 'spam'
+  | 'drugs'
+  | 'fraud';
+
+export type ContentFilterSeverity = 'low' | 'medium' | 'high';
+
+/**
+ * How a rule's pattern is matched:
+ * - word: a single word, matched on word boundaries ("ass" does not match "class")
+ * - phrase: words in sequence, ignoring case, punctuation and spacing
+ * - regex: a case-insensitive regular expression run on the raw text
+ */
+export type ContentFilterMatchType = 'word' | 'phrase' | 'regex';
+
+export interface ContentFilterRule {
+  id: string;
+  category: ContentFilterCategory;
+  severity: ContentFilterSeverity;
+  matchType: ContentFilterMatchType;
+  pattern: string;
+  enabled: boolean;
+  note?: string;
+}
+
+export interface ContentFilterRuleSet {
+  version: number; // 0 for the built-in defaults, never published
+  rules: ContentFilterRule[];
+  allowlist: string[]; // Phrases never matched, e.g. marine vocabulary like "hot water heater"
+  publishedBy?: string;
+  publishedAt?: string;
+  changeNote?: string;
+}
+
+export type ContentFilterVersionSummary = Omit<ContentFilterRuleSet, 'rules' | 'allowlist'> & {
+  ruleCount: number;
+  allowlistCount: number;
+};
+
+export interface ContentFilterPublishRequest {
+  rules: ContentFilterRule[];
+  allowlist: string[];
+  expectedVersion: number; // Version the edits started from
+  changeNote?: string;
+}
+
+export interface ContentFilterDryRunRequest {
+  rules: ContentFilterRule[];
+  allowlist: string[];
+  limit?: number; // Most recent listings to scan
+}
+
+export interface ContentFilterDryRunListing {
+  listingId: string;
+  title: string;
+  categories: ContentFilterCategory[];
+  matchedTerms: string[];
+}
+
+export interface ContentFilterDryRunResult {
+  listingsScanned: number;
+  currentVersion: number;
+  currentFlagged: number;
+  proposedFlagged: number;
+  newlyFlagged: ContentFilterDryRunListing[];
+  noLongerFlagged: ContentFilterDryRunListing[];
+  ruleHits: Array<{ ruleId: string; pattern: string; listings: number }>; // Proposed rules by listings matched
+}
+
+// Pending listing update review types
+
+/**
+ * A field of a pending update whose value differs from the live listing
+ */
+export interface PendingUpdateFieldChange {
+  field: string;
+  oldValue: any;
+  newValue: any;
+}
+
+export interface PendingUpdateFieldDecision {
+  field: string;
+  decision: 'approve' | 'reject';
+  reason?: string; // Shown to the owner, required when rejecting
+}
+
+export interface PendingUpdateReviewRequest {
+  decisions: PendingUpdateFieldDecision[]; // Fields left out stay pending
+  moderatorNotes?: string;
+}
+
+export interface PendingUpdateReviewResult {
+  approvedFields: string[];
+  rejectedFields: string[];
+  remainingFields: string[]; // Still awaiting a decision
+}
+
+/**
+ * Low-risk owner edits to live listings that go live without review
+ */
+export interface PendingUpdateAutoApprovalRules {
+  enabled: boolean;
+  maxPriceDecreasePercent: number; // Price cuts up to this share of the live price, 0 to review every price change
+  maxPriceDecreaseAmount?: number; // Optional cap on the cut in dollars
+  lowRiskFields: string[]; // Fields approved whatever the change
+  updatedBy?: string;
+  updatedAt?: number;
+}
+
 export interface SupportTicket {
   id: string;
   ticketNumber: string;
@@ -1058,6 +1519,8 @@ export interface Transaction {
   billingAccountId?: string;
   subscriptionId?: string;
   invoiceId?: string;
+  taxLines?: InvoiceTaxLine[]; // tax collected (negative on refunds), by jurisdiction
+  taxAmount?: number;
 }
 
 // Billing account management
@@ -1083,14 +1546,299 @@ export interface BillingAccount {
     country: string;
   };
   taxInfo?: {
+    taxId?: string;
+    taxExempt: boolean; // true while a verified exemption certificate is on file
+    taxRate?: number; // fallback rate for addresses outside the tax rules (percent)
+    exemptionCertificates?: TaxExemptionCertificate[];
+  };
+  coupon?: AppliedCoupon; // coupon discounting subscription charges
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Coupons (promo codes) for subscriptions. Percentage and fixed coupons discount
+// subscription charges for their duration; free-months coupons extend the trial.
+export type CouponDiscountType = 'percentage' | 'fixed' | 'free_months';
+
+export type CouponDuration = 'once' | 'repeating' | 'forever';
+
+export interface Coupon {
+  code: string; // uppercase, unique
+  description?: string;
+  discountType: CouponDiscountType;
+  percentOff?: number; // percentage coupons, 1-100
+  amountOff?: number; // fixed coupons, per billing period
+  freeMonths?: number; // free_months coupons
+  duration: CouponDuration; // ignored for free_months coupons
+  durationCycles?: number; // billing periods discounted when duration is 'repeating'
+  planIds?: string[]; // restrict to plans; empty or missing means any plan
+  planTypes?: Array<'individual' | 'dealer'>;
+  firstTimeOnly: boolean; // only customers who have never subscribed
+  maxRedemptions?: number;
+  redemptionCount: number;
+  expiresAt?: number;
+  active: boolean;
+  createdBy?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AppliedCoupon {
+  code: string;
+  redemptionId: string;
+  discountType: 'percentage' | 'fixed';
+  percentOff?: number;
+  amountOff?: number;
+  cyclesRemaining?: number; // undefined means forever, 0 once used up
+}
+
+export interface CouponRedemption {
+  redemptionId: string;
+  code: string;
+  userId: string;
+  billingAccountId: string;
+  planId: string;
+  billingCycle: 'monthly' | 'yearly';
+  discountType: CouponDiscountType;
+  freeMonths?: number;
+  totalDiscount: number; // discount given so far
+  redeemedAt: number;
+  updatedAt: number;
+}
+
+// Usage metering. Usage is recorded per user and billing period: counters add
+// up events (photos uploaded, featured listing days, boosted searches) and
+// gauges keep the period's peak (active listings). Usage above the tier's
+// quota is billed as overage at renewal.
+export type UsageMeter = 'active_listings' | 'photos' | 'featured_listing_days' | 'boosted_searches';
+
+export interface UsageRecord {
+  userId: string;
+  periodStart: number;
+  periodEnd: number;
+  usage: Partial<Record<UsageMeter, number>>;
+  prepaid?: Partial<Record<UsageMeter, number>>; // usage already paid for (e.g. purchased promotions), never billed as overage
+  billedInvoiceId?: string;
+  billedAt?: number;
+  updatedAt: number;
+}
+
+export interface UsageMeterSummary {
+  meter: UsageMeter;
+  label: string;
+  used: number;
+  quota: number; // -1 for unlimited
+  prepaid: number;
+  overage: number;
+  overageUnitPrice: number;
+  overageAmount: number;
+}
+
+export interface UsageSummary {
+  userId: string;
+  periodStart: number;
+  periodEnd: number;
+  overageAllowed: boolean; // subscribers are billed for overage; other users are held to the quota
+  meters: UsageMeterSummary[];
+  overageTotal: number;
+  currency: string;
+}
+
+// Paid listing promotions. A featured listing is rotated into the top slots of
+// search and the homepage; a boost multiplies the listing's search relevance.
+// Featured days covered by the plan's featured allowance are not charged.
+export type PromotionType = 'featured' | 'boost';
+
+export type PromotionStatus = 'active' | 'canceled';
+
+export type PromotionPlacement = 'search' | 'home';
+
+export interface ListingPromotion {
+  promotionId: string;
+  listingId: string;
+  listingTitle: string;
+  sellerId: string;
+  type: PromotionType;
+  status: PromotionStatus;
+  days: number;
+  startsAt: number;
+  endsAt: number;
+  includedDays: number;
+  chargedDays: number;
+  dayPrice: number;
+  amount: number;
+  currency: string;
+  invoiceId?: string;
+  transactionId?: string;
+  impressions: number;
+  clicks: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PromotionQuote {
+  type: PromotionType;
+  days: number;
+  startsAt: number;
+  endsAt: number;
+  dayPrice: number;
+  includedDays: number;
+  chargedDays: number;
+  amount: number;
+  currency: string;
+}
+
+export interface PromotionDailyStats {
+  day: string; // YYYY-MM-DD (UTC)
+  impressions: number;
+  clicks: number;
+}
+
+export interface PromotionReport {
+  promotion: ListingPromotion;
+  impressions: number;
+  clicks: number;
+  clickThroughRate: number; // clicks / impressions
+  costPerClick?: number; // absent until the first click
+  daily: PromotionDailyStats[];
+}
+
+// Invoices issued by the platform. Drafts can still change; an invoice gets its
+// sequential number when it is finalized (draft -> open), so drafts never consume a number.
+export type InvoiceStatus = 'draft' | 'open' | 'paid' | 'void';
+
+export type InvoiceLineItemType = 'subscription' | 'proration' | 'listing_fee' | 'discount' | 'usage_overage' | 'promotion';
+
+export interface InvoiceLineItem {
+  lineItemId: string;
+  type: InvoiceLineItemType;
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  amount: number;
+  periodStart?: number;
+  periodEnd?: number;
+  listingId?: string;
+  couponCode?: string;
+  meter?: UsageMeter;
+}
+
+export type TaxJurisdictionType = 'state' | 'county' | 'city' | 'district' | 'other';
+
+export interface InvoiceTaxLine {
+  description: string;
+  jurisdiction: string;
+  jurisdictionType?: TaxJurisdictionType;
+  rate: number; // percent
+  taxableAmount: number;
+  amount: number;
+}
+
+// Sales tax exemption certificates, reviewed by finance staff before they apply
+export type TaxExemptionType = 'resale' | 'nonprofit' | 'government' | 'other';
+
+export type TaxExemptionStatus = 'pending' | 'verified' | 'rejected';
+
+export interface TaxExemptionCertificate {
+  certificateId: string;
+  certificateNumber: string;
+  exemptionType: TaxExemptionType;
+  states: string[]; // two-letter state codes covered; empty means every state
+  expiresAt?: number;
+  documentUrl?: string;
+  status: TaxExemptionStatus;
+  submittedAt: number;
+  reviewedAt?: number;
+  reviewedBy?: string;
+  rejectionReason?: string;
+}
+
+export interface Invoice {
+  invoiceId: string;
+  invoiceNumber?: string; // assigned on finalization
+  userId: string;
+  billingAccountId: string;
+  status: InvoiceStatus;
+  currency: string;
+  customer: {
+    name: string;
+    email: string;
+    address?: BillingAccount['billingAddress'];
     taxId?: string;
     taxExempt: boolean;
-    taxRate?: number;
   };
+  lineItems: InvoiceLineItem[];
+  taxLines: InvoiceTaxLine[];
+  subtotal: number;
+  taxTotal: number;
+  taxExemptionCertificateId?: string; // certificate that exempted this invoice
+  total: number;
+  amountPaid: number;
+  amountDue: number;
+  transactionId?: string;
+  subscriptionId?: string;
+  issuedAt?: number;
+  dueDate?: number;
+  paidAt?: number;
+  voidedAt?: number;
+  voidReason?: string;
   createdAt: number;
   updatedAt: number;
 }
 
+// Double-entry ledger. Every movement of platform money posts a balanced journal
+// entry; amounts are in dollars and each line is either a debit or a credit.
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export interface LedgerAccount {
+  code: string; // e.g. 1000
+  name: string;
+  type: LedgerAccountType;
+  normalBalance: 'debit' | 'credit';
+  description?: string;
+}
+
+export type JournalEntrySourceType =
+  | 'transaction'
+  | 'dispute_opened'
+  | 'dispute_closed'
+  | 'commission_accrual'
+  | 'adjustment';
+
+export interface JournalLine {
+  accountCode: string;
+  debit: number;
+  credit: number;
+  memo?: string;
+}
+
+export interface JournalEntry {
+  entryId: string; // derived from the source, so a source posts at most once
+  period: string; // YYYY-MM the entry is posted in
+  postedAt: string; // ISO timestamp
+  description: string;
+  source: {
+    type: JournalEntrySourceType;
+    id: string;
+  };
+  lines: JournalLine[];
+  currency: string;
+  userId?: string;
+  billingAccountId?: string;
+  postedBy?: string; // staff member, for manual adjustments
+}
+
+// Closed periods are locked; their closing balances (debit positive) seed later balances
+export interface LedgerPeriod {
+  period: string; // YYYY-MM
+  status: 'open' | 'closed';
+  entryCount?: number;
+  closingBalances?: Record<string, number>;
+  closedAt?: number;
+  closedBy?: string;
+  createdAt: number;
+}
+
 // Finance calculation for boat loans
 export interface FinanceCalculation {
   calculationId: string;
@@ -1139,13 +1887,51 @@ export interface DisputeCase extends DisputedTransaction {
   evidenceSubmitted: DisputeEvidence[];
   respondByDate: string;
   resolution?: {
-    outcome: 'won' | 'lost' | 'accepted';
+    outcome: 'won' | 'lost' | 'accepted' | 'refunded' | 'declined';
     resolvedAt: string;
     resolvedBy: string;
     notes: string;
+    refundAmount?: number;
+    refundTransactionId?: string;
   };
   assignedTo?: string;
   priority: 'low' | 'medium' | 'high' | 'urgent';
+  // Cases opened by customers from their billing dashboard
+  source?: 'processor' | 'customer';
+  caseType?: BillingCaseType;
+  messages?: DisputeMessage[];
+  sla?: DisputeSla;
+  assignedTeam?: TeamId;
+  escalatedAt?: string;
+  escalationReason?: string;
+  updatedAt?: string;
+}
+
+/**
+ * What a customer asks for when opening a case
+ */
+export type BillingCaseType = 'refund_request' | 'dispute';
+
+/**
+ * A message in a customer case conversation
+ */
+export interface DisputeMessage {
+  messageId: string;
+  authorId: string;
+  authorName: string;
+  authorRole: 'customer' | 'staff' | 'system';
+  body: string;
+  createdAt: string;
+}
+
+/**
+ * Response and resolution deadlines for a customer case
+ */
+export interface DisputeSla {
+  firstResponseDueAt: string;
+  resolutionDueAt: string;
+  firstRespondedAt?: string;
+  breached?: Array<'first_response' | 'resolution'>;
 }
 
 export interface DisputeEvidence {
@@ -1217,6 +2003,83 @@ export interface PayoutSchedule {
   failureReason?: string;
 }
 
+// Commission rules and payout settlement
+export type CommissionPayeeType = 'sales_rep' | 'dealer';
+
+// Marginal tier: `rate` applies to the payee's monthly revenue up to `upTo` (the last tier has none)
+export interface CommissionTier {
+  upTo?: number;
+  rate: number; // 0.05 = 5%
+}
+
+// The most specific matching rule wins: payee, then plan, then payee type
+export interface CommissionRule {
+  ruleId: string;
+  name: string;
+  payeeId?: string; // one sales rep or dealer
+  payeeType?: CommissionPayeeType;
+  planIds?: string[];
+  transactionTypes?: Array<'payment' | 'membership' | 'subscription'>;
+  rate?: number; // flat rate, when there are no tiers
+  tiers?: CommissionTier[];
+  priority: number; // breaks ties between equally specific rules, higher first
+  active: boolean;
+  createdBy?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A customer's charge or refund attributed to a payee
+export interface CommissionLine {
+  transactionId: string;
+  transactionType: Transaction['type'];
+  customerId: string;
+  planId?: string;
+  revenue: number; // net of tax, negative for refunds
+  ruleId: string;
+  commission: number; // negative for refund clawbacks
+  createdAt: string;
+}
+
+export type CommissionStatementStatus = 'draft' | 'in_batch' | 'paid';
+
+export interface CommissionStatement {
+  statementId: string; // `${payeeId}_${period}`
+  payeeId: string;
+  payeeName: string;
+  payeeType: CommissionPayeeType;
+  period: string; // YYYY-MM
+  lines: CommissionLine[];
+  totalRevenue: number;
+  totalCommission: number;
+  currency: string;
+  status: CommissionStatementStatus;
+  payoutBatchId?: string;
+  paidAt?: number;
+  generatedAt: number;
+}
+
+export type PayoutBatchStatus = 'pending_approval' | 'approved' | 'on_hold' | 'released';
+
+export interface PayoutBatch {
+  batchId: string;
+  period: string; // YYYY-MM of the statements it pays
+  statementIds: string[];
+  payouts: PayoutSchedule[];
+  totalAmount: number;
+  currency: string;
+  status: PayoutBatchStatus;
+  createdBy: string;
+  createdAt: number;
+  approvedBy?: string;
+  approvedAt?: number;
+  heldBy?: string;
+  heldAt?: number;
+  holdReason?: string;
+  releasedBy?: string;
+  releasedAt?: number;
+}
+
 export interface FinancialReport {
   id: string;
   reportId?: string; // Alternative ID for consistency
@@ -16,6 +16,8 @@ export type {
   Engine,
   Location,
   Review,
+  ReviewModerationStatus,
+  ReviewResponse,
   ListingRating,
   
   // User management
@@ -30,7 +32,39 @@ export type {
   
   // Search and filtering
   SearchFilters,
+  SearchSortField,
   SearchResult,
+  SearchResultListing,
+  FeaturedSearchResultListing,
+  SavedSearch,
+  SavedSearchEmailFrequency,
+  Favorite,
+  FavoriteListing,
+  SearchFacets,
+  FacetValue,
+  RangeFacetValue,
+  
+  // Messaging
+  MessageParticipantRole,
+  MessageAttachment,
+  Message,
+  MessageThread,
+  MessageThreadSummary,
+
+  // Offers
+  OfferStatus,
+  OfferAction,
+  OfferActorRole,
+  OfferContingencyType,
+  OfferContingency,
+  OfferTerms,
+  OfferEvent,
+  Offer,
+  OfferSummary,
+
+  // Seller profiles
+  SellerProfileStats,
+  SellerProfile,
   
   // API responses
   ApiResponse,
@@ -44,12 +78,22 @@ export type {
   DashboardChartData,
   SystemAlert,
   ContentFlag,
+  ListingReportType,
+  ListingReportOutcome,
+  ListingReportRequest,
+  DuplicateSignal,
+  DuplicateImageMatch,
+  DuplicateMatch,
+  DuplicateComparison,
   FlaggedListing,
   ModerationDecision,
   ModerationStats,
   ModerationWorkflow,
   ModerationNotes,
   ModerationQueue,
+  ModeratorWorkload,
+  ModerationWorkloadSummary,
+  ModerationRebalanceResult,
   DateRange,
   AnalyticsMetrics,
   UserMetrics,
@@ -77,6 +121,21 @@ export type {
   PricingTier,
   NotificationSettings,
   NotificationTemplate,
+  ContentFilterCategory,
+  ContentFilterSeverity,
+  ContentFilterMatchType,
+  ContentFilterRule,
+  ContentFilterRuleSet,
+  ContentFilterVersionSummary,
+  ContentFilterPublishRequest,
+  ContentFilterDryRunRequest,
+  ContentFilterDryRunListing,
+  ContentFilterDryRunResult,
+  PendingUpdateFieldChange,
+  PendingUpdateFieldDecision,
+  PendingUpdateReviewRequest,
+  PendingUpdateReviewResult,
+  PendingUpdateAutoApprovalRules,
   
   // Support
   SupportTicket,
@@ -105,15 +164,57 @@ export type {
   // Financial Management
   Transaction,
   BillingAccount,
+  InvoiceStatus,
+  InvoiceLineItemType,
+  InvoiceLineItem,
+  UsageMeter,
+  UsageRecord,
+  UsageMeterSummary,
+  UsageSummary,
+  PromotionType,
+  PromotionStatus,
+  PromotionPlacement,
+  ListingPromotion,
+  PromotionQuote,
+  PromotionDailyStats,
+  PromotionReport,
+  InvoiceTaxLine,
+  TaxJurisdictionType,
+  TaxExemptionType,
+  TaxExemptionStatus,
+  TaxExemptionCertificate,
+  Invoice,
+  CouponDiscountType,
+  CouponDuration,
+  Coupon,
+  AppliedCoupon,
+  CouponRedemption,
+  LedgerAccountType,
+  LedgerAccount,
+  JournalEntrySourceType,
+  JournalLine,
+  JournalEntry,
+  LedgerPeriod,
   FinanceCalculation,
   PaymentScheduleItem,
   DisputeCase,
+  BillingCaseType,
+  DisputeMessage,
+  DisputeSla,
   DisputeEvidence,
   FinancialSummary,
   DisputedTransaction,
   PaymentProcessor,
   RefundRequest,
   PayoutSchedule,
+  CommissionPayeeType,
+  CommissionTier,
+  CommissionRule,
+  CommissionLine,
+  CommissionStatementStatus,
+  CommissionStatement,
+  PayoutBatchStatus,
+  PayoutBatch,
   FinancialReport,
   ExportOptions
 } from './common';
@@ -252,6 +252,7 @@ export const TEAM_DEFINITIONS: Record<TeamId, TeamDefinition> = {
       'Track revenue and financial metrics',
       'Handle invoicing',
       'Manage payment disputes',
+      'Answer customer refund requests and billing disputes',
       'Generate financial reports'
     ],
     defaultPermissions: [
@@ -260,7 +261,8 @@ export const TEAM_DEFINITIONS: Record<TeamId, TeamDefinition> = {
       'view_subscription_info',
       'view_financial_reports',
       'create_finance_notes',
-      'view_invoices'
+      'view_invoices',
+      'respond_to_billing_cases'
     ],
     managerPermissions: [
       'view_transactions',
@@ -272,6 +274,7 @@ export const TEAM_DEFINITIONS: Record<TeamId, TeamDefinition> = {
       'manage_billing',
       'create_invoices',
       'manage_payment_disputes',
+      'respond_to_billing_cases',
       'create_finance_notes',
       'view_invoices',
       'manage_pricing',
@@ -482,7 +485,8 @@ export const PERMISSION_CATEGORIES = {
   ],
   ACTIONS: [
     'respond_to_leads', 'respond_to_tickets', 'approve_listings',
-    'reject_listings', 'send_email_campaigns', 'process_refunds'
+    'reject_listings', 'send_email_campaigns', 'process_refunds',
+    'respond_to_billing_cases'
   ],
   ADMIN: [
     'manage_all_teams', 'manage_staff_roles', 'access_all_systems',
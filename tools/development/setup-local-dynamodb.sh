@@ -460,7 +460,6 @@ create_listings_table  # Use specialized function for listings table with SlugIn
 create_sessions_table  # Use specialized function for sessions table to match production
 create_simple_table "harborlist-login-attempts"
 create_simple_table "harborlist-audit-logs"
-create_simple_table "harborlist-reviews"
 create_admin_sessions_table  # Use specialized function for admin sessions table to match production
 create_simple_table "harborlist-analytics"
 
@@ -616,6 +615,699 @@ else
     fi
 fi
 
+# Create search index table with delta-sync index
+echo "📊 Creating search index table: harborlist-search-index"
+if aws dynamodb describe-table --table-name "harborlist-search-index" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-search-index already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-search-index" \
+        --key-schema AttributeName=listingId,KeyType=HASH \
+        --attribute-definitions \
+            AttributeName=listingId,AttributeType=S \
+            AttributeName=docType,AttributeType=S \
+            AttributeName=indexedAt,AttributeType=N \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --global-secondary-indexes \
+        '[{
+            "IndexName": "IndexedAtIndex",
+            "KeySchema": [{"AttributeName": "docType", "KeyType": "HASH"}, {"AttributeName": "indexedAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }]' \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Search index table created successfully with IndexedAtIndex GSI"
+        echo "   ℹ️  The index is built from existing listings on the first search"
+    else
+        echo "   ❌ Failed to create search index table"
+    fi
+fi
+
+# Create saved searches table (one record per user and saved search)
+echo "📊 Creating saved searches table: harborlist-saved-searches"
+if aws dynamodb describe-table --table-name "harborlist-saved-searches" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-saved-searches already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-saved-searches" \
+        --key-schema AttributeName=userId,KeyType=HASH AttributeName=searchId,KeyType=RANGE \
+        --attribute-definitions \
+            AttributeName=userId,AttributeType=S \
+            AttributeName=searchId,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Saved searches table created successfully"
+    else
+        echo "   ❌ Failed to create saved searches table"
+    fi
+fi
+
+# Create favorites table with listing index for watcher lookups
+echo "📊 Creating favorites table: harborlist-favorites"
+if aws dynamodb describe-table --table-name "harborlist-favorites" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-favorites already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-favorites" \
+        --key-schema AttributeName=userId,KeyType=HASH AttributeName=listingId,KeyType=RANGE \
+        --attribute-definitions \
+            AttributeName=userId,AttributeType=S \
+            AttributeName=listingId,AttributeType=S \
+            AttributeName=createdAt,AttributeType=N \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --global-secondary-indexes \
+        '[{
+            "IndexName": "listing-index",
+            "KeySchema": [{"AttributeName": "listingId", "KeyType": "HASH"}, {"AttributeName": "createdAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }]' \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Favorites table created successfully with listing-index GSI"
+    else
+        echo "   ❌ Failed to create favorites table"
+    fi
+fi
+
+# Create message threads table with seller (inbox) and buyer (outbox) indexes
+echo "📊 Creating message threads table: harborlist-message-threads"
+if aws dynamodb describe-table --table-name "harborlist-message-threads" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-message-threads already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-message-threads" \
+        --key-schema AttributeName=threadId,KeyType=HASH \
+        --attribute-definitions \
+            AttributeName=threadId,AttributeType=S \
+            AttributeName=sellerId,AttributeType=S \
+            AttributeName=buyerId,AttributeType=S \
+            AttributeName=lastMessageAt,AttributeType=N \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --global-secondary-indexes \
+        '[{
+            "IndexName": "seller-index",
+            "KeySchema": [{"AttributeName": "sellerId", "KeyType": "HASH"}, {"AttributeName": "lastMessageAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }, {
+            "IndexName": "buyer-index",
+            "KeySchema": [{"AttributeName": "buyerId", "KeyType": "HASH"}, {"AttributeName": "lastMessageAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }]' \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Message threads table created successfully with seller-index and buyer-index GSIs"
+    else
+        echo "   ❌ Failed to create message threads table"
+    fi
+fi
+
+# Create messages table (messages of a thread in chronological order)
+echo "📊 Creating messages table: harborlist-messages"
+if aws dynamodb describe-table --table-name "harborlist-messages" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-messages already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-messages" \
+        --key-schema AttributeName=threadId,KeyType=HASH AttributeName=messageId,KeyType=RANGE \
+        --attribute-definitions \
+            AttributeName=threadId,AttributeType=S \
+            AttributeName=messageId,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Messages table created successfully"
+    else
+        echo "   ❌ Failed to create messages table"
+    fi
+fi
+
+# Create offers table with listing (seller), buyer and status/expiry indexes
+echo "📊 Creating offers table: harborlist-offers"
+if aws dynamodb describe-table --table-name "harborlist-offers" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-offers already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-offers" \
+        --key-schema AttributeName=offerId,KeyType=HASH \
+        --attribute-definitions \
+            AttributeName=offerId,AttributeType=S \
+            AttributeName=listingId,AttributeType=S \
+            AttributeName=buyerId,AttributeType=S \
+            AttributeName=status,AttributeType=S \
+            AttributeName=createdAt,AttributeType=N \
+            AttributeName=expiresAt,AttributeType=N \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --global-secondary-indexes \
+        '[{
+            "IndexName": "listing-index",
+            "KeySchema": [{"AttributeName": "listingId", "KeyType": "HASH"}, {"AttributeName": "createdAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }, {
+            "IndexName": "buyer-index",
+            "KeySchema": [{"AttributeName": "buyerId", "KeyType": "HASH"}, {"AttributeName": "createdAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }, {
+            "IndexName": "status-index",
+            "KeySchema": [{"AttributeName": "status", "KeyType": "HASH"}, {"AttributeName": "expiresAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }]' \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Offers table created successfully with listing-index, buyer-index and status-index GSIs"
+    else
+        echo "   ❌ Failed to create offers table"
+    fi
+fi
+
+# Create reviews table with listing and moderation-queue indexes
+echo "📊 Creating reviews table: harborlist-reviews"
+if aws dynamodb describe-table --table-name "harborlist-reviews" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-reviews already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-reviews" \
+        --key-schema AttributeName=reviewId,KeyType=HASH \
+        --attribute-definitions \
+            AttributeName=reviewId,AttributeType=S \
+            AttributeName=listingId,AttributeType=S \
+            AttributeName=moderationStatus,AttributeType=S \
+            AttributeName=createdAt,AttributeType=N \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --global-secondary-indexes \
+        '[{
+            "IndexName": "listing-index",
+            "KeySchema": [{"AttributeName": "listingId", "KeyType": "HASH"}, {"AttributeName": "createdAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }, {
+            "IndexName": "moderation-index",
+            "KeySchema": [{"AttributeName": "moderationStatus", "KeyType": "HASH"}, {"AttributeName": "createdAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }]' \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Reviews table created successfully with listing-index and moderation-index GSIs"
+    else
+        echo "   ❌ Failed to create reviews table"
+    fi
+fi
+
+# Create scheduled jobs table with status/run-time index for the scheduler tick
+echo "📊 Creating jobs table: harborlist-jobs"
+if aws dynamodb describe-table --table-name "harborlist-jobs" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-jobs already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-jobs" \
+        --key-schema AttributeName=jobId,KeyType=HASH \
+        --attribute-definitions \
+            AttributeName=jobId,AttributeType=S \
+            AttributeName=status,AttributeType=S \
+            AttributeName=runAt,AttributeType=N \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --global-secondary-indexes \
+        '[{
+            "IndexName": "status-index",
+            "KeySchema": [{"AttributeName": "status", "KeyType": "HASH"}, {"AttributeName": "runAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }]' \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Jobs table created successfully with status-index GSI"
+    else
+        echo "   ❌ Failed to create jobs table"
+    fi
+fi
+
+# Create payment failures table (dunning and retry state)
+echo "📊 Creating payment failures table: harborlist-payment-failures"
+if aws dynamodb describe-table --table-name "harborlist-payment-failures" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-payment-failures already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-payment-failures" \
+        --key-schema AttributeName=failureId,KeyType=HASH \
+        --attribute-definitions AttributeName=failureId,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Payment failures table created successfully"
+    else
+        echo "   ❌ Failed to create payment failures table"
+    fi
+fi
+
+# Create disputes table (dispute cases with workflow and evidence)
+echo "📊 Creating disputes table: harborlist-disputes"
+if aws dynamodb describe-table --table-name "harborlist-disputes" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-disputes already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-disputes" \
+        --key-schema AttributeName=disputeId,KeyType=HASH \
+        --attribute-definitions \
+            AttributeName=disputeId,AttributeType=S \
+            AttributeName=userId,AttributeType=S \
+            AttributeName=disputeDate,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --global-secondary-indexes \
+        '[{
+            "IndexName": "user-index",
+            "KeySchema": [{"AttributeName": "userId", "KeyType": "HASH"}, {"AttributeName": "disputeDate", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }]' \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Disputes table created successfully with user-index GSI"
+    else
+        echo "   ❌ Failed to create disputes table"
+    fi
+fi
+
+# Create invoices table with per-customer and per-status indexes
+echo "📊 Creating invoices table: harborlist-invoices"
+if aws dynamodb describe-table --table-name "harborlist-invoices" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-invoices already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-invoices" \
+        --key-schema AttributeName=invoiceId,KeyType=HASH \
+        --attribute-definitions \
+            AttributeName=invoiceId,AttributeType=S \
+            AttributeName=userId,AttributeType=S \
+            AttributeName=status,AttributeType=S \
+            AttributeName=createdAt,AttributeType=N \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --global-secondary-indexes \
+        '[{
+            "IndexName": "user-index",
+            "KeySchema": [{"AttributeName": "userId", "KeyType": "HASH"}, {"AttributeName": "createdAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }, {
+            "IndexName": "status-index",
+            "KeySchema": [{"AttributeName": "status", "KeyType": "HASH"}, {"AttributeName": "createdAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }]' \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Invoices table created successfully with user-index and status-index GSIs"
+    else
+        echo "   ❌ Failed to create invoices table"
+    fi
+fi
+
+# Create coupons table (one item per code)
+echo "📊 Creating coupons table: harborlist-coupons"
+if aws dynamodb describe-table --table-name "harborlist-coupons" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-coupons already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-coupons" \
+        --key-schema AttributeName=code,KeyType=HASH \
+        --attribute-definitions AttributeName=code,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Coupons table created successfully"
+    else
+        echo "   ❌ Failed to create coupons table"
+    fi
+fi
+
+# Create coupon redemptions table with per-code and per-customer indexes
+echo "📊 Creating coupon redemptions table: harborlist-coupon-redemptions"
+if aws dynamodb describe-table --table-name "harborlist-coupon-redemptions" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-coupon-redemptions already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-coupon-redemptions" \
+        --key-schema AttributeName=redemptionId,KeyType=HASH \
+        --attribute-definitions \
+            AttributeName=redemptionId,AttributeType=S \
+            AttributeName=code,AttributeType=S \
+            AttributeName=userId,AttributeType=S \
+            AttributeName=redeemedAt,AttributeType=N \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --global-secondary-indexes \
+        '[{
+            "IndexName": "code-index",
+            "KeySchema": [{"AttributeName": "code", "KeyType": "HASH"}, {"AttributeName": "redeemedAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }, {
+            "IndexName": "user-index",
+            "KeySchema": [{"AttributeName": "userId", "KeyType": "HASH"}, {"AttributeName": "redeemedAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }]' \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Coupon redemptions table created successfully with code-index and user-index GSIs"
+    else
+        echo "   ❌ Failed to create coupon redemptions table"
+    fi
+fi
+
+# Create ledger entries table with a per-month index
+echo "📊 Creating ledger entries table: harborlist-ledger-entries"
+if aws dynamodb describe-table --table-name "harborlist-ledger-entries" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-ledger-entries already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-ledger-entries" \
+        --key-schema AttributeName=entryId,KeyType=HASH \
+        --attribute-definitions \
+            AttributeName=entryId,AttributeType=S \
+            AttributeName=period,AttributeType=S \
+            AttributeName=postedAt,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --global-secondary-indexes \
+        '[{
+            "IndexName": "period-index",
+            "KeySchema": [{"AttributeName": "period", "KeyType": "HASH"}, {"AttributeName": "postedAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }]' \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Ledger entries table created successfully with period-index GSI"
+    else
+        echo "   ❌ Failed to create ledger entries table"
+    fi
+fi
+
+# Create ledger periods table (one item per month)
+echo "📊 Creating ledger periods table: harborlist-ledger-periods"
+if aws dynamodb describe-table --table-name "harborlist-ledger-periods" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-ledger-periods already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-ledger-periods" \
+        --key-schema AttributeName=period,KeyType=HASH \
+        --attribute-definitions AttributeName=period,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Ledger periods table created successfully"
+    else
+        echo "   ❌ Failed to create ledger periods table"
+    fi
+fi
+
+echo "📊 Creating webhook events table: harborlist-webhook-events"
+if aws dynamodb describe-table --table-name "harborlist-webhook-events" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-webhook-events already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-webhook-events" \
+        --key-schema AttributeName=eventId,KeyType=HASH AttributeName=processorType,KeyType=RANGE \
+        --attribute-definitions AttributeName=eventId,AttributeType=S AttributeName=processorType,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Webhook events table created successfully"
+    else
+        echo "   ❌ Failed to create webhook events table"
+    fi
+fi
+
+# Create commission rules table
+echo "📊 Creating commission rules table: harborlist-commission-rules"
+if aws dynamodb describe-table --table-name "harborlist-commission-rules" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-commission-rules already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-commission-rules" \
+        --key-schema AttributeName=ruleId,KeyType=HASH \
+        --attribute-definitions AttributeName=ruleId,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Commission rules table created successfully"
+    else
+        echo "   ❌ Failed to create commission rules table"
+    fi
+fi
+
+# Create commission statements table with per-month and per-payee indexes
+echo "📊 Creating commission statements table: harborlist-commission-statements"
+if aws dynamodb describe-table --table-name "harborlist-commission-statements" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-commission-statements already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-commission-statements" \
+        --key-schema AttributeName=statementId,KeyType=HASH \
+        --attribute-definitions \
+            AttributeName=statementId,AttributeType=S \
+            AttributeName=period,AttributeType=S \
+            AttributeName=payeeId,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --global-secondary-indexes \
+        '[{
+            "IndexName": "period-index",
+            "KeySchema": [{"AttributeName": "period", "KeyType": "HASH"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        },
+        {
+            "IndexName": "payee-index",
+            "KeySchema": [{"AttributeName": "payeeId", "KeyType": "HASH"}, {"AttributeName": "period", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }]' \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Commission statements table created successfully with period-index and payee-index GSIs"
+    else
+        echo "   ❌ Failed to create commission statements table"
+    fi
+fi
+
+# Create payout batches table
+echo "📊 Creating payout batches table: harborlist-payout-batches"
+if aws dynamodb describe-table --table-name "harborlist-payout-batches" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-payout-batches already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-payout-batches" \
+        --key-schema AttributeName=batchId,KeyType=HASH \
+        --attribute-definitions AttributeName=batchId,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Payout batches table created successfully"
+    else
+        echo "   ❌ Failed to create payout batches table"
+    fi
+fi
+
+# Create usage table
+echo "📊 Creating usage table: harborlist-usage"
+if aws dynamodb describe-table --table-name "harborlist-usage" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-usage already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-usage" \
+        --key-schema AttributeName=userId,KeyType=HASH AttributeName=periodStart,KeyType=RANGE \
+        --attribute-definitions AttributeName=userId,AttributeType=S AttributeName=periodStart,AttributeType=N \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Usage table created successfully"
+    else
+        echo "   ❌ Failed to create usage table"
+    fi
+fi
+
+# Create listing promotions table with per-seller and live-promotion indexes
+echo "📊 Creating promotions table: harborlist-promotions"
+if aws dynamodb describe-table --table-name "harborlist-promotions" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-promotions already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-promotions" \
+        --key-schema AttributeName=promotionId,KeyType=HASH \
+        --attribute-definitions \
+            AttributeName=promotionId,AttributeType=S \
+            AttributeName=sellerId,AttributeType=S \
+            AttributeName=createdAt,AttributeType=N \
+            AttributeName=status,AttributeType=S \
+            AttributeName=endsAt,AttributeType=N \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --global-secondary-indexes \
+        '[{
+            "IndexName": "seller-index",
+            "KeySchema": [{"AttributeName": "sellerId", "KeyType": "HASH"}, {"AttributeName": "createdAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        },
+        {
+            "IndexName": "status-index",
+            "KeySchema": [{"AttributeName": "status", "KeyType": "HASH"}, {"AttributeName": "endsAt", "KeyType": "RANGE"}],
+            "Projection": {"ProjectionType": "ALL"},
+            "ProvisionedThroughput": {"ReadCapacityUnits": 5, "WriteCapacityUnits": 5}
+        }]' \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Promotions table created successfully with seller-index and status-index GSIs"
+    else
+        echo "   ❌ Failed to create promotions table"
+    fi
+fi
+
+# Create promotion daily stats table
+echo "📊 Creating promotion stats table: harborlist-promotion-stats"
+if aws dynamodb describe-table --table-name "harborlist-promotion-stats" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-promotion-stats already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-promotion-stats" \
+        --key-schema AttributeName=promotionId,KeyType=HASH AttributeName=day,KeyType=RANGE \
+        --attribute-definitions AttributeName=promotionId,AttributeType=S AttributeName=day,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Promotion stats table created successfully"
+    else
+        echo "   ❌ Failed to create promotion stats table"
+    fi
+fi
+
+# Create listing report rate limit table (counters expire via TTL)
+echo "📊 Creating report limits table: harborlist-report-limits"
+if aws dynamodb describe-table --table-name "harborlist-report-limits" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-report-limits already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-report-limits" \
+        --key-schema AttributeName=limitKey,KeyType=HASH \
+        --attribute-definitions AttributeName=limitKey,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Report limits table created successfully"
+    else
+        echo "   ❌ Failed to create report limits table"
+    fi
+fi
+
+# Create duplicate detection tables (photo hashes, listing fingerprints, LSH buckets)
+echo "📊 Creating image hashes table: harborlist-image-hashes"
+if aws dynamodb describe-table --table-name "harborlist-image-hashes" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-image-hashes already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-image-hashes" \
+        --key-schema AttributeName=imageKey,KeyType=HASH \
+        --attribute-definitions AttributeName=imageKey,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Image hashes table created successfully"
+    else
+        echo "   ❌ Failed to create image hashes table"
+    fi
+fi
+
+echo "📊 Creating listing fingerprints table: harborlist-listing-fingerprints"
+if aws dynamodb describe-table --table-name "harborlist-listing-fingerprints" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-listing-fingerprints already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-listing-fingerprints" \
+        --key-schema AttributeName=listingId,KeyType=HASH \
+        --attribute-definitions AttributeName=listingId,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Listing fingerprints table created successfully"
+    else
+        echo "   ❌ Failed to create listing fingerprints table"
+    fi
+fi
+
+echo "📊 Creating fingerprint buckets table: harborlist-fingerprint-buckets"
+if aws dynamodb describe-table --table-name "harborlist-fingerprint-buckets" --endpoint-url "$DYNAMODB_ENDPOINT" --region "$AWS_REGION" >/dev/null 2>&1; then
+    echo "   ✅ Table harborlist-fingerprint-buckets already exists"
+else
+    aws dynamodb create-table \
+        --table-name "harborlist-fingerprint-buckets" \
+        --key-schema AttributeName=bucket,KeyType=HASH AttributeName=listingId,KeyType=RANGE \
+        --attribute-definitions AttributeName=bucket,AttributeType=S AttributeName=listingId,AttributeType=S \
+        --provisioned-throughput ReadCapacityUnits=5,WriteCapacityUnits=5 \
+        --endpoint-url "$DYNAMODB_ENDPOINT" \
+        --region "$AWS_REGION" >/dev/null 2>&1
+    
+    if [ $? -eq 0 ]; then
+        echo "   ✅ Fingerprint buckets table created successfully"
+    else
+        echo "   ❌ Failed to create fingerprint buckets table"
+    fi
+fi
+
 echo ""
 echo "🎯 Setting up LocalStack S3 Buckets..."
 